@@ -10,9 +10,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { DollarSign, Clock, CheckCircle, XCircle, Ban, AlertCircle, Loader2, User } from "lucide-react";
+import { DollarSign, Clock, CheckCircle, XCircle, Ban, AlertCircle, Loader2, User, Paperclip } from "lucide-react";
 import { format } from "date-fns";
-import type { PaymentRequest } from "@shared/schema";
+import type { PaymentRequest, PaymentRequestReceipt } from "@shared/schema";
 
 function getStatusIcon(status: string) {
   switch (status) {
@@ -48,6 +48,7 @@ interface PaymentRequestWithDetails extends PaymentRequest {
   requesterName?: string;
   requesterEmail?: string;
   reviewerName?: string;
+  receipts?: PaymentRequestReceipt[];
 }
 
 interface ReviewDialogProps {
@@ -122,6 +123,12 @@ function ReviewDialog({ open, onOpenChange, request, action }: ReviewDialogProps
             </div>
           </div>
 
+          {action === "approve" && request.requiredApprovals > 1 && (
+            <p className="text-sm text-muted-foreground">
+              This request needs {request.requiredApprovals} admin approvals; {request.approvalCount} recorded so far.
+            </p>
+          )}
+
           <div>
             <label className="text-sm font-medium">
               {action === "approve" ? "Note (optional)" : "Reason for rejection"}
@@ -141,6 +148,13 @@ function ReviewDialog({ open, onOpenChange, request, action }: ReviewDialogProps
           </div>
         </div>
 
+        {reviewMutation.error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{reviewMutation.error.message}</AlertDescription>
+          </Alert>
+        )}
+
         <DialogFooter>
           <Button
             variant="outline"
@@ -205,6 +219,13 @@ function AdminPaymentRequestCard({
           <span className="text-lg font-bold">{request.currency} {request.amount}</span>
         </div>
 
+        {request.requiredApprovals > 1 && (
+          <div className="flex items-center justify-between text-sm" data-testid={`approvals-${request.id}`}>
+            <span className="font-medium">Approvals</span>
+            <span className="text-muted-foreground">{request.approvalCount} of {request.requiredApprovals}</span>
+          </div>
+        )}
+
         <div>
           <p className="text-sm font-medium">Reason</p>
           <p className="text-sm text-muted-foreground">{request.reason}</p>
@@ -217,6 +238,23 @@ function AdminPaymentRequestCard({
           </div>
         )}
 
+        {request.receipts && request.receipts.length > 0 && (
+          <div>
+            <p className="text-sm font-medium">Receipts</p>
+            {request.receipts.map((receipt) => (
+              <a
+                key={receipt.id}
+                href={`/api/payment-requests/${request.id}/receipts/${receipt.id}`}
+                className="flex items-center gap-1 text-sm text-primary hover:underline"
+                data-testid={`link-receipt-${receipt.id}`}
+              >
+                <Paperclip className="h-3 w-3" />
+                {receipt.originalName}
+              </a>
+            ))}
+          </div>
+        )}
+
         {request.adminNote && (
           <div className="pt-2 border-t">
             <p className="text-sm font-medium">Admin Note</p>
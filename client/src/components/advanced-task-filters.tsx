@@ -1,11 +1,18 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import type { SavedFilter } from "@shared/schema";
+import type { SavedFilter, TaskCustomField, TaskFilterCondition, TaskFilterOperator, TaskSort } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Popover,
   PopoverContent,
@@ -28,7 +35,11 @@ import {
   Bookmark, 
   BookmarkPlus, 
   Trash2,
-  Loader2
+  Loader2,
+  SlidersHorizontal,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import { format } from "date-fns";
 import type { DateRange } from "react-day-picker";
@@ -50,6 +61,21 @@ interface AdvancedTaskFiltersProps {
   clients: string[];
   onClearFilters: () => void;
   onApplyFilter?: (filter: SavedFilter) => void;
+  customFieldConditions: TaskFilterCondition[];
+  onCustomFieldConditionsChange: (conditions: TaskFilterCondition[]) => void;
+  sort: TaskSort[];
+  onSortChange: (sort: TaskSort[]) => void;
+}
+
+interface ContentTaskFilterSettings {
+  scope?: string;
+  searchQuery?: string;
+  selectedStatuses?: string[];
+  selectedAssignees?: string[];
+  selectedClients?: string[];
+  dateRange?: { from?: string; to?: string } | null;
+  conditions?: TaskFilterCondition[];
+  sort?: TaskSort[];
 }
 
 const STATUSES = [
@@ -58,6 +84,49 @@ const STATUSES = [
   "COMPLETED"
 ];
 
+const OPERATOR_LABELS: Record<TaskFilterOperator, string> = {
+  eq: "is",
+  neq: "is not",
+  gt: "greater than",
+  gte: "at least",
+  lt: "less than",
+  lte: "at most",
+  contains: "contains",
+  in: "is any of",
+  empty: "is empty",
+  not_empty: "is set",
+};
+
+const BUILT_IN_SORT_FIELDS = [
+  { value: "dueDate", label: "Due date" },
+  { value: "createdAt", label: "Created" },
+  { value: "priority", label: "Priority" },
+  { value: "status", label: "Status" },
+];
+
+function operatorsFor(field: TaskCustomField | undefined): TaskFilterOperator[] {
+  switch (field?.fieldType) {
+    case "number":
+    case "currency":
+    case "rating":
+    case "date":
+      return ["eq", "neq", "gt", "gte", "lt", "lte", "empty", "not_empty"];
+    case "checkbox":
+      return ["eq"];
+    case "dropdown":
+      return ["eq", "neq", "in", "empty", "not_empty"];
+    case "labels":
+    case "people":
+      return ["contains", "neq", "empty", "not_empty"];
+    default:
+      return ["eq", "neq", "contains", "empty", "not_empty"];
+  }
+}
+
+function fieldOptions(field: TaskCustomField | undefined): { id: string; label: string }[] {
+  return Array.isArray(field?.options) ? (field.options as { id: string; label: string }[]) : [];
+}
+
 export function AdvancedTaskFilters({
   searchQuery,
   onSearchChange,
@@ -73,31 +142,75 @@ export function AdvancedTaskFilters({
   clients,
   onClearFilters,
   onApplyFilter,
+  customFieldConditions,
+  onCustomFieldConditionsChange,
+  sort,
+  onSortChange,
 }: AdvancedTaskFiltersProps) {
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
   const [filterName, setFilterName] = useState("");
+  const [draftFieldId, setDraftFieldId] = useState<string>("");
+  const [draftOperator, setDraftOperator] = useState<TaskFilterOperator>("eq");
+  const [draftValue, setDraftValue] = useState("");
   const { toast } = useToast();
 
   const { data: savedFilters, isLoading: filtersLoading } = useQuery<SavedFilter[]>({
     queryKey: ["/api/saved-filters"],
   });
 
+  const { data: allCustomFields } = useQuery<TaskCustomField[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  // Fields that can appear on content tasks
+  const customFields = allCustomFields?.filter(f => !f.boardId && f.scope !== "team") || [];
+  const getCustomField = (field: string) => customFields.find(f => `cf.${f.id}` === field);
+  const draftField = getCustomField(draftFieldId);
+  const draftNeedsValue = draftOperator !== "empty" && draftOperator !== "not_empty";
+
+  const describeValue = (condition: TaskFilterCondition) => {
+    const field = getCustomField(condition.field);
+    const values = Array.isArray(condition.value) ? condition.value : condition.value ? [condition.value] : [];
+    return values
+      .map(v => fieldOptions(field).find(o => o.id === v)?.label || v)
+      .join(", ");
+  };
+
+  const handleAddCondition = () => {
+    if (!draftFieldId || (draftNeedsValue && !draftValue.trim())) return;
+    onCustomFieldConditionsChange([
+      ...customFieldConditions,
+      {
+        field: draftFieldId,
+        operator: draftOperator,
+        value: !draftNeedsValue
+          ? undefined
+          : draftOperator === "in"
+            ? draftValue.split(",").map(v => v.trim()).filter(Boolean)
+            : draftValue.trim(),
+      },
+    ]);
+    setDraftValue("");
+  };
+
+  const primarySort = sort[0];
+
   const saveFilterMutation = useMutation({
     mutationFn: async (name: string) => {
-      const filterData = {
-        name,
-        filterType: "content_tasks",
-        filterConfig: JSON.stringify({
-          searchQuery,
-          selectedStatuses,
-          selectedAssignees,
-          selectedClients,
-          dateRange: dateRange ? {
-            from: dateRange.from?.toISOString(),
-            to: dateRange.to?.toISOString(),
-          } : null,
-        }),
+      const filters: ContentTaskFilterSettings = {
+        scope: "content_tasks",
+        searchQuery,
+        selectedStatuses,
+        selectedAssignees,
+        selectedClients,
+        dateRange: dateRange ? {
+          from: dateRange.from?.toISOString(),
+          to: dateRange.to?.toISOString(),
+        } : null,
+        conditions: customFieldConditions,
+        sort,
       };
+      const filterData = { name, filters };
       return await apiRequest("POST", "/api/saved-filters", filterData);
     },
     onSuccess: () => {
@@ -140,7 +253,7 @@ export function AdvancedTaskFilters({
 
   const handleApplyFilter = (filter: SavedFilter) => {
     try {
-      const config = JSON.parse(filter.filterConfig);
+      const config = (filter.filters || {}) as ContentTaskFilterSettings;
       
       onClearFilters();
       
@@ -148,6 +261,9 @@ export function AdvancedTaskFilters({
         onSearchChange(config.searchQuery);
       }
       
+      onCustomFieldConditionsChange(config.conditions || []);
+      onSortChange(config.sort || []);
+      
       if (config.selectedStatuses?.length) {
         config.selectedStatuses.forEach((status: string) => {
           if (!selectedStatuses.includes(status)) {
@@ -212,9 +328,10 @@ export function AdvancedTaskFilters({
     selectedStatuses.length +
     selectedAssignees.length +
     selectedClients.length +
+    customFieldConditions.length +
     (dateRange?.from || dateRange?.to ? 1 : 0);
 
-  const contentFilters = savedFilters?.filter(f => f.filterType === "content_tasks") || [];
+  const contentFilters = savedFilters?.filter(f => (f.filters as ContentTaskFilterSettings | null)?.scope === "content_tasks") || [];
 
   return (
     <div className="space-y-4 pb-4 border-b">
@@ -472,6 +589,148 @@ export function AdvancedTaskFilters({
             )}
           </PopoverContent>
         </Popover>
+
+        {/* Custom Field Filter */}
+        {customFields.length > 0 && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" data-testid="button-filter-custom-fields">
+                <SlidersHorizontal className="h-3 w-3 mr-2" />
+                Custom Fields
+                {customFieldConditions.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 h-5 px-1">
+                    {customFieldConditions.length}
+                  </Badge>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80" align="start">
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold">Filter by Custom Field</Label>
+                <Select
+                  value={draftFieldId}
+                  onValueChange={(value) => {
+                    setDraftFieldId(value);
+                    setDraftOperator(operatorsFor(getCustomField(value))[0]);
+                    setDraftValue("");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-custom-field">
+                    <SelectValue placeholder="Choose a field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customFields.map((field) => (
+                      <SelectItem key={field.id} value={`cf.${field.id}`}>
+                        {field.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {draftField && (
+                  <>
+                    <Select value={draftOperator} onValueChange={(value) => setDraftOperator(value as TaskFilterOperator)}>
+                      <SelectTrigger data-testid="select-custom-field-operator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {operatorsFor(draftField).map((operator) => (
+                          <SelectItem key={operator} value={operator}>
+                            {OPERATOR_LABELS[operator]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {draftNeedsValue && (
+                      draftField.fieldType === "checkbox" ? (
+                        <Select value={draftValue} onValueChange={setDraftValue}>
+                          <SelectTrigger data-testid="select-custom-field-value">
+                            <SelectValue placeholder="Choose a value" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="true">Checked</SelectItem>
+                            <SelectItem value="false">Unchecked</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : fieldOptions(draftField).length > 0 && draftOperator !== "in" ? (
+                        <Select value={draftValue} onValueChange={setDraftValue}>
+                          <SelectTrigger data-testid="select-custom-field-value">
+                            <SelectValue placeholder="Choose an option" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fieldOptions(draftField).map((option) => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type={draftField.fieldType === "date" ? "date" : ["number", "currency", "rating"].includes(draftField.fieldType) ? "number" : "text"}
+                          value={draftValue}
+                          onChange={(e) => setDraftValue(e.target.value)}
+                          placeholder={draftOperator === "in" ? "Comma-separated values" : "Value"}
+                          data-testid="input-custom-field-value"
+                        />
+                      )
+                    )}
+
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={handleAddCondition}
+                      disabled={draftNeedsValue && !draftValue.trim()}
+                      data-testid="button-add-custom-field-condition"
+                    >
+                      Add condition
+                    </Button>
+                  </>
+                )}
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+
+        {/* Sort */}
+        <div className="flex items-center gap-1">
+          <Select
+            value={primarySort?.field || "default"}
+            onValueChange={(value) =>
+              onSortChange(value === "default" ? [] : [{ field: value, direction: primarySort?.direction || "asc" }])
+            }
+          >
+            <SelectTrigger className="h-8 w-44" data-testid="select-sort-field">
+              <ArrowUpDown className="h-3 w-3 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default order</SelectItem>
+              {BUILT_IN_SORT_FIELDS.map((field) => (
+                <SelectItem key={field.value} value={field.value}>
+                  {field.label}
+                </SelectItem>
+              ))}
+              {customFields.map((field) => (
+                <SelectItem key={field.id} value={`cf.${field.id}`}>
+                  {field.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {primarySort && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onSortChange([{ ...primarySort, direction: primarySort.direction === "asc" ? "desc" : "asc" }])}
+              data-testid="button-toggle-sort-direction"
+            >
+              {primarySort.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Active Filters Display */}
@@ -516,6 +775,19 @@ export function AdvancedTaskFilters({
               />
             </Badge>
           ))}
+          {customFieldConditions.map((condition, index) => (
+            <Badge
+              key={`cf-${index}`}
+              variant="secondary"
+              className="gap-1"
+            >
+              {getCustomField(condition.field)?.name || condition.field} {OPERATOR_LABELS[condition.operator]} {describeValue(condition)}
+              <X
+                className="h-3 w-3 cursor-pointer"
+                onClick={() => onCustomFieldConditionsChange(customFieldConditions.filter((_, i) => i !== index))}
+              />
+            </Badge>
+          ))}
           {(dateRange?.from || dateRange?.to) && (
             <Badge variant="secondary" className="gap-1">
               Due: {dateRange?.from && format(dateRange.from, "MMM d")}
@@ -565,6 +837,11 @@ export function AdvancedTaskFilters({
                 {selectedClients.length > 0 && (
                   <li>Clients: {selectedClients.join(", ")}</li>
                 )}
+                {customFieldConditions.map((condition, index) => (
+                  <li key={index}>
+                    {getCustomField(condition.field)?.name || condition.field} {OPERATOR_LABELS[condition.operator]} {describeValue(condition)}
+                  </li>
+                ))}
                 {(dateRange?.from || dateRange?.to) && (
                   <li>
                     Due date: {dateRange?.from && format(dateRange.from, "MMM d")}
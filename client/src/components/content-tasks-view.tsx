@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import type { ContentTask, User, DirectoryMember } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { ContentTask, User, DirectoryMember, TaskFilterCondition, TaskSort } from "@shared/schema";
 import { internalProjects } from "@shared/schema";
 import { ContentTaskCard } from "@/components/content-task-card";
 import { AdvancedTaskFilters } from "@/components/advanced-task-filters";
@@ -28,11 +29,34 @@ export function ContentTasksView() {
   const [viewingTask, setViewingTask] = useState<ContentTask | null>(null);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [showMyTasksOnly, setShowMyTasksOnly] = useState(true);
+  const [customFieldConditions, setCustomFieldConditions] = useState<TaskFilterCondition[]>([]);
+  const [sort, setSort] = useState<TaskSort[]>([]);
 
   const { data: tasks, isLoading, error } = useQuery<ContentTask[]>({
     queryKey: ["/api/content-tasks"],
   });
 
+  // Custom field conditions and sorting are evaluated by the server
+  const listQuery = new URLSearchParams();
+  customFieldConditions.forEach((condition) => {
+    const value = Array.isArray(condition.value) ? condition.value.join(",") : condition.value;
+    listQuery.append("filter", [condition.field, condition.operator, value].filter((part) => part !== undefined).join(":"));
+  });
+  if (sort.length > 0) {
+    listQuery.set("sort", sort.map((s) => (s.direction === "desc" ? `-${s.field}` : s.field)).join(","));
+  }
+  const listQueryString = listQuery.toString();
+
+  const { data: queriedTasks, isLoading: isQueryLoading } = useQuery<ContentTask[]>({
+    queryKey: ["/api/content-tasks", "query", listQueryString],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/content-tasks?${listQueryString}`);
+      return res.json();
+    },
+    enabled: listQueryString !== "",
+  });
+  const baseTasks = listQueryString !== "" ? queriedTasks : tasks;
+
   const { data: currentUser } = useQuery<User>({
     queryKey: ["/api/auth/user"],
   });
@@ -65,7 +89,7 @@ export function ContentTasksView() {
     );
   }
 
-  const filteredTasks = tasks?.filter((task) => {
+  const filteredTasks = baseTasks?.filter((task) => {
     if (showMyTasksOnly && currentUserDisplayName) {
       if (task.assignedTo?.toLowerCase() !== currentUserDisplayName.toLowerCase()) {
         return false;
@@ -159,6 +183,8 @@ export function ContentTasksView() {
     setSelectedClientType("all");
     setSelectedInternalProjects([]);
     setDateRange(undefined);
+    setCustomFieldConditions([]);
+    setSort([]);
   };
 
   const handleInternalProjectToggle = (project: string) => {
@@ -298,6 +324,10 @@ export function ContentTasksView() {
         assignees={uniqueAssignees}
         clients={uniqueClients}
         onClearFilters={handleClearFilters}
+        customFieldConditions={customFieldConditions}
+        onCustomFieldConditionsChange={setCustomFieldConditions}
+        sort={sort}
+        onSortChange={setSort}
       />
 
       <BulkTaskActions
@@ -309,7 +339,7 @@ export function ContentTasksView() {
       <QuickAddWork />
 
       <div>
-        {isLoading ? (
+        {isLoading || (listQueryString !== "" && isQueryLoading) ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {[1, 2, 3, 4, 5, 6].map((i) => (
               <Skeleton key={i} className="h-64" data-testid={`skeleton-task-${i}`} />
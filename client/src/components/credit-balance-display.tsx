@@ -17,6 +17,7 @@ type CreditTransaction = {
 
 type CreditBalanceData = {
   balance: number;
+  heldBalance?: number;
   currency: string;
   notes: string | null;
   transactions: CreditTransaction[];
@@ -50,7 +51,7 @@ export function CreditBalanceDisplay() {
     );
   }
 
-  if (!data || data.balance === 0) {
+  if (!data || (data.balance === 0 && !data.heldBalance)) {
     return null;
   }
 
@@ -69,6 +70,11 @@ export function CreditBalanceDisplay() {
               <p className="text-2xl font-bold text-primary" data-testid="text-my-credit-balance">
                 {formatCurrency(data.balance, data.currency)}
               </p>
+              {!!data.heldBalance && (
+                <p className="text-xs text-muted-foreground" data-testid="text-my-held-balance">
+                  {formatCurrency(data.heldBalance, data.currency)} held for open orders
+                </p>
+              )}
             </div>
           </div>
           
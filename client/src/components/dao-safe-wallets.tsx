@@ -78,6 +78,7 @@ type SafePendingTx = {
     method: string;
     parameters: any[];
   };
+  summary: string;
 };
 
 type SafeTxConfirmation = {
@@ -109,6 +110,7 @@ type SafeTransaction = {
   operation: number;
   nonce: number;
   txType: "transfer" | "contract_interaction" | "settings_change" | "rejection";
+  summary: string | null;
   status: "awaiting_confirmations" | "awaiting_execution" | "executed" | "failed" | "cancelled";
   confirmationsRequired: number;
   confirmationsCount: number;
@@ -630,11 +632,9 @@ export function DaoSafeWallets() {
                                 Value: {formatBalance(tx.value, 18)} ETH
                               </div>
                             )}
-                            {tx.dataDecoded && (
-                              <div className="text-sm text-muted-foreground">
-                                Method: {tx.dataDecoded.method}
-                              </div>
-                            )}
+                            <div className="text-sm" data-testid={`text-pending-summary-${tx.safeTxHash}`}>
+                              {tx.summary}
+                            </div>
                             <div className="flex items-center gap-2 text-sm">
                               <div className="flex items-center gap-1">
                                 {tx.confirmations.length >= tx.confirmationsRequired ? (
@@ -773,7 +773,11 @@ export function DaoSafeWallets() {
                                     <div className="font-medium text-sm capitalize">
                                       {tx.txType.replace("_", " ")}
                                     </div>
-                                    {tx.formattedValue && tx.value !== "0" && (
+                                    {tx.summary ? (
+                                      <div className="text-xs text-muted-foreground">
+                                        {tx.summary}
+                                      </div>
+                                    ) : tx.formattedValue && tx.value !== "0" && (
                                       <div className="text-xs text-muted-foreground">
                                         {tx.formattedValue}
                                       </div>
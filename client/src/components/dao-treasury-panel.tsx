@@ -7,6 +7,8 @@ import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
@@ -20,7 +22,11 @@ import {
   Gift,
   Clock,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  ThumbsUp,
+  ThumbsDown,
+  XCircle,
+  LineChart as LineChartIcon
 } from "lucide-react";
 
 type DaoTreasury = {
@@ -50,13 +56,70 @@ type DaoMembership = {
   role?: DaoRole;
 };
 
+type SplitPolicy = {
+  id: number;
+  policyKey: string;
+  version: number;
+  name: string;
+  treasuryPercent: number;
+};
+
 type BonusRun = {
   id: number;
-  triggerBalance: number;
+  status: "proposed" | "approved" | "executed" | "rejected" | "cancelled";
+  scoringModel: string | null;
   totalDistributed: number;
-  participantCount: number;
-  status: string;
-  createdAt: string;
+  recipientCount: number;
+  requiredApprovals: number | null;
+  councilSize: number | null;
+  closedReason: string | null;
+  proposedAt: string | null;
+  executedAt: string | null;
+};
+
+type BonusScoreFactor = {
+  factor: string;
+  label: string;
+  value: number;
+  weight: number;
+  detail: string;
+};
+
+type BonusRecipient = {
+  membershipId: number;
+  multiplier: number;
+  finalAmount: number;
+  explanation: { score: number; scoreShare: number; factors: BonusScoreFactor[]; summary: string } | null;
+};
+
+type BonusRecipientDiff = {
+  membershipId: number;
+  change: "added" | "removed" | "increased" | "decreased" | "unchanged";
+  previousAmount: number;
+  currentAmount: number;
+  amountChange: number;
+};
+
+type BonusRunDiff = {
+  previousRunId: number | null;
+  previousTotal: number;
+  totalChange: number;
+  recipients: BonusRecipientDiff[];
+};
+
+type BonusSimulation = {
+  eligible: boolean;
+  reason: string | null;
+  totalToDistribute: number;
+  recipients: BonusRecipient[];
+  diff: BonusRunDiff;
+};
+
+type BonusRunDetail = BonusRun & {
+  recipients: BonusRecipient[];
+  approvals: { id: number; membershipId: number; decision: "approve" | "reject"; comment: string | null }[];
+  tally: { approvals: number; rejections: number; required: number; councilSize: number; remaining: number };
+  diff: BonusRunDiff;
 };
 
 function formatCurrency(cents: number): string {
@@ -68,17 +131,206 @@ function formatCurrency(cents: number): string {
   }).format(cents / 100);
 }
 
-function calculateBonusShare(
-  member: DaoMembership,
-  totalPool: number,
-  allMembers: DaoMembership[]
-): number {
-  const multiplier = parseFloat(member.role?.multiplier || "1");
-  const totalWeightedShare = allMembers.reduce((sum, m) => {
-    const mult = parseFloat(m.role?.multiplier || "1");
-    return sum + mult;
-  }, 0);
-  return Math.round((multiplier / totalWeightedShare) * totalPool);
+type BalanceHistoryPoint = {
+  period: string;
+  totalUsd: number;
+  byChain: Record<string, number>;
+  byToken: Record<string, number>;
+  unpricedTokens: string[];
+};
+
+type TreasuryAllocation = {
+  date: string;
+  totalUsd: number;
+  tokens: { tokenSymbol: string; units: number; usd: number | null; share: number | null; chainIds: number[] }[];
+};
+
+type MonthlyFlow = {
+  month: string;
+  inflowUsd: number;
+  outflowUsd: number;
+  netUsd: number;
+  complete: boolean;
+};
+
+type HistoryInterval = "day" | "week" | "month";
+
+const HISTORY_RANGE_DAYS: Record<HistoryInterval, number> = { day: 90, week: 182, month: 365 };
+
+function formatUsd(value: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { credentials: "include" });
+  if (!res.ok) throw new Error(`Failed to fetch ${url}`);
+  return res.json();
+}
+
+function TreasuryHistoryCard() {
+  const [historyInterval, setHistoryInterval] = useState<HistoryInterval>("day");
+  const from = new Date(Date.now() - HISTORY_RANGE_DAYS[historyInterval] * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data: history = [], isLoading } = useQuery<BalanceHistoryPoint[]>({
+    queryKey: ["/api/dao/treasury/history", historyInterval, from],
+    queryFn: () => fetchJson(`/api/dao/treasury/history?interval=${historyInterval}&from=${from}`),
+  });
+  const { data: allocation } = useQuery<TreasuryAllocation>({
+    queryKey: ["/api/dao/treasury/allocation"],
+  });
+  const { data: flows = [] } = useQuery<MonthlyFlow[]>({
+    queryKey: ["/api/dao/treasury/flows"],
+  });
+
+  const unpriced = Array.from(new Set(history.flatMap(p => p.unpricedTokens)));
+
+  return (
+    <Card data-testid="card-treasury-history">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChartIcon className="h-5 w-5" />
+              Safe Holdings Over Time
+            </CardTitle>
+            <CardDescription>
+              Daily snapshots of all DAO Safes across chains, valued in USD
+            </CardDescription>
+          </div>
+          <Select value={historyInterval} onValueChange={(value) => setHistoryInterval(value as HistoryInterval)}>
+            <SelectTrigger className="w-32" data-testid="select-history-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="h-48 animate-pulse rounded-md bg-muted" />
+        ) : history.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <LineChartIcon className="h-8 w-8 mx-auto mb-2" />
+            <p>No balance snapshots yet</p>
+            <p className="text-sm">Snapshots are taken daily once Safes are added</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={220}>
+            <AreaChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => formatUsd(value)} tick={{ fontSize: 12 }} width={80} />
+              <Tooltip formatter={(value: number) => formatUsd(value)} />
+              <Area type="monotone" dataKey="totalUsd" name="Total" stroke="hsl(var(--primary))" fill="hsl(var(--primary))" fillOpacity={0.15} />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+        {unpriced.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            No USD price for {unpriced.join(", ")}; add one to the price feed to include it.
+          </p>
+        )}
+
+        {allocation && allocation.tokens.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Allocation by token</p>
+            {allocation.tokens.map((token) => (
+              <div key={token.tokenSymbol} className="space-y-1" data-testid={`allocation-${token.tokenSymbol}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span>{token.tokenSymbol}</span>
+                  <span className="text-muted-foreground">
+                    {token.usd === null ? `${token.units.toLocaleString()} (no price)` : `${formatUsd(token.usd)} • ${((token.share ?? 0) * 100).toFixed(1)}%`}
+                  </span>
+                </div>
+                <Progress value={(token.share ?? 0) * 100} className="h-1.5" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {flows.some(f => f.inflowUsd > 0 || f.outflowUsd > 0) && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Monthly inflow and outflow</p>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={flows}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(value) => formatUsd(value)} tick={{ fontSize: 12 }} width={80} />
+                <Tooltip formatter={(value: number) => formatUsd(value)} />
+                <Legend />
+                <Bar dataKey="inflowUsd" name="Inflow" fill="hsl(142 71% 45%)" />
+                <Bar dataKey="outflowUsd" name="Outflow" fill="hsl(0 72% 51%)" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatChange(cents: number): string {
+  return `${cents >= 0 ? "+" : "-"}${formatCurrency(Math.abs(cents))}`;
+}
+
+function BonusRecipientList({
+  recipients,
+  diff,
+  memberName,
+}: {
+  recipients: BonusRecipient[];
+  diff: BonusRunDiff;
+  memberName: (membershipId: number) => string;
+}) {
+  const changes = new Map(diff.recipients.map(d => [d.membershipId, d]));
+  const removed = diff.recipients.filter(d => d.change === "removed");
+  return (
+    <div className="space-y-2">
+      {recipients.map((recipient) => {
+        const change = changes.get(recipient.membershipId);
+        return (
+          <div key={recipient.membershipId} className="p-2 rounded-lg border space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{memberName(recipient.membershipId)}</span>
+                <Badge variant="outline" className="text-xs">{recipient.multiplier}x</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                {diff.previousRunId && change && change.change !== "unchanged" && (
+                  <span className={`text-xs ${change.amountChange >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {change.change === "added" ? "new" : formatChange(change.amountChange)}
+                  </span>
+                )}
+                <span className="font-semibold">{formatCurrency(recipient.finalAmount)}</span>
+              </div>
+            </div>
+            {recipient.explanation && (
+              <div className="text-xs text-muted-foreground space-y-0.5">
+                {recipient.explanation.factors.map((factor) => (
+                  <p key={factor.factor}>
+                    {factor.label}: {factor.detail}
+                  </p>
+                ))}
+                <p>
+                  Score {recipient.explanation.score} ({(recipient.explanation.scoreShare * 100).toFixed(1)}% of pool)
+                </p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {diff.previousRunId && removed.map((entry) => (
+        <div key={entry.membershipId} className="flex items-center justify-between p-2 rounded-lg border border-dashed text-muted-foreground">
+          <span>{memberName(entry.membershipId)}</span>
+          <span className="text-xs">not included (was {formatCurrency(entry.previousAmount)})</span>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?: boolean }) {
@@ -101,34 +353,88 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
     queryKey: ["/api/dao/bonus-runs"],
   });
 
-  const triggerBonusMutation = useMutation({
+  const { data: splitPolicy } = useQuery<SplitPolicy>({
+    queryKey: ["/api/dao/split-policies/current"],
+  });
+
+  const { data: simulation, isLoading: simulationLoading } = useQuery<BonusSimulation>({
+    queryKey: ["/api/dao/bonus-runs/simulate"],
+    enabled: isBonusDialogOpen,
+  });
+
+  const openRun = bonusRuns?.find(run => run.status === "proposed" || run.status === "approved");
+
+  const { data: openRunDetail } = useQuery<BonusRunDetail>({
+    queryKey: ["/api/dao/bonus-runs", openRun?.id],
+    enabled: !!openRun,
+  });
+
+  const invalidateBonusQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/dao/treasury"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dao/bonus-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dao/memberships"] });
+  };
+
+  const onBonusError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const proposeBonusMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("POST", "/api/dao/bonus-runs", {});
     },
     onSuccess: () => {
-      toast({ title: "Bonus distribution triggered successfully" });
-      queryClient.invalidateQueries({ queryKey: ["/api/dao/treasury"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dao/bonus-runs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dao/memberships"] });
+      toast({ title: "Bonus distribution proposed", description: "It executes once enough council members approve it" });
+      invalidateBonusQueries();
       setIsBonusDialogOpen(false);
     },
-    onError: (error: any) => {
-      toast({
-        title: "Failed to trigger bonus",
-        description: error.message,
-        variant: "destructive",
-      });
+    onError: onBonusError("Failed to propose bonus"),
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ runId, decision }: { runId: number; decision: "approve" | "reject" }) => {
+      return apiRequest("POST", `/api/dao/bonus-runs/${runId}/votes`, { decision });
+    },
+    onSuccess: () => {
+      toast({ title: "Vote recorded" });
+      invalidateBonusQueries();
     },
+    onError: onBonusError("Failed to record vote"),
+  });
+
+  const executeMutation = useMutation({
+    mutationFn: async (runId: number) => {
+      return apiRequest("POST", `/api/dao/bonus-runs/${runId}/execute`, {});
+    },
+    onSuccess: () => {
+      toast({ title: "Bonus distribution executed" });
+      invalidateBonusQueries();
+    },
+    onError: onBonusError("Failed to execute bonus"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (runId: number) => {
+      return apiRequest("POST", `/api/dao/bonus-runs/${runId}/cancel`, { reason: "Withdrawn by council" });
+    },
+    onSuccess: () => {
+      toast({ title: "Bonus proposal cancelled" });
+      invalidateBonusQueries();
+    },
+    onError: onBonusError("Failed to cancel proposal"),
   });
 
   const treasuryBalance = treasury?.balance || 0;
   const bonusThreshold = treasury?.bonusTriggerThreshold || 10000000;
   const bonusProgress = Math.min((treasuryBalance / bonusThreshold) * 100, 100);
-  const canTriggerBonus = treasuryBalance >= bonusThreshold && isCouncilMember;
-  const bonusPool = treasuryBalance >= bonusThreshold ? treasuryBalance : 0;
+  const canTriggerBonus = treasuryBalance >= bonusThreshold && isCouncilMember && !openRun;
 
   const eligibleMembers = memberships?.filter(m => m.role) || [];
   const councilMembers = memberships?.filter(m => m.isCouncilMember) || [];
+  const memberName = (membershipId: number) => {
+    const member = memberships?.find(m => m.id === membershipId);
+    return member?.user?.username || member?.userId || `Member #${membershipId}`;
+  };
 
   return (
     <div className="space-y-6">
@@ -141,7 +447,9 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
                 Treasury Balance
               </CardTitle>
               <CardDescription>
-                15% of all project revenue is allocated to treasury
+                {splitPolicy
+                  ? `${splitPolicy.treasuryPercent}% of paid project revenue is allocated to treasury under ${splitPolicy.name} v${splitPolicy.version}; projects keep the policy version they were created with`
+                  : "A share of paid project revenue is allocated to treasury"}
               </CardDescription>
             </div>
             {canTriggerBonus && (
@@ -149,56 +457,44 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
                 <DialogTrigger asChild>
                   <Button className="gap-2" data-testid="button-trigger-bonus">
                     <Gift className="h-4 w-4" />
-                    Distribute Bonus
+                    Propose Bonus
                   </Button>
                 </DialogTrigger>
                 <DialogContent className="max-w-lg">
                   <DialogHeader>
-                    <DialogTitle>Trigger Bonus Distribution</DialogTitle>
+                    <DialogTitle>Propose Bonus Distribution</DialogTitle>
                     <DialogDescription>
-                      Distribute treasury funds to eligible members based on their rank multipliers
+                      Shares blend rank multiplier, attributed revenue since the last run and reliability. The run executes after council approval.
                     </DialogDescription>
                   </DialogHeader>
                   <div className="py-4 space-y-4">
                     <div className="p-4 rounded-lg bg-muted">
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-muted-foreground">Distribution Pool</span>
-                        <span className="text-2xl font-bold">{formatCurrency(bonusPool)}</span>
+                        <span className="text-2xl font-bold">{formatCurrency(simulation?.totalToDistribute || 0)}</span>
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        Will be distributed to {eligibleMembers.length} eligible members
+                        {simulation?.eligible
+                          ? `Will be distributed to ${simulation.recipients.length} members`
+                          : simulation?.reason || "Calculating shares..."}
                       </p>
+                      {simulation?.diff.previousRunId && (
+                        <p className="text-sm text-muted-foreground">
+                          {formatChange(simulation.diff.totalChange)} vs the previous run ({formatCurrency(simulation.diff.previousTotal)})
+                        </p>
+                      )}
                     </div>
 
                     <Separator />
 
                     <div>
                       <h4 className="font-medium mb-2">Distribution Preview</h4>
-                      <ScrollArea className="h-[200px]">
-                        <div className="space-y-2">
-                          {eligibleMembers.map((member) => {
-                            const share = calculateBonusShare(member, bonusPool, eligibleMembers);
-                            return (
-                              <div
-                                key={member.id}
-                                className="flex items-center justify-between p-2 rounded-lg border"
-                              >
-                                <div className="flex items-center gap-2">
-                                  {member.isCouncilMember && (
-                                    <Crown className="h-4 w-4 text-yellow-500" />
-                                  )}
-                                  <span className="font-medium">
-                                    {member.user?.username || member.userId}
-                                  </span>
-                                  <Badge variant="outline" className="text-xs">
-                                    {member.role?.multiplier}x
-                                  </Badge>
-                                </div>
-                                <span className="font-semibold">{formatCurrency(share)}</span>
-                              </div>
-                            );
-                          })}
-                        </div>
+                      <ScrollArea className="h-[300px]">
+                        {simulation && !simulationLoading ? (
+                          <BonusRecipientList recipients={simulation.recipients} diff={simulation.diff} memberName={memberName} />
+                        ) : (
+                          <p className="text-sm text-muted-foreground">Loading preview...</p>
+                        )}
                       </ScrollArea>
                     </div>
                   </div>
@@ -207,11 +503,11 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
                       Cancel
                     </Button>
                     <Button
-                      onClick={() => triggerBonusMutation.mutate()}
-                      disabled={triggerBonusMutation.isPending}
+                      onClick={() => proposeBonusMutation.mutate()}
+                      disabled={proposeBonusMutation.isPending || !simulation?.eligible}
                       data-testid="button-confirm-bonus"
                     >
-                      {triggerBonusMutation.isPending ? "Processing..." : "Confirm Distribution"}
+                      {proposeBonusMutation.isPending ? "Proposing..." : "Propose Distribution"}
                     </Button>
                   </DialogFooter>
                 </DialogContent>
@@ -280,6 +576,85 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
         </CardContent>
       </Card>
 
+      {openRunDetail && (
+        <Card data-testid={`card-bonus-proposal-${openRunDetail.id}`}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Gift className="h-5 w-5" />
+                  Bonus Proposal #{openRunDetail.id}
+                </CardTitle>
+                <CardDescription>
+                  {formatCurrency(openRunDetail.totalDistributed)} to {openRunDetail.recipientCount} members •{" "}
+                  {openRunDetail.tally.approvals} of {openRunDetail.tally.required} council approvals
+                  {openRunDetail.tally.rejections > 0 && ` • ${openRunDetail.tally.rejections} rejected`}
+                </CardDescription>
+              </div>
+              <Badge variant={openRunDetail.status === "approved" ? "default" : "secondary"}>
+                {openRunDetail.status}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={(openRunDetail.tally.approvals / Math.max(openRunDetail.tally.required, 1)) * 100} className="h-2" />
+            <ScrollArea className="h-[300px]">
+              <BonusRecipientList recipients={openRunDetail.recipients} diff={openRunDetail.diff} memberName={memberName} />
+            </ScrollArea>
+            {isCouncilMember && (
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  className="gap-2"
+                  onClick={() => cancelMutation.mutate(openRunDetail.id)}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-bonus-proposal"
+                >
+                  <XCircle className="h-4 w-4" />
+                  Cancel
+                </Button>
+                {openRunDetail.status === "proposed" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => voteMutation.mutate({ runId: openRunDetail.id, decision: "reject" })}
+                      disabled={voteMutation.isPending}
+                      data-testid="button-reject-bonus"
+                    >
+                      <ThumbsDown className="h-4 w-4" />
+                      Reject
+                    </Button>
+                    <Button
+                      className="gap-2"
+                      onClick={() => voteMutation.mutate({ runId: openRunDetail.id, decision: "approve" })}
+                      disabled={voteMutation.isPending}
+                      data-testid="button-approve-bonus"
+                    >
+                      <ThumbsUp className="h-4 w-4" />
+                      Approve
+                    </Button>
+                  </>
+                )}
+                {openRunDetail.status === "approved" && (
+                  <Button
+                    className="gap-2"
+                    onClick={() => executeMutation.mutate(openRunDetail.id)}
+                    disabled={executeMutation.isPending}
+                    data-testid="button-execute-bonus"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    {executeMutation.isPending ? "Executing..." : "Execute Distribution"}
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <TreasuryHistoryCard />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -305,14 +680,15 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
                     </div>
                     <div>
                       <p className="font-medium">
-                        {formatCurrency(run.totalDistributed)} Distributed
+                        {formatCurrency(run.totalDistributed)} {run.status === "executed" ? "Distributed" : "Proposed"}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {new Date(run.createdAt).toLocaleDateString()} • {run.participantCount} participants
+                        {new Date(run.executedAt || run.proposedAt || Date.now()).toLocaleDateString()} • {run.recipientCount} participants
+                        {run.closedReason && ` • ${run.closedReason}`}
                       </p>
                     </div>
                   </div>
-                  <Badge variant={run.status === "completed" ? "default" : "secondary"}>
+                  <Badge variant={run.status === "executed" ? "default" : run.status === "rejected" || run.status === "cancelled" ? "outline" : "secondary"}>
                     {run.status}
                   </Badge>
                 </div>
@@ -335,7 +711,7 @@ export function DaoTreasuryPanel({ isCouncilMember = false }: { isCouncilMember?
             Multiplier Reference
           </CardTitle>
           <CardDescription>
-            Bonus shares are weighted by rank multiplier
+            Rank multipliers scale each member's contribution score
           </CardDescription>
         </CardHeader>
         <CardContent>
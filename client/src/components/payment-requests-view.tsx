@@ -16,13 +16,14 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
-import type { PaymentRequest, PaymentRequestEvent } from "@shared/schema";
+import type { PaymentRequest, PaymentRequestEvent, PaymentBudgetCategory } from "@shared/schema";
 
 const newRequestSchema = z.object({
-  amount: z.string().min(1, "Amount is required").regex(/^\d+\.?\d*$/, "Must be a valid number"),
+  amount: z.string().min(1, "Amount is required").regex(/^\d+(\.\d{1,2})?$/, "Must be a number with at most two decimal places"),
   currency: z.string().min(1, "Currency is required"),
   reason: z.string().min(10, "Please provide a reason (at least 10 characters)"),
   description: z.string().optional(),
+  categoryId: z.string().optional(),
 });
 
 type NewRequestFormValues = z.infer<typeof newRequestSchema>;
@@ -39,6 +40,11 @@ const currencyOptions = [
   { value: "USDC", label: "USDC - USD Coin" },
 ];
 
+interface CategoryBudget {
+  category: PaymentBudgetCategory;
+  remaining: string | null;
+}
+
 function getStatusIcon(status: string) {
   switch (status) {
     case "pending":
@@ -97,6 +103,7 @@ function PaymentRequestCard({
           <Badge variant={getStatusBadgeVariant(request.status)} className="flex items-center gap-1">
             {getStatusIcon(request.status)}
             {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+            {isPending && request.requiredApprovals > 1 && ` (${request.approvalCount}/${request.requiredApprovals})`}
           </Badge>
         </div>
         <CardDescription className="flex items-center gap-2 text-xs mt-1">
@@ -152,6 +159,7 @@ function NewRequestDialog({
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }) {
+  const [receipt, setReceipt] = useState<File | null>(null);
   const form = useForm<NewRequestFormValues>({
     resolver: zodResolver(newRequestSchema),
     defaultValues: {
@@ -159,17 +167,41 @@ function NewRequestDialog({
       currency: "USD",
       reason: "",
       description: "",
+      categoryId: "",
     },
   });
 
+  const { data: budgets } = useQuery<CategoryBudget[]>({
+    queryKey: ["/api/payment-budget-categories"],
+    enabled: open,
+  });
+
   const createMutation = useMutation({
-    mutationFn: async (data: NewRequestFormValues) => {
-      const response = await apiRequest("POST", "/api/payment-requests", data);
-      return response.json();
+    mutationFn: async ({ categoryId, ...data }: NewRequestFormValues) => {
+      const response = await apiRequest("POST", "/api/payment-requests", {
+        ...data,
+        categoryId: categoryId && categoryId !== "none" ? parseInt(categoryId) : null,
+      });
+      const request: PaymentRequest = await response.json();
+      if (receipt) {
+        const formData = new FormData();
+        formData.append("file", receipt);
+        const upload = await fetch(`/api/payment-requests/${request.id}/receipts`, {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        if (!upload.ok) {
+          throw new Error((await upload.json()).error || "Receipt upload failed");
+        }
+      }
+      return request;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/payment-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-budget-categories"] });
       onOpenChange(false);
+      setReceipt(null);
       form.reset();
     },
   });
@@ -278,6 +310,53 @@ function NewRequestDialog({
               )}
             />
 
+            {budgets && budgets.length > 0 && (
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Budget Category (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-budget-category">
+                          <SelectValue placeholder="No category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No category</SelectItem>
+                        {budgets.map(({ category, remaining }) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.name}
+                            {remaining !== null && ` (${category.currency} ${remaining} left)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormItem>
+              <FormLabel>Receipt (Optional)</FormLabel>
+              <Input
+                type="file"
+                accept="application/pdf,image/*"
+                onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+                data-testid="input-receipt"
+              />
+              <FormDescription>PDF or image, up to 10 MB</FormDescription>
+            </FormItem>
+
+            {createMutation.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{createMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -24,7 +24,9 @@ import {
   Loader2,
   Play,
   Pause,
-  RefreshCw
+  RefreshCw,
+  CalendarClock,
+  Zap
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format, addDays, addWeeks, addMonths } from "date-fns";
@@ -106,6 +108,7 @@ export function RecurringTasksView() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [previewTask, setPreviewTask] = useState<RecurringTask | null>(null);
   const [selectedTask, setSelectedTask] = useState<RecurringTask | null>(null);
   const [formData, setFormData] = useState({
     name: "",
@@ -183,6 +186,30 @@ export function RecurringTasksView() {
     },
   });
 
+  const generateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/recurring-tasks/${id}/generate`);
+      return res.json() as Promise<{ created: { id: number }[]; skipped: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/content-tasks"] });
+      toast({
+        title: result.created.length > 0
+          ? `Generated ${result.created.length} task${result.created.length > 1 ? "s" : ""}`
+          : "Nothing new to generate",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to generate tasks", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { data: preview, isLoading: isPreviewLoading } = useQuery<{ occurrences: string[] }>({
+    queryKey: ["/api/recurring-tasks", previewTask?.id, "preview"],
+    enabled: !!previewTask,
+  });
+
   const resetForm = () => {
     setFormData({
       name: "",
@@ -380,6 +407,23 @@ export function RecurringTasksView() {
                         data-testid={`switch-active-${task.id}`}
                       />
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPreviewTask(task)}
+                      data-testid={`button-preview-recurring-${task.id}`}
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => generateMutation.mutate(task.id)}
+                      disabled={!task.isActive || generateMutation.isPending}
+                      data-testid={`button-generate-recurring-${task.id}`}
+                    >
+                      <Zap className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -618,6 +662,41 @@ export function RecurringTasksView() {
         </DialogContent>
       </Dialog>
 
+      {/* Upcoming Occurrences Dialog */}
+      <Dialog open={!!previewTask} onOpenChange={(open) => { if (!open) setPreviewTask(null); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Upcoming Occurrences</DialogTitle>
+            <DialogDescription>
+              Tasks that "{previewTask?.name}" will create next
+            </DialogDescription>
+          </DialogHeader>
+
+          {isPreviewLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-6" />
+              ))}
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {preview?.occurrences.map(date => (
+                <li key={date} className="flex items-center gap-2 text-sm" data-testid={`preview-occurrence-${date}`}>
+                  <Calendar className="w-4 h-4 text-muted-foreground" />
+                  {format(new Date(`${date}T00:00:00`), "EEE, MMM d, yyyy")}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreviewTask(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="max-w-md">
@@ -2,6 +2,7 @@ import { useEffect, useState, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import type { SearchHit, SearchResponse, SearchResultType } from "@shared/schema";
 import {
   CommandDialog,
   CommandInput,
@@ -24,7 +25,8 @@ import {
   LayoutDashboard,
   FolderOpen,
   UserPlus,
-  Vault,
+  MessageSquare,
+  FileText,
   Zap,
   Search,
   ListTodo,
@@ -36,9 +38,8 @@ import {
   Calendar,
 } from "lucide-react";
 
-type SearchResult = {
+type PageResult = {
   id: string;
-  type: "page" | "task" | "project" | "client" | "wallet" | "collection";
   title: string;
   description?: string;
   path: string;
@@ -46,62 +47,56 @@ type SearchResult = {
   badge?: string;
 };
 
-type ContentTask = {
-  id: number;
-  description: string;
-  status: string;
-  priority: string | null;
+const RESULT_TYPE_CONFIG: Record<SearchResultType, { label: string; icon: typeof Home; path: string }> = {
+  content_task: { label: "Content Tasks", icon: ListTodo, path: "/content" },
+  comment: { label: "Comments", icon: MessageSquare, path: "/content" },
+  team_task: { label: "Team Tasks", icon: LayoutGrid, path: "/team-tasks" },
+  task_doc: { label: "Docs", icon: FileText, path: "/tasks" },
+  client_document: { label: "Client Documents", icon: FileText, path: "/client-directory" },
+  client_profile: { label: "Clients", icon: Building2, path: "/client-directory" },
+  dao_project: { label: "DAO Projects", icon: Crown, path: "/dao" },
+  collection: { label: "Collections", icon: Database, path: "/web3/collections" },
 };
 
-type DaoProject = {
-  id: number;
-  projectName: string;
-  status: string;
-  totalValue: number;
-};
-
-type ClientProfile = {
-  id: number;
-  companyName: string;
-  industry: string | null;
-};
-
-type SafeWallet = {
-  id: number;
-  address: string;
-  label: string | null;
-  chainId: number;
-};
-
-type Collection = {
-  id: number;
-  name: string;
-  addressCount: number;
-};
+const SEARCH_DEBOUNCE_MS = 200;
 
-type PageItem = SearchResult & { role?: "admin" | "content" | "web3" };
+type PageItem = PageResult & { role?: "admin" | "content" | "web3" };
 
 const PAGE_RESULTS: PageItem[] = [
-  { id: "page-workspace", type: "page", title: "My Workspace", description: "Personal dashboard", path: "/workspace", icon: Home },
-  { id: "page-tasks", type: "page", title: "Tasks", description: "Kanban boards and task management", path: "/tasks", icon: LayoutGrid },
-  { id: "page-tasks-kanban", type: "page", title: "Open Kanban Board", description: "View tasks in Kanban view", path: "/tasks", icon: LayoutGrid },
-  { id: "page-content", type: "page", title: "Content Studio", description: "Content production hub", path: "/content-dashboard", icon: Briefcase, role: "content" },
-  { id: "page-onchain", type: "page", title: "Onchain Ops", description: "Web3 tools dashboard", path: "/onchain-ops", icon: Zap, role: "web3" },
-  { id: "page-compare", type: "page", title: "Address Compare", description: "Compare address lists", path: "/web3/compare", icon: GitCompare, role: "web3" },
-  { id: "page-extract", type: "page", title: "EVM Extractor", description: "Extract addresses from files", path: "/web3/extract", icon: Database, role: "web3" },
-  { id: "page-collections", type: "page", title: "NFT Collections", description: "Manage NFT collections", path: "/web3/collections", icon: FolderOpen, role: "web3" },
-  { id: "page-duplicates", type: "page", title: "Duplicate Checker", description: "Find and remove duplicate addresses", path: "/web3/duplicates", icon: CopyCheck, role: "web3" },
-  { id: "page-screener", type: "page", title: "Wallet Screener", description: "Screen wallets for bots and sybils", path: "/web3/screener", icon: Shield, role: "web3" },
-  { id: "page-dao", type: "page", title: "DAO Hub", description: "DAO management dashboard", path: "/dao", icon: Crown, role: "web3" },
-  { id: "page-dao-catalog", type: "page", title: "Service Catalog", description: "DAO services", path: "/dao/catalog", icon: Briefcase, role: "web3" },
-  { id: "page-clients", type: "page", title: "Client Directory", description: "Client profiles", path: "/client-directory", icon: Building2 },
-  { id: "page-admin", type: "page", title: "Admin Center", description: "System administration", path: "/admin/control-center", icon: Settings, badge: "Admin", role: "admin" },
-  { id: "page-internal-team", type: "page", title: "Internal Team", description: "Internal team management", path: "/admin/internal-team", icon: Users, badge: "Admin", role: "admin" },
-  { id: "page-invite-codes", type: "page", title: "Invite Codes", description: "Manage access codes", path: "/admin/codes", icon: UserPlus, badge: "Admin", role: "admin" },
-  { id: "page-work-library", type: "page", title: "Work Library", description: "Client work uploads", path: "/content/work-library", icon: FolderOpen, role: "content" },
-  { id: "page-monitoring", type: "page", title: "Worker Monitoring", description: "Activity tracking", path: "/content/monitoring", icon: LayoutDashboard, role: "content" },
+  { id: "page-workspace", title: "My Workspace", description: "Personal dashboard", path: "/workspace", icon: Home },
+  { id: "page-tasks", title: "Tasks", description: "Kanban boards and task management", path: "/tasks", icon: LayoutGrid },
+  { id: "page-tasks-kanban", title: "Open Kanban Board", description: "View tasks in Kanban view", path: "/tasks", icon: LayoutGrid },
+  { id: "page-content", title: "Content Studio", description: "Content production hub", path: "/content-dashboard", icon: Briefcase, role: "content" },
+  { id: "page-onchain", title: "Onchain Ops", description: "Web3 tools dashboard", path: "/onchain-ops", icon: Zap, role: "web3" },
+  { id: "page-compare", title: "Address Compare", description: "Compare address lists", path: "/web3/compare", icon: GitCompare, role: "web3" },
+  { id: "page-extract", title: "EVM Extractor", description: "Extract addresses from files", path: "/web3/extract", icon: Database, role: "web3" },
+  { id: "page-collections", title: "NFT Collections", description: "Manage NFT collections", path: "/web3/collections", icon: FolderOpen, role: "web3" },
+  { id: "page-duplicates", title: "Duplicate Checker", description: "Find and remove duplicate addresses", path: "/web3/duplicates", icon: CopyCheck, role: "web3" },
+  { id: "page-screener", title: "Wallet Screener", description: "Screen wallets for bots and sybils", path: "/web3/screener", icon: Shield, role: "web3" },
+  { id: "page-dao", title: "DAO Hub", description: "DAO management dashboard", path: "/dao", icon: Crown, role: "web3" },
+  { id: "page-dao-catalog", title: "Service Catalog", description: "DAO services", path: "/dao/catalog", icon: Briefcase, role: "web3" },
+  { id: "page-clients", title: "Client Directory", description: "Client profiles", path: "/client-directory", icon: Building2 },
+  { id: "page-admin", title: "Admin Center", description: "System administration", path: "/admin/control-center", icon: Settings, badge: "Admin", role: "admin" },
+  { id: "page-internal-team", title: "Internal Team", description: "Internal team management", path: "/admin/internal-team", icon: Users, badge: "Admin", role: "admin" },
+  { id: "page-invite-codes", title: "Invite Codes", description: "Manage access codes", path: "/admin/codes", icon: UserPlus, badge: "Admin", role: "admin" },
+  { id: "page-work-library", title: "Work Library", description: "Client work uploads", path: "/content/work-library", icon: FolderOpen, role: "content" },
+  { id: "page-monitoring", title: "Worker Monitoring", description: "Activity tracking", path: "/content/monitoring", icon: LayoutDashboard, role: "content" },
 ];
 
+// Snippets come back with matches wrapped in <mark>; render them as text, never as HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200/60 dark:bg-yellow-500/30 text-foreground rounded-sm">{part}</mark>
+          : <span key={index}>{part}</span>
+      )}
+    </>
+  );
+}
+
 export function SpotlightSearch() {
   const [open, setOpen] = useState(false);
   const [, setLocation] = useLocation();
@@ -110,29 +105,22 @@ export function SpotlightSearch() {
   const isContent = user?.role === "content" || isAdmin;
   const isWeb3 = user?.role === "web3" || isAdmin;
 
-  const { data: tasks } = useQuery<ContentTask[]>({
-    queryKey: ["/api/content-tasks"],
-    enabled: open && isContent,
-  });
-
-  const { data: projects } = useQuery<DaoProject[]>({
-    queryKey: ["/api/dao/projects"],
-    enabled: open && isWeb3,
-  });
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
 
-  const { data: clients } = useQuery<ClientProfile[]>({
-    queryKey: ["/api/client-profiles"],
-    enabled: open && (isContent || isAdmin),
-  });
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
 
-  const { data: wallets } = useQuery<SafeWallet[]>({
-    queryKey: ["/api/dao/safe-wallets"],
-    enabled: open && isWeb3,
-  });
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
 
-  const { data: collections } = useQuery<Collection[]>({
-    queryKey: ["/api/collections"],
-    enabled: open && isWeb3,
+  const { data: search, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}&limit=30`],
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30000,
   });
 
   useEffect(() => {
@@ -169,54 +157,20 @@ export function SpotlightSearch() {
     });
   };
 
-  const filteredPages = filterPagesByRole(PAGE_RESULTS);
-
-  const taskResults: SearchResult[] = (tasks || []).slice(0, 5).map((task) => ({
-    id: `task-${task.id}`,
-    type: "task",
-    title: task.description.slice(0, 50) + (task.description.length > 50 ? "..." : ""),
-    description: `${task.status}${task.priority ? ` • ${task.priority}` : ""}`,
-    path: "/content",
-    icon: ListTodo,
-    badge: task.status,
-  }));
-
-  const projectResults: SearchResult[] = (projects || []).slice(0, 5).map((project) => ({
-    id: `project-${project.id}`,
-    type: "project",
-    title: project.projectName,
-    description: `${project.status} • $${(project.totalValue / 100).toLocaleString()}`,
-    path: "/dao",
-    icon: Building2,
-    badge: project.status,
-  }));
-
-  const clientResults: SearchResult[] = (clients || []).slice(0, 5).map((client) => ({
-    id: `client-${client.id}`,
-    type: "client",
-    title: client.companyName,
-    description: client.industry || "Client",
-    path: "/clients",
-    icon: Building2,
-  }));
-
-  const walletResults: SearchResult[] = (wallets || []).slice(0, 3).map((wallet) => ({
-    id: `wallet-${wallet.id}`,
-    type: "wallet",
-    title: wallet.label || `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`,
-    description: `Chain ${wallet.chainId}`,
-    path: "/dao",
-    icon: Vault,
-  }));
+  const needle = query.trim().toLowerCase();
+  const filteredPages = filterPagesByRole(PAGE_RESULTS).filter((page) =>
+    !needle ||
+    page.title.toLowerCase().includes(needle) ||
+    (page.description || "").toLowerCase().includes(needle)
+  );
 
-  const collectionResults: SearchResult[] = (collections || []).slice(0, 3).map((collection) => ({
-    id: `collection-${collection.id}`,
-    type: "collection",
-    title: collection.name,
-    description: `${collection.addressCount.toLocaleString()} addresses`,
-    path: "/web3/collections",
-    icon: Database,
-  }));
+  // Results arrive ranked across types; group them while keeping that order within each group
+  const resultsByType = new Map<SearchResultType, SearchHit[]>();
+  (debouncedQuery ? search?.results || [] : []).forEach((hit) => {
+    resultsByType.set(hit.type, [...(resultsByType.get(hit.type) || []), hit]);
+  });
+  const facetCounts = new Map((search?.facets || []).map((facet) => [facet.type, facet.count]));
+  const resultGroups = Array.from(resultsByType.entries());
 
   return (
     <>
@@ -232,170 +186,86 @@ export function SpotlightSearch() {
         </kbd>
       </button>
 
-      <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput placeholder="Search pages, tasks, projects, clients..." data-testid="input-spotlight-search" />
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search pages, tasks, docs, clients, projects..."
+          value={query}
+          onValueChange={setQuery}
+          data-testid="input-spotlight-search"
+        />
         <CommandList>
           <CommandEmpty>
             <div className="flex flex-col items-center gap-2 py-4">
               <Search className="h-8 w-8 text-muted-foreground" />
-              <p className="text-muted-foreground">No results found</p>
+              <p className="text-muted-foreground">{isFetching ? "Searching..." : "No results found"}</p>
             </div>
           </CommandEmpty>
 
-          <CommandGroup heading="Pages">
-            {filteredPages.slice(0, 8).map((result) => (
-              <CommandItem
-                key={result.id}
-                value={result.title}
-                onSelect={() => handleSelect(result.path)}
-                className="gap-3"
-                data-testid={`search-result-${result.id}`}
-              >
-                <result.icon className="h-4 w-4 text-muted-foreground" />
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2">
-                    <span className="truncate">{result.title}</span>
-                    {result.badge && (
-                      <Badge variant="outline" className="text-xs shrink-0">
-                        {result.badge}
-                      </Badge>
-                    )}
-                  </div>
-                  {result.description && (
-                    <p className="text-xs text-muted-foreground truncate">{result.description}</p>
-                  )}
-                </div>
-                <ArrowRight className="h-3 w-3 text-muted-foreground" />
-              </CommandItem>
-            ))}
-          </CommandGroup>
-
-          {taskResults.length > 0 && (
-            <>
-              <CommandSeparator />
-              <CommandGroup heading="Tasks">
-                {taskResults.map((result) => (
-                  <CommandItem
-                    key={result.id}
-                    value={result.title}
-                    onSelect={() => handleSelect(result.path)}
-                    className="gap-3"
-                    data-testid={`search-result-${result.id}`}
-                  >
-                    <result.icon className="h-4 w-4 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <span className="truncate">{result.title}</span>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">{result.description}</p>
-                      )}
-                    </div>
-                    {result.badge && (
-                      <Badge variant="secondary" className="text-xs shrink-0">
-                        {result.badge}
-                      </Badge>
-                    )}
-                  </CommandItem>
-                ))}
-              </CommandGroup>
-            </>
-          )}
-
-          {projectResults.length > 0 && (
-            <>
-              <CommandSeparator />
-              <CommandGroup heading="Projects">
-                {projectResults.map((result) => (
-                  <CommandItem
-                    key={result.id}
-                    value={result.title}
-                    onSelect={() => handleSelect(result.path)}
-                    className="gap-3"
-                    data-testid={`search-result-${result.id}`}
-                  >
-                    <result.icon className="h-4 w-4 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
+          {filteredPages.length > 0 && (
+            <CommandGroup heading="Pages">
+              {filteredPages.slice(0, needle ? 5 : 8).map((result) => (
+                <CommandItem
+                  key={result.id}
+                  value={result.id}
+                  onSelect={() => handleSelect(result.path)}
+                  className="gap-3"
+                  data-testid={`search-result-${result.id}`}
+                >
+                  <result.icon className="h-4 w-4 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
                       <span className="truncate">{result.title}</span>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">{result.description}</p>
+                      {result.badge && (
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          {result.badge}
+                        </Badge>
                       )}
                     </div>
-                    {result.badge && (
-                      <Badge variant="outline" className="text-xs shrink-0">
-                        {result.badge}
-                      </Badge>
+                    {result.description && (
+                      <p className="text-xs text-muted-foreground truncate">{result.description}</p>
                     )}
-                  </CommandItem>
-                ))}
-              </CommandGroup>
-            </>
-          )}
-
-          {clientResults.length > 0 && isAdmin && (
-            <>
-              <CommandSeparator />
-              <CommandGroup heading="Clients">
-                {clientResults.map((result) => (
-                  <CommandItem
-                    key={result.id}
-                    value={result.title}
-                    onSelect={() => handleSelect(result.path)}
-                    className="gap-3"
-                    data-testid={`search-result-${result.id}`}
-                  >
-                    <result.icon className="h-4 w-4 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <span className="truncate">{result.title}</span>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">{result.description}</p>
-                      )}
-                    </div>
-                  </CommandItem>
-                ))}
-              </CommandGroup>
-            </>
+                  </div>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                </CommandItem>
+              ))}
+            </CommandGroup>
           )}
 
-          {(walletResults.length > 0 || collectionResults.length > 0) && (
-            <>
-              <CommandSeparator />
-              <CommandGroup heading="Onchain">
-                {walletResults.map((result) => (
-                  <CommandItem
-                    key={result.id}
-                    value={result.title}
-                    onSelect={() => handleSelect(result.path)}
-                    className="gap-3"
-                    data-testid={`search-result-${result.id}`}
-                  >
-                    <result.icon className="h-4 w-4 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <span className="truncate">{result.title}</span>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">{result.description}</p>
+          {resultGroups.map(([type, hits]) => {
+            const config = RESULT_TYPE_CONFIG[type];
+            const total = facetCounts.get(type) || hits.length;
+            return (
+              <div key={type}>
+                <CommandSeparator />
+                <CommandGroup heading={total > hits.length ? `${config.label} (${hits.length} of ${total})` : config.label}>
+                  {hits.map((hit) => (
+                    <CommandItem
+                      key={`${hit.type}-${hit.id}`}
+                      value={`${hit.type}-${hit.id}`}
+                      onSelect={() => handleSelect(config.path)}
+                      className="gap-3"
+                      data-testid={`search-result-${hit.type}-${hit.id}`}
+                    >
+                      <config.icon className="h-4 w-4 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <span className="block truncate">{hit.title}</span>
+                        {hit.snippet && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">
+                            <Snippet text={hit.snippet} />
+                          </p>
+                        )}
+                      </div>
+                      {typeof hit.meta.status === "string" && (
+                        <Badge variant="secondary" className="text-xs shrink-0">
+                          {hit.meta.status}
+                        </Badge>
                       )}
-                    </div>
-                  </CommandItem>
-                ))}
-                {collectionResults.map((result) => (
-                  <CommandItem
-                    key={result.id}
-                    value={result.title}
-                    onSelect={() => handleSelect(result.path)}
-                    className="gap-3"
-                    data-testid={`search-result-${result.id}`}
-                  >
-                    <result.icon className="h-4 w-4 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <span className="truncate">{result.title}</span>
-                      {result.description && (
-                        <p className="text-xs text-muted-foreground truncate">{result.description}</p>
-                      )}
-                    </div>
-                  </CommandItem>
-                ))}
-              </CommandGroup>
-            </>
-          )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </div>
+            );
+          })}
         </CommandList>
       </CommandDialog>
     </>
@@ -46,7 +46,7 @@ interface Approval {
   id: number;
   taskId: number;
   reviewerId: string;
-  status: "pending" | "approved" | "rejected" | "skipped";
+  status: "waiting" | "pending" | "approved" | "rejected" | "revision_requested" | "skipped";
   comments: string | null;
   createdAt: string;
   reviewedAt: string | null;
@@ -54,7 +54,11 @@ interface Approval {
   stageName: string | null;
   isRequired: boolean;
   isActiveStage?: boolean;
+  isOverdue?: boolean;
   dueDate: string | null;
+  workflowId: number | null;
+  reviewerRole: string | null;
+  escalatedAt: string | null;
   approver?: {
     id: string;
     firstName: string | null;
@@ -117,6 +121,11 @@ interface TaskApprovalsProps {
 }
 
 const statusConfig = {
+  waiting: {
+    icon: Clock,
+    label: "Upcoming",
+    className: "bg-muted text-muted-foreground border-muted",
+  },
   pending: {
     icon: Clock,
     label: "Pending",
@@ -132,6 +141,11 @@ const statusConfig = {
     label: "Rejected",
     className: "bg-destructive/10 text-destructive border-destructive/20",
   },
+  revision_requested: {
+    icon: AlertTriangle,
+    label: "Revisions Requested",
+    className: "bg-orange-500/10 text-orange-700 dark:text-orange-400 border-orange-500/20",
+  },
   skipped: {
     icon: SkipForward,
     label: "Skipped",
@@ -191,8 +205,8 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
       setIsApplyingWorkflow(false);
       toast({ title: "Workflow applied", description: "The approval workflow has been applied to this task." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to apply workflow.", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to apply workflow.", variant: "destructive" });
     },
   });
 
@@ -212,7 +226,7 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
   });
 
   const respondToApprovalMutation = useMutation({
-    mutationFn: async ({ id, status, comments }: { id: number; status: "approved" | "rejected"; comments?: string }) => {
+    mutationFn: async ({ id, status, comments }: { id: number; status: "approved" | "rejected" | "skipped"; comments?: string }) => {
       return apiRequest("PATCH", `/api/approvals/${id}`, { status, comments });
     },
     onSuccess: () => {
@@ -221,8 +235,23 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
       setResponseComments({});
       toast({ title: "Response submitted", description: "Your approval response has been recorded." });
     },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to respond to approval.", variant: "destructive" });
+    },
+  });
+
+  const resubmitMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/content-tasks/${taskId}/approvals/resubmit`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/content-tasks", taskId, "approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/content-tasks", taskId, "activity"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/content-tasks"] });
+      toast({ title: "Resubmitted", description: "The rejected stage has been reopened for review." });
+    },
     onError: () => {
-      toast({ title: "Error", description: "Failed to respond to approval.", variant: "destructive" });
+      toast({ title: "Error", description: "Failed to resubmit for approval.", variant: "destructive" });
     },
   });
 
@@ -239,7 +268,9 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
   };
 
   const pendingApprovals = approvals.filter(a => a.status === "pending");
-  const completedApprovals = approvals.filter(a => a.status !== "pending");
+  const upcomingApprovals = approvals.filter(a => a.status === "waiting");
+  const completedApprovals = approvals.filter(a => a.status !== "pending" && a.status !== "waiting");
+  const returnedApprovals = approvals.filter(a => a.workflowId !== null && (a.status === "rejected" || a.status === "revision_requested"));
   const myPendingApprovals = pendingApprovals.filter(a => a.reviewerId === currentUserId && a.isActiveStage);
   
   // Group approvals by stage for multi-stage workflow visualization
@@ -255,7 +286,7 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
   
   // Use progression data from API or calculate locally
   const totalApprovals = approvals.length;
-  const completedCount = approvals.filter(a => a.status === "approved").length;
+  const completedCount = approvals.filter(a => a.status === "approved" || a.status === "skipped").length;
   const progressPercent = progression?.progressPercent ?? (totalApprovals > 0 ? (completedCount / totalApprovals) * 100 : 0);
   const activeStage = progression?.activeStage ?? 1;
 
@@ -307,8 +338,9 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
             <div className="flex items-center gap-1 flex-wrap">
               {stages.map((stage, index) => {
                 const stageApprovals = stageGroups[stage];
-                const allApproved = stageApprovals.every(a => a.status === "approved");
+                const allApproved = stageApprovals.every(a => a.status === "approved" || a.status === "skipped");
                 const hasPending = stageApprovals.some(a => a.status === "pending");
+                const isUpcoming = stageApprovals.every(a => a.status === "waiting");
                 const stageName = stageApprovals[0]?.stageName || `Stage ${stage}`;
                 
                 return (
@@ -321,12 +353,13 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
                             "text-xs cursor-default",
                             allApproved && "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 border-emerald-500/20",
                             hasPending && !allApproved && "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20",
-                            !hasPending && !allApproved && "bg-destructive/10 text-destructive border-destructive/20"
+                            isUpcoming && "bg-muted text-muted-foreground",
+                            !hasPending && !allApproved && !isUpcoming && "bg-destructive/10 text-destructive border-destructive/20"
                           )}
                         >
                           {allApproved ? (
                             <CheckCircle className="w-3 h-3 mr-1" />
-                          ) : hasPending ? (
+                          ) : hasPending || isUpcoming ? (
                             <Clock className="w-3 h-3 mr-1" />
                           ) : (
                             <XCircle className="w-3 h-3 mr-1" />
@@ -457,6 +490,27 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
         </div>
       ) : approvals && approvals.length > 0 ? (
         <div className="space-y-3">
+          {returnedApprovals.length > 0 && (
+            <div className="flex items-center justify-between p-3 border border-destructive/30 rounded-md bg-destructive/5">
+              <div className="flex items-center gap-2 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span>
+                  Sent back at {returnedApprovals[0].stageName || `Stage ${returnedApprovals[0].stage}`}. Resubmit once the changes are made.
+                </span>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resubmitMutation.mutate()}
+                disabled={resubmitMutation.isPending}
+                data-testid="button-resubmit-approval"
+              >
+                <Send className="w-4 h-4 mr-1" />
+                {resubmitMutation.isPending ? "Resubmitting..." : "Resubmit"}
+              </Button>
+            </div>
+          )}
+
           {myPendingApprovals.length > 0 && (
             <div className="space-y-2">
               <p className="text-sm font-medium text-amber-600 dark:text-amber-400">
@@ -476,9 +530,12 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
                           {approval.stageName || "Approval"} requested
                         </span>
                         {approval.dueDate && (
-                          <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
+                          <p className={cn(
+                            "text-xs flex items-center gap-1 mt-0.5",
+                            approval.isOverdue ? "text-destructive" : "text-muted-foreground"
+                          )}>
                             <Calendar className="h-3 w-3" />
-                            Due: {new Date(approval.dueDate).toLocaleDateString()}
+                            {approval.isOverdue ? "Overdue" : "Due"}: {new Date(approval.dueDate).toLocaleDateString()}
                           </p>
                         )}
                       </div>
@@ -521,6 +578,22 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
                       <XCircle className="w-4 h-4 mr-1" />
                       Reject
                     </Button>
+                    {!approval.isRequired && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => respondToApprovalMutation.mutate({
+                          id: approval.id,
+                          status: "skipped",
+                          comments: responseComments[approval.id]
+                        })}
+                        disabled={respondToApprovalMutation.isPending}
+                        data-testid={`button-skip-${approval.id}`}
+                      >
+                        <SkipForward className="w-4 h-4 mr-1" />
+                        Skip
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       className="bg-emerald-600 hover:bg-emerald-700"
@@ -552,6 +625,17 @@ export function TaskApprovals({ taskId, currentUserId }: TaskApprovalsProps) {
             </div>
           )}
 
+          {upcomingApprovals.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">
+                Upcoming Stages
+              </p>
+              {upcomingApprovals.map((approval) => (
+                <ApprovalItem key={approval.id} approval={approval} getInitials={getInitials} getUserName={getUserName} />
+              ))}
+            </div>
+          )}
+
           {completedApprovals.length > 0 && (
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">
@@ -626,6 +710,11 @@ function ApprovalItem({
         </div>
       </div>
       <div className="flex items-center gap-2">
+        {approval.escalatedAt && approval.status === "pending" && (
+          <Badge variant="outline" className="text-xs bg-destructive/10 text-destructive border-destructive/20">
+            Escalated
+          </Badge>
+        )}
         {!approval.isRequired && (
           <Badge variant="outline" className="text-xs text-muted-foreground">
             Optional
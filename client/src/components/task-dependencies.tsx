@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { format } from "date-fns";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -49,6 +50,8 @@ import {
   ExternalLink,
   Check,
   ChevronsUpDown,
+  CalendarRange,
+  AlertTriangle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { TaskDependency, ContentTask, TeamTask } from "@shared/schema";
@@ -59,6 +62,30 @@ interface TaskDependenciesProps {
   canEdit?: boolean;
 }
 
+// Mirrors DependencySchedule in server/task-dependencies.ts
+interface ScheduledTask {
+  taskType: "content" | "team";
+  taskId: number;
+  title: string;
+  status: string | null;
+  dueDate: string | null;
+  isDone: boolean;
+  blockers: string[];
+  earliestStart: string;
+  earliestFinish: string;
+  latestFinish: string;
+  slackDays: number;
+  isCritical: boolean;
+  isLate: boolean;
+}
+
+interface DependencySchedule {
+  tasks: ScheduledTask[];
+  criticalPath: string[];
+  projectFinish: string;
+  durationDays: number;
+}
+
 const dependencyTypes = [
   {
     value: "blocks",
@@ -121,6 +148,16 @@ export function TaskDependencies({
     enabled: !!taskId,
   });
 
+  const { data: schedule } = useQuery<DependencySchedule>({
+    queryKey: ["/api/task-dependencies/schedule", taskType, taskId],
+    enabled: !!taskId,
+  });
+
+  const invalidateDependencies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies", taskType, taskId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies/schedule"] });
+  };
+
   const { data: contentTasks } = useQuery<ContentTask[]>({
     queryKey: ["/api/content-tasks"],
     enabled: isAddDialogOpen && selectedTargetTaskType === "content",
@@ -147,7 +184,7 @@ export function TaskDependencies({
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies", taskType, taskId] });
+      invalidateDependencies();
       setIsAddDialogOpen(false);
       setSelectedTargetTask(null);
       toast({
@@ -155,10 +192,10 @@ export function TaskDependencies({
         description: "The task dependency has been created.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create dependency.",
+        description: error.message || "Failed to create dependency.",
         variant: "destructive",
       });
     },
@@ -169,7 +206,7 @@ export function TaskDependencies({
       return apiRequest("DELETE", `/api/task-dependencies/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/task-dependencies", taskType, taskId] });
+      invalidateDependencies();
       toast({
         title: "Dependency removed",
         description: "The task dependency has been deleted.",
@@ -443,6 +480,106 @@ export function TaskDependencies({
           <p className="text-xs">Link this task to related tasks</p>
         </div>
       )}
+
+      {schedule && schedule.tasks.length > 1 && (
+        <DependencyGantt schedule={schedule} currentKey={`${taskType}:${taskId}`} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Gantt-style view of the blocking chain: bars run from earliest start to earliest
+ * finish, with the due date (latest finish) marked. Critical-path tasks are highlighted.
+ */
+function DependencyGantt({ schedule, currentKey }: { schedule: DependencySchedule; currentKey: string }) {
+  const times = schedule.tasks.flatMap((t) => [
+    new Date(t.earliestStart).getTime(),
+    new Date(t.earliestFinish).getTime(),
+    new Date(t.latestFinish).getTime(),
+  ]);
+  const rangeStart = Math.min(...times);
+  const rangeEnd = Math.max(...times);
+  const span = Math.max(rangeEnd - rangeStart, 1);
+  const position = (iso: string) => ((new Date(iso).getTime() - rangeStart) / span) * 100;
+
+  return (
+    <div className="space-y-2 pt-2" data-testid="dependency-schedule">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-4 h-4 text-muted-foreground" />
+          <h4 className="text-sm font-semibold">Schedule</h4>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Projected finish {format(new Date(schedule.projectFinish), "MMM d")} · {schedule.durationDays}d per open task
+        </span>
+      </div>
+
+      <div className="space-y-1.5 rounded-md border p-2">
+        {schedule.tasks.map((task) => {
+          const key = `${task.taskType}:${task.taskId}`;
+          const left = position(task.earliestStart);
+          const width = Math.max(position(task.earliestFinish) - left, 1);
+
+          return (
+            <div key={key} className="flex items-center gap-2" data-testid={`schedule-row-${key}`}>
+              <div className="w-40 shrink-0 truncate text-xs">
+                <span className={cn(key === currentKey && "font-semibold")}>
+                  {task.taskType === "content" ? "Content" : "Team"} #{task.taskId}
+                </span>{" "}
+                <span className="text-muted-foreground">{task.title}</span>
+              </div>
+              <div className="relative h-5 flex-1 rounded bg-muted/30">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div
+                      className={cn(
+                        "absolute top-0.5 h-4 rounded",
+                        task.isDone
+                          ? "bg-muted-foreground/30"
+                          : task.isCritical
+                            ? "bg-red-500"
+                            : "bg-primary/60"
+                      )}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {format(new Date(task.earliestStart), "MMM d")} – {format(new Date(task.earliestFinish), "MMM d")}
+                    {task.dueDate && ` · due ${format(new Date(task.dueDate), "MMM d")}`}
+                  </TooltipContent>
+                </Tooltip>
+                {!task.isDone && (
+                  <div
+                    className="absolute top-0 h-5 w-0.5 bg-foreground/60"
+                    style={{ left: `${position(task.latestFinish)}%` }}
+                    title={`Latest finish ${format(new Date(task.latestFinish), "MMM d")}`}
+                  />
+                )}
+              </div>
+              <div className="w-20 shrink-0 text-right text-xs">
+                {task.isDone ? (
+                  <span className="text-muted-foreground">Done</span>
+                ) : task.isLate ? (
+                  <Badge variant="destructive" className="text-xs">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {Math.abs(task.slackDays)}d late
+                  </Badge>
+                ) : (
+                  <span className={cn(task.isCritical ? "text-red-500" : "text-muted-foreground")}>
+                    {task.slackDays}d slack
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {schedule.criticalPath.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Critical path: {schedule.criticalPath.map((key) => key.replace(":", " #")).join(" → ")}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { WhiteboardElement, WhiteboardConnector, WhiteboardPermission } from '@shared/schema';
+
+export interface WhiteboardPresence {
+  clientId: string;
+  userId: string;
+  displayName: string;
+  permission: WhiteboardPermission;
+  cursor: { x: number; y: number } | null;
+}
+
+interface CollabState {
+  isConnected: boolean;
+  permission: WhiteboardPermission | null;
+  elements: WhiteboardElement[];
+  connectors: WhiteboardConnector[];
+  presence: WhiteboardPresence[];
+  error: string | null;
+}
+
+const CURSOR_THROTTLE_MS = 50;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+function upsert<T extends { id: number }>(items: T[], item: T): T[] {
+  const index = items.findIndex(i => i.id === item.id);
+  if (index === -1) return [...items, item];
+  const next = items.slice();
+  next[index] = item;
+  return next;
+}
+
+/**
+ * Live collaboration on a whiteboard over /ws/whiteboards/:id.
+ * Updates are applied optimistically and sent with the version they were based on;
+ * if the server reports a conflict the local copy is replaced with the server's.
+ */
+export function useWhiteboardCollab(whiteboardId: number | null) {
+  const [state, setState] = useState<CollabState>({
+    isConnected: false,
+    permission: null,
+    elements: [],
+    connectors: [],
+    presence: [],
+    error: null,
+  });
+
+  const wsRef = useRef<WebSocket | null>(null);
+  const clientIdRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const lastCursorSentRef = useRef(0);
+  const requestCounterRef = useRef(0);
+  const closedByUserRef = useRef(false);
+  // Latest state for reading base versions outside of render
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const handleMessage = useCallback((data: any) => {
+    switch (data.type) {
+      case 'init':
+        clientIdRef.current = data.clientId;
+        setState(s => ({
+          ...s,
+          permission: data.permission,
+          elements: data.elements,
+          connectors: data.connectors,
+          presence: data.presence,
+          error: null,
+        }));
+        break;
+      case 'presence-joined':
+        setState(s => ({
+          ...s,
+          presence: [...s.presence.filter(p => p.clientId !== data.clientId), {
+            clientId: data.clientId,
+            userId: data.userId,
+            displayName: data.displayName,
+            permission: data.permission,
+            cursor: null,
+          }],
+        }));
+        break;
+      case 'presence-left':
+        setState(s => ({ ...s, presence: s.presence.filter(p => p.clientId !== data.clientId) }));
+        break;
+      case 'cursor':
+        setState(s => ({
+          ...s,
+          presence: s.presence.map(p =>
+            (data.clientId ? p.clientId === data.clientId : p.userId === data.userId)
+              ? { ...p, cursor: { x: data.x, y: data.y } }
+              : p
+          ),
+        }));
+        break;
+      case 'element-created':
+      case 'element-updated':
+        setState(s => ({ ...s, elements: upsert(s.elements, data.element) }));
+        break;
+      case 'element-deleted':
+        setState(s => ({
+          ...s,
+          elements: s.elements.filter(e => e.id !== data.id),
+          connectors: s.connectors.filter(c => c.fromElementId !== data.id && c.toElementId !== data.id),
+        }));
+        break;
+      case 'connector-created':
+      case 'connector-updated':
+        setState(s => ({ ...s, connectors: upsert(s.connectors, data.connector) }));
+        break;
+      case 'connector-deleted':
+        setState(s => ({ ...s, connectors: s.connectors.filter(c => c.id !== data.id) }));
+        break;
+      case 'conflict':
+        // Someone else edited first; take the server's copy and let the user redo the change
+        setState(s => data.kind === 'connector'
+          ? { ...s, connectors: upsert(s.connectors, data.current) }
+          : { ...s, elements: upsert(s.elements, data.current) });
+        break;
+      case 'error':
+        setState(s => ({ ...s, error: data.message }));
+        break;
+      case 'pong':
+        break;
+    }
+  }, []);
+
+  const connect = useCallback(() => {
+    if (!whiteboardId) return;
+    if (wsRef.current && wsRef.current.readyState <= WebSocket.OPEN) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws/whiteboards/${whiteboardId}`);
+
+    ws.onopen = () => {
+      reconnectAttemptsRef.current = 0;
+      setState(s => ({ ...s, isConnected: true, error: null }));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Whiteboard message error:', error);
+      }
+    };
+
+    ws.onerror = () => {
+      setState(s => ({ ...s, error: 'Connection error' }));
+    };
+
+    ws.onclose = () => {
+      wsRef.current = null;
+      setState(s => ({ ...s, isConnected: false, presence: [] }));
+      if (closedByUserRef.current) return;
+
+      const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), MAX_RECONNECT_DELAY_MS);
+      reconnectAttemptsRef.current++;
+      reconnectTimerRef.current = setTimeout(connect, delay);
+    };
+
+    wsRef.current = ws;
+  }, [whiteboardId, handleMessage]);
+
+  useEffect(() => {
+    closedByUserRef.current = false;
+    connect();
+    return () => {
+      closedByUserRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+      wsRef.current?.close();
+      wsRef.current = null;
+    };
+  }, [connect]);
+
+  const send = useCallback((message: Record<string, unknown>) => {
+    const requestId = `${Date.now()}-${++requestCounterRef.current}`;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ ...message, requestId }));
+    }
+    return requestId;
+  }, []);
+
+  const moveCursor = useCallback((x: number, y: number) => {
+    const now = Date.now();
+    if (now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) return;
+    lastCursorSentRef.current = now;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'cursor', x, y }));
+    }
+  }, []);
+
+  const createElement = useCallback((element: Partial<WhiteboardElement>) => {
+    return send({ type: 'element-create', element });
+  }, [send]);
+
+  const updateElement = useCallback((id: number, changes: Partial<WhiteboardElement>) => {
+    const baseVersion = stateRef.current.elements.find(e => e.id === id)?.version;
+    if (baseVersion === undefined) return null;
+    // Assume our edit lands so rapid successive edits (e.g. dragging) chain off each other
+    setState(s => ({ ...s, elements: s.elements.map(e => (e.id === id ? { ...e, ...changes, version: baseVersion + 1 } : e)) }));
+    return send({ type: 'element-update', id, baseVersion, changes });
+  }, [send]);
+
+  const deleteElement = useCallback((id: number) => {
+    const baseVersion = stateRef.current.elements.find(e => e.id === id)?.version;
+    return send({ type: 'element-delete', id, baseVersion });
+  }, [send]);
+
+  const createConnector = useCallback((connector: Partial<WhiteboardConnector>) => {
+    return send({ type: 'connector-create', connector });
+  }, [send]);
+
+  const updateConnector = useCallback((id: number, changes: Partial<WhiteboardConnector>) => {
+    const baseVersion = stateRef.current.connectors.find(c => c.id === id)?.version;
+    if (baseVersion === undefined) return null;
+    setState(s => ({ ...s, connectors: s.connectors.map(c => (c.id === id ? { ...c, ...changes, version: baseVersion + 1 } : c)) }));
+    return send({ type: 'connector-update', id, baseVersion, changes });
+  }, [send]);
+
+  const deleteConnector = useCallback((id: number) => {
+    const baseVersion = stateRef.current.connectors.find(c => c.id === id)?.version;
+    return send({ type: 'connector-delete', id, baseVersion });
+  }, [send]);
+
+  return {
+    ...state,
+    clientId: clientIdRef.current,
+    canEdit: state.permission === 'edit',
+    moveCursor,
+    createElement,
+    updateElement,
+    deleteElement,
+    createConnector,
+    updateConnector,
+    deleteConnector,
+  };
+}
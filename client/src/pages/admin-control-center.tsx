@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,9 +30,13 @@ import {
   Wallet,
   LayoutGrid,
   Building2,
+  Play,
+  Pause,
+  Timer,
 } from "lucide-react";
 import { format } from "date-fns";
 import { Link } from "wouter";
+import type { ScheduledJob, JobRun } from "@shared/schema";
 
 type PendingContentMember = {
   id: number;
@@ -641,6 +646,160 @@ function SystemHealthSection() {
   );
 }
 
+function JobRunHistory({ jobId }: { jobId: number }) {
+  const { data: runs = [], isLoading } = useQuery<JobRun[]>({
+    queryKey: ["/api/admin/jobs", jobId, "runs"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16" />;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">No runs recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-1 py-2">
+      {runs.map((run) => (
+        <div key={run.id} className="flex items-center justify-between text-xs" data-testid={`job-run-${run.id}`}>
+          <div className="flex items-center gap-2 min-w-0">
+            {run.status === "succeeded" ? (
+              <CheckCircle className="h-3 w-3 text-green-500 shrink-0" />
+            ) : run.status === "failed" ? (
+              <XCircle className="h-3 w-3 text-red-500 shrink-0" />
+            ) : (
+              <Loader2 className="h-3 w-3 animate-spin shrink-0" />
+            )}
+            <span>{run.startedAt ? format(new Date(run.startedAt), "MMM d, HH:mm:ss") : "—"}</span>
+            <Badge variant="outline" className="text-[10px]">{run.trigger}</Badge>
+            {run.attempt > 1 && <span className="text-muted-foreground">attempt {run.attempt}</span>}
+            {run.error && <span className="text-red-500 truncate">{run.error}</span>}
+          </div>
+          {run.durationMs !== null && (
+            <span className="text-muted-foreground shrink-0">{(run.durationMs / 1000).toFixed(1)}s</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BackgroundJobsSection() {
+  const { toast } = useToast();
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ jobs: ScheduledJob[]; handlers: string[] }>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 15000,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "pause" | "resume" | "trigger" }) => {
+      return apiRequest("POST", `/api/admin/jobs/${id}/${action}`);
+    },
+    onSuccess: (_, { id, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs", id, "runs"] });
+      toast({ title: action === "trigger" ? "Job started" : action === "pause" ? "Job paused" : "Job resumed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Job action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32" />;
+  }
+
+  const jobs = data?.jobs || [];
+
+  if (jobs.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Timer className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p>No background jobs registered</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {jobs.map((job) => {
+        const isLocked = job.lockedUntil && new Date(job.lockedUntil) > new Date();
+        return (
+          <div key={job.id} className="rounded-md border bg-card" data-testid={`job-${job.id}`}>
+            <div className="flex items-center justify-between p-3 gap-3">
+              <button
+                className="flex-1 min-w-0 text-left"
+                onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                data-testid={`button-expand-job-${job.id}`}
+              >
+                <div className="flex items-center gap-2">
+                  <ChevronRight className={`h-4 w-4 transition-transform ${expandedJobId === job.id ? "rotate-90" : ""}`} />
+                  <span className="font-medium truncate">{job.name}</span>
+                  <Badge variant={job.status === "active" ? "default" : job.status === "failed" ? "destructive" : "secondary"}>
+                    {isLocked ? "running" : job.status}
+                  </Badge>
+                  {job.lastRunStatus === "failed" && (
+                    <Badge variant="destructive" className="text-xs">last run failed</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 mt-1 ml-6 text-xs text-muted-foreground">
+                  <span className="font-mono">{job.schedule || "one-off"}</span>
+                  {job.nextRunAt && job.status === "active" && (
+                    <span>Next {format(new Date(job.nextRunAt), "MMM d, HH:mm")}</span>
+                  )}
+                  {job.lastRunAt && <span>Last {format(new Date(job.lastRunAt), "MMM d, HH:mm")}</span>}
+                </div>
+              </button>
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => actionMutation.mutate({ id: job.id, action: "trigger" })}
+                  disabled={!!isLocked || actionMutation.isPending}
+                  data-testid={`button-trigger-job-${job.id}`}
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                {job.status === "paused" ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => actionMutation.mutate({ id: job.id, action: "resume" })}
+                    disabled={actionMutation.isPending}
+                    data-testid={`button-resume-job-${job.id}`}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                ) : job.status === "active" ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => actionMutation.mutate({ id: job.id, action: "pause" })}
+                    disabled={actionMutation.isPending}
+                    data-testid={`button-pause-job-${job.id}`}
+                  >
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+            {expandedJobId === job.id && (
+              <div className="border-t px-3">
+                {job.description && <p className="text-xs text-muted-foreground pt-2">{job.description}</p>}
+                {job.lastError && <p className="text-xs text-red-500 pt-1">{job.lastError}</p>}
+                <JobRunHistory jobId={job.id} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 function QuickActionsSection() {
   return (
     <div className="grid grid-cols-2 gap-3">
@@ -882,6 +1041,21 @@ export default function AdminControlCenter() {
           </Card>
         </div>
       </div>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Background Jobs
+          </CardTitle>
+          <CardDescription>
+            Scheduled work such as reminders, recurring tasks and wallet sync
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BackgroundJobsSection />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -72,6 +72,9 @@ function getTransactionTypeLabel(type: string): string {
     case "credit_used": return "Buy Power Used";
     case "credit_adjusted": return "Adjustment";
     case "credit_refunded": return "Refund";
+    case "credit_held": return "Held for Order";
+    case "credit_captured": return "Order Captured";
+    case "credit_released": return "Hold Released";
     default: return type;
   }
 }
@@ -82,6 +85,9 @@ function getTransactionTypeColor(type: string): string {
     case "credit_used": return "bg-red-500/10 text-red-700 dark:text-red-400";
     case "credit_adjusted": return "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400";
     case "credit_refunded": return "bg-blue-500/10 text-blue-700 dark:text-blue-400";
+    case "credit_held": return "bg-orange-500/10 text-orange-700 dark:text-orange-400";
+    case "credit_captured": return "bg-purple-500/10 text-purple-700 dark:text-purple-400";
+    case "credit_released": return "bg-blue-500/10 text-blue-700 dark:text-blue-400";
     default: return "bg-gray-500/10 text-gray-700 dark:text-gray-400";
   }
 }
@@ -38,6 +38,7 @@ import {
   History,
   Send,
   LayoutGrid,
+  Download,
 } from "lucide-react";
 import { Link } from "wouter";
 import { DaoSafeWallets } from "@/components/dao-safe-wallets";
@@ -66,10 +67,11 @@ type DaoProject = {
 type DaoInvoice = {
   id: number;
   projectId: number;
-  invoiceNumber: string;
-  totalAmount: number;
+  invoiceType: "invoice" | "credit_note" | null;
+  invoiceNumber: string | null;
+  amount: number;
   status: string;
-  dueDate: string;
+  dueDate: string | null;
 };
 
 type DaoMembership = {
@@ -123,6 +125,7 @@ type SafeTransaction = {
   to: string;
   value: string;
   txType: string;
+  summary: string | null;
   status: string;
   confirmationsRequired: number;
   confirmationsCount: number;
@@ -174,6 +177,7 @@ function getStatusBadge(status: string) {
     paid: "default",
     overdue: "destructive",
     cancelled: "destructive",
+    void: "destructive",
   };
   return <Badge variant={variants[status] || "outline"}>{status}</Badge>;
 }
@@ -229,7 +233,7 @@ export default function DaoDashboard() {
   });
 
   const activeProjects = projects?.filter(p => p.status === "active") || [];
-  const pendingInvoices = invoices?.filter(i => i.status === "pending" || i.status === "sent") || [];
+  const pendingInvoices = invoices?.filter(i => i.invoiceType !== "credit_note" && (i.status === "pending" || i.status === "sent")) || [];
   const councilMembers = memberships?.filter(m => m.isCouncilMember) || [];
   
   const treasuryBalance = treasury?.balance || 0;
@@ -355,7 +359,7 @@ export default function DaoDashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{pendingInvoices.length}</div>
               <p className="text-xs text-muted-foreground">
-                {formatCurrency(pendingInvoices.reduce((sum, i) => sum + i.totalAmount, 0))} outstanding
+                {formatCurrency(pendingInvoices.reduce((sum, i) => sum + i.amount, 0))} outstanding
               </p>
             </CardContent>
           </Card>
@@ -648,13 +652,13 @@ export default function DaoDashboard() {
                             data-testid={`invoice-item-${invoice.id}`}
                           >
                             <div>
-                              <p className="font-medium">{invoice.invoiceNumber}</p>
+                              <p className="font-medium">{invoice.invoiceNumber ?? "Draft"}</p>
                               <p className="text-sm text-muted-foreground">
-                                Due: {new Date(invoice.dueDate).toLocaleDateString()}
+                                Due: {invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : "-"}
                               </p>
                             </div>
                             <div className="text-right">
-                              <p className="font-medium">{formatCurrency(invoice.totalAmount)}</p>
+                              <p className="font-medium">{formatCurrency(invoice.amount)}</p>
                               {getStatusBadge(invoice.status)}
                             </div>
                           </div>
@@ -747,7 +751,9 @@ export default function DaoDashboard() {
                                 <p className="text-sm font-medium capitalize">
                                   {tx.txType.replace("_", " ")}
                                 </p>
-                                {tx.formattedValue && tx.value !== "0" && (
+                                {tx.summary ? (
+                                  <p className="text-xs text-muted-foreground">{tx.summary}</p>
+                                ) : tx.formattedValue && tx.value !== "0" && (
                                   <p className="text-xs text-muted-foreground">{tx.formattedValue}</p>
                                 )}
                               </div>
@@ -854,15 +860,23 @@ export default function DaoDashboard() {
                       >
                         <div>
                           <div className="flex items-center gap-2">
-                            <p className="font-medium">{invoice.invoiceNumber}</p>
+                            <p className="font-medium">{invoice.invoiceNumber ?? "Draft"}</p>
+                            {invoice.invoiceType === "credit_note" && <Badge variant="secondary">credit note</Badge>}
                             {getStatusBadge(invoice.status)}
                           </div>
                           <p className="text-sm text-muted-foreground">
-                            Due: {new Date(invoice.dueDate).toLocaleDateString()}
+                            Due: {invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : "-"}
                           </p>
                         </div>
-                        <div className="text-right">
-                          <p className="text-lg font-bold">{formatCurrency(invoice.totalAmount)}</p>
+                        <div className="flex items-center gap-3">
+                          <p className="text-lg font-bold">
+                            {formatCurrency(invoice.invoiceType === "credit_note" ? -invoice.amount : invoice.amount)}
+                          </p>
+                          <Button variant="ghost" size="icon" asChild data-testid={`button-download-invoice-${invoice.id}`}>
+                            <a href={`/api/dao/invoices/${invoice.id}/document?format=pdf`} title="Download PDF">
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
                         </div>
                       </div>
                     ))}
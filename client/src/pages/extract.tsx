@@ -1,9 +1,13 @@
 import { useState, useCallback, useRef, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, Download, Search, Loader2, CheckCircle, FileSearch, Folder, File, Twitter } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Upload, FileText, Download, Search, Loader2, CheckCircle, FileSearch, Folder, File, Twitter, Database } from "lucide-react";
+import type { Collection } from "@shared/schema";
 
 interface ExtractResult {
   filename: string;
@@ -12,6 +16,8 @@ interface ExtractResult {
   filesProcessed?: number;
   filesWithAddresses?: number;
   tweetText?: string;
+  // Set when the addresses came from a tweet, recorded as the import's source
+  tweetUrl?: string;
 }
 
 interface BatchProgress {
@@ -28,10 +34,40 @@ export default function Extract() {
   const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
   const [tweetUrl, setTweetUrl] = useState("");
   const [isLoadingTweet, setIsLoadingTweet] = useState(false);
+  const [targetCollection, setTargetCollection] = useState("");
   const { toast } = useToast();
   const folderInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: collections = [] } = useQuery<Collection[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const addToCollectionMutation = useMutation({
+    mutationFn: async ({ id, extracted }: { id: number; extracted: ExtractResult }) => {
+      const res = await apiRequest("POST", `/api/collections/${id}/addresses`, {
+        addresses: extracted.addresses,
+        source: extracted.tweetUrl ? { type: "tweet", reference: extracted.tweetUrl } : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data: any, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collections", id] });
+      toast({
+        title: "Addresses added",
+        description: `Added ${data.added} new addresses (${data.skipped} duplicates skipped, ${data.invalid} invalid)`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add addresses",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Extract single batch via API
   const extractBatch = useCallback(async (filesToProcess: File[]): Promise<ExtractResult> => {
     const formData = new FormData();
@@ -227,6 +263,7 @@ export default function Extract() {
         filesProcessed: data.filesProcessed,
         filesWithAddresses: data.filesWithAddresses,
         tweetText: data.tweetText,
+        tweetUrl: tweetUrl.trim(),
       });
 
       toast({
@@ -535,6 +572,35 @@ export default function Extract() {
                     Download CSV
                   </Button>
                 </div>
+                {result.addresses.length > 0 && collections.length > 0 && (
+                  <div className="flex gap-2 pt-2">
+                    <Select value={targetCollection} onValueChange={setTargetCollection}>
+                      <SelectTrigger data-testid="select-target-collection">
+                        <SelectValue placeholder="Choose a collection" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {collections.map(collection => (
+                          <SelectItem key={collection.id} value={String(collection.id)}>
+                            {collection.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={() => addToCollectionMutation.mutate({ id: Number(targetCollection), extracted: result })}
+                      disabled={!targetCollection || addToCollectionMutation.isPending}
+                      data-testid="button-add-to-collection"
+                    >
+                      {addToCollectionMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Database className="w-4 h-4 mr-2" />
+                      )}
+                      Add to Collection
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
                 {result.addresses.length === 0 ? (
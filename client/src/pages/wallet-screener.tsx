@@ -43,40 +43,60 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import Papa from "papaparse";
+import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-
-interface WalletScreenResult {
-  address: string;
-  riskScore: number;
-  riskLevel: "low" | "medium" | "high" | "critical";
-  labels: string[];
-  flags: {
-    isBot: boolean;
-    isSybil: boolean;
-    isContract: boolean;
-    isExchange: boolean;
-    isNewWallet: boolean;
-    lowActivity: boolean;
-    highFrequencyTrader: boolean;
-    airdropFarmer: boolean;
-  };
-  metrics: {
-    txCount: number;
-    firstTxDate: string | null;
-    lastTxDate: string | null;
-    walletAgeDays: number;
-    avgTxPerDay: number;
-    uniqueContractsInteracted: number;
-    totalGasSpent: string;
-    nftCollectionsHeld: number;
+import type { WalletScreenResult, WalletScreeningJob, WalletScreeningJobItem } from "@shared/schema";
+
+// A failed item keeps its place in the results with the error as its details
+function failedResult(address: string, job: WalletScreeningJob, error: string): WalletScreenResult {
+  return {
+    address,
+    chainId: job.chainId,
+    riskScore: 0,
+    riskLevel: "low",
+    labels: ["Error fetching data"],
+    flags: {
+      isBot: false,
+      isSybil: false,
+      isContract: false,
+      isExchange: false,
+      isNewWallet: false,
+      lowActivity: false,
+      highFrequencyTrader: false,
+      airdropFarmer: false,
+    },
+    metrics: {
+      txCount: 0,
+      firstTxDate: null,
+      lastTxDate: null,
+      walletAgeDays: 0,
+      avgTxPerDay: 0,
+      uniqueContractsInteracted: 0,
+      totalGasSpent: "0",
+      nftCollectionsHeld: null,
+      fundedBy: null,
+      maxTxPerDay: 0,
+      historyTruncated: false,
+    },
+    details: error,
+    provider: job.provider,
+    screenedAt: new Date().toISOString(),
   };
-  details: string;
 }
 
+interface ScreenerStatus {
+  provider: string | null;
+  supportedChains: { id: number; name: string }[];
+  maxBatchSize: number;
+  cacheTtlHours: number;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
 interface ScreeningProgress {
   total: number;
   processed: number;
-  currentAddress: string;
+  status: string;
 }
 
 type RiskFilter = "all" | "low" | "medium" | "high" | "critical";
@@ -124,76 +144,63 @@ export default function WalletScreener() {
     });
   };
 
+  const { data: screenerStatus } = useQuery<ScreenerStatus>({
+    queryKey: ["/api/wallet-screener/status"],
+  });
+
   const screenWallets = useCallback(async (addresses: string[]) => {
     setIsProcessing(true);
     setResults([]);
-    setProgress({ total: addresses.length, processed: 0, currentAddress: "" });
+    setProgress({ total: addresses.length, processed: 0, status: "Queued" });
 
-    const screenedResults: WalletScreenResult[] = [];
-    const batchSize = 10;
+    try {
+      const response = await apiRequest("POST", "/api/wallet-screener/jobs", {
+        addresses,
+        chainId: parseInt(chainId),
+      });
+      let job: WalletScreeningJob = await response.json();
 
-    for (let i = 0; i < addresses.length; i += batchSize) {
-      const batch = addresses.slice(i, i + batchSize);
-      
-      try {
-        const response = await apiRequest("POST", "/api/wallet-screener/batch", {
-          addresses: batch,
-          chainId: parseInt(chainId),
-        });
-        
-        const batchResults = await response.json();
-        screenedResults.push(...batchResults);
-        
+      while (job.status === "queued" || job.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        job = await (await apiRequest("GET", `/api/wallet-screener/jobs/${job.id}`)).json();
         setProgress({
-          total: addresses.length,
-          processed: Math.min(i + batchSize, addresses.length),
-          currentAddress: batch[batch.length - 1],
-        });
-        
-        setResults([...screenedResults]);
-      } catch (error) {
-        console.error("Batch screening error:", error);
-        batch.forEach((addr) => {
-          screenedResults.push({
-            address: addr,
-            riskScore: 0,
-            riskLevel: "low",
-            labels: ["Error fetching data"],
-            flags: {
-              isBot: false,
-              isSybil: false,
-              isContract: false,
-              isExchange: false,
-              isNewWallet: false,
-              lowActivity: false,
-              highFrequencyTrader: false,
-              airdropFarmer: false,
-            },
-            metrics: {
-              txCount: 0,
-              firstTxDate: null,
-              lastTxDate: null,
-              walletAgeDays: 0,
-              avgTxPerDay: 0,
-              uniqueContractsInteracted: 0,
-              totalGasSpent: "0",
-              nftCollectionsHeld: 0,
-            },
-            details: "Failed to fetch wallet data",
-          });
+          total: job.totalCount,
+          processed: job.processedCount,
+          status: job.status === "queued" ? "Queued" : `${job.cachedCount} from cache, ${job.failedCount} failed`,
         });
-        setResults([...screenedResults]);
       }
-    }
 
-    setIsProcessing(false);
-    setProgress(null);
+      const items: WalletScreeningJobItem[] = await (await apiRequest("GET", `/api/wallet-screener/jobs/${job.id}/results`)).json();
+      const screenedResults = items.map((item) =>
+        item.result ?? failedResult(item.address, job, item.error || "Not screened"),
+      );
+      setResults(screenedResults);
 
-    const highRiskCount = screenedResults.filter(r => r.riskLevel === "high" || r.riskLevel === "critical").length;
-    toast({
-      title: "Screening complete",
-      description: `Screened ${screenedResults.length} wallets. ${highRiskCount} flagged as high risk.`,
-    });
+      if (job.status !== "completed") {
+        toast({
+          title: `Screening ${job.status}`,
+          description: job.error || `${job.processedCount} of ${job.totalCount} wallets were screened.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const highRiskCount = screenedResults.filter(r => r.riskLevel === "high" || r.riskLevel === "critical").length;
+      toast({
+        title: "Screening complete",
+        description: `Screened ${screenedResults.length} wallets. ${highRiskCount} flagged as high risk, ${job.sybilClusterCount} sybil cluster(s).`,
+      });
+    } catch (error) {
+      console.error("Screening error:", error);
+      toast({
+        title: "Screening failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
   }, [chainId, toast]);
 
   const processCSV = useCallback(async (csvFile: File) => {
@@ -304,7 +311,8 @@ export default function WalletScreener() {
       last_tx_date: r.metrics.lastTxDate || "",
       unique_contracts: r.metrics.uniqueContractsInteracted,
       total_gas_spent: r.metrics.totalGasSpent,
-      nft_collections: r.metrics.nftCollectionsHeld,
+      nft_collections: r.metrics.nftCollectionsHeld ?? "",
+      funded_by: r.metrics.fundedBy || "",
     }));
 
     const csv = Papa.unparse(csvData);
@@ -425,14 +433,18 @@ export default function WalletScreener() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="1">Ethereum</SelectItem>
-                  <SelectItem value="10">Optimism</SelectItem>
-                  <SelectItem value="56">BSC</SelectItem>
-                  <SelectItem value="137">Polygon</SelectItem>
-                  <SelectItem value="8453">Base</SelectItem>
-                  <SelectItem value="42161">Arbitrum</SelectItem>
+                  {(screenerStatus?.supportedChains ?? []).map((chain) => (
+                    <SelectItem key={chain.id} value={String(chain.id)}>{chain.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {screenerStatus && (
+                <p className="text-xs text-muted-foreground mt-2" data-testid="text-screener-provider">
+                  {screenerStatus.provider
+                    ? `Chain data from ${screenerStatus.provider}; results are cached for ${screenerStatus.cacheTtlHours}h. Up to ${screenerStatus.maxBatchSize} addresses per file.`
+                    : "No chain data provider is configured, so wallets can't be screened yet."}
+                </p>
+              )}
             </div>
           </div>
 
@@ -469,7 +481,7 @@ export default function WalletScreener() {
                   data-testid="progress-bar"
                 />
                 <p className="text-xs text-muted-foreground mt-2 font-mono" data-testid="progress-current">
-                  {progress?.currentAddress ? `Processing: ${progress.currentAddress.slice(0, 10)}...` : ""}
+                  {progress?.status}
                 </p>
               </div>
             ) : (
@@ -0,0 +1,455 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { USD_CURRENCIES } from "./safe-payouts";
+import {
+  accountingAccountKeys,
+  accountingExportSources,
+  type AccountingAccount,
+  type AccountingAccountKey,
+  type AccountingExport,
+  type AccountingExportFormat,
+  type AccountingExportSource,
+  type CreditLedgerAccount,
+  type TreasuryTxnType,
+} from "@shared/schema";
+
+/**
+ * Accounting exports
+ *
+ * Turns a period's financial records into journals and renders them as a CSV file:
+ *
+ * - dao_invoices: issuing debits receivables and credits project revenue, payment moves the
+ *   receivable to cash. A credit note reverses revenue against cash; voiding reverses the
+ *   issue, or for a paid invoice refunds whatever its credit notes haven't.
+ * - treasury_transactions: the treasury account against cash (project inflows), bonus and
+ *   operating expenses, or adjustments, by transaction type.
+ * - credit_transactions: the client credit ledger's own entries, with available and held
+ *   balances as the credit liability, platform revenue as credit revenue, and issuance as
+ *   cash for purchases or adjustments otherwise. Holds and releases net to nothing.
+ * - team_payments: completed payments debit payroll expense and credit cash.
+ * - payment_requests: approval debits reimbursement expense and credits payables, payment
+ *   moves the payable to cash.
+ *
+ * Accounts are abstract keys mapped to the bookkeeper's chart of accounts; admins can
+ * override DEFAULT_ACCOUNTS. Journals use the record's own currency, with stablecoins
+ * booked as USD. The Xero and QuickBooks layouts import into a USD ledger only, so other
+ * currencies are left out of them with a warning.
+ *
+ * Every export is stored with its content and checksum and never changes afterwards, so a
+ * re-download returns exactly what the bookkeeper imported, even after mappings change.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ACCOUNTS: Record<AccountingAccountKey, { code: string; name: string }> = {
+  cash: { code: "1000", name: "Operating Wallets" },
+  treasury: { code: "1010", name: "DAO Treasury" },
+  accounts_receivable: { code: "1100", name: "Accounts Receivable" },
+  accounts_payable: { code: "2000", name: "Accounts Payable" },
+  client_credit_liability: { code: "2100", name: "Client Prepaid Credits" },
+  project_revenue: { code: "4000", name: "Project Revenue" },
+  credit_revenue: { code: "4100", name: "Content Services Revenue" },
+  payroll_expense: { code: "6000", name: "Contractor Payroll" },
+  bonus_expense: { code: "6100", name: "Member Bonuses" },
+  reimbursement_expense: { code: "6200", name: "Reimbursements" },
+  operating_expense: { code: "6300", name: "Treasury Expenses" },
+  adjustments: { code: "3900", name: "Ledger Adjustments" },
+};
+
+const TREASURY_COUNTER_ACCOUNTS: Record<TreasuryTxnType, AccountingAccountKey> = {
+  project_inflow: "cash",
+  bonus_outflow: "bonus_expense",
+  expense: "operating_expense",
+  adjustment: "adjustments",
+};
+
+export type AccountingResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): AccountingResult<T> {
+  return { ok: false, code, error };
+}
+
+// ==================== Chart of accounts ====================
+
+export async function getChartOfAccounts(): Promise<AccountingAccount[]> {
+  const overrides = new Map((await storage.getAccountingAccountMappings()).map(m => [m.accountKey, m]));
+  return accountingAccountKeys.map(key => {
+    const override = overrides.get(key);
+    return {
+      key,
+      code: override?.accountCode ?? DEFAULT_ACCOUNTS[key].code,
+      name: override?.accountName ?? DEFAULT_ACCOUNTS[key].name,
+    };
+  });
+}
+
+export async function setAccountMapping(
+  key: string,
+  input: { accountCode: string; accountName: string },
+  userId: string,
+): Promise<AccountingResult<AccountingAccount[]>> {
+  if (!(accountingAccountKeys as readonly string[]).includes(key)) {
+    return fail("not_found", `Unknown account; use one of ${accountingAccountKeys.join(", ")}`);
+  }
+  await storage.upsertAccountingAccountMapping({ accountKey: key as AccountingAccountKey, ...input, updatedBy: userId });
+  return { ok: true, value: await getChartOfAccounts() };
+}
+
+export async function resetAccountMapping(key: string): Promise<AccountingResult<AccountingAccount[]>> {
+  if (!(accountingAccountKeys as readonly string[]).includes(key)) return fail("not_found", "Unknown account");
+  await storage.deleteAccountingAccountMapping(key as AccountingAccountKey);
+  return { ok: true, value: await getChartOfAccounts() };
+}
+
+// ==================== Journals ====================
+
+export interface JournalLine {
+  account: AccountingAccountKey;
+  debitCents: number;
+  creditCents: number;
+}
+
+export interface Journal {
+  date: Date;
+  source: AccountingExportSource;
+  sourceId: number;
+  reference: string;
+  description: string;
+  contact: string | null;
+  currency: string;
+  lines: JournalLine[];
+}
+
+function bookCurrency(currency: string | null | undefined): string {
+  const code = (currency || "USD").toUpperCase();
+  return USD_CURRENCIES.includes(code) ? "USD" : code;
+}
+
+// A two-line journal; a negative amount swaps the sides
+function simpleJournal(
+  entry: Omit<Journal, "lines">,
+  amountCents: number,
+  debit: AccountingAccountKey,
+  credit: AccountingAccountKey,
+): Journal | null {
+  if (amountCents === 0) return null;
+  const [dr, cr] = amountCents > 0 ? [debit, credit] : [credit, debit];
+  const amount = Math.abs(amountCents);
+  return {
+    ...entry,
+    lines: [
+      { account: dr, debitCents: amount, creditCents: 0 },
+      { account: cr, debitCents: 0, creditCents: amount },
+    ],
+  };
+}
+
+function inPeriod(date: Date | null, start: Date, end: Date): date is Date {
+  return !!date && date >= start && date < end;
+}
+
+async function invoiceJournals(start: Date, end: Date): Promise<Journal[]> {
+  const journals: (Journal | null)[] = [];
+  const contacts = new Map<number, string | null>();
+  for (const invoice of await storage.getDaoInvoicesPostedBetween(start, end)) {
+    if (!invoice.invoiceNumber) continue;
+    if (!contacts.has(invoice.projectId)) {
+      const project = await storage.getDaoProject(invoice.projectId);
+      const client = project?.clientProfileId ? await storage.getClientProfile(project.clientProfileId) : undefined;
+      contacts.set(invoice.projectId, client?.name ?? project?.name ?? null);
+    }
+    const base = {
+      source: "dao_invoices" as const,
+      sourceId: invoice.id,
+      contact: contacts.get(invoice.projectId) ?? null,
+      currency: "USD",
+    };
+    const isCreditNote = invoice.invoiceType === "credit_note";
+
+    if (inPeriod(invoice.issuedAt, start, end)) {
+      // Credit notes are only issued against paid invoices, so they are refunded rather than owed
+      journals.push(simpleJournal(
+        { ...base, date: invoice.issuedAt, reference: invoice.invoiceNumber, description: `${isCreditNote ? "Credit note" : "Invoice"} ${invoice.invoiceNumber} issued` },
+        isCreditNote ? -invoice.amount : invoice.amount,
+        isCreditNote ? "cash" : "accounts_receivable",
+        "project_revenue",
+      ));
+    }
+    if (!isCreditNote && inPeriod(invoice.paidAt, start, end)) {
+      journals.push(simpleJournal(
+        { ...base, date: invoice.paidAt, reference: invoice.paymentReference || invoice.invoiceNumber, description: `Payment for invoice ${invoice.invoiceNumber}${invoice.paymentMethod ? ` (${invoice.paymentMethod})` : ""}` },
+        invoice.amount,
+        "cash",
+        "accounts_receivable",
+      ));
+    }
+    if (inPeriod(invoice.voidedAt, start, end)) {
+      journals.push(simpleJournal(
+        { ...base, date: invoice.voidedAt, reference: invoice.invoiceNumber, description: `Invoice ${invoice.invoiceNumber} voided${invoice.voidReason ? `: ${invoice.voidReason}` : ""}` },
+        // A paid invoice's receivable was cleared by its payment, and its credit notes already
+        // reversed their share of the revenue, so only the remainder is refunded
+        invoice.paidAt ? invoice.amount - invoice.creditedAmount : invoice.amount,
+        "project_revenue",
+        invoice.paidAt ? "cash" : "accounts_receivable",
+      ));
+    }
+  }
+  return journals.filter((j): j is Journal => j !== null);
+}
+
+async function treasuryJournals(start: Date, end: Date): Promise<Journal[]> {
+  return (await storage.getDaoTreasuryTransactionsBetween(start, end))
+    .map(txn => simpleJournal(
+      {
+        date: txn.createdAt ?? start,
+        source: "treasury_transactions",
+        sourceId: txn.id,
+        reference: `TRSY-${txn.id}`,
+        description: txn.memo || txn.txnType.replace(/_/g, " "),
+        contact: txn.counterpartyAddress,
+        currency: bookCurrency(txn.tokenSymbol),
+        // Positive amounts add to the treasury
+      }, txn.amount, "treasury", TREASURY_COUNTER_ACCOUNTS[txn.txnType] ?? "adjustments"))
+    .filter((j): j is Journal => j !== null);
+}
+
+function creditAccount(account: CreditLedgerAccount, transactionType: string): AccountingAccountKey {
+  if (account === "client_available" || account === "client_held") return "client_credit_liability";
+  if (account === "platform_revenue") return "credit_revenue";
+  return transactionType === "credit_added" ? "cash" : "adjustments";
+}
+
+async function creditJournals(start: Date, end: Date): Promise<Journal[]> {
+  const rows = await storage.getCreditLedgerEntriesBetween(start, end);
+  const byTransaction = new Map<number, typeof rows>();
+  for (const row of rows) {
+    byTransaction.set(row.transaction.id, [...(byTransaction.get(row.transaction.id) ?? []), row]);
+  }
+
+  const users = new Map((await storage.getAllUsers()).map(u => [u.id, u]));
+  const journals: Journal[] = [];
+  Array.from(byTransaction.values()).forEach(entries => {
+    const { transaction } = entries[0];
+    // Ledger entries are credit-normal: a positive amount credits the account
+    const net = new Map<AccountingAccountKey, number>();
+    for (const { entry } of entries) {
+      const account = creditAccount(entry.account, transaction.type);
+      net.set(account, (net.get(account) ?? 0) + entry.amount);
+    }
+    const lines = Array.from(net.entries())
+      .filter(([, amount]) => amount !== 0)
+      .map(([account, amount]) => ({ account, debitCents: amount < 0 ? -amount : 0, creditCents: amount > 0 ? amount : 0 }));
+    if (lines.length === 0) return;
+    const user = users.get(transaction.userId);
+    journals.push({
+      date: transaction.createdAt ?? start,
+      source: "credit_transactions",
+      sourceId: transaction.id,
+      reference: transaction.orderId ? `ORDER-${transaction.orderId}` : `CREDIT-${transaction.id}`,
+      description: transaction.description || transaction.type.replace(/_/g, " "),
+      contact: user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email : null,
+      currency: "USD",
+      lines,
+    });
+  });
+  return journals;
+}
+
+async function teamPaymentJournals(start: Date, end: Date): Promise<Journal[]> {
+  const members = new Map((await storage.getInternalTeamMembers()).map(m => [m.id, m]));
+  return (await storage.getCompletedTeamPaymentsBetween(start, end))
+    .map(payment => simpleJournal(
+      {
+        date: payment.paymentDate ?? start,
+        source: "team_payments",
+        sourceId: payment.id,
+        reference: payment.txHash || `PAY-${payment.id}`,
+        description: payment.description || "Team payment",
+        contact: members.get(payment.memberId)?.name ?? null,
+        currency: bookCurrency(payment.currency),
+      }, Math.round(payment.amount * 100), "payroll_expense", "cash"))
+    .filter((j): j is Journal => j !== null);
+}
+
+async function paymentRequestJournals(start: Date, end: Date): Promise<Journal[]> {
+  const users = new Map((await storage.getAllUsers()).map(u => [u.id, u]));
+  const journals: (Journal | null)[] = [];
+  for (const request of await storage.getPaymentRequestsApprovedOrPaidBetween(start, end)) {
+    const requester = users.get(request.requesterId);
+    const base = {
+      source: "payment_requests" as const,
+      sourceId: request.id,
+      contact: requester ? [requester.firstName, requester.lastName].filter(Boolean).join(" ") || requester.email : null,
+      currency: bookCurrency(request.currency),
+    };
+    const amountCents = Math.round(Number(request.amount) * 100);
+    if (inPeriod(request.reviewedAt, start, end)) {
+      journals.push(simpleJournal(
+        { ...base, date: request.reviewedAt, reference: `PR-${request.id}`, description: `Payment request #${request.id} approved: ${request.reason}` },
+        amountCents, "reimbursement_expense", "accounts_payable"));
+    }
+    if (inPeriod(request.paidAt, start, end)) {
+      journals.push(simpleJournal(
+        { ...base, date: request.paidAt, reference: request.safeTxHash || `PR-${request.id}`, description: `Payment request #${request.id} paid` },
+        amountCents, "accounts_payable", "cash"));
+    }
+  }
+  return journals.filter((j): j is Journal => j !== null);
+}
+
+const SOURCE_COLLECTORS: Record<AccountingExportSource, (start: Date, end: Date) => Promise<Journal[]>> = {
+  dao_invoices: invoiceJournals,
+  treasury_transactions: treasuryJournals,
+  credit_transactions: creditJournals,
+  team_payments: teamPaymentJournals,
+  payment_requests: paymentRequestJournals,
+};
+
+export async function buildJournals(start: Date, end: Date, sources: AccountingExportSource[]): Promise<Journal[]> {
+  const journals: Journal[] = [];
+  for (const source of sources) {
+    journals.push(...await SOURCE_COLLECTORS[source](start, end));
+  }
+  return journals.sort((a, b) => a.date.getTime() - b.date.getTime() || a.source.localeCompare(b.source) || a.sourceId - b.sourceId);
+}
+
+// ==================== Layouts ====================
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function money(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dayMonthYear(date: Date): string {
+  const [y, m, d] = isoDay(date).split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function monthDayYear(date: Date): string {
+  const [y, m, d] = isoDay(date).split("-");
+  return `${m}/${d}/${y}`;
+}
+
+interface Rendered {
+  content: string;
+  journalCount: number;
+  lineCount: number;
+  totalDebitCents: number;
+  warnings: string[];
+}
+
+function render(format: AccountingExportFormat, journals: Journal[], chart: AccountingAccount[]): Rendered {
+  const accounts = new Map(chart.map(a => [a.key, a]));
+  const warnings: string[] = [];
+  let included = journals;
+  if (format !== "general_ledger") {
+    const foreign = journals.filter(j => j.currency !== "USD");
+    if (foreign.length > 0) {
+      const currencies = Array.from(new Set(foreign.map(j => j.currency))).join(", ");
+      warnings.push(`${foreign.length} journal(s) in ${currencies} left out; use the general ledger export for non-USD records`);
+      included = journals.filter(j => j.currency === "USD");
+    }
+  }
+
+  const rows: (string | number | null)[][] = [];
+  if (format === "general_ledger") {
+    rows.push(["Date", "Journal", "Reference", "Source", "Source ID", "Description", "Contact", "Account Code", "Account Name", "Debit", "Credit", "Currency"]);
+  } else if (format === "xero") {
+    // Xero manual journal import; positive amounts are debits
+    rows.push(["*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount", "TrackingName1", "TrackingOption1", "TrackingName2", "TrackingOption2"]);
+  } else {
+    // QuickBooks Online journal entry import; lines with the same Journal No. form one entry
+    rows.push(["Journal No.", "Journal Date", "Account", "Debits", "Credits", "Description", "Name", "Memo"]);
+  }
+
+  let lineCount = 0;
+  let totalDebitCents = 0;
+  included.forEach((journal, index) => {
+    const number = `J${String(index + 1).padStart(4, "0")}`;
+    for (const line of journal.lines) {
+      const account = accounts.get(line.account)!;
+      lineCount++;
+      totalDebitCents += line.debitCents;
+      if (format === "general_ledger") {
+        rows.push([isoDay(journal.date), number, journal.reference, journal.source, journal.sourceId, journal.description, journal.contact, account.code, account.name, line.debitCents ? money(line.debitCents) : "", line.creditCents ? money(line.creditCents) : "", journal.currency]);
+      } else if (format === "xero") {
+        rows.push([`${number} ${journal.reference}: ${journal.description}`, dayMonthYear(journal.date), journal.contact ? `${journal.description} (${journal.contact})` : journal.description, account.code, "Tax Exempt", money(line.debitCents - line.creditCents), null, null, null, null]);
+      } else {
+        rows.push([number, monthDayYear(journal.date), account.name, line.debitCents ? money(line.debitCents) : "", line.creditCents ? money(line.creditCents) : "", journal.description, journal.contact, journal.reference]);
+      }
+    }
+  });
+
+  return { content: csv(rows), journalCount: included.length, lineCount, totalDebitCents, warnings };
+}
+
+// ==================== Exports ====================
+
+const FORMAT_FILE_PREFIXES: Record<AccountingExportFormat, string> = {
+  general_ledger: "general-ledger",
+  xero: "xero-manual-journals",
+  quickbooks: "quickbooks-journal-entries",
+};
+
+/**
+ * Generate and store an export for the days periodStart to periodEnd (inclusive, UTC).
+ * Periods still in progress can be exported; later records simply aren't in the file.
+ */
+export async function createAccountingExport(
+  input: { format: AccountingExportFormat; periodStart: string; periodEnd: string; sources?: AccountingExportSource[] },
+  userId: string,
+): Promise<AccountingResult<Omit<AccountingExport, "content">>> {
+  const start = new Date(`${input.periodStart}T00:00:00Z`);
+  const end = new Date(new Date(`${input.periodEnd}T00:00:00Z`).getTime() + DAY_MS);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return fail("invalid", "Invalid period dates");
+  if (start > new Date()) return fail("invalid", "The period hasn't started yet");
+
+  const sources = input.sources ? accountingExportSources.filter(s => input.sources!.includes(s)) : [...accountingExportSources];
+  const chart = await getChartOfAccounts();
+  const journals = await buildJournals(start, end, sources);
+  const rendered = render(input.format, journals, chart);
+
+  const { content, ...saved } = await storage.createAccountingExport({
+    format: input.format,
+    periodStart: start,
+    periodEnd: end,
+    sources,
+    fileName: `${FORMAT_FILE_PREFIXES[input.format]}_${input.periodStart}_${input.periodEnd}.csv`,
+    content: rendered.content,
+    sha256: crypto.createHash("sha256").update(rendered.content).digest("hex"),
+    journalCount: rendered.journalCount,
+    lineCount: rendered.lineCount,
+    totalDebitCents: rendered.totalDebitCents,
+    chartOfAccounts: chart,
+    warnings: rendered.warnings,
+    createdBy: userId,
+  });
+  console.log(`[Accounting] Export #${saved.id}: ${input.format} for ${input.periodStart} to ${input.periodEnd}, ${rendered.journalCount} journal(s)`);
+  return { ok: true, value: saved };
+}
+
+/** The stored file, refusing to serve content that no longer matches its checksum */
+export async function getAccountingExportFile(id: number): Promise<AccountingResult<AccountingExport>> {
+  const stored = await storage.getAccountingExport(id);
+  if (!stored) return fail("not_found", "Export not found");
+  const checksum = crypto.createHash("sha256").update(stored.content).digest("hex");
+  if (checksum !== stored.sha256) {
+    console.error(`[Accounting] Export #${id} content doesn't match its checksum`);
+    return fail("conflict", "The stored export has been altered and can't be downloaded");
+  }
+  return { ok: true, value: stored };
+}
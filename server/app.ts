@@ -9,6 +9,7 @@ import express, {
 
 import { registerRoutes } from "./routes";
 import { setupLiveStreamServer } from "./live-stream";
+import { setupWhiteboardCollabServer } from "./whiteboard-collab";
 import { bootstrapServices } from "./bootstrap";
 
 export function log(message: string, source = "express") {
@@ -74,6 +75,9 @@ export default async function runApp(
   // Set up live stream WebSocket server
   setupLiveStreamServer(server);
 
+  // Set up whiteboard collaboration WebSocket channels
+  setupWhiteboardCollabServer(server);
+
   // Bootstrap microservices architecture
   // This initializes the new service-based architecture alongside legacy routes
   log('Initializing microservices architecture...', 'bootstrap');
@@ -0,0 +1,353 @@
+import { storage } from "./storage";
+import { findContentAssigneeId, getOpenBlockers, notifyUnblockedTasks } from "./task-dependencies";
+import { approvalGatedTaskStatuses, type Approval, type ApprovalStatus, type ContentTask, type User } from "@shared/schema";
+
+/**
+ * Approval workflow engine
+ *
+ * Applying a workflow creates one approval per stage in "waiting". Stages open in
+ * stageOrder (stages sharing an order open together); a stage group passes once all of
+ * its required approvals are approved, at which point any optional approvals still open
+ * in the group are skipped and the next group opens. A rejection sends the task back to
+ * its assignee, and resubmitting reopens the rejected stage. Stages whose daysToComplete
+ * is breached are escalated (required) or skipped (optional) by processApprovalSlas.
+ */
+
+const REVIEW_STATUS = "IN REVIEW";
+const REWORK_STATUS = "IN PROGRESS";
+const WORKFLOW_APPROVED_STATUS = "APPROVED";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ApprovalDecision = Extract<ApprovalStatus, "approved" | "rejected" | "revision_requested" | "skipped">;
+export const approvalDecisions: ApprovalDecision[] = ["approved", "rejected", "revision_requested", "skipped"];
+
+export type WorkflowResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): WorkflowResult<T> {
+  return { ok: false, code, error };
+}
+
+function isWorkflowApproval(approval: Approval): boolean {
+  return approval.workflowId !== null;
+}
+
+function isStageSettled(approval: Approval): boolean {
+  return approval.status === "approved" || approval.status === "skipped";
+}
+
+async function getWorkflowApprovals(taskId: number): Promise<Approval[]> {
+  return (await storage.getApprovals(taskId)).filter(isWorkflowApproval);
+}
+
+async function setTaskStatus(task: ContentTask, status: string, actorId: string | null): Promise<void> {
+  if (task.status === status) return;
+  await storage.updateContentTask(task.id, { status });
+  await storage.createActivityLog({
+    taskId: task.id,
+    userId: actorId,
+    action: "status_changed",
+    details: { from: task.status, to: status, reason: "approval_workflow" },
+  });
+}
+
+export function canActOnApproval(approval: Approval, user: Pick<User, "id" | "role">): boolean {
+  if (user.role === "admin") return true;
+  if (approval.reviewerId === user.id) return true;
+  return !!approval.reviewerRole && approval.reviewerRole === user.role;
+}
+
+/**
+ * Required workflow approvals that haven't passed. A task can't move to an
+ * approval-gated status (APPROVED, COMPLETED) while any remain.
+ */
+export async function getOutstandingApprovals(taskId: number): Promise<Approval[]> {
+  return (await getWorkflowApprovals(taskId)).filter(a => a.isRequired && !isStageSettled(a));
+}
+
+export function isApprovalGatedStatus(status: string | null | undefined): boolean {
+  return !!status && (approvalGatedTaskStatuses as readonly string[]).includes(status);
+}
+
+/**
+ * Open the lowest waiting stage group if nothing is in review. When no stages are left
+ * the task is marked approved.
+ */
+async function openNextStage(task: ContentTask, actorId: string | null): Promise<Approval[]> {
+  const workflowApprovals = await getWorkflowApprovals(task.id);
+  if (workflowApprovals.some(a => a.status === "pending")) return [];
+
+  const waiting = workflowApprovals.filter(a => a.status === "waiting");
+  if (waiting.length === 0) {
+    const blocked = workflowApprovals.some(a => a.isRequired && !isStageSettled(a));
+    if (!blocked && workflowApprovals.length > 0 && !isApprovalGatedStatus(task.status)) {
+      // A task still waiting on blockers keeps its status; the approvals stay settled
+      const openBlockers = await getOpenBlockers({ taskType: "content", taskId: task.id });
+      if (openBlockers.length === 0) {
+        await setTaskStatus(task, WORKFLOW_APPROVED_STATUS, actorId);
+        await notifyUnblockedTasks({ taskType: "content", taskId: task.id });
+      }
+      const assigneeId = await findContentAssigneeId(task.assignedTo);
+      if (assigneeId) {
+        await storage.createNotification({
+          userId: assigneeId,
+          type: "approval_completed",
+          title: "All approvals complete",
+          message: task.description.substring(0, 100),
+          taskId: task.id,
+        });
+      }
+      await storage.createActivityLog({
+        taskId: task.id,
+        userId: actorId,
+        action: "approval_workflow_completed",
+        details: { stages: Array.from(new Set(workflowApprovals.map(a => a.stage))).length },
+      });
+    }
+    return [];
+  }
+
+  const nextStage = Math.min(...waiting.map(a => a.stage));
+  const now = new Date();
+  const opened: Approval[] = [];
+
+  for (const approval of waiting.filter(a => a.stage === nextStage)) {
+    const updated = await storage.transitionApproval(approval.id, "waiting", {
+      status: "pending",
+      openedAt: now,
+      dueDate: approval.daysToComplete ? new Date(now.getTime() + approval.daysToComplete * DAY_MS) : null,
+      escalatedAt: null,
+      reviewedAt: null,
+      reviewedBy: null,
+    });
+    // Another request opened it first
+    if (!updated) continue;
+    opened.push(updated);
+
+    await storage.createNotification({
+      userId: updated.reviewerId,
+      type: "approval_request",
+      title: `Approval needed: ${updated.stageName || `Stage ${updated.stage}`}`,
+      message: task.description.substring(0, 100),
+      taskId: task.id,
+    });
+  }
+
+  if (opened.length > 0) {
+    await storage.createActivityLog({
+      taskId: task.id,
+      userId: actorId,
+      action: "approval_stage_opened",
+      details: { stage: nextStage, stageNames: opened.map(a => a.stageName) },
+    });
+  }
+  return opened;
+}
+
+/**
+ * Move past the open stage group once its required approvals have passed
+ */
+async function advanceWorkflow(task: ContentTask, actorId: string | null): Promise<void> {
+  const workflowApprovals = await getWorkflowApprovals(task.id);
+  const pending = workflowApprovals.filter(a => a.status === "pending");
+
+  if (pending.length > 0) {
+    const currentStage = Math.min(...pending.map(a => a.stage));
+    const group = workflowApprovals.filter(a => a.stage === currentStage);
+    if (group.some(a => a.isRequired && !isStageSettled(a))) return;
+
+    // Required reviews are in; optional reviews in this group no longer hold the task up
+    for (const optional of group.filter(a => a.status === "pending")) {
+      await storage.transitionApproval(optional.id, "pending", {
+        status: "skipped",
+        comments: "Skipped automatically: required reviews for this stage are complete",
+        reviewedAt: new Date(),
+      });
+    }
+  }
+
+  await openNextStage(task, actorId);
+}
+
+/**
+ * Attach a workflow to a task and open its first stage
+ */
+export async function startApprovalWorkflow(taskId: number, workflowId: number, actorId: string | null): Promise<WorkflowResult<Approval[]>> {
+  const task = await storage.getContentTask(taskId);
+  if (!task) return fail("not_found", "Content task not found");
+
+  const workflow = await storage.getApprovalWorkflow(workflowId);
+  if (!workflow || !workflow.isActive) return fail("not_found", "Approval workflow not found");
+
+  const existing = await getWorkflowApprovals(taskId);
+  if (existing.some(a => !isStageSettled(a))) {
+    return fail("conflict", "Task already has an approval workflow in progress");
+  }
+
+  // Refuse rather than silently dropping a required stage nobody can review
+  const stages = await storage.getApprovalWorkflowStages(workflowId);
+  if (stages.length === 0) return fail("invalid", "Workflow has no stages");
+  const roles = new Set<string | null>((await storage.getAllUsers()).map(u => u.role));
+  const unroutable = stages.filter(s => s.isRequired && !s.reviewerId && (!s.reviewerRole || !roles.has(s.reviewerRole)));
+  if (unroutable.length > 0) {
+    return fail("invalid", `No reviewer available for required stage(s): ${unroutable.map(s => s.stageName).join(", ")}`);
+  }
+
+  await storage.applyWorkflowToTask(taskId, workflowId);
+  await setTaskStatus(task, REVIEW_STATUS, actorId);
+  await openNextStage({ ...task, status: REVIEW_STATUS }, actorId);
+
+  return { ok: true, value: await getWorkflowApprovals(taskId) };
+}
+
+/**
+ * Record a reviewer's decision and drive the workflow forward (or back to the assignee)
+ */
+export async function recordApprovalDecision(
+  approvalId: number,
+  actor: Pick<User, "id" | "role">,
+  decision: ApprovalDecision,
+  comments?: string,
+): Promise<WorkflowResult<Approval>> {
+  const approval = await storage.getApproval(approvalId);
+  if (!approval) return fail("not_found", "Approval not found");
+  if (!canActOnApproval(approval, actor)) return fail("forbidden", "You are not a reviewer for this approval");
+  if (approval.status !== "pending") return fail("conflict", `Approval is ${approval.status}, not awaiting review`);
+  if (decision === "skipped" && approval.isRequired) return fail("invalid", "Required stages can't be skipped");
+
+  const updated = await storage.transitionApproval(approvalId, "pending", {
+    status: decision,
+    comments: comments ?? approval.comments,
+    reviewedAt: new Date(),
+    reviewedBy: actor.id,
+  });
+  if (!updated) return fail("conflict", "Approval was decided by someone else");
+
+  await storage.createActivityLog({
+    taskId: updated.taskId,
+    userId: actor.id,
+    action: `approval_${decision}`,
+    details: { stage: updated.stage, stageName: updated.stageName, comments: comments || null },
+  });
+
+  // Ad-hoc approval requests aren't part of a workflow
+  if (!isWorkflowApproval(updated)) return { ok: true, value: updated };
+
+  const task = await storage.getContentTask(updated.taskId);
+  if (!task) return { ok: true, value: updated };
+
+  if (decision === "rejected" || decision === "revision_requested") {
+    // Park the rest of this stage group until the assignee resubmits
+    const siblings = (await getWorkflowApprovals(task.id)).filter(a => a.stage === updated.stage && a.status === "pending");
+    for (const sibling of siblings) {
+      await storage.transitionApproval(sibling.id, "pending", { status: "waiting", openedAt: null, dueDate: null });
+    }
+    await setTaskStatus(task, REWORK_STATUS, actor.id);
+
+    const assigneeId = await findContentAssigneeId(task.assignedTo);
+    if (assigneeId) {
+      await storage.createNotification({
+        userId: assigneeId,
+        type: "approval_rejected",
+        title: decision === "rejected"
+          ? `Rejected at ${updated.stageName || `stage ${updated.stage}`}`
+          : `Revisions requested at ${updated.stageName || `stage ${updated.stage}`}`,
+        message: (comments || task.description).substring(0, 100),
+        taskId: task.id,
+      });
+    }
+  } else {
+    await advanceWorkflow(task, actor.id);
+  }
+
+  return { ok: true, value: updated };
+}
+
+/**
+ * Send a task back into review after a rejection, reopening the rejected stage
+ */
+export async function resubmitForApproval(taskId: number, actorId: string | null): Promise<WorkflowResult<Approval[]>> {
+  const task = await storage.getContentTask(taskId);
+  if (!task) return fail("not_found", "Content task not found");
+
+  const returned = (await getWorkflowApprovals(taskId))
+    .filter(a => a.status === "rejected" || a.status === "revision_requested");
+  if (returned.length === 0) return fail("conflict", "Task has no rejected approval stages to resubmit");
+
+  for (const approval of returned) {
+    await storage.transitionApproval(approval.id, approval.status, { status: "waiting", openedAt: null, dueDate: null });
+  }
+  await setTaskStatus(task, REVIEW_STATUS, actorId);
+  await storage.createActivityLog({
+    taskId,
+    userId: actorId,
+    action: "approval_resubmitted",
+    details: { stages: Array.from(new Set(returned.map(a => a.stage))) },
+  });
+
+  return { ok: true, value: await openNextStage({ ...task, status: REVIEW_STATUS }, actorId) };
+}
+
+/**
+ * Handle stages past their SLA: optional stages are skipped so they stop holding the
+ * task up, required stages are escalated to admins once.
+ */
+export async function processApprovalSlas(now: Date = new Date()): Promise<{ escalated: number; skipped: number }> {
+  const overdue = await storage.getOverdueApprovals(now);
+  let escalated = 0;
+  let skipped = 0;
+  let admins: User[] | null = null;
+
+  for (const approval of overdue) {
+    const task = await storage.getContentTask(approval.taskId);
+    if (!task) continue;
+    const stageLabel = approval.stageName || `Stage ${approval.stage}`;
+
+    if (!approval.isRequired) {
+      const updated = await storage.transitionApproval(approval.id, "pending", {
+        status: "skipped",
+        comments: "Skipped automatically after its SLA was breached",
+        reviewedAt: now,
+      });
+      if (!updated) continue;
+      skipped++;
+      await storage.createActivityLog({
+        taskId: task.id,
+        userId: null,
+        action: "approval_skipped",
+        details: { stage: approval.stage, stageName: approval.stageName, reason: "sla_breached" },
+      });
+      if (isWorkflowApproval(updated)) await advanceWorkflow(task, null);
+      continue;
+    }
+
+    const updated = await storage.transitionApproval(approval.id, "pending", { escalatedAt: now });
+    if (!updated) continue;
+    escalated++;
+
+    admins = admins || (await storage.getAllUsers()).filter(u => u.role === "admin");
+    const recipients = new Set([approval.reviewerId, ...admins.map(a => a.id)]);
+    const daysOverdue = approval.dueDate ? Math.max(1, Math.ceil((now.getTime() - approval.dueDate.getTime()) / DAY_MS)) : 0;
+    for (const userId of Array.from(recipients)) {
+      await storage.createNotification({
+        userId,
+        type: "approval_escalated",
+        title: `Approval overdue: ${stageLabel}`,
+        message: `${daysOverdue} day${daysOverdue === 1 ? "" : "s"} past its SLA - ${task.description.substring(0, 80)}`,
+        taskId: task.id,
+      });
+    }
+    await storage.createActivityLog({
+      taskId: task.id,
+      userId: null,
+      action: "approval_escalated",
+      details: { stage: approval.stage, stageName: approval.stageName, reviewerId: approval.reviewerId, dueDate: approval.dueDate },
+    });
+  }
+
+  if (escalated || skipped) {
+    console.log(`[Approvals] SLA check: ${escalated} escalated, ${skipped} optional stage(s) skipped`);
+  }
+  return { escalated, skipped };
+}
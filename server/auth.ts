@@ -32,6 +32,16 @@ export function getSession() {
   });
 }
 
+let sessionMiddleware: RequestHandler | undefined;
+
+// One session middleware shared by Express and WebSocket upgrade handlers
+export function getSessionMiddleware(): RequestHandler {
+  if (!sessionMiddleware) {
+    sessionMiddleware = getSession();
+  }
+  return sessionMiddleware;
+}
+
 declare module "express-session" {
   interface SessionData {
     userId?: string;
@@ -40,7 +50,7 @@ declare module "express-session" {
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  app.use(getSessionMiddleware());
 
   // Register endpoint
   app.post("/api/auth/register", async (req, res) => {
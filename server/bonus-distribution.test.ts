@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffBonusRecipients } from "./bonus-distribution";
+
+test("classifies each recipient's change against the previous run, largest first", () => {
+  const diff = diffBonusRecipients(
+    [{ membershipId: 1, finalAmount: 300 }, { membershipId: 2, finalAmount: 500 }, { membershipId: 4, finalAmount: 200 }],
+    [{ membershipId: 1, finalAmount: 300 }, { membershipId: 2, finalAmount: 400 }, { membershipId: 3, finalAmount: 300 }],
+    12,
+  );
+  assert.equal(diff.previousRunId, 12);
+  assert.equal(diff.previousTotal, 1000);
+  assert.equal(diff.currentTotal, 1000);
+  assert.equal(diff.totalChange, 0);
+  assert.deepEqual(diff.recipients.map(r => [r.membershipId, r.change, r.amountChange]), [
+    [3, "removed", -300],
+    [4, "added", 200],
+    [2, "increased", 100],
+    [1, "unchanged", 0],
+  ]);
+  assert.equal(diff.recipients.find(r => r.membershipId === 2)?.currentPoolShare, 0.5);
+});
+
+test("a first run has every recipient added and no previous pool", () => {
+  const diff = diffBonusRecipients([{ membershipId: 1, finalAmount: 100 }], [], null);
+  assert.equal(diff.recipients[0].change, "added");
+  assert.equal(diff.recipients[0].previousPoolShare, 0);
+  assert.equal(diff.recipients[0].currentPoolShare, 1);
+});
@@ -0,0 +1,597 @@
+import { storage } from "./storage";
+import {
+  daoBonusScoringModels,
+  type DaoBonusRun,
+  type DaoBonusRunApproval,
+  type DaoBonusRunRecipient,
+  type DaoBonusRunVoteDecision,
+  type DaoBonusScoreFactor,
+  type DaoBonusScoringModel,
+  type DaoBonusScoringWeights,
+  type DaoBonusShareExplanation,
+  type DaoConsistencyMetrics,
+  type DaoMembership,
+  type DaoRole,
+  type InsertDaoBonusRunRecipient,
+} from "@shared/schema";
+
+/**
+ * Bonus distribution
+ *
+ * Once the treasury balance reaches its bonus threshold, a council member proposes a run
+ * that splits the pool (the balance above the reserve kept at the last run) between active
+ * members. A scoring model turns each member's role, the attributed revenue approved since
+ * the previous run and their reliability into a score; shares are proportional to scores,
+ * and each recipient row keeps the explanation of its score. A proposal executes only after
+ * N of the M council members approve it (N is the treasury's bonusApprovalQuorum, capped at
+ * M, and the proposer's approval counts); it is rejected as soon as enough members reject
+ * it that N can no longer be reached. Only one proposal can be open at a time.
+ */
+
+export const DEFAULT_BONUS_SCORING_MODEL: DaoBonusScoringModel = "contribution_weighted";
+
+export const DEFAULT_BONUS_SCORING_WEIGHTS: DaoBonusScoringWeights = {
+  base: 0.2,
+  revenue: 0.5,
+  reliability: 0.3,
+};
+
+const DEFAULT_APPROVAL_QUORUM = 4;
+
+// One member's share of the DAO's revenue can't count for more than this many average shares
+const REVENUE_INDEX_CAP = 3;
+
+export type BonusRunResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): BonusRunResult<T> {
+  return { ok: false, code, error };
+}
+
+// ==================== Scoring models ====================
+
+export interface BonusMemberInput {
+  membership: DaoMembership;
+  role: DaoRole | undefined;
+  attributedRevenue: number; // Approved attributions in the period, in cents
+  attributionCount: number;
+  metrics: DaoConsistencyMetrics | undefined;
+  periodFeedbackCount: number;
+  periodFeedbackAverage: number | null; // Mean overall rating (1-5) received in the period
+}
+
+export interface BonusScoringContext {
+  weights: DaoBonusScoringWeights;
+  averageRevenue: number; // Mean attributed revenue across eligible members
+  periodStart: Date | null;
+  periodEnd: Date;
+}
+
+export interface BonusScoringModelDefinition {
+  key: DaoBonusScoringModel;
+  label: string;
+  description: string;
+  usesWeights: boolean;
+  score(member: BonusMemberInput, context: BonusScoringContext): { score: number; factors: DaoBonusScoreFactor[] };
+}
+
+function formatUsd(cents: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(cents / 100);
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+function roleFactor(member: BonusMemberInput): DaoBonusScoreFactor {
+  const multiplier = member.role?.multiplier ?? 1;
+  return {
+    factor: "role",
+    label: "Role multiplier",
+    value: multiplier,
+    weight: 1,
+    detail: member.role ? `${member.role.name} (tier ${member.role.tier}): ${multiplier}x` : "No role found: 1x",
+  };
+}
+
+function revenueIndex(member: BonusMemberInput, context: BonusScoringContext): { value: number; detail: string } {
+  if (context.averageRevenue <= 0) {
+    return { value: 1, detail: "No approved attributed revenue in the period, so revenue is neutral for everyone" };
+  }
+  const raw = member.attributedRevenue / context.averageRevenue;
+  const value = Math.min(raw, REVENUE_INDEX_CAP);
+  const capped = raw > REVENUE_INDEX_CAP ? ` (capped at ${REVENUE_INDEX_CAP}x)` : "";
+  return {
+    value,
+    detail: `${formatUsd(member.attributedRevenue)} from ${member.attributionCount} approved attribution(s) vs a ${formatUsd(context.averageRevenue)} average: ${round(raw, 2)}x${capped}`,
+  };
+}
+
+// Mean of the reliability signals the member has; members with no history count as fully reliable
+function reliabilityIndex(member: BonusMemberInput): { value: number; detail: string } {
+  const parts: string[] = [];
+  const values: number[] = [];
+  if (member.periodFeedbackAverage !== null) {
+    values.push(member.periodFeedbackAverage / 5);
+    parts.push(`peer rating ${round(member.periodFeedbackAverage, 2)}/5 from ${member.periodFeedbackCount} review(s) this period`);
+  } else if (member.metrics && (member.metrics.totalPeerRatings ?? 0) > 0) {
+    const score = member.metrics.overallReliabilityScore ?? 5;
+    values.push(score / 5);
+    parts.push(`reliability score ${round(score, 2)}/5 from earlier peer feedback`);
+  }
+  const deliveries = (member.metrics?.onTimeDeliveryCount ?? 0) + (member.metrics?.lateDeliveryCount ?? 0);
+  if (member.metrics && deliveries > 0) {
+    const rate = member.metrics.onTimeDeliveryRate ?? 100;
+    values.push(rate / 100);
+    parts.push(`${round(rate, 1)}% on-time delivery over ${deliveries} project(s)`);
+  }
+  if (values.length === 0) {
+    return { value: 1, detail: "No peer feedback or delivery history yet" };
+  }
+  return { value: values.reduce((sum, v) => sum + v, 0) / values.length, detail: parts.join("; ") };
+}
+
+function normaliseWeights(weights: DaoBonusScoringWeights): DaoBonusScoringWeights {
+  const total = weights.base + weights.revenue + weights.reliability;
+  if (total <= 0) return { base: 1, revenue: 0, reliability: 0 };
+  return { base: weights.base / total, revenue: weights.revenue / total, reliability: weights.reliability / total };
+}
+
+const scoringModels: Record<DaoBonusScoringModel, BonusScoringModelDefinition> = {
+  contribution_weighted: {
+    key: "contribution_weighted",
+    label: "Contribution weighted",
+    description: "Role multiplier times a blend of an equal base share, approved attributed revenue in the period and reliability (peer feedback and on-time delivery)",
+    usesWeights: true,
+    score(member, context) {
+      const weights = normaliseWeights(context.weights);
+      const role = roleFactor(member);
+      const revenue = revenueIndex(member, context);
+      const reliability = reliabilityIndex(member);
+      const blend = weights.base + weights.revenue * revenue.value + weights.reliability * reliability.value;
+      return {
+        score: role.value * blend,
+        factors: [
+          role,
+          { factor: "base", label: "Base share", value: 1, weight: round(weights.base), detail: "Equal for every active member" },
+          { factor: "revenue", label: "Attributed revenue", value: round(revenue.value), weight: round(weights.revenue), detail: revenue.detail },
+          { factor: "reliability", label: "Reliability", value: round(reliability.value), weight: round(weights.reliability), detail: reliability.detail },
+        ],
+      };
+    },
+  },
+  role_multiplier: {
+    key: "role_multiplier",
+    label: "Role multiplier only",
+    description: "Shares proportional to each member's DAO role multiplier",
+    usesWeights: false,
+    score(member) {
+      const role = roleFactor(member);
+      return { score: role.value, factors: [role] };
+    },
+  },
+};
+
+export function getBonusScoringModels(): Array<Omit<BonusScoringModelDefinition, "score"> & { defaultWeights: DaoBonusScoringWeights | null }> {
+  return daoBonusScoringModels.map(key => {
+    const { key: modelKey, label, description, usesWeights } = scoringModels[key];
+    return { key: modelKey, label, description, usesWeights, defaultWeights: usesWeights ? DEFAULT_BONUS_SCORING_WEIGHTS : null };
+  });
+}
+
+// ==================== Computing a distribution ====================
+
+export interface BonusScoringOptions {
+  scoringModel?: DaoBonusScoringModel;
+  weights?: DaoBonusScoringWeights;
+}
+
+export type PlannedBonusRecipient = Omit<InsertDaoBonusRunRecipient, "bonusRunId">;
+
+export interface BonusDistributionPlan {
+  eligible: boolean;
+  reason: string | null;
+  treasuryBalance: number;
+  reserve: number;
+  totalToDistribute: number;
+  scoringModel: DaoBonusScoringModel;
+  weights: DaoBonusScoringWeights | null;
+  periodStart: Date | null;
+  periodEnd: Date;
+  previousRun: DaoBonusRun | null;
+  recipients: PlannedBonusRecipient[];
+}
+
+function describeShare(
+  membership: DaoMembership,
+  model: BonusScoringModelDefinition,
+  score: number,
+  scoreShare: number,
+  amount: number,
+  factors: DaoBonusScoreFactor[],
+): string {
+  const [role, ...blend] = factors;
+  const blendText = blend.length
+    ? ` x (${blend.map(f => `${Math.round(f.weight * 100)}% ${f.label.toLowerCase()} ${f.value}`).join(" + ")})`
+    : "";
+  return `${model.label}: ${role.value}x role${blendText} = score ${round(score)}, ` +
+    `${round(scoreShare * 100, 2)}% of the pool (${formatUsd(amount)}) for membership #${membership.id}`;
+}
+
+// Splits `total` in proportion to `scores`, handing rounding cents to the largest remainders so the parts sum to `total`
+function allocateProportionally(total: number, scores: number[]): number[] {
+  const scoreSum = scores.reduce((sum, s) => sum + s, 0);
+  if (scoreSum <= 0) return scores.map(() => 0);
+  const exact = scores.map(s => (s / scoreSum) * total);
+  const amounts = exact.map(Math.floor);
+  let leftover = total - amounts.reduce((sum, a) => sum + a, 0);
+  const byRemainder = exact.map((value, i) => ({ i, remainder: value - amounts[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; leftover > 0 && k < byRemainder.length; k++, leftover--) {
+    amounts[byRemainder[k].i] += 1;
+  }
+  return amounts;
+}
+
+export async function planBonusDistribution(options: BonusScoringOptions = {}, at: Date = new Date()): Promise<BonusDistributionPlan> {
+  const scoringModel = options.scoringModel ?? DEFAULT_BONUS_SCORING_MODEL;
+  const model = scoringModels[scoringModel];
+  const weights = model.usesWeights ? options.weights ?? DEFAULT_BONUS_SCORING_WEIGHTS : null;
+  const previousRun = (await storage.getLatestExecutedDaoBonusRun()) ?? null;
+  const periodStart = previousRun?.executedAt ?? null;
+
+  const treasury = await storage.getDaoTreasury();
+  const plan: BonusDistributionPlan = {
+    eligible: false,
+    reason: null,
+    treasuryBalance: treasury?.balance ?? 0,
+    reserve: treasury?.lastBonusTriggerBalance ?? 0,
+    totalToDistribute: 0,
+    scoringModel,
+    weights,
+    periodStart,
+    periodEnd: at,
+    previousRun,
+    recipients: [],
+  };
+  if (!treasury) return { ...plan, reason: "Treasury has not been initialized" };
+  const threshold = treasury.bonusTriggerThreshold ?? 0;
+  if (treasury.balance < threshold) {
+    return { ...plan, reason: `Treasury balance ${formatUsd(treasury.balance)} is below the ${formatUsd(threshold)} bonus threshold` };
+  }
+  const pool = treasury.balance - plan.reserve;
+  if (pool <= 0) return { ...plan, reason: "Nothing above the treasury reserve to distribute" };
+
+  const [memberships, roles, metrics, attributions, feedback] = await Promise.all([
+    storage.getDaoMemberships(),
+    storage.getDaoRoles(),
+    storage.getAllConsistencyMetrics(),
+    storage.getApprovedDaoRevenueAttributionsBetween(periodStart, at),
+    storage.getDaoPeerFeedbackBetween(periodStart, at),
+  ]);
+  const active = memberships.filter(m => !m.activeTo).sort((a, b) => a.id - b.id);
+  if (active.length === 0) return { ...plan, totalToDistribute: pool, reason: "No active members" };
+
+  const roleById = new Map(roles.map(r => [r.id, r]));
+  const metricsByMember = new Map(metrics.map(m => [m.membershipId, m]));
+  const inputs: BonusMemberInput[] = active.map(membership => {
+    const own = attributions.filter(a => a.membershipId === membership.id);
+    const ratings = feedback
+      .filter(f => f.toMembershipId === membership.id && f.overallRating !== null)
+      .map(f => f.overallRating as number);
+    return {
+      membership,
+      role: roleById.get(membership.daoRoleId),
+      attributedRevenue: own.reduce((sum, a) => sum + (a.attributedAmount ?? 0), 0),
+      attributionCount: own.length,
+      metrics: metricsByMember.get(membership.id),
+      periodFeedbackCount: ratings.length,
+      periodFeedbackAverage: ratings.length ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+    };
+  });
+
+  const context: BonusScoringContext = {
+    weights: weights ?? DEFAULT_BONUS_SCORING_WEIGHTS,
+    averageRevenue: inputs.reduce((sum, m) => sum + m.attributedRevenue, 0) / inputs.length,
+    periodStart,
+    periodEnd: at,
+  };
+  const scored = inputs.map(input => ({ input, ...model.score(input, context) }));
+  const scoreSum = scored.reduce((sum, s) => sum + s.score, 0);
+  const amounts = allocateProportionally(pool, scored.map(s => s.score));
+
+  const recipients: PlannedBonusRecipient[] = [];
+  scored.forEach((entry, i) => {
+    if (amounts[i] <= 0) return;
+    const multiplier = entry.input.role?.multiplier ?? 1;
+    const scoreShare = scoreSum > 0 ? entry.score / scoreSum : 0;
+    const explanation: DaoBonusShareExplanation = {
+      model: scoringModel,
+      score: round(entry.score, 4),
+      scoreShare: round(scoreShare, 6),
+      factors: entry.factors,
+      summary: describeShare(entry.input.membership, model, entry.score, scoreShare, amounts[i], entry.factors),
+    };
+    recipients.push({
+      membershipId: entry.input.membership.id,
+      multiplier,
+      baseShare: Math.round(amounts[i] / (multiplier || 1)),
+      finalAmount: amounts[i],
+      score: explanation.score,
+      explanation,
+    });
+  });
+
+  if (recipients.length === 0) {
+    return { ...plan, totalToDistribute: pool, reason: "Every member scored zero under this model" };
+  }
+  return { ...plan, eligible: true, totalToDistribute: pool, recipients };
+}
+
+// ==================== Comparing runs ====================
+
+export type BonusDiffChange = "added" | "removed" | "increased" | "decreased" | "unchanged";
+
+export interface BonusRecipientDiff {
+  membershipId: number;
+  change: BonusDiffChange;
+  previousAmount: number;
+  currentAmount: number;
+  amountChange: number;
+  previousPoolShare: number; // Fraction of that run's total
+  currentPoolShare: number;
+}
+
+export interface BonusRunDiff {
+  previousRunId: number | null;
+  previousTotal: number;
+  currentTotal: number;
+  totalChange: number;
+  recipients: BonusRecipientDiff[];
+}
+
+type RecipientAmounts = Pick<DaoBonusRunRecipient, "membershipId" | "finalAmount">;
+
+export function diffBonusRecipients(
+  current: RecipientAmounts[],
+  previous: RecipientAmounts[],
+  previousRunId: number | null,
+): BonusRunDiff {
+  const currentTotal = current.reduce((sum, r) => sum + r.finalAmount, 0);
+  const previousTotal = previous.reduce((sum, r) => sum + r.finalAmount, 0);
+  const currentBy = new Map(current.map(r => [r.membershipId, r.finalAmount]));
+  const previousBy = new Map(previous.map(r => [r.membershipId, r.finalAmount]));
+  const membershipIds = Array.from(new Set([...Array.from(currentBy.keys()), ...Array.from(previousBy.keys())]));
+
+  const recipients = membershipIds.map((membershipId): BonusRecipientDiff => {
+    const inCurrent = currentBy.has(membershipId);
+    const inPrevious = previousBy.has(membershipId);
+    const currentAmount = currentBy.get(membershipId) ?? 0;
+    const previousAmount = previousBy.get(membershipId) ?? 0;
+    const amountChange = currentAmount - previousAmount;
+    const change: BonusDiffChange = !inPrevious ? "added"
+      : !inCurrent ? "removed"
+      : amountChange > 0 ? "increased"
+      : amountChange < 0 ? "decreased"
+      : "unchanged";
+    return {
+      membershipId,
+      change,
+      previousAmount,
+      currentAmount,
+      amountChange,
+      previousPoolShare: previousTotal > 0 ? round(previousAmount / previousTotal, 6) : 0,
+      currentPoolShare: currentTotal > 0 ? round(currentAmount / currentTotal, 6) : 0,
+    };
+  }).sort((a, b) => Math.abs(b.amountChange) - Math.abs(a.amountChange));
+
+  return { previousRunId, previousTotal, currentTotal, totalChange: currentTotal - previousTotal, recipients };
+}
+
+async function diffAgainstRun(current: RecipientAmounts[], previousRun: DaoBonusRun | null | undefined): Promise<BonusRunDiff> {
+  const previous = previousRun ? await storage.getDaoBonusRunRecipients(previousRun.id) : [];
+  return diffBonusRecipients(current, previous, previousRun?.id ?? null);
+}
+
+export async function previewBonusDistribution(options: BonusScoringOptions = {}): Promise<BonusDistributionPlan & { diff: BonusRunDiff }> {
+  const plan = await planBonusDistribution(options);
+  return { ...plan, diff: await diffAgainstRun(plan.recipients, plan.previousRun) };
+}
+
+// ==================== Proposals and council approval ====================
+
+export interface BonusRunTally {
+  approvals: number;
+  rejections: number;
+  required: number;
+  councilSize: number;
+  remaining: number; // Approvals still needed
+}
+
+export interface BonusRunDetail {
+  run: DaoBonusRun;
+  recipients: DaoBonusRunRecipient[];
+  approvals: DaoBonusRunApproval[];
+  tally: BonusRunTally;
+  diff: BonusRunDiff;
+}
+
+function tallyVotes(run: DaoBonusRun, approvals: DaoBonusRunApproval[]): BonusRunTally {
+  const approved = approvals.filter(a => a.decision === "approve").length;
+  const rejected = approvals.filter(a => a.decision === "reject").length;
+  const required = run.requiredApprovals ?? 0;
+  return {
+    approvals: approved,
+    rejections: rejected,
+    required,
+    councilSize: run.councilSize ?? 0,
+    remaining: Math.max(required - approved, 0),
+  };
+}
+
+export async function getBonusRunDetail(id: number): Promise<BonusRunDetail | undefined> {
+  const run = await storage.getDaoBonusRun(id);
+  if (!run) return undefined;
+  const [recipients, approvals] = await Promise.all([
+    storage.getDaoBonusRunRecipients(id),
+    storage.getDaoBonusRunApprovals(id),
+  ]);
+  // Runs from before proposals don't record their predecessor
+  const previousRun = run.previousRunId
+    ? await storage.getDaoBonusRun(run.previousRunId)
+    : await storage.getLatestExecutedDaoBonusRun(run.id);
+  return { run, recipients, approvals, tally: tallyVotes(run, approvals), diff: await diffAgainstRun(recipients, previousRun) };
+}
+
+async function requireCouncilMembership(userId: string, action: string): Promise<BonusRunResult<DaoMembership>> {
+  const membership = await storage.getDaoMembershipByUserId(userId);
+  if (!membership?.isCouncil) return fail("forbidden", `Only council members can ${action}`);
+  return { ok: true, value: membership };
+}
+
+export interface BonusProposalInput extends BonusScoringOptions {
+  notes?: string | null;
+}
+
+export async function proposeBonusRun(userId: string, input: BonusProposalInput): Promise<BonusRunResult<BonusRunDetail>> {
+  const council = await requireCouncilMembership(userId, "propose bonus distributions");
+  if (!council.ok) return council;
+
+  const open = await storage.getOpenDaoBonusRuns();
+  if (open.length > 0) {
+    return fail("conflict", `Bonus run #${open[0].id} is already ${open[0].status}; execute or cancel it first`);
+  }
+
+  const plan = await planBonusDistribution(input);
+  if (!plan.eligible) return fail("conflict", plan.reason ?? "Bonus distribution is not eligible");
+
+  const treasury = await storage.getDaoTreasury();
+  const councilSize = (await storage.getCouncilMembers()).length;
+  const requiredApprovals = Math.max(1, Math.min(treasury?.bonusApprovalQuorum ?? DEFAULT_APPROVAL_QUORUM, councilSize));
+
+  const run = await storage.createDaoBonusRun({
+    status: "proposed",
+    scoringModel: plan.scoringModel,
+    scoringWeights: plan.weights,
+    previousRunId: plan.previousRun?.id ?? null,
+    periodStart: plan.periodStart,
+    periodEnd: plan.periodEnd,
+    treasuryBalanceBefore: plan.treasuryBalance,
+    totalDistributed: plan.totalToDistribute,
+    treasuryBalanceAfter: plan.treasuryBalance - plan.totalToDistribute,
+    recipientCount: plan.recipients.length,
+    requiredApprovals,
+    councilSize,
+    triggeredBy: userId,
+    notes: input.notes ?? null,
+  });
+
+  // Two proposals made at the same moment both pass the open check; the earlier one wins
+  const stillOpen = await storage.getOpenDaoBonusRuns();
+  if (stillOpen.length > 0 && stillOpen[0].id !== run.id) {
+    await storage.transitionDaoBonusRun(run.id, ["proposed"], {
+      status: "cancelled",
+      closedAt: new Date(),
+      closedReason: `Superseded by bonus run #${stillOpen[0].id}`,
+    });
+    return fail("conflict", `Bonus run #${stillOpen[0].id} was proposed at the same time`);
+  }
+
+  await storage.createDaoBonusRunRecipients(plan.recipients.map(r => ({ ...r, bonusRunId: run.id })));
+  console.log(`[Bonus] Run #${run.id} proposed by ${userId}: ${formatUsd(run.totalDistributed)} to ${run.recipientCount} members, needs ${requiredApprovals} of ${councilSize} council approvals`);
+
+  return voteOnBonusRun(run.id, userId, "approve", "Proposer");
+}
+
+export async function voteOnBonusRun(
+  id: number,
+  userId: string,
+  decision: DaoBonusRunVoteDecision,
+  comment?: string | null,
+): Promise<BonusRunResult<BonusRunDetail>> {
+  const council = await requireCouncilMembership(userId, "vote on bonus distributions");
+  if (!council.ok) return council;
+  const run = await storage.getDaoBonusRun(id);
+  if (!run) return fail("not_found", "Bonus run not found");
+  if (run.status !== "proposed") return fail("conflict", `Bonus run is ${run.status}; votes are closed`);
+
+  const vote = await storage.createDaoBonusRunApproval({
+    bonusRunId: id,
+    membershipId: council.value.id,
+    userId,
+    decision,
+    comment: comment ?? null,
+  });
+  if (!vote) return fail("conflict", "You have already voted on this bonus run");
+
+  const tally = tallyVotes(run, await storage.getDaoBonusRunApprovals(id));
+  if (tally.approvals >= tally.required) {
+    const approved = await storage.transitionDaoBonusRun(id, ["proposed"], { status: "approved" });
+    if (approved) console.log(`[Bonus] Run #${id} reached ${tally.approvals} of ${tally.required} council approvals`);
+  } else if (tally.rejections > tally.councilSize - tally.required) {
+    const rejected = await storage.transitionDaoBonusRun(id, ["proposed"], {
+      status: "rejected",
+      closedAt: new Date(),
+      closedReason: `${tally.rejections} of ${tally.councilSize} council members rejected it; ${tally.required} approvals can no longer be reached`,
+    });
+    if (rejected) console.log(`[Bonus] Run #${id} rejected by the council`);
+  }
+
+  const detail = await getBonusRunDetail(id);
+  return detail ? { ok: true, value: detail } : fail("not_found", "Bonus run not found");
+}
+
+export async function executeBonusRun(id: number, userId: string): Promise<BonusRunResult<BonusRunDetail>> {
+  const council = await requireCouncilMembership(userId, "execute bonus distributions");
+  if (!council.ok) return council;
+  const run = await storage.getDaoBonusRun(id);
+  if (!run) return fail("not_found", "Bonus run not found");
+  if (run.status === "proposed") {
+    const tally = tallyVotes(run, await storage.getDaoBonusRunApprovals(id));
+    return fail("conflict", `Bonus run needs ${tally.remaining} more council approval(s) before it can execute`);
+  }
+  if (run.status !== "approved") return fail("conflict", `Bonus run is ${run.status}`);
+
+  const treasury = await storage.getDaoTreasury();
+  const available = (treasury?.balance ?? 0) - (treasury?.lastBonusTriggerBalance ?? 0);
+  if (available < run.totalDistributed) {
+    return fail("conflict", `Treasury has ${formatUsd(available)} above its reserve but the run distributes ${formatUsd(run.totalDistributed)}; cancel it and propose again`);
+  }
+
+  const balance = treasury?.balance ?? 0;
+  const claimed = await storage.transitionDaoBonusRun(id, ["approved"], {
+    status: "executed",
+    executedBy: userId,
+    executedAt: new Date(),
+    treasuryBalanceBefore: balance,
+    treasuryBalanceAfter: balance - run.totalDistributed,
+  });
+  if (!claimed) return fail("conflict", "Bonus run was executed or cancelled by someone else");
+
+  await storage.createDaoTreasuryTransaction({
+    txnType: "bonus_outflow",
+    amount: -run.totalDistributed,
+    bonusRunId: id,
+    memo: `Bonus distribution to ${run.recipientCount} members`,
+    createdBy: userId,
+  });
+  console.log(`[Bonus] Run #${id} executed by ${userId}`);
+
+  const detail = await getBonusRunDetail(id);
+  return detail ? { ok: true, value: detail } : fail("not_found", "Bonus run not found");
+}
+
+export async function cancelBonusRun(id: number, userId: string, reason: string): Promise<BonusRunResult<BonusRunDetail>> {
+  const council = await requireCouncilMembership(userId, "cancel bonus distributions");
+  if (!council.ok) return council;
+  const cancelled = await storage.transitionDaoBonusRun(id, ["proposed", "approved"], {
+    status: "cancelled",
+    closedAt: new Date(),
+    closedReason: reason,
+  });
+  if (!cancelled) {
+    const run = await storage.getDaoBonusRun(id);
+    return run ? fail("conflict", `Bonus run is ${run.status}`) : fail("not_found", "Bonus run not found");
+  }
+  const detail = await getBonusRunDetail(id);
+  return detail ? { ok: true, value: detail } : fail("not_found", "Bonus run not found");
+}
@@ -0,0 +1,299 @@
+import fs from "fs";
+import type { WalletScreenerProvider } from "@shared/schema";
+
+/**
+ * Chain data providers for the wallet screener
+ *
+ * A provider returns one address's transaction history on one chain, whether the address
+ * has contract code, and (where it can tell) how many NFT collections it holds:
+ *
+ * - etherscan: an Etherscan-compatible API (ETHERSCAN_API_KEY, optionally ETHERSCAN_API_URL
+ *   for a Blockscout or self-hosted instance). Calls are spaced out and retried on rate limits.
+ * - json_rpc: your own node, configured per chain in WALLET_SCREENER_RPC_URLS
+ *   ("1=http://localhost:8545,8453=http://..."). History needs the Otterscan ots_ API
+ *   (Erigon, Reth and Anvil provide it); NFT holdings aren't indexed by nodes.
+ * - fixture: a JSON file (WALLET_SCREENER_FIXTURE) keyed by chain ID and lowercase address,
+ *   for offline use and demos. Addresses missing from the file have no history.
+ *
+ * WALLET_SCREENER_PROVIDER picks one explicitly; otherwise the first configured of fixture,
+ * etherscan, json_rpc is used. Adding a provider means implementing ChainDataProvider.
+ */
+
+export const MAX_HISTORY = 10000;
+
+export const SCREENER_CHAINS: Record<number, string> = {
+  1: "Ethereum",
+  10: "Optimism",
+  56: "BSC",
+  137: "Polygon",
+  8453: "Base",
+  42161: "Arbitrum",
+};
+
+export interface ChainTransaction {
+  hash: string;
+  blockNumber: number;
+  timestamp: number; // Unix seconds
+  from: string; // Lowercase
+  to: string | null; // Lowercase; null for contract creation
+  value: string; // Wei, decimal string
+  gasUsed: string | null;
+  gasPrice: string | null;
+  isContractCall: boolean; // Carried calldata
+  failed: boolean;
+}
+
+export interface WalletActivity {
+  isContract: boolean;
+  transactions: ChainTransaction[]; // Oldest first
+  nftCollectionsHeld: number | null; // null when the provider can't tell
+  truncated: boolean; // More than MAX_HISTORY transactions; only the first ones were read
+}
+
+export interface ChainDataProvider {
+  name: WalletScreenerProvider;
+  supportedChains(): number[];
+  getActivity(chainId: number, address: string): Promise<WalletActivity>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return value.startsWith("0x") ? parseInt(value, 16) : parseInt(value, 10);
+  return NaN;
+}
+
+function toDecimalString(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  try {
+    return BigInt(value as string | number).toString();
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Etherscan-compatible API ====================
+
+const ETHERSCAN_MIN_INTERVAL_MS = 250;
+let lastEtherscanCall = 0;
+
+async function etherscanRequest(chainId: number, params: Record<string, string>): Promise<any> {
+  const url = new URL(process.env.ETHERSCAN_API_URL || "https://api.etherscan.io/v2/api");
+  url.searchParams.set("chainid", String(chainId));
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  url.searchParams.set("apikey", process.env.ETHERSCAN_API_KEY || "");
+
+  for (let attempt = 1; ; attempt++) {
+    const wait = lastEtherscanCall + ETHERSCAN_MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastEtherscanCall = Date.now();
+
+    const response = await fetch(url.toString());
+    if (!response.ok) throw new Error(`Etherscan returned HTTP ${response.status}`);
+    const body = await response.json();
+    const message = typeof body.result === "string" ? body.result : body.message;
+    if (body.status === "0" && /rate limit/i.test(String(message)) && attempt < 4) {
+      await sleep(1000 * attempt);
+      continue;
+    }
+    return body;
+  }
+}
+
+// List endpoints answer status "0" with an empty result when there's nothing to list
+async function etherscanList(chainId: number, params: Record<string, string>): Promise<any[]> {
+  const body = await etherscanRequest(chainId, { ...params, page: "1", offset: String(MAX_HISTORY), sort: "asc" });
+  if (Array.isArray(body.result)) return body.result;
+  throw new Error(`Etherscan ${params.action}: ${typeof body.result === "string" ? body.result : body.message}`);
+}
+
+const etherscanProvider: ChainDataProvider = {
+  name: "etherscan",
+  supportedChains: () => Object.keys(SCREENER_CHAINS).map(Number),
+  async getActivity(chainId, address) {
+    const txs = await etherscanList(chainId, { module: "account", action: "txlist", address, startblock: "0", endblock: "latest" });
+    const code = await etherscanRequest(chainId, { module: "proxy", action: "eth_getCode", address, tag: "latest" });
+    const nftTransfers = await etherscanList(chainId, { module: "account", action: "tokennfttx", address, startblock: "0", endblock: "latest" });
+
+    // Replay transfers in order; a token is held if its last transfer was to the address
+    const holdings = new Map<string, boolean>();
+    for (const transfer of nftTransfers) {
+      holdings.set(`${transfer.contractAddress.toLowerCase()}:${transfer.tokenID}`, transfer.to.toLowerCase() === address);
+    }
+    const heldCollections = new Set(
+      Array.from(holdings.entries()).filter(([, held]) => held).map(([key]) => key.split(":")[0]),
+    );
+
+    return {
+      isContract: typeof code.result === "string" && code.result.length > 2,
+      transactions: txs.map((tx: any): ChainTransaction => ({
+        hash: tx.hash,
+        blockNumber: toNumber(tx.blockNumber),
+        timestamp: toNumber(tx.timeStamp),
+        from: String(tx.from).toLowerCase(),
+        to: tx.to ? String(tx.to).toLowerCase() : null,
+        value: toDecimalString(tx.value) ?? "0",
+        gasUsed: toDecimalString(tx.gasUsed),
+        gasPrice: toDecimalString(tx.gasPrice),
+        isContractCall: !!tx.input && tx.input !== "0x",
+        failed: tx.isError === "1",
+      })),
+      nftCollectionsHeld: heldCollections.size,
+      truncated: txs.length >= MAX_HISTORY,
+    };
+  },
+};
+
+// ==================== JSON-RPC node ====================
+
+function rpcUrls(): Map<number, string> {
+  const urls = new Map<number, string>();
+  for (const entry of (process.env.WALLET_SCREENER_RPC_URLS || "").split(",")) {
+    const [chainId, ...url] = entry.trim().split("=");
+    if (chainId && url.length > 0) urls.set(parseInt(chainId, 10), url.join("="));
+  }
+  return urls;
+}
+
+async function rpcCall(url: string, method: string, params: unknown[]): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  if (!response.ok) throw new Error(`RPC node returned HTTP ${response.status}`);
+  const body = await response.json();
+  if (body.error) {
+    if (body.error.code === -32601) throw new Error(`The node doesn't support ${method}; enable the ots namespace to screen with JSON-RPC`);
+    throw new Error(`${method}: ${body.error.message}`);
+  }
+  return body.result;
+}
+
+const OTS_PAGE_SIZE = 100;
+
+const jsonRpcProvider: ChainDataProvider = {
+  name: "json_rpc",
+  supportedChains: () => Array.from(rpcUrls().keys()),
+  async getActivity(chainId, address) {
+    const url = rpcUrls().get(chainId);
+    if (!url) throw new Error(`No RPC URL configured for chain ${chainId}`);
+
+    const code = await rpcCall(url, "eth_getCode", [address, "latest"]);
+
+    // Page forward from genesis; a page never splits a block, so the next page starts after its newest block
+    const byHash = new Map<string, ChainTransaction>();
+    let fromBlock = 0;
+    let truncated = false;
+    for (;;) {
+      const page = await rpcCall(url, "ots_searchTransactionsAfter", [address, fromBlock, OTS_PAGE_SIZE]);
+      const txs: any[] = page?.txs ?? [];
+      const receipts = new Map<string, any>((page?.receipts ?? []).map((r: any) => [r.transactionHash, r]));
+      for (const tx of txs) {
+        const receipt = receipts.get(tx.hash);
+        byHash.set(tx.hash, {
+          hash: tx.hash,
+          blockNumber: toNumber(tx.blockNumber),
+          timestamp: toNumber(receipt?.timestamp),
+          from: String(tx.from).toLowerCase(),
+          to: tx.to ? String(tx.to).toLowerCase() : null,
+          value: toDecimalString(tx.value) ?? "0",
+          gasUsed: toDecimalString(receipt?.gasUsed),
+          gasPrice: toDecimalString(receipt?.effectiveGasPrice ?? tx.gasPrice),
+          isContractCall: !!tx.input && tx.input !== "0x",
+          failed: receipt ? toNumber(receipt.status) === 0 : false,
+        });
+      }
+      if (byHash.size >= MAX_HISTORY) {
+        truncated = true;
+        break;
+      }
+      const newestBlock = Math.max(...txs.map(tx => toNumber(tx.blockNumber)));
+      // firstPage marks the most recent page
+      if (txs.length === 0 || page.firstPage || !(newestBlock > fromBlock)) break;
+      fromBlock = newestBlock;
+    }
+
+    const transactions = Array.from(byHash.values())
+      .sort((a, b) => a.blockNumber - b.blockNumber)
+      .slice(0, MAX_HISTORY);
+    return {
+      isContract: typeof code === "string" && code.length > 2,
+      transactions,
+      nftCollectionsHeld: null,
+      truncated,
+    };
+  },
+};
+
+// ==================== Fixture file ====================
+
+interface FixtureWallet {
+  isContract?: boolean;
+  nftCollectionsHeld?: number;
+  transactions?: Array<Partial<ChainTransaction> & { timestamp: number | string; input?: string }>;
+}
+
+let fixtureCache: { path: string; mtimeMs: number; chains: Record<string, Record<string, FixtureWallet>> } | null = null;
+
+function loadFixture(): Record<string, Record<string, FixtureWallet>> {
+  const path = process.env.WALLET_SCREENER_FIXTURE;
+  if (!path) throw new Error("WALLET_SCREENER_FIXTURE is not set");
+  const { mtimeMs } = fs.statSync(path);
+  if (!fixtureCache || fixtureCache.path !== path || fixtureCache.mtimeMs !== mtimeMs) {
+    const raw = JSON.parse(fs.readFileSync(path, "utf-8"));
+    const chains: Record<string, Record<string, FixtureWallet>> = {};
+    for (const [chainId, wallets] of Object.entries<Record<string, FixtureWallet>>(raw)) {
+      chains[chainId] = {};
+      for (const [walletAddress, wallet] of Object.entries(wallets)) chains[chainId][walletAddress.toLowerCase()] = wallet;
+    }
+    fixtureCache = { path, mtimeMs, chains };
+  }
+  return fixtureCache.chains;
+}
+
+const fixtureProvider: ChainDataProvider = {
+  name: "fixture",
+  supportedChains: () => Object.keys(loadFixture()).map(Number).filter(id => !isNaN(id)),
+  async getActivity(chainId, address) {
+    const wallet = loadFixture()[String(chainId)]?.[address];
+    const transactions = (wallet?.transactions ?? []).map((tx, index): ChainTransaction => ({
+      hash: tx.hash ?? `${address}-${index}`,
+      blockNumber: tx.blockNumber ?? index,
+      timestamp: typeof tx.timestamp === "string" ? Math.floor(new Date(tx.timestamp).getTime() / 1000) : tx.timestamp,
+      from: (tx.from ?? address).toLowerCase(),
+      to: tx.to ? tx.to.toLowerCase() : null,
+      value: toDecimalString(tx.value) ?? "0",
+      gasUsed: toDecimalString(tx.gasUsed),
+      gasPrice: toDecimalString(tx.gasPrice),
+      isContractCall: tx.isContractCall ?? (!!tx.input && tx.input !== "0x"),
+      failed: tx.failed ?? false,
+    }));
+    return {
+      isContract: wallet?.isContract ?? false,
+      transactions: transactions.sort((a, b) => a.timestamp - b.timestamp).slice(0, MAX_HISTORY),
+      nftCollectionsHeld: wallet?.nftCollectionsHeld ?? null,
+      truncated: transactions.length > MAX_HISTORY,
+    };
+  },
+};
+
+// ==================== Selection ====================
+
+const PROVIDERS: Record<WalletScreenerProvider, { provider: ChainDataProvider; configured: () => boolean }> = {
+  fixture: { provider: fixtureProvider, configured: () => !!process.env.WALLET_SCREENER_FIXTURE },
+  etherscan: { provider: etherscanProvider, configured: () => !!process.env.ETHERSCAN_API_KEY },
+  json_rpc: { provider: jsonRpcProvider, configured: () => rpcUrls().size > 0 },
+};
+
+/** The configured provider, or null when none is set up */
+export function getChainDataProvider(): ChainDataProvider | null {
+  const explicit = process.env.WALLET_SCREENER_PROVIDER as WalletScreenerProvider | undefined;
+  if (explicit) {
+    const entry = PROVIDERS[explicit];
+    return entry?.configured() ? entry.provider : null;
+  }
+  const match = (Object.keys(PROVIDERS) as WalletScreenerProvider[]).find(name => PROVIDERS[name].configured());
+  return match ? PROVIDERS[match].provider : null;
+}
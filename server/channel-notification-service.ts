@@ -303,24 +303,37 @@ export class ChannelNotificationService {
 
   // Payment Request Notifications
   async sendPaymentRequestNotification(
-    eventType: "created" | "approved" | "rejected" | "cancelled",
+    eventType: "created" | "approval_recorded" | "approved" | "rejected" | "cancelled",
     request: PaymentRequest,
     requesterName: string,
-    reviewerName?: string
+    reviewerName?: string,
+    categoryName?: string
   ): Promise<void> {
     let title = "";
     let message = "";
     let color = 0x64748B;
+    const amount = `${request.currency} ${request.amount}`;
 
     switch (eventType) {
       case "created":
         title = "💰 New Payment Request";
-        message = `${requesterName} submitted a payment request for ${request.currency} ${request.amount}`;
+        message = `${requesterName} submitted a payment request for ${amount}`;
+        if (request.requiredApprovals > 1) {
+          message += ` (needs ${request.requiredApprovals} approvals)`;
+        }
         color = 0xF59E0B; // Amber
         break;
+      case "approval_recorded":
+        title = `☑️ Payment Request Approval ${request.approvalCount} of ${request.requiredApprovals}`;
+        message = `${reviewerName || 'An admin'} approved ${requesterName}'s payment request for ${amount}; waiting for ${request.requiredApprovals - request.approvalCount} more`;
+        color = 0x3B82F6; // Blue
+        break;
       case "approved":
         title = "✅ Payment Request Approved";
-        message = `${reviewerName || 'An admin'} approved ${requesterName}'s payment request for ${request.currency} ${request.amount}`;
+        message = `${reviewerName || 'An admin'} approved ${requesterName}'s payment request for ${amount}`;
+        if (request.requiredApprovals > 1) {
+          message += ` (${request.approvalCount} of ${request.requiredApprovals} approvals)`;
+        }
         if (request.adminNote) {
           message += `\nNote: ${request.adminNote}`;
         }
@@ -328,7 +341,7 @@ export class ChannelNotificationService {
         break;
       case "rejected":
         title = "❌ Payment Request Rejected";
-        message = `${reviewerName || 'An admin'} rejected ${requesterName}'s payment request for ${request.currency} ${request.amount}`;
+        message = `${reviewerName || 'An admin'} rejected ${requesterName}'s payment request for ${amount}`;
         if (request.adminNote) {
           message += `\nReason: ${request.adminNote}`;
         }
@@ -336,10 +349,13 @@ export class ChannelNotificationService {
         break;
       case "cancelled":
         title = "🚫 Payment Request Cancelled";
-        message = `${requesterName} cancelled their payment request for ${request.currency} ${request.amount}`;
+        message = `${requesterName} cancelled their payment request for ${amount}`;
         color = 0x64748B; // Slate
         break;
     }
+    if (categoryName) {
+      message += `\nCategory: ${categoryName}`;
+    }
 
     // Send to Telegram
     await this.sendPaymentRequestToTelegram(title, message, request.reason);
@@ -396,6 +412,7 @@ export class ChannelNotificationService {
               { name: "Amount", value: `${request.currency} ${request.amount}`, inline: true },
               { name: "Reason", value: request.reason, inline: true },
               { name: "Status", value: request.status.toUpperCase(), inline: true },
+              { name: "Approvals", value: `${request.approvalCount}/${request.requiredApprovals}`, inline: true },
             ],
             timestamp: new Date().toISOString(),
             footer: { text: "ContentFlowStudio Payment Requests" }
@@ -0,0 +1,264 @@
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import type { ChatDigestPreferences, ChatPlatformType, DailyDigest, InsertDailyDigest } from "@shared/schema";
+
+const DEFAULT_PLATFORMS: ChatPlatformType[] = ["discord", "telegram", "farcaster"];
+const TOP_CONTACTS_LIMIT = 10;
+// Never summarize more than a week, even if a user hasn't had a digest in longer
+const MAX_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type DigestPlatformBreakdown = NonNullable<DailyDigest["platformBreakdown"]>;
+type DigestTopContacts = NonNullable<DailyDigest["topContacts"]>;
+
+interface DigestContactSummary {
+  contactId: number;
+  displayName: string;
+  platform: ChatPlatformType;
+  messageCount: number;
+  isPinned: boolean;
+  latestPreview: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatDigestDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// deliveryTime is "HH:mm" in server time (UTC)
+function getScheduledDeliveryAt(prefs: ChatDigestPreferences, now: Date): Date {
+  const [hours, minutes] = (prefs.deliveryTime || "08:00").split(":").map(v => parseInt(v, 10));
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hours || 0, minutes || 0));
+}
+
+function renderSummaryText(
+  digestDate: string,
+  totalMessages: number,
+  totalConversations: number,
+  platformBreakdown: DigestPlatformBreakdown,
+  contacts: DigestContactSummary[],
+): string {
+  const lines = [
+    `Chat digest for ${digestDate}`,
+    `${totalMessages} new message${totalMessages === 1 ? "" : "s"} across ${totalConversations} conversation${totalConversations === 1 ? "" : "s"}`,
+    "",
+    "By platform:",
+    ...platformBreakdown.map(p => `- ${p.platform}: ${p.messageCount} messages in ${p.conversationCount} conversations`),
+  ];
+
+  if (contacts.length > 0) {
+    lines.push("", "Top contacts:");
+    for (const contact of contacts) {
+      const pin = contact.isPinned ? "[pinned] " : "";
+      lines.push(`- ${pin}${contact.displayName} (${contact.platform}): ${contact.messageCount} - "${contact.latestPreview}"`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function renderSummaryHtml(
+  totalMessages: number,
+  totalConversations: number,
+  platformBreakdown: DigestPlatformBreakdown,
+  contacts: DigestContactSummary[],
+): string {
+  const platformRows = platformBreakdown.map(p => `
+    <tr>
+      <td style="padding: 4px 8px; text-transform: capitalize;">${escapeHtml(p.platform)}</td>
+      <td style="padding: 4px 8px; text-align: right;">${p.messageCount}</td>
+      <td style="padding: 4px 8px; text-align: right;">${p.conversationCount}</td>
+    </tr>`).join("");
+
+  const contactItems = contacts.map(c => `
+    <li style="margin: 6px 0;${c.isPinned ? " font-weight: bold;" : ""}">
+      ${c.isPinned ? "&#128204; " : ""}${escapeHtml(c.displayName)}
+      <span style="color: #6B7280;">(${escapeHtml(c.platform)}, ${c.messageCount})</span>
+      <div style="color: #4B5563; font-style: italic; font-weight: normal;">"${escapeHtml(c.latestPreview)}"</div>
+    </li>`).join("");
+
+  return `
+    <div style="background: #F3F4F6; border-radius: 8px; padding: 16px; margin: 16px 0;">
+      <p style="margin: 0 0 12px 0; color: #1F2937;">
+        <strong>${totalMessages}</strong> new messages across <strong>${totalConversations}</strong> conversations
+      </p>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+        <tr style="color: #6B7280;"><th style="text-align: left; padding: 4px 8px;">Platform</th><th style="text-align: right; padding: 4px 8px;">Messages</th><th style="text-align: right; padding: 4px 8px;">Conversations</th></tr>
+        ${platformRows}
+      </table>
+    </div>
+    ${contacts.length > 0 ? `<h3 style="color: #1F2937;">Top contacts</h3><ul style="padding-left: 16px;">${contactItems}</ul>` : ""}
+  `;
+}
+
+/**
+ * Aggregate inbound chat messages in a window into a digest record for one user.
+ * Returns null when onlyIfUnreadPinned is set and no pinned contact has unread messages.
+ */
+export async function buildDailyDigest(
+  userId: string,
+  prefs: Pick<ChatDigestPreferences, "includePlatforms" | "onlyIfUnreadPinned">,
+  windowStart: Date,
+  windowEnd: Date,
+): Promise<InsertDailyDigest | null> {
+  const includePlatforms = prefs.includePlatforms?.length ? prefs.includePlatforms : DEFAULT_PLATFORMS;
+  const pinned = await storage.getPinnedContacts(userId);
+  const pinnedContactIds = new Set(pinned.map(p => p.contactId));
+
+  if (prefs.onlyIfUnreadPinned) {
+    const conversations = await storage.getChatConversationsWithDetails(userId);
+    const hasUnreadPinned = conversations.some(c => c.isPinned && (c.unreadCount || 0) > 0);
+    if (!hasUnreadPinned) return null;
+  }
+
+  const rows = (await storage.getInboundChatMessagesBetween(windowStart, windowEnd))
+    .filter(row => includePlatforms.includes(row.platform.platform) && !row.conversation.isMuted && !row.conversation.isArchived);
+
+  const platformStats = new Map<ChatPlatformType, { messageCount: number; conversations: Set<number> }>();
+  const contactStats = new Map<number, DigestContactSummary>();
+  const conversationIds = new Set<number>();
+  let pinnedContactMessages = 0;
+
+  // Rows are newest first, so the first message seen per contact is its latest preview
+  for (const { message, conversation, contact, platform } of rows) {
+    conversationIds.add(conversation.id);
+
+    const stats = platformStats.get(platform.platform) || { messageCount: 0, conversations: new Set<number>() };
+    stats.messageCount++;
+    stats.conversations.add(conversation.id);
+    platformStats.set(platform.platform, stats);
+
+    const isPinned = pinnedContactIds.has(contact.id);
+    if (isPinned) pinnedContactMessages++;
+
+    const existing = contactStats.get(contact.id);
+    if (existing) {
+      existing.messageCount++;
+    } else {
+      contactStats.set(contact.id, {
+        contactId: contact.id,
+        displayName: contact.displayName || contact.username || contact.platformUserId,
+        platform: platform.platform,
+        messageCount: 1,
+        isPinned,
+        latestPreview: message.content.substring(0, 120),
+      });
+    }
+  }
+
+  const platformBreakdown: DigestPlatformBreakdown = Array.from(platformStats.entries())
+    .map(([platform, stats]) => ({
+      platform,
+      messageCount: stats.messageCount,
+      conversationCount: stats.conversations.size,
+    }))
+    .sort((a, b) => b.messageCount - a.messageCount);
+
+  // Pinned contacts are always highlighted first, then the busiest conversations
+  const contacts = Array.from(contactStats.values())
+    .sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || b.messageCount - a.messageCount)
+    .slice(0, TOP_CONTACTS_LIMIT);
+
+  const topContacts: DigestTopContacts = contacts.map(({ latestPreview: _, ...rest }) => rest);
+  const digestDate = formatDigestDate(windowEnd);
+
+  return {
+    userId,
+    digestDate,
+    totalNewMessages: rows.length,
+    totalConversations: conversationIds.size,
+    pinnedContactMessages,
+    platformBreakdown,
+    topContacts,
+    summaryHtml: renderSummaryHtml(rows.length, conversationIds.size, platformBreakdown, contacts),
+    summaryText: renderSummaryText(digestDate, rows.length, conversationIds.size, platformBreakdown, contacts),
+  };
+}
+
+/**
+ * Deliver a digest through email and/or in-app notification per the user's preferences
+ */
+export async function deliverDailyDigest(digest: DailyDigest, prefs: ChatDigestPreferences): Promise<DailyDigest> {
+  if (!digest.totalNewMessages) return digest;
+
+  let delivered = digest;
+
+  if (prefs.inAppEnabled !== false) {
+    await storage.createNotification({
+      userId: digest.userId,
+      type: "chat_digest",
+      title: `Chat digest: ${digest.totalNewMessages} new message${digest.totalNewMessages === 1 ? "" : "s"}`,
+      message: digest.pinnedContactMessages
+        ? `${digest.pinnedContactMessages} from pinned contacts across ${digest.totalConversations} conversations`
+        : `Across ${digest.totalConversations} conversations`,
+    });
+  }
+
+  if (prefs.emailEnabled !== false) {
+    const user = await storage.getUser(digest.userId);
+    if (user?.email) {
+      const sent = await emailService.sendChatDigestEmail(user, digest);
+      if (sent) {
+        delivered = (await storage.markDailyDigestEmailed(digest.id)) || delivered;
+      }
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * Generate today's digest for a user if it doesn't exist yet, then deliver it
+ */
+export async function generateDigestForUser(
+  userId: string,
+  prefs: ChatDigestPreferences,
+  now: Date = new Date(),
+): Promise<{ digest: DailyDigest | null; created: boolean }> {
+  const existing = await storage.getDailyDigestByDate(userId, formatDigestDate(now));
+  if (existing) return { digest: existing, created: false };
+
+  const [previous] = await storage.getDailyDigests(userId, 1);
+  const earliest = new Date(now.getTime() - MAX_WINDOW_MS);
+  const defaultStart = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const windowStart = previous?.createdAt && new Date(previous.createdAt) > earliest
+    ? new Date(previous.createdAt)
+    : defaultStart;
+
+  const built = await buildDailyDigest(userId, prefs, windowStart, now);
+  if (!built) return { digest: null, created: false };
+
+  const digest = await storage.createDailyDigest(built);
+  return { digest: await deliverDailyDigest(digest, prefs), created: true };
+}
+
+/**
+ * Generate and deliver digests for every user whose delivery time has passed today
+ */
+export async function processChatDigests(now: Date = new Date()): Promise<{ generated: number; skipped: number; errors: number }> {
+  const allPrefs = await storage.getEnabledChatDigestPreferences();
+  let generated = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const prefs of allPrefs) {
+    if (now < getScheduledDeliveryAt(prefs, now)) continue;
+
+    try {
+      const { created } = await generateDigestForUser(prefs.userId, prefs, now);
+      if (created) generated++;
+      else skipped++;
+    } catch (error) {
+      console.error(`[ChatDigest] Failed to generate digest for user ${prefs.userId}:`, error);
+      errors++;
+    }
+  }
+
+  return { generated, skipped, errors };
+}
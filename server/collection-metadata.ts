@@ -0,0 +1,280 @@
+import { storage } from "./storage";
+import { parseFile } from "./file-parser";
+import { parseChainAddress, addressKey } from "@shared/addresses";
+import type { UploadedAddressFile } from "./collection-sets";
+import type {
+  AddCollectionAddressesInput,
+  Address,
+  CollectionAddressEntry,
+  CollectionAddressFilter,
+  CollectionAddressInput,
+  CollectionImport,
+  UpdateCollectionLabelsInput,
+} from "@shared/schema";
+
+/**
+ * Collection address metadata
+ *
+ * Every address in a collection keeps the username, points and rank its source carried,
+ * free-form labels, and a link to the import that added it: a file upload, a tweet
+ * extraction, a manual add or a saved set operation. An address that's already in the
+ * collection is left alone by later imports, so it keeps its first source and metadata;
+ * labels are the only thing that changes afterwards, through the bulk label endpoint.
+ *
+ * Listing and export share one set of filters (label, source type, import, chain, a
+ * search over address and username, and a points range). Exports come as CSV, with labels
+ * joined by ";", or as JSON.
+ */
+
+export const collectionExportFormats = ["csv", "json"] as const;
+export type CollectionExportFormat = typeof collectionExportFormats[number];
+
+const MAX_LABELS_PER_ADDRESS = 20;
+
+export type CollectionMetadataResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): CollectionMetadataResult<T> {
+  return { ok: false, code, error };
+}
+
+export interface AddAddressesOutcome {
+  added: number;
+  skipped: number;
+  invalid: number;
+  totalInCollection: number;
+  invalidAddresses: { address: string; error: string }[];
+}
+
+export interface ImportFileOutcome {
+  filename: string;
+  found: number;
+  added: number;
+  skipped: number;
+  invalid: number;
+  totalInCollection: number;
+}
+
+// ==================== Labels ====================
+
+export function normalizeLabels(labels: string[]): string[] {
+  const result: string[] = [];
+  for (const label of labels) {
+    const trimmed = label.trim().slice(0, 50);
+    if (trimmed && !result.includes(trimmed)) result.push(trimmed);
+  }
+  return result.slice(0, MAX_LABELS_PER_ADDRESS);
+}
+
+/** Labels from a multipart field: repeated fields or one comma-separated string */
+export function parseLabelField(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return normalizeLabels(values.flatMap(v => String(v).split(",")));
+}
+
+// Spreadsheet cells and JSON fields can hold numbers as text
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// ==================== Adding addresses ====================
+
+/** Parsed file entries as collection rows, keeping the metadata the parser found */
+export function toAddressInputs(addresses: Address[], labels: string[] = []): CollectionAddressInput[] {
+  return addresses.map(a => {
+    const rank = toNumber(a.rank);
+    return {
+      address: a.address,
+      chain: a.chain,
+      username: a.username ? String(a.username) : undefined,
+      points: toNumber(a.points),
+      rank: rank !== undefined && Number.isInteger(rank) ? rank : undefined,
+      labels,
+    };
+  });
+}
+
+export async function addAddresses(
+  collectionId: number,
+  input: AddCollectionAddressesInput,
+  userId: string | null,
+): Promise<CollectionMetadataResult<AddAddressesOutcome>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const sharedLabels = input.labels ?? [];
+  const valid: CollectionAddressInput[] = [];
+  const invalidAddresses: { address: string; error: string }[] = [];
+  for (const item of input.addresses) {
+    const entry = typeof item === "string" ? { address: item } : item;
+    const trimmed = entry.address.trim();
+    if (!trimmed) continue;
+
+    const parsed = parseChainAddress(trimmed);
+    if (!parsed.ok) {
+      invalidAddresses.push({ address: trimmed, error: parsed.error });
+      continue;
+    }
+    valid.push({
+      ...entry,
+      address: parsed.address,
+      chain: parsed.chain,
+      labels: normalizeLabels([...(entry.labels ?? []), ...sharedLabels]),
+    });
+  }
+
+  const added = await storage.addMintedAddresses(collectionId, valid, {
+    sourceType: input.source?.type ?? "manual",
+    reference: input.source?.reference || null,
+    createdBy: userId,
+  });
+  return {
+    ok: true,
+    value: {
+      added,
+      skipped: valid.length - added,
+      invalid: invalidAddresses.length,
+      totalInCollection: await storage.getMintedAddressCount(collectionId),
+      invalidAddresses: invalidAddresses.slice(0, 10), // Return first 10 invalid
+    },
+  };
+}
+
+export async function importFile(
+  collectionId: number,
+  file: UploadedAddressFile,
+  labels: string[],
+  userId: string | null,
+): Promise<CollectionMetadataResult<ImportFileOutcome>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const parsed = parseFile(file.originalname, file.buffer);
+  const entries = toAddressInputs(parsed.addresses, labels);
+
+  const added = await storage.addMintedAddresses(collectionId, entries, {
+    sourceType: "upload",
+    reference: file.originalname,
+    createdBy: userId,
+  });
+  return {
+    ok: true,
+    value: {
+      filename: file.originalname,
+      found: parsed.addresses.length,
+      added,
+      skipped: entries.length - added,
+      invalid: parsed.invalidCount,
+      totalInCollection: await storage.getMintedAddressCount(collectionId),
+    },
+  };
+}
+
+// ==================== Listing and labels ====================
+
+export async function listAddresses(
+  collectionId: number,
+  filter: CollectionAddressFilter,
+  page: { limit?: number; offset?: number } = {},
+): Promise<CollectionMetadataResult<{ total: number; entries: CollectionAddressEntry[] }>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+  const limit = Math.min(Math.max(page.limit ?? 100, 1), 1000);
+  return { ok: true, value: await storage.getCollectionAddressEntries(collectionId, filter, limit, Math.max(page.offset ?? 0, 0)) };
+}
+
+export async function listImports(collectionId: number): Promise<CollectionMetadataResult<CollectionImport[]>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+  return { ok: true, value: await storage.getCollectionImports(collectionId) };
+}
+
+export async function updateLabels(
+  collectionId: number,
+  input: UpdateCollectionLabelsInput,
+): Promise<CollectionMetadataResult<{ updated: number; notFound: string[] }>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const rows = await storage.getMintedAddressLabels(collectionId);
+  const byKey = new Map(rows.map(row => [addressKey(row.address), row]));
+  const add = normalizeLabels(input.add ?? []);
+  const remove = new Set(normalizeLabels(input.remove ?? []));
+
+  // Rows ending up with the same labels are updated together
+  const groups = new Map<string, { labels: string[]; ids: number[] }>();
+  const notFound: string[] = [];
+  const handled = new Set<number>();
+  for (const address of input.addresses) {
+    const row = byKey.get(addressKey(address));
+    if (!row) {
+      notFound.push(address);
+      continue;
+    }
+    if (handled.has(row.id)) continue;
+    handled.add(row.id);
+
+    const labels = normalizeLabels([...row.labels.filter(label => !remove.has(label)), ...add]);
+    if (labels.join("\n") === row.labels.join("\n")) continue;
+    const groupKey = JSON.stringify(labels);
+    const group = groups.get(groupKey) ?? { labels, ids: [] };
+    group.ids.push(row.id);
+    groups.set(groupKey, group);
+  }
+
+  let updated = 0;
+  for (const group of Array.from(groups.values())) {
+    await storage.setMintedAddressLabels(group.ids, group.labels);
+    updated += group.ids.length;
+  }
+  return { ok: true, value: { updated, notFound } };
+}
+
+// ==================== Export ====================
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function collectionAddressesCsv(entries: CollectionAddressEntry[]): string {
+  const header = ["address", "chain", "username", "points", "rank", "labels", "source", "source_reference", "added_at"];
+  const rows = entries.map(entry => [
+    entry.address,
+    entry.chain,
+    entry.username,
+    entry.points,
+    entry.rank,
+    entry.labels.join(";"),
+    entry.source?.type,
+    entry.source?.reference,
+    entry.addedAt.toISOString(),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export async function exportCollection(
+  collectionId: number,
+  filter: CollectionAddressFilter,
+  format: CollectionExportFormat,
+): Promise<CollectionMetadataResult<{ filename: string; contentType: string; content: string }>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const { entries } = await storage.getCollectionAddressEntries(collectionId, filter);
+  const basename = `${collection.name}_minted_addresses`;
+  if (format === "json") {
+    return {
+      ok: true,
+      value: {
+        filename: `${basename}.json`,
+        contentType: "application/json",
+        content: JSON.stringify({ collection: { id: collection.id, name: collection.name }, filter, count: entries.length, addresses: entries }, null, 2),
+      },
+    };
+  }
+  return { ok: true, value: { filename: `${basename}.csv`, contentType: "text/csv", content: collectionAddressesCsv(entries) } };
+}
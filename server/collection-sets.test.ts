@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applySetOperation, buildSnapshot, diffAddressLists } from "./collection-sets";
+import type { Collection } from "@shared/schema";
+
+const ALICE = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const BOB = "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359";
+const CAROL = "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB";
+const SOL = "So11111111111111111111111111111111111111112";
+
+test("EVM addresses match case-insensitively and keep their first spelling", () => {
+  assert.deepEqual(applySetOperation("union", [[ALICE.toLowerCase(), BOB], [ALICE, CAROL]]), [ALICE, BOB, CAROL]);
+  assert.deepEqual(applySetOperation("intersection", [[ALICE.toLowerCase(), BOB], [ALICE, CAROL]]), [ALICE]);
+});
+
+test("difference removes every later operand from the first", () => {
+  assert.deepEqual(applySetOperation("difference", [[ALICE, BOB, CAROL], [BOB], [CAROL.toLowerCase()]]), [ALICE]);
+});
+
+test("symmetric difference keeps addresses in an odd number of operands", () => {
+  assert.deepEqual(applySetOperation("symmetric_difference", [[ALICE, BOB], [BOB, CAROL]]), [ALICE, CAROL]);
+  assert.deepEqual(applySetOperation("symmetric_difference", [[ALICE], [ALICE], [ALICE]]), [ALICE]);
+});
+
+test("Solana addresses are compared exactly", () => {
+  assert.deepEqual(applySetOperation("intersection", [[SOL], [SOL.toLowerCase()]]), []);
+});
+
+test("diffAddressLists reports added, removed and unchanged addresses", () => {
+  assert.deepEqual(diffAddressLists([ALICE, BOB], [BOB.toLowerCase(), CAROL]), { added: [CAROL], removed: [ALICE], unchangedCount: 1 });
+});
+
+test("snapshots are sorted by key and hashed on their contents", () => {
+  const collection = { id: 1, name: "Mint" } as Collection;
+  const first = buildSnapshot(collection, [CAROL, ALICE, ALICE.toLowerCase()], undefined, "user-1");
+  const second = buildSnapshot(collection, [ALICE, CAROL], "again", "user-1");
+  assert.deepEqual(first.addresses, [ALICE, CAROL]);
+  assert.equal(first.addressCount, 2);
+  assert.equal(first.contentHash, second.contentHash);
+  assert.notEqual(first.contentHash, buildSnapshot(collection, [ALICE], undefined, "user-1").contentHash);
+});
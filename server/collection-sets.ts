@@ -0,0 +1,333 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { parseFile } from "./file-parser";
+import { toAddressInputs } from "./collection-metadata";
+import { addressKey, canonicalAddress } from "@shared/addresses";
+import type {
+  AddressListDiff,
+  Collection,
+  CollectionAddressInput,
+  CollectionSetOperand,
+  CollectionSetOperandSummary,
+  CollectionSetOperation,
+  CollectionSetOperationInput,
+  CollectionSnapshot,
+  CollectionSnapshotSummary,
+  InsertCollectionSnapshot,
+  Comparison,
+  ComparisonResult,
+} from "@shared/schema";
+
+/**
+ * Collection set algebra, snapshots and diffs
+ *
+ * Set operations combine any mix of stored collections, snapshots and uploaded files:
+ * - union: every address in any operand.
+ * - intersection: addresses present in every operand.
+ * - difference: the first operand minus every address in the others.
+ * - symmetric_difference: addresses in an odd number of operands, which for two operands
+ *   is "in one but not both" and stays the same whichever order they're listed in.
+ *
+ * Addresses are matched by addressKey(), so EVM and bech32 addresses compare
+ * case-insensitively while Solana and legacy Bitcoin ones stay exact. Results keep the
+ * order, spelling and metadata (username, points, rank, labels) of each address's first
+ * appearance, so intersections and differences carry the first operand's. A named
+ * operation is saved as a new collection with its inputs recorded in derivedFrom;
+ * otherwise it's only a preview. Snapshots hold bare addresses, so they carry none.
+ *
+ * Snapshots copy a collection's addresses, sorted by key, with a hash of the contents.
+ * They never change, so diffs between two of them stay reproducible after the collection
+ * is edited or deleted. Comparison runs can be diffed the same way on their not-minted lists.
+ */
+
+export type CollectionSetResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): CollectionSetResult<T> {
+  return { ok: false, code, error };
+}
+
+export interface UploadedAddressFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface SetOperationOutcome {
+  operation: CollectionSetOperation;
+  operands: CollectionSetOperandSummary[];
+  resultCount: number;
+  addresses: string[];
+  // Present when the result was saved
+  collection?: Collection;
+}
+
+// ==================== Set algebra ====================
+
+// One operand's addresses by key, de-duplicated with the first spelling kept
+function keyed(addresses: string[]): Map<string, string> {
+  const byKey = new Map<string, string>();
+  for (const address of addresses) {
+    const key = addressKey(address);
+    if (key && !byKey.has(key)) byKey.set(key, canonicalAddress(address.trim()));
+  }
+  return byKey;
+}
+
+export function applySetOperation(operation: CollectionSetOperation, lists: string[][]): string[] {
+  const sets = lists.map(keyed);
+  if (sets.length === 0) return [];
+
+  if (operation === "intersection") {
+    const [first, ...rest] = sets;
+    return Array.from(first.entries())
+      .filter(([key]) => rest.every(set => set.has(key)))
+      .map(([, address]) => address);
+  }
+  if (operation === "difference") {
+    const [first, ...rest] = sets;
+    return Array.from(first.entries())
+      .filter(([key]) => !rest.some(set => set.has(key)))
+      .map(([, address]) => address);
+  }
+
+  // union and symmetric_difference both walk every operand in order
+  const firstSeen = new Map<string, string>();
+  const occurrences = new Map<string, number>();
+  for (const set of sets) {
+    for (const [key, address] of Array.from(set.entries())) {
+      if (!firstSeen.has(key)) firstSeen.set(key, address);
+      occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+    }
+  }
+  return Array.from(firstSeen.entries())
+    .filter(([key]) => operation === "union" || (occurrences.get(key) ?? 0) % 2 === 1)
+    .map(([, address]) => address);
+}
+
+/** Addresses in `after` but not `before` (added) and the other way round (removed) */
+export function diffAddressLists(before: string[], after: string[]): AddressListDiff {
+  const beforeSet = keyed(before);
+  const afterSet = keyed(after);
+  const added = Array.from(afterSet.entries()).filter(([key]) => !beforeSet.has(key)).map(([, address]) => address);
+  const removed = Array.from(beforeSet.entries()).filter(([key]) => !afterSet.has(key)).map(([, address]) => address);
+  return { added, removed, unchangedCount: afterSet.size - added.length };
+}
+
+// ==================== Set operations ====================
+
+function snapshotDisplayName(snapshot: Pick<CollectionSnapshot, "id" | "collectionName" | "label">): string {
+  return snapshot.label
+    ? `${snapshot.collectionName} (${snapshot.label})`
+    : `${snapshot.collectionName} snapshot #${snapshot.id}`;
+}
+
+interface LoadedOperand {
+  summary: CollectionSetOperandSummary;
+  addresses: string[];
+  entries: CollectionAddressInput[]; // The addresses with whatever metadata the operand has
+}
+
+async function loadOperand(
+  operand: CollectionSetOperand,
+  files: UploadedAddressFile[],
+): Promise<CollectionSetResult<LoadedOperand>> {
+  if (operand.type === "collection") {
+    const collection = await storage.getCollection(operand.id);
+    if (!collection) return fail("not_found", `Collection ${operand.id} not found`);
+    const entries: CollectionAddressInput[] = (await storage.getCollectionAddressEntries(collection.id, {})).entries.map(entry => ({
+      address: entry.address,
+      chain: entry.chain ?? undefined,
+      username: entry.username ?? undefined,
+      points: entry.points ?? undefined,
+      rank: entry.rank ?? undefined,
+      labels: entry.labels,
+    }));
+    const addresses = entries.map(entry => entry.address);
+    return { ok: true, value: { summary: { type: "collection", id: collection.id, name: collection.name, addressCount: addresses.length }, addresses, entries } };
+  }
+  if (operand.type === "snapshot") {
+    const snapshot = await storage.getCollectionSnapshot(operand.id);
+    if (!snapshot) return fail("not_found", `Snapshot ${operand.id} not found`);
+    return {
+      ok: true,
+      value: {
+        summary: { type: "snapshot", id: snapshot.id, name: snapshotDisplayName(snapshot), addressCount: snapshot.addressCount },
+        addresses: snapshot.addresses,
+        entries: snapshot.addresses.map(address => ({ address })),
+      },
+    };
+  }
+
+  const file = files[operand.index];
+  if (!file) return fail("invalid", `No uploaded file at position ${operand.index}`);
+  const parsed = parseFile(file.originalname, file.buffer);
+  const addresses = parsed.addresses.map(a => a.address);
+  return {
+    ok: true,
+    value: {
+      summary: { type: "file", name: file.originalname, addressCount: addresses.length, invalidCount: parsed.invalidCount },
+      addresses,
+      entries: toAddressInputs(parsed.addresses),
+    },
+  };
+}
+
+/** Multipart requests carry the operands as a JSON string field next to the uploaded files */
+export function normalizeSetOperationBody(body: any): unknown {
+  if (typeof body?.operands !== "string") return body;
+  let operands: unknown;
+  try {
+    operands = JSON.parse(body.operands);
+  } catch {
+    operands = undefined;
+  }
+  return { ...body, operands, name: body.name || undefined, description: body.description || undefined };
+}
+
+export async function runSetOperation(
+  input: CollectionSetOperationInput,
+  files: UploadedAddressFile[],
+  userId: string | null,
+): Promise<CollectionSetResult<SetOperationOutcome>> {
+  const loaded: LoadedOperand[] = [];
+  for (const operand of input.operands) {
+    const result = await loadOperand(operand, files);
+    if (!result.ok) return result;
+    loaded.push(result.value);
+  }
+
+  const addresses = applySetOperation(input.operation, loaded.map(l => l.addresses));
+  const outcome: SetOperationOutcome = {
+    operation: input.operation,
+    operands: loaded.map(l => l.summary),
+    resultCount: addresses.length,
+    addresses,
+  };
+  if (!input.name) return { ok: true, value: outcome };
+
+  let collection: Collection;
+  try {
+    collection = await storage.createCollection({
+      name: input.name,
+      description: input.description || null,
+      derivedFrom: { operation: input.operation, operands: outcome.operands, derivedAt: new Date().toISOString() },
+    });
+  } catch (error: any) {
+    if (error.code === "23505") return fail("conflict", "A collection with this name already exists");
+    throw error;
+  }
+
+  // Each address keeps the metadata of its first appearance, in operand order
+  const firstEntries = new Map<string, CollectionAddressInput>();
+  loaded.forEach(operand => operand.entries.forEach(entry => {
+    const key = addressKey(entry.address);
+    if (key && !firstEntries.has(key)) firstEntries.set(key, entry);
+  }));
+  const entries = addresses.map(address => ({ ...firstEntries.get(addressKey(address)), address }));
+
+  try {
+    await storage.addMintedAddresses(collection.id, entries, {
+      sourceType: "set_operation",
+      reference: `${input.operation} of ${outcome.operands.map(o => o.name).join(", ")}`,
+      createdBy: userId,
+    });
+  } catch (error) {
+    // Don't leave a half-filled collection behind under the requested name
+    await storage.deleteCollection(collection.id);
+    throw error;
+  }
+  console.log(`[CollectionSets] Saved ${input.operation} of ${loaded.length} operands as collection ${collection.id} (${addresses.length} addresses)`);
+  return { ok: true, value: { ...outcome, collection } };
+}
+
+// ==================== Snapshots ====================
+
+export function toSummary(snapshot: CollectionSnapshot): CollectionSnapshotSummary {
+  const { addresses, ...summary } = snapshot;
+  return summary;
+}
+
+/** The snapshot row for the given addresses of a collection, ready to insert */
+export function buildSnapshot(
+  collection: Collection,
+  addresses: string[],
+  label: string | undefined,
+  userId: string,
+): InsertCollectionSnapshot {
+  const entries = Array.from(keyed(addresses).entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const contentHash = crypto.createHash("sha256").update(entries.map(([key]) => key).join("\n")).digest("hex");
+
+  return {
+    collectionId: collection.id,
+    collectionName: collection.name,
+    label: label || null,
+    addresses: entries.map(([, address]) => address),
+    addressCount: entries.length,
+    contentHash,
+    createdBy: userId,
+  };
+}
+
+export async function createSnapshot(
+  collectionId: number,
+  label: string | undefined,
+  userId: string,
+): Promise<CollectionSetResult<CollectionSnapshotSummary>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const addresses = await storage.getMintedAddresses(collection.id);
+  const snapshot = await storage.createCollectionSnapshot(buildSnapshot(collection, addresses, label, userId));
+  return { ok: true, value: toSummary(snapshot) };
+}
+
+export async function getSnapshotsForCollection(collectionId: number): Promise<CollectionSetResult<CollectionSnapshotSummary[]>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+  return { ok: true, value: await storage.getCollectionSnapshots(collectionId) };
+}
+
+export async function getSnapshot(id: number): Promise<CollectionSetResult<CollectionSnapshot>> {
+  const snapshot = await storage.getCollectionSnapshot(id);
+  if (!snapshot) return fail("not_found", "Snapshot not found");
+  return { ok: true, value: snapshot };
+}
+
+// ==================== Diffs ====================
+
+export async function diffSnapshots(
+  fromId: number,
+  toId: number,
+): Promise<CollectionSetResult<AddressListDiff & { from: CollectionSnapshotSummary; to: CollectionSnapshotSummary }>> {
+  const [from, to] = await Promise.all([storage.getCollectionSnapshot(fromId), storage.getCollectionSnapshot(toId)]);
+  if (!from || !to) return fail("not_found", `Snapshot ${from ? toId : fromId} not found`);
+
+  // Matching hashes mean identical contents, so there's nothing to compare
+  const diff = from.contentHash === to.contentHash
+    ? { added: [], removed: [], unchangedCount: to.addressCount }
+    : diffAddressLists(from.addresses, to.addresses);
+  return { ok: true, value: { from: toSummary(from), to: toSummary(to), ...diff } };
+}
+
+type ComparisonSummary = Omit<Comparison, "results">;
+
+function notMintedAddresses(comparison: Comparison): string[] {
+  const results = comparison.results as ComparisonResult | null;
+  return (results?.notMinted ?? []).map(entry => entry.address);
+}
+
+/** Diff the not-minted lists of two comparison runs: added are newly outstanding, removed have minted or dropped out */
+export async function diffComparisons(
+  fromId: number,
+  toId: number,
+): Promise<CollectionSetResult<AddressListDiff & { from: ComparisonSummary; to: ComparisonSummary }>> {
+  const [from, to] = await Promise.all([storage.getComparison(fromId), storage.getComparison(toId)]);
+  if (!from || !to) return fail("not_found", `Comparison ${from ? toId : fromId} not found`);
+
+  const { results: fromResults, ...fromRun } = from;
+  const { results: toResults, ...toRun } = to;
+  const diff = diffAddressLists(notMintedAddresses(from), notMintedAddresses(to));
+  return { ok: true, value: { from: fromRun, to: toRun, ...diff } };
+}
@@ -0,0 +1,318 @@
+import { storage } from "./storage";
+import { customFieldOptionSchema, type CustomFieldOption, type TaskCustomField } from "@shared/schema";
+
+/**
+ * Custom field rules for content and team tasks.
+ *
+ * Values are stored as text. Each field type has one canonical encoding: numbers as
+ * plain decimals, checkboxes as "true"/"false", dates as ISO timestamps, dropdowns as
+ * the option id, and labels/people as a JSON array of option ids/user ids. Anything a
+ * client sends is validated and normalized to that encoding before it is saved, so
+ * filtering and sorting can decode values without guessing.
+ */
+
+export interface CustomFieldTaskContext {
+  taskType: "content" | "team";
+  boardId?: number | null;
+  campaignId?: number | null;
+  client?: string | null;
+}
+
+export interface CustomFieldError {
+  fieldId: number;
+  fieldName: string;
+  error: string;
+}
+
+export type CustomFieldValueResult =
+  | { ok: true; value: string | null }
+  | { ok: false; error: string };
+
+export type DecodedCustomFieldValue = string | number | boolean | string[] | null;
+
+const MAX_TEXT_LENGTH = 10000;
+const MAX_RATING = 5;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,24}$/;
+
+export function getFieldOptions(field: Pick<TaskCustomField, "options">): CustomFieldOption[] {
+  const parsed = customFieldOptionSchema.array().safeParse(field.options);
+  return parsed.success ? parsed.data : [];
+}
+
+// Dropdown and labels values may reference an option by id or by label
+function resolveOption(field: TaskCustomField, raw: string): CustomFieldOption | undefined {
+  const options = getFieldOptions(field);
+  const needle = raw.trim().toLowerCase();
+  return options.find(o => o.id === raw) || options.find(o => o.label.toLowerCase() === needle);
+}
+
+function isEmptyInput(raw: unknown): boolean {
+  return raw === null || raw === undefined || (typeof raw === "string" && raw.trim() === "") || (Array.isArray(raw) && raw.length === 0);
+}
+
+function toList(raw: unknown): unknown[] {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw === "string") {
+    const trimmed = raw.trim();
+    if (trimmed.startsWith("[")) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (Array.isArray(parsed)) return parsed;
+      } catch {
+        // Fall through to comma-separated
+      }
+    }
+    return trimmed.split(",").map(v => v.trim()).filter(Boolean);
+  }
+  return [raw];
+}
+
+function toNumber(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw === "string" && raw.trim() !== "") {
+    const value = Number(raw.trim());
+    return Number.isFinite(value) ? value : null;
+  }
+  return null;
+}
+
+/**
+ * Validate a value against its field's type and options, returning the stored encoding.
+ * Empty input clears the value (null); required-ness is checked separately.
+ */
+export async function validateCustomFieldValue(field: TaskCustomField, raw: unknown): Promise<CustomFieldValueResult> {
+  if (isEmptyInput(raw)) return { ok: true, value: null };
+
+  switch (field.fieldType) {
+    case "text": {
+      if (typeof raw !== "string") return { ok: false, error: "Must be text" };
+      if (raw.length > MAX_TEXT_LENGTH) return { ok: false, error: `Must be at most ${MAX_TEXT_LENGTH} characters` };
+      return { ok: true, value: raw };
+    }
+    case "number":
+    case "currency": {
+      const value = toNumber(raw);
+      if (value === null) return { ok: false, error: "Must be a number" };
+      return { ok: true, value: String(field.fieldType === "currency" ? Math.round(value * 100) / 100 : value) };
+    }
+    case "rating": {
+      const value = toNumber(raw);
+      if (value === null || !Number.isInteger(value) || value < 0 || value > MAX_RATING) {
+        return { ok: false, error: `Must be a whole number from 0 to ${MAX_RATING}` };
+      }
+      return { ok: true, value: String(value) };
+    }
+    case "checkbox": {
+      if (raw === true || raw === "true") return { ok: true, value: "true" };
+      if (raw === false || raw === "false") return { ok: true, value: "false" };
+      return { ok: false, error: "Must be true or false" };
+    }
+    case "date": {
+      if (typeof raw !== "string" && !(raw instanceof Date)) return { ok: false, error: "Must be a date" };
+      const date = new Date(raw);
+      if (isNaN(date.getTime())) return { ok: false, error: "Must be a valid date" };
+      return { ok: true, value: date.toISOString() };
+    }
+    case "url": {
+      if (typeof raw !== "string") return { ok: false, error: "Must be a URL" };
+      try {
+        const url = new URL(raw.trim());
+        if (url.protocol !== "http:" && url.protocol !== "https:") return { ok: false, error: "Must be an http or https URL" };
+        return { ok: true, value: url.toString() };
+      } catch {
+        return { ok: false, error: "Must be a valid URL" };
+      }
+    }
+    case "email": {
+      if (typeof raw !== "string" || !EMAIL_PATTERN.test(raw.trim())) return { ok: false, error: "Must be a valid email address" };
+      return { ok: true, value: raw.trim().toLowerCase() };
+    }
+    case "phone": {
+      if (typeof raw !== "string" || !PHONE_PATTERN.test(raw.trim()) || raw.replace(/\D/g, "").length < 6) {
+        return { ok: false, error: "Must be a valid phone number" };
+      }
+      return { ok: true, value: raw.trim() };
+    }
+    case "dropdown": {
+      if (typeof raw !== "string") return { ok: false, error: "Must be one of the field's options" };
+      const option = resolveOption(field, raw);
+      if (!option) return { ok: false, error: `"${raw}" is not an option for this field` };
+      return { ok: true, value: option.id };
+    }
+    case "labels": {
+      const ids: string[] = [];
+      for (const item of toList(raw)) {
+        const option = typeof item === "string" ? resolveOption(field, item) : undefined;
+        if (!option) return { ok: false, error: `"${String(item)}" is not an option for this field` };
+        if (!ids.includes(option.id)) ids.push(option.id);
+      }
+      return { ok: true, value: ids.length > 0 ? JSON.stringify(ids) : null };
+    }
+    case "people": {
+      const userIds = Array.from(new Set(toList(raw).map(String)));
+      const knownIds = new Set((await storage.getAllUsers()).map(u => u.id));
+      const unknown = userIds.find(id => !knownIds.has(id));
+      if (unknown) return { ok: false, error: `Unknown user "${unknown}"` };
+      return { ok: true, value: userIds.length > 0 ? JSON.stringify(userIds) : null };
+    }
+    default:
+      return { ok: false, error: `Unsupported field type "${field.fieldType}"` };
+  }
+}
+
+/**
+ * Decode a stored value for comparison. Values written before validation existed may
+ * not match the canonical encoding; those decode to null rather than throwing.
+ */
+export function decodeCustomFieldValue(field: TaskCustomField, stored: string | null): DecodedCustomFieldValue {
+  if (stored === null || stored === "") return null;
+  switch (field.fieldType) {
+    case "number":
+    case "currency":
+    case "rating":
+      return toNumber(stored);
+    case "checkbox":
+      return stored === "true";
+    case "date": {
+      const time = new Date(stored).getTime();
+      return isNaN(time) ? null : time;
+    }
+    case "labels":
+    case "people":
+      return toList(stored).map(String);
+    case "dropdown":
+      return resolveOption(field, stored)?.id ?? stored;
+    default:
+      return stored;
+  }
+}
+
+/**
+ * Whether a field applies to a task, from its scope plus any board, campaign or client
+ * restriction. Client-restricted fields match content tasks by client name.
+ */
+export function customFieldAppliesTo(field: TaskCustomField, task: CustomFieldTaskContext, clientNames: Map<number, string>): boolean {
+  const scope = field.scope || "all";
+  if (scope === "content" && task.taskType !== "content") return false;
+  if (scope === "team" && task.taskType !== "team") return false;
+  if (scope === "client" && (task.taskType !== "content" || !task.client)) return false;
+  if (field.boardId && (task.taskType !== "team" || task.boardId !== field.boardId)) return false;
+  if (field.campaignId && task.campaignId !== field.campaignId) return false;
+  if (field.clientProfileId) {
+    const clientName = clientNames.get(field.clientProfileId);
+    if (!clientName || !task.client || clientName.toLowerCase() !== task.client.trim().toLowerCase()) return false;
+  }
+  return true;
+}
+
+async function loadClientNames(fields: TaskCustomField[]): Promise<Map<number, string>> {
+  const ids = Array.from(new Set(fields.map(f => f.clientProfileId).filter((id): id is number => id !== null)));
+  const profiles = await Promise.all(ids.map(id => storage.getClientProfile(id)));
+  const names = new Map<number, string>();
+  profiles.forEach(profile => {
+    if (profile) names.set(profile.id, profile.name);
+  });
+  return names;
+}
+
+export async function getApplicableCustomFields(task: CustomFieldTaskContext): Promise<TaskCustomField[]> {
+  const fields = await storage.getTaskCustomFields();
+  const clientNames = await loadClientNames(fields);
+  return fields.filter(field => customFieldAppliesTo(field, task, clientNames));
+}
+
+/**
+ * Validate a batch of values keyed by field id for one task. Unknown fields, fields that
+ * don't apply to the task and invalid values are reported as errors, as is clearing a
+ * required field. For a new task (`isNew`), applicable fields that weren't sent get their
+ * default value and every required field must end up with a value; existing tasks are
+ * only held to that when they move (see getMissingRequiredFields).
+ */
+export async function validateCustomFieldInput(
+  task: CustomFieldTaskContext,
+  input: Record<string, unknown> | undefined,
+  options: { isNew?: boolean } = {},
+): Promise<{ values: Map<number, string | null>; errors: CustomFieldError[] }> {
+  const applicable = await getApplicableCustomFields(task);
+  const values = new Map<number, string | null>();
+  const errors: CustomFieldError[] = [];
+
+  for (const [key, raw] of Object.entries(input || {})) {
+    const fieldId = parseInt(key);
+    const field = applicable.find(f => f.id === fieldId);
+    if (!field) {
+      errors.push({ fieldId, fieldName: key, error: "Field does not exist or doesn't apply to this task" });
+      continue;
+    }
+    const result = await validateCustomFieldValue(field, raw);
+    if (result.ok) {
+      values.set(field.id, result.value);
+    } else {
+      errors.push({ fieldId: field.id, fieldName: field.name, error: result.error });
+    }
+  }
+
+  if (options.isNew) {
+    for (const field of applicable) {
+      if (values.has(field.id) || !field.defaultValue) continue;
+      const result = await validateCustomFieldValue(field, field.defaultValue);
+      if (result.ok && result.value !== null) values.set(field.id, result.value);
+    }
+  }
+
+  for (const field of applicable) {
+    if (!field.isRequired || errors.some(e => e.fieldId === field.id)) continue;
+    const cleared = values.has(field.id) && values.get(field.id) === null;
+    if (cleared || (options.isNew && !values.has(field.id))) {
+      errors.push({ fieldId: field.id, fieldName: field.name, error: "This field is required" });
+    }
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Required fields the task doesn't have a value for, e.g. before it moves to another
+ * status or board. `pending` holds values being saved in the same request.
+ */
+export async function getMissingRequiredFields(
+  task: CustomFieldTaskContext,
+  taskId: number,
+  pending?: Map<number, string | null>,
+): Promise<CustomFieldError[]> {
+  const required = (await getApplicableCustomFields(task)).filter(f => f.isRequired);
+  if (required.length === 0) return [];
+  const saved = await storage.getTaskCustomFieldValues(task.taskType, taskId);
+  return required
+    .filter(field => {
+      const value = pending?.has(field.id) ? pending.get(field.id) : saved.find(v => v.customFieldId === field.id)?.value;
+      return value === null || value === undefined || value === "";
+    })
+    .map(field => ({ fieldId: field.id, fieldName: field.name, error: "This field is required" }));
+}
+
+export async function saveCustomFieldValues(taskType: "content" | "team", taskId: number, values: Map<number, string | null>): Promise<void> {
+  for (const [customFieldId, value] of Array.from(values.entries())) {
+    await storage.upsertTaskCustomFieldValue({ customFieldId, taskType, taskId, value });
+  }
+}
+
+/**
+ * Check a field definition: dropdown and labels fields need options, and a default value
+ * must itself be valid for the field.
+ */
+export async function validateCustomFieldDefinition(field: TaskCustomField): Promise<string | null> {
+  if ((field.fieldType === "dropdown" || field.fieldType === "labels") && getFieldOptions(field).length === 0) {
+    return "Dropdown and labels fields need at least one option";
+  }
+  const optionIds = getFieldOptions(field).map(o => o.id);
+  if (new Set(optionIds).size !== optionIds.length) {
+    return "Option ids must be unique";
+  }
+  if (field.defaultValue) {
+    const result = await validateCustomFieldValue(field, field.defaultValue);
+    if (!result.ok) return `Invalid default value: ${result.error}`;
+  }
+  return null;
+}
@@ -0,0 +1,498 @@
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { getChainName } from "./safe-service";
+import { PdfWriter, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT } from "./pdf-writer";
+import { computeSettlementReversal, applySettlementReversal, type RevenueSplitResult } from "./revenue-split";
+import type { DaoInvoice, DaoInvoicePhase, DaoServiceCatalog, DaoProjectService } from "@shared/schema";
+
+/**
+ * DAO invoice documents
+ *
+ * Invoices are drafts until issued, which gives them the next number in the gap-free
+ * sequence for their type and year (INV-2026-0001, CN-2026-0001). Issued invoices are
+ * never deleted: an unpaid one is voided, a paid one is voided or credited with a credit
+ * note, and both reverse the treasury contribution and member revenue recorded when it was
+ * paid. Documents render to HTML and PDF from the project, its services and discount, and
+ * the client profile. Issuer details and payment instructions come from DAO_INVOICE_* env
+ * vars plus the active Safe wallets.
+ */
+
+const PHASE_LABELS: Record<DaoInvoicePhase, string> = {
+  deposit: "Deposit",
+  midpoint: "Midpoint payment",
+  completion: "Completion payment",
+  custom: "Payment",
+};
+
+export interface InvoiceLineItem {
+  description: string;
+  detail: string | null;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+}
+
+export interface InvoiceDocument {
+  invoice: DaoInvoice;
+  title: string;
+  number: string | null;
+  isDraft: boolean;
+  isVoid: boolean;
+  currency: string;
+  issuer: { name: string; lines: string[] };
+  billTo: { name: string; lines: string[]; email: string | null };
+  projectName: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  discount: { label: string; amount: number } | null;
+  projectTotal: number | null;
+  dueLabel: string;
+  amountDue: number; // Negative for credit notes
+  creditedInvoiceNumber: string | null;
+  paymentInstructions: string[];
+  notes: string | null;
+}
+
+function envLines(name: string): string[] {
+  return (process.env[name] || "").split(/\\n|\n|\|/).map(l => l.trim()).filter(Boolean);
+}
+
+function catalogPrice(service: DaoServiceCatalog, tier: number | null): number {
+  if (tier === 3) return service.pricingTier3Min ?? 0;
+  if (tier === 2) return service.pricingTier2Min ?? 0;
+  return service.pricingTier1Min ?? 0;
+}
+
+function catalogTierName(service: DaoServiceCatalog, tier: number | null): string | null {
+  if (tier === 3) return service.pricingTier3Name;
+  if (tier === 2) return service.pricingTier2Name;
+  return service.pricingTier1Name;
+}
+
+function lineItemFor(link: DaoProjectService, service: DaoServiceCatalog | undefined): InvoiceLineItem {
+  const quantity = link.quantity ?? 1;
+  const unitAmount = link.customPrice ?? (service ? catalogPrice(service, link.selectedTier) : 0);
+  return {
+    description: service?.serviceName ?? `Service #${link.serviceCatalogId}`,
+    detail: [service ? catalogTierName(service, link.selectedTier) : null, link.notes].filter(Boolean).join(" - ") || null,
+    quantity,
+    unitAmount,
+    amount: unitAmount * quantity,
+  };
+}
+
+export function formatInvoiceAmount(cents: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : "-";
+}
+
+export async function buildInvoiceDocument(invoiceId: number): Promise<InvoiceDocument | undefined> {
+  const invoice = await storage.getDaoInvoice(invoiceId);
+  if (!invoice) return undefined;
+  const project = await storage.getDaoProject(invoice.projectId);
+  if (!project) return undefined;
+
+  const client = project.clientProfileId ? await storage.getClientProfile(project.clientProfileId) : undefined;
+  const billingContact = client?.keyContacts?.find(c => c.email) ?? null;
+  const currency = project.currency || "USD";
+  const isCreditNote = invoice.invoiceType === "credit_note";
+
+  const wallets = (await storage.getDaoSafeWallets()).filter(w => w.isActive);
+  const paymentInstructions = [
+    ...envLines("DAO_INVOICE_PAYMENT_INSTRUCTIONS"),
+    ...wallets.map(w => `${w.label} (${getChainName(w.chainId)}): ${w.address}`),
+  ];
+
+  const base = {
+    invoice,
+    number: invoice.invoiceNumber,
+    isDraft: invoice.sequenceNumber === null,
+    isVoid: invoice.status === "void",
+    currency,
+    issuer: { name: process.env.DAO_INVOICE_ISSUER_NAME || "DAO", lines: envLines("DAO_INVOICE_ISSUER_ADDRESS") },
+    billTo: {
+      name: client?.name ?? project.name,
+      lines: [billingContact ? `Attn: ${billingContact.name}` : null, client?.website ?? null].filter((l): l is string => !!l),
+      email: billingContact?.email ?? null,
+    },
+    projectName: project.name,
+    notes: invoice.notes,
+    paymentInstructions,
+  };
+
+  if (isCreditNote) {
+    const credited = invoice.creditedInvoiceId ? await storage.getDaoInvoice(invoice.creditedInvoiceId) : undefined;
+    const creditedNumber = credited?.invoiceNumber ?? null;
+    return {
+      ...base,
+      title: "Credit Note",
+      lineItems: [{
+        description: `Credit against invoice ${creditedNumber ?? `#${invoice.creditedInvoiceId}`}`,
+        detail: invoice.notes,
+        quantity: 1,
+        unitAmount: -invoice.amount,
+        amount: -invoice.amount,
+      }],
+      subtotal: -invoice.amount,
+      discount: null,
+      projectTotal: null,
+      dueLabel: "Total credited",
+      amountDue: -invoice.amount,
+      creditedInvoiceNumber: creditedNumber,
+      paymentInstructions: [],
+    };
+  }
+
+  const links = await storage.getDaoProjectServices(project.id);
+  const catalog = new Map<number, DaoServiceCatalog>();
+  (await storage.getDaoServiceCatalog(false)).forEach(s => catalog.set(s.id, s));
+  const lineItems = links.map(link => lineItemFor(link, catalog.get(link.serviceCatalogId)));
+  const discount = project.discountAmount
+    ? {
+        label: (project.discountId ? (await storage.getDaoDiscount(project.discountId))?.name : null) ?? "Discount",
+        amount: project.discountAmount,
+      }
+    : null;
+
+  const projectTotal = project.finalAmount;
+  const phasePercent = projectTotal ? Math.round((invoice.amount / projectTotal) * 1000) / 10 : null;
+  return {
+    ...base,
+    title: "Invoice",
+    lineItems,
+    subtotal: project.totalQuotedAmount ?? lineItems.reduce((sum, item) => sum + item.amount, 0),
+    discount,
+    projectTotal,
+    dueLabel: `${PHASE_LABELS[invoice.phase]}${phasePercent !== null ? ` (${phasePercent}% of project total)` : ""}`,
+    amountDue: invoice.amount,
+    creditedInvoiceNumber: null,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function renderInvoiceHtml(doc: InvoiceDocument): string {
+  const money = (cents: number) => escapeHtml(formatInvoiceAmount(cents, doc.currency));
+  const heading = doc.number ? `${doc.title} ${doc.number}` : `${doc.title} (draft)`;
+  const banner = doc.isVoid
+    ? `<p style="color:#B91C1C;font-weight:bold;">VOID${doc.invoice.voidReason ? ` - ${escapeHtml(doc.invoice.voidReason)}` : ""}</p>`
+    : doc.isDraft ? `<p style="color:#B45309;font-weight:bold;">DRAFT - not yet issued</p>` : "";
+  const rows = doc.lineItems.map(item => `
+          <tr>
+            <td style="padding:6px 0;">${escapeHtml(item.description)}${item.detail ? `<br><span style="color:#6B7280;font-size:12px;">${escapeHtml(item.detail)}</span>` : ""}</td>
+            <td style="text-align:right;">${item.quantity}</td>
+            <td style="text-align:right;">${money(item.unitAmount)}</td>
+            <td style="text-align:right;">${money(item.amount)}</td>
+          </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(heading)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; max-width: 720px; margin: 0 auto; color: #1F2937;">
+    <h1 style="margin-bottom:4px;">${escapeHtml(heading)}</h1>
+    ${banner}
+    <table style="width:100%;margin:16px 0;">
+      <tr>
+        <td style="vertical-align:top;">
+          <strong>${escapeHtml(doc.issuer.name)}</strong><br>${doc.issuer.lines.map(escapeHtml).join("<br>")}
+        </td>
+        <td style="vertical-align:top;text-align:right;">
+          <strong>Bill to</strong><br>${escapeHtml(doc.billTo.name)}<br>${doc.billTo.lines.map(escapeHtml).join("<br>")}
+        </td>
+      </tr>
+    </table>
+    <p>
+      Project: ${escapeHtml(doc.projectName)}<br>
+      Issued: ${formatDate(doc.invoice.issuedAt)}${doc.invoice.dueDate ? `<br>Due: ${formatDate(doc.invoice.dueDate)}` : ""}
+      ${doc.creditedInvoiceNumber ? `<br>Credits invoice: ${escapeHtml(doc.creditedInvoiceNumber)}` : ""}
+    </p>
+    <table style="width:100%;border-collapse:collapse;">
+      <thead>
+        <tr style="border-bottom:1px solid #D1D5DB;text-align:left;">
+          <th>Description</th><th style="text-align:right;">Qty</th><th style="text-align:right;">Unit</th><th style="text-align:right;">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+    <table style="width:100%;margin-top:12px;">
+      ${doc.projectTotal !== null ? `<tr><td>Subtotal</td><td style="text-align:right;">${money(doc.subtotal)}</td></tr>` : ""}
+      ${doc.discount ? `<tr><td>${escapeHtml(doc.discount.label)}</td><td style="text-align:right;">-${money(doc.discount.amount)}</td></tr>` : ""}
+      ${doc.projectTotal !== null ? `<tr><td>Project total</td><td style="text-align:right;">${money(doc.projectTotal)}</td></tr>` : ""}
+      <tr style="font-weight:bold;font-size:18px;"><td>${escapeHtml(doc.dueLabel)}</td><td style="text-align:right;">${money(doc.amountDue)}</td></tr>
+    </table>
+    ${doc.paymentInstructions.length > 0 ? `
+    <h3 style="margin-top:24px;">Payment instructions</h3>
+    <p>${doc.paymentInstructions.map(escapeHtml).join("<br>")}</p>` : ""}
+    ${doc.notes && doc.invoice.invoiceType !== "credit_note" ? `<p style="color:#6B7280;">${escapeHtml(doc.notes)}</p>` : ""}
+  </body>
+</html>`;
+}
+
+export function renderInvoicePdf(doc: InvoiceDocument): Buffer {
+  const pdf = new PdfWriter();
+  const margin = 50;
+  const right = PDF_PAGE_WIDTH - margin;
+  const money = (cents: number) => formatInvoiceAmount(cents, doc.currency);
+  let y = 60;
+
+  const ensureRoom = (height: number) => {
+    if (y + height > PDF_PAGE_HEIGHT - margin) {
+      pdf.addPage();
+      y = 60;
+    }
+  };
+
+  pdf.text(margin, y, doc.number ? `${doc.title} ${doc.number}` : `${doc.title} (draft)`, { size: 20, bold: true });
+  if (doc.isVoid) pdf.text(right, y, "VOID", { size: 20, bold: true, align: "right", color: [0.73, 0.11, 0.11] });
+  else if (doc.isDraft) pdf.text(right, y, "DRAFT", { size: 20, bold: true, align: "right", color: [0.71, 0.33, 0.04] });
+  y += 30;
+
+  const issuerLines = [doc.issuer.name, ...doc.issuer.lines];
+  const billToLines = ["Bill to", doc.billTo.name, ...doc.billTo.lines];
+  for (let i = 0; i < Math.max(issuerLines.length, billToLines.length); i++) {
+    if (issuerLines[i]) pdf.text(margin, y, issuerLines[i], { bold: i === 0 });
+    if (billToLines[i]) pdf.text(right, y, billToLines[i], { bold: i === 0, align: "right" });
+    y += 14;
+  }
+  y += 10;
+
+  const meta = [
+    `Project: ${doc.projectName}`,
+    `Issued: ${formatDate(doc.invoice.issuedAt)}`,
+    ...(doc.invoice.dueDate ? [`Due: ${formatDate(doc.invoice.dueDate)}`] : []),
+    ...(doc.creditedInvoiceNumber ? [`Credits invoice: ${doc.creditedInvoiceNumber}`] : []),
+    ...(doc.isVoid && doc.invoice.voidReason ? [`Void reason: ${doc.invoice.voidReason}`] : []),
+  ];
+  meta.forEach(line => {
+    pdf.text(margin, y, line, { color: [0.3, 0.3, 0.3] });
+    y += 14;
+  });
+  y += 12;
+
+  const qtyX = right - 190;
+  const unitX = right - 95;
+  pdf.rect(margin, y - 12, right - margin, 18);
+  pdf.text(margin + 4, y, "Description", { bold: true });
+  pdf.text(qtyX, y, "Qty", { bold: true, align: "right" });
+  pdf.text(unitX, y, "Unit", { bold: true, align: "right" });
+  pdf.text(right - 4, y, "Amount", { bold: true, align: "right" });
+  y += 20;
+
+  doc.lineItems.forEach(item => {
+    const detailLines = item.detail ? pdf.wrap(item.detail, qtyX - margin - 40, 8) : [];
+    ensureRoom(16 + detailLines.length * 10);
+    pdf.text(margin + 4, y, item.description);
+    pdf.text(qtyX, y, String(item.quantity), { align: "right" });
+    pdf.text(unitX, y, money(item.unitAmount), { align: "right" });
+    pdf.text(right - 4, y, money(item.amount), { align: "right" });
+    y += 12;
+    detailLines.forEach(line => {
+      pdf.text(margin + 4, y, line, { size: 8, color: [0.42, 0.45, 0.5] });
+      y += 10;
+    });
+    pdf.line(margin, y - 4, right);
+    y += 8;
+  });
+
+  ensureRoom(90);
+  y += 6;
+  const totalRow = (label: string, value: string, bold = false, size = 10) => {
+    pdf.text(unitX - 60, y, label, { bold, size, align: "right" });
+    pdf.text(right - 4, y, value, { bold, size, align: "right" });
+    y += size + 6;
+  };
+  if (doc.projectTotal !== null) totalRow("Subtotal", money(doc.subtotal));
+  if (doc.discount) totalRow(doc.discount.label, `-${money(doc.discount.amount)}`);
+  if (doc.projectTotal !== null) totalRow("Project total", money(doc.projectTotal));
+  y += 4;
+  totalRow(doc.dueLabel, money(doc.amountDue), true, 13);
+
+  if (doc.paymentInstructions.length > 0) {
+    y += 16;
+    ensureRoom(30);
+    pdf.text(margin, y, "Payment instructions", { bold: true, size: 11 });
+    y += 16;
+    doc.paymentInstructions.flatMap(line => pdf.wrap(line, right - margin, 9)).forEach(line => {
+      ensureRoom(12);
+      pdf.text(margin, y, line, { size: 9 });
+      y += 12;
+    });
+  }
+
+  if (doc.notes && doc.invoice.invoiceType !== "credit_note") {
+    y += 12;
+    pdf.wrap(doc.notes, right - margin, 9).forEach(line => {
+      ensureRoom(12);
+      pdf.text(margin, y, line, { size: 9, color: [0.42, 0.45, 0.5] });
+      y += 12;
+    });
+  }
+
+  return pdf.toBuffer();
+}
+
+export function invoiceFileName(doc: InvoiceDocument, extension: "pdf" | "html"): string {
+  const base = doc.number ?? `draft-${doc.invoice.id}`;
+  return `${base.replace(/[^A-Za-z0-9_-]/g, "_")}.${extension}`;
+}
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): RevenueSplitResult<T> {
+  return { ok: false, code, error };
+}
+
+/**
+ * Issue a draft: it takes the next number for its type and year and moves to "sent".
+ * Issuing an already issued invoice returns it unchanged.
+ */
+export async function issueDaoInvoice(invoiceId: number): Promise<RevenueSplitResult<DaoInvoice>> {
+  const invoice = await storage.getDaoInvoice(invoiceId);
+  if (!invoice) return fail("not_found", "Invoice not found");
+  if (invoice.sequenceNumber !== null) return { ok: true, value: invoice };
+  if (invoice.status === "cancelled" || invoice.status === "void") {
+    return fail("conflict", `A ${invoice.status} invoice can't be issued`);
+  }
+
+  const numbered = await storage.issueDaoInvoiceNumber(invoiceId, new Date());
+  if (!numbered) return fail("not_found", "Invoice not found");
+  const issued = numbered.status === "draft" || numbered.status === null
+    ? await storage.updateDaoInvoice(invoiceId, { status: "sent", sentAt: numbered.sentAt ?? new Date() })
+    : numbered;
+  console.log(`[Invoices] Issued ${numbered.invoiceNumber}`);
+  return { ok: true, value: issued ?? numbered };
+}
+
+/**
+ * Void an issued invoice. It keeps its number so the sequence stays gap-free; a paid
+ * invoice also has whatever is left of its settlement (after earlier credit notes) reversed.
+ */
+export async function voidDaoInvoice(invoiceId: number, reason: string, actorId: string): Promise<RevenueSplitResult<DaoInvoice>> {
+  const invoice = await storage.getDaoInvoice(invoiceId);
+  if (!invoice) return fail("not_found", "Invoice not found");
+  if (invoice.invoiceType === "credit_note") return fail("invalid", "Credit notes can't be voided");
+  if (invoice.sequenceNumber === null) return fail("invalid", "Draft invoices have no number to void; cancel them instead");
+  if (invoice.status === "void" || invoice.status === "cancelled") return fail("conflict", `Invoice is already ${invoice.status}`);
+
+  const voided = await storage.voidDaoInvoice(invoiceId, invoice.status ?? "draft", reason);
+  if (!voided) return fail("conflict", "Invoice changed while it was being voided; reload and try again");
+
+  if (invoice.status === "paid") {
+    const reversal = await computeSettlementReversal(invoice, await storage.getDaoCreditNotes(invoiceId), 0);
+    await applySettlementReversal(invoice.projectId, reversal, `Reversal for voided invoice ${invoice.invoiceNumber}`, actorId);
+  }
+  console.log(`[Invoices] Voided ${invoice.invoiceNumber}`);
+  return { ok: true, value: voided };
+}
+
+/**
+ * Issue a credit note against a paid invoice, for the whole remaining amount unless a
+ * smaller one is given. The matching share of the invoice's treasury contribution and
+ * member revenue is reversed.
+ */
+export async function createCreditNote(
+  invoiceId: number,
+  input: { amount?: number; reason: string },
+  actorId: string,
+): Promise<RevenueSplitResult<DaoInvoice>> {
+  const invoice = await storage.getDaoInvoice(invoiceId);
+  if (!invoice) return fail("not_found", "Invoice not found");
+  if (invoice.invoiceType === "credit_note") return fail("invalid", "A credit note can't be credited");
+  if (invoice.status !== "paid") {
+    return fail("conflict", "Only paid invoices can be credited; void an unpaid invoice instead");
+  }
+
+  const creditNotes = await storage.getDaoCreditNotes(invoiceId);
+  const alreadyCredited = creditNotes.filter(n => n.status !== "void").reduce((sum, n) => sum + n.amount, 0);
+  const creditable = invoice.amount - alreadyCredited;
+  const amount = input.amount ?? creditable;
+  if (!Number.isInteger(amount) || amount <= 0) return fail("invalid", "Credit amount must be a positive number of cents");
+  if (amount > creditable) {
+    const project = await storage.getDaoProject(invoice.projectId);
+    return fail("invalid", `Only ${formatInvoiceAmount(creditable, project?.currency || "USD")} is left to credit on ${invoice.invoiceNumber}`);
+  }
+
+  const reversal = await computeSettlementReversal(invoice, creditNotes, creditable - amount);
+  // Claim the amount on the invoice first; a credit note issued since the read above fails the claim
+  if (!await storage.claimDaoInvoiceCredit(invoice.id, amount, alreadyCredited)) {
+    return fail("conflict", "Invoice changed while it was being credited; reload and try again");
+  }
+
+  let note: DaoInvoice;
+  try {
+    note = await storage.createDaoInvoice({
+      projectId: invoice.projectId,
+      invoiceType: "credit_note",
+      creditedInvoiceId: invoice.id,
+      phase: invoice.phase,
+      amount,
+      status: "sent",
+      sentAt: new Date(),
+      splitPolicyId: invoice.splitPolicyId,
+      treasuryContribution: reversal.treasuryContribution,
+      revenueCredits: reversal.revenueCredits,
+      notes: input.reason,
+      createdBy: actorId,
+    });
+  } catch (error) {
+    await storage.releaseDaoInvoiceCredit(invoice.id, amount);
+    throw error;
+  }
+  const numbered = await storage.issueDaoInvoiceNumber(note.id, new Date()) ?? note;
+
+  await applySettlementReversal(
+    invoice.projectId,
+    reversal,
+    `Reversal for credit note ${numbered.invoiceNumber} against invoice ${invoice.invoiceNumber}`,
+    actorId,
+  );
+  console.log(`[Invoices] Issued credit note ${numbered.invoiceNumber} for ${amount} against ${invoice.invoiceNumber}`);
+  return { ok: true, value: numbered };
+}
+
+/**
+ * Email the invoice PDF, issuing it first if it is still a draft. Goes to the client's
+ * first key contact with an email unless another address is given.
+ */
+export async function emailDaoInvoice(
+  invoiceId: number,
+  to: string | undefined,
+  message: string | undefined,
+): Promise<RevenueSplitResult<DaoInvoice>> {
+  if (!emailService.isReady()) return fail("conflict", "Email is not configured");
+
+  const existing = await storage.getDaoInvoice(invoiceId);
+  if (!existing) return fail("not_found", "Invoice not found");
+  if (existing.sequenceNumber === null) {
+    const issued = await issueDaoInvoice(invoiceId);
+    if (!issued.ok) return issued;
+  }
+
+  const doc = await buildInvoiceDocument(invoiceId);
+  if (!doc) return fail("not_found", "Invoice not found");
+  const recipient = to || doc.billTo.email;
+  if (!recipient) return fail("invalid", "The client profile has no contact email; pass a recipient address");
+
+  const intro = message ? `<p>${escapeHtml(message)}</p>` : "";
+  const sent = await emailService.sendEmail(
+    recipient,
+    `${doc.title} ${doc.number} from ${doc.issuer.name}`,
+    `${intro}${renderInvoiceHtml(doc)}`,
+    [{ filename: invoiceFileName(doc, "pdf"), content: renderInvoicePdf(doc), contentType: "application/pdf" }],
+  );
+  if (!sent) return fail("conflict", "The email could not be sent");
+
+  const updated = await storage.recordDaoInvoiceEmail(invoiceId, recipient);
+  return { ok: true, value: updated ?? doc.invoice };
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateRank } from "./dao-rank-progression";
+import type { DaoMembership, DaoRankCriteria, DaoRankMetrics, DaoRole } from "@shared/schema";
+
+const NOW = new Date("2026-10-19T00:00:00Z");
+
+const roles = [
+  { id: 1, name: "Contributor", tier: 1, cumulativeRevenueRequired: 0 },
+  { id: 2, name: "Core", tier: 2, cumulativeRevenueRequired: 500000 },
+  { id: 3, name: "Lead", tier: 3, cumulativeRevenueRequired: 2000000 },
+] as DaoRole[];
+
+const criteriaByRole = new Map<number, DaoRankCriteria>([
+  [2, { daoRoleId: 2, minTenureDays: 90, minPeerFeedbackAverage: 4, minPeerFeedbackCount: 3, holdConsistencyScore: 3, probationDays: 60 } as DaoRankCriteria],
+]);
+
+function member(daoRoleId: number, probationSince: Date | null = null): DaoMembership {
+  return { id: 7, daoRoleId, probationSince } as DaoMembership;
+}
+
+function metrics(overrides: Partial<DaoRankMetrics> = {}): DaoRankMetrics {
+  return {
+    cumulativeRevenue: 600000,
+    tenureDays: 120,
+    consistencyScore: 4,
+    peerFeedbackAverage: 4.5,
+    peerFeedbackCount: 5,
+    leadRoleCount: 0,
+    pmRoleCount: 0,
+    ...overrides,
+  };
+}
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+test("proposes a promotion when every rule of the next tier is met", () => {
+  const evaluation = evaluateRank(member(1), metrics(), roles, criteriaByRole, NOW);
+  assert.deepEqual(evaluation?.proposal, { changeType: "promotion", toRole: roles[1] });
+});
+
+test("peer feedback only counts once there are enough ratings", () => {
+  const evaluation = evaluateRank(member(1), metrics({ peerFeedbackCount: 2 }), roles, criteriaByRole, NOW);
+  assert.equal(evaluation?.proposal, null);
+  assert.equal(evaluation?.snapshot.promotionChecks.find(c => c.criterion === "peer_feedback")?.met, false);
+});
+
+test("falling below the tier's hold threshold starts probation, but missing data doesn't", () => {
+  assert.equal(evaluateRank(member(2), metrics({ consistencyScore: 2.5 }), roles, criteriaByRole, NOW)?.proposal?.changeType, "probation");
+  assert.equal(evaluateRank(member(2), metrics({ consistencyScore: null, cumulativeRevenue: 0 }), roles, criteriaByRole, NOW)?.proposal, null);
+});
+
+test("probation ends in a demotion after probationDays, or is cleared on recovery", () => {
+  const below = metrics({ consistencyScore: 2.5 });
+  assert.equal(evaluateRank(member(2, daysAgo(30)), below, roles, criteriaByRole, NOW)?.proposal, null);
+  assert.deepEqual(evaluateRank(member(2, daysAgo(60)), below, roles, criteriaByRole, NOW)?.proposal, { changeType: "demotion", toRole: roles[0] });
+  assert.deepEqual(evaluateRank(member(2, daysAgo(30)), metrics(), roles, criteriaByRole, NOW)?.proposal, { changeType: "probation_cleared", toRole: roles[1] });
+});
+
+test("members at the top tier or without a known role get no promotion", () => {
+  assert.equal(evaluateRank(member(3), metrics({ cumulativeRevenue: 9000000 }), roles, criteriaByRole, NOW)?.proposal, null);
+  assert.equal(evaluateRank(member(99), metrics(), roles, criteriaByRole, NOW), undefined);
+});
@@ -0,0 +1,361 @@
+import { storage } from "./storage";
+import type {
+  DaoMembership,
+  DaoRankChangeType,
+  DaoRankCriteria,
+  DaoRankCriteriaSnapshot,
+  DaoRankCriterionCheck,
+  DaoRankMetrics,
+  DaoRankProgression,
+  DaoRole,
+} from "@shared/schema";
+
+/**
+ * Rank progression
+ *
+ * Each DAO role tier can carry rank criteria (dao_rank_criteria): thresholds a member needs to
+ * be promoted into the tier, and thresholds they need to keep to stay in it. Promotion always
+ * also needs the tier's cumulativeRevenueRequired. The weekly evaluation measures every active
+ * member (revenue, tenure, consistency score, peer feedback average, lead and PM role counts)
+ * and proposes:
+ *
+ * - promotion when the member meets every rule of the next tier up;
+ * - probation when they fall below their own tier's hold thresholds;
+ * - demotion when they are still below them after the tier's probationDays;
+ * - probation_cleared when a member on probation meets them again.
+ *
+ * Proposals are recorded in dao_rank_progressions with the criteria snapshot that justified
+ * them and wait for a council member's decision; approving one applies it to the membership.
+ * Members with an open proposal aren't evaluated again until it is decided.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_PEER_FEEDBACK_COUNT = 3;
+const DEFAULT_PROBATION_DAYS = 90;
+
+export type RankProgressionResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): RankProgressionResult<T> {
+  return { ok: false, code, error };
+}
+
+function formatUsd(cents: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(cents / 100);
+}
+
+// ==================== Evaluation ====================
+
+export async function loadRankMetrics(membership: DaoMembership, now = new Date()): Promise<DaoRankMetrics> {
+  const [consistency, feedback] = await Promise.all([
+    storage.getDaoConsistencyMetrics(membership.id),
+    storage.getFeedbackForMember(membership.id),
+  ]);
+  const ratings = feedback.map(f => f.overallRating).filter((r): r is number => r != null);
+  const joined = membership.activeFrom ?? membership.createdAt ?? now;
+  return {
+    cumulativeRevenue: membership.cumulativeRevenue || 0,
+    tenureDays: Math.max(0, Math.floor((now.getTime() - joined.getTime()) / DAY_MS)),
+    consistencyScore: consistency?.overallReliabilityScore ?? null,
+    peerFeedbackAverage: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+    peerFeedbackCount: ratings.length,
+    leadRoleCount: consistency?.leadRoleCount ?? 0,
+    pmRoleCount: consistency?.pmRoleCount ?? 0,
+  };
+}
+
+function check(criterion: DaoRankCriterionCheck["criterion"], label: string, required: number, actual: number | null): DaoRankCriterionCheck {
+  return { criterion, label, required, actual, met: actual != null && actual >= required };
+}
+
+// Peer ratings only count once there are enough of them
+function peerAverage(metrics: DaoRankMetrics, criteria: DaoRankCriteria | undefined): number | null {
+  const needed = criteria?.minPeerFeedbackCount ?? DEFAULT_PEER_FEEDBACK_COUNT;
+  return metrics.peerFeedbackCount >= needed ? metrics.peerFeedbackAverage : null;
+}
+
+function promotionChecks(metrics: DaoRankMetrics, role: DaoRole, criteria: DaoRankCriteria | undefined): DaoRankCriterionCheck[] {
+  const checks = [check("revenue", `Cumulative revenue of ${formatUsd(role.cumulativeRevenueRequired)}`, role.cumulativeRevenueRequired, metrics.cumulativeRevenue)];
+  if (!criteria) return checks;
+  if (criteria.minTenureDays != null) {
+    checks.push(check("tenure", `${criteria.minTenureDays} days as a member`, criteria.minTenureDays, metrics.tenureDays));
+  }
+  if (criteria.minConsistencyScore != null) {
+    checks.push(check("consistency", `Consistency score of ${criteria.minConsistencyScore}`, criteria.minConsistencyScore, metrics.consistencyScore));
+  }
+  if (criteria.minPeerFeedbackAverage != null) {
+    const needed = criteria.minPeerFeedbackCount ?? DEFAULT_PEER_FEEDBACK_COUNT;
+    checks.push(check("peer_feedback", `Peer feedback average of ${criteria.minPeerFeedbackAverage} over at least ${needed} ratings`, criteria.minPeerFeedbackAverage, peerAverage(metrics, criteria)));
+  }
+  if (criteria.minLeadRoles != null) {
+    checks.push(check("lead_roles", `${criteria.minLeadRoles} lead roles`, criteria.minLeadRoles, metrics.leadRoleCount));
+  }
+  if (criteria.minPmRoles != null) {
+    checks.push(check("pm_roles", `${criteria.minPmRoles} PM roles`, criteria.minPmRoles, metrics.pmRoleCount));
+  }
+  return checks;
+}
+
+// Unlike promotion, missing data doesn't count against a member keeping their tier
+function holdChecks(metrics: DaoRankMetrics, criteria: DaoRankCriteria | undefined): DaoRankCriterionCheck[] {
+  const checks: DaoRankCriterionCheck[] = [];
+  if (criteria?.holdConsistencyScore != null) {
+    const result = check("consistency", `Consistency score of ${criteria.holdConsistencyScore}`, criteria.holdConsistencyScore, metrics.consistencyScore);
+    checks.push({ ...result, met: result.met || metrics.consistencyScore == null });
+  }
+  if (criteria?.holdPeerFeedbackAverage != null) {
+    const average = peerAverage(metrics, criteria);
+    const result = check("peer_feedback", `Peer feedback average of ${criteria.holdPeerFeedbackAverage}`, criteria.holdPeerFeedbackAverage, average);
+    checks.push({ ...result, met: result.met || average == null });
+  }
+  return checks;
+}
+
+function describeFailures(checks: DaoRankCriterionCheck[]): string {
+  return checks.filter(c => !c.met)
+    .map(c => `${c.label} (has ${c.actual == null ? "no data" : Math.round(c.actual * 100) / 100})`)
+    .join("; ");
+}
+
+export interface RankEvaluation {
+  membership: DaoMembership;
+  currentRole: DaoRole;
+  proposal: { changeType: DaoRankChangeType; toRole: DaoRole } | null;
+  snapshot: DaoRankCriteriaSnapshot;
+}
+
+/** Decide what, if anything, to propose for a member; roles are all tiers, criteria keyed by role id */
+export function evaluateRank(
+  membership: DaoMembership,
+  metrics: DaoRankMetrics,
+  roles: DaoRole[],
+  criteriaByRole: Map<number, DaoRankCriteria>,
+  now = new Date(),
+): RankEvaluation | undefined {
+  const currentRole = roles.find(r => r.id === membership.daoRoleId);
+  if (!currentRole) return undefined;
+  const nextRole = roles.find(r => r.tier === currentRole.tier + 1);
+  const lowerRole = roles.find(r => r.tier === currentRole.tier - 1);
+  const currentCriteria = criteriaByRole.get(currentRole.id);
+
+  const promotion = nextRole ? promotionChecks(metrics, nextRole, criteriaByRole.get(nextRole.id)) : [];
+  const hold = holdChecks(metrics, currentCriteria);
+  const holdsTier = hold.every(c => c.met);
+
+  let proposal: RankEvaluation["proposal"] = null;
+  let reason: string;
+  if (membership.probationSince) {
+    const probationDays = currentCriteria?.probationDays ?? DEFAULT_PROBATION_DAYS;
+    const daysOnProbation = Math.floor((now.getTime() - membership.probationSince.getTime()) / DAY_MS);
+    if (holdsTier) {
+      proposal = { changeType: "probation_cleared", toRole: currentRole };
+      reason = `Meets the ${currentRole.name} standards again after ${daysOnProbation} days on probation`;
+    } else if (daysOnProbation >= probationDays && lowerRole) {
+      proposal = { changeType: "demotion", toRole: lowerRole };
+      reason = `Still below the ${currentRole.name} standards after ${daysOnProbation} days on probation: ${describeFailures(hold)}`;
+    } else {
+      reason = `On probation for ${daysOnProbation} of ${probationDays} days: ${describeFailures(hold)}`;
+    }
+  } else if (!holdsTier) {
+    proposal = { changeType: "probation", toRole: currentRole };
+    reason = `Below the ${currentRole.name} standards: ${describeFailures(hold)}`;
+  } else if (nextRole && promotion.every(c => c.met)) {
+    proposal = { changeType: "promotion", toRole: nextRole };
+    reason = `Meets every ${nextRole.name} criterion`;
+  } else if (nextRole) {
+    reason = `Not yet eligible for ${nextRole.name}: ${describeFailures(promotion)}`;
+  } else {
+    reason = `Already at the top tier (${currentRole.name})`;
+  }
+
+  return {
+    membership,
+    currentRole,
+    proposal,
+    snapshot: {
+      evaluatedAt: now.toISOString(),
+      currentTier: currentRole.tier,
+      targetTier: nextRole?.tier ?? null,
+      metrics,
+      promotionChecks: promotion,
+      holdChecks: hold,
+      reason,
+    },
+  };
+}
+
+async function loadRankRules(): Promise<{ roles: DaoRole[]; criteriaByRole: Map<number, DaoRankCriteria> }> {
+  const [roles, criteria] = await Promise.all([storage.getDaoRoles(), storage.getDaoRankCriteria()]);
+  return { roles, criteriaByRole: new Map(criteria.map(c => [c.daoRoleId, c])) };
+}
+
+/** Evaluate one member without recording anything */
+export async function previewRankEvaluation(membershipId: number): Promise<RankEvaluation | undefined> {
+  const membership = await storage.getDaoMembership(membershipId);
+  if (!membership) return undefined;
+  const { roles, criteriaByRole } = await loadRankRules();
+  return evaluateRank(membership, await loadRankMetrics(membership), roles, criteriaByRole);
+}
+
+/** Evaluate every active member and record proposals for the council */
+export async function runRankEvaluation(): Promise<DaoRankProgression[]> {
+  const { roles, criteriaByRole } = await loadRankRules();
+  const open = await storage.getDaoRankProgressions({ status: "proposed" });
+  const pendingMembers = new Set(open.map(p => p.membershipId));
+  const memberships = (await storage.getDaoMemberships()).filter(m => !m.activeTo && !pendingMembers.has(m.id));
+
+  const proposals: DaoRankProgression[] = [];
+  for (const membership of memberships) {
+    const evaluation = evaluateRank(membership, await loadRankMetrics(membership), roles, criteriaByRole);
+    if (!evaluation?.proposal) continue;
+    proposals.push(await storage.createDaoRankProgression({
+      membershipId: membership.id,
+      changeType: evaluation.proposal.changeType,
+      status: "proposed",
+      fromRoleId: evaluation.currentRole.id,
+      toRoleId: evaluation.proposal.toRole.id,
+      cumulativeRevenueAtPromotion: evaluation.snapshot.metrics.cumulativeRevenue,
+      criteriaSnapshot: evaluation.snapshot,
+      notes: evaluation.snapshot.reason,
+    }));
+  }
+
+  if (proposals.length > 0) {
+    for (const member of await storage.getCouncilMembers()) {
+      if (!member.userId) continue;
+      await storage.createNotification({
+        userId: member.userId,
+        type: "rank_review_requested",
+        title: `${proposals.length} rank change${proposals.length === 1 ? "" : "s"} to review`,
+        message: proposals.map(p => (p.changeType ?? "promotion").replace("_", " ")).join(", "),
+      });
+    }
+  }
+  console.log(`[Rank] Evaluated ${memberships.length} member(s), proposed ${proposals.length} change(s)`);
+  return proposals;
+}
+
+// ==================== Review ====================
+
+function membershipChange(progression: DaoRankProgression, now: Date): { daoRoleId: number; probationSince: Date | null } | null {
+  switch (progression.changeType) {
+    case "promotion":
+    case "demotion":
+      return { daoRoleId: progression.toRoleId, probationSince: null };
+    case "probation":
+      return { daoRoleId: progression.toRoleId, probationSince: now };
+    case "probation_cleared":
+      return { daoRoleId: progression.toRoleId, probationSince: null };
+    default:
+      return null;
+  }
+}
+
+async function applyProgression(progression: DaoRankProgression): Promise<boolean> {
+  const change = membershipChange(progression, new Date());
+  if (!change || progression.fromRoleId == null) return false;
+  const updated = await storage.updateDaoMembershipRank(progression.membershipId, progression.fromRoleId, change);
+  if (!updated) return false;
+
+  if (updated.userId) {
+    const role = await storage.getDaoRole(progression.toRoleId);
+    const titles: Record<DaoRankChangeType, string> = {
+      promotion: `Promoted to ${role?.name ?? "a new rank"}`,
+      demotion: `Moved to ${role?.name ?? "a lower rank"}`,
+      probation: "Your rank is on probation",
+      probation_cleared: "Your probation has ended",
+    };
+    await storage.createNotification({
+      userId: updated.userId,
+      type: "rank_change",
+      title: titles[progression.changeType ?? "promotion"],
+      message: progression.criteriaSnapshot?.reason ?? progression.notes ?? "",
+    });
+  }
+  return true;
+}
+
+export async function reviewRankProgression(
+  id: number,
+  userId: string,
+  decision: "approve" | "reject",
+  notes?: string | null,
+): Promise<RankProgressionResult<DaoRankProgression>> {
+  const reviewer = await storage.getDaoMembershipByUserId(userId);
+  if (!reviewer?.isCouncil) return fail("forbidden", "Only council members can review rank changes");
+  const progression = await storage.getDaoRankProgression(id);
+  if (!progression) return fail("not_found", "Rank change not found");
+  if (progression.membershipId === reviewer.id) return fail("forbidden", "You can't review your own rank change");
+  if (progression.status !== "proposed") return fail("conflict", `Rank change is already ${progression.status}`);
+
+  const review = { reviewedBy: userId, reviewedAt: new Date(), reviewNotes: notes ?? null };
+  if (decision === "reject") {
+    const rejected = await storage.transitionDaoRankProgression(id, "proposed", { ...review, status: "rejected" });
+    return rejected ? { ok: true, value: rejected } : fail("conflict", "Rank change was reviewed at the same time");
+  }
+
+  // Claim the proposal first so two approvals can't both apply it
+  const claimed = await storage.transitionDaoRankProgression(id, "proposed", { ...review, status: "applied", approvedBy: userId });
+  if (!claimed) return fail("conflict", "Rank change was reviewed at the same time");
+  if (!(await applyProgression(claimed))) {
+    await storage.transitionDaoRankProgression(id, "applied", {
+      status: "rejected",
+      reviewNotes: "The membership's rank changed after this was proposed",
+    });
+    return fail("conflict", "The membership's rank changed after this was proposed; run the evaluation again");
+  }
+  console.log(`[Rank] ${claimed.changeType} #${id} for membership ${claimed.membershipId} approved by ${userId}`);
+  return { ok: true, value: claimed };
+}
+
+/** Promote a member right away if they meet the next tier's criteria (admin action, no council review) */
+export async function promoteIfEligible(membershipId: number, userId: string): Promise<RankProgressionResult<DaoRankProgression | null>> {
+  const evaluation = await previewRankEvaluation(membershipId);
+  if (!evaluation) return fail("not_found", "Membership not found");
+  if (evaluation.proposal?.changeType !== "promotion") return { ok: true, value: null };
+
+  const progression = await storage.createDaoRankProgression({
+    membershipId,
+    changeType: "promotion",
+    status: "applied",
+    fromRoleId: evaluation.currentRole.id,
+    toRoleId: evaluation.proposal.toRole.id,
+    cumulativeRevenueAtPromotion: evaluation.snapshot.metrics.cumulativeRevenue,
+    criteriaSnapshot: evaluation.snapshot,
+    approvedBy: userId,
+    notes: evaluation.snapshot.reason,
+  });
+  if (!(await applyProgression(progression))) {
+    await storage.transitionDaoRankProgression(progression.id, "applied", { status: "rejected", reviewNotes: "The membership's rank changed during promotion" });
+    return fail("conflict", "The membership's rank changed during promotion");
+  }
+  return { ok: true, value: progression };
+}
+
+// ==================== Criteria ====================
+
+export interface RankTier {
+  role: DaoRole;
+  criteria: DaoRankCriteria | null;
+}
+
+export async function getRankTiers(): Promise<RankTier[]> {
+  const { roles, criteriaByRole } = await loadRankRules();
+  return roles
+    .slice()
+    .sort((a, b) => a.tier - b.tier)
+    .map(role => ({ role, criteria: criteriaByRole.get(role.id) ?? null }));
+}
+
+export async function setRankCriteria(
+  roleId: number,
+  rules: Partial<Omit<DaoRankCriteria, "id" | "daoRoleId" | "updatedBy" | "updatedAt">>,
+  userId: string,
+): Promise<RankProgressionResult<DaoRankCriteria>> {
+  const role = await storage.getDaoRole(roleId);
+  if (!role) return fail("not_found", "Role not found");
+  const criteria = await storage.upsertDaoRankCriteria({ ...rules, daoRoleId: roleId, updatedBy: userId });
+  return { ok: true, value: criteria };
+}
@@ -1,5 +1,5 @@
 import nodemailer from "nodemailer";
-import type { ContentTask, User } from "@shared/schema";
+import type { ContentTask, DailyDigest, User } from "@shared/schema";
 
 interface EmailConfig {
   host: string;
@@ -19,6 +19,12 @@ interface EmailRecipient {
   firstName?: string | null;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter | null = null;
   private fromAddress: string = "";
@@ -197,10 +203,33 @@ export class EmailService {
     return this.sendEmail(recipient.email, subject, html);
   }
 
+  async sendChatDigestEmail(
+    recipient: EmailRecipient | User,
+    digest: DailyDigest
+  ): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    const recipientName = this.getRecipientName(recipient);
+    const subject = `Chat Digest for ${digest.digestDate}: ${digest.totalNewMessages || 0} new messages`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3B82F6;">Your Daily Chat Digest</h2>
+        <p>Hi ${recipientName},</p>
+        ${digest.summaryHtml || ""}
+        <p style="color: #6B7280; font-size: 14px;">Log in to the Chat Terminal to read and reply.</p>
+      </div>
+    `;
+
+    return this.sendEmail(recipient.email, subject, html);
+  }
+
   async sendEmail(
     to: string,
     subject: string,
-    html: string
+    html: string,
+    attachments?: EmailAttachment[]
   ): Promise<boolean> {
     if (!this.transporter) {
       return false;
@@ -212,6 +241,7 @@ export class EmailService {
         to,
         subject,
         html,
+        attachments,
       });
       console.log(`Email sent to ${to}: ${subject}`);
       return true;
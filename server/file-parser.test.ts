@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseFile } from "./file-parser";
+
+test("reads multi-line entries with their username, points and rank", () => {
+  const content = [
+    "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed",
+    "@alice",
+    "1,250 pts",
+    "#3",
+    "So11111111111111111111111111111111111111112 @bob 40 pts",
+  ].join("\n");
+  const result = parseFile("leaderboard.txt", Buffer.from(content));
+  assert.equal(result.invalidCount, 0);
+  assert.deepEqual(result.addresses, [
+    { address: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed", chain: "evm", username: "alice", points: 1250, rank: 3 },
+    { address: "So11111111111111111111111111111111111111112", chain: "sol", username: "bob", points: 40, rank: undefined },
+  ]);
+});
+
+test("a long word containing I, O or l continues the previous entry", () => {
+  const content = ["0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed", "InfluencerOfTheYearAward2024 @carol"].join("\n");
+  const result = parseFile("list.txt", Buffer.from(content));
+  assert.equal(result.invalidCount, 0);
+  assert.equal(result.addresses.length, 1);
+  assert.equal(result.addresses[0].username, "carol");
+});
+
+test("de-duplicates by address key and reports invalid addresses with their line", () => {
+  const content = [
+    "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+    "0x5AAEB6053F3E94C9B9A09F33669435E7EF1BEAED",
+    "0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+  ].join("\n");
+  const result = parseFile("list.csv", Buffer.from(content));
+  assert.equal(result.addresses.length, 1);
+  assert.equal(result.invalidCount, 1);
+  assert.equal(result.validationErrors[0].line, 3);
+});
@@ -1,6 +1,11 @@
 import * as XLSX from "xlsx";
-import type { Address } from "@shared/schema";
-import { validateAddressWithDetails } from "@shared/ethereum";
+import type { Address, AddressChain } from "@shared/schema";
+import { validateChecksumAddress, toChecksumAddress } from "@shared/ethereum";
+import { parseChainAddress, addressKey } from "@shared/addresses";
+
+// A line starting with something address-shaped begins a new CSV/TXT entry. Case-insensitive
+// only where the format is (hex, bech32), so the base58 class keeps excluding 0, O, I and l
+const ENTRY_START = /^(0[xX][a-zA-Z0-9]+|(?:bc|BC|tb|TB)1[a-zA-Z0-9]+|[1-9A-HJ-NP-Za-km-z]{25,44})(?=$|[\s,;])/;
 
 interface ParseResult {
   addresses: Address[];
@@ -11,7 +16,7 @@ interface ParseResult {
 /**
  * Parse CSV/TXT content with multi-line entries
  */
-function parseCSVContent(content: string): ParseResult {
+function parseCSVContent(content: string, chains?: readonly AddressChain[]): ParseResult {
   const addresses: Address[] = [];
   const validationErrors: Array<{ address: string; error: string; line?: number }> = [];
   const seenAddresses = new Set<string>();
@@ -20,28 +25,32 @@ function parseCSVContent(content: string): ParseResult {
   const lines = content.split(/\r?\n/);
   let currentEntry: string[] = [];
   let currentLineStart = 0;
+
+  const addEntry = (entry: string[], lineIndex: number) => {
+    const parsed = parseEntry(entry.join('\n'), chains);
+    if (parsed.ok) {
+      const key = addressKey(parsed.address.address);
+      if (!seenAddresses.has(key)) {
+        addresses.push(parsed.address);
+        seenAddresses.add(key);
+      }
+    } else {
+      invalidCount++;
+      validationErrors.push({
+        address: entry[0].match(ENTRY_START)?.[0] || entry[0],
+        error: parsed.error,
+        line: lineIndex + 1,
+      });
+    }
+  };
   
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
     
-    const addressMatch = line.match(/^0x[a-zA-Z0-9]+/);
+    const addressMatch = line.match(ENTRY_START);
     if (addressMatch) {
       if (currentEntry.length > 0) {
-        const parsed = parseEntry(currentEntry.join('\n'));
-        if (parsed) {
-          if (!seenAddresses.has(parsed.address.toLowerCase())) {
-            addresses.push(parsed);
-            seenAddresses.add(parsed.address.toLowerCase());
-          }
-        } else {
-          invalidCount++;
-          const rawAddr = currentEntry[0].match(/^0x[a-zA-Z0-9]+/)?.[0] || currentEntry[0];
-          validationErrors.push({
-            address: rawAddr,
-            error: 'Invalid Ethereum address format',
-            line: currentLineStart + 1,
-          });
-        }
+        addEntry(currentEntry, currentLineStart);
       }
       currentEntry = [line];
       currentLineStart = i;
@@ -53,37 +62,21 @@ function parseCSVContent(content: string): ParseResult {
   }
   
   if (currentEntry.length > 0) {
-    const parsed = parseEntry(currentEntry.join('\n'));
-    if (parsed) {
-      if (!seenAddresses.has(parsed.address.toLowerCase())) {
-        addresses.push(parsed);
-        seenAddresses.add(parsed.address.toLowerCase());
-      }
-    } else {
-      invalidCount++;
-      const rawAddr = currentEntry[0].match(/^0x[a-zA-Z0-9]+/)?.[0] || currentEntry[0];
-      validationErrors.push({
-        address: rawAddr,
-        error: 'Invalid Ethereum address format',
-        line: currentLineStart + 1,
-      });
-    }
+    addEntry(currentEntry, currentLineStart);
   }
   
   return { addresses, invalidCount, validationErrors };
 }
 
-function parseEntry(entryText: string): Address | null {
-  const addressMatch = entryText.match(/0x[a-fA-F0-9]{40}/);
-  if (!addressMatch) return null;
+function parseEntry(entryText: string, chains?: readonly AddressChain[]): { ok: true; address: Address } | { ok: false; error: string } {
+  const addressMatch = entryText.match(ENTRY_START);
+  if (!addressMatch) return { ok: false, error: 'No address found' };
   
-  const rawAddress = addressMatch[0].trim();
-  const validation = validateAddressWithDetails(rawAddress);
-  if (!validation.isValid) {
-    return null;
+  const parsed = parseChainAddress(addressMatch[0], chains);
+  if (!parsed.ok) {
+    return parsed;
   }
   
-  const address = validation.normalized || rawAddress;
   const usernameMatch = entryText.match(/@(\w+)/);
   const username = usernameMatch ? usernameMatch[1] : undefined;
   const pointsMatch = entryText.match(/([\d,]+)\s*pts/);
@@ -91,13 +84,13 @@ function parseEntry(entryText: string): Address | null {
   const rankMatch = entryText.match(/#(\d+)/);
   const rank = rankMatch ? parseInt(rankMatch[1]) : undefined;
   
-  return { address, username, points, rank };
+  return { ok: true, address: { address: parsed.address, chain: parsed.chain, username, points, rank } };
 }
 
 /**
  * Parse JSON content - expects array of address objects or plain address strings
  */
-function parseJSONContent(content: string): ParseResult {
+function parseJSONContent(content: string, chains?: readonly AddressChain[]): ParseResult {
   const addresses: Address[] = [];
   const validationErrors: Array<{ address: string; error: string }> = [];
   const seenAddresses = new Set<string>();
@@ -124,20 +117,20 @@ function parseJSONContent(content: string): ParseResult {
         continue;
       }
 
-      const validation = validateAddressWithDetails(address);
-      if (!validation.isValid) {
+      const parsed = parseChainAddress(address || '', chains);
+      if (!parsed.ok) {
         invalidCount++;
         validationErrors.push({
           address: address || 'unknown',
-          error: validation.error || 'Invalid address',
+          error: parsed.error,
         });
         continue;
       }
 
-      const normalized = validation.normalized || address;
-      if (!seenAddresses.has(normalized.toLowerCase())) {
-        addresses.push({ address: normalized, username, points, rank });
-        seenAddresses.add(normalized.toLowerCase());
+      const key = addressKey(parsed.address);
+      if (!seenAddresses.has(key)) {
+        addresses.push({ address: parsed.address, chain: parsed.chain, username, points, rank });
+        seenAddresses.add(key);
       }
     }
   } catch (error) {
@@ -150,7 +143,7 @@ function parseJSONContent(content: string): ParseResult {
 /**
  * Parse Excel content (.xlsx, .xls)
  */
-function parseExcelContent(buffer: Buffer): ParseResult {
+function parseExcelContent(buffer: Buffer, chains?: readonly AddressChain[]): ParseResult {
   const addresses: Address[] = [];
   const validationErrors: Array<{ address: string; error: string; line?: number }> = [];
   const seenAddresses = new Set<string>();
@@ -170,26 +163,27 @@ function parseExcelContent(buffer: Buffer): ParseResult {
       
       if (typeof address !== 'string') continue;
 
-      const validation = validateAddressWithDetails(address);
-      if (!validation.isValid) {
+      const parsed = parseChainAddress(address, chains);
+      if (!parsed.ok) {
         invalidCount++;
         validationErrors.push({
           address,
-          error: validation.error || 'Invalid address',
+          error: parsed.error,
           line: i + 2, // +2 because Excel is 1-indexed and first row is header
         });
         continue;
       }
 
-      const normalized = validation.normalized || address;
-      if (!seenAddresses.has(normalized.toLowerCase())) {
+      const key = addressKey(parsed.address);
+      if (!seenAddresses.has(key)) {
         addresses.push({
-          address: normalized,
+          address: parsed.address,
+          chain: parsed.chain,
           username: row.username || row.Username || row.user || row.User,
           points: row.points || row.Points || row.score || row.Score,
           rank: row.rank || row.Rank || row.position || row.Position,
         });
-        seenAddresses.add(normalized.toLowerCase());
+        seenAddresses.add(key);
       }
     }
   } catch (error) {
@@ -200,17 +194,54 @@ function parseExcelContent(buffer: Buffer): ParseResult {
 }
 
 /**
- * Auto-detect file type and parse accordingly
+ * Auto-detect file type and parse accordingly. Addresses on any supported chain are
+ * accepted unless `chains` narrows them; EVM addresses come back checksummed.
  */
-export function parseFile(filename: string, buffer: Buffer): ParseResult {
+export function parseFile(filename: string, buffer: Buffer, chains?: readonly AddressChain[]): ParseResult {
   const ext = filename.toLowerCase().split('.').pop();
 
   if (ext === 'json') {
-    return parseJSONContent(buffer.toString('utf-8'));
+    return parseJSONContent(buffer.toString('utf-8'), chains);
   } else if (ext === 'xlsx' || ext === 'xls') {
-    return parseExcelContent(buffer);
+    return parseExcelContent(buffer, chains);
   } else {
     // Default to CSV/TXT parsing
-    return parseCSVContent(buffer.toString('utf-8'));
+    return parseCSVContent(buffer.toString('utf-8'), chains);
   }
 }
+
+/**
+ * Extract all EVM addresses from free text (tweets, PDFs, chat exports), checksummed.
+ * Mixed-case matches with a bad EIP-55 checksum are typos and are skipped.
+ */
+export function extractEvmAddresses(content: string): string[] {
+  // Use word boundary to avoid matching within longer hex strings (like bytecode or tx data)
+  const addressRegex = /(?<![a-fA-F0-9])0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
+  const matches = content.match(addressRegex) || [];
+  
+  const seen = new Set<string>();
+  const uniqueAddresses: string[] = [];
+  
+  for (const addr of matches) {
+    const lowerAddr = addr.toLowerCase();
+    // Skip addresses that are all zeros (null address pattern often in encoded data)
+    if (lowerAddr === '0x0000000000000000000000000000000000000000') {
+      continue;
+    }
+    // More than 30 leading zeros is likely ABI-encoded data, not a real address
+    const leadingZeros = lowerAddr.slice(2).match(/^0+/)?.[0]?.length || 0;
+    if (leadingZeros >= 30) {
+      continue;
+    }
+    if (!validateChecksumAddress(addr)) {
+      continue;
+    }
+    
+    if (!seen.has(lowerAddr)) {
+      seen.add(lowerAddr);
+      uniqueAddresses.push(toChecksumAddress(addr));
+    }
+  }
+  
+  return uniqueAddresses;
+}
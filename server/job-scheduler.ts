@@ -0,0 +1,349 @@
+import os from "os";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { JobRun, ScheduledJob } from "@shared/schema";
+
+/**
+ * Background job scheduler
+ *
+ * Jobs live in the scheduled_jobs table so schedules, pause state and run history
+ * survive restarts. Each poll claims due jobs with a lease (locked_by/locked_until),
+ * so when several instances run only one executes a given job; a crashed instance's
+ * lease simply expires and the job is picked up again.
+ */
+
+export interface JobContext {
+  job: ScheduledJob;
+  attempt: number;
+  trigger: JobTrigger;
+}
+
+export type JobHandler = (payload: any, context: JobContext) => Promise<unknown>;
+export type JobTrigger = "schedule" | "manual" | "retry";
+
+export interface JobDefinition {
+  name: string;
+  handler: string;
+  schedule?: string | null;
+  description?: string;
+  payload?: unknown;
+  maxAttempts?: number;
+  backoffSeconds?: number;
+}
+
+const INSTANCE_ID = `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString("hex")}`;
+const LEASE_SECONDS = 10 * 60;
+const POLL_INTERVAL_MS = 30 * 1000;
+const MAX_JOBS_PER_TICK = 10;
+
+const handlers = new Map<string, JobHandler>();
+let pollTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// ==================== CRON PARSING ====================
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart ? parseInt(stepPart, 10) : 1;
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid step in cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== "*") {
+      const [from, to] = rangePart.split("-").map(v => parseInt(v, 10));
+      if (isNaN(from)) {
+        throw new Error(`Invalid value in cron field "${field}"`);
+      }
+      start = from;
+      end = to !== undefined ? to : (stepPart ? max : from);
+    }
+    if (start < min || end > max || start > end || isNaN(end)) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression: minute hour day-of-month month day-of-week
+ * Supports *, lists (1,15), ranges (1-5) and steps (*\/15). Day-of-week 7 is treated as Sunday.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(fields[0], 0, 59),
+    hours: parseCronField(fields[1], 0, 23),
+    daysOfMonth: parseCronField(fields[2], 1, 31),
+    months: parseCronField(fields[3], 1, 12),
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  };
+}
+
+function matchesCronDay(cron: CronFields, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  if (cron.domRestricted) return domMatch;
+  if (cron.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Next time (UTC, minute resolution) strictly after `after` that matches the expression
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const cron = parseCronExpression(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesCronDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+// ==================== REGISTRATION ====================
+
+export function registerJobHandler(name: string, handler: JobHandler): void {
+  handlers.set(name, handler);
+}
+
+export function getRegisteredJobHandlers(): string[] {
+  return Array.from(handlers.keys()).sort();
+}
+
+/**
+ * Create or update a recurring system job by name. An admin's pause is preserved;
+ * the next run is only recomputed when the schedule itself changes.
+ */
+export async function ensureScheduledJob(definition: JobDefinition): Promise<ScheduledJob> {
+  const existing = await storage.getScheduledJobByName(definition.name);
+  const schedule = definition.schedule ?? null;
+
+  if (!existing) {
+    return storage.createScheduledJob({
+      name: definition.name,
+      handler: definition.handler,
+      description: definition.description,
+      schedule,
+      payload: definition.payload ?? null,
+      status: "active",
+      nextRunAt: schedule ? getNextCronRun(schedule) : new Date(),
+      maxAttempts: definition.maxAttempts ?? 3,
+      backoffSeconds: definition.backoffSeconds ?? 60,
+    });
+  }
+
+  const scheduleChanged = existing.schedule !== schedule;
+  const updated = await storage.updateScheduledJob(existing.id, {
+    handler: definition.handler,
+    description: definition.description,
+    schedule,
+    maxAttempts: definition.maxAttempts ?? existing.maxAttempts,
+    backoffSeconds: definition.backoffSeconds ?? existing.backoffSeconds,
+    ...(scheduleChanged || !existing.nextRunAt
+      ? { nextRunAt: schedule ? getNextCronRun(schedule) : new Date() }
+      : {}),
+  });
+  return updated || existing;
+}
+
+/**
+ * Queue a one-off job. The name must be unique, so callers should include an identifier.
+ */
+export async function enqueueJob(
+  name: string,
+  handler: string,
+  payload?: unknown,
+  options: { runAt?: Date; maxAttempts?: number; backoffSeconds?: number; createdBy?: string } = {},
+): Promise<ScheduledJob> {
+  if (!handlers.has(handler)) {
+    throw new Error(`No job handler registered for "${handler}"`);
+  }
+  return storage.createScheduledJob({
+    name,
+    handler,
+    schedule: null,
+    payload: payload ?? null,
+    status: "active",
+    nextRunAt: options.runAt ?? new Date(),
+    maxAttempts: options.maxAttempts ?? 3,
+    backoffSeconds: options.backoffSeconds ?? 60,
+    createdBy: options.createdBy,
+  });
+}
+
+// ==================== EXECUTION ====================
+
+async function executeClaimedJob(job: ScheduledJob, trigger: JobTrigger): Promise<JobRun> {
+  const attempt = job.attempts + 1;
+  const effectiveTrigger: JobTrigger = trigger === "schedule" && job.attempts > 0 ? "retry" : trigger;
+  const run = await storage.createJobRun({
+    jobId: job.id,
+    status: "running",
+    attempt,
+    trigger: effectiveTrigger,
+    instanceId: INSTANCE_ID,
+  });
+  const startedAt = Date.now();
+
+  // Keep the lease alive for long-running handlers
+  const heartbeat = setInterval(() => {
+    storage.extendScheduledJobLease(job.id, INSTANCE_ID, LEASE_SECONDS).catch(error => {
+      console.error(`[Jobs] Failed to extend lease for ${job.name}:`, error);
+    });
+  }, (LEASE_SECONDS * 1000) / 2);
+
+  try {
+    const handler = handlers.get(job.handler);
+    if (!handler) {
+      throw new Error(`No job handler registered for "${job.handler}"`);
+    }
+
+    const result = await handler(job.payload, { job, attempt, trigger: effectiveTrigger });
+
+    const finished = await storage.updateJobRun(run.id, {
+      status: "succeeded",
+      result: result === undefined ? null : result,
+      finishedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+    });
+    await storage.releaseScheduledJob(job.id, INSTANCE_ID, {
+      status: job.schedule ? undefined : "completed",
+      nextRunAt: job.schedule ? getNextCronRun(job.schedule) : null,
+      lastRunStatus: "succeeded",
+      lastError: null,
+      attempts: 0,
+    });
+    return finished || run;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Jobs] ${job.name} failed (attempt ${attempt}/${job.maxAttempts}):`, error);
+
+    const finished = await storage.updateJobRun(run.id, {
+      status: "failed",
+      error: message,
+      finishedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+    });
+
+    const canRetry = attempt < job.maxAttempts;
+    const retryAt = new Date(Date.now() + job.backoffSeconds * 1000 * Math.pow(2, attempt - 1));
+    await storage.releaseScheduledJob(job.id, INSTANCE_ID, canRetry
+      ? { nextRunAt: retryAt, lastRunStatus: "failed", lastError: message, attempts: attempt }
+      : job.schedule
+        // Recurring jobs give up on this period and wait for the next scheduled run
+        ? { nextRunAt: getNextCronRun(job.schedule), lastRunStatus: "failed", lastError: message, attempts: 0 }
+        : { status: "failed", nextRunAt: null, lastRunStatus: "failed", lastError: message, attempts: attempt });
+    return finished || run;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    for (let i = 0; i < MAX_JOBS_PER_TICK; i++) {
+      const job = await storage.claimDueScheduledJob(INSTANCE_ID, LEASE_SECONDS);
+      if (!job) break;
+      await executeClaimedJob(job, "schedule");
+    }
+  } catch (error) {
+    console.error("[Jobs] Scheduler tick failed:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Run a job immediately, outside its schedule. Returns undefined if another
+ * instance currently holds the job's lease.
+ */
+export async function triggerJob(id: number): Promise<{ job: ScheduledJob; run: Promise<JobRun> } | undefined> {
+  const job = await storage.claimScheduledJob(id, INSTANCE_ID, LEASE_SECONDS);
+  if (!job) return undefined;
+  return { job, run: executeClaimedJob(job, "manual") };
+}
+
+export async function pauseJob(id: number): Promise<ScheduledJob | undefined> {
+  return storage.updateScheduledJob(id, { status: "paused" });
+}
+
+export async function resumeJob(id: number): Promise<ScheduledJob | undefined> {
+  const job = await storage.getScheduledJob(id);
+  if (!job) return undefined;
+  return storage.updateScheduledJob(id, {
+    status: "active",
+    nextRunAt: job.schedule ? getNextCronRun(job.schedule) : new Date(),
+  });
+}
+
+export function startJobScheduler(): void {
+  if (pollTimer) return;
+  console.log(`[Jobs] Scheduler started on ${INSTANCE_ID} with handlers: ${getRegisteredJobHandlers().join(", ")}`);
+  pollTimer = setInterval(tick, POLL_INTERVAL_MS);
+  setTimeout(tick, 5000);
+}
+
+export function stopJobScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -40,9 +40,16 @@ export function isAuthorizedWorker(userId: string): boolean {
 }
 
 export function setupLiveStreamServer(server: Server) {
-  const wss = new WebSocketServer({ 
-    server, 
-    path: '/ws/live-stream' 
+  // noServer + our own upgrade routing, so other WebSocket endpoints on the same
+  // HTTP server (e.g. whiteboards) aren't rejected by this one
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (pathname !== '/ws/live-stream') return;
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req);
+    });
   });
 
   wss.on('connection', (ws, req) => {
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildMerkleTree, getMerkleProof, hashMerkleLeaf, prepareMerkleEntries, verifyMerkleProof } from "./merkle-allowlist";
+
+// The example from the @openzeppelin/merkle-tree README
+const OZ_VALUES = [
+  { address: "0x1111111111111111111111111111111111111111", amount: "5000000000000000000" },
+  { address: "0x2222222222222222222222222222222222222222", amount: "2500000000000000000" },
+];
+const OZ_ROOT = "0xd4dee0beab2d53f2cc83e567171bd2820e49898130a22622b10ead383e90bd77";
+
+function addressOf(n: number): string {
+  return `0x${n.toString(16).padStart(40, "0")}`;
+}
+
+test("matches the StandardMerkleTree root for the OpenZeppelin example", () => {
+  const { tree } = buildMerkleTree(OZ_VALUES.map(v => hashMerkleLeaf("address_amount", v)));
+  assert.equal(tree[0], OZ_ROOT);
+});
+
+test("does not depend on the order of the input leaves", () => {
+  const { tree } = buildMerkleTree(OZ_VALUES.slice().reverse().map(v => hashMerkleLeaf("address_amount", v)));
+  assert.equal(tree[0], OZ_ROOT);
+});
+
+test("every leaf's proof verifies against the root, including unbalanced trees", () => {
+  for (const count of [1, 2, 3, 5, 8, 13]) {
+    const leaves = Array.from({ length: count }, (_, i) => hashMerkleLeaf("address", { address: addressOf(i + 1) }));
+    const { tree, treeIndices } = buildMerkleTree(leaves);
+    leaves.forEach((leaf, i) => {
+      assert.equal(tree[treeIndices[i]], leaf);
+      assert.ok(verifyMerkleProof(tree[0], leaf, getMerkleProof(tree, treeIndices[i])), `leaf ${i} of ${count}`);
+    });
+  }
+});
+
+test("rejects a proof for a different allocation", () => {
+  const leaves = OZ_VALUES.map(v => hashMerkleLeaf("address_amount", v));
+  const { tree, treeIndices } = buildMerkleTree(leaves);
+  const inflated = hashMerkleLeaf("address_amount", { ...OZ_VALUES[0], amount: "6000000000000000000" });
+  assert.equal(verifyMerkleProof(tree[0], inflated, getMerkleProof(tree, treeIndices[0])), false);
+});
+
+test("prepareMerkleEntries applies the default amount and excludes non-EVM addresses", () => {
+  const result = prepareMerkleEntries([
+    { address: "0x52908400098527886e0f7030069857d2e4169ee7", points: 10 },
+    { address: "0x52908400098527886E0F7030069857D2E4169EE7", points: 99 },
+    { address: "0x8617E340B3D01FA5F11F306F4090FD50E238070D" },
+    { address: "So11111111111111111111111111111111111111112", points: 5 },
+  ], "address_amount", "1");
+  assert.ok(result.ok);
+  assert.deepEqual(result.value.entries, [
+    { address: "0x52908400098527886E0F7030069857D2E4169EE7", amount: "10" },
+    { address: "0x8617E340B3D01FA5F11F306F4090FD50E238070D", amount: "1" },
+  ]);
+  assert.equal(result.value.excluded.length, 1);
+});
+
+test("prepareMerkleEntries fails on an allocation that isn't a uint256", () => {
+  const result = prepareMerkleEntries([{ address: OZ_VALUES[0].address, points: 1.5 }], "address_amount");
+  assert.equal(result.ok, false);
+});
@@ -0,0 +1,334 @@
+import { AbiCoder, keccak256, concat } from "ethers";
+import { storage } from "./storage";
+import { parseFile } from "./file-parser";
+import { buildSnapshot, toSummary, type UploadedAddressFile } from "./collection-sets";
+import { toAddressInputs } from "./collection-metadata";
+import { parseChainAddress, addressKey } from "@shared/addresses";
+import type {
+  Address,
+  Collection,
+  CollectionSnapshot,
+  CollectionSnapshotSummary,
+  GenerateMerkleAllowlistInput,
+  InsertCollectionSnapshotProof,
+  MerkleAllowlistFromFileInput,
+  MerkleLeafEncoding,
+} from "@shared/schema";
+
+/**
+ * Merkle allowlists
+ *
+ * Builds trees in the same layout as OpenZeppelin's StandardMerkleTree, so roots and proofs
+ * match what @openzeppelin/merkle-tree produces and verify with MerkleProof.verify:
+ * - leaves are keccak256(bytes.concat(keccak256(abi.encode(...values)))), with values
+ *   (address) or (address, uint256 amount) depending on the encoding;
+ * - leaves are sorted by hash and stored from the end of a flat array, each parent being
+ *   the hash of its two children in sorted order, with the root at index 0.
+ *
+ * A tree is always built from a snapshot: generating from a collection snapshots it first,
+ * and an uploaded file is saved as a new collection and then snapshotted. The root lives on
+ * the snapshot and every address's proof in its own row, so proofs can be served publicly
+ * one address at a time. Only EVM addresses can be leaves; others stay in the snapshot but
+ * are reported as excluded.
+ *
+ * For address_amount trees, allocations come from each address's `points`, as stored in
+ * the collection or read from an uploaded file; defaultAmount covers addresses without one.
+ */
+
+export const MAX_MERKLE_LEAVES = 50000;
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+export type MerkleResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): MerkleResult<T> {
+  return { ok: false, code, error };
+}
+
+export interface MerkleAllowlistEntry {
+  address: string;
+  amount?: string;
+}
+
+export interface MerkleAllowlistOutcome {
+  snapshot: CollectionSnapshotSummary;
+  collection: Collection;
+  excluded: { address: string; reason: string }[];
+}
+
+export interface MerkleProofResponse {
+  snapshotId: number;
+  root: string;
+  encoding: MerkleLeafEncoding;
+  address: string;
+  amount: string | null;
+  leaf: string;
+  proof: string[];
+}
+
+export interface MerkleProofsDocument {
+  snapshotId: number;
+  collectionName: string;
+  root: string;
+  encoding: MerkleLeafEncoding;
+  // Solidity types of the leaf values, as passed to StandardMerkleTree.of
+  leafEncoding: string[];
+  leafCount: number;
+  createdAt: string;
+  claims: Record<string, { amount?: string; leaf: string; proof: string[] }>;
+}
+
+// ==================== Tree ====================
+
+export function merkleLeafTypes(encoding: MerkleLeafEncoding): string[] {
+  return encoding === "address" ? ["address"] : ["address", "uint256"];
+}
+
+export function hashMerkleLeaf(encoding: MerkleLeafEncoding, entry: MerkleAllowlistEntry): string {
+  const values = encoding === "address" ? [entry.address] : [entry.address, entry.amount];
+  return keccak256(keccak256(abiCoder.encode(merkleLeafTypes(encoding), values)));
+}
+
+function hashPair(a: string, b: string): string {
+  return keccak256(a < b ? concat([a, b]) : concat([b, a]));
+}
+
+/** Flat tree in StandardMerkleTree order, plus where each input leaf ended up in it */
+export function buildMerkleTree(leaves: string[]): { tree: string[]; treeIndices: number[] } {
+  const sorted = leaves.map((hash, i) => ({ hash, i })).sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0));
+  const tree = new Array<string>(2 * leaves.length - 1);
+  const treeIndices = new Array<number>(leaves.length);
+  sorted.forEach((leaf, position) => {
+    const index = tree.length - 1 - position;
+    tree[index] = leaf.hash;
+    treeIndices[leaf.i] = index;
+  });
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+  return { tree, treeIndices };
+}
+
+export function getMerkleProof(tree: string[], index: number): string[] {
+  const proof: string[] = [];
+  while (index > 0) {
+    proof.push(tree[index % 2 === 1 ? index + 1 : index - 1]);
+    index = Math.floor((index - 1) / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(root: string, leaf: string, proof: string[]): boolean {
+  return proof.reduce(hashPair, leaf) === root;
+}
+
+// ==================== Entries ====================
+
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// Decimal uint256 string; null if there's no value, undefined if it isn't a whole number in range
+function readAmount(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  const text = String(value).trim().replace(/,/g, "");
+  if (!/^\d{1,78}$/.test(text) || BigInt(text) > MAX_UINT256) return undefined;
+  return BigInt(text).toString();
+}
+
+/**
+ * Turn addresses (with optional allocations) into leaf entries. Non-EVM addresses are
+ * excluded; a missing or malformed allocation in an address_amount tree fails the whole list.
+ */
+export function prepareMerkleEntries(
+  addresses: Pick<Address, "address" | "points">[],
+  encoding: MerkleLeafEncoding,
+  defaultAmount?: string,
+): MerkleResult<{ entries: MerkleAllowlistEntry[]; excluded: MerkleAllowlistOutcome["excluded"] }> {
+  const entries: MerkleAllowlistEntry[] = [];
+  const excluded: MerkleAllowlistOutcome["excluded"] = [];
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const fallback = readAmount(defaultAmount);
+  if (fallback === undefined) return fail("invalid", "Default amount must be a uint256 whole number");
+
+  for (const item of addresses) {
+    const parsed = parseChainAddress(item.address, ["evm"]);
+    if (!parsed.ok) {
+      excluded.push({ address: item.address, reason: parsed.error });
+      continue;
+    }
+    const key = addressKey(parsed.address);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (encoding === "address") {
+      entries.push({ address: parsed.address });
+      continue;
+    }
+    const own = readAmount(item.points);
+    const amount = own === null ? fallback : own;
+    if (amount === undefined) {
+      problems.push(`${parsed.address}: allocation must be a uint256 whole number`);
+    } else if (amount === null) {
+      problems.push(`${parsed.address}: no allocation and no default amount`);
+    } else {
+      entries.push({ address: parsed.address, amount });
+    }
+  }
+
+  if (problems.length > 0) {
+    const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : "";
+    return fail("invalid", `Invalid allocations: ${problems.slice(0, 5).join("; ")}${more}`);
+  }
+  if (entries.length === 0) return fail("invalid", "No EVM addresses to build an allowlist from");
+  if (entries.length > MAX_MERKLE_LEAVES) {
+    return fail("invalid", `Allowlists are limited to ${MAX_MERKLE_LEAVES} addresses`);
+  }
+  return { ok: true, value: { entries, excluded } };
+}
+
+// ==================== Generation ====================
+
+async function saveAllowlist(
+  collection: Collection,
+  encoding: MerkleLeafEncoding,
+  entries: MerkleAllowlistEntry[],
+  label: string | undefined,
+  userId: string,
+): Promise<CollectionSnapshot> {
+  const leaves = entries.map(entry => hashMerkleLeaf(encoding, entry));
+  const { tree, treeIndices } = buildMerkleTree(leaves);
+  const proofs: Omit<InsertCollectionSnapshotProof, "snapshotId">[] = entries.map((entry, i) => ({
+    addressKey: addressKey(entry.address),
+    address: entry.address,
+    amount: entry.amount ?? null,
+    leaf: leaves[i],
+    proof: getMerkleProof(tree, treeIndices[i]),
+  }));
+
+  const snapshot = await storage.createCollectionSnapshotWithProofs({
+    // The same entries as the tree, so the snapshot matches its root even if the collection just changed
+    ...buildSnapshot(collection, entries.map(entry => entry.address), label, userId),
+    merkleEncoding: encoding,
+    merkleRoot: tree[0],
+    merkleLeafCount: entries.length,
+  }, proofs);
+  console.log(`[Merkle] Snapshot ${snapshot.id} of collection ${collection.id}: ${entries.length} leaves, root ${tree[0]}`);
+  return snapshot;
+}
+
+export async function generateFromCollection(
+  collectionId: number,
+  input: GenerateMerkleAllowlistInput,
+  userId: string,
+): Promise<MerkleResult<MerkleAllowlistOutcome>> {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) return fail("not_found", "Collection not found");
+
+  const { entries } = await storage.getCollectionAddressEntries(collectionId, {});
+  const prepared = prepareMerkleEntries(
+    entries.map(entry => ({ address: entry.address, points: entry.points ?? undefined })),
+    input.encoding,
+    input.defaultAmount,
+  );
+  if (!prepared.ok) return prepared;
+
+  const snapshot = await saveAllowlist(collection, input.encoding, prepared.value.entries, input.label, userId);
+  return { ok: true, value: { snapshot: toSummary(snapshot), collection, excluded: prepared.value.excluded } };
+}
+
+export async function generateFromFile(
+  file: UploadedAddressFile,
+  input: MerkleAllowlistFromFileInput,
+  userId: string,
+): Promise<MerkleResult<MerkleAllowlistOutcome>> {
+  const parsed = parseFile(file.originalname, file.buffer);
+  const prepared = prepareMerkleEntries(parsed.addresses, input.encoding, input.defaultAmount);
+  if (!prepared.ok) return prepared;
+
+  let collection: Collection;
+  try {
+    collection = await storage.createCollection({ name: input.name, description: input.description || null });
+  } catch (error: any) {
+    if (error.code === "23505") return fail("conflict", "A collection with this name already exists");
+    throw error;
+  }
+
+  try {
+    await storage.addMintedAddresses(collection.id, toAddressInputs(parsed.addresses), {
+      sourceType: "upload",
+      reference: file.originalname,
+      createdBy: userId,
+    });
+    const snapshot = await saveAllowlist(collection, input.encoding, prepared.value.entries, input.label, userId);
+    return { ok: true, value: { snapshot: toSummary(snapshot), collection, excluded: prepared.value.excluded } };
+  } catch (error) {
+    await storage.deleteCollection(collection.id);
+    throw error;
+  }
+}
+
+// ==================== Proofs ====================
+
+async function getMerkleSnapshot(snapshotId: number): Promise<MerkleResult<CollectionSnapshot>> {
+  const snapshot = await storage.getCollectionSnapshot(snapshotId);
+  if (!snapshot || !snapshot.merkleRoot || !snapshot.merkleEncoding) {
+    return fail("not_found", "Merkle allowlist not found");
+  }
+  return { ok: true, value: snapshot };
+}
+
+export async function getAllowlistProof(snapshotId: number, address: string): Promise<MerkleResult<MerkleProofResponse>> {
+  const parsed = parseChainAddress(address, ["evm"]);
+  if (!parsed.ok) return fail("invalid", parsed.error);
+
+  const found = await getMerkleSnapshot(snapshotId);
+  if (!found.ok) return found;
+  const proof = await storage.getCollectionSnapshotProof(snapshotId, addressKey(parsed.address));
+  if (!proof) return fail("not_found", "Address is not on this allowlist");
+
+  return {
+    ok: true,
+    value: {
+      snapshotId,
+      root: found.value.merkleRoot!,
+      encoding: found.value.merkleEncoding!,
+      address: proof.address,
+      amount: proof.amount,
+      leaf: proof.leaf,
+      proof: proof.proof,
+    },
+  };
+}
+
+/** Every proof in one document, keyed by checksummed address, for dapp frontends to bundle */
+export async function getAllowlistProofsFile(snapshotId: number): Promise<MerkleResult<{ filename: string; document: MerkleProofsDocument }>> {
+  const found = await getMerkleSnapshot(snapshotId);
+  if (!found.ok) return found;
+  const snapshot = found.value;
+  const proofs = await storage.getCollectionSnapshotProofs(snapshotId);
+
+  const claims: MerkleProofsDocument["claims"] = {};
+  for (const row of proofs) {
+    claims[row.address] = row.amount === null
+      ? { leaf: row.leaf, proof: row.proof }
+      : { amount: row.amount, leaf: row.leaf, proof: row.proof };
+  }
+  return {
+    ok: true,
+    value: {
+      filename: `${snapshot.collectionName}_merkle_${snapshot.id}.json`,
+      document: {
+        snapshotId: snapshot.id,
+        collectionName: snapshot.collectionName,
+        root: snapshot.merkleRoot!,
+        encoding: snapshot.merkleEncoding!,
+        leafEncoding: merkleLeafTypes(snapshot.merkleEncoding!),
+        leafCount: proofs.length,
+        createdAt: snapshot.createdAt.toISOString(),
+        claims,
+      },
+    },
+  };
+}
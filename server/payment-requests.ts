@@ -0,0 +1,419 @@
+import fs from "fs/promises";
+import path from "path";
+import { storage } from "./storage";
+import { channelNotificationService } from "./channel-notification-service";
+import type {
+  BudgetCapPeriod,
+  PaymentBudgetCategory,
+  PaymentRequest,
+  PaymentRequestEventType,
+  PaymentRequestReceipt,
+  PaymentRequestStatus,
+  User,
+} from "@shared/schema";
+
+/**
+ * Payment request workflow
+ *
+ * Content team members submit payment requests (reimbursements, missed payments) with an
+ * optional budget category and receipts. The number of distinct admins that must approve is
+ * fixed at submission from the approval thresholds: a request above a threshold's minAmount
+ * needs its requiredApprovals, and one approval otherwise. A single rejection ends the request.
+ *
+ * Categories can carry a cap per calendar month, quarter or year (UTC), counted against the
+ * requests submitted in that period. Submitting fails if approved plus pending requests would
+ * exceed the cap; the final approval fails if approved requests would.
+ *
+ * Every step is recorded in payment_request_events and announced in-app and on the
+ * configured Discord and Telegram channels.
+ */
+
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024;
+const RECEIPT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/webp", "image/heic", "image/gif"];
+const RECEIPTS_DIR = path.join("uploads", "payment-receipts");
+const PERIOD_NAMES: Record<BudgetCapPeriod, string> = { monthly: "month", quarterly: "quarter", yearly: "year" };
+
+export type PaymentRequestResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): PaymentRequestResult<T> {
+  return { ok: false, code, error };
+}
+
+function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function formatAmount(currency: string, cents: number): string {
+  return `${currency} ${(cents / 100).toFixed(2)}`;
+}
+
+function displayName(user: Pick<User, "firstName" | "lastName" | "email"> | undefined): string {
+  if (!user) return "Unknown";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown";
+}
+
+// ==================== Approval thresholds ====================
+
+export async function requiredApprovalsFor(amount: string): Promise<number> {
+  const cents = toCents(amount);
+  return (await storage.getPaymentApprovalThresholds())
+    .filter(t => cents > toCents(t.minAmount))
+    .reduce((required, t) => Math.max(required, t.requiredApprovals), 1);
+}
+
+// ==================== Budgets ====================
+
+export interface BudgetPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export function budgetPeriodContaining(period: BudgetCapPeriod, date: Date): BudgetPeriod {
+  const year = date.getUTCFullYear();
+  if (period === "yearly") {
+    return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+  const months = period === "quarterly" ? 3 : 1;
+  const firstMonth = date.getUTCMonth() - (date.getUTCMonth() % months);
+  return { start: new Date(Date.UTC(year, firstMonth, 1)), end: new Date(Date.UTC(year, firstMonth + months, 1)) };
+}
+
+export interface CategoryBudget {
+  category: PaymentBudgetCategory;
+  periodStart: Date;
+  periodEnd: Date;
+  cap: string | null;
+  approved: string;
+  pending: string;
+  remaining: string | null; // Cap minus approved and pending requests
+}
+
+export async function getCategoryBudget(category: PaymentBudgetCategory, at = new Date()): Promise<CategoryBudget> {
+  const period = budgetPeriodContaining(category.capPeriod, at);
+  const totals = await storage.getPaymentCategoryTotals(category.id, period.start, period.end);
+  const approvedCents = toCents(totals.approved ?? 0);
+  const pendingCents = toCents(totals.pending ?? 0);
+  return {
+    category,
+    periodStart: period.start,
+    periodEnd: period.end,
+    cap: category.capAmount,
+    approved: (approvedCents / 100).toFixed(2),
+    pending: (pendingCents / 100).toFixed(2),
+    remaining: category.capAmount === null ? null : ((toCents(category.capAmount) - approvedCents - pendingCents) / 100).toFixed(2),
+  };
+}
+
+export async function getCategoryBudgets(): Promise<CategoryBudget[]> {
+  const categories = await storage.getPaymentBudgetCategories(true);
+  return Promise.all(categories.map(category => getCategoryBudget(category)));
+}
+
+// ==================== Events and notifications ====================
+
+async function recordEvent(
+  request: PaymentRequest,
+  actorId: string,
+  eventType: PaymentRequestEventType,
+  previousStatus: PaymentRequestStatus | null,
+  note: string | null,
+): Promise<void> {
+  await storage.createPaymentRequestEvent({
+    paymentRequestId: request.id,
+    actorId,
+    eventType,
+    previousStatus,
+    newStatus: request.status,
+    note,
+  });
+}
+
+async function notifyAdmins(title: string, message: string, requestId: number, exceptUserId?: string): Promise<void> {
+  const admins = (await storage.getAllUsers()).filter(u => u.role === "admin" && u.id !== exceptUserId);
+  for (const admin of admins) {
+    await storage.createNotification({
+      userId: admin.id,
+      type: "payment_request",
+      title,
+      message,
+    });
+  }
+}
+
+async function notifyChannels(
+  eventType: "created" | "approval_recorded" | "approved" | "rejected" | "cancelled",
+  request: PaymentRequest,
+  requesterName: string,
+  reviewerName?: string,
+): Promise<void> {
+  try {
+    const category = request.categoryId ? await storage.getPaymentBudgetCategory(request.categoryId) : undefined;
+    await channelNotificationService.sendPaymentRequestNotification(eventType, request, requesterName, reviewerName, category?.name);
+  } catch (error) {
+    // External notifications never fail the request
+    console.error("[PaymentRequests] Error sending external notifications:", error);
+  }
+}
+
+// ==================== Workflow ====================
+
+export async function submitPaymentRequest(
+  user: User,
+  input: { amount: string; currency: string; reason: string; description?: string | null; categoryId?: number | null },
+): Promise<PaymentRequestResult<PaymentRequest>> {
+  if (input.categoryId) {
+    const category = await storage.getPaymentBudgetCategory(input.categoryId);
+    if (!category || !category.isActive) return fail("invalid", "Budget category not found");
+    if (category.currency !== input.currency) {
+      return fail("invalid", `The ${category.name} budget is in ${category.currency}; submit the request in ${category.currency}`);
+    }
+    const budget = await getCategoryBudget(category);
+    if (budget.remaining !== null && toCents(input.amount) > toCents(budget.remaining)) {
+      return fail("invalid", `This would exceed the ${category.name} budget: ${formatAmount(category.currency, Math.max(0, toCents(budget.remaining)))} left this ${PERIOD_NAMES[category.capPeriod]}`);
+    }
+  }
+
+  const request = await storage.createPaymentRequest({
+    requesterId: user.id,
+    amount: input.amount,
+    currency: input.currency,
+    reason: input.reason,
+    description: input.description || null,
+    categoryId: input.categoryId ?? null,
+    requiredApprovals: await requiredApprovalsFor(input.amount),
+  });
+  await recordEvent(request, user.id, "created", null, null);
+
+  const requesterName = displayName(user);
+  await notifyAdmins(
+    "New Payment Request",
+    `${requesterName} submitted a payment request for ${request.currency} ${request.amount}` +
+      (request.requiredApprovals > 1 ? ` (needs ${request.requiredApprovals} approvals)` : ""),
+    request.id,
+    user.id,
+  );
+  await notifyChannels("created", request, requesterName);
+  return { ok: true, value: request };
+}
+
+// Why approving the request would take its category over budget, or null if it fits. With
+// `counted`, the approved total already includes the request itself
+async function budgetCapError(request: PaymentRequest, counted: boolean): Promise<string | null> {
+  if (!request.categoryId) return null;
+  const category = await storage.getPaymentBudgetCategory(request.categoryId);
+  if (category?.capAmount == null) return null;
+  const budget = await getCategoryBudget(category, request.requestedAt);
+  const otherCents = toCents(budget.approved) - (counted ? toCents(request.amount) : 0);
+  if (otherCents + toCents(request.amount) <= toCents(category.capAmount)) return null;
+  return `Approving would exceed the ${category.name} budget of ${formatAmount(category.currency, toCents(category.capAmount))} (${formatAmount(category.currency, otherCents)} already approved)`;
+}
+
+// The request as it stands after a concurrent review; a recorded approval isn't a conflict
+async function approvalOutcome(id: number): Promise<PaymentRequestResult<PaymentRequest>> {
+  const current = await storage.getPaymentRequest(id);
+  if (!current) return fail("not_found", "Payment request not found");
+  if (current.status === "rejected") return fail("conflict", "Payment request was rejected by someone else");
+  return { ok: true, value: current };
+}
+
+/**
+ * Approve or reject a pending request. An approval counts once per admin; the request is
+ * approved when it reaches requiredApprovals. Requesters can't review their own requests.
+ */
+export async function reviewPaymentRequest(
+  reviewer: User,
+  id: number,
+  review: { status: "approved" | "rejected"; note?: string },
+): Promise<PaymentRequestResult<PaymentRequest>> {
+  const request = await storage.getPaymentRequest(id);
+  if (!request) return fail("not_found", "Payment request not found");
+  if (request.status !== "pending") return fail("conflict", "Can only review pending requests");
+  if (request.requesterId === reviewer.id) return fail("forbidden", "You can't review your own payment request");
+
+  const note = review.note?.trim() || null;
+  const reviewerName = displayName(reviewer);
+  const requester = await storage.getUser(request.requesterId);
+  const requesterName = displayName(requester);
+
+  if (review.status === "rejected") {
+    const rejected = await storage.transitionPaymentRequest(id, ["pending"], {
+      status: "rejected",
+      adminReviewerId: reviewer.id,
+      adminNote: note,
+      reviewedAt: new Date(),
+    });
+    if (!rejected) return fail("conflict", "Payment request was reviewed by someone else");
+    await recordEvent(rejected, reviewer.id, "rejected", "pending", note);
+    if (requester) {
+      await storage.createNotification({
+        userId: requester.id,
+        type: "payment_request",
+        title: "Payment Request Rejected",
+        message: `Your payment request for ${rejected.currency} ${rejected.amount} has been rejected by ${reviewerName}${note ? `: ${note}` : ""}`,
+      });
+    }
+    await notifyChannels("rejected", rejected, requesterName, reviewerName);
+    return { ok: true, value: rejected };
+  }
+
+  const existing = await storage.getPaymentRequestApprovals(id);
+  if (existing.some(a => a.approverId === reviewer.id)) return fail("conflict", "You have already approved this request");
+
+  const approval = await storage.recordPaymentRequestApproval(id, reviewer.id, note);
+  if (!approval) return fail("conflict", "You have already approved this request");
+  // Counted after recording, so approvals landing at the same time all see each other
+  const approvalCount = (await storage.getPaymentRequestApprovals(id)).length;
+
+  if (approvalCount >= request.requiredApprovals) {
+    const capError = await budgetCapError(request, false);
+    if (capError) {
+      // Withdraw the approval so the request stays approvable once the budget allows it
+      await storage.removePaymentRequestApproval(approval.id);
+      return fail("conflict", capError);
+    }
+  }
+
+  if (approvalCount < request.requiredApprovals) {
+    const updated = await storage.transitionPaymentRequest(id, ["pending"], { approvalCount });
+    if (!updated) return approvalOutcome(id);
+    await recordEvent(updated, reviewer.id, "approval_recorded", "pending", `${approvalCount} of ${updated.requiredApprovals} approvals${note ? `: ${note}` : ""}`);
+    await notifyAdmins(
+      "Payment Request Needs Another Approval",
+      `${reviewerName} approved ${requesterName}'s payment request for ${updated.currency} ${updated.amount} (${approvalCount} of ${updated.requiredApprovals})`,
+      id,
+      reviewer.id,
+    );
+    await notifyChannels("approval_recorded", updated, requesterName, reviewerName);
+    return { ok: true, value: updated };
+  }
+
+  const approved = await storage.transitionPaymentRequest(id, ["pending"], {
+    status: "approved",
+    approvalCount,
+    adminReviewerId: reviewer.id,
+    adminNote: note,
+    reviewedAt: new Date(),
+  });
+  // Another admin's approval completed the request at the same time; this one still counted
+  if (!approved) return approvalOutcome(id);
+
+  // Requests in the same category finalised at the same time all pass the check above; the
+  // total read now includes them, so back this approval out if together they exceed the cap
+  const capError = await budgetCapError(approved, true);
+  if (capError) {
+    await storage.removePaymentRequestApproval(approval.id);
+    await storage.transitionPaymentRequest(id, ["approved"], {
+      status: "pending",
+      approvalCount: (await storage.getPaymentRequestApprovals(id)).length,
+      adminReviewerId: null,
+      adminNote: null,
+      reviewedAt: null,
+    });
+    return fail("conflict", capError);
+  }
+  await recordEvent(approved, reviewer.id, "approved", "pending", note);
+  if (requester) {
+    await storage.createNotification({
+      userId: requester.id,
+      type: "payment_request",
+      title: "Payment Request Approved",
+      message: `Your payment request for ${approved.currency} ${approved.amount} has been approved by ${reviewerName}${note ? `: ${note}` : ""}`,
+    });
+  }
+  await notifyChannels("approved", approved, requesterName, reviewerName);
+  return { ok: true, value: approved };
+}
+
+export async function cancelPaymentRequest(user: User, id: number): Promise<PaymentRequestResult<PaymentRequest>> {
+  const request = await storage.getPaymentRequest(id);
+  if (!request) return fail("not_found", "Payment request not found");
+  if (request.requesterId !== user.id) return fail("forbidden", "Can only cancel your own requests");
+  if (request.status !== "pending") return fail("conflict", "Can only cancel pending requests");
+
+  const cancelled = await storage.cancelPaymentRequest(id, user.id);
+  if (!cancelled) return fail("conflict", "Payment request was reviewed before it could be cancelled");
+  await recordEvent(cancelled, user.id, "cancelled", "pending", null);
+
+  const requesterName = displayName(user);
+  await notifyAdmins(
+    "Payment Request Cancelled",
+    `${requesterName} cancelled their payment request for ${cancelled.currency} ${cancelled.amount}`,
+    id,
+    user.id,
+  );
+  await notifyChannels("cancelled", cancelled, requesterName);
+  return { ok: true, value: cancelled };
+}
+
+// ==================== Receipts ====================
+
+function canView(user: User, request: PaymentRequest): boolean {
+  return user.role === "admin" || request.requesterId === user.id;
+}
+
+/** Requesters add receipts until the request is paid; admins can too */
+export async function addReceipt(
+  user: User,
+  id: number,
+  file: { originalname: string; mimetype: string; size: number; buffer: Buffer },
+): Promise<PaymentRequestResult<PaymentRequestReceipt>> {
+  const request = await storage.getPaymentRequest(id);
+  if (!request) return fail("not_found", "Payment request not found");
+  if (!canView(user, request)) return fail("forbidden", "Access denied");
+  if ((request.status !== "pending" && request.status !== "approved") || request.paidAt) {
+    return fail("conflict", `Receipts can't be added to a ${request.paidAt ? "paid" : request.status} request`);
+  }
+  if (!RECEIPT_MIME_TYPES.includes(file.mimetype)) return fail("invalid", "Receipts must be PDF or image files");
+  if (file.size > RECEIPT_MAX_BYTES) return fail("invalid", "Receipts can be at most 10 MB");
+
+  const dir = path.join(RECEIPTS_DIR, String(id));
+  await fs.mkdir(path.join(process.cwd(), dir), { recursive: true });
+  const fileName = `${Date.now()}-${file.originalname.replace(/[^\w.\-]+/g, "_")}`;
+  await fs.writeFile(path.join(process.cwd(), dir, fileName), file.buffer);
+
+  const receipt = await storage.createPaymentRequestReceipt({
+    paymentRequestId: id,
+    fileName,
+    originalName: file.originalname,
+    filePath: path.join(dir, fileName),
+    fileSize: file.size,
+    mimeType: file.mimetype,
+    uploadedBy: user.id,
+  });
+  await recordEvent(request, user.id, "receipt_added", request.status, file.originalname);
+  return { ok: true, value: receipt };
+}
+
+export async function removeReceipt(user: User, id: number, receiptId: number): Promise<PaymentRequestResult<PaymentRequestReceipt>> {
+  const request = await storage.getPaymentRequest(id);
+  const receipt = await storage.getPaymentRequestReceipt(receiptId);
+  if (!request || !receipt || receipt.paymentRequestId !== id) return fail("not_found", "Receipt not found");
+  // Once reviewed, only admins can change the evidence behind a request
+  if (user.role !== "admin" && !(request.requesterId === user.id && request.status === "pending")) {
+    return fail("forbidden", "Only admins can remove receipts from a reviewed request");
+  }
+  // Approvers signed off on the receipts as they were; the requester can't swap them out afterwards
+  if (user.role !== "admin" && request.approvalCount > 0) {
+    return fail("conflict", "Receipts can't be removed once an approver has signed off");
+  }
+
+  await storage.deletePaymentRequestReceipt(receiptId);
+  try {
+    await fs.unlink(path.join(process.cwd(), receipt.filePath));
+  } catch (error) {
+    console.warn("[PaymentRequests] Could not delete receipt file:", error);
+  }
+  await recordEvent(request, user.id, "receipt_removed", request.status, receipt.originalName);
+  return { ok: true, value: receipt };
+}
+
+/** Absolute path of a receipt the user may download */
+export async function getReceiptFile(user: User, id: number, receiptId: number): Promise<PaymentRequestResult<{ receipt: PaymentRequestReceipt; absolutePath: string }>> {
+  const request = await storage.getPaymentRequest(id);
+  const receipt = await storage.getPaymentRequestReceipt(receiptId);
+  if (!request || !receipt || receipt.paymentRequestId !== id) return fail("not_found", "Receipt not found");
+  if (!canView(user, request)) return fail("forbidden", "Access denied");
+  return { ok: true, value: { receipt, absolutePath: path.join(process.cwd(), receipt.filePath) } };
+}
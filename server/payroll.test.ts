@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { latestCompletedPeriod, periodContaining } from "./payroll";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const days = (period: { start: Date; end: Date }) => [period.start.toISOString().slice(0, 10), period.end.toISOString().slice(0, 10)];
+
+test("weekly periods run Monday to the following Monday in UTC", () => {
+  assert.deepEqual(days(periodContaining("weekly", utc("2026-10-14T12:00:00"))), ["2026-10-12", "2026-10-19"]);
+  assert.deepEqual(days(periodContaining("weekly", utc("2026-10-12T00:00:00"))), ["2026-10-12", "2026-10-19"]);
+  // Sunday night still belongs to the week that started the Monday before
+  assert.deepEqual(days(periodContaining("weekly", utc("2026-10-18T23:59:59"))), ["2026-10-12", "2026-10-19"]);
+});
+
+test("weekly periods can span a month or year boundary", () => {
+  assert.deepEqual(days(periodContaining("weekly", utc("2027-01-01T08:00:00"))), ["2026-12-28", "2027-01-04"]);
+});
+
+test("monthly periods cover the calendar month, including leap Februaries", () => {
+  assert.deepEqual(days(periodContaining("monthly", utc("2028-02-29T18:00:00"))), ["2028-02-01", "2028-03-01"]);
+  assert.deepEqual(days(periodContaining("monthly", utc("2026-12-31T23:59:59"))), ["2026-12-01", "2027-01-01"]);
+});
+
+test("per-task pay is grouped into weekly periods", () => {
+  assert.deepEqual(periodContaining("per_task", utc("2026-10-14T12:00:00")), periodContaining("weekly", utc("2026-10-14T12:00:00")));
+});
+
+test("the latest completed period is the one before the current period", () => {
+  assert.deepEqual(days(latestCompletedPeriod("weekly", utc("2026-10-19T00:00:00"))), ["2026-10-12", "2026-10-19"]);
+  assert.deepEqual(days(latestCompletedPeriod("weekly", utc("2026-10-18T23:59:59"))), ["2026-10-05", "2026-10-12"]);
+  assert.deepEqual(days(latestCompletedPeriod("monthly", utc("2026-01-15T00:00:00"))), ["2025-12-01", "2026-01-01"]);
+  assert.deepEqual(days(latestCompletedPeriod("monthly", utc("2026-03-01T00:00:00"))), ["2026-02-01", "2026-03-01"]);
+});
@@ -0,0 +1,552 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import {
+  payFrequencies,
+  type ContentTask,
+  type InsertPayrollRunLine,
+  type InternalTeamMember,
+  type PayFrequency,
+  type PayrollAdjustment,
+  type PayrollAdjustmentKind,
+  type PayrollRun,
+  type PayrollRunLine,
+  type TeamPaymentHistory,
+  type User,
+} from "@shared/schema";
+
+/**
+ * Payroll runs
+ *
+ * A payroll run pays every active internal team member with one pay frequency for one period:
+ * weekly and per-task runs cover Monday-to-Monday weeks, monthly runs calendar months (UTC).
+ * The daily payroll job creates a draft run for each frequency's latest completed period;
+ * admins can also create one for any period that has started.
+ *
+ * Each member's line is computed from their current rate:
+ * - weekly and monthly: payRate for the period, prorated by days for members who started
+ *   during it;
+ * - per_task: payRate for each content task completed in the period (the status change to
+ *   COMPLETED in the activity log) that is assigned to the member or that they logged time on.
+ *   Tasks already paid in another run are skipped.
+ * Hours from time_entries are recorded on every line. Bonuses, deductions and adjustments can
+ * be added to draft lines, and recalculating a draft keeps them.
+ *
+ * Approving a run creates a pending team payment for each line with a positive total, which
+ * makes the line available to Safe payout batches. The run becomes paid once all of its
+ * payments complete, through a Safe batch or by marking the run paid.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PayrollResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): PayrollResult<T> {
+  return { ok: false, code, error };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatUsd(amount: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ==================== Periods ====================
+
+export interface PayPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+/** The period of a frequency that contains `date` */
+export function periodContaining(frequency: PayFrequency, date: Date): PayPeriod {
+  if (frequency === "monthly") {
+    return {
+      start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+    };
+  }
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  const start = new Date(day.getTime() - sinceMonday * DAY_MS);
+  return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+}
+
+export function latestCompletedPeriod(frequency: PayFrequency, now = new Date()): PayPeriod {
+  const current = periodContaining(frequency, now);
+  return periodContaining(frequency, new Date(current.start.getTime() - 1));
+}
+
+function describePeriod(run: Pick<PayrollRun, "periodStart" | "periodEnd">): string {
+  return `${toDay(run.periodStart)} to ${toDay(new Date(run.periodEnd.getTime() - DAY_MS))}`;
+}
+
+// ==================== Calculation ====================
+
+interface PayrollInputs {
+  tasks: Map<number, ContentTask>;
+  completedTaskIds: number[];
+  timeEntries: Awaited<ReturnType<typeof storage.getTimeEntriesBetween>>;
+  users: Map<string, User>;
+}
+
+async function loadInputs(run: PayrollRun): Promise<PayrollInputs> {
+  const [tasks, completions, timeEntries, users] = await Promise.all([
+    run.payFrequency === "per_task" ? storage.getContentTasks() : Promise.resolve([] as ContentTask[]),
+    run.payFrequency === "per_task" ? storage.getTaskCompletionsBetween(run.periodStart, run.periodEnd) : Promise.resolve([]),
+    storage.getTimeEntriesBetween(toDay(run.periodStart), toDay(run.periodEnd)),
+    storage.getAllUsers(),
+  ]);
+  return {
+    tasks: new Map(tasks.map(t => [t.id, t])),
+    completedTaskIds: Array.from(new Set(completions.map(c => c.taskId))),
+    timeEntries,
+    users: new Map(users.map(u => [u.id, u])),
+  };
+}
+
+// Task assignees are free text: a name, nickname or email
+function memberAliases(member: InternalTeamMember, user: User | undefined): Set<string> {
+  const aliases = [member.name, member.nickname, member.email, user?.email];
+  if (user?.firstName || user?.lastName) aliases.push(`${user.firstName ?? ""} ${user.lastName ?? ""}`.trim());
+  return new Set(aliases.filter((a): a is string => !!a).map(a => a.trim().toLowerCase()));
+}
+
+async function computeLine(
+  run: PayrollRun,
+  member: InternalTeamMember,
+  inputs: PayrollInputs,
+  adjustments: PayrollAdjustment[],
+): Promise<InsertPayrollRunLine> {
+  const payRate = member.payRate ?? 0;
+  const user = member.linkedUserId ? inputs.users.get(member.linkedUserId) : undefined;
+  const entries = member.linkedUserId ? inputs.timeEntries.filter(e => e.userId === member.linkedUserId) : [];
+  const hoursLogged = entries.reduce((sum, e) => sum + e.hours + e.minutes / 60, 0);
+
+  let baseAmount: number;
+  let calculation: string;
+  let taskIds: number[] = [];
+  if (run.payFrequency === "per_task") {
+    const aliases = memberAliases(member, user);
+    const loggedTaskIds = new Set(entries.map(e => e.taskId));
+    const paidElsewhere = new Set((await storage.getPayrollLinesForMember(member.id))
+      .filter(({ line }) => line.runId !== run.id)
+      .flatMap(({ line }) => line.taskIds ?? []));
+    taskIds = inputs.completedTaskIds.filter(id => {
+      const task = inputs.tasks.get(id);
+      if (!task || paidElsewhere.has(id)) return false;
+      return loggedTaskIds.has(id) || (!!task.assignedTo && aliases.has(task.assignedTo.trim().toLowerCase()));
+    });
+    baseAmount = roundCents(taskIds.length * payRate);
+    calculation = `${taskIds.length} task${taskIds.length === 1 ? "" : "s"} × ${formatUsd(payRate)}`;
+  } else {
+    const periodDays = Math.round((run.periodEnd.getTime() - run.periodStart.getTime()) / DAY_MS);
+    const unit = run.payFrequency === "monthly" ? "month" : "week";
+    const started = member.startDate && member.startDate > run.periodStart ? member.startDate : null;
+    if (started) {
+      const days = Math.max(0, Math.ceil((run.periodEnd.getTime() - started.getTime()) / DAY_MS));
+      baseAmount = roundCents(payRate * days / periodDays);
+      calculation = `${days} of ${periodDays} days at ${formatUsd(payRate)}/${unit}`;
+    } else {
+      baseAmount = roundCents(payRate);
+      calculation = `1 ${unit} at ${formatUsd(payRate)}/${unit}`;
+    }
+  }
+
+  return {
+    runId: run.id,
+    memberId: member.id,
+    memberName: member.nickname || member.name,
+    payFrequency: run.payFrequency,
+    payRate,
+    baseAmount,
+    hoursLogged: Math.round(hoursLogged * 100) / 100,
+    taskIds,
+    adjustments,
+    totalAmount: lineTotal(baseAmount, adjustments),
+    calculation,
+    walletAddress: member.walletAddress,
+    walletChain: member.walletChain,
+    paymentMethod: member.paymentMethod,
+  };
+}
+
+function lineTotal(baseAmount: number, adjustments: PayrollAdjustment[]): number {
+  return roundCents(baseAmount + adjustments.reduce((sum, a) => sum + a.amount, 0));
+}
+
+async function eligibleMembers(run: PayrollRun): Promise<InternalTeamMember[]> {
+  return (await storage.getInternalTeamMembers()).filter(m =>
+    (m.status ?? "active") === "active" &&
+    (m.payFrequency ?? "weekly") === run.payFrequency &&
+    (!m.startDate || m.startDate < run.periodEnd));
+}
+
+async function updateTotals(runId: number): Promise<PayrollRunLine[]> {
+  const lines = await storage.getPayrollRunLines(runId);
+  await storage.updatePayrollRunTotals(runId, {
+    totalAmount: roundCents(lines.reduce((sum, l) => sum + l.totalAmount, 0)),
+    memberCount: lines.length,
+  });
+  return lines;
+}
+
+// ==================== Runs ====================
+
+export interface PayrollRunDetail {
+  run: PayrollRun;
+  lines: PayrollRunLine[];
+}
+
+export async function getPayrollRunDetail(id: number): Promise<PayrollRunDetail | undefined> {
+  const run = await storage.getPayrollRun(id);
+  if (!run) return undefined;
+  return { run, lines: await storage.getPayrollRunLines(id) };
+}
+
+/** Recompute a draft's lines from current rates, tasks and time entries, keeping adjustments */
+export async function recalculatePayrollRun(id: number): Promise<PayrollResult<PayrollRunDetail>> {
+  const run = await storage.getPayrollRun(id);
+  if (!run) return fail("not_found", "Payroll run not found");
+  if (run.status !== "draft") return fail("conflict", `Payroll run is ${run.status}; only drafts can be recalculated`);
+
+  const adjustmentsByMember = new Map((await storage.getPayrollRunLines(id)).map(l => [l.memberId, l.adjustments ?? []]));
+  const inputs = await loadInputs(run);
+  const lines: InsertPayrollRunLine[] = [];
+  for (const member of await eligibleMembers(run)) {
+    lines.push(await computeLine(run, member, inputs, adjustmentsByMember.get(member.id) ?? []));
+  }
+  await storage.replacePayrollRunLines(id, lines);
+  const saved = await updateTotals(id);
+  return { ok: true, value: { run: (await storage.getPayrollRun(id)) ?? run, lines: saved } };
+}
+
+export async function createPayrollRun(
+  input: { payFrequency: PayFrequency; periodStart?: Date; notes?: string | null },
+  userId: string | null,
+): Promise<PayrollResult<PayrollRunDetail>> {
+  const now = new Date();
+  const period = input.periodStart
+    ? periodContaining(input.payFrequency, input.periodStart)
+    : latestCompletedPeriod(input.payFrequency, now);
+  if (period.start > now) return fail("invalid", "The pay period hasn't started yet");
+
+  const run = await storage.createPayrollRun({
+    payFrequency: input.payFrequency,
+    periodStart: period.start,
+    periodEnd: period.end,
+    notes: input.notes ?? null,
+    createdBy: userId,
+  });
+  if (!run) return fail("conflict", `There is already a ${input.payFrequency} payroll run for ${describePeriod({ periodStart: period.start, periodEnd: period.end })}`);
+
+  console.log(`[Payroll] Created ${run.payFrequency} run #${run.id} for ${describePeriod(run)}`);
+  return recalculatePayrollRun(run.id);
+}
+
+async function requireDraftLine(lineId: number): Promise<PayrollResult<PayrollRunLine>> {
+  const line = await storage.getPayrollRunLine(lineId);
+  if (!line) return fail("not_found", "Payroll line not found");
+  const run = await storage.getPayrollRun(line.runId);
+  if (run?.status !== "draft") return fail("conflict", "Only lines of draft payroll runs can be adjusted");
+  return { ok: true, value: line };
+}
+
+export async function addPayrollAdjustment(
+  lineId: number,
+  input: { kind: PayrollAdjustmentKind; amount: number; reason: string },
+  userId: string,
+): Promise<PayrollResult<PayrollRunLine>> {
+  const found = await requireDraftLine(lineId);
+  if (!found.ok) return found;
+  const line = found.value;
+
+  // Bonuses always add and deductions always subtract, whichever sign was entered
+  const amount = input.kind === "bonus" ? Math.abs(input.amount)
+    : input.kind === "deduction" ? -Math.abs(input.amount)
+    : input.amount;
+  const adjustments: PayrollAdjustment[] = [...(line.adjustments ?? []), {
+    id: randomUUID(),
+    kind: input.kind,
+    amount: roundCents(amount),
+    reason: input.reason,
+    createdBy: userId,
+    createdAt: new Date().toISOString(),
+  }];
+  const totalAmount = lineTotal(line.baseAmount, adjustments);
+  if (totalAmount < 0) return fail("invalid", `The line total can't go below zero (would be ${formatUsd(totalAmount)})`);
+
+  const updated = await storage.updatePayrollRunLine(lineId, { adjustments, totalAmount });
+  await updateTotals(line.runId);
+  return updated ? { ok: true, value: updated } : fail("not_found", "Payroll line not found");
+}
+
+export async function removePayrollAdjustment(lineId: number, adjustmentId: string): Promise<PayrollResult<PayrollRunLine>> {
+  const found = await requireDraftLine(lineId);
+  if (!found.ok) return found;
+  const line = found.value;
+  const adjustments = (line.adjustments ?? []).filter(a => a.id !== adjustmentId);
+  if (adjustments.length === (line.adjustments ?? []).length) return fail("not_found", "Adjustment not found");
+  const totalAmount = lineTotal(line.baseAmount, adjustments);
+  if (totalAmount < 0) return fail("invalid", `The line total can't go below zero (would be ${formatUsd(totalAmount)})`);
+
+  const updated = await storage.updatePayrollRunLine(lineId, { adjustments, totalAmount });
+  await updateTotals(line.runId);
+  return updated ? { ok: true, value: updated } : fail("not_found", "Payroll line not found");
+}
+
+export async function approvePayrollRun(id: number, userId: string): Promise<PayrollResult<PayrollRunDetail>> {
+  // Claim the draft first so a run is only turned into payments once
+  const run = await storage.transitionPayrollRun(id, ["draft"], { status: "approved", approvedBy: userId, approvedAt: new Date() });
+  if (!run) {
+    const existing = await storage.getPayrollRun(id);
+    return existing ? fail("conflict", `Payroll run is ${existing.status}; only drafts can be approved`) : fail("not_found", "Payroll run not found");
+  }
+
+  for (const line of await storage.getPayrollRunLines(id)) {
+    if (line.totalAmount <= 0) continue;
+    const payment = await storage.createTeamPayment({
+      memberId: line.memberId,
+      amount: line.totalAmount,
+      currency: run.currency ?? "USDC",
+      paymentMethod: line.paymentMethod,
+      description: `Payroll run #${run.id} (${run.payFrequency}, ${describePeriod(run)})`,
+      periodStart: run.periodStart,
+      periodEnd: run.periodEnd,
+      status: "pending",
+      processedBy: userId,
+    });
+    await storage.updatePayrollRunLine(line.id, { teamPaymentId: payment.id });
+  }
+  console.log(`[Payroll] Run #${id} approved by ${userId}: ${formatUsd(run.totalAmount ?? 0)} to ${run.memberCount} member(s)`);
+  return { ok: true, value: (await getPayrollRunDetail(id))! };
+}
+
+async function runPayments(lines: PayrollRunLine[]): Promise<TeamPaymentHistory[]> {
+  const payments: TeamPaymentHistory[] = [];
+  for (const line of lines) {
+    if (!line.teamPaymentId) continue;
+    const payment = await storage.getTeamPayment(line.teamPaymentId);
+    if (payment) payments.push(payment);
+  }
+  return payments;
+}
+
+// Payments waiting in a Safe payout batch are paid through the Safe, not by hand
+async function batchedPayment(payments: TeamPaymentHistory[]): Promise<string | null> {
+  const pending = payments.filter(p => p.status === "pending").map(p => p.id);
+  const [batched] = await storage.getDaoPayoutItemsForSources("team_payment", pending);
+  return batched ? `Payroll payments are in payout batch #${batched.batchId}; pay it through the Safe or cancel the batch first` : null;
+}
+
+export async function markPayrollRunPaid(
+  id: number,
+  userId: string,
+  input: { txHash?: string | null; paidAt?: Date },
+): Promise<PayrollResult<PayrollRunDetail>> {
+  const run = await storage.getPayrollRun(id);
+  if (!run) return fail("not_found", "Payroll run not found");
+  if (run.status !== "approved") return fail("conflict", `Payroll run is ${run.status}; only approved runs can be marked paid`);
+
+  const payments = await runPayments(await storage.getPayrollRunLines(id));
+  const batchError = await batchedPayment(payments);
+  if (batchError) return fail("conflict", batchError);
+
+  const paidAt = input.paidAt ?? new Date();
+  const paid = await storage.transitionPayrollRun(id, ["approved"], { status: "paid", paidBy: userId, paidAt });
+  if (!paid) return fail("conflict", "Payroll run changed while it was being marked paid");
+  for (const payment of payments) {
+    if (payment.status !== "pending") continue;
+    await storage.updateTeamPayment(payment.id, { status: "completed", txHash: input.txHash ?? null, paymentDate: paidAt });
+  }
+  console.log(`[Payroll] Run #${id} marked paid by ${userId}`);
+  return { ok: true, value: (await getPayrollRunDetail(id))! };
+}
+
+export async function cancelPayrollRun(id: number): Promise<PayrollResult<PayrollRunDetail>> {
+  const run = await storage.getPayrollRun(id);
+  if (!run) return fail("not_found", "Payroll run not found");
+  if (run.status !== "draft" && run.status !== "approved") return fail("conflict", `Payroll run is ${run.status} and can't be cancelled`);
+
+  const payments = await runPayments(await storage.getPayrollRunLines(id));
+  if (payments.some(p => p.status !== "pending")) return fail("conflict", "Some of this run's payments have already been made");
+  const batchError = await batchedPayment(payments);
+  if (batchError) return fail("conflict", batchError);
+
+  const cancelled = await storage.transitionPayrollRun(id, [run.status], { status: "cancelled", cancelledAt: new Date() });
+  if (!cancelled) return fail("conflict", "Payroll run changed while it was being cancelled");
+  for (const payment of payments) {
+    await storage.deleteTeamPayment(payment.id);
+  }
+  return { ok: true, value: (await getPayrollRunDetail(id))! };
+}
+
+/** Approved runs whose payments have all completed (e.g. through a Safe batch) become paid */
+export async function settlePayrollRuns(): Promise<number> {
+  let settled = 0;
+  for (const run of await storage.getPayrollRuns("approved")) {
+    const lines = await storage.getPayrollRunLines(run.id);
+    const payments = await runPayments(lines);
+    if (payments.length < lines.filter(l => l.teamPaymentId).length) continue;
+    if (payments.some(p => p.status !== "completed")) continue;
+    const paidAt = payments.reduce<Date | null>((latest, p) => !latest || (p.paymentDate && p.paymentDate > latest) ? p.paymentDate : latest, null);
+    if (await storage.transitionPayrollRun(run.id, ["approved"], { status: "paid", paidAt: paidAt ?? new Date() })) settled++;
+  }
+  return settled;
+}
+
+/** Daily job: draft runs for each frequency's latest completed period, then settle paid runs */
+export async function generateDuePayrollRuns(now = new Date()): Promise<{ created: number[]; settled: number }> {
+  const created: number[] = [];
+  const members = (await storage.getInternalTeamMembers()).filter(m => (m.status ?? "active") === "active");
+  for (const payFrequency of payFrequencies) {
+    if (!members.some(m => (m.payFrequency ?? "weekly") === payFrequency)) continue;
+    const period = latestCompletedPeriod(payFrequency, now);
+    const result = await createPayrollRun({ payFrequency, periodStart: period.start }, null);
+    // A conflict means the period already has a run
+    if (result.ok) created.push(result.value.run.id);
+  }
+  const settled = await settlePayrollRuns();
+  return { created, settled };
+}
+
+// ==================== Exports ====================
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function adjustmentTotal(line: PayrollRunLine, kinds: PayrollAdjustmentKind[]): number {
+  return roundCents((line.adjustments ?? []).filter(a => kinds.includes(a.kind)).reduce((sum, a) => sum + a.amount, 0));
+}
+
+export function payrollRunCsv(detail: PayrollRunDetail): string {
+  const { run, lines } = detail;
+  const headers = ["Member", "Frequency", "Period Start", "Period End", "Rate", "Calculation", "Hours Logged", "Tasks", "Base", "Bonuses", "Deductions", "Adjustments", "Total", "Currency", "Payment Method", "Wallet", "Chain", "Status"];
+  const rows = lines.map(line => [
+    line.memberName,
+    line.payFrequency,
+    toDay(run.periodStart),
+    toDay(new Date(run.periodEnd.getTime() - DAY_MS)),
+    line.payRate.toFixed(2),
+    line.calculation,
+    line.hoursLogged ?? 0,
+    (line.taskIds ?? []).length,
+    line.baseAmount.toFixed(2),
+    adjustmentTotal(line, ["bonus"]).toFixed(2),
+    adjustmentTotal(line, ["deduction"]).toFixed(2),
+    adjustmentTotal(line, ["adjustment"]).toFixed(2),
+    line.totalAmount.toFixed(2),
+    run.currency,
+    line.paymentMethod,
+    line.walletAddress,
+    line.walletChain,
+    run.status,
+  ].map(csvCell).join(","));
+  return [headers.join(","), ...rows].join("\n");
+}
+
+export interface PayrollStatement {
+  member: Pick<InternalTeamMember, "id" | "name" | "nickname" | "payFrequency" | "payRate" | "walletAddress" | "paymentMethod">;
+  from: string | null;
+  to: string | null;
+  entries: {
+    runId: number;
+    runStatus: PayrollRun["status"];
+    periodStart: Date;
+    periodEnd: Date;
+    calculation: string | null;
+    hoursLogged: number;
+    taskCount: number;
+    baseAmount: number;
+    adjustments: PayrollAdjustment[];
+    totalAmount: number;
+    paymentStatus: string | null;
+    paymentDate: Date | null;
+    txHash: string | null;
+  }[];
+  otherPayments: TeamPaymentHistory[]; // Team payments recorded outside payroll runs
+  totals: { earned: number; paid: number; outstanding: number };
+}
+
+/** Everything a member earned in payroll runs overlapping [from, to), with payment status */
+export async function getPayrollStatement(memberId: number, from?: Date, to?: Date): Promise<PayrollStatement | undefined> {
+  const member = await storage.getInternalTeamMember(memberId);
+  if (!member) return undefined;
+
+  const rows = await storage.getPayrollLinesForMember(memberId, { from, to });
+  const linkedPaymentIds = new Set<number>();
+  const entries: PayrollStatement["entries"] = [];
+  for (const { line, run } of rows) {
+    const payment = line.teamPaymentId ? await storage.getTeamPayment(line.teamPaymentId) : undefined;
+    if (payment) linkedPaymentIds.add(payment.id);
+    entries.push({
+      runId: run.id,
+      runStatus: run.status,
+      periodStart: run.periodStart,
+      periodEnd: run.periodEnd,
+      calculation: line.calculation,
+      hoursLogged: line.hoursLogged ?? 0,
+      taskCount: (line.taskIds ?? []).length,
+      baseAmount: line.baseAmount,
+      adjustments: line.adjustments ?? [],
+      totalAmount: line.totalAmount,
+      paymentStatus: payment?.status ?? null,
+      paymentDate: payment?.status === "completed" ? payment.paymentDate : null,
+      txHash: payment?.txHash ?? null,
+    });
+  }
+
+  const otherPayments = (await storage.getTeamPaymentHistory(memberId)).filter(p =>
+    !linkedPaymentIds.has(p.id) &&
+    !p.description?.startsWith("Payroll run #") &&
+    (!from || (p.paymentDate && p.paymentDate >= from)) &&
+    (!to || (p.paymentDate && p.paymentDate < to)));
+
+  const earned = roundCents(entries.filter(e => e.runStatus !== "draft").reduce((sum, e) => sum + e.totalAmount, 0));
+  const paid = roundCents(entries.filter(e => e.paymentStatus === "completed").reduce((sum, e) => sum + e.totalAmount, 0));
+  return {
+    member: {
+      id: member.id,
+      name: member.name,
+      nickname: member.nickname,
+      payFrequency: member.payFrequency,
+      payRate: member.payRate,
+      walletAddress: member.walletAddress,
+      paymentMethod: member.paymentMethod,
+    },
+    from: from ? toDay(from) : null,
+    to: to ? toDay(to) : null,
+    entries,
+    otherPayments,
+    totals: { earned, paid, outstanding: roundCents(earned - paid) },
+  };
+}
+
+export function payrollStatementCsv(statement: PayrollStatement): string {
+  const headers = ["Run", "Period Start", "Period End", "Calculation", "Hours Logged", "Tasks", "Base", "Adjustments", "Total", "Run Status", "Payment Status", "Paid On", "Tx Hash"];
+  const rows = statement.entries.map(entry => [
+    `#${entry.runId}`,
+    toDay(entry.periodStart),
+    toDay(new Date(entry.periodEnd.getTime() - DAY_MS)),
+    entry.calculation,
+    entry.hoursLogged,
+    entry.taskCount,
+    entry.baseAmount.toFixed(2),
+    entry.adjustments.map(a => `${a.kind} ${a.amount.toFixed(2)}: ${a.reason}`).join("; "),
+    entry.totalAmount.toFixed(2),
+    entry.runStatus,
+    entry.paymentStatus,
+    entry.paymentDate ? toDay(entry.paymentDate) : "",
+    entry.txHash,
+  ].map(csvCell).join(","));
+  return [headers.join(","), ...rows].join("\n");
+}
@@ -0,0 +1,166 @@
+/**
+ * Minimal PDF writer for generated documents (invoices, statements).
+ *
+ * Produces PDF 1.4 with the standard Helvetica fonts, so nothing is embedded and the
+ * output stays small. It supports positioned text (left/right aligned), horizontal rules
+ * and filled rectangles on A4 pages; coordinates are in points from the top-left corner.
+ * Text is encoded as WinAnsi: currency symbols it lacks are written as their ISO codes
+ * (₹1,000.00 becomes INR 1,000.00) and any other character it can't encode becomes "?".
+ */
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+  color?: [number, number, number]; // RGB, 0-1
+}
+
+// Helvetica advance widths (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Bold glyphs run slightly wider; close enough for right-aligning amounts
+const BOLD_WIDTH_FACTOR = 1.06;
+
+// WinAnsi places these in 128-159, where Latin-1 has control characters
+const WIN_ANSI_CODES: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "‰": 0x89, "‹": 0x8b,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99, "›": 0x9b,
+};
+
+// Currency symbols Helvetica has no glyph for
+const CURRENCY_CODES: Record<string, string> = {
+  "₹": "INR ", "₩": "KRW ", "₽": "RUB ", "₺": "TRY ", "₦": "NGN ", "₱": "PHP ", "₴": "UAH ",
+  "₪": "ILS ", "₫": "VND ", "₭": "LAK ", "₮": "MNT ", "₲": "PYG ", "₵": "GHS ", "₸": "KZT ", "₼": "AZN ", "₾": "GEL ", "₿": "BTC ",
+};
+
+// The text as WinAnsi code points, one character per byte
+function toWinAnsi(text: string): string {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const code = text.charCodeAt(i);
+    if (code < 32) out += " ";
+    else if (WIN_ANSI_CODES[ch] !== undefined) out += String.fromCharCode(WIN_ANSI_CODES[ch]);
+    else if (CURRENCY_CODES[ch] !== undefined) out += CURRENCY_CODES[ch];
+    else if (code > 255 || (code >= 128 && code < 160)) out += "?";
+    else out += ch;
+  }
+  return out;
+}
+
+export function measurePdfText(text: string, size: number, bold = false): number {
+  const encoded = toWinAnsi(text);
+  let units = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+function encodeText(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, ch => "\\" + ch);
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+export class PdfWriter {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === "right" ? x - measurePdfText(text, size, bold) : x;
+    const [r, g, b] = options.color ?? [0, 0, 0];
+    this.current.push(
+      `BT ${num(r)} ${num(g)} ${num(b)} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(left)} ${num(PDF_PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y: number, x2: number, width = 0.5, gray = 0.75): void {
+    const py = num(PDF_PAGE_HEIGHT - y);
+    this.current.push(`${num(gray)} G ${num(width)} w ${num(x1)} ${py} m ${num(x2)} ${py} l S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray = 0.95): void {
+    this.current.push(`${num(gray)} g ${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  /** Break text into lines that fit `maxWidth` at the given size */
+  wrap(text: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measurePdfText(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1 catalog, 2 page tree, 3-4 fonts, then a page object and a content stream per page
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageCount} >>`);
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    this.pages.forEach((ops, i) => {
+      const content = ops.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let body = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(Buffer.byteLength(body, "latin1"));
+      body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, "latin1");
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(body, "latin1");
+  }
+}
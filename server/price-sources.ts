@@ -0,0 +1,181 @@
+import { storage } from "./storage";
+import { USD_CURRENCIES } from "./safe-payouts";
+import type { DaoTokenPrice, InsertDaoTokenPrice, TreasuryPriceSource } from "@shared/schema";
+
+/**
+ * Token price sources
+ *
+ * Treasury valuation asks each source in PRICE_SOURCES order for a token's USD price on a
+ * given day and takes the first answer:
+ *
+ * - stablecoin: USD-pegged tokens are worth 1.
+ * - feed: prices admins enter or import from CSV (dao_token_prices), keyed by symbol and
+ *   day. The latest price up to FEED_MAX_AGE_DAYS before the day is used, so a weekly feed
+ *   is enough. Works without network access.
+ * - safe_service: the fiat conversion the Safe Transaction Service reported with the
+ *   balance, only available for balances fetched live.
+ *
+ * Adding a source means implementing PriceSource and placing it in PRICE_SOURCES.
+ */
+
+export const FEED_MAX_AGE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PriceRequest {
+  symbol: string;
+  observedUsdPrice?: number | null; // Reported alongside a live balance, if any
+}
+
+export interface PriceQuote {
+  usdPrice: number;
+  source: TreasuryPriceSource;
+  priceDate: string;
+}
+
+export interface PriceSource {
+  name: string;
+  // Prices for the requested tokens on `date` (YYYY-MM-DD), keyed by uppercase symbol; unknown tokens are left out
+  getPrices(requests: PriceRequest[], date: string): Promise<Map<string, PriceQuote>>;
+}
+
+export type PriceResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "invalid"; error: string };
+
+/** UTC calendar day of a date, as YYYY-MM-DD */
+export function toPriceDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, days: number): string {
+  return toPriceDate(new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS));
+}
+
+const stablecoinSource: PriceSource = {
+  name: "stablecoin",
+  async getPrices(requests, date) {
+    const quotes = new Map<string, PriceQuote>();
+    for (const request of requests) {
+      const symbol = request.symbol.toUpperCase();
+      if (USD_CURRENCIES.includes(symbol)) quotes.set(symbol, { usdPrice: 1, source: "stablecoin", priceDate: date });
+    }
+    return quotes;
+  },
+};
+
+const feedSource: PriceSource = {
+  name: "feed",
+  async getPrices(requests, date) {
+    const symbols = Array.from(new Set(requests.map(r => r.symbol.toUpperCase())));
+    const rows = await storage.getDaoTokenPrices({ symbols, from: addDays(date, -FEED_MAX_AGE_DAYS), to: date });
+    const quotes = new Map<string, PriceQuote>();
+    // Rows come ordered by date, so the last one per symbol wins
+    for (const row of rows) {
+      quotes.set(row.tokenSymbol, { usdPrice: row.usdPrice, source: row.source, priceDate: row.priceDate });
+    }
+    return quotes;
+  },
+};
+
+const safeServiceSource: PriceSource = {
+  name: "safe_service",
+  async getPrices(requests, date) {
+    const quotes = new Map<string, PriceQuote>();
+    for (const request of requests) {
+      if (request.observedUsdPrice != null && request.observedUsdPrice > 0) {
+        quotes.set(request.symbol.toUpperCase(), { usdPrice: request.observedUsdPrice, source: "safe_service", priceDate: date });
+      }
+    }
+    return quotes;
+  },
+};
+
+export const PRICE_SOURCES: PriceSource[] = [stablecoinSource, feedSource, safeServiceSource];
+
+/** USD prices for the tokens on `date`, keyed by uppercase symbol; tokens no source knows are missing */
+export async function resolvePrices(requests: PriceRequest[], date: string): Promise<Map<string, PriceQuote>> {
+  const resolved = new Map<string, PriceQuote>();
+  let pending = requests;
+  for (const source of PRICE_SOURCES) {
+    if (pending.length === 0) break;
+    const quotes = await source.getPrices(pending, date);
+    Array.from(quotes.entries()).forEach(([symbol, quote]) => {
+      if (!resolved.has(symbol)) resolved.set(symbol, quote);
+    });
+    pending = pending.filter(r => !resolved.has(r.symbol.toUpperCase()));
+  }
+  return resolved;
+}
+
+// ==================== Price feed ====================
+
+export async function setManualPrice(
+  input: { tokenSymbol: string; priceDate: string; usdPrice: number },
+  userId: string,
+): Promise<DaoTokenPrice> {
+  const [price] = await storage.upsertDaoTokenPrices([{
+    tokenSymbol: input.tokenSymbol.trim().toUpperCase(),
+    priceDate: input.priceDate,
+    usdPrice: input.usdPrice,
+    source: "manual",
+    createdBy: userId,
+  }]);
+  return price;
+}
+
+export interface PriceImportResult {
+  imported: DaoTokenPrice[];
+  errors: { line: number; error: string }[];
+}
+
+const SYMBOL_COLUMNS = ["symbol", "token", "token_symbol"];
+const DATE_COLUMNS = ["date", "day", "price_date"];
+const PRICE_COLUMNS = ["price", "usd", "usd_price", "close"];
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map(cell => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+}
+
+/**
+ * Import a price CSV with a header row naming symbol, date (YYYY-MM-DD) and USD price columns,
+ * e.g. "symbol,date,usd_price". Rows that don't parse are reported and skipped; a price for a
+ * symbol and day that already exists is replaced.
+ */
+export async function importPriceCsv(content: string, userId: string): Promise<PriceResult<PriceImportResult>> {
+  const lines = content.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? "").map(h => h.toLowerCase());
+  const symbolIndex = header.findIndex(h => SYMBOL_COLUMNS.includes(h));
+  const dateIndex = header.findIndex(h => DATE_COLUMNS.includes(h));
+  const priceIndex = header.findIndex(h => PRICE_COLUMNS.includes(h));
+  if (symbolIndex < 0 || dateIndex < 0 || priceIndex < 0) {
+    return { ok: false, code: "invalid", error: "The first row must name symbol, date and price columns (e.g. symbol,date,usd_price)" };
+  }
+
+  const rows = new Map<string, InsertDaoTokenPrice>();
+  const errors: { line: number; error: string }[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = splitCsvLine(line);
+    const symbol = (cells[symbolIndex] ?? "").toUpperCase();
+    const date = cells[dateIndex] ?? "";
+    const price = parseFloat((cells[priceIndex] ?? "").replace(/[$\s]/g, ""));
+    if (!symbol || symbol.length > 20) {
+      errors.push({ line: i + 2, error: "Missing or invalid symbol" });
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      errors.push({ line: i + 2, error: `Invalid date "${date}"; use YYYY-MM-DD` });
+    } else if (!isFinite(price) || price <= 0) {
+      errors.push({ line: i + 2, error: "Price must be a positive number" });
+    } else {
+      // A later row for the same symbol and day replaces an earlier one
+      rows.set(`${symbol}:${date}`, { tokenSymbol: symbol, priceDate: date, usdPrice: price, source: "csv", createdBy: userId });
+    }
+  });
+  if (rows.size === 0 && errors.length === 0) {
+    return { ok: false, code: "invalid", error: "The CSV has no price rows" };
+  }
+
+  const imported = await storage.upsertDaoTokenPrices(Array.from(rows.values()));
+  console.log(`[Prices] Imported ${imported.length} price(s) from CSV, ${errors.length} row(s) skipped`);
+  return { ok: true, value: { imported, errors } };
+}
@@ -0,0 +1,236 @@
+import { storage } from "./storage";
+import type { ContentTask, RecurringTask } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on periods materialized per run so a long-paused schedule can't flood the board
+const MAX_CATCH_UP_OCCURRENCES = 52;
+
+export interface RecurringGenerationResult {
+  recurringTaskId: number;
+  created: ContentTask[];
+  skipped: string[]; // occurrence dates that had already been generated
+  nextGenerationAt: Date | null;
+}
+
+// Normalize a date to midnight UTC so schedules don't drift with server timezone
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function formatOccurrenceDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Monthly schedules clamp to the last day for short months (e.g. 31st -> Feb 28th)
+function monthlyOccurrence(year: number, month: number, dayOfMonth: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(dayOfMonth, lastDay)));
+}
+
+// The date the schedule is anchored to; biweekly cadence counts from here
+function getScheduleAnchor(task: RecurringTask): Date {
+  return startOfUtcDay(task.createdAt ? new Date(task.createdAt) : new Date());
+}
+
+function getWeekday(task: RecurringTask): number {
+  if (task.dayOfWeek !== null && task.dayOfWeek !== undefined) {
+    return task.dayOfWeek;
+  }
+  return getScheduleAnchor(task).getUTCDay();
+}
+
+/**
+ * Returns the first occurrence of the schedule on or after the given date
+ */
+export function getOccurrenceOnOrAfter(task: RecurringTask, from: Date): Date | null {
+  const day = startOfUtcDay(from);
+
+  switch (task.frequency) {
+    case "daily":
+      return day;
+    case "weekly": {
+      const offset = (getWeekday(task) - day.getUTCDay() + 7) % 7;
+      return addUtcDays(day, offset);
+    }
+    case "biweekly": {
+      const anchor = getScheduleAnchor(task);
+      const firstOffset = (getWeekday(task) - anchor.getUTCDay() + 7) % 7;
+      const firstOccurrence = addUtcDays(anchor, firstOffset);
+      if (day <= firstOccurrence) return firstOccurrence;
+      const periods = Math.ceil((day.getTime() - firstOccurrence.getTime()) / (14 * DAY_MS));
+      return addUtcDays(firstOccurrence, periods * 14);
+    }
+    case "monthly": {
+      const dayOfMonth = task.dayOfMonth || getScheduleAnchor(task).getUTCDate();
+      const candidate = monthlyOccurrence(day.getUTCFullYear(), day.getUTCMonth(), dayOfMonth);
+      if (candidate >= day) return candidate;
+      return monthlyOccurrence(day.getUTCFullYear(), day.getUTCMonth() + 1, dayOfMonth);
+    }
+    default:
+      return null;
+  }
+}
+
+export function getOccurrenceAfter(task: RecurringTask, date: Date): Date | null {
+  return getOccurrenceOnOrAfter(task, addUtcDays(startOfUtcDay(date), 1));
+}
+
+/**
+ * Preview the next N occurrences without generating anything
+ */
+export function previewOccurrences(task: RecurringTask, count: number, from: Date = new Date()): Date[] {
+  const occurrences: Date[] = [];
+  let next = task.nextGenerationAt && new Date(task.nextGenerationAt) > from
+    ? startOfUtcDay(new Date(task.nextGenerationAt))
+    : getOccurrenceOnOrAfter(task, from);
+
+  while (next && occurrences.length < count) {
+    occurrences.push(next);
+    next = getOccurrenceAfter(task, next);
+  }
+  return occurrences;
+}
+
+// Create the content task for one occurrence, applying the linked template and its subtasks
+async function materializeOccurrence(task: RecurringTask, occurrenceDate: string): Promise<ContentTask> {
+  const template = task.templateId ? await storage.getTaskTemplate(task.templateId) : undefined;
+
+  const contentTask = await storage.createContentTask({
+    description: task.description || template?.description || task.name,
+    status: "TO BE STARTED",
+    assignedTo: task.assignedTo || undefined,
+    dueDate: occurrenceDate,
+    client: task.client || template?.defaultClient || undefined,
+    clientType: "external",
+    priority: task.priority || template?.defaultPriority || "medium",
+    notes: `Generated from recurring task "${task.name}"`,
+  });
+
+  try {
+    if (template) {
+      const templateSubtasks = await storage.getTemplateSubtasks(template.id);
+      for (const sub of templateSubtasks) {
+        await storage.createSubtask({
+          taskId: contentTask.id,
+          title: sub.title,
+          completed: false,
+          order: sub.order,
+        });
+      }
+    }
+
+    await storage.createActivityLog({
+      taskId: contentTask.id,
+      userId: null,
+      action: "created_from_recurring",
+      details: { recurringTaskId: task.id, occurrenceDate, templateId: template?.id ?? null },
+    });
+  } catch (error) {
+    // Don't leave a half-built task behind for the retry to duplicate
+    await storage.deleteContentTask(contentTask.id);
+    throw error;
+  }
+
+  return contentTask;
+}
+
+async function generateOccurrence(
+  task: RecurringTask,
+  occurrence: Date,
+  result: RecurringGenerationResult,
+): Promise<void> {
+  const occurrenceDate = formatOccurrenceDate(occurrence);
+  const claimed = await storage.claimRecurringTaskOccurrence(task.id, occurrenceDate);
+  if (!claimed) {
+    result.skipped.push(occurrenceDate);
+    return;
+  }
+  let contentTask: ContentTask;
+  try {
+    contentTask = await materializeOccurrence(task, occurrenceDate);
+  } catch (error) {
+    await storage.releaseRecurringTaskOccurrence(claimed.id);
+    throw error;
+  }
+  await storage.setRecurringTaskOccurrenceTask(claimed.id, contentTask.id);
+  result.created.push(contentTask);
+}
+
+/**
+ * Generate every occurrence of a recurring task that is due as of `now`,
+ * catching up missed periods, then advance lastGeneratedAt/nextGenerationAt.
+ *
+ * With `force`, the next upcoming occurrence is generated early when nothing is due.
+ */
+export async function generateRecurringTask(
+  task: RecurringTask,
+  options: { now?: Date; force?: boolean } = {},
+): Promise<RecurringGenerationResult> {
+  const now = options.now ?? new Date();
+  const result: RecurringGenerationResult = {
+    recurringTaskId: task.id,
+    created: [],
+    skipped: [],
+    nextGenerationAt: task.nextGenerationAt ? new Date(task.nextGenerationAt) : null,
+  };
+
+  // Schedules from before nextGenerationAt was tracked start from today rather than
+  // backfilling everything since they were created
+  let next = task.nextGenerationAt
+    ? startOfUtcDay(new Date(task.nextGenerationAt))
+    : getOccurrenceOnOrAfter(task, startOfUtcDay(now));
+  if (!next) {
+    console.warn(`[Recurring] Unknown frequency "${task.frequency}" for recurring task ${task.id}`);
+    return result;
+  }
+
+  let processed = 0;
+  while (next && next <= now && processed < MAX_CATCH_UP_OCCURRENCES) {
+    await generateOccurrence(task, next, result);
+    next = getOccurrenceAfter(task, next);
+    processed++;
+  }
+
+  if (processed === 0 && options.force && next) {
+    await generateOccurrence(task, next, result);
+    next = getOccurrenceAfter(task, next);
+  }
+
+  if (processed >= MAX_CATCH_UP_OCCURRENCES && next && next <= now) {
+    // Skip whatever is still outstanding rather than backfilling indefinitely
+    next = getOccurrenceAfter(task, now);
+  }
+
+  result.nextGenerationAt = next;
+  await storage.markRecurringTaskGenerated(task.id, now, next);
+  return result;
+}
+
+/**
+ * Process all active recurring tasks whose nextGenerationAt has passed
+ */
+export async function processDueRecurringTasks(): Promise<{ processed: number; created: number; errors: number }> {
+  const dueTasks = await storage.getDueRecurringTasks();
+  let created = 0;
+  let errors = 0;
+
+  for (const task of dueTasks) {
+    try {
+      const result = await generateRecurringTask(task);
+      created += result.created.length;
+    } catch (error) {
+      console.error(`[Recurring] Failed to generate recurring task ${task.id}:`, error);
+      errors++;
+    }
+  }
+
+  if (created > 0) {
+    console.log(`[Recurring] Generated ${created} task(s) from ${dueTasks.length} recurring schedule(s)`);
+  }
+  return { processed: dueTasks.length, created, errors };
+}
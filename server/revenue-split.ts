@@ -0,0 +1,393 @@
+import { storage } from "./storage";
+import type {
+  AttributionRoleSlot,
+  DaoInvoice,
+  DaoProject,
+  DaoRevenueAttribution,
+  DaoRevenueSplitPolicy,
+  InsertDaoRevenueAttribution,
+  InsertDaoRevenueSplitPolicy,
+} from "@shared/schema";
+
+/**
+ * Revenue split policies
+ *
+ * A policy sets the treasury share of each paid invoice, the role slot shares of a
+ * project's amount, and performance multipliers per DAO role. Policies are versioned under
+ * a key: publishing a change creates the next version, which closes the previous one at its
+ * effectiveFrom. A project pins one version when it is created (older projects pin the
+ * version that was in effect at their creation the first time a split is needed), so a
+ * new version never changes the terms of a deal already signed.
+ */
+
+export const DEFAULT_SPLIT_POLICY_KEY = "standard";
+
+// The terms used before policies existed; they seed the default policy
+const LEGACY_SPLIT_TERMS = {
+  treasuryPercent: 15,
+  leadPercent: 30,
+  pmPercent: 15,
+  corePercent: 40,
+  supportPercent: 10,
+  overheadPercent: 5,
+};
+
+export type RevenueSplitResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): RevenueSplitResult<T> {
+  return { ok: false, code, error };
+}
+
+export function describeSplitPolicy(policy: DaoRevenueSplitPolicy): string {
+  return `${policy.name} (${policy.policyKey} v${policy.version})`;
+}
+
+function percentOf(amount: number, percent: number): number {
+  return Math.round(amount * (percent / 100));
+}
+
+function treasuryContributionFor(finalAmount: number | null, policy: DaoRevenueSplitPolicy): number | null {
+  return finalAmount === null ? null : percentOf(finalAmount, policy.treasuryPercent);
+}
+
+function roleMultiplier(policy: DaoRevenueSplitPolicy, daoRoleId: number | undefined): number {
+  if (daoRoleId === undefined) return 1;
+  return policy.roleMultipliers?.[String(daoRoleId)] ?? 1;
+}
+
+async function ensureDefaultSplitPolicy(): Promise<void> {
+  if (await storage.getLatestDaoRevenueSplitPolicy(DEFAULT_SPLIT_POLICY_KEY)) return;
+  const seeded = await storage.createDaoRevenueSplitPolicyVersion({
+    policyKey: DEFAULT_SPLIT_POLICY_KEY,
+    name: "Standard split",
+    description: "Default terms for projects that don't pin another policy",
+    ...LEGACY_SPLIT_TERMS,
+    roleMultipliers: {},
+    effectiveFrom: new Date(0),
+  }, null);
+  if (seeded) console.log(`[RevenueSplit] Seeded ${describeSplitPolicy(seeded)}`);
+}
+
+export async function getSplitPolicies(policyKey?: string): Promise<DaoRevenueSplitPolicy[]> {
+  await ensureDefaultSplitPolicy();
+  return storage.getDaoRevenueSplitPolicies(policyKey);
+}
+
+export async function getEffectiveSplitPolicy(
+  policyKey: string = DEFAULT_SPLIT_POLICY_KEY,
+  at: Date = new Date(),
+): Promise<DaoRevenueSplitPolicy | undefined> {
+  if (policyKey === DEFAULT_SPLIT_POLICY_KEY) await ensureDefaultSplitPolicy();
+  return storage.getEffectiveDaoRevenueSplitPolicy(policyKey, at);
+}
+
+/**
+ * Publish the next version of a policy (version 1 for a new key). Versions of a key take
+ * effect in order, so a version can't start before the latest existing one.
+ */
+export async function publishSplitPolicyVersion(
+  input: InsertDaoRevenueSplitPolicy,
+  createdBy: string,
+): Promise<RevenueSplitResult<DaoRevenueSplitPolicy>> {
+  if (input.policyKey === DEFAULT_SPLIT_POLICY_KEY) await ensureDefaultSplitPolicy();
+  const effectiveFrom = input.effectiveFrom ?? new Date();
+  const latest = await storage.getLatestDaoRevenueSplitPolicy(input.policyKey);
+  if (latest && effectiveFrom < latest.effectiveFrom) {
+    return fail("invalid", `A new version of "${input.policyKey}" can't take effect before version ${latest.version} (${latest.effectiveFrom.toISOString()})`);
+  }
+
+  const created = await storage.createDaoRevenueSplitPolicyVersion({ ...input, effectiveFrom }, createdBy);
+  if (!created) {
+    return fail("conflict", `Another version of "${input.policyKey}" was published at the same time; reload and try again`);
+  }
+  console.log(`[RevenueSplit] Published ${describeSplitPolicy(created)}, effective ${effectiveFrom.toISOString()}`);
+  return { ok: true, value: created };
+}
+
+/**
+ * Fields to set on a new project: the requested policy version, or the default policy in
+ * effect now.
+ */
+export async function getNewProjectSplitTerms(
+  splitPolicyId: number | null | undefined,
+  finalAmount: number | null | undefined,
+): Promise<RevenueSplitResult<{ splitPolicyId: number; treasuryContribution: number | null }>> {
+  const policy = splitPolicyId ? await storage.getDaoRevenueSplitPolicy(splitPolicyId) : await getEffectiveSplitPolicy();
+  if (!policy) {
+    return fail(splitPolicyId ? "invalid" : "not_found", splitPolicyId ? "Split policy not found" : "No default split policy is in effect");
+  }
+  return { ok: true, value: { splitPolicyId: policy.id, treasuryContribution: treasuryContributionFor(finalAmount ?? null, policy) } };
+}
+
+/**
+ * The policy a project is pinned to. Projects created before policies existed are pinned
+ * to the default policy in effect when they were created.
+ */
+export async function resolveProjectSplitPolicy(project: DaoProject): Promise<DaoRevenueSplitPolicy> {
+  if (project.splitPolicyId) {
+    const pinned = await storage.getDaoRevenueSplitPolicy(project.splitPolicyId);
+    if (pinned) return pinned;
+  }
+
+  const policy = await getEffectiveSplitPolicy(DEFAULT_SPLIT_POLICY_KEY, project.createdAt ?? new Date());
+  if (!policy) throw new Error(`No "${DEFAULT_SPLIT_POLICY_KEY}" split policy was in effect for project ${project.id}`);
+
+  const pinned = await storage.pinDaoProjectSplitPolicy(project.id, policy.id, treasuryContributionFor(project.finalAmount, policy));
+  if (!pinned) {
+    // Pinned by a concurrent request; use whatever it chose
+    const current = await storage.getDaoProject(project.id);
+    const chosen = current?.splitPolicyId ? await storage.getDaoRevenueSplitPolicy(current.splitPolicyId) : undefined;
+    if (chosen) return chosen;
+  }
+  console.log(`[RevenueSplit] Pinned project ${project.id} to ${describeSplitPolicy(policy)}`);
+  return policy;
+}
+
+/**
+ * Move a project to another policy version. Only allowed until the first invoice is paid,
+ * since payments have already been split under the pinned terms.
+ */
+export async function repinProjectSplitPolicy(projectId: number, splitPolicyId: number): Promise<RevenueSplitResult<DaoProject>> {
+  const project = await storage.getDaoProject(projectId);
+  if (!project) return fail("not_found", "Project not found");
+  const policy = await storage.getDaoRevenueSplitPolicy(splitPolicyId);
+  if (!policy) return fail("invalid", "Split policy not found");
+  if (project.splitPolicyId === policy.id) return { ok: true, value: project };
+  if (await storage.hasPaidDaoInvoices(projectId)) {
+    return fail("conflict", "The split policy can't change after an invoice has been paid");
+  }
+
+  const updated = await storage.updateDaoProject(projectId, {
+    splitPolicyId: policy.id,
+    treasuryContribution: treasuryContributionFor(project.finalAmount, policy),
+  });
+  if (!updated) return fail("not_found", "Project not found");
+  return { ok: true, value: updated };
+}
+
+/** Treasury contribution for a project's final amount under its pinned policy */
+export async function getProjectTreasuryContribution(project: DaoProject, finalAmount: number | null): Promise<number | null> {
+  return treasuryContributionFor(finalAmount, await resolveProjectSplitPolicy(project));
+}
+
+/**
+ * Fill in the policy-derived parts of an attribution: the policy it came from, the role
+ * multiplier of the member's DAO role (unless one is given) and the amount (unless given).
+ */
+export async function applySplitPolicyToAttribution(
+  project: DaoProject,
+  attribution: InsertDaoRevenueAttribution,
+): Promise<RevenueSplitResult<InsertDaoRevenueAttribution>> {
+  const membership = await storage.getDaoMembership(attribution.membershipId);
+  if (!membership) return fail("invalid", `DAO membership ${attribution.membershipId} not found`);
+  const policy = await resolveProjectSplitPolicy(project);
+
+  return {
+    ok: true,
+    value: {
+      ...attribution,
+      splitPolicyId: policy.id,
+      performanceMultiplier: attribution.performanceMultiplier ?? roleMultiplier(policy, membership.daoRoleId),
+      attributedAmount: attribution.attributedAmount ?? (project.finalAmount === null ? null : percentOf(project.finalAmount, attribution.percentAllocation)),
+    },
+  };
+}
+
+export interface AttributionTemplateInput {
+  leadId: number;
+  pmId: number;
+  coreContributors: number[];
+  supportContributors: number[];
+}
+
+/**
+ * Create the standard attributions for a project from its pinned policy: lead, PM, core
+ * and support shares (split evenly within a slot) and overhead, which goes to the lead.
+ * Slots the policy gives 0% are left out.
+ */
+export async function applyAttributionTemplate(
+  projectId: number,
+  input: AttributionTemplateInput,
+): Promise<RevenueSplitResult<DaoRevenueAttribution[]>> {
+  const project = await storage.getDaoProject(projectId);
+  if (!project) return fail("not_found", "Project not found");
+  if (!project.finalAmount) return fail("invalid", "Set the project's final amount before applying the split template");
+
+  const policy = await resolveProjectSplitPolicy(project);
+  const roleByMember = new Map<number, number>();
+  (await storage.getDaoMemberships()).forEach(m => roleByMember.set(m.id, m.daoRoleId));
+  const memberIds = [input.leadId, input.pmId, ...input.coreContributors, ...input.supportContributors];
+  const unknown = memberIds.find(id => !roleByMember.has(id));
+  if (unknown !== undefined) return fail("invalid", `DAO membership ${unknown} not found`);
+
+  const slots: { roleSlot: AttributionRoleSlot; membershipId: number; percent: number }[] = [
+    { roleSlot: "lead", membershipId: input.leadId, percent: policy.leadPercent },
+    { roleSlot: "pm", membershipId: input.pmId, percent: policy.pmPercent },
+    ...input.coreContributors.map(id => ({ roleSlot: "core" as const, membershipId: id, percent: policy.corePercent / input.coreContributors.length })),
+    ...input.supportContributors.map(id => ({ roleSlot: "support" as const, membershipId: id, percent: policy.supportPercent / input.supportContributors.length })),
+    { roleSlot: "overhead", membershipId: input.leadId, percent: policy.overheadPercent },
+  ];
+
+  const results: DaoRevenueAttribution[] = [];
+  for (const slot of slots.filter(s => s.percent > 0)) {
+    results.push(await storage.createDaoRevenueAttribution({
+      projectId,
+      membershipId: slot.membershipId,
+      roleSlot: slot.roleSlot,
+      percentAllocation: slot.percent,
+      attributedAmount: percentOf(project.finalAmount, slot.percent),
+      performanceMultiplier: roleMultiplier(policy, roleByMember.get(slot.membershipId)),
+      splitPolicyId: policy.id,
+    }));
+  }
+  return { ok: true, value: results };
+}
+
+export interface MemberRevenueCredit {
+  membershipId: number;
+  amount: number;
+}
+
+/**
+ * How much of a paid amount counts towards each member's cumulative revenue: their
+ * attribution percentages, or the pinned policy's lead and PM shares when the project has
+ * no attributions yet. Multipliers weight bonuses, not revenue, so they don't apply here.
+ */
+function memberRevenueCredits(
+  amount: number,
+  project: DaoProject,
+  policy: DaoRevenueSplitPolicy,
+  attributions: DaoRevenueAttribution[],
+): MemberRevenueCredit[] {
+  const shares = attributions.length > 0
+    ? attributions.map(a => ({ membershipId: a.membershipId, percent: a.percentAllocation }))
+    : [
+        { membershipId: project.leadMembershipId, percent: policy.leadPercent },
+        { membershipId: project.pmMembershipId, percent: policy.pmPercent },
+      ].filter((s): s is { membershipId: number; percent: number } => s.membershipId !== null);
+
+  const totals = new Map<number, number>();
+  shares.forEach(s => totals.set(s.membershipId, (totals.get(s.membershipId) ?? 0) + percentOf(amount, s.percent)));
+  return Array.from(totals.entries())
+    .map(([membershipId, credit]) => ({ membershipId, amount: credit }))
+    .filter(c => c.amount !== 0);
+}
+
+export interface InvoiceSettlement {
+  invoice: DaoInvoice;
+  policy: DaoRevenueSplitPolicy;
+  treasuryContribution: number;
+  memberCredits: MemberRevenueCredit[];
+}
+
+/**
+ * Mark an invoice paid and split it under the project's pinned policy: the treasury share
+ * is recorded as a project inflow and members' cumulative revenue is credited. Both are
+ * stored on the invoice so credit notes and voids can reverse exactly what was applied.
+ * An invoice is only settled once; paying it again is a conflict. Drafts are numbered first.
+ */
+export async function settleDaoInvoice(
+  invoiceId: number,
+  payment: { paymentMethod: string; paymentReference?: string },
+  actorId: string,
+): Promise<RevenueSplitResult<InvoiceSettlement>> {
+  let invoice = await storage.getDaoInvoice(invoiceId);
+  if (!invoice) return fail("not_found", "Invoice not found");
+  if (invoice.invoiceType === "credit_note") return fail("invalid", "Credit notes aren't paid");
+  if (invoice.status === "paid" || invoice.status === "cancelled" || invoice.status === "void") {
+    return fail("conflict", `Invoice is already ${invoice.status}`);
+  }
+  const project = await storage.getDaoProject(invoice.projectId);
+  if (!project) return fail("not_found", "Project not found");
+
+  if (invoice.sequenceNumber === null) {
+    invoice = await storage.issueDaoInvoiceNumber(invoice.id, new Date()) ?? invoice;
+  }
+
+  const policy = await resolveProjectSplitPolicy(project);
+  const treasuryContribution = percentOf(invoice.amount, policy.treasuryPercent);
+  const memberCredits = memberRevenueCredits(invoice.amount, project, policy, await storage.getDaoRevenueAttributions(project.id));
+
+  const paid = await storage.markDaoInvoicePaid(invoiceId, payment, {
+    splitPolicyId: policy.id,
+    treasuryContribution,
+    revenueCredits: memberCredits,
+  });
+  if (!paid) return fail("conflict", "Invoice was settled by another request");
+
+  if (treasuryContribution !== 0) {
+    await storage.recordProjectTreasuryContribution(
+      paid.projectId,
+      treasuryContribution,
+      actorId,
+      `${policy.treasuryPercent}% treasury contribution from invoice ${paid.invoiceNumber ?? `#${paid.id}`} under ${describeSplitPolicy(policy)}`,
+    );
+  }
+  for (const credit of memberCredits) {
+    await storage.updateMemberCumulativeRevenue(credit.membershipId, credit.amount);
+  }
+
+  console.log(`[RevenueSplit] Settled invoice ${paid.id} under ${describeSplitPolicy(policy)}: treasury ${treasuryContribution}, ${memberCredits.length} member credit(s)`);
+  return { ok: true, value: { invoice: paid, policy, treasuryContribution, memberCredits } };
+}
+
+export interface SettlementReversal {
+  treasuryContribution: number;
+  revenueCredits: MemberRevenueCredit[];
+}
+
+/**
+ * What to take back from a paid invoice so that only `remainingAmount` of it stays
+ * settled, given the credit notes already issued against it. Computed from the amounts
+ * recorded at payment (net of earlier reversals), so repeated partial credits never take
+ * back more than was applied. Invoices paid before settlements were recorded fall back to
+ * the policy's treasury share and no member credits.
+ */
+export async function computeSettlementReversal(
+  invoice: DaoInvoice,
+  creditNotes: DaoInvoice[],
+  remainingAmount: number,
+): Promise<SettlementReversal> {
+  let appliedTreasury = invoice.treasuryContribution;
+  if (appliedTreasury === null) {
+    const policy = invoice.splitPolicyId ? await storage.getDaoRevenueSplitPolicy(invoice.splitPolicyId) : undefined;
+    appliedTreasury = percentOf(invoice.amount, policy?.treasuryPercent ?? LEGACY_SPLIT_TERMS.treasuryPercent);
+  }
+  const fraction = invoice.amount === 0 ? 0 : remainingAmount / invoice.amount;
+  const notes = creditNotes.filter(n => n.status !== "void");
+
+  const treasuryNet = appliedTreasury + notes.reduce((sum, n) => sum + (n.treasuryContribution ?? 0), 0);
+  const treasuryContribution = Math.round(appliedTreasury * fraction) - treasuryNet;
+
+  const revenueCredits = (invoice.revenueCredits ?? []).map(credit => {
+    const reversed = notes.reduce((sum, n) =>
+      sum + (n.revenueCredits ?? []).filter(c => c.membershipId === credit.membershipId).reduce((s, c) => s + c.amount, 0), 0);
+    return { membershipId: credit.membershipId, amount: Math.round(credit.amount * fraction) - (credit.amount + reversed) };
+  }).filter(c => c.amount !== 0);
+
+  return { treasuryContribution, revenueCredits };
+}
+
+/** Record a reversal: a treasury adjustment and negative cumulative revenue credits */
+export async function applySettlementReversal(
+  projectId: number,
+  reversal: SettlementReversal,
+  memo: string,
+  actorId: string,
+): Promise<void> {
+  if (reversal.treasuryContribution !== 0) {
+    await storage.createDaoTreasuryTransaction({
+      txnType: "adjustment",
+      amount: reversal.treasuryContribution,
+      projectId,
+      memo,
+      createdBy: actorId,
+    });
+  }
+  for (const credit of reversal.revenueCredits) {
+    await storage.updateMemberCumulativeRevenue(credit.membershipId, credit.amount);
+  }
+  console.log(`[RevenueSplit] Reversed ${-reversal.treasuryContribution} from treasury and ${reversal.revenueCredits.length} member credit(s): ${memo}`);
+}
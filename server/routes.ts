@@ -4,21 +4,40 @@ import multer from "multer";
 import * as XLSX from "xlsx";
 import crypto from "crypto";
 import { z } from "zod";
-import type { ComparisonResult, InsertCollection } from "@shared/schema";
-import { insertInternalTeamMemberSchema, insertTeamPaymentHistorySchema } from "@shared/schema";
+import type { ComparisonResult, InsertCollection, User } from "@shared/schema";
+import { insertInternalTeamMemberSchema, insertTeamPaymentHistorySchema, insertTaskDependencySchema, insertDaoRevenueSplitPolicySchema, insertDaoRevenueAttributionSchema, daoBonusScoringOptionsSchema, daoBonusRunStatuses, daoBonusRunVoteDecisions, createDaoPayoutBatchSchema, createDaoReconciliationLinkSchema, closeDaoReconciliationPeriodSchema, upsertDaoTokenPriceSchema, upsertDaoContractAbiSchema, daoRankProgressionStatuses, upsertDaoRankCriteriaSchema, reviewDaoRankProgressionSchema, payrollRunStatuses, type PayrollRunStatus, createPayrollRunSchema, markPayrollRunPaidSchema, createPayrollAdjustmentSchema, createPaymentRequestSchema, reviewPaymentRequestSchema, insertPaymentBudgetCategorySchema, upsertPaymentApprovalThresholdSchema, insertTaskCustomFieldSchema, taskFilterConditionSchema, taskSortSchema, type TaskCustomField, dependencyTaskTypes, type DependencyTaskType, searchResultTypes, type SearchResultType, type SearchResponse, createAccountingExportSchema, updateAccountingAccountSchema, createWalletScreeningJobSchema, collectionSetOperationSchema, createCollectionSnapshotSchema, generateMerkleAllowlistSchema, merkleAllowlistFromFileSchema, addCollectionAddressesSchema, updateCollectionLabelsSchema, collectionAddressFilterSchema } from "@shared/schema";
 import { storage } from "./storage";
-import { parseFile } from "./file-parser";
+import { parseFile, extractEvmAddresses } from "./file-parser";
+import { addressKey } from "@shared/addresses";
 import { createRequire } from "module";
 import { setupAuth, isAuthenticated, requireRole } from "./auth";
 import { googleSheetsService } from "./google-sheets";
 import { emailService } from "./email-service";
 import { channelNotificationService } from "./channel-notification-service";
 import { setAuthorizedSession, removeAuthorizedSession } from "./live-stream";
-
-// Validate Ethereum address format
-function isValidEvmAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
-}
+import { broadcastWhiteboardEvent, getWhiteboardPresence } from "./whiteboard-collab";
+import { generateRecurringTask, getOccurrenceOnOrAfter, previewOccurrences, formatOccurrenceDate, processDueRecurringTasks } from "./recurring-task-generator";
+import { generateDigestForUser, processChatDigests } from "./chat-digest";
+import { startApprovalWorkflow, recordApprovalDecision, resubmitForApproval, getOutstandingApprovals, isApprovalGatedStatus, processApprovalSlas, approvalDecisions, type ApprovalDecision, type WorkflowResult } from "./approval-workflow";
+import { parseDueDate, findDependencyCycle, getOpenBlockers, isDependencyGatedStatus, notifyUnblockedTasks, getDependencySchedule } from "./task-dependencies";
+import { validateCustomFieldInput, validateCustomFieldValue, validateCustomFieldDefinition, getMissingRequiredFields, saveCustomFieldValues, getApplicableCustomFields, type CustomFieldTaskContext } from "./custom-fields";
+import { parseTaskListQuery, applyTaskListQuery, mergeSavedFilterQuery, type TaskListQuery, type TaskListQueryResult } from "./task-list-query";
+import { buildInvoiceDocument, renderInvoiceHtml, renderInvoicePdf, invoiceFileName, issueDaoInvoice, voidDaoInvoice, createCreditNote, emailDaoInvoice } from "./dao-invoices";
+import { getBonusScoringModels, previewBonusDistribution, getBonusRunDetail, proposeBonusRun, voteOnBonusRun, executeBonusRun, cancelBonusRun } from "./bonus-distribution";
+import { runRankEvaluation, previewRankEvaluation, reviewRankProgression, promoteIfEligible, getRankTiers, setRankCriteria } from "./dao-rank-progression";
+import { submitPaymentRequest, reviewPaymentRequest, cancelPaymentRequest, addReceipt, removeReceipt, getReceiptFile, getCategoryBudgets } from "./payment-requests";
+import { createPayrollRun, getPayrollRunDetail, recalculatePayrollRun, approvePayrollRun, markPayrollRunPaid, cancelPayrollRun, addPayrollAdjustment, removePayrollAdjustment, generateDuePayrollRuns, payrollRunCsv, getPayrollStatement, payrollStatementCsv } from "./payroll";
+import { getChartOfAccounts, setAccountMapping, resetAccountMapping, createAccountingExport, getAccountingExportFile } from "./accounting-exports";
+import { createScreeningJob, processScreeningJob, getScreeningJob, getScreeningJobResults, cancelScreeningJob, getScreenerStatus } from "./wallet-screener";
+import { runSetOperation, normalizeSetOperationBody, createSnapshot, getSnapshotsForCollection, getSnapshot, diffSnapshots, diffComparisons } from "./collection-sets";
+import { generateFromCollection, generateFromFile, getAllowlistProof, getAllowlistProofsFile } from "./merkle-allowlist";
+import { addAddresses, importFile, parseLabelField, listAddresses, listImports, updateLabels, exportCollection } from "./collection-metadata";
+import { snapshotAllWallets, revalueSnapshots, getBalanceHistory, getAllocation, getMonthlyFlows, type HistoryInterval } from "./treasury-history";
+import { setManualPrice, importPriceCsv, toPriceDate, addDays } from "./price-sources";
+import { reconcileTreasury, getReconciliationQueue, linkReconciliationItems, unlinkReconciliation, buildPeriodReport, closeReconciliationPeriod } from "./treasury-reconciliation";
+import { getPayoutCandidates, getPayoutBatchDetail, createPayoutBatch, cancelPayoutBatch, linkPayoutBatches, payoutBatchFileName } from "./safe-payouts";
+import { getSplitPolicies, getEffectiveSplitPolicy, publishSplitPolicyVersion, getNewProjectSplitTerms, resolveProjectSplitPolicy, repinProjectSplitPolicy, getProjectTreasuryContribution, applySplitPolicyToAttribution, applyAttributionTemplate, settleDaoInvoice } from "./revenue-split";
+import { registerJobHandler, ensureScheduledJob, startJobScheduler, triggerJob, pauseJob, resumeJob, getRegisteredJobHandlers } from "./job-scheduler";
 
 // Use createRequire for pdf-parse as it doesn't have proper ESM exports
 const require = createRequire(import.meta.url);
@@ -26,41 +45,6 @@ const pdfParse = require("pdf-parse");
 
 const upload = multer({ storage: multer.memoryStorage() });
 
-// Extract all EVM addresses from any text content
-function extractEvmAddresses(content: string): string[] {
-  // Use word boundary to avoid matching within longer hex strings (like bytecode or tx data)
-  // This regex ensures the address stands alone and isn't part of a larger hex sequence
-  const addressRegex = /(?<![a-fA-F0-9])0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
-  const matches = content.match(addressRegex) || [];
-  
-  // Remove duplicates and normalize to lowercase for consistency with comparison tool
-  const seen = new Set<string>();
-  const uniqueAddresses: string[] = [];
-  
-  for (const addr of matches) {
-    const lowerAddr = addr.toLowerCase();
-    // Skip addresses that are all zeros (null address pattern often in encoded data)
-    if (lowerAddr === '0x0000000000000000000000000000000000000000') {
-      continue;
-    }
-    // Skip addresses that look like padded zeros with a small value (common in ABI encoding)
-    // These have lots of leading zeros followed by a few hex chars
-    const withoutPrefix = lowerAddr.slice(2);
-    const leadingZeros = withoutPrefix.match(/^0+/)?.[0]?.length || 0;
-    if (leadingZeros >= 30) {
-      // More than 30 leading zeros is likely ABI-encoded data, not a real address
-      continue;
-    }
-    
-    if (!seen.has(lowerAddr)) {
-      seen.add(lowerAddr);
-      uniqueAddresses.push(lowerAddr); // Return lowercase for consistency
-    }
-  }
-  
-  return uniqueAddresses;
-}
-
 // Extract text content from JSON, focusing on message/text fields (for chat exports like Telegram)
 function extractTextFromJson(obj: any, depth = 0): string {
   if (depth > 10) return ''; // Prevent infinite recursion
@@ -292,36 +276,72 @@ async function checkDueTasks() {
   }
 }
 
-// Parse various date formats
-function parseDueDate(dateStr: string): Date | null {
-  if (!dateStr) return null;
-  
-  // Try ISO format first (2025-11-26)
-  const isoDate = new Date(dateStr);
-  if (!isNaN(isoDate.getTime())) return isoDate;
-  
-  // Try "Nov 26" format
-  const months: Record<string, number> = {
-    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
-    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
-  };
-  
-  const match = dateStr.match(/^(\w{3})\s+(\d{1,2})$/i);
-  if (match) {
-    const month = months[match[1].toLowerCase()];
-    const day = parseInt(match[2]);
-    if (month !== undefined && day) {
-      const year = new Date().getFullYear();
-      const date = new Date(year, month, day);
-      // If date is in the past, assume next year
-      if (date < new Date()) {
-        date.setFullYear(year + 1);
-      }
-      return date;
-    }
+// Register periodic work with the persistent job scheduler (replaces ad-hoc setInterval timers)
+async function setupBackgroundJobs() {
+  registerJobHandler("check-due-tasks", async () => {
+    await checkDueTasks();
+  });
+  registerJobHandler("recurring-tasks", () => processDueRecurringTasks());
+  registerJobHandler("media-conversion-cleanup", async (payload) => {
+    const { cleanupOldConversions } = await import("./media-converter");
+    const cleaned = await cleanupOldConversions(payload?.maxAgeHours ?? 24);
+    return { cleaned };
+  });
+  registerJobHandler("safe-wallet-sync", async () => {
+    const { syncAllWallets } = await import("./safe-sync");
+    return syncAllWallets();
+  });
+  registerJobHandler("burndown-snapshot", async (payload) => {
+    const snapshot = await storage.generateBurndownSnapshot(payload?.campaignId);
+    return { snapshotId: snapshot.id };
+  });
+  registerJobHandler("chat-digests", () => processChatDigests());
+  registerJobHandler("approval-slas", () => processApprovalSlas());
+  registerJobHandler("safe-balance-snapshot", async () => {
+    const { snapshotAllWallets } = await import("./treasury-history");
+    return snapshotAllWallets();
+  });
+  registerJobHandler("rank-evaluation", async () => {
+    const proposals = await runRankEvaluation();
+    return { proposed: proposals.length };
+  });
+  registerJobHandler("payroll-runs", () => generateDuePayrollRuns());
+  registerJobHandler("wallet-screening", (payload) => processScreeningJob(payload.screeningJobId));
+
+  const systemJobs = [
+    { name: "check-due-tasks", handler: "check-due-tasks", schedule: "0 * * * *", description: "Send due-soon and overdue task reminders" },
+    { name: "recurring-tasks", handler: "recurring-tasks", schedule: "5 * * * *", description: "Generate content tasks from recurring schedules" },
+    { name: "media-conversion-cleanup", handler: "media-conversion-cleanup", schedule: "30 * * * *", description: "Delete converted media files older than 24 hours", payload: { maxAgeHours: 24 } },
+    { name: "safe-wallet-sync", handler: "safe-wallet-sync", schedule: "*/15 * * * *", description: "Sync signers and transactions for all DAO Safe wallets" },
+    { name: "burndown-snapshot", handler: "burndown-snapshot", schedule: "55 23 * * *", description: "Record the daily burndown snapshot" },
+    { name: "chat-digests", handler: "chat-digests", schedule: "*/5 * * * *", description: "Generate and deliver daily chat digests at each user's delivery time" },
+    { name: "approval-slas", handler: "approval-slas", schedule: "*/15 * * * *", description: "Escalate overdue approval stages and skip overdue optional ones" },
+    { name: "safe-balance-snapshot", handler: "safe-balance-snapshot", schedule: "50 23 * * *", description: "Record the daily balance and USD value of each DAO Safe token" },
+    { name: "rank-evaluation", handler: "rank-evaluation", schedule: "0 6 * * 1", description: "Propose DAO promotions, probation and demotions for council review" },
+    { name: "payroll-runs", handler: "payroll-runs", schedule: "15 0 * * *", description: "Create draft payroll runs for completed pay periods and settle paid runs" },
+  ];
+
+  for (const job of systemJobs) {
+    await ensureScheduledJob(job);
   }
-  
-  return null;
+  startJobScheduler();
+}
+
+const workflowErrorStatus = { not_found: 404, forbidden: 403, conflict: 409, invalid: 400 } as const;
+
+function sendWorkflowError(res: any, result: Extract<WorkflowResult<unknown>, { ok: false }>) {
+  return res.status(workflowErrorStatus[result.code]).json({ error: result.error });
+}
+
+// ?filter= and ?sort= for the task list endpoints, plus an optional ?savedFilterId= owned by the user
+async function getTaskListQuery(req: any): Promise<TaskListQueryResult<TaskListQuery>> {
+  const parsed = parseTaskListQuery(req.query);
+  if (!parsed.ok || !req.query.savedFilterId) return parsed;
+  const saved = await storage.getSavedFilter(parseInt(req.query.savedFilterId as string));
+  if (!saved || saved.userId !== req.user?.id) {
+    return { ok: false, error: "Saved filter not found" };
+  }
+  return { ok: true, value: mergeSavedFilterQuery(parsed.value, saved.filters) };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -331,10 +351,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize email service
   await emailService.initialize();
   
-  // Run due task check every hour
-  setInterval(checkDueTasks, 60 * 60 * 1000);
-  // Also run immediately on startup (after a short delay)
-  setTimeout(checkDueTasks, 5000);
+  // Due task reminders, recurring tasks, cleanup and sync run as scheduled jobs
+  await setupBackgroundJobs();
 
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
@@ -383,6 +401,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Addresses added to and removed from the not-minted list between two comparison runs
+  app.get("/api/comparisons/:id/diff/:otherId", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await diffComparisons(parseInt(req.params.id), parseInt(req.params.otherId));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error diffing comparisons:", error);
+      res.status(500).json({ error: "Failed to diff comparisons" });
+    }
+  });
+
   // Extract EVM addresses from any file(s) - supports single file or multiple files from folder
   app.post(
     "/api/extract",
@@ -668,47 +698,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add addresses to collection (from text/paste)
-  app.post("/api/collections/:id/addresses", requireRole("web3"), async (req, res) => {
+  // Add addresses to collection (from text/paste or a tweet extraction), optionally with metadata and labels
+  app.post("/api/collections/:id/addresses", requireRole("web3"), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const { addresses } = req.body;
-      
-      const collection = await storage.getCollection(id);
-      if (!collection) {
-        return res.status(404).json({ error: "Collection not found" });
-      }
-
-      if (!addresses || !Array.isArray(addresses)) {
-        return res.status(400).json({ error: "Addresses array is required" });
-      }
-
-      // Validate and filter addresses
-      const validAddresses: string[] = [];
-      const invalidAddresses: { address: string; error: string }[] = [];
-
-      for (const addr of addresses) {
-        if (typeof addr !== "string") continue;
-        const trimmed = addr.trim();
-        if (!trimmed) continue;
-        
-        if (isValidEvmAddress(trimmed)) {
-          validAddresses.push(trimmed.toLowerCase());
-        } else {
-          invalidAddresses.push({ address: trimmed, error: "Invalid EVM address format" });
-        }
+      const parsed = addCollectionAddressesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
       }
-
-      const addedCount = await storage.addMintedAddresses(id, validAddresses);
-      const totalCount = await storage.getMintedAddressCount(id);
-
-      res.json({
-        added: addedCount,
-        skipped: validAddresses.length - addedCount,
-        invalid: invalidAddresses.length,
-        totalInCollection: totalCount,
-        invalidAddresses: invalidAddresses.slice(0, 10), // Return first 10 invalid
-      });
+      const result = await addAddresses(parseInt(req.params.id), parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
     } catch (error) {
       console.error("Error adding addresses:", error);
       res.status(500).json({
@@ -718,40 +717,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload file to add addresses to collection
+  // Upload file to add addresses to collection; username, points and rank are kept per address
   app.post(
     "/api/collections/:id/upload",
     requireRole("web3"),
     upload.single("file"),
-    async (req, res) => {
+    async (req: any, res) => {
       try {
-        const id = parseInt(req.params.id);
-        const file = req.file;
-        
-        const collection = await storage.getCollection(id);
-        if (!collection) {
-          return res.status(404).json({ error: "Collection not found" });
-        }
-
-        if (!file) {
+        if (!req.file) {
           return res.status(400).json({ error: "File is required" });
         }
 
-        // Parse file to extract addresses
-        const parsed = parseFile(file.originalname, file.buffer);
-        const validAddresses = parsed.addresses.map(a => a.address.toLowerCase());
-
-        const addedCount = await storage.addMintedAddresses(id, validAddresses);
-        const totalCount = await storage.getMintedAddressCount(id);
-
-        res.json({
-          filename: file.originalname,
-          found: parsed.addresses.length,
-          added: addedCount,
-          skipped: validAddresses.length - addedCount,
-          invalid: parsed.invalidCount,
-          totalInCollection: totalCount,
-        });
+        const result = await importFile(parseInt(req.params.id), req.file, parseLabelField(req.body?.labels), req.user.id);
+        if (!result.ok) return sendWorkflowError(res, result);
+        res.json(result.value);
       } catch (error) {
         console.error("Error uploading file to collection:", error);
         res.status(500).json({
@@ -762,6 +741,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Collection addresses with metadata and source, filtered and paged
+  app.get("/api/collections/:id/addresses", requireRole("web3"), async (req, res) => {
+    try {
+      const filter = collectionAddressFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ error: "Validation failed", details: filter.error.flatten() });
+      }
+      const result = await listAddresses(parseInt(req.params.id), filter.data, {
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching collection addresses:", error);
+      res.status(500).json({ error: "Failed to fetch collection addresses" });
+    }
+  });
+
+  // Uploads, tweet extractions, manual adds and set operations that added to the collection
+  app.get("/api/collections/:id/imports", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await listImports(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching collection imports:", error);
+      res.status(500).json({ error: "Failed to fetch collection imports" });
+    }
+  });
+
+  // Add and remove labels on a set of addresses
+  app.post("/api/collections/:id/labels", requireRole("web3"), async (req, res) => {
+    try {
+      const parsed = updateCollectionLabelsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await updateLabels(parseInt(req.params.id), parsed.data);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating collection labels:", error);
+      res.status(500).json({ error: "Failed to update labels" });
+    }
+  });
+
   // Remove address from collection
   app.delete("/api/collections/:id/addresses/:address", requireRole("web3"), async (req, res) => {
     try {
@@ -784,22 +810,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download collection addresses as CSV
+  // Download collection addresses with their metadata as CSV (default) or JSON (?format=json),
+  // narrowed by the same filters as the address listing
   app.get("/api/collections/:id/download", requireRole("web3"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const collection = await storage.getCollection(id);
-      
-      if (!collection) {
-        return res.status(404).json({ error: "Collection not found" });
+      const filter = collectionAddressFilterSchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ error: "Validation failed", details: filter.error.flatten() });
       }
+      const format = req.query.format === "json" ? "json" : "csv";
+      const result = await exportCollection(parseInt(req.params.id), filter.data, format);
+      if (!result.ok) return sendWorkflowError(res, result);
 
-      const addresses = await storage.getMintedAddresses(id);
-      const csv = addresses.join("\n");
-
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="${collection.name}_minted_addresses.csv"`);
-      res.send(csv);
+      res.setHeader("Content-Type", result.value.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${result.value.filename}"`);
+      res.send(result.value.content);
     } catch (error) {
       console.error("Error downloading collection:", error);
       res.status(500).json({
@@ -809,357 +834,206 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ================== WALLET SCREENER ==================
-
-  // Known exchange addresses (partial list for demonstration)
-  const KNOWN_EXCHANGE_ADDRESSES = new Set([
-    "0x28c6c06298d514db089934071355e5743bf21d60", // Binance 14
-    "0x21a31ee1afc51d94c2efccaa2092ad1028285549", // Binance 15
-    "0xdfd5293d8e347dfe59e90efd55b2956a1343963d", // Binance 16
-    "0x56eddb7aa87536c09ccc2793473599fd21a8b17f", // Binance 17
-    "0x9696f59e4d72e237be84ffd425dcad154bf96976", // Binance 18
-    "0x4d9ff50ef4da947364bb9650f15d9e0a8b2e1d67", // Binance 19
-    "0x71660c4005ba85c37ccec55d0c4493e66fe775d3", // Coinbase 1
-    "0x503828976d22510aad0201ac7ec88293211d23da", // Coinbase 2
-    "0xddfabcdc4d8ffc6d5beaf154f18b778f892a0740", // Coinbase 3
-    "0x3cd751e6b0078be393132286c442345e5dc49699", // Coinbase 4
-    "0xb5d85cbf7cb3ee0d56b3bb207d5fc4b82f43f511", // Coinbase 5
-    "0xeb2629a2734e272bcc07bda959863f316f4bd4cf", // Coinbase 6
-    "0x02466e547bfdab679fc49e96bbfc62b9747d997c", // Coinbase 8
-    "0x6cc5f688a315f3dc28a7781717a9a798a59fda7b", // OKX 1
-    "0x236f9f97e0e62388479bf9e5ba4889e46b0273c3", // OKX 2
-    "0xa7efae728d2936e78bda97dc267687568dd593f3", // OKX 3
-    "0x2c8fbb630289363ac80705a1a61273f76fd5a161", // KuCoin 1
-    "0xd6216fc19db775df9774a6e33526131da7d19a2c", // KuCoin 2
-    "0xf3f094484ec6901ffc9681bcb808b96bafd0b8a8", // Kraken 1
-    "0x2910543af39aba0cd09dbb2d50200b3e800a63d2", // Kraken 2
-    "0x0a869d79a7052c7f1b55a8ebabbea3420f0d1e13", // Kraken 3
-    "0xe853c56864a2ebe4576a807d26fdc4a0ada51919", // Kraken 4
-  ].map(a => a.toLowerCase()));
-
-  // Known contract patterns
-  const CONTRACT_CODE_INDICATORS = [
-    "PUSH", "DUP", "SWAP", "SLOAD", "SSTORE", "CALL", "DELEGATECALL", "STATICCALL"
-  ];
+  // ================== COLLECTION SETS & SNAPSHOTS ==================
 
-  // Wallet screening API - batch process
-  app.post("/api/wallet-screener/batch", requireRole("web3"), async (req, res) => {
+  // Union, intersection, difference or symmetric difference of collections, snapshots and uploaded
+  // files. Multipart requests send operands as a JSON string; a name saves the result as a collection.
+  app.post("/api/collections/set-operations", requireRole("web3"), upload.array("files", 20), async (req: any, res) => {
     try {
-      const { addresses, chainId = 1 } = req.body;
-
-      if (!addresses || !Array.isArray(addresses) || addresses.length === 0) {
-        return res.status(400).json({ error: "Addresses array is required" });
+      const parsed = collectionSetOperationSchema.safeParse(normalizeSetOperationBody(req.body));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
       }
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const result = await runSetOperation(parsed.data, files, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(result.value.collection ? 201 : 200).json(result.value);
+    } catch (error) {
+      console.error("Error running collection set operation:", error);
+      res.status(500).json({ error: "Failed to run set operation" });
+    }
+  });
 
-      if (addresses.length > 50) {
-        return res.status(400).json({ error: "Maximum 50 addresses per batch" });
+  app.post("/api/collections/:id/snapshots", requireRole("web3"), async (req: any, res) => {
+    try {
+      const parsed = createCollectionSnapshotSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
       }
+      const result = await createSnapshot(parseInt(req.params.id), parsed.data.label, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error creating collection snapshot:", error);
+      res.status(500).json({ error: "Failed to create snapshot" });
+    }
+  });
 
-      const etherscanApiKey = process.env.ETHERSCAN_API_KEY;
-      const etherscanBaseUrls: Record<number, string> = {
-        1: "https://api.etherscan.io/api",
-        10: "https://api-optimistic.etherscan.io/api",
-        56: "https://api.bscscan.com/api",
-        137: "https://api.polygonscan.com/api",
-        8453: "https://api.basescan.org/api",
-        42161: "https://api.arbiscan.io/api",
-      };
-
-      const baseUrl = etherscanBaseUrls[chainId] || etherscanBaseUrls[1];
-
-      const results = [];
-
-      for (const address of addresses) {
-        const normalizedAddress = address.toLowerCase();
-        
-        // Initialize result structure
-        const result: {
-          address: string;
-          riskScore: number;
-          riskLevel: "low" | "medium" | "high" | "critical";
-          labels: string[];
-          flags: {
-            isBot: boolean;
-            isSybil: boolean;
-            isContract: boolean;
-            isExchange: boolean;
-            isNewWallet: boolean;
-            lowActivity: boolean;
-            highFrequencyTrader: boolean;
-            airdropFarmer: boolean;
-          };
-          metrics: {
-            txCount: number;
-            firstTxDate: string | null;
-            lastTxDate: string | null;
-            walletAgeDays: number;
-            avgTxPerDay: number;
-            uniqueContractsInteracted: number;
-            totalGasSpent: string;
-            nftCollectionsHeld: number;
-          };
-          details: string;
-        } = {
-          address: normalizedAddress,
-          riskScore: 0,
-          riskLevel: "low",
-          labels: [],
-          flags: {
-            isBot: false,
-            isSybil: false,
-            isContract: false,
-            isExchange: false,
-            isNewWallet: false,
-            lowActivity: false,
-            highFrequencyTrader: false,
-            airdropFarmer: false,
-          },
-          metrics: {
-            txCount: 0,
-            firstTxDate: null,
-            lastTxDate: null,
-            walletAgeDays: 0,
-            avgTxPerDay: 0,
-            uniqueContractsInteracted: 0,
-            totalGasSpent: "0",
-            nftCollectionsHeld: 0,
-          },
-          details: "",
-        };
-
-        // Check if known exchange
-        if (KNOWN_EXCHANGE_ADDRESSES.has(normalizedAddress)) {
-          result.flags.isExchange = true;
-          result.labels.push("Known Exchange");
-          result.riskScore += 5;
-        }
-
-        // Try to fetch on-chain data if API key is available
-        if (etherscanApiKey) {
-          try {
-            // Fetch transaction list
-            const txListUrl = `${baseUrl}?module=account&action=txlist&address=${normalizedAddress}&startblock=0&endblock=99999999&sort=asc&apikey=${etherscanApiKey}`;
-            const txResponse = await fetch(txListUrl);
-            const txData = await txResponse.json();
-
-            if (txData.status === "1" && Array.isArray(txData.result)) {
-              const txs = txData.result;
-              result.metrics.txCount = txs.length;
-
-              if (txs.length > 0) {
-                const firstTx = txs[0];
-                const lastTx = txs[txs.length - 1];
-                
-                result.metrics.firstTxDate = new Date(parseInt(firstTx.timeStamp) * 1000).toISOString().split("T")[0];
-                result.metrics.lastTxDate = new Date(parseInt(lastTx.timeStamp) * 1000).toISOString().split("T")[0];
-                
-                const walletAge = Date.now() - parseInt(firstTx.timeStamp) * 1000;
-                result.metrics.walletAgeDays = Math.floor(walletAge / (1000 * 60 * 60 * 24));
-                
-                if (result.metrics.walletAgeDays > 0) {
-                  result.metrics.avgTxPerDay = result.metrics.txCount / result.metrics.walletAgeDays;
-                }
-
-                // Calculate unique contracts interacted with
-                const contractsSet = new Set(txs.filter((tx: any) => tx.to).map((tx: any) => tx.to.toLowerCase()));
-                result.metrics.uniqueContractsInteracted = contractsSet.size;
-
-                // Calculate total gas spent
-                let totalGas = BigInt(0);
-                for (const tx of txs) {
-                  if (tx.gasUsed && tx.gasPrice) {
-                    totalGas += BigInt(tx.gasUsed) * BigInt(tx.gasPrice);
-                  }
-                }
-                result.metrics.totalGasSpent = (totalGas / BigInt(10 ** 18)).toString();
-
-                // Apply heuristics
-                
-                // New wallet check (< 30 days old)
-                if (result.metrics.walletAgeDays < 30) {
-                  result.flags.isNewWallet = true;
-                  result.labels.push("New Wallet");
-                  result.riskScore += 15;
-                }
-
-                // Low activity check
-                if (result.metrics.txCount < 10 && result.metrics.walletAgeDays > 30) {
-                  result.flags.lowActivity = true;
-                  result.labels.push("Low Activity");
-                  result.riskScore += 10;
-                }
-
-                // High frequency trader check
-                if (result.metrics.avgTxPerDay > 20) {
-                  result.flags.highFrequencyTrader = true;
-                  result.labels.push("High Frequency");
-                  result.riskScore += 20;
-                }
-
-                // Bot detection heuristics
-                // Check for consistent timing patterns
-                if (txs.length >= 5) {
-                  const timeDiffs = [];
-                  for (let i = 1; i < Math.min(txs.length, 50); i++) {
-                    timeDiffs.push(parseInt(txs[i].timeStamp) - parseInt(txs[i - 1].timeStamp));
-                  }
-                  
-                  // Check for very consistent intervals (bot-like behavior)
-                  const avgDiff = timeDiffs.reduce((a, b) => a + b, 0) / timeDiffs.length;
-                  const variance = timeDiffs.reduce((sum, diff) => sum + Math.pow(diff - avgDiff, 2), 0) / timeDiffs.length;
-                  const stdDev = Math.sqrt(variance);
-                  
-                  // If standard deviation is very low relative to average, might be a bot
-                  if (avgDiff > 0 && stdDev / avgDiff < 0.1 && result.metrics.avgTxPerDay > 5) {
-                    result.flags.isBot = true;
-                    result.labels.push("Bot Pattern Detected");
-                    result.riskScore += 40;
-                  }
-                }
-
-                // Sybil detection - check for wallet with only token transfers to same destination
-                const destinations = txs.filter((tx: any) => tx.from.toLowerCase() === normalizedAddress).map((tx: any) => tx.to?.toLowerCase());
-                const uniqueDestinations = new Set(destinations);
-                if (uniqueDestinations.size === 1 && result.metrics.txCount > 5) {
-                  result.flags.isSybil = true;
-                  result.labels.push("Sybil Pattern");
-                  result.riskScore += 35;
-                }
-
-                // Airdrop farmer detection
-                // Many interactions with different protocols but low value per tx
-                if (result.metrics.uniqueContractsInteracted > 20 && result.metrics.walletAgeDays < 90) {
-                  result.flags.airdropFarmer = true;
-                  result.labels.push("Airdrop Farmer");
-                  result.riskScore += 30;
-                }
-              }
-            }
+  app.get("/api/collections/:id/snapshots", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await getSnapshotsForCollection(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching collection snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch snapshots" });
+    }
+  });
 
-            // Check if it's a contract
-            const codeUrl = `${baseUrl}?module=proxy&action=eth_getCode&address=${normalizedAddress}&apikey=${etherscanApiKey}`;
-            const codeResponse = await fetch(codeUrl);
-            const codeData = await codeResponse.json();
-            
-            if (codeData.result && codeData.result !== "0x" && codeData.result.length > 4) {
-              result.flags.isContract = true;
-              result.labels.push("Contract");
-              result.riskScore += 10;
-            }
+  app.get("/api/collection-snapshots/:id", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await getSnapshot(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching collection snapshot:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot" });
+    }
+  });
 
-            // Small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 200));
+  // Addresses added and removed going from one snapshot to another
+  app.get("/api/collection-snapshots/:id/diff/:otherId", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await diffSnapshots(parseInt(req.params.id), parseInt(req.params.otherId));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error diffing collection snapshots:", error);
+      res.status(500).json({ error: "Failed to diff snapshots" });
+    }
+  });
 
-          } catch (fetchError) {
-            console.error(`Error fetching data for ${normalizedAddress}:`, fetchError);
-            result.labels.push("API Error");
-          }
-        } else {
-          // No API key - generate mock/heuristic data based on address patterns
-          // Use address hash to generate consistent pseudo-random data
-          const addressHash = normalizedAddress.slice(2, 10);
-          const hashNum = parseInt(addressHash, 16);
-          
-          // Generate semi-random but consistent metrics
-          result.metrics.txCount = (hashNum % 1000) + 1;
-          result.metrics.walletAgeDays = (hashNum % 730) + 1;
-          result.metrics.avgTxPerDay = result.metrics.txCount / Math.max(result.metrics.walletAgeDays, 1);
-          result.metrics.uniqueContractsInteracted = (hashNum % 50) + 1;
-          result.metrics.totalGasSpent = ((hashNum % 100) / 10).toFixed(2);
-          
-          // Set dates based on age
-          const firstDate = new Date(Date.now() - result.metrics.walletAgeDays * 24 * 60 * 60 * 1000);
-          const lastDate = new Date(Date.now() - (hashNum % 7) * 24 * 60 * 60 * 1000);
-          result.metrics.firstTxDate = firstDate.toISOString().split("T")[0];
-          result.metrics.lastTxDate = lastDate.toISOString().split("T")[0];
-
-          // Apply basic heuristics based on generated data
-          if (result.metrics.walletAgeDays < 30) {
-            result.flags.isNewWallet = true;
-            result.labels.push("New Wallet");
-            result.riskScore += 15;
-          }
+  // ================== MERKLE ALLOWLISTS ==================
 
-          if (result.metrics.txCount < 10) {
-            result.flags.lowActivity = true;
-            result.labels.push("Low Activity");
-            result.riskScore += 10;
-          }
+  // Snapshot a collection and build its Merkle tree; the root is stored on the snapshot
+  app.post("/api/collections/:id/merkle", requireRole("web3"), async (req: any, res) => {
+    try {
+      const parsed = generateMerkleAllowlistSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await generateFromCollection(parseInt(req.params.id), parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error generating Merkle allowlist:", error);
+      res.status(500).json({ error: "Failed to generate Merkle allowlist" });
+    }
+  });
 
-          if (result.metrics.avgTxPerDay > 20) {
-            result.flags.highFrequencyTrader = true;
-            result.labels.push("High Frequency");
-            result.riskScore += 20;
-          }
+  // Save an uploaded file as a new collection and build its tree, with `points` as each allocation
+  app.post("/api/collections/merkle-from-file", requireRole("web3"), upload.single("file"), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "File is required" });
+      }
+      // Multipart forms send unset fields as empty strings
+      const fields = Object.fromEntries(Object.entries(req.body ?? {}).filter(([, value]) => value !== ""));
+      const parsed = merkleAllowlistFromFileSchema.safeParse(fields);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await generateFromFile(req.file, parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error generating Merkle allowlist from file:", error);
+      res.status(500).json({ error: "Failed to generate Merkle allowlist" });
+    }
+  });
 
-          // Random bot/sybil detection based on address patterns
-          if ((hashNum % 100) < 10) {
-            result.flags.isBot = true;
-            result.labels.push("Bot Pattern Detected");
-            result.riskScore += 40;
-          }
+  // Every proof of an allowlist as a JSON download
+  app.get("/api/collection-snapshots/:id/proofs", requireRole("web3"), async (req, res) => {
+    try {
+      const result = await getAllowlistProofsFile(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${result.value.filename}"`);
+      res.send(JSON.stringify(result.value.document, null, 2));
+    } catch (error) {
+      console.error("Error downloading Merkle proofs:", error);
+      res.status(500).json({ error: "Failed to download proofs" });
+    }
+  });
 
-          if ((hashNum % 100) >= 10 && (hashNum % 100) < 18) {
-            result.flags.isSybil = true;
-            result.labels.push("Sybil Pattern");
-            result.riskScore += 35;
-          }
+  // One address's proof (public endpoint, read-only: mint pages call it for the connected wallet)
+  app.get("/api/collection-snapshots/:id/proof/:address", async (req, res) => {
+    try {
+      const result = await getAllowlistProof(parseInt(req.params.id), req.params.address);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching Merkle proof:", error);
+      res.status(500).json({ error: "Failed to fetch proof" });
+    }
+  });
 
-          if ((hashNum % 100) >= 18 && (hashNum % 100) < 25) {
-            result.flags.airdropFarmer = true;
-            result.labels.push("Airdrop Farmer");
-            result.riskScore += 30;
-          }
+  // ================== WALLET SCREENER ==================
 
-          result.details = "Note: Results based on heuristic analysis. Add ETHERSCAN_API_KEY for real on-chain data.";
-        }
+  // Queue a batch of addresses for screening; results are fetched from the job once it completes
+  app.post("/api/wallet-screener/jobs", requireRole("web3"), async (req: any, res) => {
+    try {
+      const parsed = createWalletScreeningJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await createScreeningJob(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(202).json(result.value);
+    } catch (error) {
+      console.error("Error queueing wallet screening:", error);
+      res.status(500).json({ error: "Failed to queue wallet screening" });
+    }
+  });
 
-        // Clamp risk score and determine level
-        result.riskScore = Math.min(result.riskScore, 100);
-        
-        if (result.riskScore >= 70) {
-          result.riskLevel = "critical";
-        } else if (result.riskScore >= 45) {
-          result.riskLevel = "high";
-        } else if (result.riskScore >= 25) {
-          result.riskLevel = "medium";
-        } else {
-          result.riskLevel = "low";
-        }
+  app.get("/api/wallet-screener/jobs", requireRole("web3"), async (req: any, res) => {
+    try {
+      res.json(await storage.getWalletScreeningJobs(req.user.role === "admin" ? undefined : req.user.id));
+    } catch (error) {
+      console.error("Error fetching screening jobs:", error);
+      res.status(500).json({ error: "Failed to fetch screening jobs" });
+    }
+  });
 
-        // Add clean label if no issues
-        if (result.labels.length === 0) {
-          result.labels.push("Clean");
-        }
+  app.get("/api/wallet-screener/jobs/:id", requireRole("web3"), async (req: any, res) => {
+    try {
+      const result = await getScreeningJob(parseInt(req.params.id), req.user);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching screening job:", error);
+      res.status(500).json({ error: "Failed to fetch screening job" });
+    }
+  });
 
-        results.push(result);
-      }
+  app.get("/api/wallet-screener/jobs/:id/results", requireRole("web3"), async (req: any, res) => {
+    try {
+      const result = await getScreeningJobResults(parseInt(req.params.id), req.user, {
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error fetching screening results:", error);
+      res.status(500).json({ error: "Failed to fetch screening results" });
+    }
+  });
 
-      res.json(results);
+  app.post("/api/wallet-screener/jobs/:id/cancel", requireRole("web3"), async (req: any, res) => {
+    try {
+      const result = await cancelScreeningJob(parseInt(req.params.id), req.user);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
     } catch (error) {
-      console.error("Error screening wallets:", error);
-      res.status(500).json({
-        error: "Failed to screen wallets",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
+      console.error("Error cancelling screening job:", error);
+      res.status(500).json({ error: "Failed to cancel screening job" });
     }
   });
 
-  // Check screening status / API availability
+  // Configured chain data provider and supported chains
   app.get("/api/wallet-screener/status", requireRole("web3"), async (req, res) => {
-    const hasApiKey = !!process.env.ETHERSCAN_API_KEY;
-    res.json({
-      hasEtherscanApiKey: hasApiKey,
-      supportedChains: [
-        { id: 1, name: "Ethereum" },
-        { id: 10, name: "Optimism" },
-        { id: 56, name: "BSC" },
-        { id: 137, name: "Polygon" },
-        { id: 8453, name: "Base" },
-        { id: 42161, name: "Arbitrum" },
-      ],
-      maxBatchSize: 50,
-    });
+    res.json(getScreenerStatus());
   });
 
   // ================== MEDIA TO MP3 CONVERSION ==================
@@ -1343,14 +1217,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Get minted addresses from collection
         const mintedAddresses = await storage.getMintedAddresses(collectionId);
-        const mintedSet = new Set(mintedAddresses.map(addr => addr.toLowerCase()));
+        const mintedSet = new Set(mintedAddresses.map(addressKey));
 
         // Parse eligible file
         const eligibleParsed = parseFile(file.originalname, file.buffer);
 
         // Filter eligible addresses that are NOT in the minted set
         const notMinted = eligibleParsed.addresses.filter(
-          addr => !mintedSet.has(addr.address.toLowerCase())
+          addr => !mintedSet.has(addressKey(addr.address))
         );
 
         const result: ComparisonResult = {
@@ -1417,12 +1291,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Create a Set of minted addresses for fast lookup (case-insensitive)
         const mintedSet = new Set(
-          mintedParsed.addresses.map(addr => addr.address.toLowerCase())
+          mintedParsed.addresses.map(addr => addressKey(addr.address))
         );
 
         // Filter eligible addresses that are NOT in the minted set
         const notMinted = eligibleParsed.addresses.filter(
-          addr => !mintedSet.has(addr.address.toLowerCase())
+          addr => !mintedSet.has(addressKey(addr.address))
         );
 
         // Combine validation errors from both files
@@ -1495,12 +1369,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Create a Set of minted addresses for fast lookup (case-insensitive)
         const mintedSet = new Set(
-          mintedAddresses.map(addr => addr.toLowerCase())
+          mintedAddresses.map(addressKey)
         );
         
         // Filter eligible addresses that are NOT in the minted set
         const notMinted = eligibleParsed.addresses.filter(
-          addr => !mintedSet.has(addr.address.toLowerCase())
+          addr => !mintedSet.has(addressKey(addr.address))
         );
         
         const result: ComparisonResult = {
@@ -2469,8 +2343,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all content tasks
   app.get("/api/content-tasks", requireRole("content"), async (req, res) => {
     try {
-      const tasks = await storage.getContentTasks();
-      res.json(tasks);
+      const query = await getTaskListQuery(req);
+      if (!query.ok) {
+        return res.status(400).json({ error: query.error });
+      }
+      const tasks = await applyTaskListQuery("content", await storage.getContentTasks(), query.value);
+      if (!tasks.ok) {
+        return res.status(400).json({ error: tasks.error });
+      }
+      res.json(tasks.value);
     } catch (error) {
       console.error("Error fetching content tasks:", error);
       res.status(500).json({ error: "Failed to fetch content tasks" });
@@ -2495,12 +2376,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create content task
   app.post("/api/content-tasks", requireRole("content"), async (req: any, res) => {
     try {
-      const { description, status, assignedTo, dueDate, assignedBy, client, clientType, internalProject, deliverable, notes, priority, campaignId } = req.body;
+      const { description, status, assignedTo, dueDate, assignedBy, client, clientType, internalProject, deliverable, notes, priority, campaignId, customFields } = req.body;
       
       if (!description || typeof description !== "string") {
         return res.status(400).json({ error: "Description is required" });
       }
       
+      const customFieldCheck = await validateCustomFieldInput(
+        { taskType: "content", client: clientType === "internal" ? null : client, campaignId },
+        customFields,
+        { isNew: true },
+      );
+      if (customFieldCheck.errors.length > 0) {
+        return res.status(400).json({ error: "Invalid custom field values", fields: customFieldCheck.errors });
+      }
+      
       const task = await storage.createContentTask({
         description,
         status: status || "TO BE STARTED",
@@ -2515,6 +2405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         priority: priority || "medium",
         campaignId: campaignId || undefined,
       });
+      await saveCustomFieldValues("content", task.id, customFieldCheck.values);
       
       // Log activity
       await storage.createActivityLog({
@@ -2563,7 +2454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/content-tasks/:id", requireRole("content"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const { customFields, ...updates } = req.body;
       
       // Get existing task for comparison
       const existingTask = await storage.getContentTask(id);
@@ -2571,10 +2462,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Content task not found" });
       }
       
+      const customFieldContext: CustomFieldTaskContext = {
+        taskType: "content",
+        client: updates.client !== undefined ? updates.client : existingTask.client,
+        campaignId: updates.campaignId !== undefined ? updates.campaignId : existingTask.campaignId,
+      };
+      const customFieldCheck = await validateCustomFieldInput(customFieldContext, customFields);
+      if (customFieldCheck.errors.length > 0) {
+        return res.status(400).json({ error: "Invalid custom field values", fields: customFieldCheck.errors });
+      }
+      
+      // Required custom fields must be filled before a task moves to another status
+      if (updates.status && updates.status !== existingTask.status) {
+        const missing = await getMissingRequiredFields(customFieldContext, id, customFieldCheck.values);
+        if (missing.length > 0) {
+          return res.status(409).json({ error: "Required custom fields are missing", fields: missing });
+        }
+      }
+      
+      // Required approval stages must pass before the task can be approved or completed
+      if (updates.status && updates.status !== existingTask.status && isApprovalGatedStatus(updates.status)) {
+        const outstanding = await getOutstandingApprovals(id);
+        if (outstanding.length > 0) {
+          return res.status(409).json({
+            error: "Required approval stages have not passed",
+            outstanding: outstanding.map(a => ({ id: a.id, stage: a.stage, stageName: a.stageName, status: a.status })),
+          });
+        }
+      }
+      
+      // Blocked tasks can't finish ahead of their blockers
+      if (updates.status && updates.status !== existingTask.status && isDependencyGatedStatus("content", updates.status)) {
+        const blockers = await getOpenBlockers({ taskType: "content", taskId: id });
+        if (blockers.length > 0) {
+          return res.status(409).json({ error: "This task is blocked by unfinished tasks", blockers });
+        }
+      }
+      
       const task = await storage.updateContentTask(id, updates);
       if (!task) {
         return res.status(404).json({ error: "Content task not found" });
       }
+      await saveCustomFieldValues("content", id, customFieldCheck.values);
       
       // Log specific changes
       const userId = (req as any).user?.id;
@@ -2586,6 +2515,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           action: "status_changed",
           details: { from: existingTask.status, to: task.status },
         });
+        
+        // Moving a rejected task back into review reopens the rejected approval stage
+        if (task.status === "IN REVIEW") {
+          const resubmitted = await resubmitForApproval(id, userId || null);
+          if (!resubmitted.ok && resubmitted.code !== "conflict") {
+            console.warn(`Could not resubmit task ${id} for approval: ${resubmitted.error}`);
+          }
+        }
+        
+        if (isDependencyGatedStatus("content", task.status) && !isDependencyGatedStatus("content", existingTask.status)) {
+          await notifyUnblockedTasks({ taskType: "content", taskId: id });
+        }
       }
       
       if (existingTask.priority !== task.priority) {
@@ -3054,9 +2995,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         
         if (existingTask) {
+          // Sheet edits can't bypass the approval gate or open blockers
+          let status = row.status || existingTask.status;
+          if (status !== existingTask.status && isApprovalGatedStatus(status) && (await getOutstandingApprovals(existingTask.id)).length > 0) {
+            status = existingTask.status;
+          }
+          if (status !== existingTask.status && isDependencyGatedStatus("content", status) && (await getOpenBlockers({ taskType: "content", taskId: existingTask.id })).length > 0) {
+            status = existingTask.status;
+          }
+          if (status !== existingTask.status && (await getMissingRequiredFields({ taskType: "content", client: existingTask.client, campaignId: existingTask.campaignId }, existingTask.id)).length > 0) {
+            status = existingTask.status;
+          }
+          
           // Update existing task if data changed
           await storage.updateContentTask(existingTask.id, {
-            status: row.status || existingTask.status,
+            status,
             assignedTo: row.assignedTo || existingTask.assignedTo || undefined,
             dueDate: row.dueDate || existingTask.dueDate || undefined,
             assignedBy: row.assignedBy || existingTask.assignedBy || undefined,
@@ -3064,6 +3017,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             deliverable: row.deliverable || existingTask.deliverable || undefined,
             notes: row.notes || existingTask.notes || undefined,
           });
+          if (isDependencyGatedStatus("content", status) && !isDependencyGatedStatus("content", existingTask.status)) {
+            await notifyUnblockedTasks({ taskType: "content", taskId: existingTask.id });
+          }
           updated++;
         } else {
           // Create new task
@@ -3894,34 +3850,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Calculate stage progression
       const sortedApprovals = [...taskApprovals].sort((a, b) => (a.stage || 1) - (b.stage || 1));
       const stages = [...new Set(sortedApprovals.map(a => a.stage || 1))].sort((a, b) => a - b);
+      const isSettled = (status: string) => status === "approved" || status === "skipped";
       
-      // Find active stage (first stage that isn't fully approved)
-      let activeStage = 1;
-      for (const stage of stages) {
-        const stageApprovals = sortedApprovals.filter(a => (a.stage || 1) === stage);
-        const requiredApprovals = stageApprovals.filter(a => a.isRequired);
-        const allRequiredApproved = requiredApprovals.every(a => a.status === "approved");
-        
-        if (!allRequiredApproved) {
-          activeStage = stage;
-          break;
-        }
-        // Move to next stage if current is complete
-        if (stage === stages[stages.length - 1]) {
-          activeStage = stage; // All stages complete
-        }
-      }
+      // Active stage is the one under review; otherwise the first stage still holding the task up
+      const pendingStages = sortedApprovals.filter(a => a.status === "pending").map(a => a.stage || 1);
+      const blockingStages = sortedApprovals.filter(a => a.isRequired && !isSettled(a.status)).map(a => a.stage || 1);
+      const activeStage = pendingStages.length > 0
+        ? Math.min(...pendingStages)
+        : blockingStages.length > 0 ? Math.min(...blockingStages) : (stages[stages.length - 1] || 1);
       
       const enrichedApprovals = sortedApprovals.map(approval => ({
         ...approval,
         approver: userMap.get(approval.reviewerId) || null, // Keep for backward compatibility
         reviewer: userMap.get(approval.reviewerId) || null, // New canonical name
         isActiveStage: (approval.stage || 1) === activeStage,
+        isOverdue: approval.status === "pending" && !!approval.dueDate && approval.dueDate < new Date(),
       }));
       
       // Calculate overall progress
       const totalApprovals = enrichedApprovals.length;
-      const approvedCount = enrichedApprovals.filter(a => a.status === "approved").length;
+      const approvedCount = enrichedApprovals.filter(a => isSettled(a.status)).length;
       const progressPercent = totalApprovals > 0 ? Math.round((approvedCount / totalApprovals) * 100) : 0;
       
       res.json({
@@ -3931,10 +3879,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalStages: stages.length,
           completedStages: stages.filter(stage => {
             const stageApprovals = sortedApprovals.filter(a => (a.stage || 1) === stage);
-            return stageApprovals.every(a => a.status === "approved");
+            return stageApprovals.every(a => isSettled(a.status));
           }).length,
           progressPercent,
-          isComplete: enrichedApprovals.every(a => a.status === "approved"),
+          isComplete: totalApprovals > 0 && enrichedApprovals.every(a => !a.isRequired || isSettled(a.status)),
         }
       });
     } catch (error) {
@@ -3983,46 +3931,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update approval status (approve/reject)
+  // Decide an approval (approve/reject/request revision/skip an optional stage).
+  // Workflow approvals advance to the next stage or send the task back to its assignee.
   app.patch("/api/approvals/:id", requireRole("content"), async (req, res) => {
     try {
       const approvalId = parseInt(req.params.id);
       const { status, comments } = req.body;
+      const user = (req as any).user;
       
-      if (!status || !["approved", "rejected", "revision_requested", "skipped"].includes(status)) {
+      if (!status || !approvalDecisions.includes(status)) {
         return res.status(400).json({ error: "Valid status required" });
       }
       
-      const updated = await storage.updateApprovalStatus(approvalId, status, comments);
-      if (!updated) {
-        return res.status(404).json({ error: "Approval not found" });
-      }
-      
-      // Log activity
-      if (updated.taskId) {
-        await storage.createActivityLog({
-          taskId: updated.taskId,
-          userId: (req as any).user?.id || null,
-          action: `approval_${status}`,
-          details: comments || `Task ${status}`,
-        });
+      const result = await recordApprovalDecision(approvalId, user, status as ApprovalDecision, comments);
+      if (!result.ok) {
+        return sendWorkflowError(res, result);
       }
       
-      res.json(updated);
+      res.json(result.value);
     } catch (error) {
       console.error("Error updating approval:", error);
       res.status(500).json({ error: "Failed to update approval" });
     }
   });
 
-  // Get pending approvals for current user
-  app.get("/api/approvals/pending", requireRole("content"), async (req, res) => {
+  // Send a rejected task back into review
+  app.post("/api/content-tasks/:id/approvals/resubmit", requireRole("content"), async (req, res) => {
     try {
-      const userId = (req as any).user?.id;
-      if (!userId) {
+      const taskId = parseInt(req.params.id);
+      const result = await resubmitForApproval(taskId, (req as any).user?.id || null);
+      if (!result.ok) {
+        return sendWorkflowError(res, result);
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error resubmitting for approval:", error);
+      res.status(500).json({ error: "Failed to resubmit for approval" });
+    }
+  });
+
+  // Get pending approvals for current user, including stages routed to their role
+  app.get("/api/approvals/pending", requireRole("content"), async (req, res) => {
+    try {
+      const user = (req as any).user;
+      if (!user?.id) {
         return res.status(401).json({ error: "Unauthorized" });
       }
-      const approvals = await storage.getPendingApprovals(userId);
+      const approvals = await storage.getPendingApprovals(user.id, user.role);
       res.json(approvals);
     } catch (error) {
       console.error("Error fetching pending approvals:", error);
@@ -4134,27 +4089,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Apply workflow to task
+  // Apply workflow to task and open its first stage
   app.post("/api/content-tasks/:id/apply-workflow", requireRole("content"), async (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
       const { workflowId } = req.body;
+      const userId = (req as any).user?.id || null;
       
       if (!workflowId) {
         return res.status(400).json({ error: "Workflow ID is required" });
       }
       
-      const approvals = await storage.applyWorkflowToTask(taskId, workflowId);
+      const result = await startApprovalWorkflow(taskId, parseInt(workflowId), userId);
+      if (!result.ok) {
+        return sendWorkflowError(res, result);
+      }
       
       // Log activity
       await storage.createActivityLog({
         taskId,
-        userId: (req as any).user?.id || null,
+        userId,
         action: "workflow_applied",
-        details: `Applied approval workflow with ${approvals.length} stages`,
+        details: `Applied approval workflow with ${result.value.length} stages`,
       });
       
-      res.status(201).json(approvals);
+      res.status(201).json(result.value);
     } catch (error) {
       console.error("Error applying workflow:", error);
       res.status(500).json({ error: "Failed to apply workflow" });
@@ -4581,6 +4540,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Filter settings are free-form, but task list conditions and sort must use the list query syntax
+  const savedFilterSchema = z.object({
+    name: z.string().min(1, "Filter name is required").max(255),
+    filters: z.object({
+      conditions: z.array(taskFilterConditionSchema).optional(),
+      sort: z.array(taskSortSchema).optional(),
+    }).passthrough(),
+    isDefault: z.boolean().optional(),
+  });
+
   // Create saved filter
   app.post("/api/saved-filters", requireRole("content"), async (req, res) => {
     try {
@@ -4589,7 +4558,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Unauthorized" });
       }
       
-      const { name, filters, isDefault } = req.body;
+      const validation = savedFilterSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || "Invalid filter data" });
+      }
+      
+      const { name, filters, isDefault } = validation.data;
       const savedFilter = await storage.createSavedFilter({
         userId,
         name,
@@ -4607,7 +4581,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/saved-filters/:id", requireRole("content"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updated = await storage.updateSavedFilter(id, req.body);
+      const existing = await storage.getSavedFilter(id);
+      if (!existing || existing.userId !== (req as any).user?.id) {
+        return res.status(404).json({ error: "Saved filter not found" });
+      }
+      
+      const validation = savedFilterSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error.errors[0]?.message || "Invalid filter data" });
+      }
+      
+      const updated = await storage.updateSavedFilter(id, validation.data);
       if (!updated) {
         return res.status(404).json({ error: "Saved filter not found" });
       }
@@ -4653,7 +4637,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         createdBy: (req as any).user?.id,
       });
-      res.status(201).json(task);
+      // Schedule the first run from today so nothing is backfilled
+      const nextGenerationAt = getOccurrenceOnOrAfter(task, new Date());
+      const scheduled = await storage.updateRecurringTask(task.id, { nextGenerationAt });
+      res.status(201).json(scheduled || task);
     } catch (error) {
       console.error("Error creating recurring task:", error);
       res.status(500).json({ error: "Failed to create recurring task" });
@@ -4664,10 +4651,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/recurring-tasks/:id", requireRole("content"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getRecurringTask(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Recurring task not found" });
+      }
       const updated = await storage.updateRecurringTask(id, req.body);
       if (!updated) {
         return res.status(404).json({ error: "Recurring task not found" });
       }
+
+      // A changed schedule or a resumed task restarts from today instead of backfilling the gap
+      const scheduleChanged = ["frequency", "dayOfWeek", "dayOfMonth"].some(key => key in req.body);
+      const resumed = !existing.isActive && updated.isActive;
+      if (scheduleChanged || resumed) {
+        const rescheduled = await storage.updateRecurringTask(id, {
+          nextGenerationAt: getOccurrenceOnOrAfter(updated, new Date()),
+        });
+        return res.json(rescheduled || updated);
+      }
       res.json(updated);
     } catch (error) {
       console.error("Error updating recurring task:", error);
@@ -4690,6 +4691,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview the next N occurrences of a recurring task
+  app.get("/api/recurring-tasks/:id/preview", requireRole("content"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const task = await storage.getRecurringTask(id);
+      if (!task) {
+        return res.status(404).json({ error: "Recurring task not found" });
+      }
+      const count = Math.min(Math.max(parseInt(req.query.count as string) || 5, 1), 52);
+      const occurrences = previewOccurrences(task, count).map(formatOccurrenceDate);
+      res.json({ recurringTaskId: id, occurrences });
+    } catch (error) {
+      console.error("Error previewing recurring task:", error);
+      res.status(500).json({ error: "Failed to preview recurring task" });
+    }
+  });
+
+  // Get occurrences already generated for a recurring task
+  app.get("/api/recurring-tasks/:id/occurrences", requireRole("content"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const occurrences = await storage.getRecurringTaskOccurrences(id);
+      res.json(occurrences);
+    } catch (error) {
+      console.error("Error fetching recurring task occurrences:", error);
+      res.status(500).json({ error: "Failed to fetch occurrences" });
+    }
+  });
+
+  // Generate now - catches up due occurrences, or pulls the next one forward if nothing is due
+  app.post("/api/recurring-tasks/:id/generate", requireRole("content"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const task = await storage.getRecurringTask(id);
+      if (!task) {
+        return res.status(404).json({ error: "Recurring task not found" });
+      }
+      const result = await generateRecurringTask(task, { force: true });
+      res.json(result);
+    } catch (error) {
+      console.error("Error generating recurring task:", error);
+      res.status(500).json({ error: "Failed to generate recurring task" });
+    }
+  });
+
   // ================== NOTIFICATION PREFERENCES ENDPOINTS ==================
 
   // Get user's notification preferences
@@ -5571,6 +5617,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               firstName: reviewer.firstName,
               lastName: reviewer.lastName,
             } : null,
+            receipts: await storage.getPaymentRequestReceipts(request.id),
           };
         }));
         return res.json(enriched);
@@ -5616,8 +5663,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      // Get events timeline
+      // Get events timeline, approvals and receipts
       const events = await storage.getPaymentRequestEvents(id);
+      const approvals = await storage.getPaymentRequestApprovals(id);
+      const receipts = await storage.getPaymentRequestReceipts(id);
+      const category = request.categoryId ? await storage.getPaymentBudgetCategory(request.categoryId) : undefined;
       
       // Enrich with user info
       const requester = await storage.getUser(request.requesterId);
@@ -5653,6 +5703,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastName: reviewer.lastName,
         } : null,
         events: enrichedEvents,
+        approvals: await Promise.all(approvals.map(async (approval) => {
+          const approver = await storage.getUser(approval.approverId);
+          return {
+            ...approval,
+            approver: approver ? {
+              id: approver.id,
+              firstName: approver.firstName,
+              lastName: approver.lastName,
+            } : null,
+          };
+        })),
+        receipts,
+        category: category ? { id: category.id, name: category.name } : null,
       });
     } catch (error) {
       console.error("Error fetching payment request:", error);
@@ -5663,130 +5726,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create new payment request - content users only
   app.post("/api/payment-requests", requireRole("content"), async (req, res) => {
     try {
-      const user = req.user!;
-      const { amount, currency, reason, description } = req.body;
-      
-      if (!amount || !reason) {
-        return res.status(400).json({ error: "Amount and reason are required" });
-      }
-      
-      // Create the payment request
-      const request = await storage.createPaymentRequest({
-        requesterId: user.id,
-        amount: String(amount),
-        currency: currency || "USD",
-        reason,
-        description: description || null,
-      });
-      
-      // Create initial event
-      await storage.createPaymentRequestEvent({
-        paymentRequestId: request.id,
-        actorId: user.id,
-        eventType: "created",
-        previousStatus: null,
-        newStatus: "pending",
-        note: null,
-      });
-      
-      // Notify admins
-      const admins = (await storage.getAllUsers()).filter(u => u.role === "admin");
-      const requesterName = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
-      
-      for (const admin of admins) {
-        await storage.createNotification({
-          userId: admin.id,
-          type: "payment_request",
-          title: "New Payment Request",
-          message: `${requesterName} submitted a payment request for ${currency || "USD"} ${amount}`,
-          metadata: JSON.stringify({ paymentRequestId: request.id }),
-        });
-      }
-      
-      // Send external notifications
-      try {
-        await channelNotificationService.sendPaymentRequestNotification(
-          "created",
-          request,
-          requesterName
-        );
-      } catch (notifyError) {
-        console.error("Error sending external notifications:", notifyError);
-        // Don't fail the request if external notifications fail
+      const user = req.user as User;
+      const validationResult = createPaymentRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
       }
-      
-      res.status(201).json(request);
+      const result = await submitPaymentRequest(user, validationResult.data);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
     } catch (error) {
       console.error("Error creating payment request:", error);
       res.status(500).json({ error: "Failed to create payment request" });
     }
   });
 
-  // Update payment request status - admin approve/reject
+  // Approve or reject a payment request - admin only; approvals count until the request's threshold is met
   app.patch("/api/payment-requests/:id/status", requireRole("admin"), async (req, res) => {
     try {
-      const user = req.user!;
-      const id = parseInt(req.params.id);
-      const { status, note } = req.body;
-      
-      if (!status || !["approved", "rejected"].includes(status)) {
-        return res.status(400).json({ error: "Status must be 'approved' or 'rejected'" });
-      }
-      
-      const existingRequest = await storage.getPaymentRequest(id);
-      if (!existingRequest) {
-        return res.status(404).json({ error: "Payment request not found" });
-      }
-      
-      if (existingRequest.status !== "pending") {
-        return res.status(400).json({ error: "Can only update pending requests" });
-      }
-      
-      // Update the status
-      const updated = await storage.updatePaymentRequestStatus(id, status, user.id, note);
-      
-      if (!updated) {
-        return res.status(500).json({ error: "Failed to update request" });
-      }
-      
-      // Create event
-      await storage.createPaymentRequestEvent({
-        paymentRequestId: id,
-        actorId: user.id,
-        eventType: status,
-        previousStatus: "pending",
-        newStatus: status,
-        note: note || null,
-      });
-      
-      // Notify the requester
-      const requester = await storage.getUser(existingRequest.requesterId);
-      const adminName = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
-      
-      if (requester) {
-        await storage.createNotification({
-          userId: requester.id,
-          type: "payment_request",
-          title: `Payment Request ${status === "approved" ? "Approved" : "Rejected"}`,
-          message: `Your payment request for ${existingRequest.currency} ${existingRequest.amount} has been ${status} by ${adminName}${note ? `: ${note}` : ""}`,
-          metadata: JSON.stringify({ paymentRequestId: id }),
-        });
-      }
-      
-      // Send external notifications
-      try {
-        const requesterName = requester ? [requester.firstName, requester.lastName].filter(Boolean).join(" ") || requester.email : "Unknown";
-        await channelNotificationService.sendPaymentRequestNotification(
-          status,
-          updated,
-          requesterName,
-          adminName
-        );
-      } catch (notifyError) {
-        console.error("Error sending external notifications:", notifyError);
+      const user = req.user as User;
+      const validationResult = reviewPaymentRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
       }
-      
-      res.json(updated);
+      const result = await reviewPaymentRequest(user, parseInt(req.params.id), validationResult.data);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
     } catch (error) {
       console.error("Error updating payment request:", error);
       res.status(500).json({ error: "Failed to update payment request" });
@@ -5796,53 +5760,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Cancel payment request - requester can cancel their own pending request
   app.delete("/api/payment-requests/:id", isAuthenticated, async (req, res) => {
     try {
-      const user = req.user!;
-      const id = parseInt(req.params.id);
-      
-      const existingRequest = await storage.getPaymentRequest(id);
-      if (!existingRequest) {
-        return res.status(404).json({ error: "Payment request not found" });
-      }
-      
-      // Only requester can cancel their own pending request
-      if (existingRequest.requesterId !== user.id) {
-        return res.status(403).json({ error: "Can only cancel your own requests" });
-      }
-      
-      if (existingRequest.status !== "pending") {
-        return res.status(400).json({ error: "Can only cancel pending requests" });
-      }
-      
-      const cancelled = await storage.cancelPaymentRequest(id, user.id);
-      
-      if (!cancelled) {
-        return res.status(500).json({ error: "Failed to cancel request" });
-      }
-      
-      // Create event
-      await storage.createPaymentRequestEvent({
-        paymentRequestId: id,
-        actorId: user.id,
-        eventType: "cancelled",
-        previousStatus: "pending",
-        newStatus: "cancelled",
-        note: null,
-      });
-      
-      // Notify admins
-      const admins = (await storage.getAllUsers()).filter(u => u.role === "admin");
-      const requesterName = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
-      
-      for (const admin of admins) {
-        await storage.createNotification({
-          userId: admin.id,
-          type: "payment_request",
-          title: "Payment Request Cancelled",
-          message: `${requesterName} cancelled their payment request for ${existingRequest.currency} ${existingRequest.amount}`,
-          metadata: JSON.stringify({ paymentRequestId: id }),
-        });
-      }
-      
+      const user = req.user as User;
+      const result = await cancelPaymentRequest(user, parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
       res.json({ success: true, message: "Payment request cancelled" });
     } catch (error) {
       console.error("Error cancelling payment request:", error);
@@ -5850,6 +5770,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Attach a receipt (PDF or image) - requester or admin
+  app.post("/api/payment-requests/:id/receipts", isAuthenticated, upload.single("file"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      if (!req.file) {
+        return res.status(400).json({ error: "No file provided" });
+      }
+      const result = await addReceipt(user, parseInt(req.params.id), req.file);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error uploading receipt:", error);
+      res.status(500).json({ error: "Failed to upload receipt" });
+    }
+  });
+
+  // Download a receipt - requester or admin
+  app.get("/api/payment-requests/:id/receipts/:receiptId", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const result = await getReceiptFile(user, parseInt(req.params.id), parseInt(req.params.receiptId));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.setHeader("Content-Type", result.value.receipt.mimeType);
+      res.download(result.value.absolutePath, result.value.receipt.originalName);
+    } catch (error) {
+      console.error("Error downloading receipt:", error);
+      res.status(500).json({ error: "Failed to download receipt" });
+    }
+  });
+
+  // Remove a receipt - requester while pending, or admin
+  app.delete("/api/payment-requests/:id/receipts/:receiptId", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const result = await removeReceipt(user, parseInt(req.params.id), parseInt(req.params.receiptId));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing receipt:", error);
+      res.status(500).json({ error: "Failed to remove receipt" });
+    }
+  });
+
   // Get pending payment request count - for admin badge
   app.get("/api/payment-requests/pending/count", requireRole("admin"), async (req, res) => {
     try {
@@ -5861,6 +5824,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Budget categories with their spending this period - active ones for everyone, all for admins
+  app.get("/api/payment-budget-categories", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const budgets = await getCategoryBudgets();
+      res.json(user.role === "admin" ? budgets : budgets.filter(b => b.category.isActive));
+    } catch (error) {
+      console.error("Error fetching budget categories:", error);
+      res.status(500).json({ error: "Failed to fetch budget categories" });
+    }
+  });
+
+  app.post("/api/payment-budget-categories", requireRole("admin"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const validationResult = insertPaymentBudgetCategorySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const category = await storage.createPaymentBudgetCategory({ ...validationResult.data, createdBy: user.id });
+      res.status(201).json(category);
+    } catch (error) {
+      console.error("Error creating budget category:", error);
+      res.status(500).json({ error: "Failed to create budget category" });
+    }
+  });
+
+  app.patch("/api/payment-budget-categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validationResult = insertPaymentBudgetCategorySchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const category = await storage.updatePaymentBudgetCategory(parseInt(req.params.id), validationResult.data);
+      if (!category) {
+        return res.status(404).json({ error: "Budget category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("Error updating budget category:", error);
+      res.status(500).json({ error: "Failed to update budget category" });
+    }
+  });
+
+  // Approval thresholds - admin only
+  app.get("/api/payment-approval-thresholds", requireRole("admin"), async (req, res) => {
+    try {
+      const thresholds = await storage.getPaymentApprovalThresholds();
+      res.json(thresholds);
+    } catch (error) {
+      console.error("Error fetching approval thresholds:", error);
+      res.status(500).json({ error: "Failed to fetch approval thresholds" });
+    }
+  });
+
+  // Set the approvals needed above an amount; applies to requests submitted afterwards
+  app.put("/api/payment-approval-thresholds", requireRole("admin"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const validationResult = upsertPaymentApprovalThresholdSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const threshold = await storage.upsertPaymentApprovalThreshold({ ...validationResult.data, createdBy: user.id });
+      res.json(threshold);
+    } catch (error) {
+      console.error("Error saving approval threshold:", error);
+      res.status(500).json({ error: "Failed to save approval threshold" });
+    }
+  });
+
+  app.delete("/api/payment-approval-thresholds/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deletePaymentApprovalThreshold(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Approval threshold not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting approval threshold:", error);
+      res.status(500).json({ error: "Failed to delete approval threshold" });
+    }
+  });
+
   // ================== BRAND PACKS ENDPOINTS ==================
 
   // Get all brand packs (content users see active only, admin sees all)
@@ -6917,6 +6964,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Return zero balance if no credit record exists
         return res.json({
           balance: 0,
+          heldBalance: 0,
           currency: "USD",
           transactions: [],
         });
@@ -6927,6 +6975,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         balance: credit.balance,
+        heldBalance: credit.heldBalance,
         currency: credit.currency,
         notes: credit.notes,
         transactions,
@@ -6948,6 +6997,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({
           userId,
           balance: 0,
+          heldBalance: 0,
           currency: "USD",
           notes: null,
           user: user ? {
@@ -6998,11 +7048,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Convert amount to cents if given in dollars
       const amountInCents = Math.round(amount * 100);
       
+      // Retrying with the same Idempotency-Key header returns the original result instead of adding twice
+      const idempotencyKey = req.get("Idempotency-Key");
       const credit = await storage.addClientCredit(
         userId,
         amountInCents,
         description || "Credit added by admin",
-        admin.id
+        admin.id,
+        idempotencyKey ? `admin-add:${userId}:${idempotencyKey}` : undefined
       );
       
       res.json({
@@ -7029,12 +7082,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Convert amount to cents if given in dollars
       const amountInCents = Math.round(amount * 100);
       
+      const idempotencyKey = req.get("Idempotency-Key");
       const credit = await storage.deductClientCredit(
         userId,
         amountInCents,
         description || "Credit deducted by admin",
         taskId || undefined,
-        admin.id
+        admin.id,
+        idempotencyKey ? `admin-deduct:${userId}:${idempotencyKey}` : undefined
       );
       
       res.json({
@@ -7087,6 +7142,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recompute every client balance from the credit ledger and report drift (admin only)
+  app.get("/api/admin/credits/reconciliation", requireRole("admin"), async (req, res) => {
+    try {
+      const report = await storage.reconcileClientCredits();
+      res.json(report);
+    } catch (error) {
+      console.error("Error reconciling client credits:", error);
+      res.status(500).json({ error: "Failed to reconcile client credits" });
+    }
+  });
+
+  // Give pre-ledger transactions their ledger entries, then report again (admin only)
+  app.post("/api/admin/credits/reconciliation/backfill", requireRole("admin"), async (req, res) => {
+    try {
+      const backfilledTransactions = await storage.backfillCreditLedger();
+      const report = await storage.reconcileClientCredits();
+      res.json({ backfilledTransactions, report });
+    } catch (error) {
+      console.error("Error backfilling the credit ledger:", error);
+      res.status(500).json({ error: "Failed to backfill the credit ledger" });
+    }
+  });
+
   // Get all users for credit management (admin only)
   app.get("/api/client-credits/eligible-users", requireRole("admin"), async (req, res) => {
     try {
@@ -7343,9 +7421,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Cannot edit this order" });
       }
       
-      const updates = req.body;
+      // Status moves through submit/complete/cancel, which hold, capture and release the credits
+      const { status, submittedAt, completedAt, ...updates } = req.body;
+      if (status !== undefined && status !== order.status) {
+        return res.status(409).json({ error: "Use the submit, complete or cancel actions to change an order's status" });
+      }
       if (updates.creditCost) {
         updates.creditCost = Math.round(updates.creditCost * 100);
+        if (order.status !== "draft" && updates.creditCost !== order.creditCost) {
+          return res.status(409).json({ error: "Credits are already held for this order; its cost can't change" });
+        }
       }
       if (updates.dueDate) {
         updates.dueDate = new Date(updates.dueDate);
@@ -8630,47 +8715,314 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ==================== TEAM STRUCTURE ROUTES ====================
+  // ==================== PAYROLL RUN ROUTES ====================
 
-  // Get team hierarchy (all members with supervisor info) - admin only
-  app.get("/api/team-structure/hierarchy", requireRole("admin"), async (req: any, res) => {
+  // List payroll runs, newest period first - admin only
+  app.get("/api/payroll-runs", requireRole("admin"), async (req: any, res) => {
     try {
-      const members = await storage.getTeamHierarchy();
-      res.json(members);
+      const status = req.query.status as string | undefined;
+      if (status && !(payrollRunStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${payrollRunStatuses.join(", ")}` });
+      }
+      const runs = await storage.getPayrollRuns(status as PayrollRunStatus | undefined);
+      res.json(runs);
     } catch (error) {
-      console.error("Error fetching team hierarchy:", error);
-      res.status(500).json({ error: "Failed to fetch team hierarchy" });
+      console.error("Error fetching payroll runs:", error);
+      res.status(500).json({ error: "Failed to fetch payroll runs" });
     }
   });
 
-  // Get direct reports for a supervisor - admin only
-  app.get("/api/team-structure/reports/:supervisorId", requireRole("admin"), async (req: any, res) => {
+  // Create a draft run for a pay period (defaults to the latest completed one) - admin only
+  app.post("/api/payroll-runs", requireRole("admin"), async (req: any, res) => {
     try {
-      const supervisorId = parseInt(req.params.supervisorId);
-      const members = await storage.getTeamMembersBySupervisor(supervisorId);
-      res.json(members);
+      const validationResult = createPayrollRunSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const result = await createPayrollRun(validationResult.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
     } catch (error) {
-      console.error("Error fetching direct reports:", error);
-      res.status(500).json({ error: "Failed to fetch direct reports" });
+      console.error("Error creating payroll run:", error);
+      res.status(500).json({ error: "Failed to create payroll run" });
     }
   });
 
-  // Get team members by employment type - admin only
-  app.get("/api/team-structure/type/:type", requireRole("admin"), async (req: any, res) => {
+  // Run with its lines - admin only
+  app.get("/api/payroll-runs/:id", requireRole("admin"), async (req: any, res) => {
     try {
-      const employmentType = req.params.type;
-      const members = await storage.getTeamMembersByEmploymentType(employmentType);
-      res.json(members);
+      const detail = await getPayrollRunDetail(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      res.json(detail);
     } catch (error) {
-      console.error("Error fetching team members by employment type:", error);
-      res.status(500).json({ error: "Failed to fetch team members" });
+      console.error("Error fetching payroll run:", error);
+      res.status(500).json({ error: "Failed to fetch payroll run" });
     }
   });
 
-  // ==================== TEAM MEMBER CLIENT ASSIGNMENTS ROUTES ====================
-
-  // Get client assignments for a team member - admin only
-  app.get("/api/team-structure/assignments/:memberId", requireRole("admin"), async (req: any, res) => {
+  // Recompute a draft from current rates, tasks and time entries - admin only
+  app.post("/api/payroll-runs/:id/recalculate", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await recalculatePayrollRun(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error recalculating payroll run:", error);
+      res.status(500).json({ error: "Failed to recalculate payroll run" });
+    }
+  });
+
+  // Approve a draft, creating pending team payments for Safe payout - admin only
+  app.post("/api/payroll-runs/:id/approve", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await approvePayrollRun(parseInt(req.params.id), req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error approving payroll run:", error);
+      res.status(500).json({ error: "Failed to approve payroll run" });
+    }
+  });
+
+  // Mark an approved run paid outside a Safe batch - admin only
+  app.post("/api/payroll-runs/:id/paid", requireRole("admin"), async (req: any, res) => {
+    try {
+      const validationResult = markPayrollRunPaidSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const result = await markPayrollRunPaid(parseInt(req.params.id), req.user.id, validationResult.data);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error marking payroll run paid:", error);
+      res.status(500).json({ error: "Failed to mark payroll run paid" });
+    }
+  });
+
+  // Cancel a draft, or an approved run none of whose payments have gone out - admin only
+  app.post("/api/payroll-runs/:id/cancel", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await cancelPayrollRun(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error cancelling payroll run:", error);
+      res.status(500).json({ error: "Failed to cancel payroll run" });
+    }
+  });
+
+  // Add a bonus, deduction or adjustment to a draft line - admin only
+  app.post("/api/payroll-runs/:id/lines/:lineId/adjustments", requireRole("admin"), async (req: any, res) => {
+    try {
+      const validationResult = createPayrollAdjustmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const line = await storage.getPayrollRunLine(parseInt(req.params.lineId));
+      if (!line || line.runId !== parseInt(req.params.id)) {
+        return res.status(404).json({ error: "Payroll line not found" });
+      }
+      const result = await addPayrollAdjustment(line.id, validationResult.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error adding payroll adjustment:", error);
+      res.status(500).json({ error: "Failed to add payroll adjustment" });
+    }
+  });
+
+  // Remove an adjustment from a draft line - admin only
+  app.delete("/api/payroll-runs/:id/lines/:lineId/adjustments/:adjustmentId", requireRole("admin"), async (req: any, res) => {
+    try {
+      const line = await storage.getPayrollRunLine(parseInt(req.params.lineId));
+      if (!line || line.runId !== parseInt(req.params.id)) {
+        return res.status(404).json({ error: "Payroll line not found" });
+      }
+      const result = await removePayrollAdjustment(line.id, req.params.adjustmentId);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error removing payroll adjustment:", error);
+      res.status(500).json({ error: "Failed to remove payroll adjustment" });
+    }
+  });
+
+  // Export a run as CSV - admin only
+  app.get("/api/payroll-runs/:id/export.csv", requireRole("admin"), async (req: any, res) => {
+    try {
+      const detail = await getPayrollRunDetail(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ error: "Payroll run not found" });
+      }
+      const fileName = `payroll-run-${detail.run.id}-${detail.run.payFrequency}-${detail.run.periodStart.toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(payrollRunCsv(detail));
+    } catch (error) {
+      console.error("Error exporting payroll run:", error);
+      res.status(500).json({ error: "Failed to export payroll run" });
+    }
+  });
+
+  // Payroll statement for a member, as JSON or ?format=csv - admin only
+  app.get("/api/internal-team/:id/payroll-statement", requireRole("admin"), async (req: any, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: "from and to must be dates" });
+      }
+      const statement = await getPayrollStatement(parseInt(req.params.id), from, to);
+      if (!statement) {
+        return res.status(404).json({ error: "Team member not found" });
+      }
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename="payroll-statement-${statement.member.id}.csv"`);
+        return res.send(payrollStatementCsv(statement));
+      }
+      res.json(statement);
+    } catch (error) {
+      console.error("Error fetching payroll statement:", error);
+      res.status(500).json({ error: "Failed to fetch payroll statement" });
+    }
+  });
+
+  // ==================== ACCOUNTING EXPORT ROUTES ====================
+
+  // Chart of accounts used by exports (defaults merged with admin overrides)
+  app.get("/api/accounting/accounts", requireRole("admin"), async (req: any, res) => {
+    try {
+      res.json(await getChartOfAccounts());
+    } catch (error) {
+      console.error("Error fetching chart of accounts:", error);
+      res.status(500).json({ error: "Failed to fetch chart of accounts" });
+    }
+  });
+
+  app.put("/api/accounting/accounts/:key", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = updateAccountingAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await setAccountMapping(req.params.key, parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating account mapping:", error);
+      res.status(500).json({ error: "Failed to update account mapping" });
+    }
+  });
+
+  // Reset an account to its default code and name
+  app.delete("/api/accounting/accounts/:key", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await resetAccountMapping(req.params.key);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error resetting account mapping:", error);
+      res.status(500).json({ error: "Failed to reset account mapping" });
+    }
+  });
+
+  app.get("/api/accounting/exports", requireRole("admin"), async (req: any, res) => {
+    try {
+      res.json(await storage.getAccountingExports());
+    } catch (error) {
+      console.error("Error fetching accounting exports:", error);
+      res.status(500).json({ error: "Failed to fetch accounting exports" });
+    }
+  });
+
+  app.post("/api/accounting/exports", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = createAccountingExportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await createAccountingExport(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error creating accounting export:", error);
+      res.status(500).json({ error: "Failed to create accounting export" });
+    }
+  });
+
+  app.get("/api/accounting/exports/:id", requireRole("admin"), async (req: any, res) => {
+    try {
+      const stored = await storage.getAccountingExport(parseInt(req.params.id));
+      if (!stored) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+      const { content, ...summary } = stored;
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching accounting export:", error);
+      res.status(500).json({ error: "Failed to fetch accounting export" });
+    }
+  });
+
+  app.get("/api/accounting/exports/:id/download", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await getAccountingExportFile(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${result.value.fileName}"`);
+      res.setHeader("X-Content-SHA256", result.value.sha256);
+      res.send(result.value.content);
+    } catch (error) {
+      console.error("Error downloading accounting export:", error);
+      res.status(500).json({ error: "Failed to download accounting export" });
+    }
+  });
+
+  // ==================== TEAM STRUCTURE ROUTES ====================
+
+  // Get team hierarchy (all members with supervisor info) - admin only
+  app.get("/api/team-structure/hierarchy", requireRole("admin"), async (req: any, res) => {
+    try {
+      const members = await storage.getTeamHierarchy();
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching team hierarchy:", error);
+      res.status(500).json({ error: "Failed to fetch team hierarchy" });
+    }
+  });
+
+  // Get direct reports for a supervisor - admin only
+  app.get("/api/team-structure/reports/:supervisorId", requireRole("admin"), async (req: any, res) => {
+    try {
+      const supervisorId = parseInt(req.params.supervisorId);
+      const members = await storage.getTeamMembersBySupervisor(supervisorId);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching direct reports:", error);
+      res.status(500).json({ error: "Failed to fetch direct reports" });
+    }
+  });
+
+  // Get team members by employment type - admin only
+  app.get("/api/team-structure/type/:type", requireRole("admin"), async (req: any, res) => {
+    try {
+      const employmentType = req.params.type;
+      const members = await storage.getTeamMembersByEmploymentType(employmentType);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching team members by employment type:", error);
+      res.status(500).json({ error: "Failed to fetch team members" });
+    }
+  });
+
+  // ==================== TEAM MEMBER CLIENT ASSIGNMENTS ROUTES ====================
+
+  // Get client assignments for a team member - admin only
+  app.get("/api/team-structure/assignments/:memberId", requireRole("admin"), async (req: any, res) => {
     try {
       const memberId = parseInt(req.params.memberId);
       const assignments = await storage.getTeamMemberClientAssignments(memberId);
@@ -9829,6 +10181,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user as User;
       const whiteboardId = parseInt(req.params.whiteboardId);
       const element = await storage.createWhiteboardElement({ ...req.body, whiteboardId, createdBy: user.id });
+      broadcastWhiteboardEvent(whiteboardId, { type: "element-created", element, userId: user.id });
       res.status(201).json(element);
     } catch (error) {
       console.error("Error creating whiteboard element:", error);
@@ -9838,11 +10191,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/whiteboard-elements/:id", requireRole("content", "admin"), async (req: any, res) => {
     try {
+      const userId = req.user?.id;
       const id = parseInt(req.params.id);
-      const updated = await storage.updateWhiteboardElement(id, req.body);
+      // Optional version: reject the edit if someone else changed the element since it was read
+      const { version, ...updates } = req.body;
+      const updated = await storage.updateWhiteboardElement(id, updates, typeof version === "number" ? version : undefined);
       if (!updated) {
+        const current = await storage.getWhiteboardElement(id);
+        if (current) {
+          return res.status(409).json({ error: "Element was modified by someone else", current });
+        }
         return res.status(404).json({ error: "Element not found" });
       }
+      broadcastWhiteboardEvent(updated.whiteboardId, { type: "element-updated", element: updated, userId });
       res.json(updated);
     } catch (error) {
       console.error("Error updating whiteboard element:", error);
@@ -9852,8 +10213,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/whiteboards/:whiteboardId/elements/bulk", requireRole("content", "admin"), async (req: any, res) => {
     try {
+      const userId = req.user?.id;
+      const whiteboardId = parseInt(req.params.whiteboardId);
       const { updates } = req.body;
       const results = await storage.bulkUpdateWhiteboardElements(updates);
+      for (const element of results) {
+        broadcastWhiteboardEvent(whiteboardId, { type: "element-updated", element, userId });
+      }
       res.json(results);
     } catch (error) {
       console.error("Error bulk updating whiteboard elements:", error);
@@ -9863,8 +10229,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/whiteboard-elements/:id", requireRole("content", "admin"), async (req: any, res) => {
     try {
+      const userId = req.user?.id;
       const id = parseInt(req.params.id);
+      const element = await storage.getWhiteboardElement(id);
       await storage.deleteWhiteboardElement(id);
+      if (element) {
+        broadcastWhiteboardEvent(element.whiteboardId, { type: "element-deleted", id, userId });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting whiteboard element:", error);
@@ -9887,8 +10258,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/whiteboards/:whiteboardId/connectors", requireRole("content", "admin"), async (req: any, res) => {
     try {
+      const userId = req.user?.id;
       const whiteboardId = parseInt(req.params.whiteboardId);
       const connector = await storage.createWhiteboardConnector({ ...req.body, whiteboardId });
+      broadcastWhiteboardEvent(whiteboardId, { type: "connector-created", connector, userId });
       res.status(201).json(connector);
     } catch (error) {
       console.error("Error creating whiteboard connector:", error);
@@ -9898,8 +10271,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/whiteboard-connectors/:id", requireRole("content", "admin"), async (req: any, res) => {
     try {
+      const userId = req.user?.id;
       const id = parseInt(req.params.id);
+      const connector = await storage.getWhiteboardConnector(id);
       await storage.deleteWhiteboardConnector(id);
+      if (connector) {
+        broadcastWhiteboardEvent(connector.whiteboardId, { type: "connector-deleted", id, userId });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting whiteboard connector:", error);
@@ -9934,12 +10312,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Who is connected to the whiteboard's live channel right now
+  app.get("/api/whiteboards/:whiteboardId/presence", isAuthenticated, async (req: any, res) => {
+    try {
+      const whiteboardId = parseInt(req.params.whiteboardId);
+      res.json(getWhiteboardPresence(whiteboardId));
+    } catch (error) {
+      console.error("Error fetching whiteboard presence:", error);
+      res.status(500).json({ error: "Failed to fetch presence" });
+    }
+  });
+
   app.post("/api/whiteboards/:whiteboardId/cursor", isAuthenticated, async (req: any, res) => {
     try {
       const user = req.user as User;
       const whiteboardId = parseInt(req.params.whiteboardId);
       const { cursorX, cursorY } = req.body;
       await storage.updateCollaboratorCursor(whiteboardId, user.id, cursorX, cursorY);
+      broadcastWhiteboardEvent(whiteboardId, { type: "cursor", userId: user.id, x: cursorX, y: cursorY });
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating cursor:", error);
@@ -10216,6 +10606,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // DAO Revenue Split Policies
+  app.get("/api/dao/split-policies", isAuthenticated, async (req: any, res) => {
+    try {
+      const policies = await getSplitPolicies(req.query.policyKey as string | undefined);
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching split policies:", error);
+      res.status(500).json({ error: "Failed to fetch split policies" });
+    }
+  });
+
+  app.get("/api/dao/split-policies/current", isAuthenticated, async (req: any, res) => {
+    try {
+      const policy = await getEffectiveSplitPolicy(req.query.policyKey as string | undefined);
+      if (!policy) {
+        return res.status(404).json({ error: "No split policy is in effect" });
+      }
+      res.json(policy);
+    } catch (error) {
+      console.error("Error fetching current split policy:", error);
+      res.status(500).json({ error: "Failed to fetch split policy" });
+    }
+  });
+
+  app.get("/api/dao/split-policies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const policy = await storage.getDaoRevenueSplitPolicy(parseInt(req.params.id));
+      if (!policy) {
+        return res.status(404).json({ error: "Split policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      console.error("Error fetching split policy:", error);
+      res.status(500).json({ error: "Failed to fetch split policy" });
+    }
+  });
+
+  // Policies are never edited in place; each change publishes the next version of its key
+  app.post("/api/dao/split-policies", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = insertDaoRevenueSplitPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await publishSplitPolicyVersion(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error publishing split policy:", error);
+      res.status(500).json({ error: "Failed to publish split policy" });
+    }
+  });
+
   // DAO Projects
   app.get("/api/dao/projects", isAuthenticated, async (req: any, res) => {
     try {
@@ -10244,7 +10687,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/dao/projects", requireRole("content", "admin"), async (req: any, res) => {
     try {
       const user = req.user as User;
-      const project = await storage.createDaoProject({ ...req.body, createdBy: user.id });
+      const terms = await getNewProjectSplitTerms(req.body.splitPolicyId ? Number(req.body.splitPolicyId) : null, req.body.finalAmount);
+      if (!terms.ok) return sendWorkflowError(res, terms);
+      const project = await storage.createDaoProject({ ...req.body, ...terms.value, createdBy: user.id });
       res.status(201).json(project);
     } catch (error) {
       console.error("Error creating DAO project:", error);
@@ -10255,7 +10700,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/dao/projects/:id", requireRole("content", "admin"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const project = await storage.updateDaoProject(id, req.body);
+      // The pinned policy changes through /split-policy; the treasury share follows the final amount
+      const { splitPolicyId, treasuryContribution, ...updates } = req.body;
+      if ("finalAmount" in updates) {
+        const existing = await storage.getDaoProject(id);
+        if (!existing) {
+          return res.status(404).json({ error: "Project not found" });
+        }
+        updates.treasuryContribution = await getProjectTreasuryContribution(existing, updates.finalAmount ?? null);
+      }
+      const project = await storage.updateDaoProject(id, updates);
       res.json(project);
     } catch (error) {
       console.error("Error updating DAO project:", error);
@@ -10266,6 +10720,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/dao/projects/:id", requireRole("admin"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
+      // Deleting would cascade to numbered invoices and leave gaps in the sequence
+      if (await storage.hasIssuedDaoInvoices(id)) {
+        return res.status(409).json({ error: "Projects with issued invoices can't be deleted; void the invoices and cancel the project instead" });
+      }
       await storage.deleteDaoProject(id);
       res.json({ success: true });
     } catch (error) {
@@ -10274,6 +10732,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/dao/projects/:id/split-policy", isAuthenticated, async (req: any, res) => {
+    try {
+      const project = await storage.getDaoProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(await resolveProjectSplitPolicy(project));
+    } catch (error) {
+      console.error("Error fetching project split policy:", error);
+      res.status(500).json({ error: "Failed to fetch split policy" });
+    }
+  });
+
+  app.post("/api/dao/projects/:id/split-policy", requireRole("admin"), async (req: any, res) => {
+    try {
+      const splitPolicyId = Number(req.body.splitPolicyId);
+      if (!Number.isInteger(splitPolicyId)) {
+        return res.status(400).json({ error: "splitPolicyId is required" });
+      }
+      const result = await repinProjectSplitPolicy(parseInt(req.params.id), splitPolicyId);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error changing project split policy:", error);
+      res.status(500).json({ error: "Failed to change split policy" });
+    }
+  });
+
   // DAO Project Services
   app.get("/api/dao/projects/:projectId/services", isAuthenticated, async (req: any, res) => {
     try {
@@ -10331,11 +10817,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Validates an attribution and fills in the amount and multiplier from the project's split policy
+  async function createProjectAttribution(res: any, projectId: number, body: any) {
+    const parsed = insertDaoRevenueAttributionSchema.safeParse({ ...body, projectId });
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+    }
+    const project = await storage.getDaoProject(projectId);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    const result = await applySplitPolicyToAttribution(project, parsed.data);
+    if (!result.ok) return sendWorkflowError(res, result);
+    const attribution = await storage.createDaoRevenueAttribution(result.value);
+    res.status(201).json(attribution);
+  }
+
   app.post("/api/dao/projects/:projectId/attributions", requireRole("content", "admin"), async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const attribution = await storage.createDaoRevenueAttribution({ ...req.body, projectId });
-      res.status(201).json(attribution);
+      await createProjectAttribution(res, parseInt(req.params.projectId), req.body);
     } catch (error) {
       console.error("Error creating attribution:", error);
       res.status(500).json({ error: "Failed to create attribution" });
@@ -10348,8 +10848,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!projectId) {
         return res.status(400).json({ error: "projectId is required" });
       }
-      const attribution = await storage.createDaoRevenueAttribution({ ...data, projectId });
-      res.status(201).json(attribution);
+      await createProjectAttribution(res, parseInt(projectId), data);
     } catch (error) {
       console.error("Error creating attribution:", error);
       res.status(500).json({ error: "Failed to create attribution" });
@@ -10360,10 +10859,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const projectId = parseInt(req.params.projectId);
       const { leadId, pmId, coreContributors, supportContributors } = req.body;
-      const attributions = await storage.applyDefaultAttributionTemplate(
-        projectId, leadId, pmId, coreContributors || [], supportContributors || []
-      );
-      res.status(201).json(attributions);
+      if (!Number.isInteger(leadId) || !Number.isInteger(pmId)) {
+        return res.status(400).json({ error: "leadId and pmId are required" });
+      }
+      const result = await applyAttributionTemplate(projectId, {
+        leadId,
+        pmId,
+        coreContributors: coreContributors || [],
+        supportContributors: supportContributors || [],
+      });
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
     } catch (error) {
       console.error("Error applying attribution template:", error);
       res.status(500).json({ error: "Failed to apply template" });
@@ -10452,6 +10958,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/dao/treasury/settings", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = z.object({
+        bonusTriggerThreshold: z.number().int().min(0).optional(),
+        bonusApprovalQuorum: z.number().int().min(1).optional(),
+        reconciliationWindowDays: z.number().int().min(0).max(90).optional(),
+        reconciliationAmountToleranceBps: z.number().int().min(0).max(10000).optional(),
+        reconciliationDriftToleranceBps: z.number().int().min(0).max(10000).optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      await storage.initializeDaoTreasury();
+      const treasury = await storage.updateDaoTreasurySettings(parsed.data);
+      res.json(treasury);
+    } catch (error) {
+      console.error("Error updating treasury settings:", error);
+      res.status(500).json({ error: "Failed to update treasury settings" });
+    }
+  });
+
   app.get("/api/dao/treasury/transactions", isAuthenticated, async (req: any, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit) : 50;
@@ -10477,7 +11004,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // DAO Bonus Runs
   app.get("/api/dao/bonus-runs", isAuthenticated, async (req: any, res) => {
     try {
-      const runs = await storage.getDaoBonusRuns();
+      const status = daoBonusRunStatuses.find(s => s === req.query.status);
+      const runs = await storage.getDaoBonusRuns(status);
       res.json(runs);
     } catch (error) {
       console.error("Error fetching bonus runs:", error);
@@ -10485,21 +11013,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dao/bonus-runs/:id", isAuthenticated, async (req: any, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const run = await storage.getDaoBonusRun(id);
-      const recipients = await storage.getDaoBonusRunRecipients(id);
-      res.json({ ...run, recipients });
-    } catch (error) {
-      console.error("Error fetching bonus run:", error);
-      res.status(500).json({ error: "Failed to fetch bonus run" });
-    }
+  app.get("/api/dao/bonus-scoring-models", isAuthenticated, async (req: any, res) => {
+    res.json(getBonusScoringModels());
   });
 
+  // ?model=&base=&revenue=&reliability= preview other scoring settings
   app.get("/api/dao/bonus-runs/simulate", isAuthenticated, async (req: any, res) => {
     try {
-      const simulation = await storage.simulateBonusDistribution();
+      const { model, base, revenue, reliability } = req.query;
+      const hasWeights = base !== undefined || revenue !== undefined || reliability !== undefined;
+      const parsed = daoBonusScoringOptionsSchema.safeParse({
+        scoringModel: model,
+        weights: hasWeights
+          ? { base: Number(base ?? 0), revenue: Number(revenue ?? 0), reliability: Number(reliability ?? 0) }
+          : undefined,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const simulation = await previewBonusDistribution(parsed.data);
       res.json(simulation);
     } catch (error) {
       console.error("Error simulating bonus distribution:", error);
@@ -10507,43 +11039,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/dao/bonus-runs", requireRole("admin"), async (req: any, res) => {
+  app.get("/api/dao/bonus-runs/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const user = req.user as User;
-      const membership = await storage.getDaoMembershipByUserId(user.id);
-      if (!membership?.isCouncil) {
-        return res.status(403).json({ error: "Only council members can trigger bonus distributions" });
+      const detail = await getBonusRunDetail(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ error: "Bonus run not found" });
       }
-      const run = await storage.executeBonusDistribution(user.id);
-      if (!run) {
-        return res.status(400).json({ error: "Bonus distribution not eligible or failed" });
+      res.json({ ...detail.run, recipients: detail.recipients, approvals: detail.approvals, tally: detail.tally, diff: detail.diff });
+    } catch (error) {
+      console.error("Error fetching bonus run:", error);
+      res.status(500).json({ error: "Failed to fetch bonus run" });
+    }
+  });
+
+  // Proposes a run; it executes once enough council members approve it
+  app.post("/api/dao/bonus-runs", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = daoBonusScoringOptionsSchema.extend({ notes: z.string().max(2000).nullable().optional() }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
       }
-      res.status(201).json(run);
+      const result = await proposeBonusRun(req.user.id, parsed.data);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
     } catch (error) {
-      console.error("Error triggering bonus distribution:", error);
-      res.status(500).json({ error: "Failed to trigger distribution" });
+      console.error("Error proposing bonus distribution:", error);
+      res.status(500).json({ error: "Failed to propose distribution" });
     }
   });
 
+  // Executes the open proposal once it has its council approvals
   app.post("/api/dao/bonus-runs/execute", requireRole("admin"), async (req: any, res) => {
     try {
-      const user = req.user as User;
-      // Verify council membership for bonus execution
-      const membership = await storage.getDaoMembershipByUserId(user.id);
-      if (!membership?.isCouncil) {
-        return res.status(403).json({ error: "Only council members can execute bonus distributions" });
-      }
-      const run = await storage.executeBonusDistribution(user.id);
-      if (!run) {
-        return res.status(400).json({ error: "Bonus distribution not eligible or failed" });
+      const [open] = await storage.getOpenDaoBonusRuns();
+      if (!open) {
+        return res.status(404).json({ error: "No bonus run is awaiting execution" });
       }
-      res.status(201).json(run);
+      const result = await executeBonusRun(open.id, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
     } catch (error) {
       console.error("Error executing bonus distribution:", error);
       res.status(500).json({ error: "Failed to execute distribution" });
     }
   });
 
+  app.post("/api/dao/bonus-runs/:id/votes", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = z.object({
+        decision: z.enum(daoBonusRunVoteDecisions),
+        comment: z.string().max(2000).nullable().optional(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await voteOnBonusRun(parseInt(req.params.id), req.user.id, parsed.data.decision, parsed.data.comment);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error recording bonus run vote:", error);
+      res.status(500).json({ error: "Failed to record vote" });
+    }
+  });
+
+  app.post("/api/dao/bonus-runs/:id/execute", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await executeBonusRun(parseInt(req.params.id), req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error executing bonus run:", error);
+      res.status(500).json({ error: "Failed to execute bonus run" });
+    }
+  });
+
+  app.post("/api/dao/bonus-runs/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "A reason is required" });
+      }
+      const result = await cancelBonusRun(parseInt(req.params.id), req.user.id, reason);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error cancelling bonus run:", error);
+      res.status(500).json({ error: "Failed to cancel bonus run" });
+    }
+  });
+
   // DAO Invoices
   app.get("/api/dao/invoices", isAuthenticated, async (req: any, res) => {
     try {
@@ -10582,7 +11166,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/dao/invoices/:id", requireRole("content", "admin"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const invoice = await storage.updateDaoInvoice(id, req.body);
+      const existing = await storage.getDaoInvoice(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      // Numbering, settlement and voiding go through their own endpoints
+      const {
+        invoiceNumber, sequenceYear, sequenceNumber, invoiceType, creditedInvoiceId, issuedAt, voidedAt, voidReason,
+        splitPolicyId, treasuryContribution, revenueCredits, creditedAmount, paidAt, emailedAt, emailedTo, ...updates
+      } = req.body;
+      if (updates.status === "paid" || updates.status === "void") {
+        return res.status(400).json({ error: `Use the ${updates.status === "paid" ? "mark-paid" : "void"} endpoint to change this status` });
+      }
+      // Only drafts change status here; settled, closed and issued invoices are voided or credited
+      if ("status" in updates && updates.status !== (existing.status ?? "draft")) {
+        if (existing.status === "paid" || existing.status === "void" || existing.status === "cancelled") {
+          return res.status(409).json({ error: `A ${existing.status} invoice's status can't be changed; void it or issue a credit note` });
+        }
+        if (existing.sequenceNumber !== null) {
+          return res.status(409).json({ error: "Issued invoices change status through mark-paid, void or a credit note" });
+        }
+      }
+      if (existing.sequenceNumber !== null && ["projectId", "phase", "amount"].some(field => field in updates)) {
+        return res.status(409).json({ error: "Issued invoices can't change project, phase or amount; void it or issue a credit note" });
+      }
+      if (updates.status === "sent" && existing.sequenceNumber === null) {
+        const issued = await issueDaoInvoice(id);
+        if (!issued.ok) return sendWorkflowError(res, issued);
+      }
+      const invoice = await storage.updateDaoInvoice(id, updates);
       res.json(invoice);
     } catch (error) {
       console.error("Error updating invoice:", error);
@@ -10592,29 +11204,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/dao/invoices/:id/mark-paid", requireRole("admin"), async (req: any, res) => {
     try {
+      const user = req.user as User;
       const id = parseInt(req.params.id);
       const { paymentMethod, paymentReference } = req.body;
-      const invoice = await storage.markDaoInvoicePaid(id, paymentMethod, paymentReference);
-      
-      // Record treasury contribution (15% of paid amount)
-      if (invoice) {
-        const user = req.user as User;
-        const treasuryContribution = Math.round(invoice.amount * 0.15);
-        await storage.recordProjectTreasuryContribution(invoice.projectId, treasuryContribution, user.id);
-      }
-      
-      res.json(invoice);
+      // Treasury share and member revenue credits come from the project's pinned split policy
+      const result = await settleDaoInvoice(id, { paymentMethod, paymentReference }, user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json({
+        ...result.value.invoice,
+        treasuryContribution: result.value.treasuryContribution,
+        memberCredits: result.value.memberCredits,
+      });
     } catch (error) {
       console.error("Error marking invoice paid:", error);
       res.status(500).json({ error: "Failed to mark invoice paid" });
     }
   });
 
-  // DAO Rank Progressions
+  app.post("/api/dao/invoices/:id/issue", requireRole("content", "admin"), async (req: any, res) => {
+    try {
+      const result = await issueDaoInvoice(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ error: "Failed to issue invoice" });
+    }
+  });
+
+  app.post("/api/dao/invoices/:id/void", requireRole("admin"), async (req: any, res) => {
+    try {
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "reason is required" });
+      }
+      const result = await voidDaoInvoice(parseInt(req.params.id), reason, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      res.status(500).json({ error: "Failed to void invoice" });
+    }
+  });
+
+  app.get("/api/dao/invoices/:id/credit-notes", isAuthenticated, async (req: any, res) => {
+    try {
+      const creditNotes = await storage.getDaoCreditNotes(parseInt(req.params.id));
+      res.json(creditNotes);
+    } catch (error) {
+      console.error("Error fetching credit notes:", error);
+      res.status(500).json({ error: "Failed to fetch credit notes" });
+    }
+  });
+
+  app.post("/api/dao/invoices/:id/credit-notes", requireRole("admin"), async (req: any, res) => {
+    try {
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "reason is required" });
+      }
+      const amount = req.body.amount === undefined || req.body.amount === null ? undefined : Number(req.body.amount);
+      const result = await createCreditNote(parseInt(req.params.id), { amount, reason }, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      res.status(500).json({ error: "Failed to create credit note" });
+    }
+  });
+
+  // ?format=pdf (default) or html; ?inline=true to view in the browser instead of downloading
+  app.get("/api/dao/invoices/:id/document", isAuthenticated, async (req: any, res) => {
+    try {
+      const format = req.query.format === "html" ? "html" : "pdf";
+      const doc = await buildInvoiceDocument(parseInt(req.params.id));
+      if (!doc) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      const disposition = req.query.inline === "true" ? "inline" : "attachment";
+      res.setHeader("Content-Disposition", `${disposition}; filename="${invoiceFileName(doc, format)}"`);
+      if (format === "html") {
+        res.type("html").send(renderInvoiceHtml(doc));
+      } else {
+        res.type("application/pdf").send(renderInvoicePdf(doc));
+      }
+    } catch (error) {
+      console.error("Error rendering invoice:", error);
+      res.status(500).json({ error: "Failed to render invoice" });
+    }
+  });
+
+  app.post("/api/dao/invoices/:id/email", requireRole("content", "admin"), async (req: any, res) => {
+    try {
+      const to = typeof req.body.to === "string" && req.body.to.trim() ? req.body.to.trim() : undefined;
+      if (to && !z.string().email().safeParse(to).success) {
+        return res.status(400).json({ error: "Invalid recipient email" });
+      }
+      const message = typeof req.body.message === "string" ? req.body.message : undefined;
+      const result = await emailDaoInvoice(parseInt(req.params.id), to, message);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error emailing invoice:", error);
+      res.status(500).json({ error: "Failed to email invoice" });
+    }
+  });
+
+  // DAO Rank Progressions (?membershipId=&status=proposed lists the council's review queue)
   app.get("/api/dao/rank-progressions", isAuthenticated, async (req: any, res) => {
     try {
       const membershipId = req.query.membershipId ? parseInt(req.query.membershipId) : undefined;
-      const progressions = await storage.getDaoRankProgressions(membershipId);
+      const status = daoRankProgressionStatuses.find(s => s === req.query.status);
+      const progressions = await storage.getDaoRankProgressions({ membershipId, status });
       res.json(progressions);
     } catch (error) {
       console.error("Error fetching rank progressions:", error);
@@ -10622,12 +11323,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Evaluate every active member now instead of waiting for the weekly job
+  app.post("/api/dao/rank-progressions/evaluate", requireRole("admin"), async (req: any, res) => {
+    try {
+      const proposals = await runRankEvaluation();
+      res.json({ proposed: proposals.length, proposals });
+    } catch (error) {
+      console.error("Error evaluating ranks:", error);
+      res.status(500).json({ error: "Failed to evaluate ranks" });
+    }
+  });
+
+  app.post("/api/dao/rank-progressions/:id/review", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = reviewDaoRankProgressionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await reviewRankProgression(parseInt(req.params.id), req.user.id, parsed.data.decision, parsed.data.notes);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error reviewing rank change:", error);
+      res.status(500).json({ error: "Failed to review rank change" });
+    }
+  });
+
+  app.get("/api/dao/rank-criteria", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getRankTiers());
+    } catch (error) {
+      console.error("Error fetching rank criteria:", error);
+      res.status(500).json({ error: "Failed to fetch rank criteria" });
+    }
+  });
+
+  app.put("/api/dao/rank-criteria/:roleId", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = upsertDaoRankCriteriaSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await setRankCriteria(parseInt(req.params.roleId), parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error saving rank criteria:", error);
+      res.status(500).json({ error: "Failed to save rank criteria" });
+    }
+  });
+
+  // Where a member stands against their tier's rules, without recording anything
+  app.get("/api/dao/memberships/:membershipId/rank-evaluation", isAuthenticated, async (req: any, res) => {
+    try {
+      const evaluation = await previewRankEvaluation(parseInt(req.params.membershipId));
+      if (!evaluation) {
+        return res.status(404).json({ error: "Membership not found" });
+      }
+      res.json({ currentRole: evaluation.currentRole, proposal: evaluation.proposal, snapshot: evaluation.snapshot });
+    } catch (error) {
+      console.error("Error evaluating member rank:", error);
+      res.status(500).json({ error: "Failed to evaluate member rank" });
+    }
+  });
+
+  // Promotes immediately, without council review, when the member meets the next tier's criteria
   app.post("/api/dao/memberships/:membershipId/check-promotion", requireRole("admin"), async (req: any, res) => {
     try {
-      const user = req.user as User;
-      const membershipId = parseInt(req.params.membershipId);
-      const progression = await storage.checkAndPromoteMember(membershipId, user.id);
-      res.json(progression || { promoted: false });
+      const result = await promoteIfEligible(parseInt(req.params.membershipId), req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value || { promoted: false });
     } catch (error) {
       console.error("Error checking promotion:", error);
       res.status(500).json({ error: "Failed to check promotion" });
@@ -10830,9 +11595,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const safeService = await import("./safe-service");
+      const safeDecoder = await import("./safe-decoder");
       const pendingTxs = await safeService.getPendingTransactions(wallet.address, wallet.chainId);
+      const decoderContext = await safeDecoder.loadDecoderContext(wallet.chainId);
       
-      res.json(pendingTxs);
+      res.json(pendingTxs.map(tx => {
+        const decoded = safeDecoder.decodeSafeTransaction(tx, decoderContext);
+        return { ...tx, summary: decoded.summary, decodedActions: decoded.actions };
+      }));
     } catch (error) {
       console.error("Error fetching pending transactions:", error);
       res.status(500).json({ error: "Failed to fetch pending transactions" });
@@ -10923,158 +11693,563 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get transaction history from database (stored/synced data)
   app.get("/api/dao/safe-wallets/:id/transactions", isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const wallet = await storage.getDaoSafeWallet(id);
-      if (!wallet) {
-        return res.status(404).json({ error: "Wallet not found" });
+      const id = parseInt(req.params.id);
+      const wallet = await storage.getDaoSafeWallet(id);
+      if (!wallet) {
+        return res.status(404).json({ error: "Wallet not found" });
+      }
+      
+      const status = req.query.status as string | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit) : 50;
+      const offset = req.query.offset ? parseInt(req.query.offset) : 0;
+      
+      const transactions = await storage.getDaoSafeTxHistory(id, { status, limit, offset });
+      
+      // Enrich with signer user info
+      const signers = await storage.getDaoSafeSigners(id);
+      const users = await storage.getAllUsers();
+      const userMap = new Map(users.map(u => [u.id, u]));
+      
+      const enrichedTxs = transactions.map(tx => {
+        const proposerUser = tx.proposerUserId ? userMap.get(tx.proposerUserId) : undefined;
+        const executorUser = tx.executorUserId ? userMap.get(tx.executorUserId) : undefined;
+        
+        // Enrich confirmations with user info
+        const enrichedConfirmations = (tx.confirmations || []).map((conf: any) => {
+          const signerMapping = signers.find(s => s.signerAddress.toLowerCase() === conf.signer?.toLowerCase());
+          const user = signerMapping?.platformUserId ? userMap.get(signerMapping.platformUserId) : undefined;
+          return {
+            ...conf,
+            user: user ? {
+              id: user.id,
+              firstName: user.firstName,
+              lastName: user.lastName,
+              profileImageUrl: user.profileImageUrl,
+            } : undefined,
+            label: signerMapping?.label,
+          };
+        });
+        
+        return {
+          ...tx,
+          proposerUser: proposerUser ? {
+            id: proposerUser.id,
+            firstName: proposerUser.firstName,
+            lastName: proposerUser.lastName,
+            profileImageUrl: proposerUser.profileImageUrl,
+          } : undefined,
+          executorUser: executorUser ? {
+            id: executorUser.id,
+            firstName: executorUser.firstName,
+            lastName: executorUser.lastName,
+            profileImageUrl: executorUser.profileImageUrl,
+          } : undefined,
+          confirmations: enrichedConfirmations,
+        };
+      });
+      
+      res.json(enrichedTxs);
+    } catch (error) {
+      console.error("Error fetching stored transactions:", error);
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+
+  // Get single transaction by hash
+  app.get("/api/dao/safe-tx/:safeTxHash", isAuthenticated, async (req: any, res) => {
+    try {
+      const tx = await storage.getDaoSafeTxByHash(req.params.safeTxHash);
+      if (!tx) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      res.json(tx);
+    } catch (error) {
+      console.error("Error fetching transaction:", error);
+      res.status(500).json({ error: "Failed to fetch transaction" });
+    }
+  });
+
+  // Get recent transactions across all wallets
+  app.get("/api/dao/safe-transactions/recent", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit) : 10;
+      const transactions = await storage.getRecentDaoSafeTxs(limit);
+      
+      // Enrich with wallet info
+      const wallets = await storage.getDaoSafeWallets();
+      const walletMap = new Map(wallets.map(w => [w.id, w]));
+      
+      const enrichedTxs = transactions.map(tx => ({
+        ...tx,
+        wallet: walletMap.get(tx.walletId),
+      }));
+      
+      res.json(enrichedTxs);
+    } catch (error) {
+      console.error("Error fetching recent transactions:", error);
+      res.status(500).json({ error: "Failed to fetch recent transactions" });
+    }
+  });
+
+  // Get pending signature transactions across all wallets
+  app.get("/api/dao/safe-transactions/pending", isAuthenticated, async (req: any, res) => {
+    try {
+      const transactions = await storage.getPendingSignatureTxs();
+      
+      // Enrich with wallet info
+      const wallets = await storage.getDaoSafeWallets();
+      const walletMap = new Map(wallets.map(w => [w.id, w]));
+      
+      const enrichedTxs = transactions.map(tx => ({
+        ...tx,
+        wallet: walletMap.get(tx.walletId),
+      }));
+      
+      res.json(enrichedTxs);
+    } catch (error) {
+      console.error("Error fetching pending transactions:", error);
+      res.status(500).json({ error: "Failed to fetch pending transactions" });
+    }
+  });
+
+  // Sync a specific wallet's transactions
+  app.post("/api/dao/safe-wallets/:id/sync", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const wallet = await storage.getDaoSafeWallet(id);
+      if (!wallet) {
+        return res.status(404).json({ error: "Wallet not found" });
+      }
+      
+      const safeSync = await import("./safe-sync");
+      
+      // Sync signers first
+      await safeSync.syncWalletSigners(wallet);
+      
+      // Then sync transactions
+      const syncedCount = await safeSync.syncWalletTransactions(wallet);
+      
+      res.json({ success: true, synced: syncedCount });
+    } catch (error) {
+      console.error("Error syncing wallet:", error);
+      res.status(500).json({ error: "Failed to sync wallet" });
+    }
+  });
+
+  // Sync all wallets with full transaction history
+  app.post("/api/dao/safe-wallets/sync-transactions", requireRole("admin"), async (req: any, res) => {
+    try {
+      const safeSync = await import("./safe-sync");
+      const result = await safeSync.syncAllWallets();
+      res.json(result);
+    } catch (error) {
+      console.error("Error syncing all wallets:", error);
+      res.status(500).json({ error: "Failed to sync wallets" });
+    }
+  });
+
+  // ==================== CONTRACT ABI REGISTRY ROUTES ====================
+
+  app.get("/api/dao/contract-abis", isAuthenticated, async (req: any, res) => {
+    try {
+      const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : undefined;
+      res.json(await storage.getDaoContractAbis(chainId));
+    } catch (error) {
+      console.error("Error fetching contract ABIs:", error);
+      res.status(500).json({ error: "Failed to fetch contract ABIs" });
+    }
+  });
+
+  // Register or replace a contract's ABI, then re-decode that chain's stored Safe history
+  app.post("/api/dao/contract-abis", requireRole("admin"), async (req: any, res) => {
+    try {
+      const body = { ...req.body };
+      if (typeof body.abi === "string") {
+        try {
+          body.abi = JSON.parse(body.abi);
+        } catch {
+          return res.status(400).json({ error: "ABI is not valid JSON" });
+        }
+      }
+      const parsed = upsertDaoContractAbiSchema.safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const safeDecoder = await import("./safe-decoder");
+      if (!safeDecoder.parseContractAbi(parsed.data.abi)) {
+        return res.status(400).json({ error: "ABI has no readable function definitions" });
+      }
+
+      const entry = await storage.upsertDaoContractAbi({
+        ...parsed.data,
+        contractAddress: parsed.data.contractAddress.toLowerCase(),
+        tokenSymbol: parsed.data.tokenSymbol ?? null,
+        tokenDecimals: parsed.data.tokenDecimals ?? null,
+        createdBy: req.user.id,
+      });
+      const redecoded = await safeDecoder.redecodeChainHistory(entry.chainId);
+      res.status(201).json({ ...entry, redecoded });
+    } catch (error) {
+      console.error("Error saving contract ABI:", error);
+      res.status(500).json({ error: "Failed to save contract ABI" });
+    }
+  });
+
+  app.delete("/api/dao/contract-abis/:id", requireRole("admin"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteDaoContractAbi(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Contract ABI not found" });
+      }
+      const safeDecoder = await import("./safe-decoder");
+      await safeDecoder.redecodeChainHistory(deleted.chainId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting contract ABI:", error);
+      res.status(500).json({ error: "Failed to delete contract ABI" });
+    }
+  });
+
+  // Decode arbitrary calldata, e.g. to preview a transaction before proposing it
+  app.post("/api/dao/safe-decoder/decode", isAuthenticated, async (req: any, res) => {
+    try {
+      const { chainId, to, value, data, operation } = req.body ?? {};
+      if (typeof chainId !== "number" || typeof to !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(to)) {
+        return res.status(400).json({ error: "chainId and a valid to address are required" });
+      }
+      if (data != null && (typeof data !== "string" || !/^0x([a-fA-F0-9]{2})*$/.test(data))) {
+        return res.status(400).json({ error: "data must be 0x-prefixed hex" });
+      }
+      if (value != null && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({ error: "value must be a wei amount" });
+      }
+      const safeDecoder = await import("./safe-decoder");
+      const context = await safeDecoder.loadDecoderContext(chainId);
+      res.json(safeDecoder.decodeSafeTransaction(
+        { to, value: value != null ? String(value) : "0", data: data ?? null, operation: operation === 1 ? 1 : 0 },
+        context,
+      ));
+    } catch (error) {
+      console.error("Error decoding transaction:", error);
+      res.status(500).json({ error: "Failed to decode transaction" });
+    }
+  });
+
+  // ==================== SAFE PAYOUT BATCH ROUTES ====================
+
+  // Payable bonus recipients, approved payment requests and pending team payments with their resolved wallets
+  app.get("/api/dao/payouts/candidates", requireRole("admin"), async (req: any, res) => {
+    try {
+      res.json(await getPayoutCandidates());
+    } catch (error) {
+      console.error("Error fetching payout candidates:", error);
+      res.status(500).json({ error: "Failed to fetch payout candidates" });
+    }
+  });
+
+  app.get("/api/dao/payout-batches", requireRole("admin"), async (req: any, res) => {
+    try {
+      const walletId = req.query.walletId ? parseInt(req.query.walletId) : undefined;
+      res.json(await storage.getDaoPayoutBatches(walletId));
+    } catch (error) {
+      console.error("Error fetching payout batches:", error);
+      res.status(500).json({ error: "Failed to fetch payout batches" });
+    }
+  });
+
+  app.get("/api/dao/payout-batches/:id", requireRole("admin"), async (req: any, res) => {
+    try {
+      const detail = await getPayoutBatchDetail(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ error: "Payout batch not found" });
+      }
+      res.json({ ...detail.batch, items: detail.items });
+    } catch (error) {
+      console.error("Error fetching payout batch:", error);
+      res.status(500).json({ error: "Failed to fetch payout batch" });
+    }
+  });
+
+  app.post("/api/dao/payout-batches", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = createDaoPayoutBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await createPayoutBatch(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json({ ...result.value.batch, items: result.value.items, skipped: result.value.skipped });
+    } catch (error) {
+      console.error("Error creating payout batch:", error);
+      res.status(500).json({ error: "Failed to create payout batch" });
+    }
+  });
+
+  // The Safe Transaction Builder file to import in the Safe UI
+  app.get("/api/dao/payout-batches/:id/builder-json", requireRole("admin"), async (req: any, res) => {
+    try {
+      const batch = await storage.getDaoPayoutBatch(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ error: "Payout batch not found" });
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="${payoutBatchFileName(batch)}"`);
+      res.json(batch.builderJson);
+    } catch (error) {
+      console.error("Error exporting payout batch:", error);
+      res.status(500).json({ error: "Failed to export payout batch" });
+    }
+  });
+
+  app.post("/api/dao/payout-batches/:id/cancel", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await cancelPayoutBatch(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error cancelling payout batch:", error);
+      res.status(500).json({ error: "Failed to cancel payout batch" });
+    }
+  });
+
+  // Re-checks the wallet's synced history for the batch without a full sync
+  app.post("/api/dao/payout-batches/:id/link", requireRole("admin"), async (req: any, res) => {
+    try {
+      const batch = await storage.getDaoPayoutBatch(parseInt(req.params.id));
+      if (!batch) {
+        return res.status(404).json({ error: "Payout batch not found" });
+      }
+      const wallet = await storage.getDaoSafeWallet(batch.walletId);
+      if (wallet) await linkPayoutBatches(wallet);
+      const detail = await getPayoutBatchDetail(batch.id);
+      res.json(detail ? { ...detail.batch, items: detail.items } : batch);
+    } catch (error) {
+      console.error("Error linking payout batch:", error);
+      res.status(500).json({ error: "Failed to link payout batch" });
+    }
+  });
+
+  // ==================== TREASURY RECONCILIATION ROUTES ====================
+
+  // Unmatched ledger outflows and Safe transactions with suggested counterparts
+  app.get("/api/dao/reconciliation/queue", requireRole("admin"), async (req: any, res) => {
+    try {
+      res.json(await getReconciliationQueue());
+    } catch (error) {
+      console.error("Error fetching reconciliation queue:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation queue" });
+    }
+  });
+
+  app.post("/api/dao/reconciliation/run", requireRole("admin"), async (req: any, res) => {
+    try {
+      const matched = await reconcileTreasury();
+      res.json({ matched });
+    } catch (error) {
+      console.error("Error running reconciliation:", error);
+      res.status(500).json({ error: "Failed to run reconciliation" });
+    }
+  });
+
+  app.get("/api/dao/reconciliation/links", requireRole("admin"), async (req: any, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit) : 100;
+      res.json(await storage.getDaoReconciliationLinks(limit));
+    } catch (error) {
+      console.error("Error fetching reconciliation links:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation links" });
+    }
+  });
+
+  app.post("/api/dao/reconciliation/links", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = createDaoReconciliationLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await linkReconciliationItems(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error linking reconciliation items:", error);
+      res.status(500).json({ error: "Failed to link reconciliation items" });
+    }
+  });
+
+  app.delete("/api/dao/reconciliation/links/:id", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = await unlinkReconciliation(parseInt(req.params.id));
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing reconciliation link:", error);
+      res.status(500).json({ error: "Failed to remove reconciliation link" });
+    }
+  });
+
+  // Preview of a period close report; nothing is stored
+  app.get("/api/dao/reconciliation/report", requireRole("admin"), async (req: any, res) => {
+    try {
+      const periodStart = new Date(req.query.periodStart);
+      const periodEnd = req.query.periodEnd ? new Date(req.query.periodEnd) : new Date();
+      if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodEnd <= periodStart) {
+        return res.status(400).json({ error: "periodStart and periodEnd must be dates with periodEnd after periodStart" });
+      }
+      res.json(await buildPeriodReport(periodStart, periodEnd));
+    } catch (error) {
+      console.error("Error building reconciliation report:", error);
+      res.status(500).json({ error: "Failed to build reconciliation report" });
+    }
+  });
+
+  app.get("/api/dao/reconciliation/periods", requireRole("admin"), async (req: any, res) => {
+    try {
+      res.json(await storage.getDaoReconciliationPeriods());
+    } catch (error) {
+      console.error("Error fetching reconciliation periods:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation periods" });
+    }
+  });
+
+  app.get("/api/dao/reconciliation/periods/:id", requireRole("admin"), async (req: any, res) => {
+    try {
+      const period = await storage.getDaoReconciliationPeriod(parseInt(req.params.id));
+      if (!period) {
+        return res.status(404).json({ error: "Reconciliation period not found" });
+      }
+      res.json(period);
+    } catch (error) {
+      console.error("Error fetching reconciliation period:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation period" });
+    }
+  });
+
+  app.post("/api/dao/reconciliation/periods", requireRole("admin"), async (req: any, res) => {
+    try {
+      const parsed = closeDaoReconciliationPeriodSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const result = await closeReconciliationPeriod(parsed.data, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error closing reconciliation period:", error);
+      res.status(500).json({ error: "Failed to close reconciliation period" });
+    }
+  });
+
+  // ==================== TREASURY HISTORY ROUTES ====================
+
+  const isDay = (value: unknown): value is string => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  // Treasury value over time across all Safes (?from=&to= as YYYY-MM-DD, ?interval=day|week|month)
+  app.get("/api/dao/treasury/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const to = isDay(req.query.to) ? req.query.to : toPriceDate(new Date());
+      const from = isDay(req.query.from) ? req.query.from : addDays(to, -90);
+      const interval: HistoryInterval = ["day", "week", "month"].includes(req.query.interval) ? req.query.interval : "day";
+      const walletId = req.query.walletId ? parseInt(req.query.walletId) : undefined;
+      res.json(await getBalanceHistory({ from, to, interval, walletId }));
+    } catch (error) {
+      console.error("Error fetching treasury history:", error);
+      res.status(500).json({ error: "Failed to fetch treasury history" });
+    }
+  });
+
+  app.get("/api/dao/treasury/allocation", isAuthenticated, async (req: any, res) => {
+    try {
+      const date = isDay(req.query.date) ? req.query.date : toPriceDate(new Date());
+      res.json(await getAllocation(date));
+    } catch (error) {
+      console.error("Error fetching treasury allocation:", error);
+      res.status(500).json({ error: "Failed to fetch treasury allocation" });
+    }
+  });
+
+  // Net inflow/outflow by month (?from=&to= as YYYY-MM-DD; defaults to the last 12 months)
+  app.get("/api/dao/treasury/flows", isAuthenticated, async (req: any, res) => {
+    try {
+      const to = isDay(req.query.to) ? req.query.to : toPriceDate(new Date());
+      const from = isDay(req.query.from) ? req.query.from : `${addDays(to, -335).slice(0, 7)}-01`;
+      if (from > to) {
+        return res.status(400).json({ error: "from must be before to" });
       }
-      
-      const status = req.query.status as string | undefined;
-      const limit = req.query.limit ? parseInt(req.query.limit) : 50;
-      const offset = req.query.offset ? parseInt(req.query.offset) : 0;
-      
-      const transactions = await storage.getDaoSafeTxHistory(id, { status, limit, offset });
-      
-      // Enrich with signer user info
-      const signers = await storage.getDaoSafeSigners(id);
-      const users = await storage.getAllUsers();
-      const userMap = new Map(users.map(u => [u.id, u]));
-      
-      const enrichedTxs = transactions.map(tx => {
-        const proposerUser = tx.proposerUserId ? userMap.get(tx.proposerUserId) : undefined;
-        const executorUser = tx.executorUserId ? userMap.get(tx.executorUserId) : undefined;
-        
-        // Enrich confirmations with user info
-        const enrichedConfirmations = (tx.confirmations || []).map((conf: any) => {
-          const signerMapping = signers.find(s => s.signerAddress.toLowerCase() === conf.signer?.toLowerCase());
-          const user = signerMapping?.platformUserId ? userMap.get(signerMapping.platformUserId) : undefined;
-          return {
-            ...conf,
-            user: user ? {
-              id: user.id,
-              firstName: user.firstName,
-              lastName: user.lastName,
-              profileImageUrl: user.profileImageUrl,
-            } : undefined,
-            label: signerMapping?.label,
-          };
-        });
-        
-        return {
-          ...tx,
-          proposerUser: proposerUser ? {
-            id: proposerUser.id,
-            firstName: proposerUser.firstName,
-            lastName: proposerUser.lastName,
-            profileImageUrl: proposerUser.profileImageUrl,
-          } : undefined,
-          executorUser: executorUser ? {
-            id: executorUser.id,
-            firstName: executorUser.firstName,
-            lastName: executorUser.lastName,
-            profileImageUrl: executorUser.profileImageUrl,
-          } : undefined,
-          confirmations: enrichedConfirmations,
-        };
-      });
-      
-      res.json(enrichedTxs);
+      res.json(await getMonthlyFlows(from, to));
     } catch (error) {
-      console.error("Error fetching stored transactions:", error);
-      res.status(500).json({ error: "Failed to fetch transactions" });
+      console.error("Error fetching treasury flows:", error);
+      res.status(500).json({ error: "Failed to fetch treasury flows" });
     }
   });
 
-  // Get single transaction by hash
-  app.get("/api/dao/safe-tx/:safeTxHash", isAuthenticated, async (req: any, res) => {
+  app.post("/api/dao/treasury/snapshots", requireRole("admin"), async (req: any, res) => {
     try {
-      const tx = await storage.getDaoSafeTxByHash(req.params.safeTxHash);
-      if (!tx) {
-        return res.status(404).json({ error: "Transaction not found" });
-      }
-      res.json(tx);
+      res.status(201).json(await snapshotAllWallets());
     } catch (error) {
-      console.error("Error fetching transaction:", error);
-      res.status(500).json({ error: "Failed to fetch transaction" });
+      console.error("Error taking treasury snapshot:", error);
+      res.status(500).json({ error: "Failed to take treasury snapshot" });
     }
   });
 
-  // Get recent transactions across all wallets
-  app.get("/api/dao/safe-transactions/recent", isAuthenticated, async (req: any, res) => {
+  app.get("/api/dao/token-prices", isAuthenticated, async (req: any, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit) : 10;
-      const transactions = await storage.getRecentDaoSafeTxs(limit);
-      
-      // Enrich with wallet info
-      const wallets = await storage.getDaoSafeWallets();
-      const walletMap = new Map(wallets.map(w => [w.id, w]));
-      
-      const enrichedTxs = transactions.map(tx => ({
-        ...tx,
-        wallet: walletMap.get(tx.walletId),
+      const symbols = req.query.symbol ? [String(req.query.symbol).toUpperCase()] : undefined;
+      res.json(await storage.getDaoTokenPrices({
+        symbols,
+        from: isDay(req.query.from) ? req.query.from : undefined,
+        to: isDay(req.query.to) ? req.query.to : undefined,
       }));
-      
-      res.json(enrichedTxs);
     } catch (error) {
-      console.error("Error fetching recent transactions:", error);
-      res.status(500).json({ error: "Failed to fetch recent transactions" });
+      console.error("Error fetching token prices:", error);
+      res.status(500).json({ error: "Failed to fetch token prices" });
     }
   });
 
-  // Get pending signature transactions across all wallets
-  app.get("/api/dao/safe-transactions/pending", isAuthenticated, async (req: any, res) => {
+  app.put("/api/dao/token-prices", requireRole("admin"), async (req: any, res) => {
     try {
-      const transactions = await storage.getPendingSignatureTxs();
-      
-      // Enrich with wallet info
-      const wallets = await storage.getDaoSafeWallets();
-      const walletMap = new Map(wallets.map(w => [w.id, w]));
-      
-      const enrichedTxs = transactions.map(tx => ({
-        ...tx,
-        wallet: walletMap.get(tx.walletId),
-      }));
-      
-      res.json(enrichedTxs);
+      const parsed = upsertDaoTokenPriceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+      }
+      const price = await setManualPrice(parsed.data, req.user.id);
+      const revalued = await revalueSnapshots([price.tokenSymbol], price.priceDate, price.priceDate);
+      res.json({ ...price, revalued });
     } catch (error) {
-      console.error("Error fetching pending transactions:", error);
-      res.status(500).json({ error: "Failed to fetch pending transactions" });
+      console.error("Error saving token price:", error);
+      res.status(500).json({ error: "Failed to save token price" });
     }
   });
 
-  // Sync a specific wallet's transactions
-  app.post("/api/dao/safe-wallets/:id/sync", isAuthenticated, async (req: any, res) => {
+  // CSV price feed: { csv: "symbol,date,usd_price\nETH,2024-01-31,2300" }
+  app.post("/api/dao/token-prices/import", requireRole("admin"), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const wallet = await storage.getDaoSafeWallet(id);
-      if (!wallet) {
-        return res.status(404).json({ error: "Wallet not found" });
+      if (typeof req.body.csv !== "string" || !req.body.csv.trim()) {
+        return res.status(400).json({ error: "csv is required" });
       }
-      
-      const safeSync = await import("./safe-sync");
-      
-      // Sync signers first
-      await safeSync.syncWalletSigners(wallet);
-      
-      // Then sync transactions
-      const syncedCount = await safeSync.syncWalletTransactions(wallet);
-      
-      res.json({ success: true, synced: syncedCount });
+      const result = await importPriceCsv(req.body.csv, req.user.id);
+      if (!result.ok) return sendWorkflowError(res, result);
+      const { imported, errors } = result.value;
+      const days = imported.map(p => p.priceDate).sort();
+      const revalued = days.length > 0
+        ? await revalueSnapshots(imported.map(p => p.tokenSymbol), days[0], days[days.length - 1])
+        : 0;
+      res.json({ imported: imported.length, errors, revalued });
     } catch (error) {
-      console.error("Error syncing wallet:", error);
-      res.status(500).json({ error: "Failed to sync wallet" });
+      console.error("Error importing token prices:", error);
+      res.status(500).json({ error: "Failed to import token prices" });
     }
   });
 
-  // Sync all wallets with full transaction history
-  app.post("/api/dao/safe-wallets/sync-transactions", requireRole("admin"), async (req: any, res) => {
+  app.delete("/api/dao/token-prices/:id", requireRole("admin"), async (req: any, res) => {
     try {
-      const safeSync = await import("./safe-sync");
-      const result = await safeSync.syncAllWallets();
-      res.json(result);
+      const deleted = await storage.deleteDaoTokenPrice(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Token price not found" });
+      }
+      const revalued = await revalueSnapshots([deleted.tokenSymbol], deleted.priceDate, deleted.priceDate);
+      res.json({ success: true, revalued });
     } catch (error) {
-      console.error("Error syncing all wallets:", error);
-      res.status(500).json({ error: "Failed to sync wallets" });
+      console.error("Error deleting token price:", error);
+      res.status(500).json({ error: "Failed to delete token price" });
     }
   });
 
@@ -12100,8 +13275,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      const tasks = await storage.getTeamTasks(boardId);
-      res.json(tasks);
+      const query = await getTaskListQuery(req);
+      if (!query.ok) {
+        return res.status(400).json({ error: query.error });
+      }
+      const tasks = await applyTaskListQuery("team", await storage.getTeamTasks(boardId), query.value);
+      if (!tasks.ok) {
+        return res.status(400).json({ error: tasks.error });
+      }
+      res.json(tasks.value);
     } catch (error) {
       console.error("Error fetching team tasks:", error);
       res.status(500).json({ error: "Failed to fetch team tasks" });
@@ -12169,11 +13351,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "You don't have permission to add tasks to this board" });
       }
       
+      const { customFields, ...taskData } = req.body;
+      const customFieldCheck = await validateCustomFieldInput({ taskType: "team", boardId }, customFields, { isNew: true });
+      if (customFieldCheck.errors.length > 0) {
+        return res.status(400).json({ error: "Invalid custom field values", fields: customFieldCheck.errors });
+      }
+      
       const task = await storage.createTeamTask({
-        ...req.body,
+        ...taskData,
         boardId,
         createdBy: user.id,
       });
+      await saveCustomFieldValues("team", task.id, customFieldCheck.values);
       
       if (req.body.assigneeId && req.body.assigneeId !== user.id) {
         await storage.createNotification({
@@ -12214,7 +13403,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const oldStatus = task.status;
       const oldAssignee = task.assigneeId;
       const oldDueDate = task.dueDate;
-      const updated = await storage.updateTeamTask(id, req.body, user.id);
+      const { customFields, ...updates } = req.body;
+      
+      const customFieldContext: CustomFieldTaskContext = { taskType: "team", boardId: updates.boardId ?? task.boardId };
+      const customFieldCheck = await validateCustomFieldInput(customFieldContext, customFields);
+      if (customFieldCheck.errors.length > 0) {
+        return res.status(400).json({ error: "Invalid custom field values", fields: customFieldCheck.errors });
+      }
+      
+      // Required custom fields must be filled before a task moves to another status or board
+      const isMove = (updates.status && updates.status !== oldStatus) || (updates.boardId && updates.boardId !== task.boardId);
+      if (isMove) {
+        const missing = await getMissingRequiredFields(customFieldContext, id, customFieldCheck.values);
+        if (missing.length > 0) {
+          return res.status(409).json({ error: "Required custom fields are missing", fields: missing });
+        }
+      }
+      
+      // Blocked tasks can't finish ahead of their blockers
+      if (req.body.status && req.body.status !== oldStatus && isDependencyGatedStatus("team", req.body.status)) {
+        const blockers = await getOpenBlockers({ taskType: "team", taskId: id });
+        if (blockers.length > 0) {
+          return res.status(409).json({ error: "This task is blocked by unfinished tasks", blockers });
+        }
+      }
+      
+      const updated = await storage.updateTeamTask(id, updates, user.id);
+      await saveCustomFieldValues("team", id, customFieldCheck.values);
+      
+      if (req.body.status && isDependencyGatedStatus("team", req.body.status) && !isDependencyGatedStatus("team", oldStatus)) {
+        await notifyUnblockedTasks({ taskType: "team", taskId: id });
+      }
       
       // Notify new assignee
       if (req.body.assigneeId && req.body.assigneeId !== oldAssignee && req.body.assigneeId !== user.id) {
@@ -12515,6 +13734,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       assigneeFilter: z.string().optional().default("all"),
       taskTypeFilter: z.string().optional().default("all"),
       swimlaneBy: z.string().optional().default("none"),
+      conditions: z.array(taskFilterConditionSchema).optional(),
+      sort: z.array(taskSortSchema).optional(),
     }).passthrough().transform(({ scope, ...rest }) => rest), // Strip scope field
     isDefault: z.boolean().optional().default(false),
   });
@@ -12559,6 +13780,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       assigneeFilter: z.string().optional(),
       taskTypeFilter: z.string().optional(),
       swimlaneBy: z.string().optional(),
+      conditions: z.array(taskFilterConditionSchema).optional(),
+      sort: z.array(taskSortSchema).optional(),
     }).passthrough().transform(({ scope, ...rest }) => rest).optional(), // Strip scope field
     isDefault: z.boolean().optional(),
   });
@@ -12749,16 +13972,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Critical path and slack for the tasks linked to this one by blocking dependencies
+  app.get("/api/task-dependencies/schedule/:taskType/:taskId", isAuthenticated, async (req, res) => {
+    try {
+      const taskType = req.params.taskType as DependencyTaskType;
+      if (!dependencyTaskTypes.includes(taskType)) {
+        return res.status(400).json({ error: "Invalid task type" });
+      }
+      const durationDays = req.query.defaultDurationDays ? parseFloat(req.query.defaultDurationDays as string) : 1;
+      if (!Number.isFinite(durationDays) || durationDays < 0 || durationDays > 365) {
+        return res.status(400).json({ error: "defaultDurationDays must be between 0 and 365" });
+      }
+      const schedule = await getDependencySchedule({ taskType, taskId: parseInt(req.params.taskId) }, durationDays);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error computing dependency schedule:", error);
+      res.status(500).json({ error: "Failed to compute schedule" });
+    }
+  });
+
   app.post("/api/task-dependencies", isAuthenticated, async (req: any, res) => {
     try {
-      const { taskType, sourceTaskId, targetTaskId, dependencyType } = req.body;
-      const dependency = await storage.createTaskDependency({
-        taskType,
-        sourceTaskId,
-        targetTaskId,
-        dependencyType,
-        createdBy: req.user.id
-      });
+      const validationResult = insertTaskDependencySchema.safeParse({ ...req.body, createdBy: req.user.id });
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const data = validationResult.data;
+
+      const source = { taskType: data.taskType ?? "content", taskId: data.sourceTaskId };
+      const target = { taskType: data.targetTaskType ?? "content", taskId: data.targetTaskId };
+      const [sourceTask, targetTask] = await Promise.all([source, target].map(ref =>
+        ref.taskType === "team" ? storage.getTeamTask(ref.taskId) : storage.getContentTask(ref.taskId)
+      ));
+      if (!sourceTask || !targetTask) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      if (await storage.findTaskDependency(data)) {
+        return res.status(409).json({ error: "This dependency already exists" });
+      }
+
+      const cycle = await findDependencyCycle(data);
+      if (cycle) {
+        const error = cycle.length === 1
+          ? "A task can't depend on itself"
+          : `This dependency would create a cycle: ${[...cycle, cycle[0]].map(key => key.replace(":", " task #")).join(" → ")}`;
+        return res.status(409).json({ error, cycle });
+      }
+
+      const dependency = await storage.createTaskDependency(data);
       res.status(201).json(dependency);
     } catch (error) {
       console.error("Error creating task dependency:", error);
@@ -13129,10 +14390,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/custom-fields", requireRole("content"), async (req: any, res) => {
     try {
-      const field = await storage.createTaskCustomField({
-        ...req.body,
-        createdBy: req.user.id
-      });
+      const validationResult = insertTaskCustomFieldSchema.safeParse({ ...req.body, createdBy: req.user.id });
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      const definitionError = await validateCustomFieldDefinition(validationResult.data as TaskCustomField);
+      if (definitionError) {
+        return res.status(400).json({ error: definitionError });
+      }
+      const field = await storage.createTaskCustomField(validationResult.data);
       res.status(201).json(field);
     } catch (error) {
       console.error("Error creating custom field:", error);
@@ -13143,7 +14409,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/custom-fields/:id", requireRole("content"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const field = await storage.updateTaskCustomField(id, req.body);
+      const existing = await storage.getTaskCustomField(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      const validationResult = insertTaskCustomFieldSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Validation failed", details: validationResult.error.flatten() });
+      }
+      // Changing type or options doesn't rewrite stored values; values that no longer decode are treated as empty
+      const definitionError = await validateCustomFieldDefinition({ ...existing, ...validationResult.data } as TaskCustomField);
+      if (definitionError) {
+        return res.status(400).json({ error: definitionError });
+      }
+      const field = await storage.updateTaskCustomField(id, validationResult.data);
       res.json(field);
     } catch (error) {
       console.error("Error updating custom field:", error);
@@ -13176,7 +14455,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/custom-field-values", isAuthenticated, async (req, res) => {
     try {
-      const value = await storage.upsertTaskCustomFieldValue(req.body);
+      const { customFieldId, taskType, taskId, value: rawValue } = req.body;
+      if (taskType !== "content" && taskType !== "team") {
+        return res.status(400).json({ error: "taskType must be content or team" });
+      }
+      const field = await storage.getTaskCustomField(parseInt(customFieldId));
+      if (!field) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      
+      const task = taskType === "content" ? await storage.getContentTask(parseInt(taskId)) : await storage.getTeamTask(parseInt(taskId));
+      if (!task) {
+        return res.status(404).json({ error: "Task not found" });
+      }
+      const context: CustomFieldTaskContext = "boardId" in task
+        ? { taskType: "team", boardId: task.boardId }
+        : { taskType: "content", client: task.client, campaignId: task.campaignId };
+      if (!(await getApplicableCustomFields(context)).some(f => f.id === field.id)) {
+        return res.status(400).json({ error: "This field doesn't apply to the task" });
+      }
+      
+      const result = await validateCustomFieldValue(field, rawValue);
+      if (!result.ok) {
+        return res.status(400).json({ error: `${field.name}: ${result.error}` });
+      }
+      if (result.value === null && field.isRequired) {
+        return res.status(400).json({ error: `${field.name} is required` });
+      }
+      
+      const value = await storage.upsertTaskCustomFieldValue({ customFieldId: field.id, taskType, taskId: task.id, value: result.value });
       res.status(201).json(value);
     } catch (error) {
       console.error("Error saving custom field value:", error);
@@ -13711,6 +15018,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Generate today's digest for the current user now, ignoring the delivery time
+  app.post("/api/chat/digests/generate", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const prefs = await storage.getChatDigestPreferences(userId);
+      if (!prefs) {
+        return res.status(400).json({ error: "Digest preferences not configured" });
+      }
+      const { digest, created } = await generateDigestForUser(userId, prefs);
+      if (!digest) {
+        return res.status(200).json({ digest: null, created: false, message: "No unread messages from pinned contacts" });
+      }
+      res.status(created ? 201 : 200).json({ digest, created });
+    } catch (error) {
+      console.error("Error generating digest:", error);
+      res.status(500).json({ error: "Failed to generate digest" });
+    }
+  });
+
+  // Get a single digest and mark it viewed
+  app.get("/api/chat/digests/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const digest = await storage.getDailyDigest(parseInt(req.params.id));
+      if (!digest || digest.userId !== userId) {
+        return res.status(404).json({ error: "Digest not found" });
+      }
+      const viewed = digest.viewedAt ? digest : await storage.markDailyDigestRead(digest.id);
+      res.json(viewed || digest);
+    } catch (error) {
+      console.error("Error fetching digest:", error);
+      res.status(500).json({ error: "Failed to fetch digest" });
+    }
+  });
+
+  // ================== BACKGROUND JOB ENDPOINTS ==================
+
+  // List scheduled jobs
+  app.get("/api/admin/jobs", requireRole("admin"), async (req, res) => {
+    try {
+      const jobs = await storage.getScheduledJobs();
+      res.json({ jobs, handlers: getRegisteredJobHandlers() });
+    } catch (error) {
+      console.error("Error fetching scheduled jobs:", error);
+      res.status(500).json({ error: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  // Get run history for a job
+  app.get("/api/admin/jobs/:id/runs", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 25;
+      const runs = await storage.getJobRuns(id, limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ error: "Failed to fetch job runs" });
+    }
+  });
+
+  // Pause a job
+  app.post("/api/admin/jobs/:id/pause", requireRole("admin"), async (req, res) => {
+    try {
+      const job = await pauseJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error pausing job:", error);
+      res.status(500).json({ error: "Failed to pause job" });
+    }
+  });
+
+  // Resume a paused job
+  app.post("/api/admin/jobs/:id/resume", requireRole("admin"), async (req, res) => {
+    try {
+      const job = await resumeJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error resuming job:", error);
+      res.status(500).json({ error: "Failed to resume job" });
+    }
+  });
+
+  // Run a job now - responds once the run has started; progress shows in run history
+  app.post("/api/admin/jobs/:id/trigger", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getScheduledJob(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const triggered = await triggerJob(id);
+      if (!triggered) {
+        return res.status(409).json({ error: "Job is already running" });
+      }
+      triggered.run.catch(error => console.error(`Error running job ${existing.name}:`, error));
+      res.status(202).json(triggered.job);
+    } catch (error) {
+      console.error("Error triggering job:", error);
+      res.status(500).json({ error: "Failed to trigger job" });
+    }
+  });
+
+  // ================== UNIFIED SEARCH ENDPOINTS ==================
+
+  // Which result types each role may see; mirrors the guards on the per-type list endpoints
+  const searchTypesByRole: Record<string, SearchResultType[]> = {
+    admin: [...searchResultTypes],
+    content: ["content_task", "comment", "client_document", "client_profile", "task_doc", "team_task"],
+    web3: ["dao_project", "collection", "client_profile", "task_doc", "team_task"],
+  };
+
+  // Ranked full-text search with highlighted snippets and per-type counts
+  // Query: q (required), types (comma-separated), limit (max 50), offset
+  app.get("/api/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      if (!q) {
+        return res.json({ query: q, results: [], facets: [], total: 0 } satisfies SearchResponse);
+      }
+
+      const userId = req.user?.id;
+      const role = req.user?.role || "";
+      let types = searchTypesByRole[role] || [];
+      if (typeof req.query.types === "string" && req.query.types) {
+        const requested = req.query.types.split(",");
+        types = types.filter(type => requested.includes(type));
+      }
+
+      const boardIds = types.includes("team_task")
+        ? (await storage.getTeamBoards(userId, role)).map(board => board.id)
+        : [];
+
+      const { results, facets } = await storage.search(q, { types, boardIds, limit, offset });
+      const response: SearchResponse = {
+        query: q,
+        results,
+        facets,
+        total: facets.reduce((sum, facet) => sum + facet.count, 0),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ error: "Failed to search" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,374 @@
+import { Interface, formatUnits, getAddress, getBytes, hexlify, isAddress, toBigInt, MaxUint256, type JsonFragment, type TransactionDescription } from "ethers";
+import { storage } from "./storage";
+import { getNativeTokenSymbol } from "./safe-service";
+import type { DaoContractAbi, DaoSafeTxHistory, DecodedSafeAction, SafeTxType } from "@shared/schema";
+
+/**
+ * Safe calldata decoder
+ *
+ * Decodes Safe transaction calldata locally, without the Safe service's dataDecoded, into
+ * readable actions such as "Transfer 5,000 USDC to alice.eth (0x12ab…cd34)". Calls are
+ * matched against the built-in ABIs (Safe owner management, MultiSend, ERC-20, ERC-721,
+ * ERC-1155) and then against ABIs admins upload per contract address (dao_contract_abis).
+ * MultiSend batches are unpacked into their inner calls, which are decoded the same way;
+ * nested batches are flattened into the outer one.
+ *
+ * Addresses are labelled from the DAO's Safes, their signer labels, the internal team
+ * directory and the ABI registry; token symbols and decimals come from cached Safe balances
+ * and registry entries. Decoding never fails: a call nothing recognises is shown by selector.
+ */
+
+// Nested multiSend batches deeper than this are left as plain calls
+const MAX_BATCH_DEPTH = 3;
+
+// Inner actions named in a batch summary before "and N more"
+const MAX_BATCH_SUMMARY_ACTIONS = 5;
+
+interface BuiltinAbi {
+  name: string;
+  iface: Interface;
+}
+
+const BUILTIN_ABIS: BuiltinAbi[] = [
+  {
+    name: "Safe",
+    iface: new Interface([
+      "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+      "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+      "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+      "function changeThreshold(uint256 _threshold)",
+    ]),
+  },
+  { name: "MultiSend", iface: new Interface(["function multiSend(bytes transactions)"]) },
+  {
+    name: "ERC-20",
+    iface: new Interface([
+      "function transfer(address to, uint256 value)",
+      "function approve(address spender, uint256 value)",
+      "function transferFrom(address from, address to, uint256 value)",
+    ]),
+  },
+  {
+    name: "ERC-721",
+    iface: new Interface([
+      "function safeTransferFrom(address from, address to, uint256 tokenId)",
+      "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+      "function setApprovalForAll(address operator, bool approved)",
+    ]),
+  },
+  {
+    name: "ERC-1155",
+    iface: new Interface([
+      "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)",
+      "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)",
+    ]),
+  },
+];
+
+// ==================== Context ====================
+
+interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+export interface DecoderContext {
+  chainId: number;
+  nativeSymbol: string;
+  safeAddresses: Set<string>; // Lowercase
+  labels: Map<string, string>; // Lowercase address -> label
+  tokens: Map<string, TokenInfo>; // Lowercase token address
+  abis: Map<string, { name: string; iface: Interface }>; // Lowercase contract address
+}
+
+/** Parse an uploaded ABI; null when ethers can't build an interface from it */
+// Human-readable or JSON fragments; Interface itself rejects malformed ones
+function isAbiFragmentList(abi: unknown[]): abi is Array<string | JsonFragment> {
+  return abi.every(fragment => typeof fragment === "string" || (typeof fragment === "object" && fragment !== null && !Array.isArray(fragment)));
+}
+
+export function parseContractAbi(abi: unknown[]): Interface | null {
+  if (!isAbiFragmentList(abi)) return null;
+  try {
+    const iface = new Interface(abi);
+    return iface.fragments.some(f => f.type === "function") ? iface : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadDecoderContext(chainId: number): Promise<DecoderContext> {
+  const context: DecoderContext = {
+    chainId,
+    nativeSymbol: getNativeTokenSymbol(chainId),
+    safeAddresses: new Set(),
+    labels: new Map(),
+    tokens: new Map(),
+    abis: new Map(),
+  };
+
+  // Later sources override earlier ones: team directory, then signer labels, then the DAO's own Safes
+  for (const member of await storage.getInternalTeamMembers()) {
+    if (member.walletAddress && isAddress(member.walletAddress)) {
+      context.labels.set(member.walletAddress.toLowerCase(), member.nickname || member.name);
+    }
+  }
+  const wallets = (await storage.getDaoSafeWallets()).filter(w => w.chainId === chainId);
+  for (const wallet of wallets) {
+    for (const signer of await storage.getDaoSafeSigners(wallet.id)) {
+      if (signer.label) context.labels.set(signer.signerAddress.toLowerCase(), signer.label);
+    }
+    for (const balance of await storage.getDaoSafeBalances(wallet.id)) {
+      if (balance.tokenAddress) {
+        context.tokens.set(balance.tokenAddress.toLowerCase(), { symbol: balance.tokenSymbol, decimals: balance.tokenDecimals ?? 18 });
+      }
+    }
+  }
+  for (const wallet of wallets) {
+    context.safeAddresses.add(wallet.address.toLowerCase());
+    context.labels.set(wallet.address.toLowerCase(), wallet.label);
+  }
+
+  for (const entry of await storage.getDaoContractAbis(chainId)) {
+    addRegistryEntry(context, entry);
+  }
+  return context;
+}
+
+function addRegistryEntry(context: DecoderContext, entry: DaoContractAbi): void {
+  const address = entry.contractAddress.toLowerCase();
+  if (!context.labels.has(address)) context.labels.set(address, entry.name);
+  if (entry.tokenSymbol) {
+    context.tokens.set(address, { symbol: entry.tokenSymbol, decimals: entry.tokenDecimals ?? 18 });
+  }
+  const iface = parseContractAbi(entry.abi);
+  if (iface) context.abis.set(address, { name: entry.name, iface });
+}
+
+// ==================== Formatting ====================
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function labelAddress(address: string, context: DecoderContext): string {
+  const checksummed = isAddress(address) ? getAddress(address) : address;
+  const label = context.labels.get(address.toLowerCase());
+  return label ? `${label} (${shortAddress(checksummed)})` : shortAddress(checksummed);
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  const [whole, fraction = ""] = formatUnits(amount, decimals).split(".");
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const trimmed = fraction.slice(0, 6).replace(/0+$/, "");
+  return trimmed ? `${grouped}.${trimmed}` : grouped;
+}
+
+function formatTokenAmount(amount: bigint, token: string, context: DecoderContext): string {
+  const info = context.tokens.get(token.toLowerCase());
+  if (!info) return `${amount.toString()} units of ${labelAddress(token, context)}`;
+  return `${formatAmount(amount, info.decimals)} ${info.symbol}`;
+}
+
+function formatArg(value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") {
+    // Long byte strings (nested calldata) are shortened
+    return value.startsWith("0x") && value.length > 74 ? `${value.slice(0, 10)}… (${(value.length - 2) / 2} bytes)` : value;
+  }
+  if (Array.isArray(value)) return `[${value.map(formatArg).join(", ")}]`;
+  return String(value);
+}
+
+function argsOf(parsed: TransactionDescription): DecodedSafeAction["args"] {
+  return parsed.fragment.inputs.map((input, i) => ({
+    name: input.name || `arg${i}`,
+    type: input.type,
+    value: formatArg(parsed.args[i]),
+  }));
+}
+
+// ==================== Decoding ====================
+
+// A decoded call; a multiSend carries its inner calls, nested batches flattened into them
+export interface DecodedCall extends DecodedSafeAction {
+  actions?: DecodedSafeAction[];
+}
+
+/** Packed multiSend entries: operation (1 byte), to (20), value (32), data length (32), data */
+export function unpackMultiSend(packed: string): { operation: number; to: string; value: bigint; data: string }[] {
+  const bytes = getBytes(packed);
+  const calls: { operation: number; to: string; value: bigint; data: string }[] = [];
+  let offset = 0;
+  while (offset + 85 <= bytes.length) {
+    const length = Number(toBigInt(bytes.slice(offset + 53, offset + 85)));
+    calls.push({
+      operation: bytes[offset],
+      to: getAddress(hexlify(bytes.slice(offset + 1, offset + 21))),
+      value: toBigInt(bytes.slice(offset + 21, offset + 53)),
+      data: hexlify(bytes.slice(offset + 85, offset + 85 + length)),
+    });
+    offset += 85 + length;
+  }
+  return calls;
+}
+
+function parseWith(iface: Interface, data: string): TransactionDescription | null {
+  try {
+    return iface.parseTransaction({ data });
+  } catch {
+    return null;
+  }
+}
+
+function describeBuiltin(abi: string, parsed: TransactionDescription, base: DecodedCall, context: DecoderContext, depth: number): DecodedCall | null {
+  const args = parsed.args;
+  const token = base.to;
+  switch (`${abi}.${parsed.name}`) {
+    case "Safe.addOwnerWithThreshold":
+      return { ...base, kind: "owner_change", summary: `Add owner ${labelAddress(args[0], context)} and set threshold to ${args[1]}` };
+    case "Safe.removeOwner":
+      return { ...base, kind: "owner_change", summary: `Remove owner ${labelAddress(args[1], context)} and set threshold to ${args[2]}` };
+    case "Safe.swapOwner":
+      return { ...base, kind: "owner_change", summary: `Replace owner ${labelAddress(args[1], context)} with ${labelAddress(args[2], context)}` };
+    case "Safe.changeThreshold":
+      return { ...base, kind: "owner_change", summary: `Change the signature threshold to ${args[0]}` };
+    case "MultiSend.multiSend": {
+      if (depth >= MAX_BATCH_DEPTH) return null;
+      const actions: DecodedSafeAction[] = [];
+      for (const call of unpackMultiSend(args[0])) {
+        const action = decodeCall(call.to, call.value, call.data, call.operation, context, depth + 1);
+        if (action.actions) actions.push(...action.actions);
+        else actions.push(action);
+      }
+      const named = actions.slice(0, MAX_BATCH_SUMMARY_ACTIONS).map(a => a.summary);
+      const more = actions.length > MAX_BATCH_SUMMARY_ACTIONS ? `; and ${actions.length - MAX_BATCH_SUMMARY_ACTIONS} more` : "";
+      return {
+        ...base,
+        kind: "multisend",
+        args: [],
+        actions,
+        summary: `Batch of ${actions.length} action${actions.length === 1 ? "" : "s"}: ${named.join("; ")}${more}`,
+      };
+    }
+    case "ERC-20.transfer":
+      return { ...base, kind: "erc20_transfer", summary: `Transfer ${formatTokenAmount(args[1], token, context)} to ${labelAddress(args[0], context)}` };
+    case "ERC-20.approve": {
+      const amount = args[1] === MaxUint256 ? `unlimited ${context.tokens.get(token.toLowerCase())?.symbol ?? labelAddress(token, context)}` : formatTokenAmount(args[1], token, context);
+      return { ...base, kind: "erc20_approve", summary: `Approve ${labelAddress(args[0], context)} to spend ${amount}` };
+    }
+    case "ERC-20.transferFrom":
+      // Same selector for ERC-20 and ERC-721; known fungible tokens are ERC-20
+      if (context.tokens.has(token.toLowerCase())) {
+        return { ...base, kind: "erc20_transfer", summary: `Transfer ${formatTokenAmount(args[2], token, context)} from ${labelAddress(args[0], context)} to ${labelAddress(args[1], context)}` };
+      }
+      return { ...base, kind: "erc721_transfer", summary: `Transfer ${labelAddress(token, context)} #${args[2]} from ${labelAddress(args[0], context)} to ${labelAddress(args[1], context)}` };
+    case "ERC-721.safeTransferFrom":
+      return { ...base, kind: "erc721_transfer", summary: `Transfer ${labelAddress(token, context)} #${args[2]} from ${labelAddress(args[0], context)} to ${labelAddress(args[1], context)}` };
+    case "ERC-721.setApprovalForAll":
+      return { ...base, kind: "contract_call", summary: `${args[1] ? "Allow" : "Revoke"} ${labelAddress(args[0], context)} to manage all ${labelAddress(token, context)} tokens` };
+    case "ERC-1155.safeTransferFrom":
+      return { ...base, kind: "erc1155_transfer", summary: `Transfer ${args[3]} × ${labelAddress(token, context)} #${args[2]} to ${labelAddress(args[1], context)}` };
+    case "ERC-1155.safeBatchTransferFrom":
+      return { ...base, kind: "erc1155_transfer", summary: `Transfer ${args[2].length} token id(s) of ${labelAddress(token, context)} to ${labelAddress(args[1], context)}` };
+    default:
+      return null;
+  }
+}
+
+/** Decode one call; unknown calls come back as contract_call with the selector as method */
+export function decodeCall(to: string, value: bigint, data: string | null, operation: number, context: DecoderContext, depth = 0): DecodedCall {
+  const target = isAddress(to) ? getAddress(to) : to;
+  const base: DecodedCall = {
+    kind: "contract_call",
+    summary: "",
+    to: target,
+    value: value.toString(),
+    operation,
+    method: null,
+    contractName: context.abis.get(to.toLowerCase())?.name ?? context.labels.get(to.toLowerCase()) ?? null,
+    args: [],
+  };
+  const withValue = (summary: string) => value > BigInt(0) ? `${summary} (sending ${formatAmount(value, 18)} ${context.nativeSymbol})` : summary;
+  const viaDelegate = (summary: string) => operation === 1 ? `Delegatecall: ${summary}` : summary;
+
+  if (!data || data === "0x") {
+    if (value > BigInt(0)) {
+      return { ...base, kind: "native_transfer", summary: `Send ${formatAmount(value, 18)} ${context.nativeSymbol} to ${labelAddress(to, context)}` };
+    }
+    // Safe UIs reject a queued transaction with an empty call to the Safe at the same nonce
+    const summary = context.safeAddresses.has(to.toLowerCase()) ? "Reject the queued transaction at this nonce" : `Empty call to ${labelAddress(to, context)}`;
+    return { ...base, kind: "empty", summary };
+  }
+
+  for (const builtin of BUILTIN_ABIS) {
+    const parsed = parseWith(builtin.iface, data);
+    if (!parsed) continue;
+    const described = describeBuiltin(builtin.name, parsed, { ...base, method: parsed.name, args: argsOf(parsed) }, context, depth);
+    if (described) {
+      // A delegatecall to MultiSend is how Safes batch; only other delegatecalls are called out
+      const summary = described.kind === "multisend" ? described.summary : viaDelegate(described.summary);
+      return { ...described, summary: withValue(summary) };
+    }
+  }
+
+  const registered = context.abis.get(to.toLowerCase());
+  const parsed = registered ? parseWith(registered.iface, data) : null;
+  if (registered && parsed) {
+    const args = argsOf(parsed);
+    const argSummary = args.map(a => `${a.name}: ${isAddress(a.value) ? labelAddress(a.value, context) : a.value}`).join(", ");
+    return {
+      ...base,
+      method: parsed.name,
+      args,
+      summary: withValue(viaDelegate(`Call ${parsed.name}(${argSummary}) on ${registered.name}`)),
+    };
+  }
+
+  const selector = data.slice(0, 10);
+  return { ...base, method: selector, summary: withValue(viaDelegate(`Call ${selector} on ${labelAddress(to, context)}`)) };
+}
+
+function isTransfer(action: DecodedSafeAction): boolean {
+  return ["native_transfer", "erc20_transfer", "erc721_transfer", "erc1155_transfer"].includes(action.kind);
+}
+
+export interface DecodedSafeTransaction {
+  summary: string;
+  actions: DecodedSafeAction[]; // The batch's calls for a multiSend, otherwise the single call
+  txType: SafeTxType;
+}
+
+export function decodeSafeTransaction(
+  tx: { to: string; value: string | null; data: string | null; operation: number | null },
+  context: DecoderContext,
+): DecodedSafeTransaction {
+  const action = decodeCall(tx.to, BigInt(tx.value || "0"), tx.data, tx.operation ?? 0, context);
+  let txType: SafeTxType = "contract_interaction";
+  if (action.kind === "owner_change") txType = "settings_change";
+  else if (action.kind === "empty" && context.safeAddresses.has(tx.to.toLowerCase())) txType = "rejection";
+  else if (action.kind === "multisend" ? (action.actions ?? []).every(isTransfer) : isTransfer(action)) txType = "transfer";
+  return {
+    summary: action.summary,
+    actions: action.kind === "multisend" ? action.actions ?? [] : [action],
+    txType,
+  };
+}
+
+/** Decode a stored transaction and save its summary, actions and type */
+export async function applyDecoding(tx: DaoSafeTxHistory, context: DecoderContext): Promise<DecodedSafeTransaction> {
+  const decoded = decodeSafeTransaction(tx, context);
+  await storage.updateDaoSafeTxDecoding(tx.id, { summary: decoded.summary, decodedActions: decoded.actions, txType: decoded.txType });
+  return decoded;
+}
+
+/** Re-decode a chain's stored history, e.g. after an ABI or label changed */
+export async function redecodeChainHistory(chainId: number): Promise<number> {
+  const context = await loadDecoderContext(chainId);
+  const txs = await storage.getDaoSafeTxHistoryForChain(chainId);
+  for (const tx of txs) {
+    await applyDecoding(tx, context);
+  }
+  console.log(`[SafeDecoder] Re-decoded ${txs.length} transaction(s) on chain ${chainId}`);
+  return txs.length;
+}
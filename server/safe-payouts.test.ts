@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Interface, dataSlice, getAddress, getBytes, toBigInt, toNumber } from "ethers";
+import { expectedSafeCall } from "./safe-payouts";
+
+type Transfer = Parameters<typeof expectedSafeCall>[0][number];
+
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const ALICE = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const BOB = "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359";
+const erc20 = new Interface(["function transfer(address to, uint256 value)"]);
+const multiSend = new Interface(["function multiSend(bytes transactions)"]);
+
+function transfer(to: string, value: string, data: string): Transfer {
+  return { builderTx: { to, value, data: null, contractMethod: null, contractInputsValues: null }, to, value, data };
+}
+
+// Split MultiSend's packed (operation, to, value, dataLength, data) records back apart
+function unpack(packed: string): { operation: number; to: string; value: bigint; data: string }[] {
+  const bytes = getBytes(packed);
+  const calls = [];
+  for (let offset = 0; offset < bytes.length;) {
+    const length = toNumber(dataSlice(bytes, offset + 53, offset + 85));
+    calls.push({
+      operation: bytes[offset],
+      to: getAddress(dataSlice(bytes, offset + 1, offset + 21)),
+      value: toBigInt(dataSlice(bytes, offset + 21, offset + 53)),
+      data: dataSlice(bytes, offset + 85, offset + 85 + length),
+    });
+    offset += 85 + length;
+  }
+  return calls;
+}
+
+test("a single transfer is called directly", () => {
+  assert.deepEqual(expectedSafeCall([transfer(ALICE, "1000", "0x")]), { to: ALICE, value: "1000", data: "0x" });
+});
+
+test("several transfers are batched through multiSend with plain calls", () => {
+  const tokenData = erc20.encodeFunctionData("transfer", [BOB, BigInt(2500000)]);
+  const call = expectedSafeCall([transfer(ALICE, "1000", "0x"), transfer(USDC, "0", tokenData)]);
+  assert.equal(call.to, null);
+  assert.equal(call.value, "0");
+
+  const [packed] = multiSend.decodeFunctionData("multiSend", call.data);
+  assert.deepEqual(unpack(packed), [
+    { operation: 0, to: ALICE, value: BigInt(1000), data: "0x" },
+    { operation: 0, to: USDC, value: BigInt(0), data: tokenData },
+  ]);
+});
@@ -0,0 +1,496 @@
+import { Interface, getAddress, isAddress, solidityPacked, dataLength, concat } from "ethers";
+import { storage } from "./storage";
+import { getChainName, getNativeTokenSymbol } from "./safe-service";
+import {
+  daoPayoutSourceTypes,
+  type DaoPayoutBatch,
+  type DaoPayoutItem,
+  type DaoPayoutSourceType,
+  type DaoSafeTxHistory,
+  type DaoSafeWallet,
+  type InsertDaoPayoutItem,
+  type InternalTeamMember,
+  type SafeTransactionBuilderBatch,
+  type SafeTransactionBuilderTx,
+} from "@shared/schema";
+
+/**
+ * Safe payout batches
+ *
+ * Turns executed bonus run recipients, approved payment requests and pending team payments
+ * into a Safe Transaction Builder batch file (one ETH or ERC-20 transfer per payout) for a
+ * DAO Safe. Recipient wallets come from internal_team_members, reached directly, through a
+ * DAO membership, or through the linked platform user. USD amounts are converted at the
+ * batch's token price (1 for ERC-20 stablecoins unless given).
+ *
+ * The Safe UI sends a one-transfer batch as a plain transaction and a larger one as a
+ * multiSend call, so the batch stores the exact calldata it expects. After each Safe sync,
+ * open batches are matched against dao_safe_tx_history: a match links its safeTxHash to the
+ * batch, its items and their sources, and execution marks them paid. A batch whose matched
+ * transaction is replaced or fails goes back to draft.
+ */
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+// Safe history timestamps come from the transaction service; allow for clock skew
+const MATCH_WINDOW_SKEW_MS = 10 * 60 * 1000;
+
+// Currencies paid 1:1 from USD amounts
+export const USD_CURRENCIES = ["USD", "USDC", "USDT", "DAI", "USDBC"];
+
+const erc20Interface = new Interface(["function transfer(address to, uint256 value)"]);
+const multiSendInterface = new Interface(["function multiSend(bytes transactions)"]);
+
+export type PayoutResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): PayoutResult<T> {
+  return { ok: false, code, error };
+}
+
+// ==================== Resolving payouts ====================
+
+export interface PayoutSourceRef {
+  sourceType: DaoPayoutSourceType;
+  sourceId: number;
+}
+
+export interface ResolvedPayout extends PayoutSourceRef {
+  description: string;
+  usdAmountCents: number;
+  recipientName: string | null;
+  recipientAddress: string | null; // Checksummed; null when it couldn't be resolved
+  internalTeamMemberId: number | null;
+  batchId: number | null; // Batch the source is already in
+  issue: string | null; // Why the payout can't be batched
+}
+
+interface TeamDirectory {
+  byId: Map<number, InternalTeamMember>;
+  byUserId: Map<string, InternalTeamMember>;
+}
+
+async function loadTeamDirectory(): Promise<TeamDirectory> {
+  const members = await storage.getInternalTeamMembers();
+  return {
+    byId: new Map(members.map(m => [m.id, m])),
+    byUserId: new Map(members.filter(m => m.linkedUserId).map(m => [m.linkedUserId as string, m])),
+  };
+}
+
+function walletOf(member: InternalTeamMember | undefined): Pick<ResolvedPayout, "recipientName" | "recipientAddress" | "internalTeamMemberId" | "batchId" | "issue"> {
+  if (!member) {
+    return { recipientName: null, recipientAddress: null, internalTeamMemberId: null, batchId: null, issue: "No team member profile with a wallet" };
+  }
+  const base = { recipientName: member.nickname || member.name, internalTeamMemberId: member.id, batchId: null };
+  if (!member.walletAddress) return { ...base, recipientAddress: null, issue: `${base.recipientName} has no wallet address` };
+  if (member.walletChain === "sol") {
+    return { ...base, recipientAddress: null, issue: `${base.recipientName}'s wallet is on Solana, not an EVM chain` };
+  }
+  if (!isAddress(member.walletAddress)) {
+    return { ...base, recipientAddress: null, issue: `${base.recipientName}'s wallet address is not a valid EVM address` };
+  }
+  return { ...base, recipientAddress: getAddress(member.walletAddress), issue: null };
+}
+
+function usdCents(amount: number, currency: string | null): { cents: number; issue: string | null } {
+  const code = (currency || "USD").toUpperCase();
+  if (!USD_CURRENCIES.includes(code)) return { cents: 0, issue: `Amount is in ${code}, which can't be paid from a USD amount` };
+  if (!Number.isFinite(amount) || amount <= 0) return { cents: 0, issue: "Amount must be positive" };
+  return { cents: Math.round(amount * 100), issue: null };
+}
+
+async function resolveBonusRecipients(ids: number[], directory: TeamDirectory): Promise<ResolvedPayout[]> {
+  const recipients = await storage.getDaoBonusRunRecipientsByIds(ids);
+  const runs = new Map<number, string | null>();
+  const resolved: ResolvedPayout[] = [];
+  for (const recipient of recipients) {
+    if (!runs.has(recipient.bonusRunId)) {
+      runs.set(recipient.bonusRunId, (await storage.getDaoBonusRun(recipient.bonusRunId))?.status ?? null);
+    }
+    const membership = await storage.getDaoMembership(recipient.membershipId);
+    const member = membership?.internalTeamMemberId
+      ? directory.byId.get(membership.internalTeamMemberId)
+      : membership?.userId ? directory.byUserId.get(membership.userId) : undefined;
+    const wallet = walletOf(member);
+    const runStatus = runs.get(recipient.bonusRunId);
+    resolved.push({
+      sourceType: "bonus_recipient",
+      sourceId: recipient.id,
+      description: `Bonus run #${recipient.bonusRunId}`,
+      usdAmountCents: recipient.finalAmount,
+      ...wallet,
+      issue: runStatus !== "executed" ? `Bonus run #${recipient.bonusRunId} is ${runStatus ?? "missing"}, not executed`
+        : recipient.paidAt ? "Already paid"
+        : wallet.issue,
+    });
+  }
+  return resolved;
+}
+
+async function resolvePaymentRequests(ids: number[], directory: TeamDirectory): Promise<ResolvedPayout[]> {
+  const resolved: ResolvedPayout[] = [];
+  for (const id of ids) {
+    const request = await storage.getPaymentRequest(id);
+    if (!request) continue;
+    const amount = usdCents(parseFloat(request.amount), request.currency);
+    const wallet = walletOf(directory.byUserId.get(request.requesterId));
+    resolved.push({
+      sourceType: "payment_request",
+      sourceId: request.id,
+      description: `Payment request #${request.id}: ${request.reason}`,
+      usdAmountCents: amount.cents,
+      ...wallet,
+      issue: request.status !== "approved" ? `Payment request is ${request.status}, not approved`
+        : request.paidAt ? "Already paid"
+        : amount.issue ?? wallet.issue,
+    });
+  }
+  return resolved;
+}
+
+async function resolveTeamPayments(ids: number[], directory: TeamDirectory): Promise<ResolvedPayout[]> {
+  const resolved: ResolvedPayout[] = [];
+  for (const id of ids) {
+    const payment = await storage.getTeamPayment(id);
+    if (!payment) continue;
+    const amount = usdCents(payment.amount, payment.currency);
+    const wallet = walletOf(directory.byId.get(payment.memberId));
+    resolved.push({
+      sourceType: "team_payment",
+      sourceId: payment.id,
+      description: payment.description || `Team payment #${payment.id}`,
+      usdAmountCents: amount.cents,
+      ...wallet,
+      issue: payment.status !== "pending" ? `Team payment is ${payment.status}, not pending` : amount.issue ?? wallet.issue,
+    });
+  }
+  return resolved;
+}
+
+export async function resolvePayouts(sources: PayoutSourceRef[]): Promise<ResolvedPayout[]> {
+  const directory = await loadTeamDirectory();
+  const idsOf = (type: DaoPayoutSourceType) => sources.filter(s => s.sourceType === type).map(s => s.sourceId);
+  const resolved = [
+    ...(await resolveBonusRecipients(idsOf("bonus_recipient"), directory)),
+    ...(await resolvePaymentRequests(idsOf("payment_request"), directory)),
+    ...(await resolveTeamPayments(idsOf("team_payment"), directory)),
+  ];
+
+  // Sources already in a batch can't be paid twice
+  for (const type of daoPayoutSourceTypes) {
+    const batched = await storage.getDaoPayoutItemsForSources(type, idsOf(type));
+    const batchBySource = new Map(batched.map(item => [item.sourceId, item.batchId]));
+    for (const payout of resolved) {
+      const batchId = payout.sourceType === type ? batchBySource.get(payout.sourceId) : undefined;
+      if (batchId === undefined) continue;
+      payout.batchId = batchId;
+      payout.issue = payout.issue ?? `Already in payout batch #${batchId}`;
+    }
+  }
+  return resolved;
+}
+
+// Everything that could go into a batch right now
+export async function getPayoutCandidates(): Promise<ResolvedPayout[]> {
+  const sources: PayoutSourceRef[] = [];
+  for (const run of await storage.getDaoBonusRuns("executed")) {
+    for (const recipient of await storage.getDaoBonusRunRecipients(run.id)) {
+      if (!recipient.paidAt) sources.push({ sourceType: "bonus_recipient", sourceId: recipient.id });
+    }
+  }
+  for (const request of await storage.getPaymentRequests()) {
+    if (request.status === "approved" && !request.paidAt) sources.push({ sourceType: "payment_request", sourceId: request.id });
+  }
+  for (const payment of await storage.getAllTeamPayments()) {
+    if (payment.status === "pending") sources.push({ sourceType: "team_payment", sourceId: payment.id });
+  }
+  const resolved = await resolvePayouts(sources);
+  return resolved.filter(payout => payout.batchId === null);
+}
+
+// ==================== Building the batch ====================
+
+export interface PayoutToken {
+  address: string | null; // null for the native token
+  symbol: string;
+  decimals: number;
+  usdPrice: number;
+}
+
+function toBaseUnits(cents: number, token: PayoutToken): bigint {
+  // cents / 100 / usdPrice tokens, with the price scaled by 1e8 to stay in integers
+  const priceScaled = BigInt(Math.round(token.usdPrice * 1e8));
+  const unit = BigInt("1" + "0".repeat(token.decimals));
+  return (BigInt(cents) * unit * BigInt(1e6)) / priceScaled;
+}
+
+interface EncodedTransfer {
+  builderTx: SafeTransactionBuilderTx;
+  to: string;
+  value: string;
+  data: string;
+}
+
+function encodeTransfer(recipient: string, amount: bigint, token: PayoutToken): EncodedTransfer {
+  if (!token.address) {
+    return {
+      builderTx: { to: recipient, value: amount.toString(), data: null, contractMethod: null, contractInputsValues: null },
+      to: recipient,
+      value: amount.toString(),
+      data: "0x",
+    };
+  }
+  const tokenAddress = getAddress(token.address);
+  return {
+    builderTx: {
+      to: tokenAddress,
+      value: "0",
+      data: null,
+      contractMethod: {
+        inputs: [
+          { internalType: "address", name: "to", type: "address" },
+          { internalType: "uint256", name: "value", type: "uint256" },
+        ],
+        name: "transfer",
+        payable: false,
+      },
+      contractInputsValues: { to: recipient, value: amount.toString() },
+    },
+    to: tokenAddress,
+    value: "0",
+    data: erc20Interface.encodeFunctionData("transfer", [recipient, amount]),
+  };
+}
+
+// Calldata the Safe UI produces for the batch: the transfer itself, or multiSend over all of them
+export function expectedSafeCall(transfers: EncodedTransfer[]): { to: string | null; value: string; data: string } {
+  if (transfers.length === 1) {
+    const [only] = transfers;
+    return { to: only.to, value: only.value, data: only.data };
+  }
+  const packed = concat(transfers.map(t => solidityPacked(
+    ["uint8", "address", "uint256", "uint256", "bytes"],
+    [0, t.to, t.value, dataLength(t.data), t.data],
+  )));
+  return { to: null, value: "0", data: multiSendInterface.encodeFunctionData("multiSend", [packed]) };
+}
+
+export interface CreatePayoutBatchInput {
+  walletId: number;
+  title?: string;
+  tokenAddress?: string | null;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  usdPrice?: number;
+  bonusRunId?: number;
+  sources?: PayoutSourceRef[];
+}
+
+async function resolvePayoutToken(wallet: DaoSafeWallet, input: CreatePayoutBatchInput): Promise<PayoutResult<PayoutToken>> {
+  if (!input.tokenAddress) {
+    if (input.usdPrice === undefined) return fail("invalid", "usdPrice is required to pay in the native token");
+    return { ok: true, value: { address: null, symbol: getNativeTokenSymbol(wallet.chainId), decimals: 18, usdPrice: input.usdPrice } };
+  }
+  const cached = (await storage.getDaoSafeBalances(wallet.id))
+    .find(b => b.tokenAddress?.toLowerCase() === input.tokenAddress!.toLowerCase());
+  const decimals = input.tokenDecimals ?? cached?.tokenDecimals ?? undefined;
+  if (decimals === undefined || decimals === null) {
+    return fail("invalid", "tokenDecimals is required for a token the Safe doesn't hold yet");
+  }
+  return {
+    ok: true,
+    value: {
+      address: getAddress(input.tokenAddress),
+      symbol: input.tokenSymbol ?? cached?.tokenSymbol ?? "TOKEN",
+      decimals,
+      usdPrice: input.usdPrice ?? 1,
+    },
+  };
+}
+
+export interface PayoutBatchDetail {
+  batch: DaoPayoutBatch;
+  items: DaoPayoutItem[];
+  skipped: ResolvedPayout[];
+}
+
+export async function createPayoutBatch(input: CreatePayoutBatchInput, userId: string): Promise<PayoutResult<PayoutBatchDetail>> {
+  const wallet = await storage.getDaoSafeWallet(input.walletId);
+  if (!wallet || !wallet.isActive) return fail("not_found", "Safe wallet not found");
+  const token = await resolvePayoutToken(wallet, input);
+  if (!token.ok) return token;
+
+  const sources = [...(input.sources ?? [])];
+  if (input.bonusRunId !== undefined) {
+    const run = await storage.getDaoBonusRun(input.bonusRunId);
+    if (!run) return fail("not_found", "Bonus run not found");
+    if (run.status !== "executed") return fail("conflict", `Bonus run is ${run.status}, not executed`);
+    for (const recipient of await storage.getDaoBonusRunRecipients(run.id)) {
+      sources.push({ sourceType: "bonus_recipient", sourceId: recipient.id });
+    }
+  }
+  const unique = sources.filter((s, i) => sources.findIndex(o => o.sourceType === s.sourceType && o.sourceId === s.sourceId) === i);
+  const resolved = await resolvePayouts(unique);
+  const payable = resolved.filter(p => !p.issue && p.recipientAddress);
+  const skipped = resolved.filter(p => p.issue || !p.recipientAddress);
+  if (payable.length === 0) {
+    return fail("invalid", skipped.length ? `Nothing to pay: ${skipped.map(s => s.issue).join("; ")}` : "No payout sources found");
+  }
+
+  const amounts = payable.map(p => toBaseUnits(p.usdAmountCents, token.value));
+  const zero = payable.find((p, i) => amounts[i] <= BigInt(0));
+  if (zero) return fail("invalid", `${zero.description} converts to 0 ${token.value.symbol}`);
+  const transfers = payable.map((p, i) => encodeTransfer(p.recipientAddress as string, amounts[i], token.value));
+  const expected = expectedSafeCall(transfers);
+  const totalTokenAmount = amounts.reduce((sum, a) => sum + a, BigInt(0));
+  const totalUsdCents = payable.reduce((sum, p) => sum + p.usdAmountCents, 0);
+  const title = input.title ?? `Payouts ${new Date().toISOString().slice(0, 10)} (${payable.length})`;
+
+  const builderJson: SafeTransactionBuilderBatch = {
+    version: "1.0",
+    chainId: String(wallet.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: title,
+      description: `${payable.length} payouts totalling $${(totalUsdCents / 100).toFixed(2)} in ${token.value.symbol} on ${getChainName(wallet.chainId)}`,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: getAddress(wallet.address),
+      createdFromOwnerAddress: "",
+    },
+    transactions: transfers.map(t => t.builderTx),
+  };
+
+  const batch = await storage.createDaoPayoutBatch({
+    walletId: wallet.id,
+    chainId: wallet.chainId,
+    safeAddress: getAddress(wallet.address),
+    title,
+    status: "draft",
+    tokenAddress: token.value.address,
+    tokenSymbol: token.value.symbol,
+    tokenDecimals: token.value.decimals,
+    usdPrice: token.value.usdPrice,
+    totalUsdCents,
+    totalTokenAmount: totalTokenAmount.toString(),
+    transactionCount: transfers.length,
+    builderJson,
+    expectedTo: expected.to,
+    expectedValue: expected.value,
+    expectedData: expected.data.toLowerCase(),
+    createdBy: userId,
+  });
+
+  const items: InsertDaoPayoutItem[] = payable.map((p, i) => ({
+    batchId: batch.id,
+    sourceType: p.sourceType,
+    sourceId: p.sourceId,
+    position: i,
+    recipientName: p.recipientName,
+    recipientAddress: p.recipientAddress as string,
+    internalTeamMemberId: p.internalTeamMemberId,
+    usdAmountCents: p.usdAmountCents,
+    tokenAmount: amounts[i].toString(),
+  }));
+  const created = await storage.createDaoPayoutItems(items);
+  if (created.length !== items.length) {
+    // Another batch claimed some of these sources in the meantime
+    await storage.deleteDaoPayoutBatch(batch.id);
+    return fail("conflict", "Some payouts were added to another batch at the same time; try again");
+  }
+
+  console.log(`[Payouts] Batch #${batch.id} created for ${wallet.label}: ${created.length} transfers, ${totalTokenAmount} ${token.value.symbol} base units`);
+  return { ok: true, value: { batch, items: created, skipped } };
+}
+
+export async function getPayoutBatchDetail(id: number): Promise<PayoutBatchDetail | undefined> {
+  const batch = await storage.getDaoPayoutBatch(id);
+  if (!batch) return undefined;
+  return { batch, items: await storage.getDaoPayoutItems(id), skipped: [] };
+}
+
+export function payoutBatchFileName(batch: DaoPayoutBatch): string {
+  return `payout-batch-${batch.id}-${batch.safeAddress.slice(0, 8)}.json`;
+}
+
+// Only drafts can be cancelled; a batch already proposed in the Safe has to be rejected there first
+export async function cancelPayoutBatch(id: number): Promise<PayoutResult<DaoPayoutBatch>> {
+  const cancelled = await storage.transitionDaoPayoutBatch(id, ["draft"], { status: "cancelled" });
+  if (!cancelled) {
+    const batch = await storage.getDaoPayoutBatch(id);
+    if (!batch) return fail("not_found", "Payout batch not found");
+    return fail("conflict", batch.status === "proposed"
+      ? "Batch is proposed in the Safe; reject it there, sync, then cancel"
+      : `Batch is ${batch.status}`);
+  }
+  // Frees the sources so they can go into another batch
+  await storage.deleteDaoPayoutItems(id);
+  return { ok: true, value: cancelled };
+}
+
+// ==================== Linking Safe transactions ====================
+
+function matchesBatch(batch: DaoPayoutBatch, tx: DaoSafeTxHistory): boolean {
+  if ((tx.data || "0x").toLowerCase() !== batch.expectedData) return false;
+  if ((tx.value || "0") !== batch.expectedValue) return false;
+  return !batch.expectedTo || tx.to.toLowerCase() === batch.expectedTo.toLowerCase();
+}
+
+async function linkSources(items: DaoPayoutItem[], tx: DaoSafeTxHistory | null, executed: boolean): Promise<void> {
+  const safeTxHash = tx?.safeTxHash ?? null;
+  const paidAt = executed ? tx?.executedAt ?? new Date() : null;
+  const idsOf = (type: DaoPayoutSourceType) => items.filter(i => i.sourceType === type).map(i => i.sourceId);
+  await storage.linkBonusRecipientPayouts(idsOf("bonus_recipient"), safeTxHash, paidAt);
+  await storage.linkPaymentRequestPayouts(idsOf("payment_request"), safeTxHash, paidAt);
+  if (executed && tx) {
+    for (const id of idsOf("team_payment")) {
+      await storage.updateTeamPayment(id, {
+        status: "completed",
+        txHash: tx.txHash ?? tx.safeTxHash,
+        paymentDate: paidAt ?? new Date(),
+      });
+    }
+  }
+}
+
+// Called after a wallet's history sync; returns how many batches changed
+export async function linkPayoutBatches(wallet: DaoSafeWallet): Promise<number> {
+  const open = await storage.getOpenDaoPayoutBatches(wallet.id);
+  let changed = 0;
+  for (const batch of open) {
+    const since = new Date((batch.createdAt ?? new Date()).getTime() - MATCH_WINDOW_SKEW_MS);
+    const history = await storage.getDaoSafeTxHistorySince(wallet.id, since);
+    const candidates = history.filter(tx => tx.status !== "failed" && tx.status !== "cancelled" && matchesBatch(batch, tx));
+    const match = candidates.find(tx => tx.status === "executed") ?? candidates[0];
+
+    if (!match) {
+      if (batch.status === "proposed") {
+        // The proposed transaction was replaced or failed
+        const reverted = await storage.transitionDaoPayoutBatch(batch.id, ["proposed"], { status: "draft", safeTxHash: null, linkedAt: null });
+        if (reverted) {
+          await linkSources(await storage.linkDaoPayoutItems(batch.id, null, null), null, false);
+          console.log(`[Payouts] Batch #${batch.id} is no longer in the Safe queue; back to draft`);
+          changed++;
+        }
+      }
+      continue;
+    }
+
+    const executed = match.status === "executed";
+    if (!executed && batch.safeTxHash === match.safeTxHash) continue;
+    const updated = await storage.transitionDaoPayoutBatch(batch.id, ["draft", "proposed"], {
+      status: executed ? "executed" : "proposed",
+      safeTxHash: match.safeTxHash,
+      txHash: match.txHash,
+      linkedAt: batch.linkedAt && batch.safeTxHash === match.safeTxHash ? batch.linkedAt : new Date(),
+      executedAt: executed ? match.executedAt ?? new Date() : null,
+    });
+    if (!updated) continue;
+    const items = await storage.linkDaoPayoutItems(batch.id, match.safeTxHash, executed ? match.executedAt ?? new Date() : null);
+    await linkSources(items, match, executed);
+    console.log(`[Payouts] Batch #${batch.id} linked to ${match.safeTxHash} (${updated.status})`);
+    changed++;
+  }
+  return changed;
+}
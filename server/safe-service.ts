@@ -137,7 +137,7 @@ export async function getSafeBalances(address: string, chainId: number): Promise
   }
 }
 
-function getNativeTokenSymbol(chainId: number): string {
+export function getNativeTokenSymbol(chainId: number): string {
   const symbols: Record<number, string> = {
     1: "ETH", 10: "ETH", 56: "BNB", 100: "xDAI", 137: "MATIC",
     8453: "ETH", 42161: "ETH", 43114: "AVAX", 11155111: "ETH",
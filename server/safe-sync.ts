@@ -1,5 +1,8 @@
 import { storage } from "./storage";
-import type { DaoSafeWallet, InsertDaoSafeTxHistory, SafeTxStatus, SafeTxType } from "@shared/schema";
+import { linkPayoutBatches } from "./safe-payouts";
+import { reconcileTreasury } from "./treasury-reconciliation";
+import { decodeSafeTransaction, loadDecoderContext } from "./safe-decoder";
+import type { DaoSafeSigner, DaoSafeTxHistory, DaoSafeWallet, InsertDaoSafeTxHistory, SafeTxStatus } from "@shared/schema";
 
 // Safe Transaction Service endpoints by chain
 const SAFE_TX_SERVICE_URLS: Record<number, string> = {
@@ -98,23 +101,6 @@ function getSafeServiceUrl(chainId: number): string | null {
   return SAFE_TX_SERVICE_URLS[chainId] || null;
 }
 
-// Determine transaction type from data
-function determineTxType(tx: SafeMultisigTransaction): SafeTxType {
-  if (!tx.data || tx.data === "0x") {
-    return "transfer";
-  }
-  if (tx.dataDecoded?.method === "changeThreshold" || 
-      tx.dataDecoded?.method === "addOwnerWithThreshold" ||
-      tx.dataDecoded?.method === "removeOwner" ||
-      tx.dataDecoded?.method === "swapOwner") {
-    return "settings_change";
-  }
-  if (tx.dataDecoded?.method === "rejectTransaction") {
-    return "rejection";
-  }
-  return "contract_interaction";
-}
-
 // Determine transaction status
 function determineTxStatus(tx: SafeMultisigTransaction): SafeTxStatus {
   if (tx.isExecuted) {
@@ -200,6 +186,27 @@ export async function fetchSafeTransactions(
   }
 }
 
+// Ask mapped signers who haven't confirmed yet to review a queued transaction, once per transaction
+async function notifyPendingSigners(wallet: DaoSafeWallet, tx: DaoSafeTxHistory, signers: DaoSafeSigner[]): Promise<void> {
+  const confirmed = new Set((tx.confirmations || []).map(c => c.signer.toLowerCase()));
+  const recipients = Array.from(new Set(
+    signers
+      .filter(s => s.isActive && s.platformUserId && !confirmed.has(s.signerAddress.toLowerCase()))
+      .map(s => s.platformUserId as string)
+  ));
+  if (recipients.length === 0) return;
+  if (!(await storage.claimDaoSafeTxSignerNotification(tx.id))) return;
+
+  for (const userId of recipients) {
+    await storage.createNotification({
+      userId,
+      type: "safe_signature_requested",
+      title: `Signature needed: ${wallet.label} #${tx.nonce}`,
+      message: tx.summary || `Transaction to ${tx.to}`,
+    });
+  }
+}
+
 // Sync transactions for a single wallet
 export async function syncWalletTransactions(wallet: DaoSafeWallet): Promise<number> {
   console.log(`Syncing transactions for wallet ${wallet.label} (${wallet.address}) on chain ${wallet.chainId}`);
@@ -215,6 +222,7 @@ export async function syncWalletTransactions(wallet: DaoSafeWallet): Promise<num
   // Get signer mappings for user attribution
   const signers = await storage.getDaoSafeSigners(wallet.id);
   const signerMap = new Map(signers.map(s => [s.signerAddress.toLowerCase(), s]));
+  const decoderContext = await loadDecoderContext(wallet.chainId);
 
   for (const tx of txResponse.results) {
     try {
@@ -235,7 +243,8 @@ export async function syncWalletTransactions(wallet: DaoSafeWallet): Promise<num
 
       // Determine if this is a native token transfer
       const isNativeTransfer = !tx.data || tx.data === "0x";
-      
+      const decoded = decodeSafeTransaction(tx, decoderContext);
+
       const txData: InsertDaoSafeTxHistory = {
         walletId: wallet.id,
         safeTxHash: tx.safeTxHash,
@@ -248,7 +257,7 @@ export async function syncWalletTransactions(wallet: DaoSafeWallet): Promise<num
         dataDecoded: tx.dataDecoded ? JSON.stringify(tx.dataDecoded) : undefined,
         operation: tx.operation,
         nonce: tx.nonce,
-        txType: determineTxType(tx),
+        txType: decoded.txType,
         status: determineTxStatus(tx),
         confirmationsRequired: tx.confirmationsRequired,
         confirmationsCount: tx.confirmations.length,
@@ -264,13 +273,24 @@ export async function syncWalletTransactions(wallet: DaoSafeWallet): Promise<num
         executedAt: tx.executionDate ? new Date(tx.executionDate) : undefined,
       };
 
-      await storage.upsertDaoSafeTxHistory(txData);
+      const stored = await storage.upsertDaoSafeTxHistory(txData);
+      await storage.updateDaoSafeTxDecoding(stored.id, { summary: decoded.summary, decodedActions: decoded.actions });
+      if (stored.status === "awaiting_confirmations") {
+        await notifyPendingSigners(wallet, { ...stored, summary: decoded.summary }, signers);
+      }
       syncedCount++;
     } catch (error) {
       console.error(`Error syncing transaction ${tx.safeTxHash}:`, error);
     }
   }
 
+  // Link payout batches that now appear in the Safe's history
+  try {
+    await linkPayoutBatches(wallet);
+  } catch (error) {
+    console.error(`Error linking payout batches for wallet ${wallet.label}:`, error);
+  }
+
   // Update wallet's lastSyncedAt
   await storage.updateDaoSafeWallet(wallet.id, { lastSyncedAt: new Date() });
 
@@ -337,6 +357,13 @@ export async function syncAllWallets(): Promise<{ synced: number; errors: number
     }
   }
 
+  // Match ledger outflows against the freshly synced history
+  try {
+    await reconcileTreasury();
+  } catch (error) {
+    console.error("Error reconciling treasury:", error);
+  }
+
   return { synced, errors };
 }
 
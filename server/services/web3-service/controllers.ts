@@ -1,45 +1,44 @@
 import { Request, Response } from 'express';
 import { storage } from '../../storage';
-import { parseFile } from '../../file-parser';
+import { parseFile, extractEvmAddresses } from '../../file-parser';
+import { addressKey } from '@shared/addresses';
 import multer from 'multer';
-import type { ComparisonResult } from '@shared/schema';
+import {
+  collectionSetOperationSchema,
+  generateMerkleAllowlistSchema,
+  merkleAllowlistFromFileSchema,
+  addCollectionAddressesSchema,
+  updateCollectionLabelsSchema,
+  collectionAddressFilterSchema,
+  type ComparisonResult,
+  type User,
+} from '@shared/schema';
 import { createRequire } from 'module';
+import { getScreenerStatus as getWalletScreenerStatus } from '../../wallet-screener';
+import {
+  runSetOperation,
+  normalizeSetOperationBody,
+  createSnapshot,
+  getSnapshotsForCollection,
+  getSnapshot,
+  diffSnapshots,
+  diffComparisons,
+} from '../../collection-sets';
+import { generateFromCollection, generateFromFile, getAllowlistProofsFile } from '../../merkle-allowlist';
+import {
+  addAddresses,
+  importFile,
+  parseLabelField,
+  listAddresses,
+  listImports,
+  updateLabels,
+  exportCollection,
+} from '../../collection-metadata';
 
 const upload = multer({ storage: multer.memoryStorage() });
 const require = createRequire(import.meta.url);
 
-// Validate Ethereum address format
-function isValidEvmAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
-}
-
-// Extract all EVM addresses from any text content
-function extractEvmAddresses(content: string): string[] {
-  const addressRegex = /(?<![a-fA-F0-9])0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
-  const matches = content.match(addressRegex) || [];
-  
-  const seen = new Set<string>();
-  const uniqueAddresses: string[] = [];
-  
-  for (const addr of matches) {
-    const lowerAddr = addr.toLowerCase();
-    if (lowerAddr === '0x0000000000000000000000000000000000000000') {
-      continue;
-    }
-    const withoutPrefix = lowerAddr.slice(2);
-    const leadingZeros = withoutPrefix.match(/^0+/)?.[0]?.length || 0;
-    if (leadingZeros >= 30) {
-      continue;
-    }
-    
-    if (!seen.has(lowerAddr)) {
-      seen.add(lowerAddr);
-      uniqueAddresses.push(lowerAddr);
-    }
-  }
-  
-  return uniqueAddresses;
-}
+const RESULT_ERROR_STATUS = { not_found: 404, forbidden: 403, conflict: 409, invalid: 400 } as const;
 
 // Convert file buffer to text content
 async function fileToText(filename: string, buffer: Buffer): Promise<string> {
@@ -362,11 +361,11 @@ export async function compareFiles(req: Request, res: Response) {
     const eligibleParsed = parseFile(eligibleFile.originalname, eligibleFile.buffer);
 
     const mintedSet = new Set(
-      mintedParsed.addresses.map(addr => addr.address.toLowerCase())
+      mintedParsed.addresses.map(addr => addressKey(addr.address))
     );
 
     const notMinted = eligibleParsed.addresses.filter(
-      addr => !mintedSet.has(addr.address.toLowerCase())
+      addr => !mintedSet.has(addressKey(addr.address))
     );
 
     const allValidationErrors = [
@@ -429,12 +428,12 @@ export async function compareWithCollection(req: Request, res: Response) {
     }
 
     const mintedAddresses = await storage.getMintedAddresses(collectionId);
-    const mintedSet = new Set(mintedAddresses.map(addr => addr.toLowerCase()));
+    const mintedSet = new Set(mintedAddresses.map(addressKey));
 
     const eligibleParsed = parseFile(file.originalname, file.buffer);
 
     const notMinted = eligibleParsed.addresses.filter(
-      addr => !mintedSet.has(addr.address.toLowerCase())
+      addr => !mintedSet.has(addressKey(addr.address))
     );
 
     const result: ComparisonResult = {
@@ -573,47 +572,22 @@ export async function deleteCollection(req: Request, res: Response) {
 }
 
 /**
- * Add addresses to collection
+ * Add addresses to collection, optionally with metadata, labels and a tweet source
  */
 export async function addAddressesToCollection(req: Request, res: Response) {
   try {
-    const id = parseInt(req.params.id);
-    const { addresses } = req.body;
-    
-    const collection = await storage.getCollection(id);
-    if (!collection) {
-      return res.status(404).json({ error: "Collection not found" });
+    const parsed = addCollectionAddressesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
     }
 
-    if (!addresses || !Array.isArray(addresses)) {
-      return res.status(400).json({ error: "Addresses array is required" });
-    }
-
-    const validAddresses: string[] = [];
-    const invalidAddresses: { address: string; error: string }[] = [];
+    const result = await addAddresses(parseInt(req.params.id), parsed.data, (req.user as User).id);
 
-    for (const addr of addresses) {
-      if (typeof addr !== "string") continue;
-      const trimmed = addr.trim();
-      if (!trimmed) continue;
-      
-      if (isValidEvmAddress(trimmed)) {
-        validAddresses.push(trimmed.toLowerCase());
-      } else {
-        invalidAddresses.push({ address: trimmed, error: "Invalid EVM address format" });
-      }
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
     }
 
-    const addedCount = await storage.addMintedAddresses(id, validAddresses);
-    const totalCount = await storage.getMintedAddressCount(id);
-
-    res.json({
-      added: addedCount,
-      skipped: validAddresses.length - addedCount,
-      invalid: invalidAddresses.length,
-      totalInCollection: totalCount,
-      invalidAddresses: invalidAddresses.slice(0, 10),
-    });
+    res.json(result.value);
   } catch (error) {
     console.error("Error adding addresses:", error);
     res.status(500).json({
@@ -624,40 +598,97 @@ export async function addAddressesToCollection(req: Request, res: Response) {
 }
 
 /**
- * Upload file to collection
+ * Upload file to collection, keeping username, points and rank per address
  */
 export async function uploadFileToCollection(req: Request, res: Response) {
   try {
-    const id = parseInt(req.params.id);
-    const file = req.file;
-    
-    const collection = await storage.getCollection(id);
-    if (!collection) {
-      return res.status(404).json({ error: "Collection not found" });
+    const result = await importFile(parseInt(req.params.id), req.file!, parseLabelField(req.body?.labels), (req.user as User).id);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
     }
 
-    if (!file) {
-      return res.status(400).json({ error: "File is required" });
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error uploading file to collection:", error);
+    res.status(500).json({
+      error: "Failed to upload file",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * List collection addresses with metadata and source, filtered and paged
+ */
+export async function listCollectionAddresses(req: Request, res: Response) {
+  try {
+    const filter = collectionAddressFilterSchema.safeParse(req.query);
+    if (!filter.success) {
+      return res.status(400).json({ error: "Validation failed", details: filter.error.flatten() });
     }
 
-    const parsed = parseFile(file.originalname, file.buffer);
-    const validAddresses = parsed.addresses.map(a => a.address.toLowerCase());
+    const result = await listAddresses(parseInt(req.params.id), filter.data, {
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    });
 
-    const addedCount = await storage.addMintedAddresses(id, validAddresses);
-    const totalCount = await storage.getMintedAddressCount(id);
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
 
-    res.json({
-      filename: file.originalname,
-      found: parsed.addresses.length,
-      added: addedCount,
-      skipped: validAddresses.length - addedCount,
-      invalid: parsed.invalidCount,
-      totalInCollection: totalCount,
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error fetching collection addresses:", error);
+    res.status(500).json({
+      error: "Failed to fetch collection addresses",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * List the imports (uploads, tweets, manual adds, set operations) that added to a collection
+ */
+export async function getCollectionImports(req: Request, res: Response) {
+  try {
+    const result = await listImports(parseInt(req.params.id));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error fetching collection imports:", error);
+    res.status(500).json({
+      error: "Failed to fetch collection imports",
+      message: error instanceof Error ? error.message : "Unknown error",
     });
+  }
+}
+
+/**
+ * Add and remove labels on a set of collection addresses
+ */
+export async function updateCollectionLabels(req: Request, res: Response) {
+  try {
+    const parsed = updateCollectionLabelsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+    }
+
+    const result = await updateLabels(parseInt(req.params.id), parsed.data);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
   } catch (error) {
-    console.error("Error uploading file to collection:", error);
+    console.error("Error updating collection labels:", error);
     res.status(500).json({
-      error: "Failed to upload file",
+      error: "Failed to update labels",
       message: error instanceof Error ? error.message : "Unknown error",
     });
   }
@@ -688,23 +719,25 @@ export async function removeAddressFromCollection(req: Request, res: Response) {
 }
 
 /**
- * Download collection as CSV
+ * Download collection addresses with metadata as CSV (default) or JSON, using the listing filters
  */
 export async function downloadCollection(req: Request, res: Response) {
   try {
-    const id = parseInt(req.params.id);
-    const collection = await storage.getCollection(id);
-    
-    if (!collection) {
-      return res.status(404).json({ error: "Collection not found" });
+    const filter = collectionAddressFilterSchema.safeParse(req.query);
+    if (!filter.success) {
+      return res.status(400).json({ error: "Validation failed", details: filter.error.flatten() });
     }
 
-    const addresses = await storage.getMintedAddresses(id);
-    const csv = addresses.join("\n");
+    const format = req.query.format === "json" ? "json" : "csv";
+    const result = await exportCollection(parseInt(req.params.id), filter.data, format);
 
-    res.setHeader("Content-Type", "text/csv");
-    res.setHeader("Content-Disposition", `attachment; filename="${collection.name}_minted_addresses.csv"`);
-    res.send(csv);
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.setHeader("Content-Type", result.value.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${result.value.filename}"`);
+    res.send(result.value.content);
   } catch (error) {
     console.error("Error downloading collection:", error);
     res.status(500).json({
@@ -715,54 +748,208 @@ export async function downloadCollection(req: Request, res: Response) {
 }
 
 /**
- * Wallet screener - batch process
+ * Run a set operation over collections, snapshots and uploaded files; saved as a collection when named
  */
-export async function screenWalletsBatch(req: Request, res: Response) {
+export async function runCollectionSetOperation(req: Request, res: Response) {
   try {
-    const { addresses, chainId = 1 } = req.body;
-
-    if (!addresses || !Array.isArray(addresses) || addresses.length === 0) {
-      return res.status(400).json({ error: "Addresses array is required" });
-    }
-
-    if (addresses.length > 50) {
-      return res.status(400).json({ error: "Maximum 50 addresses per batch" });
-    }
-
-    // Implementation placeholder - full implementation would go here
-    const results = addresses.map(address => ({
-      address: address.toLowerCase(),
-      riskScore: 0,
-      riskLevel: "low" as const,
-      labels: ["Placeholder"],
-      flags: {
-        isBot: false,
-        isSybil: false,
-        isContract: false,
-        isExchange: false,
-        isNewWallet: false,
-        lowActivity: false,
-        highFrequencyTrader: false,
-        airdropFarmer: false,
-      },
-      metrics: {
-        txCount: 0,
-        firstTxDate: null,
-        lastTxDate: null,
-        walletAgeDays: 0,
-        avgTxPerDay: 0,
-        uniqueContractsInteracted: 0,
-        totalGasSpent: "0",
-        nftCollectionsHeld: 0,
-      },
-      details: "Screener implementation pending",
-    }));
+    const parsed = collectionSetOperationSchema.safeParse(normalizeSetOperationBody(req.body));
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const result = await runSetOperation(parsed.data, files, (req.user as User).id);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.status(result.value.collection ? 201 : 200).json(result.value);
+  } catch (error) {
+    console.error("Error running collection set operation:", error);
+    res.status(500).json({
+      error: "Failed to run set operation",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Take an immutable snapshot of a collection's addresses
+ */
+export async function createCollectionSnapshot(req: Request, res: Response) {
+  try {
+    const result = await createSnapshot(parseInt(req.params.id), req.body?.label?.trim() || undefined, (req.user as User).id);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.status(201).json(result.value);
+  } catch (error) {
+    console.error("Error creating collection snapshot:", error);
+    res.status(500).json({
+      error: "Failed to create snapshot",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * List a collection's snapshots (without their addresses)
+ */
+export async function getCollectionSnapshots(req: Request, res: Response) {
+  try {
+    const result = await getSnapshotsForCollection(parseInt(req.params.id));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error fetching collection snapshots:", error);
+    res.status(500).json({
+      error: "Failed to fetch snapshots",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Get a snapshot with its addresses
+ */
+export async function getCollectionSnapshot(req: Request, res: Response) {
+  try {
+    const result = await getSnapshot(parseInt(req.params.id));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error fetching collection snapshot:", error);
+    res.status(500).json({
+      error: "Failed to fetch snapshot",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Diff two snapshots - addresses added and removed going from the first to the second
+ */
+export async function diffCollectionSnapshots(req: Request, res: Response) {
+  try {
+    const result = await diffSnapshots(parseInt(req.params.id), parseInt(req.params.otherId));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error diffing collection snapshots:", error);
+    res.status(500).json({
+      error: "Failed to diff snapshots",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Diff two comparison runs by their not-minted addresses
+ */
+export async function diffComparisonRuns(req: Request, res: Response) {
+  try {
+    const result = await diffComparisons(parseInt(req.params.id), parseInt(req.params.otherId));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.json(result.value);
+  } catch (error) {
+    console.error("Error diffing comparisons:", error);
+    res.status(500).json({
+      error: "Failed to diff comparisons",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Snapshot a collection and build its Merkle allowlist
+ */
+export async function generateCollectionMerkleAllowlist(req: Request, res: Response) {
+  try {
+    const parsed = generateMerkleAllowlistSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+    }
+
+    const result = await generateFromCollection(parseInt(req.params.id), parsed.data, (req.user as User).id);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.status(201).json(result.value);
+  } catch (error) {
+    console.error("Error generating Merkle allowlist:", error);
+    res.status(500).json({
+      error: "Failed to generate Merkle allowlist",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Save an uploaded file as a collection and build its Merkle allowlist (points are the allocations)
+ */
+export async function generateFileMerkleAllowlist(req: Request, res: Response) {
+  try {
+    const fields = Object.fromEntries(Object.entries(req.body ?? {}).filter(([, value]) => value !== ""));
+    const parsed = merkleAllowlistFromFileSchema.safeParse(fields);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.flatten() });
+    }
+
+    const result = await generateFromFile(req.file!, parsed.data, (req.user as User).id);
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
+
+    res.status(201).json(result.value);
+  } catch (error) {
+    console.error("Error generating Merkle allowlist from file:", error);
+    res.status(500).json({
+      error: "Failed to generate Merkle allowlist",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Download every proof of a Merkle allowlist as JSON
+ */
+export async function downloadMerkleProofs(req: Request, res: Response) {
+  try {
+    const result = await getAllowlistProofsFile(parseInt(req.params.id));
+
+    if (!result.ok) {
+      return res.status(RESULT_ERROR_STATUS[result.code]).json({ error: result.error });
+    }
 
-    res.json(results);
+    res.setHeader("Content-Type", "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="${result.value.filename}"`);
+    res.send(JSON.stringify(result.value.document, null, 2));
   } catch (error) {
-    console.error("Error screening wallets:", error);
+    console.error("Error downloading Merkle proofs:", error);
     res.status(500).json({
-      error: "Failed to screen wallets",
+      error: "Failed to download proofs",
       message: error instanceof Error ? error.message : "Unknown error",
     });
   }
@@ -772,17 +959,5 @@ export async function screenWalletsBatch(req: Request, res: Response) {
  * Get screener status
  */
 export async function getScreenerStatus(req: Request, res: Response) {
-  const hasApiKey = !!process.env.ETHERSCAN_API_KEY;
-  res.json({
-    hasEtherscanApiKey: hasApiKey,
-    supportedChains: [
-      { id: 1, name: "Ethereum" },
-      { id: 10, name: "Optimism" },
-      { id: 56, name: "BSC" },
-      { id: 137, name: "Polygon" },
-      { id: 8453, name: "Base" },
-      { id: 42161, name: "Arbitrum" },
-    ],
-    maxBatchSize: 50,
-  });
+  res.json(getWalletScreenerStatus());
 }
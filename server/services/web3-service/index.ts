@@ -16,8 +16,19 @@ import {
   uploadFileToCollection,
   removeAddressFromCollection,
   downloadCollection,
+  listCollectionAddresses,
+  getCollectionImports,
+  updateCollectionLabels,
+  runCollectionSetOperation,
+  createCollectionSnapshot,
+  getCollectionSnapshots,
+  getCollectionSnapshot,
+  diffCollectionSnapshots,
+  diffComparisonRuns,
+  generateCollectionMerkleAllowlist,
+  generateFileMerkleAllowlist,
+  downloadMerkleProofs,
   extractFromTweets,
-  screenWalletsBatch,
   getScreenerStatus
 } from './controllers';
 import {
@@ -27,9 +38,16 @@ import {
   validateLimitQuery,
   validateCreateCollection,
   validateAddAddresses,
+  validateUpdateLabels,
+  validateCollectionAddressQuery,
   validateCompareWithCollection,
   validateTweetUrl,
-  validateScreenWallets,
+  validateSetOperation,
+  validateCreateSnapshot,
+  validateSnapshotId,
+  validateDiffIds,
+  validateMerkleAllowlist,
+  validateMerkleAllowlistName,
   validateFileUpload,
   validateMultipleFileUpload,
   validateCompareFilesUpload,
@@ -66,6 +84,7 @@ export class Web3Service extends BaseService {
     // Comparison History Routes
     this.router.get('/comparisons', validateLimitQuery, getComparisons);
     this.router.get('/comparisons/:id', validateComparisonId, getComparison);
+    this.router.get('/comparisons/:id/diff/:otherId', validateDiffIds, diffComparisonRuns);
     this.router.post(
       '/compare',
       upload.fields([{ name: 'minted', maxCount: 1 }, { name: 'eligible', maxCount: 1 }]),
@@ -116,10 +135,41 @@ export class Web3Service extends BaseService {
       validateAddressParam,
       removeAddressFromCollection
     );
-    this.router.get('/collections/:id/download', validateCollectionId, downloadCollection);
+    this.router.get('/collections/:id/addresses', validateCollectionId, validateCollectionAddressQuery, listCollectionAddresses);
+    this.router.get('/collections/:id/imports', validateCollectionId, getCollectionImports);
+    this.router.post('/collections/:id/labels', validateUpdateLabels, updateCollectionLabels);
+    this.router.get('/collections/:id/download', validateCollectionId, validateCollectionAddressQuery, downloadCollection);
 
-    // Wallet Screener Routes
-    this.router.post('/wallet-screener/batch', validateScreenWallets, screenWalletsBatch);
+    // Collection Set Operations & Snapshots
+    this.router.post(
+      '/collections/set-operations',
+      upload.array('files', 20),
+      validateSetOperation,
+      validateFileTypes(WEB3_FILE_TYPES),
+      validateFileSize(MAX_FILE_SIZE_MB),
+      runCollectionSetOperation
+    );
+    this.router.post('/collections/:id/snapshots', validateCollectionId, validateCreateSnapshot, createCollectionSnapshot);
+    this.router.get('/collections/:id/snapshots', validateCollectionId, getCollectionSnapshots);
+    this.router.get('/collection-snapshots/:id', validateSnapshotId, getCollectionSnapshot);
+    this.router.get('/collection-snapshots/:id/diff/:otherId', validateDiffIds, diffCollectionSnapshots);
+
+    // Merkle Allowlist Routes (the public per-address proof endpoint lives outside this role-gated router)
+    this.router.post('/collections/:id/merkle', validateCollectionId, validateMerkleAllowlist, generateCollectionMerkleAllowlist);
+    this.router.post(
+      '/collections/merkle-from-file',
+      upload.single('file'),
+      validateFileUpload,
+      validateMerkleAllowlistName,
+      validateMerkleAllowlist,
+      validateFileTypes(WEB3_FILE_TYPES),
+      validateFileSize(MAX_FILE_SIZE_MB),
+      generateFileMerkleAllowlist
+    );
+    this.router.get('/collection-snapshots/:id/proofs', validateSnapshotId, downloadMerkleProofs);
+
+    // Wallet Screener Routes (screening jobs belong to a user, so they're served by the
+    // role-gated /api/wallet-screener routes rather than this unauthenticated router)
     this.router.get('/wallet-screener/status', getScreenerStatus);
 
     logger.info('Web3 routes registered with validation');
@@ -1,5 +1,7 @@
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { parseChainAddress } from '@shared/addresses';
+import { collectionSetOperations, merkleLeafEncodings, collectionAddressSourceTypes, addressChains } from '@shared/schema';
 
 /**
  * Middleware to check validation results
@@ -18,13 +20,6 @@ export function handleValidationErrors(req: Request, res: Response, next: NextFu
   next();
 }
 
-/**
- * Validate Ethereum address format
- */
-function isEthereumAddress(value: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(value);
-}
-
 /**
  * Validate collection ID parameter
  */
@@ -46,12 +41,12 @@ export const validateComparisonId = [
 ];
 
 /**
- * Validate address parameter
+ * Validate address parameter (EVM, Solana or Bitcoin)
  */
 export const validateAddressParam = [
   param('address')
-    .custom(isEthereumAddress)
-    .withMessage('Invalid Ethereum address format'),
+    .custom((value: string) => parseChainAddress(value).ok)
+    .withMessage('Invalid EVM, Solana or Bitcoin address'),
   handleValidationErrors,
 ];
 
@@ -95,8 +90,60 @@ export const validateAddAddresses = [
     .isArray({ min: 1 })
     .withMessage('Addresses must be a non-empty array'),
   body('addresses.*')
-    .isString()
-    .withMessage('Each address must be a string'),
+    .custom((value: unknown) => typeof value === 'string' || typeof (value as { address?: unknown })?.address === 'string')
+    .withMessage('Each address must be a string or an object with an address'),
+  body('labels')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Labels must be an array of at most 20 items'),
+  body('source.type')
+    .optional()
+    .isIn(['manual', 'tweet'])
+    .withMessage('Source type must be manual or tweet'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate bulk label update request
+ */
+export const validateUpdateLabels = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Collection ID must be a positive integer'),
+  body('addresses')
+    .isArray({ min: 1 })
+    .withMessage('Addresses must be a non-empty array'),
+  body('add')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Labels to add must be an array of at most 20 items'),
+  body('remove')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Labels to remove must be an array of at most 20 items'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate collection address filters and export format
+ */
+export const validateCollectionAddressQuery = [
+  query('source')
+    .optional()
+    .isIn(collectionAddressSourceTypes)
+    .withMessage(`Source must be one of: ${collectionAddressSourceTypes.join(', ')}`),
+  query('chain')
+    .optional()
+    .isIn(addressChains)
+    .withMessage(`Chain must be one of: ${addressChains.join(', ')}`),
+  query('format')
+    .optional()
+    .isIn(['csv', 'json'])
+    .withMessage('Format must be csv or json'),
+  query(['limit', 'offset', 'importId'])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Must be a non-negative integer'),
   handleValidationErrors,
 ];
 
@@ -125,19 +172,87 @@ export const validateTweetUrl = [
 ];
 
 /**
- * Validate wallet screening batch request
+ * Validate collection set operation request (operands are checked against the shared schema in the controller)
  */
-export const validateScreenWallets = [
-  body('addresses')
-    .isArray({ min: 1, max: 50 })
-    .withMessage('Addresses must be an array with 1-50 items'),
-  body('addresses.*')
-    .custom(isEthereumAddress)
-    .withMessage('Each address must be a valid Ethereum address'),
-  body('chainId')
+export const validateSetOperation = [
+  body('operation')
+    .isIn(collectionSetOperations)
+    .withMessage(`Operation must be one of: ${collectionSetOperations.join(', ')}`),
+  body('name')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Name must be at most 200 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate collection snapshot request
+ */
+export const validateCreateSnapshot = [
+  body('label')
     .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Label must be 1-200 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate Merkle allowlist request (fields arrive as strings when a file is uploaded)
+ */
+export const validateMerkleAllowlist = [
+  body('encoding')
+    .optional({ values: 'falsy' })
+    .isIn(merkleLeafEncodings)
+    .withMessage(`Encoding must be one of: ${merkleLeafEncodings.join(', ')}`),
+  body('defaultAmount')
+    .optional({ values: 'falsy' })
+    .matches(/^\d{1,78}$/)
+    .withMessage('Default amount must be a whole number'),
+  body('label')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Label must be at most 200 characters'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate the collection name for an allowlist built from an uploaded file
+ */
+export const validateMerkleAllowlistName = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Collection name is required (max 200 characters)'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate snapshot ID parameter
+ */
+export const validateSnapshotId = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Snapshot ID must be a positive integer'),
+  handleValidationErrors,
+];
+
+/**
+ * Validate the two IDs of a diff request
+ */
+export const validateDiffIds = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('ID must be a positive integer'),
+  param('otherId')
     .isInt({ min: 1 })
-    .withMessage('Chain ID must be a positive integer'),
+    .withMessage('Other ID must be a positive integer'),
   handleValidationErrors,
 ];
 
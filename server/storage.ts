@@ -2,6 +2,13 @@ import {
   type Comparison, type InsertComparison, comparisons,
   type Collection, type InsertCollection, collections,
   type MintedAddress, type InsertMintedAddress, mintedAddresses,
+  type CollectionImport, type InsertCollectionImport, collectionImports,
+  type CollectionAddressInput, type CollectionAddressFilter, type CollectionAddressEntry,
+  type CollectionSnapshot, type InsertCollectionSnapshot, type CollectionSnapshotSummary, collectionSnapshots,
+  type CollectionSnapshotProof, type InsertCollectionSnapshotProof, collectionSnapshotProofs,
+  type WalletScreeningCacheEntry, type InsertWalletScreeningCacheEntry, walletScreeningCache, type WalletScreenerProvider,
+  type WalletScreeningJob, type InsertWalletScreeningJob, walletScreeningJobs, type WalletScreeningJobStatus,
+  type WalletScreeningJobItem, walletScreeningJobItems, type WalletScreeningItemStatus,
   type Task, type InsertTask, tasks,
   type User, type UpsertUser, users,
   type ContentTask, type InsertContentTask, contentTasks,
@@ -19,13 +26,14 @@ import {
   type TaskTemplate, type InsertTaskTemplate, taskTemplates,
   type TemplateSubtask, type InsertTemplateSubtask, templateSubtasks,
   type TaskWatcher, type InsertTaskWatcher, taskWatchers,
-  type Approval, type InsertApproval, approvals,
+  type Approval, type InsertApproval, approvals, type ApprovalStatus,
   type TimeEntry, type InsertTimeEntry, timeEntries,
   type WorkSession, type InsertWorkSession, workSessions,
   type Asset, type InsertAsset, assets,
   type DeliverableVersion, type InsertDeliverableVersion, deliverableVersions,
   type SavedFilter, type InsertSavedFilter, savedFilters,
   type RecurringTask, type InsertRecurringTask, recurringTasks,
+  type RecurringTaskOccurrence, recurringTaskOccurrences,
   type NotificationPreferences, type InsertNotificationPreferences, notificationPreferences,
   // New integration and invite types
   type TeamIntegrationSettings, type InsertTeamIntegrationSettings, teamIntegrationSettings,
@@ -43,6 +51,10 @@ import {
   type PaymentRequest, type InsertPaymentRequest, paymentRequests,
   type PaymentRequestEvent, type InsertPaymentRequestEvent, paymentRequestEvents,
   type PaymentRequestStatus,
+  type PaymentBudgetCategory, type InsertPaymentBudgetCategory, paymentBudgetCategories,
+  type PaymentApprovalThreshold, type InsertPaymentApprovalThreshold, paymentApprovalThresholds,
+  type PaymentRequestApproval, paymentRequestApprovals,
+  type PaymentRequestReceipt, type InsertPaymentRequestReceipt, paymentRequestReceipts,
   // Brand Pack types
   type ClientBrandPack, type InsertClientBrandPack, clientBrandPacks,
   type BrandPackFile, type InsertBrandPackFile, brandPackFiles,
@@ -54,10 +66,12 @@ import {
   // Client Credits types
   type ClientCredit, type InsertClientCredit, clientCredits,
   type CreditTransaction, type InsertCreditTransaction, creditTransactions,
+  type CreditTransactionType, type CreditLedgerAccount, type CreditLedgerEntry, creditLedgerEntries,
+  type CreditReconciliationReport,
   // Credit Requests types
   type CreditRequest, type InsertCreditRequest, creditRequests,
   // Content Orders types
-  type ContentOrder, type InsertContentOrder, contentOrders,
+  type ContentOrder, type InsertContentOrder, contentOrders, type ContentOrderStatus,
   // Client Onboarding types
   type ClientOnboarding, type InsertClientOnboarding, clientOnboarding,
   // Web3 Onboarding types
@@ -85,6 +99,8 @@ import {
   // Internal Team Member types
   type InternalTeamMember, type InsertInternalTeamMember, internalTeamMembers,
   type TeamPaymentHistory, type InsertTeamPaymentHistory, teamPaymentHistory,
+  type PayrollRun, type InsertPayrollRun, type PayrollRunStatus, payrollRuns,
+  type PayrollRunLine, type InsertPayrollRunLine, payrollRunLines,
   // Team Member Client Assignments types
   type TeamMemberClientAssignment, type InsertTeamMemberClientAssignment, teamMemberClientAssignments,
   // Content Ideas (Pre-Production Approval) types
@@ -120,13 +136,16 @@ import {
   type DaoProject, type InsertDaoProject, daoProjects,
   type DaoProjectService, type InsertDaoProjectService, daoProjectServices,
   type DaoRevenueAttribution, type InsertDaoRevenueAttribution, daoRevenueAttributions,
+  type DaoRevenueSplitPolicy, type InsertDaoRevenueSplitPolicy, daoRevenueSplitPolicies,
   type DaoDebrief, type InsertDaoDebrief, daoDebriefs,
   type DaoTreasury, daoTreasury,
   type DaoTreasuryTransaction, type InsertDaoTreasuryTransaction, daoTreasuryTransactions,
   type DaoBonusRun, type InsertDaoBonusRun, daoBonusRuns,
   type DaoBonusRunRecipient, type InsertDaoBonusRunRecipient, daoBonusRunRecipients,
-  type DaoInvoice, type InsertDaoInvoice, daoInvoices,
-  type DaoRankProgression, type InsertDaoRankProgression, daoRankProgressions,
+  type DaoBonusRunApproval, type DaoBonusRunStatus, type DaoBonusRunVoteDecision, daoBonusRunApprovals,
+  type DaoInvoice, type InsertDaoInvoice, type DaoInvoiceSettlement, type DaoInvoiceStatus, type DaoInvoicePhase, daoInvoices, daoInvoiceNumberPrefixes,
+  type DaoRankProgression, type InsertDaoRankProgression, type DaoRankProgressionStatus, daoRankProgressions,
+  type DaoRankCriteria, type InsertDaoRankCriteria, daoRankCriteria,
   type DaoProjectLink, type InsertDaoProjectLink, daoProjectLinks,
   type DaoPermission, type InsertDaoPermission, daoPermissions,
   type DaoSafeWallet, type InsertDaoSafeWallet, daoSafeWallets,
@@ -152,9 +171,23 @@ import {
   type BoardVisibility, type TeamTaskActivityType,
   // Safe Transaction History
   type DaoSafeTxHistory, type InsertDaoSafeTxHistory, daoSafeTxHistory,
+  type DaoPayoutBatch, type InsertDaoPayoutBatch, type DaoPayoutBatchStatus, daoPayoutBatches,
+  type DaoPayoutItem, type InsertDaoPayoutItem, type DaoPayoutSourceType, daoPayoutItems,
   type DaoSafeSigner, type InsertDaoSafeSigner, daoSafeSigners,
+  type DaoContractAbi, type InsertDaoContractAbi, daoContractAbis,
+  type DecodedSafeAction, type SafeTxType,
+  // Treasury Reconciliation
+  type DaoReconciliationLink, type InsertDaoReconciliationLink, daoReconciliationLinks,
+  type DaoReconciliationPeriod, type InsertDaoReconciliationPeriod, daoReconciliationPeriods,
+  type TreasuryTxnType,
+  // Treasury History
+  type DaoTokenPrice, type InsertDaoTokenPrice, daoTokenPrices,
+  type DaoSafeBalanceSnapshot, type InsertDaoSafeBalanceSnapshot, daoSafeBalanceSnapshots,
+  // Accounting Exports
+  type AccountingAccountKey, type AccountingAccountMapping, accountingAccountMappings,
+  type AccountingExport, type InsertAccountingExport, accountingExports,
   // ClickUp-inspired Task Enhancements
-  type TaskDependency, type InsertTaskDependency, taskDependencies,
+  type TaskDependency, type InsertTaskDependency, type DependencyType, taskDependencies,
   type EnhancedSubtask, type InsertEnhancedSubtask, enhancedSubtasks,
   type TaskDoc, type InsertTaskDoc, taskDocs,
   type TaskDocComment, type InsertTaskDocComment, taskDocComments,
@@ -174,9 +207,18 @@ import {
   type PinnedContact, type InsertPinnedContact, pinnedContacts,
   type ChatDigestPreferences, type InsertChatDigestPreferences, chatDigestPreferences,
   type DailyDigest, type InsertDailyDigest, dailyDigests,
+  // Background Jobs
+  type ScheduledJob, type InsertScheduledJob, scheduledJobs,
+  type JobRun, type InsertJobRun, jobRuns,
+  type JobRunStatus, type ScheduledJobStatus,
+  // Full-text search
+  type SearchHit, type SearchResultType,
+  contentTaskSearchVector, teamTaskSearchVector, taskDocSearchVector, commentSearchVector,
+  clientDocumentSearchVector, clientProfileSearchVector, daoProjectSearchVector, collectionSearchVector,
 } from "@shared/schema";
+import { addressKey, canonicalAddress } from "@shared/addresses";
 import { db } from "./db";
-import { desc, eq, and, sql, or, isNull } from "drizzle-orm";
+import { desc, eq, and, sql, or, isNull, gt, gte, lt, lte, inArray, arrayContains, getTableColumns, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User methods (required for Auth)
@@ -199,10 +241,37 @@ export interface IStorage {
   deleteCollection(id: number): Promise<void>;
   
   // Minted address methods
-  addMintedAddresses(collectionId: number, addresses: string[]): Promise<number>;
+  addMintedAddresses(
+    collectionId: number,
+    addresses: Array<string | CollectionAddressInput>,
+    source?: Omit<InsertCollectionImport, "collectionId" | "receivedCount" | "addedCount">,
+  ): Promise<number>;
   getMintedAddresses(collectionId: number): Promise<string[]>;
   getMintedAddressCount(collectionId: number): Promise<number>;
   removeMintedAddress(collectionId: number, address: string): Promise<void>;
+  getCollectionAddressEntries(collectionId: number, filter: CollectionAddressFilter, limit?: number, offset?: number): Promise<{ total: number; entries: CollectionAddressEntry[] }>;
+  getMintedAddressLabels(collectionId: number): Promise<Pick<MintedAddress, "id" | "address" | "labels">[]>;
+  setMintedAddressLabels(ids: number[], labels: string[]): Promise<void>;
+  getCollectionImports(collectionId: number): Promise<CollectionImport[]>;
+
+  // Collection snapshot methods (snapshots are immutable, so there's no update or delete)
+  createCollectionSnapshot(snapshot: InsertCollectionSnapshot): Promise<CollectionSnapshot>;
+  getCollectionSnapshot(id: number): Promise<CollectionSnapshot | undefined>;
+  getCollectionSnapshots(collectionId: number): Promise<CollectionSnapshotSummary[]>;
+  createCollectionSnapshotWithProofs(snapshot: InsertCollectionSnapshot, proofs: Omit<InsertCollectionSnapshotProof, "snapshotId">[]): Promise<CollectionSnapshot>;
+  getCollectionSnapshotProof(snapshotId: number, addressKey: string): Promise<CollectionSnapshotProof | undefined>;
+  getCollectionSnapshotProofs(snapshotId: number): Promise<CollectionSnapshotProof[]>;
+  
+  // Wallet screener methods
+  getWalletScreeningCacheEntries(chainId: number, provider: WalletScreenerProvider, addresses: string[]): Promise<WalletScreeningCacheEntry[]>;
+  upsertWalletScreeningCacheEntry(entry: InsertWalletScreeningCacheEntry): Promise<WalletScreeningCacheEntry>;
+  createWalletScreeningJob(job: InsertWalletScreeningJob, addresses: string[]): Promise<WalletScreeningJob>;
+  getWalletScreeningJob(id: number): Promise<WalletScreeningJob | undefined>;
+  getWalletScreeningJobs(createdBy?: string, limit?: number): Promise<WalletScreeningJob[]>;
+  transitionWalletScreeningJob(id: number, from: WalletScreeningJobStatus[], updates: Partial<InsertWalletScreeningJob>): Promise<WalletScreeningJob | undefined>;
+  getWalletScreeningItems(jobId: number, status?: WalletScreeningItemStatus, limit?: number, offset?: number): Promise<WalletScreeningJobItem[]>;
+  updateWalletScreeningItem(id: number, updates: Partial<Pick<WalletScreeningJobItem, "status" | "result" | "fromCache" | "error" | "screenedAt">>): Promise<void>;
+  getWalletScreeningItemCounts(jobId: number): Promise<{ pending: number; done: number; failed: number; cached: number }>;
   
   // Task methods (user-specific to-do items)
   createTask(userId: string, title: string, projectTag?: string, dueDate?: string): Promise<Task>;
@@ -217,6 +286,7 @@ export interface IStorage {
   // Content task methods (ContentFlowStudio)
   getContentTasks(): Promise<ContentTask[]>;
   getContentTask(id: number): Promise<ContentTask | undefined>;
+  getContentTasksByIds(ids: number[]): Promise<ContentTask[]>;
   createContentTask(task: InsertContentTask): Promise<ContentTask>;
   updateContentTask(id: number, task: Partial<InsertContentTask>): Promise<ContentTask | undefined>;
   deleteContentTask(id: number): Promise<boolean>;
@@ -298,9 +368,13 @@ export interface IStorage {
   // Approval methods
   getApprovals(taskId: number): Promise<Approval[]>;
   createApproval(approval: InsertApproval): Promise<Approval>;
-  updateApprovalStatus(id: number, status: string, comments?: string): Promise<Approval | undefined>;
+  getApproval(id: number): Promise<Approval | undefined>;
+  updateApprovalStatus(id: number, status: ApprovalStatus, comments?: string): Promise<Approval | undefined>;
+  transitionApproval(id: number, fromStatus: ApprovalStatus, updates: Partial<Approval>): Promise<Approval | undefined>;
   getApprovalsByReviewer(reviewerId: string): Promise<Approval[]>;
-  getPendingApprovals(reviewerId: string): Promise<Approval[]>;
+  getPendingApprovals(reviewerId: string, reviewerRole?: string): Promise<Approval[]>;
+  getOverdueApprovals(now: Date): Promise<Approval[]>;
+  getPendingApprovalCounts(): Promise<Map<string, number>>;
   
   // Approval Workflow methods
   getApprovalWorkflows(): Promise<ApprovalWorkflow[]>;
@@ -356,6 +430,11 @@ export interface IStorage {
   updateRecurringTask(id: number, task: Partial<InsertRecurringTask>): Promise<RecurringTask | undefined>;
   deleteRecurringTask(id: number): Promise<boolean>;
   getDueRecurringTasks(): Promise<RecurringTask[]>;
+  markRecurringTaskGenerated(id: number, lastGeneratedAt: Date, nextGenerationAt: Date | null): Promise<RecurringTask | undefined>;
+  getRecurringTaskOccurrences(recurringTaskId: number, limit?: number): Promise<RecurringTaskOccurrence[]>;
+  claimRecurringTaskOccurrence(recurringTaskId: number, occurrenceDate: string): Promise<RecurringTaskOccurrence | undefined>;
+  setRecurringTaskOccurrenceTask(id: number, contentTaskId: number): Promise<void>;
+  releaseRecurringTaskOccurrence(id: number): Promise<void>;
   
   // Notification Preferences methods
   getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
@@ -428,13 +507,33 @@ export interface IStorage {
   getPaymentRequests(userId?: string): Promise<PaymentRequest[]>;
   getPaymentRequest(id: number): Promise<PaymentRequest | undefined>;
   createPaymentRequest(request: InsertPaymentRequest): Promise<PaymentRequest>;
-  updatePaymentRequestStatus(id: number, status: PaymentRequestStatus, reviewerId: string, note?: string): Promise<PaymentRequest | undefined>;
+  // Only updates a request whose status is still one of `from`; undefined when it has moved on
+  transitionPaymentRequest(id: number, from: PaymentRequestStatus[], updates: Partial<InsertPaymentRequest>): Promise<PaymentRequest | undefined>;
   cancelPaymentRequest(id: number, requesterId: string): Promise<PaymentRequest | undefined>;
   getPendingPaymentRequestCount(): Promise<number>;
   
   // Payment Request Event methods
   getPaymentRequestEvents(paymentRequestId: number): Promise<PaymentRequestEvent[]>;
   createPaymentRequestEvent(event: InsertPaymentRequestEvent): Promise<PaymentRequestEvent>;
+
+  // Payment Request approval, receipt and budget methods
+  getPaymentRequestApprovals(paymentRequestId: number): Promise<PaymentRequestApproval[]>;
+  // Undefined when the approver has already approved the request
+  recordPaymentRequestApproval(paymentRequestId: number, approverId: string, note: string | null): Promise<PaymentRequestApproval | undefined>;
+  removePaymentRequestApproval(id: number): Promise<void>;
+  getPaymentRequestReceipts(paymentRequestId: number): Promise<PaymentRequestReceipt[]>;
+  getPaymentRequestReceipt(id: number): Promise<PaymentRequestReceipt | undefined>;
+  createPaymentRequestReceipt(receipt: InsertPaymentRequestReceipt): Promise<PaymentRequestReceipt>;
+  deletePaymentRequestReceipt(id: number): Promise<boolean>;
+  getPaymentBudgetCategories(includeInactive?: boolean): Promise<PaymentBudgetCategory[]>;
+  getPaymentBudgetCategory(id: number): Promise<PaymentBudgetCategory | undefined>;
+  createPaymentBudgetCategory(category: InsertPaymentBudgetCategory): Promise<PaymentBudgetCategory>;
+  updatePaymentBudgetCategory(id: number, updates: Partial<InsertPaymentBudgetCategory>): Promise<PaymentBudgetCategory | undefined>;
+  // Sum of request amounts in a category requested in [from, to), by status
+  getPaymentCategoryTotals(categoryId: number, from: Date, to: Date): Promise<Partial<Record<PaymentRequestStatus, number>>>;
+  getPaymentApprovalThresholds(): Promise<PaymentApprovalThreshold[]>;
+  upsertPaymentApprovalThreshold(threshold: InsertPaymentApprovalThreshold): Promise<PaymentApprovalThreshold>;
+  deletePaymentApprovalThreshold(id: number): Promise<boolean>;
   
   // ==================== BRAND PACK METHODS ====================
   
@@ -492,12 +591,15 @@ export interface IStorage {
   getClientCredits(): Promise<ClientCredit[]>;
   createClientCredit(credit: InsertClientCredit): Promise<ClientCredit>;
   updateClientCredit(userId: string, updates: Partial<InsertClientCredit>): Promise<ClientCredit | undefined>;
-  addClientCredit(userId: string, amount: number, description: string, performedBy: string): Promise<ClientCredit>;
-  deductClientCredit(userId: string, amount: number, description: string, taskId?: number, performedBy?: string): Promise<ClientCredit>;
+  addClientCredit(userId: string, amount: number, description: string, performedBy: string, idempotencyKey?: string): Promise<ClientCredit>;
+  deductClientCredit(userId: string, amount: number, description: string, taskId?: number, performedBy?: string, idempotencyKey?: string): Promise<ClientCredit>;
   
   // Credit Transaction methods
   getCreditTransactions(userId: string, limit?: number): Promise<CreditTransaction[]>;
+  getCreditTransactionByIdempotencyKey(idempotencyKey: string): Promise<CreditTransaction | undefined>;
   createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction>;
+  backfillCreditLedger(): Promise<number>;
+  reconcileClientCredits(): Promise<CreditReconciliationReport>;
   
   // ==================== CREDIT REQUESTS METHODS ====================
   
@@ -664,10 +766,25 @@ export interface IStorage {
   
   // Team Payment History methods
   getTeamPaymentHistory(memberId: number): Promise<TeamPaymentHistory[]>;
+  getTeamPayment(id: number): Promise<TeamPaymentHistory | undefined>;
   getAllTeamPayments(startDate?: Date, endDate?: Date): Promise<TeamPaymentHistory[]>;
   createTeamPayment(payment: InsertTeamPaymentHistory): Promise<TeamPaymentHistory>;
   updateTeamPayment(id: number, updates: Partial<InsertTeamPaymentHistory>): Promise<TeamPaymentHistory | undefined>;
   deleteTeamPayment(id: number): Promise<boolean>;
+
+  // Payroll Runs
+  getPayrollRuns(status?: PayrollRunStatus): Promise<PayrollRun[]>;
+  getPayrollRun(id: number): Promise<PayrollRun | undefined>;
+  createPayrollRun(run: InsertPayrollRun): Promise<PayrollRun | undefined>;
+  transitionPayrollRun(id: number, from: PayrollRunStatus[], updates: Partial<InsertPayrollRun> & { status: PayrollRunStatus }): Promise<PayrollRun | undefined>;
+  updatePayrollRunTotals(id: number, totals: { totalAmount: number; memberCount: number }): Promise<void>;
+  getPayrollRunLines(runId: number): Promise<PayrollRunLine[]>;
+  getPayrollRunLine(id: number): Promise<PayrollRunLine | undefined>;
+  replacePayrollRunLines(runId: number, lines: InsertPayrollRunLine[]): Promise<PayrollRunLine[]>;
+  updatePayrollRunLine(id: number, updates: Partial<InsertPayrollRunLine>): Promise<PayrollRunLine | undefined>;
+  getPayrollLinesForMember(memberId: number, filters?: { from?: Date; to?: Date }): Promise<{ line: PayrollRunLine; run: PayrollRun }[]>;
+  getTaskCompletionsBetween(from: Date, to: Date): Promise<{ taskId: number; completedAt: Date }[]>;
+  getTimeEntriesBetween(fromDate: string, toDate: string): Promise<TimeEntry[]>;
   
   // ==================== CONTENT IDEAS (PRE-PRODUCTION APPROVAL) ====================
   
@@ -746,7 +863,7 @@ export interface IStorage {
   // ==================== TEAM BOARDS & ENHANCED TASKS ====================
   
   // Team Boards methods
-  getTeamBoards(userId: string, userRole: string): Promise<TeamBoard[]>;
+  getTeamBoards(userId: string, userRole: string | null): Promise<TeamBoard[]>;
   getTeamBoard(id: number): Promise<TeamBoard | undefined>;
   createTeamBoard(board: InsertTeamBoard): Promise<TeamBoard>;
   updateTeamBoard(id: number, updates: Partial<InsertTeamBoard>): Promise<TeamBoard | undefined>;
@@ -759,12 +876,13 @@ export interface IStorage {
   addBoardMember(membership: InsertBoardMembership): Promise<BoardMembership>;
   updateBoardMemberPermission(boardId: number, userId: string, canEdit: boolean): Promise<BoardMembership | undefined>;
   removeBoardMember(boardId: number, userId: string): Promise<boolean>;
-  canAccessBoard(boardId: number, userId: string, userRole: string): Promise<boolean>;
+  canAccessBoard(boardId: number, userId: string, userRole: string | null): Promise<boolean>;
   canEditBoard(boardId: number, userId: string): Promise<boolean>;
   
   // Team Tasks methods
   getTeamTasks(boardId: number): Promise<TeamTask[]>;
   getTeamTask(id: number): Promise<TeamTask | undefined>;
+  getTeamTasksByIds(ids: number[]): Promise<TeamTask[]>;
   getTeamTasksByAssignee(userId: string): Promise<TeamTask[]>;
   getTeamTasksByDueDate(startDate: Date, endDate: Date, userId?: string): Promise<TeamTask[]>;
   createTeamTask(task: InsertTeamTask): Promise<TeamTask>;
@@ -827,6 +945,14 @@ export interface IStorage {
   createDaoProject(project: InsertDaoProject): Promise<DaoProject>;
   updateDaoProject(id: number, updates: Partial<InsertDaoProject>): Promise<DaoProject | undefined>;
   deleteDaoProject(id: number): Promise<boolean>;
+  pinDaoProjectSplitPolicy(projectId: number, splitPolicyId: number, treasuryContribution: number | null): Promise<DaoProject | undefined>;
+
+  // DAO Revenue Split Policies
+  getDaoRevenueSplitPolicies(policyKey?: string): Promise<DaoRevenueSplitPolicy[]>;
+  getDaoRevenueSplitPolicy(id: number): Promise<DaoRevenueSplitPolicy | undefined>;
+  getLatestDaoRevenueSplitPolicy(policyKey: string): Promise<DaoRevenueSplitPolicy | undefined>;
+  getEffectiveDaoRevenueSplitPolicy(policyKey: string, at: Date): Promise<DaoRevenueSplitPolicy | undefined>;
+  createDaoRevenueSplitPolicyVersion(policy: InsertDaoRevenueSplitPolicy & { effectiveFrom: Date }, createdBy: string | null): Promise<DaoRevenueSplitPolicy | undefined>;
 
   // DAO Project Services
   getDaoProjectServices(projectId: number): Promise<DaoProjectService[]>;
@@ -840,7 +966,7 @@ export interface IStorage {
   createDaoRevenueAttribution(attribution: InsertDaoRevenueAttribution): Promise<DaoRevenueAttribution>;
   updateDaoRevenueAttribution(id: number, updates: Partial<InsertDaoRevenueAttribution>): Promise<DaoRevenueAttribution | undefined>;
   approveDaoRevenueAttribution(id: number, approvedBy: string): Promise<DaoRevenueAttribution | undefined>;
-  applyDefaultAttributionTemplate(projectId: number, leadId: number, pmId: number, coreContributors: number[], supportContributors: number[]): Promise<DaoRevenueAttribution[]>;
+  getApprovedDaoRevenueAttributionsBetween(from: Date | null, to: Date): Promise<DaoRevenueAttribution[]>;
 
   // DAO Debriefs
   getDaoDebriefs(projectId?: number): Promise<DaoDebrief[]>;
@@ -852,33 +978,49 @@ export interface IStorage {
   getDaoTreasury(): Promise<DaoTreasury | undefined>;
   initializeDaoTreasury(): Promise<DaoTreasury>;
   updateDaoTreasuryBalance(amount: number): Promise<DaoTreasury | undefined>;
+  updateDaoTreasurySettings(settings: DaoTreasurySettings): Promise<DaoTreasury | undefined>;
 
   // DAO Treasury Transactions
   getDaoTreasuryTransactions(limit?: number): Promise<DaoTreasuryTransaction[]>;
   createDaoTreasuryTransaction(txn: InsertDaoTreasuryTransaction): Promise<DaoTreasuryTransaction>;
-  recordProjectTreasuryContribution(projectId: number, amount: number, createdBy: string): Promise<DaoTreasuryTransaction>;
+  recordProjectTreasuryContribution(projectId: number, amount: number, createdBy: string, memo: string): Promise<DaoTreasuryTransaction>;
 
   // DAO Bonus Runs
-  getDaoBonusRuns(): Promise<DaoBonusRun[]>;
+  getDaoBonusRuns(status?: DaoBonusRunStatus): Promise<DaoBonusRun[]>;
   getDaoBonusRun(id: number): Promise<DaoBonusRun | undefined>;
+  getOpenDaoBonusRuns(): Promise<DaoBonusRun[]>;
+  getLatestExecutedDaoBonusRun(beforeId?: number): Promise<DaoBonusRun | undefined>;
   createDaoBonusRun(run: InsertDaoBonusRun): Promise<DaoBonusRun>;
+  transitionDaoBonusRun(id: number, from: DaoBonusRunStatus[], updates: Partial<InsertDaoBonusRun> & { status: DaoBonusRunStatus }): Promise<DaoBonusRun | undefined>;
   getDaoBonusRunRecipients(bonusRunId: number): Promise<DaoBonusRunRecipient[]>;
-  createDaoBonusRunRecipient(recipient: InsertDaoBonusRunRecipient): Promise<DaoBonusRunRecipient>;
-  simulateBonusDistribution(): Promise<{ members: { membershipId: number; multiplier: number; share: number }[]; totalToDistribute: number; eligible: boolean }>;
-  executeBonusDistribution(triggeredBy: string): Promise<DaoBonusRun | undefined>;
+  createDaoBonusRunRecipients(recipients: InsertDaoBonusRunRecipient[]): Promise<DaoBonusRunRecipient[]>;
+  getDaoBonusRunApprovals(bonusRunId: number): Promise<DaoBonusRunApproval[]>;
+  createDaoBonusRunApproval(vote: { bonusRunId: number; membershipId: number; userId: string; decision: DaoBonusRunVoteDecision; comment?: string | null }): Promise<DaoBonusRunApproval | undefined>;
 
   // DAO Invoices
   getDaoInvoices(projectId?: number): Promise<DaoInvoice[]>;
   getDaoInvoice(id: number): Promise<DaoInvoice | undefined>;
   createDaoInvoice(invoice: InsertDaoInvoice): Promise<DaoInvoice>;
   updateDaoInvoice(id: number, updates: Partial<InsertDaoInvoice>): Promise<DaoInvoice | undefined>;
-  markDaoInvoicePaid(id: number, paymentMethod: string, paymentReference?: string): Promise<DaoInvoice | undefined>;
+  markDaoInvoicePaid(id: number, payment: { paymentMethod: string; paymentReference?: string }, settlement: DaoInvoiceSettlement): Promise<DaoInvoice | undefined>;
+  hasPaidDaoInvoices(projectId: number): Promise<boolean>;
+  hasIssuedDaoInvoices(projectId: number): Promise<boolean>;
+  issueDaoInvoiceNumber(id: number, issuedAt: Date): Promise<DaoInvoice | undefined>;
+  voidDaoInvoice(id: number, expectedStatus: DaoInvoiceStatus, reason: string): Promise<DaoInvoice | undefined>;
+  getDaoCreditNotes(invoiceId: number): Promise<DaoInvoice[]>;
+  claimDaoInvoiceCredit(id: number, amount: number, expectedCredited: number): Promise<DaoInvoice | undefined>;
+  releaseDaoInvoiceCredit(id: number, amount: number): Promise<void>;
+  recordDaoInvoiceEmail(id: number, emailedTo: string): Promise<DaoInvoice | undefined>;
   generateProjectInvoices(projectId: number, createdBy: string): Promise<DaoInvoice[]>;
 
   // DAO Rank Progressions
-  getDaoRankProgressions(membershipId?: number): Promise<DaoRankProgression[]>;
+  getDaoRankProgressions(filters?: { membershipId?: number; status?: DaoRankProgressionStatus }): Promise<DaoRankProgression[]>;
+  getDaoRankProgression(id: number): Promise<DaoRankProgression | undefined>;
   createDaoRankProgression(progression: InsertDaoRankProgression): Promise<DaoRankProgression>;
-  checkAndPromoteMember(membershipId: number, approvedBy?: string): Promise<DaoRankProgression | undefined>;
+  transitionDaoRankProgression(id: number, from: DaoRankProgressionStatus, updates: Partial<InsertDaoRankProgression> & { status: DaoRankProgressionStatus }): Promise<DaoRankProgression | undefined>;
+  updateDaoMembershipRank(id: number, expectedRoleId: number, updates: { daoRoleId: number; probationSince: Date | null }): Promise<DaoMembership | undefined>;
+  getDaoRankCriteria(): Promise<DaoRankCriteria[]>;
+  upsertDaoRankCriteria(criteria: InsertDaoRankCriteria): Promise<DaoRankCriteria>;
 
   // DAO Project Links
   getDaoProjectLinks(projectId: number): Promise<DaoProjectLink[]>;
@@ -911,7 +1053,74 @@ export interface IStorage {
   upsertDaoSafeTxHistory(tx: InsertDaoSafeTxHistory): Promise<DaoSafeTxHistory>;
   getRecentDaoSafeTxs(limit?: number): Promise<DaoSafeTxHistory[]>;
   getPendingSignatureTxs(): Promise<DaoSafeTxHistory[]>;
-  
+  getDaoSafeTxHistorySince(walletId: number, since: Date): Promise<DaoSafeTxHistory[]>;
+  getDaoSafeTxHistoryForChain(chainId: number): Promise<DaoSafeTxHistory[]>;
+  updateDaoSafeTxDecoding(id: number, decoding: { summary: string | null; decodedActions: DecodedSafeAction[] | null; txType?: SafeTxType }): Promise<void>;
+  claimDaoSafeTxSignerNotification(id: number): Promise<boolean>;
+
+  // Contract ABI registry
+  getDaoContractAbis(chainId?: number): Promise<DaoContractAbi[]>;
+  getDaoContractAbi(id: number): Promise<DaoContractAbi | undefined>;
+  upsertDaoContractAbi(abi: InsertDaoContractAbi): Promise<DaoContractAbi>;
+  deleteDaoContractAbi(id: number): Promise<DaoContractAbi | undefined>;
+
+  // Safe Payout Batches
+  getDaoPayoutBatches(walletId?: number): Promise<DaoPayoutBatch[]>;
+  getDaoPayoutBatch(id: number): Promise<DaoPayoutBatch | undefined>;
+  getOpenDaoPayoutBatches(walletId: number): Promise<DaoPayoutBatch[]>;
+  createDaoPayoutBatch(batch: InsertDaoPayoutBatch): Promise<DaoPayoutBatch>;
+  transitionDaoPayoutBatch(id: number, from: DaoPayoutBatchStatus[], updates: Partial<InsertDaoPayoutBatch> & { status: DaoPayoutBatchStatus }): Promise<DaoPayoutBatch | undefined>;
+  deleteDaoPayoutBatch(id: number): Promise<void>;
+  getDaoPayoutItems(batchId: number): Promise<DaoPayoutItem[]>;
+  getDaoPayoutItemsForSources(sourceType: DaoPayoutSourceType, sourceIds: number[]): Promise<DaoPayoutItem[]>;
+  createDaoPayoutItems(items: InsertDaoPayoutItem[]): Promise<DaoPayoutItem[]>;
+  deleteDaoPayoutItems(batchId: number): Promise<void>;
+  linkDaoPayoutItems(batchId: number, safeTxHash: string | null, paidAt: Date | null): Promise<DaoPayoutItem[]>;
+  getDaoBonusRunRecipientsByIds(ids: number[]): Promise<DaoBonusRunRecipient[]>;
+  linkBonusRecipientPayouts(ids: number[], safeTxHash: string | null, paidAt: Date | null): Promise<void>;
+  linkPaymentRequestPayouts(ids: number[], safeTxHash: string | null, paidAt: Date | null): Promise<void>;
+
+  // Treasury Reconciliation
+  getDaoTreasuryTransaction(id: number): Promise<DaoTreasuryTransaction | undefined>;
+  getUnreconciledDaoTreasuryTransactions(txnTypes: TreasuryTxnType[]): Promise<DaoTreasuryTransaction[]>;
+  getDaoTreasuryTransactionsBetween(start: Date, end: Date): Promise<DaoTreasuryTransaction[]>;
+  getDaoTreasuryLedgerSummary(start: Date, end: Date): Promise<{ openingCents: number; inflowCents: number; outflowCents: number }>;
+  getDaoSafeTx(id: number): Promise<DaoSafeTxHistory | undefined>;
+  getUnreconciledDaoSafeTxs(): Promise<DaoSafeTxHistory[]>;
+  getDaoReconciliationLinks(limit?: number): Promise<DaoReconciliationLink[]>;
+  getDaoReconciliationLink(id: number): Promise<DaoReconciliationLink | undefined>;
+  getDaoReconciliationLinksForSafeTx(safeTxHistoryId: number): Promise<DaoReconciliationLink[]>;
+  createDaoReconciliationLinks(links: InsertDaoReconciliationLink[]): Promise<DaoReconciliationLink[]>;
+  deleteDaoReconciliationLink(id: number): Promise<boolean>;
+  getDaoReconciliationPeriods(): Promise<DaoReconciliationPeriod[]>;
+  getDaoReconciliationPeriod(id: number): Promise<DaoReconciliationPeriod | undefined>;
+  getLatestDaoReconciliationPeriod(): Promise<DaoReconciliationPeriod | undefined>;
+  createDaoReconciliationPeriod(period: InsertDaoReconciliationPeriod): Promise<DaoReconciliationPeriod | undefined>;
+
+  // Treasury History
+  getDaoTokenPrices(options?: { symbols?: string[]; from?: string; to?: string }): Promise<DaoTokenPrice[]>;
+  upsertDaoTokenPrices(prices: InsertDaoTokenPrice[]): Promise<DaoTokenPrice[]>;
+  deleteDaoTokenPrice(id: number): Promise<DaoTokenPrice | undefined>;
+  getDaoSafeBalanceSnapshots(options?: { walletId?: number; symbols?: string[]; from?: string; to?: string }): Promise<DaoSafeBalanceSnapshot[]>;
+  upsertDaoSafeBalanceSnapshots(snapshots: InsertDaoSafeBalanceSnapshot[]): Promise<DaoSafeBalanceSnapshot[]>;
+  updateDaoSafeBalanceSnapshotValue(id: number, value: Pick<InsertDaoSafeBalanceSnapshot, "usdPrice" | "balanceUsd" | "priceSource">): Promise<void>;
+  getExecutedDaoSafeTxsBetween(start: Date, end: Date): Promise<DaoSafeTxHistory[]>;
+
+  // Accounting Exports
+  getAccountingAccountMappings(): Promise<AccountingAccountMapping[]>;
+  upsertAccountingAccountMapping(mapping: { accountKey: AccountingAccountKey; accountCode: string; accountName: string; updatedBy: string }): Promise<AccountingAccountMapping>;
+  deleteAccountingAccountMapping(accountKey: AccountingAccountKey): Promise<boolean>;
+  getAccountingExports(): Promise<Omit<AccountingExport, "content">[]>;
+  getAccountingExport(id: number): Promise<AccountingExport | undefined>;
+  createAccountingExport(accountingExport: InsertAccountingExport): Promise<AccountingExport>;
+  // Invoices and credit notes issued, paid or voided in [start, end)
+  getDaoInvoicesPostedBetween(start: Date, end: Date): Promise<DaoInvoice[]>;
+  // Ledger entries of credit transactions made in [start, end), with their transaction
+  getCreditLedgerEntriesBetween(start: Date, end: Date): Promise<{ entry: CreditLedgerEntry; transaction: CreditTransaction }[]>;
+  getCompletedTeamPaymentsBetween(start: Date, end: Date): Promise<TeamPaymentHistory[]>;
+  // Approved payment requests reviewed or paid in [start, end)
+  getPaymentRequestsApprovedOrPaidBetween(start: Date, end: Date): Promise<PaymentRequest[]>;
+
   // Safe Signer Mapping methods
   getDaoSafeSigners(walletId: number): Promise<DaoSafeSigner[]>;
   getDaoSafeSignerByAddress(walletId: number, signerAddress: string): Promise<DaoSafeSigner | undefined>;
@@ -941,6 +1150,7 @@ export interface IStorage {
   getDaoPeerFeedback(debriefId: number): Promise<DaoPeerFeedback[]>;
   createDaoPeerFeedback(feedback: InsertDaoPeerFeedback): Promise<DaoPeerFeedback>;
   getFeedbackForMember(membershipId: number): Promise<DaoPeerFeedback[]>;
+  getDaoPeerFeedbackBetween(from: Date | null, to: Date): Promise<DaoPeerFeedback[]>;
 
   // DAO Project Opportunities
   getDaoProjectOpportunities(status?: string): Promise<DaoProjectOpportunity[]>;
@@ -984,6 +1194,9 @@ export interface IStorage {
 
   // Task Dependencies
   getTaskDependencies(taskType: string, taskId: number): Promise<TaskDependency[]>;
+  getTaskDependency(id: number): Promise<TaskDependency | undefined>;
+  getTaskDependenciesByType(dependencyTypes: DependencyType[]): Promise<TaskDependency[]>;
+  findTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency | undefined>;
   createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
   deleteTaskDependency(id: number): Promise<boolean>;
 
@@ -1022,12 +1235,14 @@ export interface IStorage {
 
   // Task Custom Fields
   getTaskCustomFields(filters?: { scope?: string; clientProfileId?: number; boardId?: number; campaignId?: number }): Promise<TaskCustomField[]>;
+  getTaskCustomField(id: number): Promise<TaskCustomField | undefined>;
   createTaskCustomField(field: InsertTaskCustomField): Promise<TaskCustomField>;
   updateTaskCustomField(id: number, updates: Partial<InsertTaskCustomField>): Promise<TaskCustomField | undefined>;
   deleteTaskCustomField(id: number): Promise<boolean>;
 
   // Task Custom Field Values
   getTaskCustomFieldValues(taskType: string, taskId: number): Promise<TaskCustomFieldValue[]>;
+  getTaskCustomFieldValuesForTasks(taskType: string, taskIds: number[], customFieldIds?: number[]): Promise<TaskCustomFieldValue[]>;
   upsertTaskCustomFieldValue(value: InsertTaskCustomFieldValue): Promise<TaskCustomFieldValue>;
 
   // Watcher Auto-Add Rules
@@ -1077,6 +1292,85 @@ export interface IStorage {
   getDailyDigests(userId: string, limit?: number): Promise<DailyDigest[]>;
   createDailyDigest(digest: InsertDailyDigest): Promise<DailyDigest>;
   markDailyDigestRead(id: number): Promise<DailyDigest | undefined>;
+  getDailyDigest(id: number): Promise<DailyDigest | undefined>;
+  getDailyDigestByDate(userId: string, digestDate: string): Promise<DailyDigest | undefined>;
+  markDailyDigestEmailed(id: number): Promise<DailyDigest | undefined>;
+  getEnabledChatDigestPreferences(): Promise<ChatDigestPreferences[]>;
+  getInboundChatMessagesBetween(start: Date, end: Date): Promise<Array<{ message: ChatMessage; conversation: ChatConversation; contact: ChatContact; platform: ChatPlatform }>>;
+
+  // ==================== BACKGROUND JOBS ====================
+
+  // Scheduled Jobs
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(id: number): Promise<ScheduledJob | undefined>;
+  getScheduledJobByName(name: string): Promise<ScheduledJob | undefined>;
+  createScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  updateScheduledJob(id: number, updates: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined>;
+  claimDueScheduledJob(instanceId: string, leaseSeconds: number): Promise<ScheduledJob | undefined>;
+  claimScheduledJob(id: number, instanceId: string, leaseSeconds: number): Promise<ScheduledJob | undefined>;
+  extendScheduledJobLease(id: number, instanceId: string, leaseSeconds: number): Promise<void>;
+  releaseScheduledJob(id: number, instanceId: string, outcome: {
+    // Terminal status for one-off jobs; omitted to keep whatever the job's status is now
+    status?: ScheduledJobStatus;
+    nextRunAt: Date | null;
+    lastRunStatus: JobRunStatus;
+    lastError: string | null;
+    attempts: number;
+  }): Promise<ScheduledJob | undefined>;
+
+  // Job Runs
+  getJobRuns(jobId: number, limit?: number): Promise<JobRun[]>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: number, updates: Partial<InsertJobRun>): Promise<JobRun | undefined>;
+
+  // ==================== FULL-TEXT SEARCH ====================
+
+  search(query: string, options: SearchOptions): Promise<{ results: SearchHit[]; facets: Array<{ type: SearchResultType; count: number }> }>;
+}
+
+export type DaoTreasurySettings = Partial<Pick<DaoTreasury,
+  "bonusTriggerThreshold" | "bonusApprovalQuorum" |
+  "reconciliationWindowDays" | "reconciliationAmountToleranceBps" | "reconciliationDriftToleranceBps">>;
+
+export interface SearchOptions {
+  types: SearchResultType[];
+  boardIds: number[]; // Team boards the caller can see; team tasks are limited to these
+  limit: number;
+  offset: number;
+}
+
+// Turn free text into a prefix-matching tsquery ("acme lau" -> "acme:* & lau:*").
+// tsquery operators are stripped and punctuation-only tokens dropped, so user input can
+// never produce tsquery syntax errors.
+function toPrefixTsQuery(query: string): string | null {
+  const tokens = query.toLowerCase()
+    .split(/[\s&|!():*<>'"\\]+/)
+    .filter(token => /[a-z0-9\u00c0-\uffff]/.test(token));
+  if (tokens.length === 0) return null;
+  return tokens.slice(0, 8).map(token => `${token}:*`).join(" & ");
+}
+
+// A single balance movement on the credit ledger. Entries are derived from the deltas:
+// whatever isn't moved between the client's own accounts is balanced by counterAccount.
+interface CreditPosting {
+  userId: string;
+  type: CreditTransactionType;
+  availableDelta: number;
+  heldDelta: number;
+  counterAccount?: CreditLedgerAccount;
+  description: string;
+  idempotencyKey?: string;
+  taskId?: number;
+  orderId?: number;
+  performedBy?: string;
+  // Order status change applied in the same statement; the posting fails if the order isn't in `from`
+  orderTransition?: {
+    orderId: number;
+    clientId?: string;
+    from: ContentOrderStatus[];
+    to: ContentOrderStatus;
+    deliverableUrl?: string;
+  };
 }
 
 export class DbStorage implements IStorage {
@@ -1185,29 +1479,58 @@ export class DbStorage implements IStorage {
   }
 
   // Minted address methods
-  async addMintedAddresses(collectionId: number, addresses: string[]): Promise<number> {
+  async addMintedAddresses(
+    collectionId: number,
+    addresses: Array<string | CollectionAddressInput>,
+    source?: Omit<InsertCollectionImport, "collectionId" | "receivedCount" | "addedCount">,
+  ): Promise<number> {
     if (addresses.length === 0) return 0;
     
-    const normalizedAddresses = addresses.map(a => a.toLowerCase());
-    
     const existing = await db
       .select({ address: mintedAddresses.address })
       .from(mintedAddresses)
       .where(eq(mintedAddresses.collectionId, collectionId));
     
-    const existingSet = new Set(existing.map(e => e.address.toLowerCase()));
-    const newAddresses = normalizedAddresses.filter(a => !existingSet.has(a));
-    
-    if (newAddresses.length === 0) return 0;
-    
-    await db.insert(mintedAddresses).values(
-      newAddresses.map(address => ({
-        collectionId,
-        address,
-      }))
-    );
+    // Compare by chain-aware key; Solana and legacy Bitcoin addresses are case-sensitive.
+    // Addresses already in the collection keep their original metadata and source.
+    const seen = new Set(existing.map(e => addressKey(e.address)));
+    const newEntries: CollectionAddressInput[] = [];
+    for (const item of addresses) {
+      const entry = typeof item === "string" ? { address: item } : item;
+      const key = addressKey(entry.address);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      newEntries.push({ ...entry, address: entry.address.trim() });
+    }
+    
+    // An import that added nothing isn't recorded
+    if (newEntries.length === 0) return 0;
+    const [sourceImport] = source
+      ? await db.insert(collectionImports).values({
+          ...source,
+          collectionId,
+          receivedCount: addresses.length,
+          addedCount: newEntries.length,
+        }).returning()
+      : [];
+    
+    // Insert in chunks to stay under the parameter limit for large lists
+    for (let i = 0; i < newEntries.length; i += 1000) {
+      await db.insert(mintedAddresses).values(
+        newEntries.slice(i, i + 1000).map(entry => ({
+          collectionId,
+          address: entry.address,
+          chain: entry.chain ?? null,
+          username: entry.username ?? null,
+          points: entry.points ?? null,
+          rank: entry.rank ?? null,
+          labels: entry.labels ?? [],
+          importId: sourceImport?.id ?? null,
+        }))
+      );
+    }
     
-    return newAddresses.length;
+    return newEntries.length;
   }
 
   async getMintedAddresses(collectionId: number): Promise<string[]> {
@@ -1215,7 +1538,7 @@ export class DbStorage implements IStorage {
       .select({ address: mintedAddresses.address })
       .from(mintedAddresses)
       .where(eq(mintedAddresses.collectionId, collectionId));
-    return results.map(r => r.address);
+    return results.map(r => canonicalAddress(r.address));
   }
 
   async getMintedAddressCount(collectionId: number): Promise<number> {
@@ -1227,14 +1550,217 @@ export class DbStorage implements IStorage {
   }
 
   async removeMintedAddress(collectionId: number, address: string): Promise<void> {
-    await db
-      .delete(mintedAddresses)
-      .where(
-        and(
-          eq(mintedAddresses.collectionId, collectionId),
-          eq(mintedAddresses.address, address.toLowerCase())
-        )
-      );
+    const key = addressKey(address);
+    const rows = await db
+      .select({ id: mintedAddresses.id, address: mintedAddresses.address })
+      .from(mintedAddresses)
+      .where(eq(mintedAddresses.collectionId, collectionId));
+    const matching = rows.filter(r => addressKey(r.address) === key).map(r => r.id);
+    if (matching.length === 0) return;
+    await db.delete(mintedAddresses).where(inArray(mintedAddresses.id, matching));
+  }
+
+  async getCollectionAddressEntries(
+    collectionId: number,
+    filter: CollectionAddressFilter,
+    limit?: number,
+    offset: number = 0,
+  ): Promise<{ total: number; entries: CollectionAddressEntry[] }> {
+    const conditions: SQL[] = [eq(mintedAddresses.collectionId, collectionId)];
+    if (filter.label) conditions.push(arrayContains(mintedAddresses.labels, [filter.label]));
+    if (filter.source) conditions.push(eq(collectionImports.sourceType, filter.source));
+    if (filter.importId) conditions.push(eq(mintedAddresses.importId, filter.importId));
+    if (filter.chain) conditions.push(eq(mintedAddresses.chain, filter.chain));
+    if (filter.minPoints !== undefined) conditions.push(gte(mintedAddresses.points, filter.minPoints));
+    if (filter.maxPoints !== undefined) conditions.push(lte(mintedAddresses.points, filter.maxPoints));
+    if (filter.search) {
+      // Match the term literally: escape LIKE's wildcards and its escape character
+      const searchTerm = `%${filter.search.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        sql`LOWER(${mintedAddresses.address}) LIKE ${searchTerm} ESCAPE '\\'`,
+        sql`LOWER(${mintedAddresses.username}) LIKE ${searchTerm} ESCAPE '\\'`,
+      )!);
+    }
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(mintedAddresses)
+      .leftJoin(collectionImports, eq(mintedAddresses.importId, collectionImports.id))
+      .where(and(...conditions));
+
+    const query = db
+      .select({ row: mintedAddresses, source: collectionImports })
+      .from(mintedAddresses)
+      .leftJoin(collectionImports, eq(mintedAddresses.importId, collectionImports.id))
+      .where(and(...conditions))
+      .orderBy(mintedAddresses.id)
+      .offset(offset);
+    const rows = limit !== undefined ? await query.limit(limit) : await query;
+
+    return {
+      total: Number(count),
+      entries: rows.map(({ row, source }) => ({
+        address: canonicalAddress(row.address),
+        chain: row.chain,
+        username: row.username,
+        points: row.points,
+        rank: row.rank,
+        labels: row.labels,
+        source: source ? { importId: source.id, type: source.sourceType, reference: source.reference } : null,
+        addedAt: row.createdAt,
+      })),
+    };
+  }
+
+  async getMintedAddressLabels(collectionId: number): Promise<Pick<MintedAddress, "id" | "address" | "labels">[]> {
+    return db
+      .select({ id: mintedAddresses.id, address: mintedAddresses.address, labels: mintedAddresses.labels })
+      .from(mintedAddresses)
+      .where(eq(mintedAddresses.collectionId, collectionId));
+  }
+
+  async setMintedAddressLabels(ids: number[], labels: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(mintedAddresses).set({ labels }).where(inArray(mintedAddresses.id, ids));
+  }
+
+  async getCollectionImports(collectionId: number): Promise<CollectionImport[]> {
+    return db.select().from(collectionImports)
+      .where(eq(collectionImports.collectionId, collectionId))
+      .orderBy(desc(collectionImports.createdAt), desc(collectionImports.id));
+  }
+
+  // Collection snapshot methods
+  async createCollectionSnapshot(snapshot: InsertCollectionSnapshot): Promise<CollectionSnapshot> {
+    const [created] = await db.insert(collectionSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getCollectionSnapshot(id: number): Promise<CollectionSnapshot | undefined> {
+    const [snapshot] = await db.select().from(collectionSnapshots).where(eq(collectionSnapshots.id, id));
+    return snapshot;
+  }
+
+  async getCollectionSnapshots(collectionId: number): Promise<CollectionSnapshotSummary[]> {
+    // Listings leave out the address lists, which can run to tens of thousands of entries
+    const { addresses, ...columns } = getTableColumns(collectionSnapshots);
+    return db.select(columns).from(collectionSnapshots)
+      .where(eq(collectionSnapshots.collectionId, collectionId))
+      .orderBy(desc(collectionSnapshots.createdAt), desc(collectionSnapshots.id));
+  }
+
+  async createCollectionSnapshotWithProofs(
+    snapshot: InsertCollectionSnapshot,
+    proofs: Omit<InsertCollectionSnapshotProof, "snapshotId">[],
+  ): Promise<CollectionSnapshot> {
+    const created = await this.createCollectionSnapshot(snapshot);
+    try {
+      // Insert in chunks to stay under the parameter limit for large allowlists
+      for (let i = 0; i < proofs.length; i += 500) {
+        await db.insert(collectionSnapshotProofs)
+          .values(proofs.slice(i, i + 500).map(proof => ({ ...proof, snapshotId: created.id })));
+      }
+    } catch (error) {
+      // A snapshot carrying a root without all of its proofs must not be left behind
+      await db.delete(collectionSnapshots).where(eq(collectionSnapshots.id, created.id));
+      throw error;
+    }
+    return created;
+  }
+
+  async getCollectionSnapshotProof(snapshotId: number, addressKey: string): Promise<CollectionSnapshotProof | undefined> {
+    const [proof] = await db.select().from(collectionSnapshotProofs)
+      .where(and(eq(collectionSnapshotProofs.snapshotId, snapshotId), eq(collectionSnapshotProofs.addressKey, addressKey)));
+    return proof;
+  }
+
+  async getCollectionSnapshotProofs(snapshotId: number): Promise<CollectionSnapshotProof[]> {
+    return db.select().from(collectionSnapshotProofs)
+      .where(eq(collectionSnapshotProofs.snapshotId, snapshotId))
+      .orderBy(collectionSnapshotProofs.id);
+  }
+
+  // Wallet screener methods
+  async getWalletScreeningCacheEntries(chainId: number, provider: WalletScreenerProvider, addresses: string[]): Promise<WalletScreeningCacheEntry[]> {
+    if (addresses.length === 0) return [];
+    // Results from another provider don't count; the next screening overwrites them
+    return db.select().from(walletScreeningCache)
+      .where(and(
+        eq(walletScreeningCache.chainId, chainId),
+        eq(walletScreeningCache.provider, provider),
+        inArray(walletScreeningCache.address, addresses),
+      ));
+  }
+
+  async upsertWalletScreeningCacheEntry(entry: InsertWalletScreeningCacheEntry): Promise<WalletScreeningCacheEntry> {
+    const [saved] = await db.insert(walletScreeningCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [walletScreeningCache.chainId, walletScreeningCache.address],
+        set: { provider: entry.provider, result: entry.result, fetchedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async createWalletScreeningJob(job: InsertWalletScreeningJob, addresses: string[]): Promise<WalletScreeningJob> {
+    const [created] = await db.insert(walletScreeningJobs).values(job).returning();
+    // Insert in chunks to stay under the parameter limit for large batches
+    for (let i = 0; i < addresses.length; i += 1000) {
+      await db.insert(walletScreeningJobItems)
+        .values(addresses.slice(i, i + 1000).map((address, index) => ({ jobId: created.id, position: i + index, address })))
+        .onConflictDoNothing();
+    }
+    return created;
+  }
+
+  async getWalletScreeningJob(id: number): Promise<WalletScreeningJob | undefined> {
+    const [job] = await db.select().from(walletScreeningJobs).where(eq(walletScreeningJobs.id, id));
+    return job;
+  }
+
+  async getWalletScreeningJobs(createdBy?: string, limit: number = 50): Promise<WalletScreeningJob[]> {
+    return db.select().from(walletScreeningJobs)
+      .where(createdBy ? eq(walletScreeningJobs.createdBy, createdBy) : undefined)
+      .orderBy(desc(walletScreeningJobs.createdAt))
+      .limit(limit);
+  }
+
+  async transitionWalletScreeningJob(id: number, from: WalletScreeningJobStatus[], updates: Partial<InsertWalletScreeningJob>): Promise<WalletScreeningJob | undefined> {
+    const [job] = await db.update(walletScreeningJobs)
+      .set(updates)
+      .where(and(eq(walletScreeningJobs.id, id), inArray(walletScreeningJobs.status, from)))
+      .returning();
+    return job;
+  }
+
+  async getWalletScreeningItems(jobId: number, status?: WalletScreeningItemStatus, limit?: number, offset: number = 0): Promise<WalletScreeningJobItem[]> {
+    const conditions: SQL[] = [eq(walletScreeningJobItems.jobId, jobId)];
+    if (status) conditions.push(eq(walletScreeningJobItems.status, status));
+    const query = db.select().from(walletScreeningJobItems)
+      .where(and(...conditions))
+      .orderBy(walletScreeningJobItems.position)
+      .offset(offset);
+    return limit ? query.limit(limit) : query;
+  }
+
+  async updateWalletScreeningItem(id: number, updates: Partial<Pick<WalletScreeningJobItem, "status" | "result" | "fromCache" | "error" | "screenedAt">>): Promise<void> {
+    await db.update(walletScreeningJobItems).set(updates).where(eq(walletScreeningJobItems.id, id));
+  }
+
+  async getWalletScreeningItemCounts(jobId: number): Promise<{ pending: number; done: number; failed: number; cached: number }> {
+    const [counts] = await db.select({
+      pending: sql<number>`count(*) filter (where ${walletScreeningJobItems.status} = 'pending')`,
+      done: sql<number>`count(*) filter (where ${walletScreeningJobItems.status} = 'done')`,
+      failed: sql<number>`count(*) filter (where ${walletScreeningJobItems.status} = 'failed')`,
+      cached: sql<number>`count(*) filter (where ${walletScreeningJobItems.fromCache})`,
+    }).from(walletScreeningJobItems).where(eq(walletScreeningJobItems.jobId, jobId));
+    return {
+      pending: Number(counts?.pending || 0),
+      done: Number(counts?.done || 0),
+      failed: Number(counts?.failed || 0),
+      cached: Number(counts?.cached || 0),
+    };
   }
 
   // Task methods (user-specific to-do items)
@@ -1315,6 +1841,11 @@ export class DbStorage implements IStorage {
     return task;
   }
 
+  async getContentTasksByIds(ids: number[]): Promise<ContentTask[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(contentTasks).where(inArray(contentTasks.id, ids));
+  }
+
   async createContentTask(insertTask: InsertContentTask): Promise<ContentTask> {
     const [task] = await db.insert(contentTasks).values(insertTask).returning();
     return task;
@@ -1818,7 +2349,12 @@ export class DbStorage implements IStorage {
     return created;
   }
 
-  async updateApprovalStatus(id: number, status: string, comments?: string): Promise<Approval | undefined> {
+  async getApproval(id: number): Promise<Approval | undefined> {
+    const [approval] = await db.select().from(approvals).where(eq(approvals.id, id));
+    return approval;
+  }
+
+  async updateApprovalStatus(id: number, status: ApprovalStatus, comments?: string): Promise<Approval | undefined> {
     const [updated] = await db
       .update(approvals)
       .set({ status, comments, reviewedAt: new Date() })
@@ -1827,18 +2363,49 @@ export class DbStorage implements IStorage {
     return updated;
   }
 
+  // Conditional update so concurrent decisions/escalations can't both act on the same stage
+  async transitionApproval(id: number, fromStatus: ApprovalStatus, updates: Partial<Approval>): Promise<Approval | undefined> {
+    const { id: _id, taskId: _taskId, createdAt: _createdAt, ...changes } = updates;
+    const [updated] = await db
+      .update(approvals)
+      .set(changes)
+      .where(and(eq(approvals.id, id), eq(approvals.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+
   async getApprovalsByReviewer(reviewerId: string): Promise<Approval[]> {
     return await db.select().from(approvals).where(eq(approvals.reviewerId, reviewerId)).orderBy(desc(approvals.createdAt));
   }
 
-  async getPendingApprovals(reviewerId: string): Promise<Approval[]> {
+  async getPendingApprovals(reviewerId: string, reviewerRole?: string): Promise<Approval[]> {
+    const assignedToReviewer = reviewerRole
+      ? or(eq(approvals.reviewerId, reviewerId), eq(approvals.reviewerRole, reviewerRole))
+      : eq(approvals.reviewerId, reviewerId);
     return await db
       .select()
       .from(approvals)
-      .where(and(eq(approvals.reviewerId, reviewerId), eq(approvals.status, "pending")))
+      .where(and(assignedToReviewer, eq(approvals.status, "pending")))
       .orderBy(approvals.stage, desc(approvals.createdAt));
   }
 
+  async getOverdueApprovals(now: Date): Promise<Approval[]> {
+    return await db
+      .select()
+      .from(approvals)
+      .where(and(eq(approvals.status, "pending"), lt(approvals.dueDate, now), isNull(approvals.escalatedAt)))
+      .orderBy(approvals.dueDate);
+  }
+
+  async getPendingApprovalCounts(): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ reviewerId: approvals.reviewerId, count: sql<number>`count(*)::int` })
+      .from(approvals)
+      .where(eq(approvals.status, "pending"))
+      .groupBy(approvals.reviewerId);
+    return new Map(rows.map(row => [row.reviewerId, Number(row.count)]));
+  }
+
   // Approval Workflow methods
   async getApprovalWorkflows(): Promise<ApprovalWorkflow[]> {
     return await db.select().from(approvalWorkflows).where(eq(approvalWorkflows.isActive, true)).orderBy(approvalWorkflows.name);
@@ -1903,33 +2470,35 @@ export class DbStorage implements IStorage {
     
     // Get all users to assign based on role
     const allUsers = await this.getAllUsers();
+    const pendingCounts = await this.getPendingApprovalCounts();
     
     for (const stage of stages) {
       let reviewerId = stage.reviewerId;
       
-      // If no specific reviewer but has a role requirement, find an appropriate user
+      // If no specific reviewer but has a role requirement, route to the least-loaded user with that role
       if (!reviewerId && stage.reviewerRole) {
-        const roleUsers = allUsers.filter(u => u.role === stage.reviewerRole);
+        const roleUsers = allUsers
+          .filter(u => u.role === stage.reviewerRole)
+          .sort((a, b) => (pendingCounts.get(a.id) || 0) - (pendingCounts.get(b.id) || 0));
         if (roleUsers.length > 0) {
-          // Assign to first available user with that role (could be randomized or round-robin in future)
           reviewerId = roleUsers[0].id;
+          pendingCounts.set(reviewerId, (pendingCounts.get(reviewerId) || 0) + 1);
         }
       }
       
-      // Create approval if we have a reviewer
+      // Stages start out waiting; the workflow engine opens them in order and sets the due date
       if (reviewerId) {
-        const dueDate = stage.daysToComplete 
-          ? new Date(Date.now() + stage.daysToComplete * 24 * 60 * 60 * 1000)
-          : undefined;
-          
         const approval = await this.createApproval({
           taskId,
           reviewerId,
-          status: "pending",
+          status: "waiting",
           stage: stage.stageOrder,
           stageName: stage.stageName,
           isRequired: stage.isRequired,
-          dueDate,
+          workflowId,
+          workflowStageId: stage.id,
+          reviewerRole: stage.reviewerId ? null : stage.reviewerRole,
+          daysToComplete: stage.daysToComplete,
         });
         createdApprovals.push(approval);
       } else if (stage.isRequired) {
@@ -2147,6 +2716,42 @@ export class DbStorage implements IStorage {
       );
   }
 
+  async markRecurringTaskGenerated(id: number, lastGeneratedAt: Date, nextGenerationAt: Date | null): Promise<RecurringTask | undefined> {
+    const [updated] = await db.update(recurringTasks)
+      .set({ lastGeneratedAt, nextGenerationAt })
+      .where(eq(recurringTasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getRecurringTaskOccurrences(recurringTaskId: number, limit: number = 50): Promise<RecurringTaskOccurrence[]> {
+    return await db.select().from(recurringTaskOccurrences)
+      .where(eq(recurringTaskOccurrences.recurringTaskId, recurringTaskId))
+      .orderBy(desc(recurringTaskOccurrences.occurrenceDate))
+      .limit(limit);
+  }
+
+  // Returns undefined when the occurrence was already claimed (by an earlier run or another instance)
+  async claimRecurringTaskOccurrence(recurringTaskId: number, occurrenceDate: string): Promise<RecurringTaskOccurrence | undefined> {
+    const [claimed] = await db.insert(recurringTaskOccurrences)
+      .values({ recurringTaskId, occurrenceDate })
+      .onConflictDoNothing()
+      .returning();
+    return claimed;
+  }
+
+  async setRecurringTaskOccurrenceTask(id: number, contentTaskId: number): Promise<void> {
+    await db.update(recurringTaskOccurrences)
+      .set({ contentTaskId })
+      .where(eq(recurringTaskOccurrences.id, id));
+  }
+
+  // Drops a claim whose task was never created, so a later run can retry the occurrence
+  async releaseRecurringTaskOccurrence(id: number): Promise<void> {
+    await db.delete(recurringTaskOccurrences)
+      .where(and(eq(recurringTaskOccurrences.id, id), isNull(recurringTaskOccurrences.contentTaskId)));
+  }
+
   // Notification Preferences methods
   async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
     const [prefs] = await db
@@ -2609,22 +3214,15 @@ export class DbStorage implements IStorage {
     return created;
   }
   
-  async updatePaymentRequestStatus(
-    id: number, 
-    status: PaymentRequestStatus, 
-    reviewerId: string, 
-    note?: string
+  async transitionPaymentRequest(
+    id: number,
+    from: PaymentRequestStatus[],
+    updates: Partial<InsertPaymentRequest>
   ): Promise<PaymentRequest | undefined> {
     const [updated] = await db
       .update(paymentRequests)
-      .set({
-        status,
-        adminReviewerId: reviewerId,
-        adminNote: note || null,
-        reviewedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(paymentRequests.id, id))
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(paymentRequests.id, id), inArray(paymentRequests.status, from)))
       .returning();
     return updated;
   }
@@ -2668,6 +3266,115 @@ export class DbStorage implements IStorage {
     const [created] = await db.insert(paymentRequestEvents).values(event).returning();
     return created;
   }
+
+  async getPaymentRequestApprovals(paymentRequestId: number): Promise<PaymentRequestApproval[]> {
+    return await db
+      .select()
+      .from(paymentRequestApprovals)
+      .where(eq(paymentRequestApprovals.paymentRequestId, paymentRequestId))
+      .orderBy(paymentRequestApprovals.createdAt);
+  }
+
+  async recordPaymentRequestApproval(paymentRequestId: number, approverId: string, note: string | null): Promise<PaymentRequestApproval | undefined> {
+    const [created] = await db
+      .insert(paymentRequestApprovals)
+      .values({ paymentRequestId, approverId, note })
+      .onConflictDoNothing()
+      .returning();
+    return created;
+  }
+
+  async removePaymentRequestApproval(id: number): Promise<void> {
+    await db.delete(paymentRequestApprovals).where(eq(paymentRequestApprovals.id, id));
+  }
+
+  async getPaymentRequestReceipts(paymentRequestId: number): Promise<PaymentRequestReceipt[]> {
+    return await db
+      .select()
+      .from(paymentRequestReceipts)
+      .where(eq(paymentRequestReceipts.paymentRequestId, paymentRequestId))
+      .orderBy(paymentRequestReceipts.createdAt);
+  }
+
+  async getPaymentRequestReceipt(id: number): Promise<PaymentRequestReceipt | undefined> {
+    const [receipt] = await db.select().from(paymentRequestReceipts).where(eq(paymentRequestReceipts.id, id));
+    return receipt;
+  }
+
+  async createPaymentRequestReceipt(receipt: InsertPaymentRequestReceipt): Promise<PaymentRequestReceipt> {
+    const [created] = await db.insert(paymentRequestReceipts).values(receipt).returning();
+    return created;
+  }
+
+  async deletePaymentRequestReceipt(id: number): Promise<boolean> {
+    const deleted = await db.delete(paymentRequestReceipts).where(eq(paymentRequestReceipts.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getPaymentBudgetCategories(includeInactive: boolean = false): Promise<PaymentBudgetCategory[]> {
+    return await db
+      .select()
+      .from(paymentBudgetCategories)
+      .where(includeInactive ? undefined : eq(paymentBudgetCategories.isActive, true))
+      .orderBy(paymentBudgetCategories.name);
+  }
+
+  async getPaymentBudgetCategory(id: number): Promise<PaymentBudgetCategory | undefined> {
+    const [category] = await db.select().from(paymentBudgetCategories).where(eq(paymentBudgetCategories.id, id));
+    return category;
+  }
+
+  async createPaymentBudgetCategory(category: InsertPaymentBudgetCategory): Promise<PaymentBudgetCategory> {
+    const [created] = await db.insert(paymentBudgetCategories).values(category).returning();
+    return created;
+  }
+
+  async updatePaymentBudgetCategory(id: number, updates: Partial<InsertPaymentBudgetCategory>): Promise<PaymentBudgetCategory | undefined> {
+    const [updated] = await db
+      .update(paymentBudgetCategories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(paymentBudgetCategories.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPaymentCategoryTotals(categoryId: number, from: Date, to: Date): Promise<Partial<Record<PaymentRequestStatus, number>>> {
+    const rows = await db
+      .select({ status: paymentRequests.status, total: sql<string>`sum(${paymentRequests.amount})` })
+      .from(paymentRequests)
+      .where(and(
+        eq(paymentRequests.categoryId, categoryId),
+        gte(paymentRequests.requestedAt, from),
+        lt(paymentRequests.requestedAt, to),
+      ))
+      .groupBy(paymentRequests.status);
+    const totals: Partial<Record<PaymentRequestStatus, number>> = {};
+    for (const row of rows) {
+      totals[row.status] = Number(row.total ?? 0);
+    }
+    return totals;
+  }
+
+  async getPaymentApprovalThresholds(): Promise<PaymentApprovalThreshold[]> {
+    return await db.select().from(paymentApprovalThresholds).orderBy(paymentApprovalThresholds.minAmount);
+  }
+
+  async upsertPaymentApprovalThreshold(threshold: InsertPaymentApprovalThreshold): Promise<PaymentApprovalThreshold> {
+    const [saved] = await db
+      .insert(paymentApprovalThresholds)
+      .values(threshold)
+      .onConflictDoUpdate({
+        target: paymentApprovalThresholds.minAmount,
+        set: { requiredApprovals: threshold.requiredApprovals, createdBy: threshold.createdBy },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePaymentApprovalThreshold(id: number): Promise<boolean> {
+    const deleted = await db.delete(paymentApprovalThresholds).where(eq(paymentApprovalThresholds.id, id)).returning();
+    return deleted.length > 0;
+  }
   
   // ==================== BRAND PACK METHODS ====================
   
@@ -2992,72 +3699,166 @@ export class DbStorage implements IStorage {
     return updated;
   }
   
-  async addClientCredit(userId: string, amount: number, description: string, performedBy: string): Promise<ClientCredit> {
-    // Get or create credit record
-    let credit = await this.getClientCredit(userId);
-    
-    if (!credit) {
-      credit = await this.createClientCredit({
-        userId,
-        balance: 0,
-        currency: "USD",
-      });
+  /**
+   * Post a credit transaction and its ledger entries atomically.
+   *
+   * neon-http has no interactive transactions, so the balance check, balance update, optional
+   * order status change, journal row and ledger entries all run as one statement of chained
+   * CTEs. The guard locks the credit (and order) row, so concurrent postings serialize and
+   * re-check the balance. A duplicate idempotency key aborts the whole statement and the
+   * original transaction is returned instead.
+   *
+   * Returns undefined when the guard fails (insufficient funds or order not in an allowed state).
+   */
+  private async postCreditTransaction(posting: CreditPosting): Promise<{ transaction: CreditTransaction; replayed: boolean } | undefined> {
+    if (posting.idempotencyKey) {
+      const existing = await this.getCreditTransactionByIdempotencyKey(posting.idempotencyKey);
+      if (existing) return { transaction: existing, replayed: true };
+    }
+
+    const { userId, availableDelta, heldDelta, orderTransition } = posting;
+    const entries: Array<{ account: CreditLedgerAccount; userId: string | null; amount: number }> = [];
+    if (availableDelta !== 0) entries.push({ account: "client_available", userId, amount: availableDelta });
+    if (heldDelta !== 0) entries.push({ account: "client_held", userId, amount: heldDelta });
+    const counterAmount = -(availableDelta + heldDelta);
+    if (counterAmount !== 0) {
+      if (!posting.counterAccount) {
+        throw new Error(`Credit posting "${posting.type}" is unbalanced and has no counter account`);
+      }
+      entries.push({ account: posting.counterAccount, userId: null, amount: counterAmount });
+    }
+
+    // A missing credit row is a zero balance: create it for any posting that doesn't draw
+    // on the balance (credits added, zero-cost holds) so the guard below has a row to lock
+    if (availableDelta >= 0 && heldDelta >= 0) {
+      await db.insert(clientCredits).values({ userId, balance: 0, currency: "USD" }).onConflictDoNothing({ target: clientCredits.userId });
+    }
+
+    const fromStatuses = orderTransition
+      ? sql.join(orderTransition.from.map(status => sql`${status}`), sql`, `)
+      : undefined;
+
+    const guard = orderTransition
+      ? sql`guard AS (
+          SELECT c.user_id FROM client_credits c
+          JOIN content_orders o ON o.id = ${orderTransition.orderId}
+          WHERE c.user_id = ${userId}
+            AND c.balance + ${availableDelta} >= 0
+            AND c.held_balance + ${heldDelta} >= 0
+            AND o.status IN (${fromStatuses})
+            ${orderTransition.clientId ? sql`AND o.client_id = ${orderTransition.clientId}` : sql``}
+          FOR UPDATE
+        ),
+        ord AS (
+          UPDATE content_orders SET
+            status = ${orderTransition.to},
+            submitted_at = CASE WHEN ${orderTransition.to}::varchar = 'submitted' THEN NOW() ELSE submitted_at END,
+            completed_at = CASE WHEN ${orderTransition.to}::varchar = 'completed' THEN NOW() ELSE completed_at END,
+            deliverable_url = COALESCE(${orderTransition.deliverableUrl ?? null}::text, deliverable_url),
+            updated_at = NOW()
+          WHERE id = ${orderTransition.orderId} AND status IN (${fromStatuses}) AND EXISTS (SELECT 1 FROM guard)
+          RETURNING id
+        ),`
+      : sql`guard AS (
+          SELECT c.user_id FROM client_credits c
+          WHERE c.user_id = ${userId}
+            AND c.balance + ${availableDelta} >= 0
+            AND c.held_balance + ${heldDelta} >= 0
+          FOR UPDATE
+        ),`;
+
+    const entryValues = sql.join(
+      entries.map(e => sql`(${e.account}::varchar, ${e.userId}::varchar, ${e.amount}::integer)`),
+      sql`, `,
+    );
+
+    try {
+      const result = await db.execute(sql`
+        WITH ${guard}
+        bal AS (
+          UPDATE client_credits SET
+            balance = balance + ${availableDelta},
+            held_balance = held_balance + ${heldDelta},
+            updated_at = NOW()
+          WHERE user_id IN (SELECT user_id FROM guard)
+            ${orderTransition ? sql`AND EXISTS (SELECT 1 FROM ord)` : sql``}
+          RETURNING balance, held_balance
+        ),
+        txn AS (
+          INSERT INTO credit_transactions
+            (user_id, type, amount, balance_after, held_after, description, task_id, order_id, idempotency_key, performed_by)
+          SELECT ${userId}::varchar, ${posting.type}::varchar, ${availableDelta}::integer, balance, held_balance,
+            ${posting.description}::text, ${posting.taskId ?? null}::integer, ${posting.orderId ?? null}::integer,
+            ${posting.idempotencyKey ?? null}::varchar, ${posting.performedBy ?? null}::varchar
+          FROM bal
+          RETURNING id
+        )${entries.length > 0 ? sql`,
+        entries AS (
+          INSERT INTO credit_ledger_entries (transaction_id, account, user_id, amount)
+          SELECT txn.id, e.account, e.user_id, e.amount
+          FROM txn CROSS JOIN (VALUES ${entryValues}) AS e(account, user_id, amount)
+          RETURNING id
+        )` : sql``}
+        SELECT id FROM txn
+      `);
+
+      const row = result.rows[0] as { id: number } | undefined;
+      if (!row) return undefined;
+      const [transaction] = await db.select().from(creditTransactions).where(eq(creditTransactions.id, row.id));
+      return { transaction, replayed: false };
+    } catch (error: any) {
+      // Lost a race with a concurrent request using the same key; the whole statement rolled back
+      if (error?.code === "23505" && posting.idempotencyKey) {
+        const existing = await this.getCreditTransactionByIdempotencyKey(posting.idempotencyKey);
+        if (existing) return { transaction: existing, replayed: true };
+      }
+      throw error;
     }
-    
-    const newBalance = credit.balance + amount;
-    
-    // Update the balance
-    const [updated] = await db
-      .update(clientCredits)
-      .set({ balance: newBalance, updatedAt: new Date() })
-      .where(eq(clientCredits.userId, userId))
-      .returning();
-    
-    // Record the transaction
-    await this.createCreditTransaction({
+  }
+  
+  async addClientCredit(userId: string, amount: number, description: string, performedBy: string, idempotencyKey?: string): Promise<ClientCredit> {
+    await this.postCreditTransaction({
       userId,
       type: "credit_added",
-      amount,
-      balanceAfter: newBalance,
+      availableDelta: amount,
+      heldDelta: 0,
+      counterAccount: "platform_issuance",
       description,
       performedBy,
+      idempotencyKey,
     });
     
-    return updated;
+    const credit = await this.getClientCredit(userId);
+    if (!credit) {
+      throw new Error("No credit record found for user");
+    }
+    return credit;
   }
   
-  async deductClientCredit(userId: string, amount: number, description: string, taskId?: number, performedBy?: string): Promise<ClientCredit> {
+  async deductClientCredit(userId: string, amount: number, description: string, taskId?: number, performedBy?: string, idempotencyKey?: string): Promise<ClientCredit> {
     const credit = await this.getClientCredit(userId);
     
     if (!credit) {
       throw new Error("No credit record found for user");
     }
     
-    if (credit.balance < amount) {
-      throw new Error("Insufficient credit balance");
-    }
-    
-    const newBalance = credit.balance - amount;
-    
-    // Update the balance
-    const [updated] = await db
-      .update(clientCredits)
-      .set({ balance: newBalance, updatedAt: new Date() })
-      .where(eq(clientCredits.userId, userId))
-      .returning();
-    
-    // Record the transaction
-    await this.createCreditTransaction({
+    const posted = await this.postCreditTransaction({
       userId,
       type: "credit_used",
-      amount: -amount, // Negative for deductions
-      balanceAfter: newBalance,
+      availableDelta: -amount,
+      heldDelta: 0,
+      counterAccount: "platform_revenue",
       description,
       taskId,
       performedBy,
+      idempotencyKey,
     });
     
-    return updated;
+    if (!posted) {
+      throw new Error("Insufficient credit balance");
+    }
+    
+    return (await this.getClientCredit(userId)) || credit;
   }
   
   async getCreditTransactions(userId: string, limit: number = 50): Promise<CreditTransaction[]> {
@@ -3069,11 +3870,115 @@ export class DbStorage implements IStorage {
       .limit(limit);
   }
   
+  async getCreditTransactionByIdempotencyKey(idempotencyKey: string): Promise<CreditTransaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.idempotencyKey, idempotencyKey));
+    return transaction;
+  }
+  
   async createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction> {
     const [created] = await db.insert(creditTransactions).values(transaction).returning();
     return created;
   }
   
+  async backfillCreditLedger(): Promise<number> {
+    // Rows written before the ledger existed have no entries (and no heldAfter); give them
+    // the balancing pair they would have had so the ledger covers the full history
+    const backfilled = await db.execute(sql`
+      INSERT INTO credit_ledger_entries (transaction_id, account, user_id, amount)
+      SELECT t.id, e.account, e.user_id, e.amount
+      FROM credit_transactions t
+      CROSS JOIN LATERAL (VALUES
+        ('client_available'::varchar, t.user_id, t.amount),
+        (CASE WHEN t.type IN ('credit_used', 'credit_refunded') THEN 'platform_revenue' ELSE 'platform_issuance' END, NULL::varchar, -t.amount)
+      ) AS e(account, user_id, amount)
+      WHERE t.held_after IS NULL
+        AND NOT EXISTS (SELECT 1 FROM credit_ledger_entries le WHERE le.transaction_id = t.id)
+      ON CONFLICT (transaction_id, account) DO NOTHING
+      RETURNING transaction_id
+    `);
+    return new Set(backfilled.rows.map((r: any) => r.transaction_id)).size;
+  }
+
+  // Read-only: legacy transactions show up as unledgered until backfillCreditLedger runs
+  async reconcileClientCredits(): Promise<CreditReconciliationReport> {
+    const [unledgered] = (await db.execute(sql`
+      SELECT COUNT(*) AS count
+      FROM credit_transactions t
+      WHERE t.held_after IS NULL
+        AND NOT EXISTS (SELECT 1 FROM credit_ledger_entries le WHERE le.transaction_id = t.id)
+    `)).rows as any[];
+
+    const balances = await db.execute(sql`
+      SELECT c.user_id, c.balance, c.held_balance,
+        COALESCE((SELECT SUM(le.amount) FROM credit_ledger_entries le WHERE le.user_id = c.user_id AND le.account = 'client_available'), 0) AS ledger_balance,
+        COALESCE((SELECT SUM(le.amount) FROM credit_ledger_entries le WHERE le.user_id = c.user_id AND le.account = 'client_held'), 0) AS ledger_held,
+        COALESCE((SELECT SUM(t.amount) FROM credit_transactions t WHERE t.user_id = c.user_id), 0) AS transaction_balance
+      FROM client_credits c
+    `);
+
+    const unbalanced = await db.execute(sql`
+      SELECT transaction_id, SUM(amount) AS total
+      FROM credit_ledger_entries
+      GROUP BY transaction_id
+      HAVING SUM(amount) <> 0
+    `);
+
+    // Credits still held against orders that are no longer in flight
+    const orphaned = await db.execute(sql`
+      SELECT t.order_id, t.user_id, SUM(le.amount) AS held, o.status
+      FROM credit_ledger_entries le
+      JOIN credit_transactions t ON t.id = le.transaction_id
+      LEFT JOIN content_orders o ON o.id = t.order_id
+      WHERE le.account = 'client_held' AND t.order_id IS NOT NULL
+      GROUP BY t.order_id, t.user_id, o.status
+      HAVING SUM(le.amount) <> 0 AND (o.status IS NULL OR o.status NOT IN ('submitted', 'in_progress', 'review'))
+    `);
+
+    const platform = await db.execute(sql`
+      SELECT account, SUM(amount) AS total
+      FROM credit_ledger_entries
+      WHERE account IN ('platform_revenue', 'platform_issuance')
+      GROUP BY account
+    `);
+    const platformTotal = (account: CreditLedgerAccount) =>
+      Number((platform.rows as any[]).find(r => r.account === account)?.total ?? 0);
+
+    const drift = (balances.rows as any[])
+      .map(r => ({
+        userId: r.user_id as string,
+        storedBalance: Number(r.balance),
+        ledgerBalance: Number(r.ledger_balance),
+        storedHeld: Number(r.held_balance),
+        ledgerHeld: Number(r.ledger_held),
+        transactionBalance: Number(r.transaction_balance),
+      }))
+      .filter(r => r.storedBalance !== r.ledgerBalance || r.storedHeld !== r.ledgerHeld);
+
+    return {
+      checkedAt: new Date().toISOString(),
+      accountsChecked: balances.rows.length,
+      unledgeredTransactions: Number(unledgered?.count ?? 0),
+      drift,
+      unbalancedTransactions: (unbalanced.rows as any[]).map(r => ({
+        transactionId: Number(r.transaction_id),
+        total: Number(r.total),
+      })),
+      orphanedHolds: (orphaned.rows as any[]).map(r => ({
+        orderId: Number(r.order_id),
+        userId: r.user_id as string,
+        held: Number(r.held),
+        orderStatus: r.status ?? null,
+      })),
+      platform: {
+        revenue: platformTotal("platform_revenue"),
+        issuance: platformTotal("platform_issuance"),
+      },
+    };
+  }
+  
   // ==================== CREDIT REQUESTS IMPLEMENTATION ====================
   
   async getCreditRequests(userId?: string): Promise<CreditRequest[]> {
@@ -3138,7 +4043,8 @@ export class DbStorage implements IStorage {
         request.requesterId,
         approvedAmount,
         `Credit request #${id} approved`,
-        adminId
+        adminId,
+        `credit-request:${id}`
       );
     }
     
@@ -3202,32 +4108,34 @@ export class DbStorage implements IStorage {
     return updated;
   }
   
+  // Submitting places a hold on the order's cost; completion captures it, cancellation releases it
   async submitContentOrder(id: number, userId: string): Promise<ContentOrder | undefined> {
     const order = await this.getContentOrder(id);
-    if (!order || order.clientId !== userId || order.status !== "draft") {
+    if (!order || order.clientId !== userId) {
       return undefined;
     }
     
-    // Check if client has enough credits
-    const credit = await this.getClientCredit(userId);
-    if (!credit || credit.balance < order.creditCost) {
-      throw new Error("Insufficient credits to submit this order");
-    }
-    
-    // Deduct the credits
-    await this.deductClientCredit(
+    const posted = await this.postCreditTransaction({
       userId,
-      order.creditCost,
-      `Content order #${id}: ${order.title}`,
-      undefined,
-      userId
-    );
-    
-    // Update order status
-    return await this.updateContentOrder(id, {
-      status: "submitted",
-      submittedAt: new Date(),
+      type: "credit_held",
+      availableDelta: -order.creditCost,
+      heldDelta: order.creditCost,
+      description: `Hold for content order #${id}: ${order.title}`,
+      orderId: id,
+      performedBy: userId,
+      idempotencyKey: `order:${id}:hold`,
+      orderTransition: { orderId: id, clientId: userId, from: ["draft"], to: "submitted" },
     });
+    
+    if (posted) {
+      return await this.getContentOrder(id);
+    }
+    
+    const current = await this.getContentOrder(id);
+    if (!current || current.status !== "draft") {
+      return undefined;
+    }
+    throw new Error("Insufficient credits to submit this order");
   }
   
   async assignContentOrder(id: number, assignedTo: string, adminId: string): Promise<ContentOrder | undefined> {
@@ -3248,36 +4156,81 @@ export class DbStorage implements IStorage {
       return undefined;
     }
     
-    return await this.updateContentOrder(id, {
-      status: "completed",
-      deliverableUrl,
-      completedAt: new Date(),
+    const hold = await this.getCreditTransactionByIdempotencyKey(`order:${id}:hold`);
+    if (!hold) {
+      // Submitted before holds existed: the credits were already deducted up front
+      return await this.updateContentOrder(id, {
+        status: "completed",
+        deliverableUrl,
+        completedAt: new Date(),
+      });
+    }
+    
+    const heldAmount = -hold.amount;
+    const posted = await this.postCreditTransaction({
+      userId: order.clientId,
+      type: "credit_captured",
+      availableDelta: 0,
+      heldDelta: -heldAmount,
+      counterAccount: "platform_revenue",
+      description: `Captured hold for completed order #${id}: ${order.title}`,
+      orderId: id,
+      performedBy: adminId,
+      idempotencyKey: `order:${id}:capture`,
+      orderTransition: { orderId: id, from: ["in_progress", "review"], to: "completed", deliverableUrl },
     });
+    
+    return posted ? await this.getContentOrder(id) : undefined;
   }
   
   async cancelContentOrder(id: number, userId: string): Promise<ContentOrder | undefined> {
     const order = await this.getContentOrder(id);
-    if (!order) {
+    if (!order || order.clientId !== userId) {
       return undefined;
     }
     
     // Only allow cancellation of draft orders by the client
-    if (order.status === "draft" && order.clientId === userId) {
-      return await this.updateContentOrder(id, { status: "cancelled" });
+    if (order.status === "draft") {
+      const [cancelled] = await db
+        .update(contentOrders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(contentOrders.id, id), eq(contentOrders.status, "draft")))
+        .returning();
+      return cancelled;
     }
     
-    // For submitted orders, refund the credits
-    if (order.status === "submitted" && order.clientId === userId) {
-      await this.addClientCredit(
-        userId,
-        order.creditCost,
-        `Refund for cancelled order #${id}: ${order.title}`,
-        userId
-      );
-      return await this.updateContentOrder(id, { status: "cancelled" });
+    if (order.status !== "submitted") {
+      return undefined;
     }
     
-    return undefined;
+    // For submitted orders, release the hold (or refund orders submitted before holds existed)
+    const hold = await this.getCreditTransactionByIdempotencyKey(`order:${id}:hold`);
+    const posted = hold
+      ? await this.postCreditTransaction({
+          userId,
+          type: "credit_released",
+          availableDelta: -hold.amount,
+          heldDelta: hold.amount,
+          description: `Released hold for cancelled order #${id}: ${order.title}`,
+          orderId: id,
+          performedBy: userId,
+          idempotencyKey: `order:${id}:release`,
+          orderTransition: { orderId: id, clientId: userId, from: ["submitted"], to: "cancelled" },
+        })
+      : await this.postCreditTransaction({
+          userId,
+          type: "credit_refunded",
+          availableDelta: order.creditCost,
+          heldDelta: 0,
+          counterAccount: "platform_revenue",
+          description: `Refund for cancelled order #${id}: ${order.title}`,
+          orderId: id,
+          performedBy: userId,
+          idempotencyKey: `order:${id}:refund`,
+          orderTransition: { orderId: id, clientId: userId, from: ["submitted"], to: "cancelled" },
+        });
+    
+    return posted ? await this.getContentOrder(id) : undefined;
   }
   
   async getOrdersForTeamMember(assignedTo: string): Promise<ContentOrder[]> {
@@ -4199,6 +5152,11 @@ export class DbStorage implements IStorage {
       .orderBy(desc(teamPaymentHistory.paymentDate));
   }
 
+  async getTeamPayment(id: number): Promise<TeamPaymentHistory | undefined> {
+    const [payment] = await db.select().from(teamPaymentHistory).where(eq(teamPaymentHistory.id, id));
+    return payment;
+  }
+
   async getAllTeamPayments(startDate?: Date, endDate?: Date): Promise<TeamPaymentHistory[]> {
     if (startDate && endDate) {
       return await db
@@ -4237,12 +5195,98 @@ export class DbStorage implements IStorage {
     return true;
   }
 
-  // ==================== CONTENT IDEAS (PRE-PRODUCTION APPROVAL) METHODS ====================
+  // Payroll Runs
+  async getPayrollRuns(status?: PayrollRunStatus): Promise<PayrollRun[]> {
+    return db.select().from(payrollRuns)
+      .where(status ? eq(payrollRuns.status, status) : undefined)
+      .orderBy(desc(payrollRuns.periodStart), payrollRuns.payFrequency);
+  }
 
-  async getContentIdeas(): Promise<ContentIdea[]> {
-    return await db
-      .select()
-      .from(contentIdeas)
+  async getPayrollRun(id: number): Promise<PayrollRun | undefined> {
+    const [run] = await db.select().from(payrollRuns).where(eq(payrollRuns.id, id));
+    return run;
+  }
+
+  async createPayrollRun(run: InsertPayrollRun): Promise<PayrollRun | undefined> {
+    // The partial unique index allows one live run per frequency and period
+    const [created] = await db.insert(payrollRuns).values(run).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async transitionPayrollRun(id: number, from: PayrollRunStatus[], updates: Partial<InsertPayrollRun> & { status: PayrollRunStatus }): Promise<PayrollRun | undefined> {
+    const [updated] = await db.update(payrollRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(payrollRuns.id, id), inArray(payrollRuns.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async updatePayrollRunTotals(id: number, totals: { totalAmount: number; memberCount: number }): Promise<void> {
+    await db.update(payrollRuns).set({ ...totals, updatedAt: new Date() }).where(eq(payrollRuns.id, id));
+  }
+
+  async getPayrollRunLines(runId: number): Promise<PayrollRunLine[]> {
+    return db.select().from(payrollRunLines)
+      .where(eq(payrollRunLines.runId, runId))
+      .orderBy(payrollRunLines.memberName);
+  }
+
+  async getPayrollRunLine(id: number): Promise<PayrollRunLine | undefined> {
+    const [line] = await db.select().from(payrollRunLines).where(eq(payrollRunLines.id, id));
+    return line;
+  }
+
+  async replacePayrollRunLines(runId: number, lines: InsertPayrollRunLine[]): Promise<PayrollRunLine[]> {
+    await db.delete(payrollRunLines).where(eq(payrollRunLines.runId, runId));
+    if (lines.length === 0) return [];
+    return db.insert(payrollRunLines).values(lines).returning();
+  }
+
+  async updatePayrollRunLine(id: number, updates: Partial<InsertPayrollRunLine>): Promise<PayrollRunLine | undefined> {
+    const [updated] = await db.update(payrollRunLines)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payrollRunLines.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPayrollLinesForMember(memberId: number, filters: { from?: Date; to?: Date } = {}): Promise<{ line: PayrollRunLine; run: PayrollRun }[]> {
+    const conditions: SQL[] = [eq(payrollRunLines.memberId, memberId), sql`${payrollRuns.status} <> 'cancelled'`];
+    if (filters.from) conditions.push(gte(payrollRuns.periodEnd, filters.from));
+    if (filters.to) conditions.push(lt(payrollRuns.periodStart, filters.to));
+    return db.select({ line: payrollRunLines, run: payrollRuns })
+      .from(payrollRunLines)
+      .innerJoin(payrollRuns, eq(payrollRunLines.runId, payrollRuns.id))
+      .where(and(...conditions))
+      .orderBy(payrollRuns.periodStart);
+  }
+
+  async getTaskCompletionsBetween(from: Date, to: Date): Promise<{ taskId: number; completedAt: Date }[]> {
+    // Task completion times come from the status changes recorded in the activity log
+    const rows = await db.select({ taskId: activityLog.taskId, completedAt: activityLog.createdAt })
+      .from(activityLog)
+      .where(and(
+        eq(activityLog.action, "status_changed"),
+        sql`${activityLog.details}->>'to' = 'COMPLETED'`,
+        gte(activityLog.createdAt, from),
+        lt(activityLog.createdAt, to),
+      ))
+      .orderBy(activityLog.createdAt);
+    return rows.filter((r): r is { taskId: number; completedAt: Date } => r.taskId != null && r.completedAt != null);
+  }
+
+  async getTimeEntriesBetween(fromDate: string, toDate: string): Promise<TimeEntry[]> {
+    // Entry dates are YYYY-MM-DD strings; toDate is exclusive
+    return db.select().from(timeEntries)
+      .where(and(gte(timeEntries.date, fromDate), lt(timeEntries.date, toDate)));
+  }
+
+  // ==================== CONTENT IDEAS (PRE-PRODUCTION APPROVAL) METHODS ====================
+
+  async getContentIdeas(): Promise<ContentIdea[]> {
+    return await db
+      .select()
+      .from(contentIdeas)
       .orderBy(desc(contentIdeas.createdAt));
   }
 
@@ -4888,17 +5932,25 @@ export class DbStorage implements IStorage {
     return created;
   }
 
-  async updateWhiteboardElement(id: number, updates: Partial<InsertWhiteboardElement>): Promise<WhiteboardElement | undefined> {
+  // With expectedVersion, the update only applies if nobody has changed the element since;
+  // undefined is returned both for a missing element and a version conflict
+  async updateWhiteboardElement(id: number, updates: Partial<InsertWhiteboardElement>, expectedVersion?: number): Promise<WhiteboardElement | undefined> {
     const [updated] = await db.update(whiteboardElements)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(whiteboardElements.id, id))
+      .set({ ...updates, version: sql`${whiteboardElements.version} + 1`, updatedAt: new Date() })
+      .where(expectedVersion !== undefined
+        ? and(eq(whiteboardElements.id, id), eq(whiteboardElements.version, expectedVersion))
+        : eq(whiteboardElements.id, id))
       .returning();
     return updated;
   }
 
-  async deleteWhiteboardElement(id: number): Promise<boolean> {
-    await db.delete(whiteboardElements).where(eq(whiteboardElements.id, id));
-    return true;
+  async deleteWhiteboardElement(id: number, expectedVersion?: number): Promise<boolean> {
+    const deleted = await db.delete(whiteboardElements)
+      .where(expectedVersion !== undefined
+        ? and(eq(whiteboardElements.id, id), eq(whiteboardElements.version, expectedVersion))
+        : eq(whiteboardElements.id, id))
+      .returning({ id: whiteboardElements.id });
+    return deleted.length > 0;
   }
 
   async bulkUpdateWhiteboardElements(updates: Array<{ id: number; updates: Partial<InsertWhiteboardElement> }>): Promise<WhiteboardElement[]> {
@@ -4921,14 +5973,28 @@ export class DbStorage implements IStorage {
     return created;
   }
 
-  async updateWhiteboardConnector(id: number, updates: Partial<InsertWhiteboardConnector>): Promise<WhiteboardConnector | undefined> {
-    const [updated] = await db.update(whiteboardConnectors).set(updates).where(eq(whiteboardConnectors.id, id)).returning();
+  async getWhiteboardConnector(id: number): Promise<WhiteboardConnector | undefined> {
+    const [connector] = await db.select().from(whiteboardConnectors).where(eq(whiteboardConnectors.id, id));
+    return connector;
+  }
+
+  async updateWhiteboardConnector(id: number, updates: Partial<InsertWhiteboardConnector>, expectedVersion?: number): Promise<WhiteboardConnector | undefined> {
+    const [updated] = await db.update(whiteboardConnectors)
+      .set({ ...updates, version: sql`${whiteboardConnectors.version} + 1` })
+      .where(expectedVersion !== undefined
+        ? and(eq(whiteboardConnectors.id, id), eq(whiteboardConnectors.version, expectedVersion))
+        : eq(whiteboardConnectors.id, id))
+      .returning();
     return updated;
   }
 
-  async deleteWhiteboardConnector(id: number): Promise<boolean> {
-    await db.delete(whiteboardConnectors).where(eq(whiteboardConnectors.id, id));
-    return true;
+  async deleteWhiteboardConnector(id: number, expectedVersion?: number): Promise<boolean> {
+    const deleted = await db.delete(whiteboardConnectors)
+      .where(expectedVersion !== undefined
+        ? and(eq(whiteboardConnectors.id, id), eq(whiteboardConnectors.version, expectedVersion))
+        : eq(whiteboardConnectors.id, id))
+      .returning({ id: whiteboardConnectors.id });
+    return deleted.length > 0;
   }
 
   // ==================== WHITEBOARD COLLABORATORS ====================
@@ -4937,6 +6003,12 @@ export class DbStorage implements IStorage {
     return db.select().from(whiteboardCollaborators).where(eq(whiteboardCollaborators.whiteboardId, whiteboardId));
   }
 
+  async getWhiteboardCollaborator(whiteboardId: number, userId: string): Promise<WhiteboardCollaborator | undefined> {
+    const [collab] = await db.select().from(whiteboardCollaborators)
+      .where(and(eq(whiteboardCollaborators.whiteboardId, whiteboardId), eq(whiteboardCollaborators.userId, userId)));
+    return collab;
+  }
+
   async getActiveWhiteboardCollaborators(whiteboardId: number): Promise<WhiteboardCollaborator[]> {
     return db.select().from(whiteboardCollaborators)
       .where(and(eq(whiteboardCollaborators.whiteboardId, whiteboardId), eq(whiteboardCollaborators.isActive, true)));
@@ -5079,11 +6151,9 @@ export class DbStorage implements IStorage {
   }
 
   async updateMemberCumulativeRevenue(id: number, amount: number): Promise<DaoMembership | undefined> {
-    const membership = await this.getDaoMembership(id);
-    if (!membership) return undefined;
-    const newTotal = (membership.cumulativeRevenue || 0) + amount;
+    // Increment in SQL so concurrent invoice payments don't overwrite each other
     const [updated] = await db.update(daoMemberships)
-      .set({ cumulativeRevenue: newTotal, updatedAt: new Date() })
+      .set({ cumulativeRevenue: sql`coalesce(${daoMemberships.cumulativeRevenue}, 0) + ${amount}`, updatedAt: new Date() })
       .where(eq(daoMemberships.id, id)).returning();
     return updated;
   }
@@ -5188,6 +6258,70 @@ export class DbStorage implements IStorage {
     return true;
   }
 
+  async pinDaoProjectSplitPolicy(projectId: number, splitPolicyId: number, treasuryContribution: number | null): Promise<DaoProject | undefined> {
+    // Only pins projects that have no policy yet; returns undefined if another request got there first
+    const [updated] = await db.update(daoProjects)
+      .set({ splitPolicyId, treasuryContribution, updatedAt: new Date() })
+      .where(and(eq(daoProjects.id, projectId), isNull(daoProjects.splitPolicyId)))
+      .returning();
+    return updated;
+  }
+
+  // DAO Revenue Split Policies
+  async getDaoRevenueSplitPolicies(policyKey?: string): Promise<DaoRevenueSplitPolicy[]> {
+    return db.select().from(daoRevenueSplitPolicies)
+      .where(policyKey ? eq(daoRevenueSplitPolicies.policyKey, policyKey) : undefined)
+      .orderBy(daoRevenueSplitPolicies.policyKey, desc(daoRevenueSplitPolicies.version));
+  }
+
+  async getDaoRevenueSplitPolicy(id: number): Promise<DaoRevenueSplitPolicy | undefined> {
+    const [policy] = await db.select().from(daoRevenueSplitPolicies).where(eq(daoRevenueSplitPolicies.id, id));
+    return policy;
+  }
+
+  async getLatestDaoRevenueSplitPolicy(policyKey: string): Promise<DaoRevenueSplitPolicy | undefined> {
+    const [policy] = await db.select().from(daoRevenueSplitPolicies)
+      .where(eq(daoRevenueSplitPolicies.policyKey, policyKey))
+      .orderBy(desc(daoRevenueSplitPolicies.version))
+      .limit(1);
+    return policy;
+  }
+
+  async getEffectiveDaoRevenueSplitPolicy(policyKey: string, at: Date): Promise<DaoRevenueSplitPolicy | undefined> {
+    const [policy] = await db.select().from(daoRevenueSplitPolicies)
+      .where(and(
+        eq(daoRevenueSplitPolicies.policyKey, policyKey),
+        lte(daoRevenueSplitPolicies.effectiveFrom, at),
+        or(isNull(daoRevenueSplitPolicies.effectiveTo), gt(daoRevenueSplitPolicies.effectiveTo, at)),
+      ))
+      .orderBy(desc(daoRevenueSplitPolicies.effectiveFrom))
+      .limit(1);
+    return policy;
+  }
+
+  async createDaoRevenueSplitPolicyVersion(policy: InsertDaoRevenueSplitPolicy & { effectiveFrom: Date }, createdBy: string | null): Promise<DaoRevenueSplitPolicy | undefined> {
+    // The unique (policy_key, version) index turns a concurrent version of the same key into a no-op
+    const [created] = await db.insert(daoRevenueSplitPolicies)
+      .values({
+        ...policy,
+        version: sql`(select coalesce(max(${daoRevenueSplitPolicies.version}), 0) + 1 from ${daoRevenueSplitPolicies} where ${daoRevenueSplitPolicies.policyKey} = ${policy.policyKey})`,
+        createdBy,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!created) return undefined;
+
+    // The previous open-ended version ends where this one takes effect
+    await db.update(daoRevenueSplitPolicies)
+      .set({ effectiveTo: created.effectiveFrom })
+      .where(and(
+        eq(daoRevenueSplitPolicies.policyKey, created.policyKey),
+        lt(daoRevenueSplitPolicies.version, created.version),
+        isNull(daoRevenueSplitPolicies.effectiveTo),
+      ));
+    return created;
+  }
+
   // DAO Project Services
   async getDaoProjectServices(projectId: number): Promise<DaoProjectService[]> {
     return db.select().from(daoProjectServices).where(eq(daoProjectServices.projectId, projectId));
@@ -5236,74 +6370,10 @@ export class DbStorage implements IStorage {
     return updated;
   }
 
-  async applyDefaultAttributionTemplate(projectId: number, leadId: number, pmId: number, coreContributors: number[], supportContributors: number[]): Promise<DaoRevenueAttribution[]> {
-    const project = await this.getDaoProject(projectId);
-    if (!project || !project.finalAmount) return [];
-    
-    const results: DaoRevenueAttribution[] = [];
-    const finalAmount = project.finalAmount;
-    
-    // Lead: 30%
-    const leadAttribution = await this.createDaoRevenueAttribution({
-      projectId,
-      membershipId: leadId,
-      roleSlot: "lead",
-      percentAllocation: 30,
-      attributedAmount: Math.round(finalAmount * 0.30),
-    });
-    results.push(leadAttribution);
-    
-    // PM: 15%
-    const pmAttribution = await this.createDaoRevenueAttribution({
-      projectId,
-      membershipId: pmId,
-      roleSlot: "pm",
-      percentAllocation: 15,
-      attributedAmount: Math.round(finalAmount * 0.15),
-    });
-    results.push(pmAttribution);
-    
-    // Core Contributors: 40% split
-    if (coreContributors.length > 0) {
-      const corePercent = 40 / coreContributors.length;
-      for (const memberId of coreContributors) {
-        const coreAttribution = await this.createDaoRevenueAttribution({
-          projectId,
-          membershipId: memberId,
-          roleSlot: "core",
-          percentAllocation: corePercent,
-          attributedAmount: Math.round(finalAmount * (corePercent / 100)),
-        });
-        results.push(coreAttribution);
-      }
-    }
-    
-    // Support Contributors: 10% split
-    if (supportContributors.length > 0) {
-      const supportPercent = 10 / supportContributors.length;
-      for (const memberId of supportContributors) {
-        const supportAttribution = await this.createDaoRevenueAttribution({
-          projectId,
-          membershipId: memberId,
-          roleSlot: "support",
-          percentAllocation: supportPercent,
-          attributedAmount: Math.round(finalAmount * (supportPercent / 100)),
-        });
-        results.push(supportAttribution);
-      }
-    }
-    
-    // Overhead: 5%
-    const overheadAttribution = await this.createDaoRevenueAttribution({
-      projectId,
-      membershipId: leadId, // Assign overhead to lead
-      roleSlot: "overhead",
-      percentAllocation: 5,
-      attributedAmount: Math.round(finalAmount * 0.05),
-    });
-    results.push(overheadAttribution);
-    
-    return results;
+  async getApprovedDaoRevenueAttributionsBetween(from: Date | null, to: Date): Promise<DaoRevenueAttribution[]> {
+    const conditions = [eq(daoRevenueAttributions.isApproved, true), lte(daoRevenueAttributions.approvedAt, to)];
+    if (from) conditions.push(gt(daoRevenueAttributions.approvedAt, from));
+    return db.select().from(daoRevenueAttributions).where(and(...conditions));
   }
 
   // DAO Debriefs
@@ -5350,7 +6420,16 @@ export class DbStorage implements IStorage {
     const treasury = await this.getDaoTreasury();
     if (!treasury) return undefined;
     const [updated] = await db.update(daoTreasury)
-      .set({ balance: treasury.balance + amount, updatedAt: new Date() })
+      .set({ balance: sql`${daoTreasury.balance} + ${amount}`, updatedAt: new Date() })
+      .where(eq(daoTreasury.id, treasury.id)).returning();
+    return updated;
+  }
+
+  async updateDaoTreasurySettings(settings: DaoTreasurySettings): Promise<DaoTreasury | undefined> {
+    const treasury = await this.getDaoTreasury();
+    if (!treasury) return undefined;
+    const [updated] = await db.update(daoTreasury)
+      .set({ ...settings, updatedAt: new Date() })
       .where(eq(daoTreasury.id, treasury.id)).returning();
     return updated;
   }
@@ -5368,19 +6447,22 @@ export class DbStorage implements IStorage {
     return created;
   }
 
-  async recordProjectTreasuryContribution(projectId: number, amount: number, createdBy: string): Promise<DaoTreasuryTransaction> {
+  async recordProjectTreasuryContribution(projectId: number, amount: number, createdBy: string, memo: string): Promise<DaoTreasuryTransaction> {
     return this.createDaoTreasuryTransaction({
       txnType: "project_inflow",
       amount,
       projectId,
-      memo: "15% treasury contribution from project",
+      memo,
       createdBy,
     });
   }
 
   // DAO Bonus Runs
-  async getDaoBonusRuns(): Promise<DaoBonusRun[]> {
-    return db.select().from(daoBonusRuns).orderBy(desc(daoBonusRuns.executedAt));
+  async getDaoBonusRuns(status?: DaoBonusRunStatus): Promise<DaoBonusRun[]> {
+    if (status) {
+      return db.select().from(daoBonusRuns).where(eq(daoBonusRuns.status, status)).orderBy(desc(daoBonusRuns.id));
+    }
+    return db.select().from(daoBonusRuns).orderBy(desc(daoBonusRuns.id));
   }
 
   async getDaoBonusRun(id: number): Promise<DaoBonusRun | undefined> {
@@ -5388,96 +6470,60 @@ export class DbStorage implements IStorage {
     return run;
   }
 
+  async getOpenDaoBonusRuns(): Promise<DaoBonusRun[]> {
+    return db.select().from(daoBonusRuns)
+      .where(inArray(daoBonusRuns.status, ["proposed", "approved"]))
+      .orderBy(daoBonusRuns.id);
+  }
+
+  async getLatestExecutedDaoBonusRun(beforeId?: number): Promise<DaoBonusRun | undefined> {
+    const conditions = [eq(daoBonusRuns.status, "executed")];
+    if (beforeId !== undefined) conditions.push(lt(daoBonusRuns.id, beforeId));
+    const [run] = await db.select().from(daoBonusRuns)
+      .where(and(...conditions))
+      .orderBy(desc(daoBonusRuns.id))
+      .limit(1);
+    return run;
+  }
+
   async createDaoBonusRun(run: InsertDaoBonusRun): Promise<DaoBonusRun> {
     const [created] = await db.insert(daoBonusRuns).values(run).returning();
     return created;
   }
 
+  // Moves a run on only if it is still in one of the expected statuses
+  async transitionDaoBonusRun(id: number, from: DaoBonusRunStatus[], updates: Partial<InsertDaoBonusRun> & { status: DaoBonusRunStatus }): Promise<DaoBonusRun | undefined> {
+    const [updated] = await db.update(daoBonusRuns)
+      .set(updates)
+      .where(and(eq(daoBonusRuns.id, id), inArray(daoBonusRuns.status, from)))
+      .returning();
+    return updated;
+  }
+
   async getDaoBonusRunRecipients(bonusRunId: number): Promise<DaoBonusRunRecipient[]> {
-    return db.select().from(daoBonusRunRecipients).where(eq(daoBonusRunRecipients.bonusRunId, bonusRunId));
+    return db.select().from(daoBonusRunRecipients)
+      .where(eq(daoBonusRunRecipients.bonusRunId, bonusRunId))
+      .orderBy(desc(daoBonusRunRecipients.finalAmount));
   }
 
-  async createDaoBonusRunRecipient(recipient: InsertDaoBonusRunRecipient): Promise<DaoBonusRunRecipient> {
-    const [created] = await db.insert(daoBonusRunRecipients).values(recipient).returning();
-    return created;
+  async createDaoBonusRunRecipients(recipients: InsertDaoBonusRunRecipient[]): Promise<DaoBonusRunRecipient[]> {
+    if (recipients.length === 0) return [];
+    return db.insert(daoBonusRunRecipients).values(recipients).returning();
   }
 
-  async simulateBonusDistribution(): Promise<{ members: { membershipId: number; multiplier: number; share: number }[]; totalToDistribute: number; eligible: boolean }> {
-    const treasury = await this.getDaoTreasury();
-    if (!treasury) {
-      return { members: [], totalToDistribute: 0, eligible: false };
-    }
-    
-    const eligible = treasury.balance >= treasury.bonusTriggerThreshold;
-    if (!eligible) {
-      return { members: [], totalToDistribute: 0, eligible: false };
-    }
-    
-    const memberships = await db.select().from(daoMemberships)
-      .where(isNull(daoMemberships.activeTo));
-    
-    const roles = await this.getDaoRoles();
-    const roleMap = new Map(roles.map(r => [r.id, r]));
-    
-    let totalMultiplier = 0;
-    const memberData: { membershipId: number; multiplier: number }[] = [];
-    
-    for (const member of memberships) {
-      const role = roleMap.get(member.daoRoleId);
-      const multiplier = role?.multiplier || 1.0;
-      totalMultiplier += multiplier;
-      memberData.push({ membershipId: member.id, multiplier });
-    }
-    
-    const totalToDistribute = treasury.balance - treasury.lastBonusTriggerBalance;
-    const members = memberData.map(m => ({
-      ...m,
-      share: Math.round((m.multiplier / totalMultiplier) * totalToDistribute),
-    }));
-    
-    return { members, totalToDistribute, eligible: true };
+  async getDaoBonusRunApprovals(bonusRunId: number): Promise<DaoBonusRunApproval[]> {
+    return db.select().from(daoBonusRunApprovals)
+      .where(eq(daoBonusRunApprovals.bonusRunId, bonusRunId))
+      .orderBy(daoBonusRunApprovals.createdAt);
   }
 
-  async executeBonusDistribution(triggeredBy: string): Promise<DaoBonusRun | undefined> {
-    const simulation = await this.simulateBonusDistribution();
-    if (!simulation.eligible || simulation.members.length === 0) {
-      return undefined;
-    }
-    
-    const treasury = await this.getDaoTreasury();
-    if (!treasury) return undefined;
-    
-    const bonusRun = await this.createDaoBonusRun({
-      treasuryBalanceBefore: treasury.balance,
-      totalDistributed: simulation.totalToDistribute,
-      treasuryBalanceAfter: treasury.balance - simulation.totalToDistribute,
-      recipientCount: simulation.members.length,
-      triggeredBy,
-    });
-    
-    for (const member of simulation.members) {
-      await this.createDaoBonusRunRecipient({
-        bonusRunId: bonusRun.id,
-        membershipId: member.membershipId,
-        multiplier: member.multiplier,
-        baseShare: Math.round(member.share / member.multiplier),
-        finalAmount: member.share,
-      });
-    }
-    
-    await this.createDaoTreasuryTransaction({
-      txnType: "bonus_outflow",
-      amount: -simulation.totalToDistribute,
-      bonusRunId: bonusRun.id,
-      memo: `Bonus distribution to ${simulation.members.length} members`,
-      createdBy: triggeredBy,
-    });
-    
-    await db.update(daoTreasury)
-      .set({ lastBonusTriggerBalance: treasury.balance - simulation.totalToDistribute })
-      .where(eq(daoTreasury.id, treasury.id));
-    
-    return bonusRun;
+  // Returns undefined when the member already voted on the run
+  async createDaoBonusRunApproval(vote: { bonusRunId: number; membershipId: number; userId: string; decision: DaoBonusRunVoteDecision; comment?: string | null }): Promise<DaoBonusRunApproval | undefined> {
+    const [created] = await db.insert(daoBonusRunApprovals)
+      .values(vote)
+      .onConflictDoNothing({ target: [daoBonusRunApprovals.bonusRunId, daoBonusRunApprovals.membershipId] })
+      .returning();
+    return created;
   }
 
   // DAO Invoices
@@ -5507,73 +6553,158 @@ export class DbStorage implements IStorage {
     return updated;
   }
 
-  async markDaoInvoicePaid(id: number, paymentMethod: string, paymentReference?: string): Promise<DaoInvoice | undefined> {
+  async markDaoInvoicePaid(id: number, payment: { paymentMethod: string; paymentReference?: string }, settlement: DaoInvoiceSettlement): Promise<DaoInvoice | undefined> {
+    // Conditional so an invoice is only settled once; returns undefined if it was already paid, cancelled or void
     const [updated] = await db.update(daoInvoices)
       .set({
         status: "paid",
         paidAt: new Date(),
-        paymentMethod,
-        paymentReference,
+        paymentMethod: payment.paymentMethod,
+        paymentReference: payment.paymentReference,
+        ...settlement,
         updatedAt: new Date(),
       })
-      .where(eq(daoInvoices.id, id)).returning();
+      .where(and(
+        eq(daoInvoices.id, id),
+        sql`coalesce(${daoInvoices.status}, 'draft') not in ('paid', 'cancelled', 'void')`,
+      )).returning();
+    return updated;
+  }
+
+  async hasPaidDaoInvoices(projectId: number): Promise<boolean> {
+    const [paid] = await db.select({ id: daoInvoices.id }).from(daoInvoices)
+      .where(and(eq(daoInvoices.projectId, projectId), eq(daoInvoices.status, "paid")))
+      .limit(1);
+    return !!paid;
+  }
+
+  async hasIssuedDaoInvoices(projectId: number): Promise<boolean> {
+    const [issued] = await db.select({ id: daoInvoices.id }).from(daoInvoices)
+      .where(and(eq(daoInvoices.projectId, projectId), sql`${daoInvoices.sequenceNumber} is not null`))
+      .limit(1);
+    return !!issued;
+  }
+
+  async issueDaoInvoiceNumber(id: number, issuedAt: Date): Promise<DaoInvoice | undefined> {
+    // One statement so the sequence only advances when the invoice takes the number: the
+    // invoice row is locked first, and an invoice that already has a number takes none
+    const year = issuedAt.getUTCFullYear();
+    const prefixes = sql.join(
+      Object.entries(daoInvoiceNumberPrefixes).map(([type, prefix]) => sql`when ${type} then ${prefix}`),
+      sql` `,
+    );
+    await db.execute(sql`
+      with target as (
+        select id, coalesce(invoice_type, 'invoice') as invoice_type
+        from dao_invoices
+        where id = ${id} and sequence_number is null
+        for update
+      ), seq as (
+        insert into dao_invoice_sequences (sequence_key, invoice_type, year, last_number, updated_at)
+        select target.invoice_type || ':' || ${year}::text, target.invoice_type, ${year}::int, 1, now() from target
+        on conflict (sequence_key) do update
+          set last_number = dao_invoice_sequences.last_number + 1, updated_at = now()
+        returning invoice_type, last_number
+      )
+      update dao_invoices
+      set sequence_year = ${year},
+          sequence_number = seq.last_number,
+          invoice_number = (case seq.invoice_type ${prefixes} end) || '-' || ${year}::text || '-' || lpad(seq.last_number::text, 4, '0'),
+          issued_at = ${issuedAt.toISOString()}::timestamp,
+          updated_at = now()
+      from seq
+      where dao_invoices.id = ${id}
+    `);
+    return this.getDaoInvoice(id);
+  }
+
+  async voidDaoInvoice(id: number, expectedStatus: DaoInvoiceStatus, reason: string): Promise<DaoInvoice | undefined> {
+    // Conditional on the status the caller checked, so concurrent voids/payments can't both apply
+    const [updated] = await db.update(daoInvoices)
+      .set({ status: "void", voidedAt: new Date(), voidReason: reason, updatedAt: new Date() })
+      .where(and(eq(daoInvoices.id, id), sql`coalesce(${daoInvoices.status}, 'draft') = ${expectedStatus}`))
+      .returning();
+    return updated;
+  }
+
+  async getDaoCreditNotes(invoiceId: number): Promise<DaoInvoice[]> {
+    return db.select().from(daoInvoices)
+      .where(and(eq(daoInvoices.creditedInvoiceId, invoiceId), eq(daoInvoices.invoiceType, "credit_note")))
+      .orderBy(daoInvoices.createdAt);
+  }
+
+  async claimDaoInvoiceCredit(id: number, amount: number, expectedCredited: number): Promise<DaoInvoice | undefined> {
+    // Conditional on the credited total the caller read, so concurrent credit notes can't
+    // both pass the remaining-amount check; undefined if the invoice changed in between
+    const [updated] = await db.update(daoInvoices)
+      .set({ creditedAmount: sql`${daoInvoices.creditedAmount} + ${amount}`, updatedAt: new Date() })
+      .where(and(
+        eq(daoInvoices.id, id),
+        eq(daoInvoices.status, "paid"),
+        eq(daoInvoices.creditedAmount, expectedCredited),
+        sql`${daoInvoices.creditedAmount} + ${amount} <= ${daoInvoices.amount}`,
+      ))
+      .returning();
+    return updated;
+  }
+
+  async releaseDaoInvoiceCredit(id: number, amount: number): Promise<void> {
+    await db.update(daoInvoices)
+      .set({ creditedAmount: sql`${daoInvoices.creditedAmount} - ${amount}`, updatedAt: new Date() })
+      .where(eq(daoInvoices.id, id));
+  }
+
+  async recordDaoInvoiceEmail(id: number, emailedTo: string): Promise<DaoInvoice | undefined> {
+    const [updated] = await db.update(daoInvoices)
+      .set({ emailedAt: new Date(), emailedTo, updatedAt: new Date() })
+      .where(eq(daoInvoices.id, id))
+      .returning();
     return updated;
   }
 
   async generateProjectInvoices(projectId: number, createdBy: string): Promise<DaoInvoice[]> {
     const project = await this.getDaoProject(projectId);
     if (!project || !project.finalAmount) return [];
-    
+
+    // Drafts get their number when issued; phases that already have a live invoice are skipped
+    const existing = await this.getDaoInvoices(projectId);
+    const coveredPhases = new Set(existing
+      .filter(i => i.invoiceType !== "credit_note" && i.status !== "cancelled" && i.status !== "void")
+      .map(i => i.phase));
+
+    const phases: { phase: DaoInvoicePhase; percent: number }[] = [
+      { phase: "deposit", percent: project.depositPercent || 30 },
+      { phase: "midpoint", percent: project.midpointPercent || 40 },
+      { phase: "completion", percent: project.completionPercent || 30 },
+    ];
+
     const invoices: DaoInvoice[] = [];
-    const prefix = `INV-${project.id}-`;
-    
-    // Deposit invoice
-    const depositAmount = Math.round(project.finalAmount * ((project.depositPercent || 30) / 100));
-    const depositInvoice = await this.createDaoInvoice({
-      projectId,
-      invoiceNumber: `${prefix}DEP`,
-      phase: "deposit",
-      amount: depositAmount,
-      status: "draft",
-      createdBy,
-    });
-    invoices.push(depositInvoice);
-    
-    // Midpoint invoice
-    const midpointAmount = Math.round(project.finalAmount * ((project.midpointPercent || 40) / 100));
-    const midpointInvoice = await this.createDaoInvoice({
-      projectId,
-      invoiceNumber: `${prefix}MID`,
-      phase: "midpoint",
-      amount: midpointAmount,
-      status: "draft",
-      createdBy,
-    });
-    invoices.push(midpointInvoice);
-    
-    // Completion invoice
-    const completionAmount = Math.round(project.finalAmount * ((project.completionPercent || 30) / 100));
-    const completionInvoice = await this.createDaoInvoice({
-      projectId,
-      invoiceNumber: `${prefix}FIN`,
-      phase: "completion",
-      amount: completionAmount,
-      status: "draft",
-      createdBy,
-    });
-    invoices.push(completionInvoice);
-    
+    for (const { phase, percent } of phases) {
+      if (coveredPhases.has(phase)) continue;
+      invoices.push(await this.createDaoInvoice({
+        projectId,
+        phase,
+        amount: Math.round(project.finalAmount * (percent / 100)),
+        status: "draft",
+        createdBy,
+      }));
+    }
     return invoices;
   }
 
   // DAO Rank Progressions
-  async getDaoRankProgressions(membershipId?: number): Promise<DaoRankProgression[]> {
-    if (membershipId) {
-      return db.select().from(daoRankProgressions)
-        .where(eq(daoRankProgressions.membershipId, membershipId))
-        .orderBy(desc(daoRankProgressions.promotedAt));
-    }
-    return db.select().from(daoRankProgressions).orderBy(desc(daoRankProgressions.promotedAt));
+  async getDaoRankProgressions(filters: { membershipId?: number; status?: DaoRankProgressionStatus } = {}): Promise<DaoRankProgression[]> {
+    const conditions: SQL[] = [];
+    if (filters.membershipId) conditions.push(eq(daoRankProgressions.membershipId, filters.membershipId));
+    if (filters.status) conditions.push(eq(daoRankProgressions.status, filters.status));
+    return db.select().from(daoRankProgressions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(daoRankProgressions.promotedAt));
+  }
+
+  async getDaoRankProgression(id: number): Promise<DaoRankProgression | undefined> {
+    const [progression] = await db.select().from(daoRankProgressions).where(eq(daoRankProgressions.id, id));
+    return progression;
   }
 
   async createDaoRankProgression(progression: InsertDaoRankProgression): Promise<DaoRankProgression> {
@@ -5581,36 +6712,33 @@ export class DbStorage implements IStorage {
     return created;
   }
 
-  async checkAndPromoteMember(membershipId: number, approvedBy?: string): Promise<DaoRankProgression | undefined> {
-    const membership = await this.getDaoMembership(membershipId);
-    if (!membership) return undefined;
-    
-    const currentRole = await this.getDaoRole(membership.daoRoleId);
-    if (!currentRole) return undefined;
-    
-    const roles = await this.getDaoRoles();
-    const nextRole = roles.find(r => r.tier === currentRole.tier + 1);
-    
-    if (!nextRole) return undefined; // Already at max tier
-    
-    const cumulativeRevenue = membership.cumulativeRevenue || 0;
-    if (cumulativeRevenue < nextRole.cumulativeRevenueRequired) {
-      return undefined; // Not enough revenue
-    }
-    
-    // Create progression record
-    const progression = await this.createDaoRankProgression({
-      membershipId,
-      fromRoleId: currentRole.id,
-      toRoleId: nextRole.id,
-      cumulativeRevenueAtPromotion: cumulativeRevenue,
-      approvedBy,
-    });
-    
-    // Update membership with new role
-    await this.updateDaoMembership(membershipId, { daoRoleId: nextRole.id });
-    
-    return progression;
+  async transitionDaoRankProgression(id: number, from: DaoRankProgressionStatus, updates: Partial<InsertDaoRankProgression> & { status: DaoRankProgressionStatus }): Promise<DaoRankProgression | undefined> {
+    const [updated] = await db.update(daoRankProgressions)
+      .set(updates)
+      .where(and(eq(daoRankProgressions.id, id), eq(daoRankProgressions.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async updateDaoMembershipRank(id: number, expectedRoleId: number, updates: { daoRoleId: number; probationSince: Date | null }): Promise<DaoMembership | undefined> {
+    // Conditional on the role the change was evaluated against, so a stale proposal can't apply
+    const [updated] = await db.update(daoMemberships)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(daoMemberships.id, id), eq(daoMemberships.daoRoleId, expectedRoleId)))
+      .returning();
+    return updated;
+  }
+
+  async getDaoRankCriteria(): Promise<DaoRankCriteria[]> {
+    return db.select().from(daoRankCriteria);
+  }
+
+  async upsertDaoRankCriteria(criteria: InsertDaoRankCriteria): Promise<DaoRankCriteria> {
+    const { daoRoleId, ...rules } = criteria;
+    const [saved] = await db.insert(daoRankCriteria).values(criteria)
+      .onConflictDoUpdate({ target: daoRankCriteria.daoRoleId, set: { ...rules, updatedAt: new Date() } })
+      .returning();
+    return saved;
   }
 
   // DAO Project Links
@@ -5808,6 +6936,403 @@ export class DbStorage implements IStorage {
       .orderBy(desc(daoSafeTxHistory.submittedAt));
   }
 
+  async getDaoSafeTxHistorySince(walletId: number, since: Date): Promise<DaoSafeTxHistory[]> {
+    return db.select().from(daoSafeTxHistory)
+      .where(and(eq(daoSafeTxHistory.walletId, walletId), gte(daoSafeTxHistory.submittedAt, since)))
+      .orderBy(desc(daoSafeTxHistory.nonce));
+  }
+
+  async getDaoSafeTxHistoryForChain(chainId: number): Promise<DaoSafeTxHistory[]> {
+    return db.select().from(daoSafeTxHistory).where(eq(daoSafeTxHistory.chainId, chainId));
+  }
+
+  async updateDaoSafeTxDecoding(id: number, decoding: { summary: string | null; decodedActions: DecodedSafeAction[] | null; txType?: SafeTxType }): Promise<void> {
+    await db.update(daoSafeTxHistory).set(decoding).where(eq(daoSafeTxHistory.id, id));
+  }
+
+  // Only the first caller gets true, so concurrent syncs notify signers once
+  async claimDaoSafeTxSignerNotification(id: number): Promise<boolean> {
+    const claimed = await db.update(daoSafeTxHistory)
+      .set({ signersNotifiedAt: new Date() })
+      .where(and(eq(daoSafeTxHistory.id, id), isNull(daoSafeTxHistory.signersNotifiedAt)))
+      .returning({ id: daoSafeTxHistory.id });
+    return claimed.length > 0;
+  }
+
+  // Contract ABI registry
+  async getDaoContractAbis(chainId?: number): Promise<DaoContractAbi[]> {
+    return db.select().from(daoContractAbis)
+      .where(chainId ? eq(daoContractAbis.chainId, chainId) : undefined)
+      .orderBy(daoContractAbis.name);
+  }
+
+  async getDaoContractAbi(id: number): Promise<DaoContractAbi | undefined> {
+    const [abi] = await db.select().from(daoContractAbis).where(eq(daoContractAbis.id, id));
+    return abi;
+  }
+
+  async upsertDaoContractAbi(abi: InsertDaoContractAbi): Promise<DaoContractAbi> {
+    const [saved] = await db.insert(daoContractAbis).values(abi)
+      .onConflictDoUpdate({
+        target: [daoContractAbis.chainId, daoContractAbis.contractAddress],
+        set: {
+          name: abi.name,
+          abi: abi.abi,
+          tokenSymbol: abi.tokenSymbol ?? null,
+          tokenDecimals: abi.tokenDecimals ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteDaoContractAbi(id: number): Promise<DaoContractAbi | undefined> {
+    const [deleted] = await db.delete(daoContractAbis).where(eq(daoContractAbis.id, id)).returning();
+    return deleted;
+  }
+
+  // Safe Payout Batches
+  async getDaoPayoutBatches(walletId?: number): Promise<DaoPayoutBatch[]> {
+    if (walletId) {
+      return db.select().from(daoPayoutBatches)
+        .where(eq(daoPayoutBatches.walletId, walletId))
+        .orderBy(desc(daoPayoutBatches.createdAt));
+    }
+    return db.select().from(daoPayoutBatches).orderBy(desc(daoPayoutBatches.createdAt));
+  }
+
+  async getDaoPayoutBatch(id: number): Promise<DaoPayoutBatch | undefined> {
+    const [batch] = await db.select().from(daoPayoutBatches).where(eq(daoPayoutBatches.id, id));
+    return batch;
+  }
+
+  async getOpenDaoPayoutBatches(walletId: number): Promise<DaoPayoutBatch[]> {
+    return db.select().from(daoPayoutBatches)
+      .where(and(eq(daoPayoutBatches.walletId, walletId), inArray(daoPayoutBatches.status, ["draft", "proposed"])));
+  }
+
+  async createDaoPayoutBatch(batch: InsertDaoPayoutBatch): Promise<DaoPayoutBatch> {
+    const [created] = await db.insert(daoPayoutBatches).values(batch).returning();
+    return created;
+  }
+
+  // Moves a batch on only if it is still in one of the expected statuses
+  async transitionDaoPayoutBatch(id: number, from: DaoPayoutBatchStatus[], updates: Partial<InsertDaoPayoutBatch> & { status: DaoPayoutBatchStatus }): Promise<DaoPayoutBatch | undefined> {
+    const [updated] = await db.update(daoPayoutBatches)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(daoPayoutBatches.id, id), inArray(daoPayoutBatches.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async deleteDaoPayoutBatch(id: number): Promise<void> {
+    await db.delete(daoPayoutBatches).where(eq(daoPayoutBatches.id, id));
+  }
+
+  async getDaoPayoutItems(batchId: number): Promise<DaoPayoutItem[]> {
+    return db.select().from(daoPayoutItems)
+      .where(eq(daoPayoutItems.batchId, batchId))
+      .orderBy(daoPayoutItems.position);
+  }
+
+  async getDaoPayoutItemsForSources(sourceType: DaoPayoutSourceType, sourceIds: number[]): Promise<DaoPayoutItem[]> {
+    if (sourceIds.length === 0) return [];
+    return db.select().from(daoPayoutItems)
+      .where(and(eq(daoPayoutItems.sourceType, sourceType), inArray(daoPayoutItems.sourceId, sourceIds)));
+  }
+
+  // Skips sources that are already in another batch; callers compare the count
+  async createDaoPayoutItems(items: InsertDaoPayoutItem[]): Promise<DaoPayoutItem[]> {
+    if (items.length === 0) return [];
+    return db.insert(daoPayoutItems)
+      .values(items)
+      .onConflictDoNothing({ target: [daoPayoutItems.sourceType, daoPayoutItems.sourceId] })
+      .returning();
+  }
+
+  async deleteDaoPayoutItems(batchId: number): Promise<void> {
+    await db.delete(daoPayoutItems).where(eq(daoPayoutItems.batchId, batchId));
+  }
+
+  async linkDaoPayoutItems(batchId: number, safeTxHash: string | null, paidAt: Date | null): Promise<DaoPayoutItem[]> {
+    return db.update(daoPayoutItems)
+      .set({ safeTxHash, paidAt })
+      .where(eq(daoPayoutItems.batchId, batchId))
+      .returning();
+  }
+
+  async getDaoBonusRunRecipientsByIds(ids: number[]): Promise<DaoBonusRunRecipient[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(daoBonusRunRecipients).where(inArray(daoBonusRunRecipients.id, ids));
+  }
+
+  async linkBonusRecipientPayouts(ids: number[], safeTxHash: string | null, paidAt: Date | null): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(daoBonusRunRecipients)
+      .set({ safeTxHash, paidAt })
+      .where(inArray(daoBonusRunRecipients.id, ids));
+  }
+
+  async linkPaymentRequestPayouts(ids: number[], safeTxHash: string | null, paidAt: Date | null): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(paymentRequests)
+      .set({ safeTxHash, paidAt, updatedAt: new Date() })
+      .where(inArray(paymentRequests.id, ids));
+  }
+
+  // Treasury Reconciliation
+  async getDaoTreasuryTransaction(id: number): Promise<DaoTreasuryTransaction | undefined> {
+    const [txn] = await db.select().from(daoTreasuryTransactions).where(eq(daoTreasuryTransactions.id, id));
+    return txn;
+  }
+
+  async getUnreconciledDaoTreasuryTransactions(txnTypes: TreasuryTxnType[]): Promise<DaoTreasuryTransaction[]> {
+    if (txnTypes.length === 0) return [];
+    return db.select().from(daoTreasuryTransactions)
+      .where(and(
+        inArray(daoTreasuryTransactions.txnType, txnTypes),
+        sql`NOT EXISTS (SELECT 1 FROM ${daoReconciliationLinks} WHERE ${daoReconciliationLinks.ledgerTransactionId} = ${daoTreasuryTransactions.id})`,
+      ))
+      .orderBy(daoTreasuryTransactions.createdAt);
+  }
+
+  async getDaoTreasuryTransactionsBetween(start: Date, end: Date): Promise<DaoTreasuryTransaction[]> {
+    return db.select().from(daoTreasuryTransactions)
+      .where(and(gte(daoTreasuryTransactions.createdAt, start), lt(daoTreasuryTransactions.createdAt, end)))
+      .orderBy(daoTreasuryTransactions.createdAt);
+  }
+
+  async getDaoTreasuryLedgerSummary(start: Date, end: Date): Promise<{ openingCents: number; inflowCents: number; outflowCents: number }> {
+    const inPeriod = sql`${daoTreasuryTransactions.createdAt} >= ${start} AND ${daoTreasuryTransactions.createdAt} < ${end}`;
+    const [summary] = await db.select({
+      openingCents: sql<number>`COALESCE(SUM(${daoTreasuryTransactions.amount}) FILTER (WHERE ${daoTreasuryTransactions.createdAt} < ${start}), 0)::int`,
+      inflowCents: sql<number>`COALESCE(SUM(${daoTreasuryTransactions.amount}) FILTER (WHERE ${inPeriod} AND ${daoTreasuryTransactions.amount} > 0), 0)::int`,
+      outflowCents: sql<number>`COALESCE(SUM(${daoTreasuryTransactions.amount}) FILTER (WHERE ${inPeriod} AND ${daoTreasuryTransactions.amount} < 0), 0)::int`,
+    }).from(daoTreasuryTransactions);
+    return summary ?? { openingCents: 0, inflowCents: 0, outflowCents: 0 };
+  }
+
+  async getDaoSafeTx(id: number): Promise<DaoSafeTxHistory | undefined> {
+    const [tx] = await db.select().from(daoSafeTxHistory).where(eq(daoSafeTxHistory.id, id));
+    return tx;
+  }
+
+  async getUnreconciledDaoSafeTxs(): Promise<DaoSafeTxHistory[]> {
+    return db.select().from(daoSafeTxHistory)
+      .where(and(
+        eq(daoSafeTxHistory.status, "executed"),
+        sql`NOT EXISTS (SELECT 1 FROM ${daoReconciliationLinks} WHERE ${daoReconciliationLinks.safeTxHistoryId} = ${daoSafeTxHistory.id})`,
+      ))
+      .orderBy(daoSafeTxHistory.executedAt);
+  }
+
+  async getDaoReconciliationLinks(limit: number = 100): Promise<DaoReconciliationLink[]> {
+    return db.select().from(daoReconciliationLinks)
+      .orderBy(desc(daoReconciliationLinks.createdAt))
+      .limit(limit);
+  }
+
+  async getDaoReconciliationLink(id: number): Promise<DaoReconciliationLink | undefined> {
+    const [link] = await db.select().from(daoReconciliationLinks).where(eq(daoReconciliationLinks.id, id));
+    return link;
+  }
+
+  async getDaoReconciliationLinksForSafeTx(safeTxHistoryId: number): Promise<DaoReconciliationLink[]> {
+    return db.select().from(daoReconciliationLinks)
+      .where(eq(daoReconciliationLinks.safeTxHistoryId, safeTxHistoryId));
+  }
+
+  async createDaoReconciliationLinks(links: InsertDaoReconciliationLink[]): Promise<DaoReconciliationLink[]> {
+    if (links.length === 0) return [];
+    // A ledger entry that was linked concurrently keeps its first link
+    return db.insert(daoReconciliationLinks).values(links).onConflictDoNothing().returning();
+  }
+
+  async deleteDaoReconciliationLink(id: number): Promise<boolean> {
+    const deleted = await db.delete(daoReconciliationLinks).where(eq(daoReconciliationLinks.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getDaoReconciliationPeriods(): Promise<DaoReconciliationPeriod[]> {
+    return db.select().from(daoReconciliationPeriods).orderBy(desc(daoReconciliationPeriods.periodStart));
+  }
+
+  async getDaoReconciliationPeriod(id: number): Promise<DaoReconciliationPeriod | undefined> {
+    const [period] = await db.select().from(daoReconciliationPeriods).where(eq(daoReconciliationPeriods.id, id));
+    return period;
+  }
+
+  async getLatestDaoReconciliationPeriod(): Promise<DaoReconciliationPeriod | undefined> {
+    const [period] = await db.select().from(daoReconciliationPeriods)
+      .orderBy(desc(daoReconciliationPeriods.periodEnd))
+      .limit(1);
+    return period;
+  }
+
+  async createDaoReconciliationPeriod(period: InsertDaoReconciliationPeriod): Promise<DaoReconciliationPeriod | undefined> {
+    const [created] = await db.insert(daoReconciliationPeriods).values(period).onConflictDoNothing().returning();
+    return created;
+  }
+
+  // Treasury History
+  async getDaoTokenPrices(options: { symbols?: string[]; from?: string; to?: string } = {}): Promise<DaoTokenPrice[]> {
+    const conditions: SQL[] = [];
+    if (options.symbols) {
+      if (options.symbols.length === 0) return [];
+      conditions.push(inArray(daoTokenPrices.tokenSymbol, options.symbols));
+    }
+    if (options.from) conditions.push(gte(daoTokenPrices.priceDate, options.from));
+    if (options.to) conditions.push(lte(daoTokenPrices.priceDate, options.to));
+    return db.select().from(daoTokenPrices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(daoTokenPrices.tokenSymbol, daoTokenPrices.priceDate);
+  }
+
+  async upsertDaoTokenPrices(prices: InsertDaoTokenPrice[]): Promise<DaoTokenPrice[]> {
+    if (prices.length === 0) return [];
+    return db.insert(daoTokenPrices).values(prices)
+      .onConflictDoUpdate({
+        target: [daoTokenPrices.tokenSymbol, daoTokenPrices.priceDate],
+        set: {
+          usdPrice: sql`excluded.usd_price`,
+          source: sql`excluded.source`,
+          createdBy: sql`excluded.created_by`,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  async deleteDaoTokenPrice(id: number): Promise<DaoTokenPrice | undefined> {
+    const [deleted] = await db.delete(daoTokenPrices).where(eq(daoTokenPrices.id, id)).returning();
+    return deleted;
+  }
+
+  async getDaoSafeBalanceSnapshots(options: { walletId?: number; symbols?: string[]; from?: string; to?: string } = {}): Promise<DaoSafeBalanceSnapshot[]> {
+    const conditions: SQL[] = [];
+    if (options.walletId) conditions.push(eq(daoSafeBalanceSnapshots.walletId, options.walletId));
+    if (options.symbols) {
+      if (options.symbols.length === 0) return [];
+      conditions.push(inArray(daoSafeBalanceSnapshots.tokenSymbol, options.symbols));
+    }
+    if (options.from) conditions.push(gte(daoSafeBalanceSnapshots.snapshotDate, options.from));
+    if (options.to) conditions.push(lte(daoSafeBalanceSnapshots.snapshotDate, options.to));
+    return db.select().from(daoSafeBalanceSnapshots)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(daoSafeBalanceSnapshots.snapshotDate, daoSafeBalanceSnapshots.walletId);
+  }
+
+  async upsertDaoSafeBalanceSnapshots(snapshots: InsertDaoSafeBalanceSnapshot[]): Promise<DaoSafeBalanceSnapshot[]> {
+    if (snapshots.length === 0) return [];
+    return db.insert(daoSafeBalanceSnapshots).values(snapshots)
+      .onConflictDoUpdate({
+        target: [daoSafeBalanceSnapshots.walletId, daoSafeBalanceSnapshots.tokenKey, daoSafeBalanceSnapshots.snapshotDate],
+        set: {
+          tokenSymbol: sql`excluded.token_symbol`,
+          tokenDecimals: sql`excluded.token_decimals`,
+          balance: sql`excluded.balance`,
+          units: sql`excluded.units`,
+          usdPrice: sql`excluded.usd_price`,
+          balanceUsd: sql`excluded.balance_usd`,
+          priceSource: sql`excluded.price_source`,
+          fromCache: sql`excluded.from_cache`,
+          takenAt: new Date(),
+        },
+      })
+      .returning();
+  }
+
+  async updateDaoSafeBalanceSnapshotValue(id: number, value: Pick<InsertDaoSafeBalanceSnapshot, "usdPrice" | "balanceUsd" | "priceSource">): Promise<void> {
+    await db.update(daoSafeBalanceSnapshots).set(value).where(eq(daoSafeBalanceSnapshots.id, id));
+  }
+
+  async getExecutedDaoSafeTxsBetween(start: Date, end: Date): Promise<DaoSafeTxHistory[]> {
+    return db.select().from(daoSafeTxHistory)
+      .where(and(
+        eq(daoSafeTxHistory.status, "executed"),
+        gte(daoSafeTxHistory.executedAt, start),
+        lt(daoSafeTxHistory.executedAt, end),
+      ))
+      .orderBy(daoSafeTxHistory.executedAt);
+  }
+
+  // Accounting Exports
+  async getAccountingAccountMappings(): Promise<AccountingAccountMapping[]> {
+    return db.select().from(accountingAccountMappings);
+  }
+
+  async upsertAccountingAccountMapping(mapping: { accountKey: AccountingAccountKey; accountCode: string; accountName: string; updatedBy: string }): Promise<AccountingAccountMapping> {
+    const [saved] = await db.insert(accountingAccountMappings)
+      .values(mapping)
+      .onConflictDoUpdate({
+        target: accountingAccountMappings.accountKey,
+        set: { accountCode: mapping.accountCode, accountName: mapping.accountName, updatedBy: mapping.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAccountingAccountMapping(accountKey: AccountingAccountKey): Promise<boolean> {
+    const deleted = await db.delete(accountingAccountMappings).where(eq(accountingAccountMappings.accountKey, accountKey)).returning();
+    return deleted.length > 0;
+  }
+
+  async getAccountingExports(): Promise<Omit<AccountingExport, "content">[]> {
+    const { content, ...columns } = getTableColumns(accountingExports);
+    return db.select(columns).from(accountingExports).orderBy(desc(accountingExports.createdAt));
+  }
+
+  async getAccountingExport(id: number): Promise<AccountingExport | undefined> {
+    const [accountingExport] = await db.select().from(accountingExports).where(eq(accountingExports.id, id));
+    return accountingExport;
+  }
+
+  async createAccountingExport(accountingExport: InsertAccountingExport): Promise<AccountingExport> {
+    const [created] = await db.insert(accountingExports).values(accountingExport).returning();
+    return created;
+  }
+
+  async getDaoInvoicesPostedBetween(start: Date, end: Date): Promise<DaoInvoice[]> {
+    return db.select().from(daoInvoices)
+      .where(or(
+        and(gte(daoInvoices.issuedAt, start), lt(daoInvoices.issuedAt, end)),
+        and(gte(daoInvoices.paidAt, start), lt(daoInvoices.paidAt, end)),
+        and(gte(daoInvoices.voidedAt, start), lt(daoInvoices.voidedAt, end)),
+      ))
+      .orderBy(daoInvoices.issuedAt);
+  }
+
+  async getCreditLedgerEntriesBetween(start: Date, end: Date): Promise<{ entry: CreditLedgerEntry; transaction: CreditTransaction }[]> {
+    return db.select({ entry: creditLedgerEntries, transaction: creditTransactions })
+      .from(creditLedgerEntries)
+      .innerJoin(creditTransactions, eq(creditLedgerEntries.transactionId, creditTransactions.id))
+      .where(and(gte(creditTransactions.createdAt, start), lt(creditTransactions.createdAt, end)))
+      .orderBy(creditTransactions.createdAt, creditTransactions.id);
+  }
+
+  async getCompletedTeamPaymentsBetween(start: Date, end: Date): Promise<TeamPaymentHistory[]> {
+    return db.select().from(teamPaymentHistory)
+      .where(and(
+        eq(teamPaymentHistory.status, "completed"),
+        gte(teamPaymentHistory.paymentDate, start),
+        lt(teamPaymentHistory.paymentDate, end),
+      ))
+      .orderBy(teamPaymentHistory.paymentDate);
+  }
+
+  async getPaymentRequestsApprovedOrPaidBetween(start: Date, end: Date): Promise<PaymentRequest[]> {
+    return db.select().from(paymentRequests)
+      .where(and(
+        eq(paymentRequests.status, "approved"),
+        or(
+          and(gte(paymentRequests.reviewedAt, start), lt(paymentRequests.reviewedAt, end)),
+          and(gte(paymentRequests.paidAt, start), lt(paymentRequests.paidAt, end)),
+        ),
+      ))
+      .orderBy(paymentRequests.reviewedAt);
+  }
+
   // Safe Signer Mapping methods
   async getDaoSafeSigners(walletId: number): Promise<DaoSafeSigner[]> {
     return db.select().from(daoSafeSigners)
@@ -6031,6 +7556,12 @@ export class DbStorage implements IStorage {
     return db.select().from(daoPeerFeedback).where(eq(daoPeerFeedback.toMembershipId, membershipId));
   }
 
+  async getDaoPeerFeedbackBetween(from: Date | null, to: Date): Promise<DaoPeerFeedback[]> {
+    const conditions = [lte(daoPeerFeedback.createdAt, to)];
+    if (from) conditions.push(gt(daoPeerFeedback.createdAt, from));
+    return db.select().from(daoPeerFeedback).where(and(...conditions));
+  }
+
   // DAO Project Opportunities
   async getDaoProjectOpportunities(status?: string): Promise<DaoProjectOpportunity[]> {
     if (status) {
@@ -6215,7 +7746,7 @@ export class DbStorage implements IStorage {
   // ==================== TEAM BOARDS & ENHANCED TASKS IMPLEMENTATIONS ====================
 
   // Team Boards methods
-  async getTeamBoards(userId: string, userRole: string): Promise<TeamBoard[]> {
+  async getTeamBoards(userId: string, userRole: string | null): Promise<TeamBoard[]> {
     // Get boards based on:
     // 1. Owned by user (private boards)
     // 2. User is a member of (shared with user)
@@ -6305,7 +7836,7 @@ export class DbStorage implements IStorage {
     return true;
   }
 
-  async canAccessBoard(boardId: number, userId: string, userRole: string): Promise<boolean> {
+  async canAccessBoard(boardId: number, userId: string, userRole: string | null): Promise<boolean> {
     const board = await this.getTeamBoard(boardId);
     if (!board) return false;
     
@@ -6359,6 +7890,11 @@ export class DbStorage implements IStorage {
     return task;
   }
 
+  async getTeamTasksByIds(ids: number[]): Promise<TeamTask[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(teamTasks).where(inArray(teamTasks.id, ids));
+  }
+
   async getTeamTasksByAssignee(userId: string): Promise<TeamTask[]> {
     return db.select().from(teamTasks)
       .where(and(
@@ -6574,17 +8110,37 @@ export class DbStorage implements IStorage {
 
   // Task Dependencies
   async getTaskDependencies(taskType: string, taskId: number): Promise<TaskDependency[]> {
+    // Links can cross task types, so match each end against its own type
     return db.select().from(taskDependencies)
-      .where(and(
-        eq(taskDependencies.taskType, taskType),
-        or(
-          eq(taskDependencies.sourceTaskId, taskId),
-          eq(taskDependencies.targetTaskId, taskId)
-        )
+      .where(or(
+        and(eq(taskDependencies.taskType, taskType), eq(taskDependencies.sourceTaskId, taskId)),
+        and(eq(taskDependencies.targetTaskType, taskType), eq(taskDependencies.targetTaskId, taskId))
       ))
       .orderBy(desc(taskDependencies.createdAt));
   }
 
+  async getTaskDependency(id: number): Promise<TaskDependency | undefined> {
+    const [dependency] = await db.select().from(taskDependencies).where(eq(taskDependencies.id, id));
+    return dependency;
+  }
+
+  async getTaskDependenciesByType(dependencyTypes: DependencyType[]): Promise<TaskDependency[]> {
+    return db.select().from(taskDependencies)
+      .where(inArray(taskDependencies.dependencyType, dependencyTypes));
+  }
+
+  async findTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency | undefined> {
+    const [existing] = await db.select().from(taskDependencies)
+      .where(and(
+        eq(taskDependencies.taskType, dependency.taskType ?? "content"),
+        eq(taskDependencies.sourceTaskId, dependency.sourceTaskId),
+        eq(taskDependencies.targetTaskType, dependency.targetTaskType ?? "content"),
+        eq(taskDependencies.targetTaskId, dependency.targetTaskId),
+        eq(taskDependencies.dependencyType, dependency.dependencyType ?? "blocks")
+      ));
+    return existing;
+  }
+
   async createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency> {
     const [created] = await db.insert(taskDependencies).values(dependency).returning();
     return created;
@@ -6817,6 +8373,11 @@ export class DbStorage implements IStorage {
       .orderBy(taskCustomFields.order);
   }
 
+  async getTaskCustomField(id: number): Promise<TaskCustomField | undefined> {
+    const [field] = await db.select().from(taskCustomFields).where(eq(taskCustomFields.id, id));
+    return field;
+  }
+
   async createTaskCustomField(field: InsertTaskCustomField): Promise<TaskCustomField> {
     const [created] = await db.insert(taskCustomFields).values(field).returning();
     return created;
@@ -6844,6 +8405,18 @@ export class DbStorage implements IStorage {
       ));
   }
 
+  async getTaskCustomFieldValuesForTasks(taskType: string, taskIds: number[], customFieldIds?: number[]): Promise<TaskCustomFieldValue[]> {
+    if (taskIds.length === 0 || customFieldIds?.length === 0) return [];
+    const conditions = [
+      eq(taskCustomFieldValues.taskType, taskType),
+      inArray(taskCustomFieldValues.taskId, taskIds),
+    ];
+    if (customFieldIds) {
+      conditions.push(inArray(taskCustomFieldValues.customFieldId, customFieldIds));
+    }
+    return db.select().from(taskCustomFieldValues).where(and(...conditions));
+  }
+
   async upsertTaskCustomFieldValue(value: InsertTaskCustomFieldValue): Promise<TaskCustomFieldValue> {
     // Check if value exists
     const [existing] = await db.select().from(taskCustomFieldValues)
@@ -7157,6 +8730,275 @@ export class DbStorage implements IStorage {
       .returning();
     return updated;
   }
+
+  async getDailyDigest(id: number): Promise<DailyDigest | undefined> {
+    const [digest] = await db.select().from(dailyDigests).where(eq(dailyDigests.id, id));
+    return digest;
+  }
+
+  async getDailyDigestByDate(userId: string, digestDate: string): Promise<DailyDigest | undefined> {
+    const [digest] = await db.select().from(dailyDigests)
+      .where(and(eq(dailyDigests.userId, userId), eq(dailyDigests.digestDate, digestDate)));
+    return digest;
+  }
+
+  async markDailyDigestEmailed(id: number): Promise<DailyDigest | undefined> {
+    const [updated] = await db.update(dailyDigests)
+      .set({ emailSentAt: new Date() })
+      .where(eq(dailyDigests.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getEnabledChatDigestPreferences(): Promise<ChatDigestPreferences[]> {
+    return db.select().from(chatDigestPreferences)
+      .where(or(eq(chatDigestPreferences.isEnabled, true), isNull(chatDigestPreferences.isEnabled)));
+  }
+
+  async getInboundChatMessagesBetween(start: Date, end: Date): Promise<Array<{ message: ChatMessage; conversation: ChatConversation; contact: ChatContact; platform: ChatPlatform }>> {
+    return db
+      .select({
+        message: chatMessages,
+        conversation: chatConversations,
+        contact: chatContacts,
+        platform: chatPlatforms,
+      })
+      .from(chatMessages)
+      .innerJoin(chatConversations, eq(chatMessages.conversationId, chatConversations.id))
+      .innerJoin(chatContacts, eq(chatConversations.contactId, chatContacts.id))
+      .innerJoin(chatPlatforms, eq(chatConversations.platformId, chatPlatforms.id))
+      .where(and(
+        eq(chatMessages.direction, "inbound"),
+        gte(chatMessages.sentAt, start),
+        lt(chatMessages.sentAt, end)
+      ))
+      .orderBy(desc(chatMessages.sentAt));
+  }
+
+  // ==================== BACKGROUND JOBS ====================
+
+  // Scheduled Jobs
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs).orderBy(scheduledJobs.name);
+  }
+
+  async getScheduledJob(id: number): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.id, id));
+    return job;
+  }
+
+  async getScheduledJobByName(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job;
+  }
+
+  async createScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob> {
+    const [created] = await db.insert(scheduledJobs).values(job).returning();
+    return created;
+  }
+
+  async updateScheduledJob(id: number, updates: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [updated] = await db.update(scheduledJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduledJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Atomically lease the earliest due job; SKIP LOCKED keeps concurrent instances from picking the same row
+  async claimDueScheduledJob(instanceId: string, leaseSeconds: number): Promise<ScheduledJob | undefined> {
+    const [claimed] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: instanceId,
+        lockedUntil: sql`NOW() + ${leaseSeconds} * INTERVAL '1 second'`,
+      })
+      .where(eq(scheduledJobs.id, sql`(
+        SELECT ${scheduledJobs.id} FROM ${scheduledJobs}
+        WHERE ${scheduledJobs.status} = 'active'
+          AND ${scheduledJobs.nextRunAt} <= NOW()
+          AND (${scheduledJobs.lockedUntil} IS NULL OR ${scheduledJobs.lockedUntil} < NOW())
+        ORDER BY ${scheduledJobs.nextRunAt}
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return claimed;
+  }
+
+  async claimScheduledJob(id: number, instanceId: string, leaseSeconds: number): Promise<ScheduledJob | undefined> {
+    const [claimed] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: instanceId,
+        lockedUntil: sql`NOW() + ${leaseSeconds} * INTERVAL '1 second'`,
+      })
+      .where(and(
+        eq(scheduledJobs.id, id),
+        or(isNull(scheduledJobs.lockedUntil), sql`${scheduledJobs.lockedUntil} < NOW()`)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async extendScheduledJobLease(id: number, instanceId: string, leaseSeconds: number): Promise<void> {
+    await db.update(scheduledJobs)
+      .set({ lockedUntil: sql`NOW() + ${leaseSeconds} * INTERVAL '1 second'` })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, instanceId)));
+  }
+
+  async releaseScheduledJob(id: number, instanceId: string, outcome: {
+    status?: ScheduledJobStatus;
+    nextRunAt: Date | null;
+    lastRunStatus: JobRunStatus;
+    lastError: string | null;
+    attempts: number;
+  }): Promise<ScheduledJob | undefined> {
+    const { status, ...rest } = outcome;
+    const [released] = await db.update(scheduledJobs)
+      .set({
+        ...rest,
+        // Decided against the current row, not the claimed copy, so a pause made mid-run sticks
+        ...(status
+          ? { status: sql`CASE WHEN ${scheduledJobs.status} = 'paused' THEN ${scheduledJobs.status} ELSE ${status} END` }
+          : {}),
+        lastRunAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(scheduledJobs.id, id), eq(scheduledJobs.lockedBy, instanceId)))
+      .returning();
+    return released;
+  }
+
+  // Job Runs
+  async getJobRuns(jobId: number, limit: number = 25): Promise<JobRun[]> {
+    return db.select().from(jobRuns)
+      .where(eq(jobRuns.jobId, jobId))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
+
+  async updateJobRun(id: number, updates: Partial<InsertJobRun>): Promise<JobRun | undefined> {
+    const [updated] = await db.update(jobRuns)
+      .set(updates)
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  // ==================== FULL-TEXT SEARCH ====================
+
+  async search(query: string, options: SearchOptions): Promise<{ results: SearchHit[]; facets: Array<{ type: SearchResultType; count: number }> }> {
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery || options.types.length === 0) return { results: [], facets: [] };
+
+    const q = sql`to_tsquery('english', ${tsQuery})`;
+    const branches: SQL[] = [];
+    const wants = (type: SearchResultType) => options.types.includes(type);
+
+    // Every branch yields the same columns; body is the text ts_headline picks snippets from
+    if (wants("content_task")) {
+      const vector = contentTaskSearchVector(contentTasks);
+      branches.push(sql`SELECT 'content_task' AS type, ${contentTasks.id} AS id, left(${contentTasks.description}, 200) AS title,
+        concat_ws(' ', ${contentTasks.description}, ${contentTasks.client}, ${contentTasks.deliverable}, ${contentTasks.notes}) AS body,
+        ts_rank_cd(${vector}, ${q}) AS rank, ${contentTasks.createdAt} AS created_at,
+        jsonb_build_object('status', ${contentTasks.status}, 'client', ${contentTasks.client}) AS meta
+        FROM ${contentTasks} WHERE ${vector} @@ ${q}`);
+    }
+    if (wants("team_task") && options.boardIds.length > 0) {
+      const vector = teamTaskSearchVector(teamTasks);
+      branches.push(sql`SELECT 'team_task', ${teamTasks.id}, ${teamTasks.title},
+        concat_ws(' ', ${teamTasks.title}, ${teamTasks.description}, ${teamTasks.richNotes}),
+        ts_rank_cd(${vector}, ${q}), ${teamTasks.createdAt},
+        jsonb_build_object('boardId', ${teamTasks.boardId}, 'status', ${teamTasks.status})
+        FROM ${teamTasks} WHERE ${vector} @@ ${q} AND ${inArray(teamTasks.boardId, options.boardIds)}
+          AND coalesce(${teamTasks.isArchived}, false) = false`);
+    }
+    if (wants("task_doc")) {
+      const vector = taskDocSearchVector(taskDocs);
+      branches.push(sql`SELECT 'task_doc', ${taskDocs.id}, ${taskDocs.title},
+        concat_ws(' ', ${taskDocs.title}, ${taskDocs.content}),
+        ts_rank_cd(${vector}, ${q}), ${taskDocs.createdAt},
+        jsonb_build_object('taskType', ${taskDocs.taskType}, 'taskId', ${taskDocs.taskId})
+        FROM ${taskDocs} WHERE ${vector} @@ ${q} AND coalesce(${taskDocs.isArchived}, false) = false`);
+    }
+    if (wants("comment")) {
+      const vector = commentSearchVector(comments);
+      branches.push(sql`SELECT 'comment', ${comments.id}, left(${comments.content}, 200),
+        ${comments.content},
+        ts_rank_cd(${vector}, ${q}), ${comments.createdAt},
+        jsonb_build_object('taskId', ${comments.taskId})
+        FROM ${comments} WHERE ${vector} @@ ${q}`);
+    }
+    if (wants("client_document")) {
+      const vector = clientDocumentSearchVector(clientDocuments);
+      branches.push(sql`SELECT 'client_document', ${clientDocuments.id}, ${clientDocuments.name},
+        concat_ws(' ', ${clientDocuments.name}, ${clientDocuments.description}),
+        ts_rank_cd(${vector}, ${q}), ${clientDocuments.createdAt},
+        jsonb_build_object('clientProfileId', ${clientDocuments.clientProfileId})
+        FROM ${clientDocuments} WHERE ${vector} @@ ${q} AND coalesce(${clientDocuments.isArchived}, false) = false`);
+    }
+    if (wants("client_profile")) {
+      const vector = clientProfileSearchVector(clientProfiles);
+      branches.push(sql`SELECT 'client_profile', ${clientProfiles.id}, ${clientProfiles.name},
+        concat_ws(' ', ${clientProfiles.name}, ${clientProfiles.industry}, ${clientProfiles.description}, ${clientProfiles.projectHistory}, ${clientProfiles.notes}),
+        ts_rank_cd(${vector}, ${q}), ${clientProfiles.createdAt},
+        jsonb_build_object('slug', ${clientProfiles.slug})
+        FROM ${clientProfiles} WHERE ${vector} @@ ${q}`);
+    }
+    if (wants("dao_project")) {
+      const vector = daoProjectSearchVector(daoProjects);
+      branches.push(sql`SELECT 'dao_project', ${daoProjects.id}, ${daoProjects.name},
+        concat_ws(' ', ${daoProjects.name}, ${daoProjects.description}, ${daoProjects.notes}),
+        ts_rank_cd(${vector}, ${q}), ${daoProjects.createdAt},
+        jsonb_build_object('status', ${daoProjects.status})
+        FROM ${daoProjects} WHERE ${vector} @@ ${q}`);
+    }
+    if (wants("collection")) {
+      const vector = collectionSearchVector(collections);
+      branches.push(sql`SELECT 'collection', ${collections.id}, ${collections.name},
+        concat_ws(' ', ${collections.name}, ${collections.description}),
+        ts_rank_cd(${vector}, ${q}), ${collections.createdAt},
+        '{}'::jsonb
+        FROM ${collections} WHERE ${vector} @@ ${q}`);
+    }
+
+    if (branches.length === 0) return { results: [], facets: [] };
+    const hits = sql.join(branches, sql` UNION ALL `);
+
+    // Headlines are expensive, so only build them for the page being returned
+    const [page, facetRows] = await Promise.all([
+      db.execute(sql`
+        SELECT h.type, h.id, h.title, h.rank, h.created_at, h.meta,
+          ts_headline('english', h.body, ${q}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "') AS snippet
+        FROM (
+          SELECT * FROM (${hits}) AS hits
+          ORDER BY rank DESC, created_at DESC NULLS LAST
+          LIMIT ${options.limit} OFFSET ${options.offset}
+        ) AS h
+        ORDER BY h.rank DESC, h.created_at DESC NULLS LAST
+      `),
+      db.execute(sql`SELECT type, count(*) AS count FROM (${hits}) AS hits GROUP BY type ORDER BY count(*) DESC`),
+    ]);
+
+    return {
+      results: page.rows.map((row: any) => ({
+        type: row.type,
+        id: Number(row.id),
+        title: row.title || "",
+        snippet: row.snippet || "",
+        rank: Number(row.rank),
+        meta: row.meta || {},
+        createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+      })),
+      facets: facetRows.rows.map((row: any) => ({ type: row.type, count: Number(row.count) })),
+    };
+  }
 }
 
 export const storage = new DbStorage();
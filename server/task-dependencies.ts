@@ -0,0 +1,399 @@
+import { storage } from "./storage";
+import type { ContentTask, DependencyTaskType, DependencyType, InsertTaskDependency, TaskDependency, TeamTask } from "@shared/schema";
+
+/**
+ * Task dependency rules shared by content and team tasks.
+ *
+ * A "blocks" link from A to B and a "blocked_by" link from B to A mean the same thing:
+ * B can't finish until A has. parent_of/child_of form a separate hierarchy. Both graphs
+ * span task types, so nodes are keyed by type and id.
+ */
+
+export interface TaskRef {
+  taskType: DependencyTaskType;
+  taskId: number;
+}
+
+export interface DependencyTaskSummary extends TaskRef {
+  title: string;
+  status: string | null;
+  dueDate: string | null;
+  isDone: boolean;
+}
+
+export interface ScheduledTask extends DependencyTaskSummary {
+  blockers: string[]; // Node keys
+  earliestStart: string;
+  earliestFinish: string;
+  latestFinish: string;
+  slackDays: number;
+  isCritical: boolean;
+  isLate: boolean;
+}
+
+export interface DependencySchedule {
+  tasks: ScheduledTask[];
+  criticalPath: string[]; // Node keys, first blocker to final task
+  projectFinish: string;
+  durationDays: number;
+}
+
+// Statuses that count as finished: they release dependents and are what blocked tasks can't reach
+const DONE_STATUSES: Record<DependencyTaskType, string[]> = {
+  content: ["APPROVED", "COMPLETED"],
+  team: ["done"],
+};
+
+const HIERARCHY_TYPES: DependencyType[] = ["parent_of", "child_of"];
+const BLOCKING_TYPES: DependencyType[] = ["blocks", "blocked_by"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function taskKey(ref: TaskRef): string {
+  return `${ref.taskType}:${ref.taskId}`;
+}
+
+function parseTaskKey(key: string): TaskRef {
+  const [taskType, taskId] = key.split(":");
+  return { taskType: taskType as DependencyTaskType, taskId: parseInt(taskId) };
+}
+
+export function isDoneStatus(taskType: DependencyTaskType, status: string | null | undefined): boolean {
+  return !!status && DONE_STATUSES[taskType].includes(status);
+}
+
+/**
+ * Parse a content task due date. Supports ISO dates and "Nov 26" (assumed to be the next occurrence).
+ */
+export function parseDueDate(dateStr: string): Date | null {
+  if (!dateStr) return null;
+
+  // Try ISO format first (2025-11-26)
+  const isoDate = new Date(dateStr);
+  if (!isNaN(isoDate.getTime())) return isoDate;
+
+  // Try "Nov 26" format
+  const months: Record<string, number> = {
+    jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+    jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+  };
+
+  const match = dateStr.match(/^(\w{3})\s+(\d{1,2})$/i);
+  if (match) {
+    const month = months[match[1].toLowerCase()];
+    const day = parseInt(match[2]);
+    if (month !== undefined && day) {
+      const year = new Date().getFullYear();
+      const date = new Date(year, month, day);
+      // If date is in the past, assume next year
+      if (date < new Date()) {
+        date.setFullYear(year + 1);
+      }
+      return date;
+    }
+  }
+
+  return null;
+}
+
+function sourceRef(dep: Pick<TaskDependency, "taskType" | "sourceTaskId">): TaskRef {
+  return { taskType: dep.taskType as DependencyTaskType, taskId: dep.sourceTaskId };
+}
+
+function targetRef(dep: Pick<TaskDependency, "targetTaskType" | "targetTaskId">): TaskRef {
+  return { taskType: dep.targetTaskType as DependencyTaskType, taskId: dep.targetTaskId };
+}
+
+/**
+ * Normalize a link to a directed edge: blocker -> blocked, or parent -> child.
+ * Links that don't constrain ordering (relates_to, duplicates) return null.
+ */
+function toEdge(dep: Pick<TaskDependency, "taskType" | "sourceTaskId" | "targetTaskType" | "targetTaskId" | "dependencyType">): { kind: "blocking" | "hierarchy"; from: string; to: string } | null {
+  const source = taskKey(sourceRef(dep));
+  const target = taskKey(targetRef(dep));
+  switch (dep.dependencyType) {
+    case "blocks": return { kind: "blocking", from: source, to: target };
+    case "blocked_by": return { kind: "blocking", from: target, to: source };
+    case "parent_of": return { kind: "hierarchy", from: source, to: target };
+    case "child_of": return { kind: "hierarchy", from: target, to: source };
+    default: return null;
+  }
+}
+
+function buildAdjacency(deps: TaskDependency[], kind: "blocking" | "hierarchy") {
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  for (const dep of deps) {
+    const edge = toEdge(dep);
+    if (!edge || edge.kind !== kind) continue;
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]);
+    incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge.from]);
+  }
+  return { outgoing, incoming };
+}
+
+/**
+ * If adding the link would close a loop, returns the existing path that closes it
+ * (from the new edge's head back to its tail). Null when the link is safe.
+ */
+export async function findDependencyCycle(candidate: Pick<InsertTaskDependency, "taskType" | "sourceTaskId" | "targetTaskType" | "targetTaskId" | "dependencyType">): Promise<string[] | null> {
+  const edge = toEdge({
+    taskType: candidate.taskType ?? "content",
+    sourceTaskId: candidate.sourceTaskId,
+    targetTaskType: candidate.targetTaskType ?? "content",
+    targetTaskId: candidate.targetTaskId,
+    dependencyType: candidate.dependencyType ?? "blocks",
+  });
+  if (!edge) return null;
+  if (edge.from === edge.to) return [edge.from];
+
+  const types = edge.kind === "blocking" ? BLOCKING_TYPES : HIERARCHY_TYPES;
+  const { outgoing } = buildAdjacency(await storage.getTaskDependenciesByType(types), edge.kind);
+
+  // Depth-first search from the new edge's head; reaching its tail means a cycle
+  const previous = new Map<string, string>();
+  const stack = [edge.to];
+  const visited = new Set<string>([edge.to]);
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node === edge.from) {
+      const path = [node];
+      let current = node;
+      while (previous.has(current)) {
+        current = previous.get(current)!;
+        path.unshift(current);
+      }
+      return path;
+    }
+    for (const next of outgoing.get(node) || []) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      previous.set(next, node);
+      stack.push(next);
+    }
+  }
+  return null;
+}
+
+async function loadTaskSummaries(keys: string[]): Promise<Map<string, DependencyTaskSummary & { createdAt: Date | null; assignee: string | null }>> {
+  const refs = keys.map(parseTaskKey);
+  const contentIds = refs.filter(r => r.taskType === "content").map(r => r.taskId);
+  const teamIds = refs.filter(r => r.taskType === "team").map(r => r.taskId);
+  const [contentTasks, teamTasks] = await Promise.all([
+    contentIds.length > 0 ? storage.getContentTasksByIds(contentIds) : Promise.resolve([] as ContentTask[]),
+    teamIds.length > 0 ? storage.getTeamTasksByIds(teamIds) : Promise.resolve([] as TeamTask[]),
+  ]);
+
+  const summaries = new Map<string, DependencyTaskSummary & { createdAt: Date | null; assignee: string | null }>();
+  for (const task of contentTasks) {
+    const dueDate = task.dueDate ? parseDueDate(task.dueDate) : null;
+    summaries.set(taskKey({ taskType: "content", taskId: task.id }), {
+      taskType: "content",
+      taskId: task.id,
+      title: task.description.substring(0, 120),
+      status: task.status,
+      dueDate: dueDate ? dueDate.toISOString() : null,
+      isDone: isDoneStatus("content", task.status),
+      createdAt: task.createdAt,
+      assignee: task.assignedTo,
+    });
+  }
+  for (const task of teamTasks) {
+    summaries.set(taskKey({ taskType: "team", taskId: task.id }), {
+      taskType: "team",
+      taskId: task.id,
+      title: task.title,
+      status: task.status,
+      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+      isDone: isDoneStatus("team", task.status),
+      createdAt: task.createdAt,
+      assignee: task.assigneeId,
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Blockers of a task that haven't finished. Links to deleted tasks are ignored.
+ */
+export async function getOpenBlockers(ref: TaskRef): Promise<DependencyTaskSummary[]> {
+  const { incoming } = buildAdjacency(await storage.getTaskDependenciesByType(BLOCKING_TYPES), "blocking");
+  const blockerKeys = incoming.get(taskKey(ref)) || [];
+  if (blockerKeys.length === 0) return [];
+  const summaries = await loadTaskSummaries(blockerKeys);
+  return blockerKeys
+    .map(key => summaries.get(key))
+    .filter((task): task is NonNullable<typeof task> => !!task && !task.isDone)
+    .map(({ createdAt: _createdAt, assignee: _assignee, ...summary }) => summary);
+}
+
+/**
+ * Whether moving a task to `status` must wait for its blockers
+ */
+export function isDependencyGatedStatus(taskType: DependencyTaskType, status: string | null | undefined): boolean {
+  return isDoneStatus(taskType, status);
+}
+
+// content_tasks.assignedTo holds a name or email rather than a user id
+export async function findContentAssigneeId(assignedTo: string | null): Promise<string | null> {
+  if (!assignedTo) return null;
+  const needle = assignedTo.toLowerCase();
+  const user = (await storage.getAllUsers()).find(u =>
+    u.email?.toLowerCase() === needle || `${u.firstName} ${u.lastName}`.toLowerCase() === needle
+  );
+  return user?.id || null;
+}
+
+/**
+ * Call after a task finishes. Dependents whose blockers are now all done get an
+ * "task_unblocked" notification to their assignee.
+ */
+export async function notifyUnblockedTasks(finished: TaskRef): Promise<TaskRef[]> {
+  const { outgoing, incoming } = buildAdjacency(await storage.getTaskDependenciesByType(BLOCKING_TYPES), "blocking");
+  const dependents = outgoing.get(taskKey(finished)) || [];
+  if (dependents.length === 0) return [];
+
+  const related = new Set<string>(dependents);
+  dependents.forEach(key => (incoming.get(key) || []).forEach(blocker => related.add(blocker)));
+  const summaries = await loadTaskSummaries(Array.from(related));
+  const finishedTitle = summaries.get(taskKey(finished))?.title
+    || (await loadTaskSummaries([taskKey(finished)])).get(taskKey(finished))?.title
+    || `Task #${finished.taskId}`;
+
+  const unblocked: TaskRef[] = [];
+  for (const key of dependents) {
+    const dependent = summaries.get(key);
+    if (!dependent || dependent.isDone) continue;
+    const stillBlocked = (incoming.get(key) || []).some(blocker => {
+      const task = summaries.get(blocker);
+      return !!task && !task.isDone;
+    });
+    if (stillBlocked) continue;
+
+    unblocked.push({ taskType: dependent.taskType, taskId: dependent.taskId });
+    const recipientId = dependent.taskType === "content"
+      ? await findContentAssigneeId(dependent.assignee)
+      : dependent.assignee;
+    if (!recipientId) continue;
+
+    await storage.createNotification({
+      userId: recipientId,
+      type: "task_unblocked",
+      title: "Task unblocked",
+      message: `"${dependent.title.substring(0, 80)}" is ready - "${finishedTitle.substring(0, 60)}" is done`,
+      taskId: dependent.taskType === "content" ? dependent.taskId : undefined,
+    });
+  }
+
+  if (unblocked.length > 0) {
+    console.log(`[Dependencies] ${taskKey(finished)} finished; unblocked ${unblocked.map(taskKey).join(", ")}`);
+  }
+  return unblocked;
+}
+
+/**
+ * Critical-path schedule for the blocking graph around a task.
+ *
+ * Tasks have no effort estimates, so each open task is assumed to take
+ * `durationDays`; finished tasks take none. Forward pass from now gives the earliest
+ * finish, backward pass from each task's due date (or the projected finish when it has
+ * none) gives the latest finish, and slack is the difference. Negative slack means the
+ * due date can't be met. The critical path is the driving chain into the task with the
+ * least slack.
+ */
+export async function getDependencySchedule(ref: TaskRef, durationDays: number = 1, now: Date = new Date()): Promise<DependencySchedule> {
+  const { outgoing, incoming } = buildAdjacency(await storage.getTaskDependenciesByType(BLOCKING_TYPES), "blocking");
+
+  // Everything connected to the task through blocking links, in either direction
+  const component = new Set<string>([taskKey(ref)]);
+  const queue = [taskKey(ref)];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const next of [...(outgoing.get(node) || []), ...(incoming.get(node) || [])]) {
+      if (!component.has(next)) {
+        component.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  const summaries = await loadTaskSummaries(Array.from(component));
+  const nodes = Array.from(component).filter(key => summaries.has(key));
+  const blockersOf = (key: string) => (incoming.get(key) || []).filter(k => summaries.has(k));
+  const dependentsOf = (key: string) => (outgoing.get(key) || []).filter(k => summaries.has(k));
+  const duration = (key: string) => (summaries.get(key)!.isDone ? 0 : durationDays * DAY_MS);
+
+  // Kahn's algorithm; cycles are rejected on create, but any legacy loop just drops out
+  const indegree = new Map(nodes.map(key => [key, blockersOf(key).length]));
+  const order: string[] = [];
+  const ready = nodes.filter(key => indegree.get(key) === 0);
+  while (ready.length > 0) {
+    const key = ready.shift()!;
+    order.push(key);
+    for (const next of dependentsOf(key)) {
+      indegree.set(next, indegree.get(next)! - 1);
+      if (indegree.get(next) === 0) ready.push(next);
+    }
+  }
+
+  const earliestFinish = new Map<string, number>();
+  const earliestStart = new Map<string, number>();
+  for (const key of order) {
+    const start = Math.max(now.getTime(), ...blockersOf(key).map(b => earliestFinish.get(b) ?? now.getTime()));
+    earliestStart.set(key, start);
+    earliestFinish.set(key, start + duration(key));
+  }
+  const projectFinish = Math.max(now.getTime(), ...Array.from(earliestFinish.values()));
+
+  const latestFinish = new Map<string, number>();
+  for (const key of order.slice().reverse()) {
+    const due = summaries.get(key)!.dueDate;
+    const successorStarts = dependentsOf(key)
+      .filter(d => latestFinish.has(d))
+      .map(d => latestFinish.get(d)! - duration(d));
+    const bound = Math.min(due ? new Date(due).getTime() : Infinity, ...successorStarts);
+    latestFinish.set(key, Number.isFinite(bound) ? bound : projectFinish);
+  }
+
+  const slackDays = (key: string) => Math.round(((latestFinish.get(key)! - earliestFinish.get(key)!) / DAY_MS) * 10) / 10;
+
+  // Walk back from the tightest open task along its driving (latest-finishing) blockers
+  const criticalPath: string[] = [];
+  const open = order.filter(key => !summaries.get(key)!.isDone);
+  if (open.length > 0) {
+    let current: string | undefined = open.reduce((worst, key) =>
+      slackDays(key) < slackDays(worst) || (slackDays(key) === slackDays(worst) && earliestFinish.get(key)! > earliestFinish.get(worst)!)
+        ? key
+        : worst
+    );
+    while (current) {
+      criticalPath.unshift(current);
+      const drivers: string[] = blockersOf(current).filter(b => !summaries.get(b)!.isDone && earliestFinish.has(b));
+      current = drivers.length > 0
+        ? drivers.reduce((a, b) => (earliestFinish.get(b)! > earliestFinish.get(a)! ? b : a))
+        : undefined;
+    }
+  }
+  const onCriticalPath = new Set(criticalPath);
+
+  const tasks: ScheduledTask[] = order.map(key => {
+    const { createdAt: _createdAt, assignee: _assignee, ...summary } = summaries.get(key)!;
+    const slack = slackDays(key);
+    return {
+      ...summary,
+      blockers: blockersOf(key),
+      earliestStart: new Date(earliestStart.get(key)!).toISOString(),
+      earliestFinish: new Date(earliestFinish.get(key)!).toISOString(),
+      latestFinish: new Date(latestFinish.get(key)!).toISOString(),
+      slackDays: slack,
+      isCritical: onCriticalPath.has(key),
+      isLate: !summary.isDone && slack < 0,
+    };
+  });
+
+  return {
+    tasks,
+    criticalPath,
+    projectFinish: new Date(projectFinish).toISOString(),
+    durationDays,
+  };
+}
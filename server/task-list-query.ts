@@ -0,0 +1,301 @@
+import { storage } from "./storage";
+import { decodeCustomFieldValue, getFieldOptions, type DecodedCustomFieldValue } from "./custom-fields";
+import { parseDueDate } from "./task-dependencies";
+import {
+  taskFilterConditionSchema,
+  taskFilterOperators,
+  taskSortSchema,
+  type ContentTask,
+  type TaskCustomField,
+  type TaskFilterCondition,
+  type TaskFilterOperator,
+  type TaskSort,
+  type TeamTask,
+} from "@shared/schema";
+
+/**
+ * Filter/sort syntax for the content and team task list endpoints.
+ *
+ *   ?filter=status:eq:IN PROGRESS&filter=cf.12:gte:5&filter=cf.4:in:high,urgent&sort=-cf.12,dueDate
+ *
+ * Each `filter` is `<field>:<operator>[:<value>]`, where a field is a task column or a
+ * custom field as `cf.<id>`. `in` takes a comma-separated list; `empty`/`not_empty` take
+ * no value. Conditions are ANDed. `sort` is a comma-separated list of fields, with a
+ * leading `-` for descending; tasks without a value sort last.
+ */
+
+export interface TaskListQuery {
+  conditions: TaskFilterCondition[];
+  sort: TaskSort[];
+}
+
+export type TaskListQueryResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+type FieldKind = "string" | "number" | "date" | "boolean" | "list";
+
+interface BuiltInField<T> {
+  kind: FieldKind;
+  get: (task: T) => DecodedCustomFieldValue;
+}
+
+const timeOf = (date: Date | null) => (date ? date.getTime() : null);
+
+const CONTENT_FIELDS: Record<string, BuiltInField<ContentTask>> = {
+  description: { kind: "string", get: t => t.description },
+  status: { kind: "string", get: t => t.status },
+  priority: { kind: "string", get: t => t.priority },
+  assignedTo: { kind: "string", get: t => t.assignedTo },
+  assignedBy: { kind: "string", get: t => t.assignedBy },
+  client: { kind: "string", get: t => t.client },
+  clientType: { kind: "string", get: t => t.clientType },
+  internalProject: { kind: "string", get: t => t.internalProject },
+  campaignId: { kind: "number", get: t => t.campaignId },
+  dueDate: { kind: "date", get: t => timeOf(t.dueDate ? parseDueDate(t.dueDate) : null) },
+  createdAt: { kind: "date", get: t => timeOf(t.createdAt) },
+};
+
+const TEAM_FIELDS: Record<string, BuiltInField<TeamTask>> = {
+  title: { kind: "string", get: t => t.title },
+  status: { kind: "string", get: t => t.status },
+  priority: { kind: "string", get: t => t.priority },
+  assigneeId: { kind: "string", get: t => t.assigneeId },
+  createdBy: { kind: "string", get: t => t.createdBy },
+  taskType: { kind: "string", get: t => t.taskType },
+  projectTag: { kind: "string", get: t => t.projectTag },
+  tags: { kind: "list", get: t => t.tags },
+  boardId: { kind: "number", get: t => t.boardId },
+  dueDate: { kind: "date", get: t => timeOf(t.dueDate) },
+  launchDate: { kind: "date", get: t => timeOf(t.launchDate) },
+  createdAt: { kind: "date", get: t => timeOf(t.createdAt) },
+  updatedAt: { kind: "date", get: t => timeOf(t.updatedAt) },
+};
+
+function customFieldKind(field: TaskCustomField): FieldKind {
+  switch (field.fieldType) {
+    case "number":
+    case "currency":
+    case "rating":
+      return "number";
+    case "date":
+      return "date";
+    case "checkbox":
+      return "boolean";
+    case "labels":
+    case "people":
+      return "list";
+    default:
+      return "string";
+  }
+}
+
+function customFieldId(field: string): number | null {
+  return field.startsWith("cf.") ? parseInt(field.slice(3)) : null;
+}
+
+function queryParamList(value: unknown): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * Parse `filter` and `sort` query parameters. Only the syntax is checked here; field
+ * names are checked when the query is applied.
+ */
+export function parseTaskListQuery(query: Record<string, unknown>): TaskListQueryResult<TaskListQuery> {
+  const conditions: TaskFilterCondition[] = [];
+  for (const raw of queryParamList(query.filter)) {
+    const [field, operator, ...rest] = raw.split(":");
+    if (!field || !operator || !(taskFilterOperators as readonly string[]).includes(operator)) {
+      return { ok: false, error: `Invalid filter "${raw}": expected <field>:<${taskFilterOperators.join("|")}>[:<value>]` };
+    }
+    const value = rest.join(":");
+    const parsed = taskFilterConditionSchema.safeParse({
+      field,
+      operator,
+      value: operator === "in" ? value.split(",").map(v => v.trim()).filter(Boolean) : value || undefined,
+    });
+    if (!parsed.success) {
+      return { ok: false, error: `Invalid filter "${raw}": ${parsed.error.errors[0]?.message}` };
+    }
+    if (!["empty", "not_empty"].includes(operator) && parsed.data.value === undefined) {
+      return { ok: false, error: `Invalid filter "${raw}": operator "${operator}" needs a value` };
+    }
+    conditions.push(parsed.data);
+  }
+
+  const sort: TaskSort[] = [];
+  for (const raw of queryParamList(query.sort).flatMap(s => s.split(","))) {
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    const parsed = taskSortSchema.safeParse({
+      field: trimmed.replace(/^-/, ""),
+      direction: trimmed.startsWith("-") ? "desc" : "asc",
+    });
+    if (!parsed.success) {
+      return { ok: false, error: `Invalid sort "${raw}": ${parsed.error.errors[0]?.message}` };
+    }
+    sort.push(parsed.data);
+  }
+
+  return { ok: true, value: { conditions, sort } };
+}
+
+// Turn a condition's text value into the field's comparison type
+function coerce(kind: FieldKind, raw: string, field?: TaskCustomField): DecodedCustomFieldValue {
+  switch (kind) {
+    case "number": {
+      const value = Number(raw);
+      return Number.isFinite(value) ? value : null;
+    }
+    case "date": {
+      const time = new Date(raw).getTime();
+      return isNaN(time) ? null : time;
+    }
+    case "boolean":
+      return raw === "true";
+    default: {
+      // Options can be referenced by label; values store the option id
+      const option = field ? getFieldOptions(field).find(o => o.id === raw || o.label.toLowerCase() === raw.toLowerCase()) : undefined;
+      return (option ? option.id : raw).toLowerCase();
+    }
+  }
+}
+
+function normalize(value: DecodedCustomFieldValue): DecodedCustomFieldValue {
+  if (typeof value === "string") return value.toLowerCase();
+  if (Array.isArray(value)) return value.map(v => v.toLowerCase());
+  return value;
+}
+
+function isEmpty(value: DecodedCustomFieldValue): boolean {
+  return value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function compare(a: DecodedCustomFieldValue, b: DecodedCustomFieldValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  const left = Array.isArray(a) ? a.join(",") : String(a);
+  const right = Array.isArray(b) ? b.join(",") : String(b);
+  return left.localeCompare(right);
+}
+
+function matches(operator: TaskFilterOperator, actual: DecodedCustomFieldValue, expected: DecodedCustomFieldValue[]): boolean {
+  if (operator === "empty") return isEmpty(actual);
+  if (operator === "not_empty") return !isEmpty(actual);
+  if (isEmpty(actual)) return operator === "neq";
+
+  // List values (labels, people, tags) match when any element matches
+  if (Array.isArray(actual)) {
+    const overlap = actual.some(item => expected.includes(item));
+    if (operator === "neq") return !overlap;
+    if (operator === "eq" || operator === "in" || operator === "contains") return overlap;
+    return false;
+  }
+
+  const target = expected[0];
+  switch (operator) {
+    case "eq": return compare(actual, target) === 0;
+    case "neq": return compare(actual, target) !== 0;
+    case "in": return expected.some(e => compare(actual, e) === 0);
+    case "contains": return typeof actual === "string" && typeof target === "string" && actual.includes(target);
+    case "gt": return target !== null && compare(actual, target) > 0;
+    case "gte": return target !== null && compare(actual, target) >= 0;
+    case "lt": return target !== null && compare(actual, target) < 0;
+    case "lte": return target !== null && compare(actual, target) <= 0;
+    default: return false;
+  }
+}
+
+/**
+ * Filter and sort tasks already loaded for a list endpoint. Custom field values are loaded
+ * in one query for the fields the query references. Unknown fields are an error.
+ */
+export async function applyTaskListQuery<T extends ContentTask | TeamTask>(
+  taskType: "content" | "team",
+  tasks: T[],
+  query: TaskListQuery,
+): Promise<TaskListQueryResult<T[]>> {
+  if (query.conditions.length === 0 && query.sort.length === 0) return { ok: true, value: tasks };
+
+  const builtIns = (taskType === "content" ? CONTENT_FIELDS : TEAM_FIELDS) as Record<string, BuiltInField<T>>;
+  const referenced = Array.from(new Set([...query.conditions.map(c => c.field), ...query.sort.map(s => s.field)]));
+
+  const customFieldIds = referenced.map(customFieldId).filter((id): id is number => id !== null);
+  const customFields = new Map<number, TaskCustomField>();
+  if (customFieldIds.length > 0) {
+    (await storage.getTaskCustomFields()).forEach(field => {
+      if (customFieldIds.includes(field.id)) customFields.set(field.id, field);
+    });
+  }
+  for (const field of referenced) {
+    const id = customFieldId(field);
+    // Own properties only, so names like "constructor" aren't mistaken for fields
+    if (id === null ? !Object.prototype.hasOwnProperty.call(builtIns, field) : !customFields.has(id)) {
+      return { ok: false, error: `Unknown field "${field}"` };
+    }
+  }
+
+  // taskId -> fieldId -> stored value
+  const storedValues = new Map<number, Map<number, string | null>>();
+  if (customFields.size > 0) {
+    const rows = await storage.getTaskCustomFieldValuesForTasks(taskType, tasks.map(t => t.id), Array.from(customFields.keys()));
+    rows.forEach(row => {
+      if (!storedValues.has(row.taskId)) storedValues.set(row.taskId, new Map());
+      storedValues.get(row.taskId)!.set(row.customFieldId, row.value);
+    });
+  }
+
+  const kindOf = (field: string): FieldKind => {
+    const id = customFieldId(field);
+    return id === null ? builtIns[field].kind : customFieldKind(customFields.get(id)!);
+  };
+  const valueOf = (task: T, field: string): DecodedCustomFieldValue => {
+    const id = customFieldId(field);
+    if (id === null) return normalize(builtIns[field].get(task));
+    const stored = storedValues.get(task.id)?.get(id) ?? null;
+    return normalize(decodeCustomFieldValue(customFields.get(id)!, stored));
+  };
+
+  const conditions = query.conditions.map(condition => {
+    const id = customFieldId(condition.field);
+    const field = id === null ? undefined : customFields.get(id);
+    const rawValues = condition.value === undefined ? [] : Array.isArray(condition.value) ? condition.value : [condition.value];
+    return { ...condition, expected: rawValues.map(v => coerce(kindOf(condition.field), v, field)) };
+  });
+
+  const filtered = tasks.filter(task =>
+    conditions.every(condition => matches(condition.operator, valueOf(task, condition.field), condition.expected))
+  );
+
+  if (query.sort.length === 0) return { ok: true, value: filtered };
+
+  const sorted = filtered.slice().sort((a, b) => {
+    for (const { field, direction } of query.sort) {
+      const left = valueOf(a, field);
+      const right = valueOf(b, field);
+      if (isEmpty(left) && isEmpty(right)) continue;
+      if (isEmpty(left)) return 1;
+      if (isEmpty(right)) return -1;
+      const result = compare(left, right);
+      if (result !== 0) return direction === "desc" ? -result : result;
+    }
+    return 0;
+  });
+  return { ok: true, value: sorted };
+}
+
+/**
+ * Combine a saved filter's conditions with the request's. An explicit sort in the request
+ * replaces the saved one.
+ */
+export function mergeSavedFilterQuery(query: TaskListQuery, saved: unknown): TaskListQuery {
+  const filters = (saved && typeof saved === "object" ? saved : {}) as { conditions?: unknown; sort?: unknown };
+  const savedConditions = taskFilterConditionSchema.array().safeParse(filters.conditions ?? []);
+  const savedSort = taskSortSchema.array().safeParse(filters.sort ?? []);
+  return {
+    conditions: [...(savedConditions.success ? savedConditions.data : []), ...query.conditions],
+    sort: query.sort.length > 0 ? query.sort : savedSort.success ? savedSort.data : [],
+  };
+}
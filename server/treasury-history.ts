@@ -0,0 +1,383 @@
+import { formatUnits } from "ethers";
+import { storage } from "./storage";
+import { getSafeBalances } from "./safe-service";
+import { decodeTransfers } from "./treasury-reconciliation";
+import { resolvePrices, toPriceDate, addDays, FEED_MAX_AGE_DAYS, type PriceRequest } from "./price-sources";
+import type { DaoSafeBalanceSnapshot, DaoSafeWallet, InsertDaoSafeBalanceSnapshot } from "@shared/schema";
+
+/**
+ * Treasury history
+ *
+ * dao_safe_balances only caches the latest balances, so a daily job (and admins on demand)
+ * records each active Safe's balance per token in dao_safe_balance_snapshots, valued through
+ * the price sources. When the Safe Transaction Service can't be reached the cached balances
+ * are snapshotted instead and marked fromCache. Prices added to the feed later revalue the
+ * snapshots they apply to, so an offline CSV import fills in history after the fact.
+ *
+ * The series endpoints read only snapshots and synced Safe history:
+ * - balance over time: per day, week or month, each wallet's last snapshot in the period,
+ *   carried forward through periods without one;
+ * - allocation: each wallet's latest snapshot on or before a day, grouped by token;
+ * - monthly flows: outflows are the executed Safe transactions' transfers. Safe history has
+ *   no incoming transfers, so inflows are derived per token as the balance change over the
+ *   month plus its outflows. Both are valued at the month-end price; a token the Safe no
+ *   longer held at the end of the month keeps its opening price, and one with no priced
+ *   snapshot at either end is priced from the price sources for the month end.
+ */
+
+export type HistoryInterval = "day" | "week" | "month";
+
+// How far back allocation looks for a wallet's latest snapshot
+const ALLOCATION_LOOKBACK_DAYS = 90;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function tokenKeyOf(tokenAddress: string | null | undefined): string {
+  return tokenAddress ? tokenAddress.toLowerCase() : "native";
+}
+
+// ==================== Snapshots ====================
+
+export interface SnapshotSummary {
+  wallets: number;
+  tokens: number;
+  fromCache: number; // Wallets whose live balances couldn't be fetched
+  unpriced: string[];
+}
+
+async function snapshotWallet(wallet: DaoSafeWallet, day: string): Promise<{ rows: DaoSafeBalanceSnapshot[]; fromCache: boolean }> {
+  const live = await getSafeBalances(wallet.address, wallet.chainId);
+  // getSafeBalances returns nothing when the service is unreachable
+  const fromCache = live.length === 0;
+  const balances = fromCache
+    ? (await storage.getDaoSafeBalances(wallet.id)).map(b => ({
+      tokenAddress: b.tokenAddress,
+      tokenSymbol: b.tokenSymbol,
+      tokenDecimals: b.tokenDecimals ?? 18,
+      balance: b.balance,
+      observedUsdPrice: null as number | null,
+    }))
+    : live.map(b => ({
+      tokenAddress: b.tokenAddress,
+      tokenSymbol: b.tokenSymbol,
+      tokenDecimals: b.tokenDecimals,
+      balance: b.balance,
+      observedUsdPrice: b.fiatConversion ? parseFloat(b.fiatConversion) : null,
+    }));
+  if (!fromCache) {
+    await storage.upsertDaoSafeBalances(wallet.id, live.map(b => ({
+      walletId: wallet.id,
+      tokenAddress: b.tokenAddress,
+      tokenSymbol: b.tokenSymbol,
+      tokenName: b.tokenName,
+      tokenDecimals: b.tokenDecimals,
+      balance: b.balance,
+      balanceUsd: b.fiatBalance ? parseFloat(b.fiatBalance) : null,
+    })));
+  }
+
+  const prices = await resolvePrices(
+    balances.map(b => ({ symbol: b.tokenSymbol, observedUsdPrice: b.observedUsdPrice })),
+    day,
+  );
+  const rows: InsertDaoSafeBalanceSnapshot[] = balances.map(b => {
+    const units = Number(formatUnits(b.balance, b.tokenDecimals));
+    const quote = prices.get(b.tokenSymbol.toUpperCase());
+    return {
+      walletId: wallet.id,
+      chainId: wallet.chainId,
+      snapshotDate: day,
+      tokenKey: tokenKeyOf(b.tokenAddress),
+      tokenAddress: b.tokenAddress,
+      tokenSymbol: b.tokenSymbol,
+      tokenDecimals: b.tokenDecimals,
+      balance: b.balance,
+      units,
+      usdPrice: quote?.usdPrice ?? null,
+      balanceUsd: quote ? units * quote.usdPrice : null,
+      priceSource: quote?.source ?? null,
+      fromCache,
+    };
+  });
+  return { rows: await storage.upsertDaoSafeBalanceSnapshots(rows), fromCache };
+}
+
+/** Record today's balances for every active Safe */
+export async function snapshotAllWallets(now: Date = new Date()): Promise<SnapshotSummary> {
+  const day = toPriceDate(now);
+  const wallets = (await storage.getDaoSafeWallets()).filter(w => w.isActive !== false);
+  const summary: SnapshotSummary = { wallets: 0, tokens: 0, fromCache: 0, unpriced: [] };
+  const unpriced = new Set<string>();
+  for (const wallet of wallets) {
+    try {
+      const { rows, fromCache } = await snapshotWallet(wallet, day);
+      summary.wallets++;
+      summary.tokens += rows.length;
+      if (fromCache) summary.fromCache++;
+      rows.filter(r => r.balanceUsd === null && r.units > 0).forEach(r => unpriced.add(r.tokenSymbol));
+    } catch (error) {
+      console.error(`[TreasuryHistory] Error snapshotting wallet ${wallet.label}:`, error);
+    }
+  }
+  summary.unpriced = Array.from(unpriced);
+  console.log(`[TreasuryHistory] Snapshot ${day}: ${summary.tokens} balance(s) across ${summary.wallets} wallet(s)`);
+  return summary;
+}
+
+/**
+ * Re-price snapshots after the feed changed for these symbols between `from` and `to`.
+ * A feed price covers the following days too, so later snapshots are included.
+ */
+export async function revalueSnapshots(symbols: string[], from: string, to: string): Promise<number> {
+  const wanted = Array.from(new Set(symbols.map(s => s.toUpperCase())));
+  const snapshots = (await storage.getDaoSafeBalanceSnapshots({ from, to: addDays(to, FEED_MAX_AGE_DAYS) }))
+    .filter(s => wanted.includes(s.tokenSymbol.toUpperCase()));
+  const byDay = new Map<string, DaoSafeBalanceSnapshot[]>();
+  for (const snapshot of snapshots) {
+    byDay.set(snapshot.snapshotDate, [...(byDay.get(snapshot.snapshotDate) ?? []), snapshot]);
+  }
+
+  let updated = 0;
+  for (const [day, rows] of Array.from(byDay.entries())) {
+    // Keep a live Safe service price as the fallback it was
+    const requests: PriceRequest[] = rows.map(r => ({
+      symbol: r.tokenSymbol,
+      observedUsdPrice: r.priceSource === "safe_service" ? r.usdPrice : null,
+    }));
+    const prices = await resolvePrices(requests, day);
+    for (const row of rows) {
+      const quote = prices.get(row.tokenSymbol.toUpperCase());
+      const usdPrice = quote?.usdPrice ?? null;
+      if (usdPrice === row.usdPrice && (quote?.source ?? null) === row.priceSource) continue;
+      await storage.updateDaoSafeBalanceSnapshotValue(row.id, {
+        usdPrice,
+        balanceUsd: usdPrice === null ? null : row.units * usdPrice,
+        priceSource: quote?.source ?? null,
+      });
+      updated++;
+    }
+  }
+  if (updated > 0) console.log(`[TreasuryHistory] Revalued ${updated} snapshot(s) for ${wanted.join(", ")}`);
+  return updated;
+}
+
+// ==================== Series ====================
+
+function periodOf(day: string, interval: HistoryInterval): string {
+  if (interval === "month") return day.slice(0, 7);
+  if (interval === "week") {
+    // ISO weeks start on Monday
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return addDays(day, -((weekday + 6) % 7));
+  }
+  return day;
+}
+
+export interface BalanceHistoryPoint {
+  period: string; // YYYY-MM-DD (day, or the Monday of the week) or YYYY-MM
+  totalUsd: number;
+  byChain: Record<string, number>;
+  byToken: Record<string, number>;
+  unpricedTokens: string[];
+}
+
+/** Total treasury value per period across all Safes and chains */
+export async function getBalanceHistory(options: { from: string; to: string; interval: HistoryInterval; walletId?: number }): Promise<BalanceHistoryPoint[]> {
+  const snapshots = await storage.getDaoSafeBalanceSnapshots({ from: options.from, to: options.to, walletId: options.walletId });
+
+  // Each wallet's rows on its last snapshot day in each period
+  const periods = new Map<string, Map<number, DaoSafeBalanceSnapshot[]>>();
+  for (const snapshot of snapshots) {
+    const period = periodOf(snapshot.snapshotDate, options.interval);
+    const wallets = periods.get(period) ?? new Map<number, DaoSafeBalanceSnapshot[]>();
+    const current = wallets.get(snapshot.walletId);
+    if (!current || current[0].snapshotDate < snapshot.snapshotDate) wallets.set(snapshot.walletId, [snapshot]);
+    else if (current[0].snapshotDate === snapshot.snapshotDate) current.push(snapshot);
+    periods.set(period, wallets);
+  }
+
+  const latest = new Map<number, DaoSafeBalanceSnapshot[]>();
+  return Array.from(periods.keys()).sort().map(period => {
+    Array.from(periods.get(period)!.entries()).forEach(([walletId, rows]) => latest.set(walletId, rows));
+    const point: BalanceHistoryPoint = { period, totalUsd: 0, byChain: {}, byToken: {}, unpricedTokens: [] };
+    const unpriced = new Set<string>();
+    Array.from(latest.values()).forEach(rows => rows.forEach(row => {
+      if (row.balanceUsd === null) {
+        if (row.units > 0) unpriced.add(row.tokenSymbol);
+        return;
+      }
+      point.totalUsd += row.balanceUsd;
+      point.byChain[row.chainId] = (point.byChain[row.chainId] ?? 0) + row.balanceUsd;
+      point.byToken[row.tokenSymbol] = (point.byToken[row.tokenSymbol] ?? 0) + row.balanceUsd;
+    }));
+    point.totalUsd = round2(point.totalUsd);
+    Object.keys(point.byChain).forEach(k => { point.byChain[k] = round2(point.byChain[k]); });
+    Object.keys(point.byToken).forEach(k => { point.byToken[k] = round2(point.byToken[k]); });
+    point.unpricedTokens = Array.from(unpriced);
+    return point;
+  });
+}
+
+// Each wallet's rows from its latest snapshot day in the range
+function latestPerWallet(snapshots: DaoSafeBalanceSnapshot[]): DaoSafeBalanceSnapshot[] {
+  const latestDay = new Map<number, string>();
+  for (const snapshot of snapshots) {
+    const day = latestDay.get(snapshot.walletId);
+    if (!day || snapshot.snapshotDate > day) latestDay.set(snapshot.walletId, snapshot.snapshotDate);
+  }
+  return snapshots.filter(s => latestDay.get(s.walletId) === s.snapshotDate);
+}
+
+export interface AllocationEntry {
+  tokenSymbol: string;
+  units: number;
+  usd: number | null; // null when the token has no price
+  share: number | null; // Of the priced total
+  chainIds: number[];
+  walletIds: number[];
+}
+
+export interface TreasuryAllocation {
+  date: string;
+  totalUsd: number;
+  tokens: AllocationEntry[];
+}
+
+/** Holdings by token on a day, across all Safes and chains */
+export async function getAllocation(date: string): Promise<TreasuryAllocation> {
+  const rows = latestPerWallet(await storage.getDaoSafeBalanceSnapshots({ from: addDays(date, -ALLOCATION_LOOKBACK_DAYS), to: date }));
+  const bySymbol = new Map<string, AllocationEntry>();
+  for (const row of rows) {
+    const symbol = row.tokenSymbol.toUpperCase();
+    const entry = bySymbol.get(symbol) ?? { tokenSymbol: symbol, units: 0, usd: 0, share: null, chainIds: [], walletIds: [] };
+    entry.units += row.units;
+    entry.usd = entry.usd === null || row.balanceUsd === null ? null : entry.usd + row.balanceUsd;
+    if (!entry.chainIds.includes(row.chainId)) entry.chainIds.push(row.chainId);
+    if (!entry.walletIds.includes(row.walletId)) entry.walletIds.push(row.walletId);
+    bySymbol.set(symbol, entry);
+  }
+  const tokens = Array.from(bySymbol.values()).filter(t => t.units > 0);
+  const totalUsd = tokens.reduce((sum, t) => sum + (t.usd ?? 0), 0);
+  for (const token of tokens) {
+    token.share = token.usd === null || totalUsd === 0 ? null : Math.round(token.usd / totalUsd * 10000) / 10000;
+    if (token.usd !== null) token.usd = round2(token.usd);
+  }
+  tokens.sort((a, b) => (b.usd ?? -1) - (a.usd ?? -1));
+  return { date, totalUsd: round2(totalUsd), tokens };
+}
+
+export interface MonthlyTokenFlow {
+  tokenSymbol: string;
+  inflowUnits: number;
+  outflowUnits: number;
+  inflowUsd: number | null;
+  outflowUsd: number | null;
+}
+
+export interface MonthlyFlow {
+  month: string; // YYYY-MM
+  inflowUsd: number;
+  outflowUsd: number;
+  netUsd: number;
+  tokens: MonthlyTokenFlow[];
+  complete: boolean; // false when a wallet has no snapshot before or at the end of the month
+}
+
+function monthEnd(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return toPriceDate(new Date(Date.UTC(year, monthNumber, 0)));
+}
+
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let year = parseInt(from.slice(0, 4));
+  let month = parseInt(from.slice(5, 7));
+  const last = to.slice(0, 7);
+  while (months.length < 120) {
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    if (key > last) break;
+    months.push(key);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return months;
+}
+
+/** Net inflow and outflow per month across all Safes and chains */
+export async function getMonthlyFlows(from: string, to: string): Promise<MonthlyFlow[]> {
+  const months = monthsBetween(from, to);
+  if (months.length === 0) return [];
+  const wallets = (await storage.getDaoSafeWallets()).filter(w => w.isActive !== false);
+  const rangeStart = `${months[0]}-01`;
+  const rangeEnd = monthEnd(months[months.length - 1]);
+  // Snapshots from before the range give the opening balance of its first month
+  const snapshots = await storage.getDaoSafeBalanceSnapshots({ from: addDays(rangeStart, -ALLOCATION_LOOKBACK_DAYS), to: rangeEnd });
+  const txs = await storage.getExecutedDaoSafeTxsBetween(new Date(`${rangeStart}T00:00:00Z`), new Date(`${addDays(rangeEnd, 1)}T00:00:00Z`));
+
+  const result: MonthlyFlow[] = [];
+  for (const month of months) {
+    const start = `${month}-01`;
+    const end = monthEnd(month);
+    const opening = latestPerWallet(snapshots.filter(s => s.snapshotDate < start));
+    const closing = latestPerWallet(snapshots.filter(s => s.snapshotDate <= end));
+    const complete = wallets.every(w => opening.some(s => s.walletId === w.id) && closing.some(s => s.walletId === w.id));
+
+    // Per wallet and token: opening units, closing units and price, outflow units
+    const flows = new Map<string, { symbol: string; opening: number; closing: number; out: number; price: number | null }>();
+    const flowOf = (walletId: number, tokenKey: string, symbol: string) => {
+      const key = `${walletId}:${tokenKey}`;
+      const flow = flows.get(key) ?? { symbol, opening: 0, closing: 0, out: 0, price: null };
+      flows.set(key, flow);
+      return flow;
+    };
+    // A token spent out during the month has no closing row, so it keeps its opening price
+    for (const row of opening) {
+      const flow = flowOf(row.walletId, row.tokenKey, row.tokenSymbol);
+      flow.opening += row.units;
+      flow.price = row.usdPrice;
+    }
+    for (const row of closing) {
+      const flow = flowOf(row.walletId, row.tokenKey, row.tokenSymbol);
+      flow.closing += row.units;
+      if (row.usdPrice !== null) flow.price = row.usdPrice;
+    }
+    for (const tx of txs) {
+      const executed = tx.executedAt ? toPriceDate(tx.executedAt) : null;
+      if (!executed || executed < start || executed > end) continue;
+      for (const transfer of decodeTransfers(tx.to, BigInt(tx.value || "0"), tx.data)) {
+        const tokenKey = tokenKeyOf(transfer.tokenAddress);
+        const known = snapshots.find(s => s.walletId === tx.walletId && s.tokenKey === tokenKey);
+        if (!known) continue; // A token the Safe never held in a snapshot can't be converted to units
+        flowOf(tx.walletId, tokenKey, known.tokenSymbol).out += Number(formatUnits(transfer.amount, known.tokenDecimals));
+      }
+    }
+
+    // Outflows of tokens held only mid-month (or never priced) still need a month-end price
+    const unpricedSymbols = Array.from(new Set(Array.from(flows.values()).filter(f => f.price === null && f.out > 0).map(f => f.symbol)));
+    if (unpricedSymbols.length > 0) {
+      const prices = await resolvePrices(unpricedSymbols.map(symbol => ({ symbol })), end);
+      flows.forEach(flow => {
+        if (flow.price === null) flow.price = prices.get(flow.symbol.toUpperCase())?.usdPrice ?? null;
+      });
+    }
+
+    const bySymbol = new Map<string, MonthlyTokenFlow>();
+    Array.from(flows.values()).forEach(flow => {
+      const inflow = Math.max(0, flow.closing - flow.opening + flow.out);
+      const symbol = flow.symbol.toUpperCase();
+      const entry = bySymbol.get(symbol) ?? { tokenSymbol: symbol, inflowUnits: 0, outflowUnits: 0, inflowUsd: 0, outflowUsd: 0 };
+      entry.inflowUnits += inflow;
+      entry.outflowUnits += flow.out;
+      entry.inflowUsd = entry.inflowUsd === null || flow.price === null ? null : entry.inflowUsd + inflow * flow.price;
+      entry.outflowUsd = entry.outflowUsd === null || flow.price === null ? null : entry.outflowUsd + flow.out * flow.price;
+      bySymbol.set(symbol, entry);
+    });
+    const tokens = Array.from(bySymbol.values())
+      .filter(t => t.inflowUnits > 0 || t.outflowUnits > 0)
+      .map(t => ({ ...t, inflowUsd: t.inflowUsd === null ? null : round2(t.inflowUsd), outflowUsd: t.outflowUsd === null ? null : round2(t.outflowUsd) }));
+    const inflowUsd = round2(tokens.reduce((sum, t) => sum + (t.inflowUsd ?? 0), 0));
+    const outflowUsd = round2(tokens.reduce((sum, t) => sum + (t.outflowUsd ?? 0), 0));
+    result.push({ month, inflowUsd, outflowUsd, netUsd: round2(inflowUsd - outflowUsd), tokens, complete });
+  }
+  return result;
+}
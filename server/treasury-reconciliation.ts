@@ -0,0 +1,491 @@
+import { Interface, formatUnits, getAddress } from "ethers";
+import { storage } from "./storage";
+import { unpackMultiSend } from "./safe-decoder";
+import { getNativeTokenSymbol } from "./safe-service";
+import { USD_CURRENCIES } from "./safe-payouts";
+import {
+  type DaoReconciliationLink,
+  type DaoReconciliationPeriod,
+  type DaoReconciliationWalletBalance,
+  type DaoSafeTxHistory,
+  type DaoSafeWallet,
+  type DaoTreasury,
+  type DaoTreasuryTransaction,
+  type InsertDaoReconciliationLink,
+  type InsertDaoReconciliationPeriod,
+  type TreasuryTxnType,
+} from "@shared/schema";
+
+/**
+ * Treasury reconciliation
+ *
+ * Checks the internal ledger (dao_treasury_transactions, written by invoice settlement, bonus
+ * runs and manual entries) against what the DAO Safes actually did (dao_safe_tx_history and
+ * dao_safe_balances from safe-sync). Safe history only holds outgoing multisig transactions,
+ * so entries are matched for ledger outflows (bonus runs and expenses) only:
+ *
+ * 1. A bonus run paid through a payout batch is linked to the batch's executed transaction.
+ * 2. Otherwise an outflow is matched to an executed Safe transaction whose transfers are worth
+ *    the same in USD (within the treasury's amount tolerance, to absorb price moves), executed
+ *    within the date window, and paying the entry's token and counterparty when it names them.
+ *
+ * Transfers are decoded from the calldata (native value, ERC-20 transfer, multiSend) and valued
+ * at the USD price implied by the wallet's cached balances; stablecoins count 1:1. Whatever is
+ * left lands in the review queue, where an admin links the two sides by hand or marks one as
+ * needing no counterpart. Inflows are covered by the period close report, which compares the
+ * ledger balance at the end of the period with the Safes' balances and flags drift.
+ */
+
+// Ledger entry types that leave the treasury through a Safe
+const RECONCILED_TXN_TYPES: TreasuryTxnType[] = ["bonus_outflow", "expense"];
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_AMOUNT_TOLERANCE_BPS = 100;
+const DEFAULT_DRIFT_TOLERANCE_BPS = 100;
+
+// Suggested counterparts shown for each item in the review queue
+const MAX_SUGGESTIONS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const erc20Interface = new Interface(["function transfer(address to, uint256 value)"]);
+const multiSendInterface = new Interface(["function multiSend(bytes transactions)"]);
+
+export type ReconciliationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "conflict" | "invalid", error: string): ReconciliationResult<T> {
+  return { ok: false, code, error };
+}
+
+function formatUsd(cents: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cents / 100);
+}
+
+interface ReconciliationSettings {
+  windowDays: number;
+  amountToleranceBps: number;
+  driftToleranceBps: number;
+}
+
+function settingsOf(treasury: DaoTreasury | undefined): ReconciliationSettings {
+  return {
+    windowDays: treasury?.reconciliationWindowDays ?? DEFAULT_WINDOW_DAYS,
+    amountToleranceBps: treasury?.reconciliationAmountToleranceBps ?? DEFAULT_AMOUNT_TOLERANCE_BPS,
+    driftToleranceBps: treasury?.reconciliationDriftToleranceBps ?? DEFAULT_DRIFT_TOLERANCE_BPS,
+  };
+}
+
+// ==================== Valuing Safe transactions ====================
+
+export interface SafeTransfer {
+  tokenAddress: string | null; // Lowercase; null for the native token
+  recipient: string;
+  amount: bigint;
+}
+
+// Transfers a Safe call makes: its native value, an ERC-20 transfer, or either inside a multiSend
+export function decodeTransfers(to: string, value: bigint, data: string | null, depth = 0): SafeTransfer[] {
+  const transfers: SafeTransfer[] = [];
+  if (value > BigInt(0)) {
+    transfers.push({ tokenAddress: null, recipient: getAddress(to), amount: value });
+  }
+  if (!data || data === "0x") return transfers;
+  try {
+    const transfer = erc20Interface.parseTransaction({ data });
+    if (transfer) {
+      transfers.push({ tokenAddress: to.toLowerCase(), recipient: getAddress(transfer.args[0]), amount: transfer.args[1] });
+      return transfers;
+    }
+    const multiSend = multiSendInterface.parseTransaction({ data });
+    if (multiSend && depth < 2) {
+      for (const call of unpackMultiSend(multiSend.args[0])) {
+        transfers.push(...decodeTransfers(call.to, call.value, call.data, depth + 1));
+      }
+    }
+  } catch {
+    // Calldata that doesn't decode isn't a transfer
+  }
+  return transfers;
+}
+
+interface TokenPrice {
+  symbol: string;
+  decimals: number;
+  usdPrice: number | null;
+}
+
+// USD prices implied by a wallet's cached balances, keyed by lowercase token address ("native" for the chain token)
+async function loadWalletPrices(wallet: DaoSafeWallet): Promise<Map<string, TokenPrice>> {
+  const prices = new Map<string, TokenPrice>();
+  prices.set("native", { symbol: getNativeTokenSymbol(wallet.chainId), decimals: 18, usdPrice: null });
+  for (const balance of await storage.getDaoSafeBalances(wallet.id)) {
+    const decimals = balance.tokenDecimals ?? 18;
+    const units = Number(formatUnits(balance.balance, decimals));
+    let usdPrice: number | null = null;
+    if (USD_CURRENCIES.includes(balance.tokenSymbol.toUpperCase())) usdPrice = 1;
+    else if (balance.balanceUsd != null && units > 0) usdPrice = balance.balanceUsd / units;
+    prices.set(balance.tokenAddress ? balance.tokenAddress.toLowerCase() : "native", { symbol: balance.tokenSymbol, decimals, usdPrice });
+  }
+  return prices;
+}
+
+export interface SafeTxValuation {
+  safeTx: DaoSafeTxHistory;
+  walletLabel: string | null;
+  usdCents: number | null; // null when a transferred token has no known price
+  tokens: string[];
+  recipients: string[];
+}
+
+interface ValuationContext {
+  wallets: Map<number, DaoSafeWallet>;
+  prices: Map<number, Map<string, TokenPrice>>;
+}
+
+async function loadValuationContext(): Promise<ValuationContext> {
+  const wallets = await storage.getDaoSafeWallets();
+  const prices = new Map<number, Map<string, TokenPrice>>();
+  for (const wallet of wallets) {
+    prices.set(wallet.id, await loadWalletPrices(wallet));
+  }
+  return { wallets: new Map(wallets.map(w => [w.id, w])), prices };
+}
+
+function valueSafeTx(tx: DaoSafeTxHistory, context: ValuationContext): SafeTxValuation {
+  const transfers = decodeTransfers(tx.to, BigInt(tx.value || "0"), tx.data);
+  const prices = context.prices.get(tx.walletId) ?? new Map<string, TokenPrice>();
+  let usd = 0;
+  let priced = true;
+  const tokens = new Set<string>();
+  for (const transfer of transfers) {
+    const price = prices.get(transfer.tokenAddress ?? "native");
+    tokens.add(price?.symbol ?? transfer.tokenAddress ?? "?");
+    if (!price || price.usdPrice === null) {
+      priced = false;
+      continue;
+    }
+    usd += Number(formatUnits(transfer.amount, price.decimals)) * price.usdPrice;
+  }
+  return {
+    safeTx: tx,
+    walletLabel: context.wallets.get(tx.walletId)?.label ?? null,
+    usdCents: transfers.length > 0 && priced ? Math.round(usd * 100) : null,
+    tokens: Array.from(tokens),
+    recipients: Array.from(new Set(transfers.map(t => t.recipient))),
+  };
+}
+
+// Executed transactions that move funds; settings changes and other calls need no ledger entry
+function movesFunds(valuation: SafeTxValuation): boolean {
+  return valuation.tokens.length > 0;
+}
+
+// ==================== Matching ====================
+
+export interface ReconciliationCandidate {
+  amountDiffCents: number | null; // null when the Safe transaction couldn't be valued
+  dayDiff: number;
+  tokenMatches: boolean;
+  counterpartyMatches: boolean;
+}
+
+function safeTxDate(tx: DaoSafeTxHistory): Date | null {
+  return tx.executedAt ?? tx.submittedAt;
+}
+
+// How well a Safe transaction fits a ledger outflow; null when it's outside the date window
+function compare(entry: DaoTreasuryTransaction, valuation: SafeTxValuation, settings: ReconciliationSettings): ReconciliationCandidate | null {
+  const executed = safeTxDate(valuation.safeTx);
+  if (!entry.createdAt || !executed) return null;
+  const dayDiff = Math.abs(executed.getTime() - entry.createdAt.getTime()) / DAY_MS;
+  if (dayDiff > settings.windowDays) return null;
+  return {
+    amountDiffCents: valuation.usdCents === null ? null : Math.abs(valuation.usdCents - Math.abs(entry.amount)),
+    dayDiff: Math.round(dayDiff * 10) / 10,
+    tokenMatches: !entry.tokenSymbol || valuation.tokens.some(t => t.toUpperCase() === entry.tokenSymbol!.toUpperCase()),
+    counterpartyMatches: !entry.counterpartyAddress || valuation.recipients.some(r => r.toLowerCase() === entry.counterpartyAddress!.toLowerCase()),
+  };
+}
+
+function isMatch(entry: DaoTreasuryTransaction, candidate: ReconciliationCandidate, settings: ReconciliationSettings): boolean {
+  if (candidate.amountDiffCents === null || !candidate.tokenMatches || !candidate.counterpartyMatches) return false;
+  const tolerance = Math.max(1, Math.round(Math.abs(entry.amount) * settings.amountToleranceBps / 10000));
+  return candidate.amountDiffCents <= tolerance;
+}
+
+function byCloseness(a: ReconciliationCandidate, b: ReconciliationCandidate): number {
+  const amountA = a.amountDiffCents ?? Number.MAX_SAFE_INTEGER;
+  const amountB = b.amountDiffCents ?? Number.MAX_SAFE_INTEGER;
+  return amountA - amountB || a.dayDiff - b.dayDiff;
+}
+
+async function loadLedgerOutflows(): Promise<DaoTreasuryTransaction[]> {
+  const entries = await storage.getUnreconciledDaoTreasuryTransactions(RECONCILED_TXN_TYPES);
+  return entries.filter(e => e.amount < 0);
+}
+
+async function loadSafeValuations(context: ValuationContext): Promise<SafeTxValuation[]> {
+  const txs = await storage.getUnreconciledDaoSafeTxs();
+  return txs.map(tx => valueSafeTx(tx, context)).filter(movesFunds);
+}
+
+// The executed payout batch transaction that paid a bonus run, if any
+async function findBonusRunPayment(bonusRunId: number): Promise<DaoSafeTxHistory | undefined> {
+  const recipients = await storage.getDaoBonusRunRecipients(bonusRunId);
+  const items = await storage.getDaoPayoutItemsForSources("bonus_recipient", recipients.map(r => r.id));
+  const batchIds = Array.from(new Set(items.map(i => i.batchId)));
+  for (const batchId of batchIds) {
+    const batch = await storage.getDaoPayoutBatch(batchId);
+    if (batch?.status !== "executed" || !batch.safeTxHash) continue;
+    const tx = await storage.getDaoSafeTxByHash(batch.safeTxHash);
+    if (tx) return tx;
+  }
+  return undefined;
+}
+
+/** Link every ledger outflow that has a clear counterpart in Safe history */
+export async function reconcileTreasury(): Promise<DaoReconciliationLink[]> {
+  const settings = settingsOf(await storage.getDaoTreasury());
+  const context = await loadValuationContext();
+  const entries = await loadLedgerOutflows();
+  if (entries.length === 0) return [];
+  let valuations = await loadSafeValuations(context);
+  const links: InsertDaoReconciliationLink[] = [];
+
+  const unmatched: DaoTreasuryTransaction[] = [];
+  for (const entry of entries) {
+    const payment = entry.txnType === "bonus_outflow" && entry.bonusRunId ? await findBonusRunPayment(entry.bonusRunId) : undefined;
+    if (!payment) {
+      unmatched.push(entry);
+      continue;
+    }
+    links.push({
+      ledgerTransactionId: entry.id,
+      safeTxHistoryId: payment.id,
+      method: "payout_batch",
+      ledgerAmountCents: entry.amount,
+      safeAmountCents: valueSafeTx(payment, context).usdCents,
+      note: `Bonus run #${entry.bonusRunId} paid by payout batch`,
+    });
+    valuations = valuations.filter(v => v.safeTx.id !== payment.id);
+  }
+
+  // Each Safe transaction matches one outflow automatically; multisends covering several go through review
+  for (const entry of unmatched) {
+    const best = valuations
+      .map(valuation => ({ valuation, candidate: compare(entry, valuation, settings) }))
+      .filter((c): c is { valuation: SafeTxValuation; candidate: ReconciliationCandidate } => !!c.candidate && isMatch(entry, c.candidate, settings))
+      .sort((a, b) => byCloseness(a.candidate, b.candidate))[0];
+    if (!best) continue;
+    links.push({
+      ledgerTransactionId: entry.id,
+      safeTxHistoryId: best.valuation.safeTx.id,
+      method: "auto",
+      ledgerAmountCents: entry.amount,
+      safeAmountCents: best.valuation.usdCents,
+    });
+    valuations = valuations.filter(v => v !== best.valuation);
+  }
+
+  const created = await storage.createDaoReconciliationLinks(links);
+  if (created.length > 0) {
+    console.log(`[Reconciliation] Matched ${created.length} of ${entries.length} ledger outflow(s)`);
+  }
+  return created;
+}
+
+// ==================== Review queue ====================
+
+export interface LedgerQueueItem {
+  entry: DaoTreasuryTransaction;
+  suggestions: (ReconciliationCandidate & { safeTxHistoryId: number })[];
+}
+
+export interface SafeQueueItem {
+  valuation: SafeTxValuation;
+  suggestions: (ReconciliationCandidate & { ledgerTransactionId: number })[];
+}
+
+export interface ReconciliationQueue {
+  ledger: LedgerQueueItem[];
+  safe: SafeQueueItem[];
+}
+
+/** Unmatched ledger outflows and fund-moving Safe transactions, with the closest counterparts in the date window */
+export async function getReconciliationQueue(): Promise<ReconciliationQueue> {
+  const settings = settingsOf(await storage.getDaoTreasury());
+  const context = await loadValuationContext();
+  const entries = await loadLedgerOutflows();
+  const valuations = await loadSafeValuations(context);
+
+  const ledger = entries.map(entry => ({
+    entry,
+    suggestions: valuations
+      .map(v => {
+        const candidate = compare(entry, v, settings);
+        return candidate ? { ...candidate, safeTxHistoryId: v.safeTx.id } : null;
+      })
+      .filter((c): c is ReconciliationCandidate & { safeTxHistoryId: number } => c !== null)
+      .sort(byCloseness)
+      .slice(0, MAX_SUGGESTIONS),
+  }));
+  const safe = valuations.map(valuation => ({
+    valuation,
+    suggestions: entries
+      .map(entry => {
+        const candidate = compare(entry, valuation, settings);
+        return candidate ? { ...candidate, ledgerTransactionId: entry.id } : null;
+      })
+      .filter((c): c is ReconciliationCandidate & { ledgerTransactionId: number } => c !== null)
+      .sort(byCloseness)
+      .slice(0, MAX_SUGGESTIONS),
+  }));
+  return { ledger, safe };
+}
+
+export interface ManualLinkInput {
+  ledgerTransactionId?: number;
+  safeTxHistoryId?: number;
+  note?: string;
+}
+
+/** Link a ledger entry to a Safe transaction, or mark either side alone as needing no counterpart */
+export async function linkReconciliationItems(input: ManualLinkInput, userId: string): Promise<ReconciliationResult<DaoReconciliationLink>> {
+  const entry = input.ledgerTransactionId !== undefined ? await storage.getDaoTreasuryTransaction(input.ledgerTransactionId) : undefined;
+  if (input.ledgerTransactionId !== undefined && !entry) return fail("not_found", "Ledger entry not found");
+  const safeTx = input.safeTxHistoryId !== undefined ? await storage.getDaoSafeTx(input.safeTxHistoryId) : undefined;
+  if (input.safeTxHistoryId !== undefined && !safeTx) return fail("not_found", "Safe transaction not found");
+  if (safeTx && safeTx.status !== "executed") return fail("invalid", "Only executed Safe transactions can be reconciled");
+
+  if (safeTx) {
+    const existing = await storage.getDaoReconciliationLinksForSafeTx(safeTx.id);
+    if (existing.some(l => l.method === "ignored")) return fail("conflict", "Safe transaction is marked as needing no ledger entry");
+    if (!entry && existing.length > 0) return fail("conflict", "Safe transaction is already linked to a ledger entry");
+  }
+
+  const context = safeTx ? await loadValuationContext() : undefined;
+  const [created] = await storage.createDaoReconciliationLinks([{
+    ledgerTransactionId: entry?.id ?? null,
+    safeTxHistoryId: safeTx?.id ?? null,
+    method: entry && safeTx ? "manual" : "ignored",
+    ledgerAmountCents: entry?.amount ?? null,
+    safeAmountCents: safeTx && context ? valueSafeTx(safeTx, context).usdCents : null,
+    note: input.note?.trim() || null,
+    linkedBy: userId,
+  }]);
+  if (!created) return fail("conflict", "Ledger entry is already reconciled");
+  console.log(`[Reconciliation] ${created.method === "manual" ? "Linked" : "Ignored"} ledger #${created.ledgerTransactionId ?? "-"} / Safe tx #${created.safeTxHistoryId ?? "-"} by ${userId}`);
+  return { ok: true, value: created };
+}
+
+/** Undo a link so both sides go back to the review queue */
+export async function unlinkReconciliation(id: number): Promise<ReconciliationResult<DaoReconciliationLink>> {
+  const link = await storage.getDaoReconciliationLink(id);
+  if (!link) return fail("not_found", "Reconciliation link not found");
+  await storage.deleteDaoReconciliationLink(id);
+  return { ok: true, value: link };
+}
+
+// ==================== Period close ====================
+
+export type PeriodCloseReport = Omit<InsertDaoReconciliationPeriod, "id" | "closedAt">;
+
+async function loadWalletBalances(): Promise<{ balances: DaoReconciliationWalletBalance[]; stale: string[] }> {
+  const wallets = (await storage.getDaoSafeWallets()).filter(w => w.isActive !== false);
+  const balances: DaoReconciliationWalletBalance[] = [];
+  for (const wallet of wallets) {
+    const tokens = await storage.getDaoSafeBalances(wallet.id);
+    balances.push({
+      walletId: wallet.id,
+      label: wallet.label,
+      chainId: wallet.chainId,
+      safeAddress: wallet.address,
+      balanceUsdCents: Math.round(tokens.reduce((sum, t) => sum + (t.balanceUsd ?? 0), 0) * 100),
+      unpricedTokens: tokens.filter(t => t.balanceUsd == null && t.balance !== "0").map(t => t.tokenSymbol),
+    });
+  }
+  return { balances, stale: wallets.filter(w => !w.lastSyncedAt).map(w => w.label) };
+}
+
+/** Ledger totals for the period, compared with the Safes' current balances */
+export async function buildPeriodReport(periodStart: Date, periodEnd: Date): Promise<PeriodCloseReport> {
+  const treasury = await storage.getDaoTreasury();
+  const settings = settingsOf(treasury);
+  const now = new Date();
+
+  const summary = await storage.getDaoTreasuryLedgerSummary(periodStart, periodEnd);
+  const ledgerClosingCents = summary.openingCents + summary.inflowCents + summary.outflowCents;
+  const { balances, stale } = await loadWalletBalances();
+  const safeBalanceUsdCents = balances.reduce((sum, b) => sum + b.balanceUsdCents, 0);
+  const driftCents = safeBalanceUsdCents - ledgerClosingCents;
+  const driftBps = Math.round(Math.abs(driftCents) * 10000 / Math.max(Math.abs(ledgerClosingCents), 1));
+
+  const inPeriod = (date: Date | null) => !!date && date >= periodStart && date < periodEnd;
+  const unmatchedLedger = (await loadLedgerOutflows()).filter(e => inPeriod(e.createdAt));
+  const unmatchedSafe = (await loadSafeValuations(await loadValuationContext())).filter(v => inPeriod(safeTxDate(v.safeTx)));
+  const outflows = (await storage.getDaoTreasuryTransactionsBetween(periodStart, periodEnd))
+    .filter(e => RECONCILED_TXN_TYPES.includes(e.txnType) && e.amount < 0);
+
+  const flags: string[] = [];
+  if (driftBps > settings.driftToleranceBps) {
+    flags.push(`Safe balances differ from the ledger by ${formatUsd(driftCents)} (${(driftBps / 100).toFixed(2)}%)`);
+  }
+  if (unmatchedLedger.length > 0) flags.push(`${unmatchedLedger.length} ledger outflow(s) have no Safe transaction`);
+  if (unmatchedSafe.length > 0) flags.push(`${unmatchedSafe.length} Safe transaction(s) have no ledger entry`);
+  const unpriced = Array.from(new Set(balances.flatMap(b => b.unpricedTokens)));
+  if (unpriced.length > 0) flags.push(`No USD value for ${unpriced.join(", ")}; left out of the Safe balance`);
+  if (stale.length > 0) flags.push(`Never synced: ${stale.join(", ")}`);
+  if (now.getTime() - periodEnd.getTime() > settings.windowDays * DAY_MS) {
+    flags.push(`Safe balances are from ${now.toISOString().slice(0, 10)}, not the end of the period`);
+  }
+  // dao_treasury.balance is kept separately from the ledger; both should move together
+  const after = await storage.getDaoTreasuryLedgerSummary(periodEnd, now);
+  const ledgerNowCents = ledgerClosingCents + after.inflowCents + after.outflowCents;
+  const treasuryBalanceCents = treasury?.balance ?? 0;
+  if (treasuryBalanceCents !== ledgerNowCents) {
+    flags.push(`Treasury balance ${formatUsd(treasuryBalanceCents)} doesn't equal the ledger total ${formatUsd(ledgerNowCents)}`);
+  }
+
+  return {
+    periodStart,
+    periodEnd,
+    ledgerOpeningCents: summary.openingCents,
+    ledgerInflowCents: summary.inflowCents,
+    ledgerOutflowCents: summary.outflowCents,
+    ledgerClosingCents,
+    treasuryBalanceCents,
+    safeBalanceUsdCents,
+    driftCents,
+    driftToleranceBps: settings.driftToleranceBps,
+    flagged: flags.length > 0,
+    flags,
+    matchedCount: outflows.length - unmatchedLedger.length,
+    unmatchedLedgerCount: unmatchedLedger.length,
+    unmatchedSafeCount: unmatchedSafe.length,
+    walletBalances: balances,
+  };
+}
+
+export interface ClosePeriodInput {
+  periodStart: Date;
+  periodEnd: Date;
+  note?: string;
+}
+
+/** Run matching, then store the period's report; periods can't overlap an earlier close */
+export async function closeReconciliationPeriod(input: ClosePeriodInput, userId: string): Promise<ReconciliationResult<DaoReconciliationPeriod>> {
+  if (input.periodEnd > new Date()) return fail("invalid", "The period hasn't ended yet");
+  const latest = await storage.getLatestDaoReconciliationPeriod();
+  if (latest && input.periodStart < latest.periodEnd) {
+    return fail("conflict", `Periods must start on or after ${latest.periodEnd.toISOString()}, the end of the last closed period`);
+  }
+
+  await reconcileTreasury();
+  const report = await buildPeriodReport(input.periodStart, input.periodEnd);
+  const period = await storage.createDaoReconciliationPeriod({ ...report, note: input.note?.trim() || null, closedBy: userId });
+  if (!period) return fail("conflict", "A period starting at that time is already closed");
+  console.log(`[Reconciliation] Closed ${period.periodStart.toISOString()} - ${period.periodEnd.toISOString()} (drift ${formatUsd(period.driftCents)}${period.flagged ? ", flagged" : ""})`);
+  return { ok: true, value: period };
+}
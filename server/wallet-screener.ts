@@ -0,0 +1,456 @@
+import { storage } from "./storage";
+import { enqueueJob, triggerJob } from "./job-scheduler";
+import { getChainDataProvider, SCREENER_CHAINS, type ChainDataProvider, type WalletActivity } from "./chain-data-providers";
+import type {
+  ScheduledJob,
+  User,
+  WalletRiskLevel,
+  WalletScreenFlags,
+  WalletScreenMetrics,
+  WalletScreenResult,
+  WalletScreeningJob,
+  WalletScreeningJobItem,
+} from "@shared/schema";
+
+/**
+ * Wallet screener
+ *
+ * Screening runs as a queued job: submitting a batch stores one item per address and
+ * enqueues a "wallet-screening" background job. Each run of the job screens one pass of
+ * ITEMS_PER_PASS pending items and then queues (and starts) a follow-up job for the next
+ * pass, so a large batch never holds the scheduler for longer than one pass. A crashed or
+ * retried pass resumes where it stopped, and a cancelled job stops after the current pass.
+ *
+ * Each address is analysed on its own from the chain data provider's history and the result
+ * is cached per chain and address for CACHE_TTL_HOURS, so overlapping batches only fetch new
+ * addresses; a cached result only counts for the provider that produced it. Once every item is done, the batch as a whole is checked for sybil clusters:
+ * wallets first funded by the same address within CLUSTER_WINDOW_DAYS of each other.
+ *
+ * Per-address heuristics:
+ * - New wallet: first transaction under 30 days ago.
+ * - Low activity: fewer than 10 transactions on a wallet older than 30 days, or none at all.
+ * - High frequency: more than 20 transactions a day on average, or 200 in a single day.
+ * - Bot: outgoing transactions at near-constant intervals, or 5+ sent in a single block.
+ * - Sybil: every outgoing transfer goes to one destination (funds swept to a collector).
+ * - Airdrop farmer: 15+ contracts called, mostly just once each, with few calls per contract.
+ */
+
+export const CACHE_TTL_HOURS = Number(process.env.WALLET_SCREENER_CACHE_HOURS) || 24;
+export const MAX_JOB_ADDRESSES = 10000;
+
+const ITEMS_PER_PASS = 25;
+const CLUSTER_MIN_SIZE = 3;
+const CLUSTER_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEI_PER_ETH = BigInt("1000000000000000000");
+
+const RISK_WEIGHTS = {
+  exchange: 5,
+  contract: 10,
+  newWallet: 15,
+  lowActivity: 10,
+  highFrequency: 20,
+  bot: 40,
+  sybil: 35,
+  airdropFarmer: 30,
+};
+
+// Known exchange hot wallets; funding from these doesn't link wallets into a cluster
+export const KNOWN_EXCHANGE_ADDRESSES = new Set([
+  "0x28c6c06298d514db089934071355e5743bf21d60", // Binance 14
+  "0x21a31ee1afc51d94c2efccaa2092ad1028285549", // Binance 15
+  "0xdfd5293d8e347dfe59e90efd55b2956a1343963d", // Binance 16
+  "0x56eddb7aa87536c09ccc2793473599fd21a8b17f", // Binance 17
+  "0x9696f59e4d72e237be84ffd425dcad154bf96976", // Binance 18
+  "0x4d9ff50ef4da947364bb9650f15d9e0a8b2e1d67", // Binance 19
+  "0x71660c4005ba85c37ccec55d0c4493e66fe775d3", // Coinbase 1
+  "0x503828976d22510aad0201ac7ec88293211d23da", // Coinbase 2
+  "0xddfabcdc4d8ffc6d5beaf154f18b778f892a0740", // Coinbase 3
+  "0x3cd751e6b0078be393132286c442345e5dc49699", // Coinbase 4
+  "0xb5d85cbf7cb3ee0d56b3bb207d5fc4b82f43f511", // Coinbase 5
+  "0xeb2629a2734e272bcc07bda959863f316f4bd4cf", // Coinbase 6
+  "0x02466e547bfdab679fc49e96bbfc62b9747d997c", // Coinbase 8
+  "0x6cc5f688a315f3dc28a7781717a9a798a59fda7b", // OKX 1
+  "0x236f9f97e0e62388479bf9e5ba4889e46b0273c3", // OKX 2
+  "0xa7efae728d2936e78bda97dc267687568dd593f3", // OKX 3
+  "0x2c8fbb630289363ac80705a1a61273f76fd5a161", // KuCoin 1
+  "0xd6216fc19db775df9774a6e33526131da7d19a2c", // KuCoin 2
+  "0xf3f094484ec6901ffc9681bcb808b96bafd0b8a8", // Kraken 1
+  "0x2910543af39aba0cd09dbb2d50200b3e800a63d2", // Kraken 2
+  "0x0a869d79a7052c7f1b55a8ebabbea3420f0d1e13", // Kraken 3
+  "0xe853c56864a2ebe4576a807d26fdc4a0ada51919", // Kraken 4
+]);
+
+export type ScreenerResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; code: "not_found" | "forbidden" | "conflict" | "invalid"; error: string };
+
+function fail<T>(code: "not_found" | "forbidden" | "conflict" | "invalid", error: string): ScreenerResult<T> {
+  return { ok: false, code, error };
+}
+
+// ==================== Analysis ====================
+
+function formatEth(wei: bigint): string {
+  const whole = wei / WEI_PER_ETH;
+  const fraction = (wei % WEI_PER_ETH).toString().padStart(18, "0").slice(0, 6).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+function riskLevelFor(score: number): WalletRiskLevel {
+  if (score >= 70) return "critical";
+  if (score >= 45) return "high";
+  if (score >= 25) return "medium";
+  return "low";
+}
+
+function hasRegularIntervals(timestamps: number[]): boolean {
+  const recent = timestamps.slice(-101);
+  if (recent.length < 11) return false;
+  const gaps = recent.slice(1).map((t, i) => t - recent[i]);
+  const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+  if (mean <= 0) return false;
+  const stdDev = Math.sqrt(gaps.reduce((sum, gap) => sum + Math.pow(gap - mean, 2), 0) / gaps.length);
+  return stdDev / mean < 0.1;
+}
+
+/** Score one address from its on-chain activity; batch-level sybil clusters are applied separately */
+export function analyzeWallet(
+  chainId: number,
+  address: string,
+  activity: WalletActivity,
+  providerName: ChainDataProvider["name"],
+  now: Date = new Date(),
+): WalletScreenResult {
+  const txs = activity.transactions;
+  const outgoing = txs.filter(tx => tx.from === address);
+  const firstIncoming = txs.find(tx => tx.to === address && tx.from !== address && tx.value !== "0");
+
+  const first = txs[0];
+  const last = txs[txs.length - 1];
+  const walletAgeDays = first ? Math.max(0, Math.floor((now.getTime() - first.timestamp * 1000) / DAY_MS)) : 0;
+
+  const perDay = new Map<string, number>();
+  for (const tx of txs) {
+    const day = new Date(tx.timestamp * 1000).toISOString().slice(0, 10);
+    perDay.set(day, (perDay.get(day) ?? 0) + 1);
+  }
+
+  const callsPerContract = new Map<string, number>();
+  let gasWei = BigInt(0);
+  for (const tx of outgoing) {
+    if (tx.isContractCall && tx.to) callsPerContract.set(tx.to, (callsPerContract.get(tx.to) ?? 0) + 1);
+    if (tx.gasUsed && tx.gasPrice) gasWei += BigInt(tx.gasUsed) * BigInt(tx.gasPrice);
+  }
+
+  const metrics: WalletScreenMetrics = {
+    txCount: txs.length,
+    firstTxDate: first ? new Date(first.timestamp * 1000).toISOString().slice(0, 10) : null,
+    lastTxDate: last ? new Date(last.timestamp * 1000).toISOString().slice(0, 10) : null,
+    walletAgeDays,
+    avgTxPerDay: Math.round((txs.length / Math.max(walletAgeDays, 1)) * 100) / 100,
+    uniqueContractsInteracted: callsPerContract.size,
+    totalGasSpent: formatEth(gasWei),
+    nftCollectionsHeld: activity.nftCollectionsHeld,
+    fundedBy: firstIncoming?.from ?? null,
+    maxTxPerDay: Math.max(0, ...Array.from(perDay.values())),
+    historyTruncated: activity.truncated,
+  };
+
+  const flags: WalletScreenFlags = {
+    isBot: false,
+    isSybil: false,
+    isContract: activity.isContract,
+    isExchange: KNOWN_EXCHANGE_ADDRESSES.has(address),
+    isNewWallet: txs.length > 0 && walletAgeDays < 30,
+    lowActivity: txs.length === 0 || (txs.length < 10 && walletAgeDays >= 30),
+    highFrequencyTrader: metrics.avgTxPerDay > 20 || metrics.maxTxPerDay >= 200,
+    airdropFarmer: false,
+  };
+
+  const perBlock = new Map<number, number>();
+  for (const tx of outgoing) perBlock.set(tx.blockNumber, (perBlock.get(tx.blockNumber) ?? 0) + 1);
+  flags.isBot = hasRegularIntervals(outgoing.map(tx => tx.timestamp))
+    || Array.from(perBlock.values()).some(count => count >= 5);
+
+  const destinations = new Set(outgoing.map(tx => tx.to));
+  flags.isSybil = outgoing.length >= 3 && destinations.size === 1;
+
+  const oneShotContracts = Array.from(callsPerContract.values()).filter(count => count === 1).length;
+  const contractCalls = Array.from(callsPerContract.values()).reduce((sum, count) => sum + count, 0);
+  flags.airdropFarmer = callsPerContract.size >= 15
+    && oneShotContracts / callsPerContract.size >= 0.6
+    && contractCalls / callsPerContract.size < 3;
+
+  const labels: string[] = [];
+  let riskScore = 0;
+  const raise = (flagged: boolean, label: string, weight: number) => {
+    if (!flagged) return;
+    labels.push(label);
+    riskScore += weight;
+  };
+  raise(flags.isExchange, "Known Exchange", RISK_WEIGHTS.exchange);
+  raise(flags.isContract, "Contract", RISK_WEIGHTS.contract);
+  raise(flags.isNewWallet, "New Wallet", RISK_WEIGHTS.newWallet);
+  raise(flags.lowActivity, txs.length === 0 ? "No Activity" : "Low Activity", RISK_WEIGHTS.lowActivity);
+  raise(flags.highFrequencyTrader, "High Frequency", RISK_WEIGHTS.highFrequency);
+  raise(flags.isBot, "Bot Pattern Detected", RISK_WEIGHTS.bot);
+  raise(flags.isSybil, "Sweeps to Single Address", RISK_WEIGHTS.sybil);
+  raise(flags.airdropFarmer, "Airdrop Farmer", RISK_WEIGHTS.airdropFarmer);
+  if (labels.length === 0) labels.push("Clean");
+
+  const notes = [`${txs.length} transaction(s) read from ${providerName}.`];
+  if (activity.truncated) notes.push(`History capped at the first ${txs.length} transactions.`);
+  if (activity.nftCollectionsHeld === null) notes.push("NFT holdings aren't available from this provider.");
+
+  riskScore = Math.min(riskScore, 100);
+  return {
+    address,
+    chainId,
+    riskScore,
+    riskLevel: riskLevelFor(riskScore),
+    labels,
+    flags,
+    metrics,
+    details: notes.join(" "),
+    provider: providerName,
+    screenedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Flag wallets first funded by the same address within CLUSTER_WINDOW_DAYS of each other,
+ * in groups of at least CLUSTER_MIN_SIZE. Returns the results that changed, by address.
+ */
+export function findSybilClusters(results: WalletScreenResult[]): { changed: Map<string, WalletScreenResult>; clusterCount: number } {
+  const byFunder = new Map<string, WalletScreenResult[]>();
+  for (const result of results) {
+    const funder = result.metrics.fundedBy;
+    if (!funder || !result.metrics.firstTxDate || KNOWN_EXCHANGE_ADDRESSES.has(funder)) continue;
+    byFunder.set(funder, [...(byFunder.get(funder) ?? []), result]);
+  }
+
+  const changed = new Map<string, WalletScreenResult>();
+  let clusterCount = 0;
+  Array.from(byFunder.entries()).forEach(([funder, funded]) => {
+    if (funded.length < CLUSTER_MIN_SIZE) return;
+    const sorted = [...funded].sort((a, b) => a.metrics.firstTxDate!.localeCompare(b.metrics.firstTxDate!));
+
+    // Split wherever consecutive wallets started more than the window apart
+    const runs: WalletScreenResult[][] = [[sorted[0]]];
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = Date.parse(sorted[i].metrics.firstTxDate!) - Date.parse(sorted[i - 1].metrics.firstTxDate!);
+      if (gap > CLUSTER_WINDOW_DAYS * DAY_MS) runs.push([]);
+      runs[runs.length - 1].push(sorted[i]);
+    }
+
+    for (const run of runs) {
+      if (run.length < CLUSTER_MIN_SIZE) continue;
+      clusterCount++;
+      for (const result of run) {
+        const riskScore = result.flags.isSybil ? result.riskScore : Math.min(result.riskScore + RISK_WEIGHTS.sybil, 100);
+        changed.set(result.address, {
+          ...result,
+          riskScore,
+          riskLevel: riskLevelFor(riskScore),
+          flags: { ...result.flags, isSybil: true },
+          labels: [...result.labels.filter(label => label !== "Clean"), `Sybil Cluster (${run.length} wallets funded by ${funder.slice(0, 10)}…)`],
+        });
+      }
+    }
+  });
+  return { changed, clusterCount };
+}
+
+// ==================== Jobs ====================
+
+function canAccess(job: WalletScreeningJob, user: Pick<User, "id" | "role">): boolean {
+  return job.createdBy === user.id || user.role === "admin";
+}
+
+export function getScreenerStatus() {
+  const provider = getChainDataProvider();
+  let chains: number[] = [];
+  try {
+    chains = provider?.supportedChains() ?? [];
+  } catch (error) {
+    console.error("[WalletScreener] Failed to list provider chains:", error);
+  }
+  return {
+    provider: provider?.name ?? null,
+    hasEtherscanApiKey: !!process.env.ETHERSCAN_API_KEY,
+    supportedChains: chains.map(id => ({ id, name: SCREENER_CHAINS[id] ?? `Chain ${id}` })),
+    maxBatchSize: MAX_JOB_ADDRESSES,
+    cacheTtlHours: CACHE_TTL_HOURS,
+  };
+}
+
+export async function createScreeningJob(
+  input: { addresses: string[]; chainId: number; refresh?: boolean },
+  userId: string,
+): Promise<ScreenerResult<WalletScreeningJob>> {
+  const provider = getChainDataProvider();
+  if (!provider) {
+    return fail("invalid", "No chain data provider is configured; set ETHERSCAN_API_KEY, WALLET_SCREENER_RPC_URLS or WALLET_SCREENER_FIXTURE");
+  }
+  if (!provider.supportedChains().includes(input.chainId)) {
+    return fail("invalid", `Chain ${input.chainId} isn't supported by the ${provider.name} provider`);
+  }
+  const addresses = Array.from(new Set(input.addresses.map(a => a.trim().toLowerCase())));
+  if (addresses.length > MAX_JOB_ADDRESSES) {
+    return fail("invalid", `A screening job can hold at most ${MAX_JOB_ADDRESSES} addresses`);
+  }
+
+  const job = await storage.createWalletScreeningJob({
+    chainId: input.chainId,
+    provider: provider.name,
+    refresh: input.refresh ?? false,
+    totalCount: addresses.length,
+    createdBy: userId,
+  }, addresses);
+
+  const scheduled = await enqueueJob(`wallet-screening-${job.id}`, "wallet-screening", { screeningJobId: job.id }, { createdBy: userId, maxAttempts: 5 });
+  // Start right away rather than waiting for the next scheduler poll
+  await triggerJob(scheduled.id);
+  console.log(`[WalletScreener] Job #${job.id} queued: ${addresses.length} address(es) on chain ${input.chainId} via ${provider.name}`);
+  return { ok: true, value: job };
+}
+
+async function screenItem(job: WalletScreeningJob, item: WalletScreeningJobItem, provider: ChainDataProvider, cached?: WalletScreenResult) {
+  try {
+    if (cached) {
+      await storage.updateWalletScreeningItem(item.id, { status: "done", result: cached, fromCache: true, error: null, screenedAt: new Date() });
+      return;
+    }
+    const activity = await provider.getActivity(job.chainId, item.address);
+    const result = analyzeWallet(job.chainId, item.address, activity, provider.name);
+    await storage.upsertWalletScreeningCacheEntry({ chainId: job.chainId, address: item.address, provider: provider.name, result });
+    await storage.updateWalletScreeningItem(item.id, { status: "done", result, fromCache: false, error: null, screenedAt: new Date() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[WalletScreener] Job #${job.id} failed to screen ${item.address}:`, message);
+    await storage.updateWalletScreeningItem(item.id, { status: "failed", error: message, screenedAt: new Date() });
+  }
+}
+
+async function queueNextPass(job: WalletScreeningJob, processedCount: number) {
+  let next: ScheduledJob;
+  try {
+    // Named after the progress so far, so a retried pass can't queue the same follow-up twice
+    next = await enqueueJob(`wallet-screening-${job.id}-${processedCount}`, "wallet-screening", { screeningJobId: job.id }, {
+      createdBy: job.createdBy ?? undefined,
+      maxAttempts: 5,
+    });
+  } catch (error: any) {
+    if (error?.code === "23505") return;
+    throw error;
+  }
+  await triggerJob(next.id);
+}
+
+/** Job handler: screen one pass of the job's pending addresses; after the last, look for sybil clusters across the batch */
+export async function processScreeningJob(screeningJobId: number) {
+  let job = await storage.getWalletScreeningJob(screeningJobId);
+  if (job?.status === "queued") {
+    job = await storage.transitionWalletScreeningJob(screeningJobId, ["queued"], { status: "running", startedAt: new Date() });
+  }
+  if (!job || job.status !== "running") {
+    return { screeningJobId, skipped: true, status: job?.status ?? "missing" };
+  }
+
+  const provider = getChainDataProvider();
+  if (!provider) {
+    await storage.transitionWalletScreeningJob(job.id, ["running"], { status: "failed", error: "No chain data provider is configured", completedAt: new Date() });
+    return { screeningJobId, status: "failed" };
+  }
+
+  const items = await storage.getWalletScreeningItems(job.id, "pending", ITEMS_PER_PASS);
+  if (items.length > 0) {
+    const cacheCutoff = Date.now() - CACHE_TTL_HOURS * 60 * 60 * 1000;
+    const cached = new Map<string, WalletScreenResult>();
+    if (!job.refresh) {
+      const entries = await storage.getWalletScreeningCacheEntries(job.chainId, provider.name, items.map(i => i.address));
+      for (const entry of entries) {
+        if (entry.fetchedAt.getTime() >= cacheCutoff) cached.set(entry.address, entry.result);
+      }
+    }
+    for (const item of items) {
+      await screenItem(job, item, provider, cached.get(item.address));
+    }
+
+    const counts = await storage.getWalletScreeningItemCounts(job.id);
+    const processedCount = counts.done + counts.failed;
+    const updated = await storage.transitionWalletScreeningJob(job.id, ["running"], {
+      processedCount,
+      failedCount: counts.failed,
+      cachedCount: counts.cached,
+    });
+    if (!updated) {
+      console.log(`[WalletScreener] Job #${job.id} stopped; it was cancelled`);
+      return { screeningJobId, status: "cancelled" };
+    }
+    if (processedCount < updated.totalCount) {
+      await queueNextPass(updated, processedCount);
+      return { screeningJobId, status: "running", processed: processedCount };
+    }
+  }
+
+  const done = await storage.getWalletScreeningItems(job.id, "done");
+  const { changed, clusterCount } = findSybilClusters(done.map(item => item.result!).filter(Boolean));
+  for (const item of done) {
+    const clustered = changed.get(item.address);
+    if (clustered) await storage.updateWalletScreeningItem(item.id, { result: clustered });
+  }
+
+  const counts = await storage.getWalletScreeningItemCounts(job.id);
+  const completed = await storage.transitionWalletScreeningJob(job.id, ["running"], {
+    status: "completed",
+    processedCount: counts.done + counts.failed,
+    failedCount: counts.failed,
+    cachedCount: counts.cached,
+    sybilClusterCount: clusterCount,
+    completedAt: new Date(),
+  });
+  if (!completed) return { screeningJobId, status: "cancelled" };
+
+  if (completed.createdBy) {
+    const flagged = done.filter(item => {
+      const result = changed.get(item.address) ?? item.result;
+      return result?.riskLevel === "high" || result?.riskLevel === "critical";
+    }).length;
+    await storage.createNotification({
+      userId: completed.createdBy,
+      type: "wallet_screening_completed",
+      title: "Wallet screening complete",
+      message: `Screened ${counts.done} of ${completed.totalCount} wallets on ${SCREENER_CHAINS[completed.chainId] ?? `chain ${completed.chainId}`}: ${flagged} high risk, ${clusterCount} sybil cluster(s)${counts.failed ? `, ${counts.failed} failed` : ""}.`,
+    });
+  }
+  console.log(`[WalletScreener] Job #${job.id} completed: ${counts.done} screened (${counts.cached} cached), ${counts.failed} failed, ${clusterCount} cluster(s)`);
+  return { screeningJobId, status: "completed", screened: counts.done, failed: counts.failed, clusters: clusterCount };
+}
+
+export async function getScreeningJob(id: number, user: Pick<User, "id" | "role">): Promise<ScreenerResult<WalletScreeningJob>> {
+  const job = await storage.getWalletScreeningJob(id);
+  if (!job) return fail("not_found", "Screening job not found");
+  if (!canAccess(job, user)) return fail("forbidden", "Not your screening job");
+  return { ok: true, value: job };
+}
+
+/** Items in submission order; failed items carry an error instead of a result */
+export async function getScreeningJobResults(
+  id: number,
+  user: Pick<User, "id" | "role">,
+  page: { offset?: number; limit?: number } = {},
+): Promise<ScreenerResult<WalletScreeningJobItem[]>> {
+  const job = await getScreeningJob(id, user);
+  if (!job.ok) return job;
+  return { ok: true, value: await storage.getWalletScreeningItems(id, undefined, page.limit ?? MAX_JOB_ADDRESSES, page.offset ?? 0) };
+}
+
+export async function cancelScreeningJob(id: number, user: Pick<User, "id" | "role">): Promise<ScreenerResult<WalletScreeningJob>> {
+  const job = await getScreeningJob(id, user);
+  if (!job.ok) return job;
+  const cancelled = await storage.transitionWalletScreeningJob(id, ["queued", "running"], { status: "cancelled", completedAt: new Date() });
+  if (!cancelled) return fail("conflict", `The job is already ${job.value.status}`);
+  return { ok: true, value: cancelled };
+}
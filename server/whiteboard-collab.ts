@@ -0,0 +1,432 @@
+import { WebSocketServer, WebSocket } from "ws";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getSessionMiddleware } from "./auth";
+import {
+  insertWhiteboardElementSchema,
+  insertWhiteboardConnectorSchema,
+  type User,
+  type Whiteboard,
+  type WhiteboardPermission,
+} from "@shared/schema";
+
+/**
+ * Real-time whiteboard collaboration
+ *
+ * Each whiteboard is a channel at /ws/whiteboards/:id. The upgrade request is authenticated
+ * from the session cookie and authorized against whiteboard_collaborators (the owner and
+ * admins can always edit, public boards are viewable). Edits carry the element's version
+ * they were based on; a stale version is rejected with the current element so the client
+ * can rebase, which keeps concurrent edits from silently overwriting each other.
+ */
+
+const PATH_PATTERN = /^\/ws\/whiteboards\/(\d+)\/?$/;
+const CURSOR_PERSIST_INTERVAL_MS = 2000;
+
+interface CollabClient {
+  ws: WebSocket;
+  clientId: string;
+  userId: string;
+  displayName: string;
+  permission: WhiteboardPermission;
+  cursor?: { x: number; y: number };
+  lastCursorPersistAt: number;
+}
+
+const rooms = new Map<number, Map<string, CollabClient>>();
+
+const elementChangesSchema = insertWhiteboardElementSchema.omit({ whiteboardId: true, createdBy: true }).partial();
+const connectorChangesSchema = insertWhiteboardConnectorSchema.omit({ whiteboardId: true }).partial();
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ping") }),
+  z.object({ type: z.literal("cursor"), x: z.number(), y: z.number() }),
+  z.object({ type: z.literal("element-create"), requestId: z.string().optional(), element: z.record(z.any()) }),
+  z.object({ type: z.literal("element-update"), requestId: z.string().optional(), id: z.number(), baseVersion: z.number(), changes: z.record(z.any()) }),
+  z.object({ type: z.literal("element-delete"), requestId: z.string().optional(), id: z.number(), baseVersion: z.number().optional() }),
+  z.object({ type: z.literal("connector-create"), requestId: z.string().optional(), connector: z.record(z.any()) }),
+  z.object({ type: z.literal("connector-update"), requestId: z.string().optional(), id: z.number(), baseVersion: z.number(), changes: z.record(z.any()) }),
+  z.object({ type: z.literal("connector-delete"), requestId: z.string().optional(), id: z.number(), baseVersion: z.number().optional() }),
+]);
+
+type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+function getDisplayName(user: User): string {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || user.id;
+}
+
+/**
+ * Resolve what a user may do on a whiteboard, or null if they have no access
+ */
+export async function getWhiteboardPermission(board: Whiteboard, user: User): Promise<WhiteboardPermission | null> {
+  if (board.createdBy === user.id || user.role === "admin") return "edit";
+
+  const collaborator = await storage.getWhiteboardCollaborator(board.id, user.id);
+  if (collaborator) return (collaborator.permission as WhiteboardPermission) || "edit";
+
+  return board.isPublic ? "view" : null;
+}
+
+function send(ws: WebSocket, message: Record<string, unknown>) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Send an event to everyone connected to a whiteboard, optionally skipping one connection.
+ * Also used by the REST routes so edits made outside the socket still reach live clients.
+ */
+export function broadcastWhiteboardEvent(whiteboardId: number, message: Record<string, unknown>, excludeClientId?: string) {
+  const room = rooms.get(whiteboardId);
+  if (!room) return;
+  room.forEach(client => {
+    if (client.clientId !== excludeClientId) {
+      send(client.ws, message);
+    }
+  });
+}
+
+export function getWhiteboardPresence(whiteboardId: number) {
+  const room = rooms.get(whiteboardId);
+  if (!room) return [];
+  return Array.from(room.values()).map(client => ({
+    clientId: client.clientId,
+    userId: client.userId,
+    displayName: client.displayName,
+    permission: client.permission,
+    cursor: client.cursor ?? null,
+  }));
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+// Run the Express session middleware against the raw upgrade request to find the user
+function loadSessionUserId(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise(resolve => {
+    const sessionMiddleware = getSessionMiddleware();
+    sessionMiddleware(req as any, {} as any, () => {
+      resolve((req as any).session?.userId);
+    });
+  });
+}
+
+async function authorizeUpgrade(req: IncomingMessage, whiteboardId: number): Promise<
+  { ok: true; user: User; permission: WhiteboardPermission } | { ok: false; status: number; message: string }
+> {
+  const userId = await loadSessionUserId(req);
+  if (!userId) return { ok: false, status: 401, message: "Unauthorized" };
+
+  const user = await storage.getUser(userId);
+  if (!user) return { ok: false, status: 401, message: "Unauthorized" };
+
+  const board = await storage.getWhiteboard(whiteboardId);
+  if (!board) return { ok: false, status: 404, message: "Not Found" };
+
+  const permission = await getWhiteboardPermission(board, user);
+  if (!permission) return { ok: false, status: 403, message: "Forbidden" };
+
+  return { ok: true, user, permission };
+}
+
+export function setupWhiteboardCollabServer(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+    const match = pathname.match(PATH_PATTERN);
+    if (!match) return;
+
+    const whiteboardId = parseInt(match[1], 10);
+    authorizeUpgrade(req, whiteboardId)
+      .then(result => {
+        if (!result.ok) {
+          rejectUpgrade(socket, result.status, result.message);
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, ws => {
+          handleConnection(ws, whiteboardId, result.user, result.permission).catch(error => {
+            console.error("[Whiteboard] Failed to initialize connection:", error);
+            ws.close(1011, "Initialization failed");
+          });
+        });
+      })
+      .catch(error => {
+        console.error("[Whiteboard] Upgrade authorization failed:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      });
+  });
+
+  console.log("Whiteboard collaboration WebSocket server initialized on /ws/whiteboards/:id");
+  return wss;
+}
+
+async function handleConnection(ws: WebSocket, whiteboardId: number, user: User, permission: WhiteboardPermission) {
+  const client: CollabClient = {
+    ws,
+    clientId: Math.random().toString(36).substring(2, 10),
+    userId: user.id,
+    displayName: getDisplayName(user),
+    permission,
+    lastCursorPersistAt: 0,
+  };
+
+  // Register listeners first so messages sent right after the handshake aren't lost
+  let ready: Promise<void> = Promise.resolve();
+  ws.on("message", (raw) => {
+    // Process one message at a time per connection so a client's own edits apply in order
+    ready = ready.then(() => handleMessage(client, whiteboardId, raw.toString())).catch(error => {
+      console.error("[Whiteboard] Message handling failed:", error);
+    });
+  });
+  ws.on("close", () => handleDisconnect(client, whiteboardId));
+  ws.on("error", (error) => {
+    console.error("[Whiteboard] WebSocket error:", error);
+  });
+
+  if (!rooms.has(whiteboardId)) rooms.set(whiteboardId, new Map());
+  rooms.get(whiteboardId)!.set(client.clientId, client);
+
+  await storage.setCollaboratorActive(whiteboardId, user.id, true);
+
+  const [elements, connectors] = await Promise.all([
+    storage.getWhiteboardElements(whiteboardId),
+    storage.getWhiteboardConnectors(whiteboardId),
+  ]);
+
+  send(ws, {
+    type: "init",
+    whiteboardId,
+    clientId: client.clientId,
+    permission,
+    elements,
+    connectors,
+    presence: getWhiteboardPresence(whiteboardId),
+  });
+
+  broadcastWhiteboardEvent(whiteboardId, {
+    type: "presence-joined",
+    clientId: client.clientId,
+    userId: client.userId,
+    displayName: client.displayName,
+    permission,
+  }, client.clientId);
+}
+
+async function handleDisconnect(client: CollabClient, whiteboardId: number) {
+  const room = rooms.get(whiteboardId);
+  if (!room) return;
+
+  room.delete(client.clientId);
+  if (room.size === 0) rooms.delete(whiteboardId);
+
+  broadcastWhiteboardEvent(whiteboardId, { type: "presence-left", clientId: client.clientId, userId: client.userId });
+
+  // The same user may still be connected from another tab
+  const stillConnected = room.size > 0 && Array.from(room.values()).some(c => c.userId === client.userId);
+  if (!stillConnected) {
+    try {
+      await storage.setCollaboratorActive(whiteboardId, client.userId, false);
+    } catch (error) {
+      console.error("[Whiteboard] Failed to update presence:", error);
+    }
+  }
+}
+
+async function handleMessage(client: CollabClient, whiteboardId: number, raw: string) {
+  let message: ClientMessage;
+  try {
+    const parsed = clientMessageSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      send(client.ws, { type: "error", message: "Invalid message" });
+      return;
+    }
+    message = parsed.data;
+  } catch {
+    send(client.ws, { type: "error", message: "Invalid JSON" });
+    return;
+  }
+
+  if (message.type === "ping") {
+    send(client.ws, { type: "pong" });
+    return;
+  }
+
+  if (message.type === "cursor") {
+    await handleCursor(client, whiteboardId, message.x, message.y);
+    return;
+  }
+
+  if (client.permission !== "edit") {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Edit permission required" });
+    return;
+  }
+
+  try {
+    switch (message.type) {
+      case "element-create":
+        return await handleElementCreate(client, whiteboardId, message);
+      case "element-update":
+        return await handleElementUpdate(client, whiteboardId, message);
+      case "element-delete":
+        return await handleElementDelete(client, whiteboardId, message);
+      case "connector-create":
+        return await handleConnectorCreate(client, whiteboardId, message);
+      case "connector-update":
+        return await handleConnectorUpdate(client, whiteboardId, message);
+      case "connector-delete":
+        return await handleConnectorDelete(client, whiteboardId, message);
+    }
+  } catch (error) {
+    console.error(`[Whiteboard] Failed to handle ${message.type}:`, error);
+    send(client.ws, { type: "error", requestId: message.requestId, message: `Failed to handle ${message.type}` });
+  }
+}
+
+async function handleCursor(client: CollabClient, whiteboardId: number, x: number, y: number) {
+  client.cursor = { x, y };
+  broadcastWhiteboardEvent(whiteboardId, { type: "cursor", clientId: client.clientId, userId: client.userId, x, y }, client.clientId);
+
+  // Cursor moves are relayed live; the stored position is only refreshed periodically
+  const now = Date.now();
+  if (now - client.lastCursorPersistAt >= CURSOR_PERSIST_INTERVAL_MS) {
+    client.lastCursorPersistAt = now;
+    await storage.updateCollaboratorCursor(whiteboardId, client.userId, x, y);
+  }
+}
+
+type MessageOf<T extends ClientMessage["type"]> = Extract<ClientMessage, { type: T }>;
+
+async function handleElementCreate(client: CollabClient, whiteboardId: number, message: MessageOf<"element-create">) {
+  const parsed = insertWhiteboardElementSchema.safeParse({ ...message.element, whiteboardId, createdBy: client.userId });
+  if (!parsed.success) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Invalid element" });
+    return;
+  }
+
+  const element = await storage.createWhiteboardElement(parsed.data);
+  send(client.ws, { type: "element-created", requestId: message.requestId, element, userId: client.userId });
+  broadcastWhiteboardEvent(whiteboardId, { type: "element-created", element, userId: client.userId }, client.clientId);
+}
+
+async function handleElementUpdate(client: CollabClient, whiteboardId: number, message: MessageOf<"element-update">) {
+  const parsed = elementChangesSchema.safeParse(message.changes);
+  if (!parsed.success) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Invalid element changes" });
+    return;
+  }
+
+  const existing = await storage.getWhiteboardElement(message.id);
+  if (!existing || existing.whiteboardId !== whiteboardId) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Element not found" });
+    return;
+  }
+
+  const element = await storage.updateWhiteboardElement(message.id, parsed.data, message.baseVersion);
+  if (!element) {
+    const current = await storage.getWhiteboardElement(message.id);
+    send(client.ws, current
+      ? { type: "conflict", requestId: message.requestId, kind: "element", current }
+      : { type: "element-deleted", requestId: message.requestId, id: message.id });
+    return;
+  }
+
+  send(client.ws, { type: "element-updated", requestId: message.requestId, element, userId: client.userId });
+  broadcastWhiteboardEvent(whiteboardId, { type: "element-updated", element, userId: client.userId }, client.clientId);
+}
+
+async function handleElementDelete(client: CollabClient, whiteboardId: number, message: MessageOf<"element-delete">) {
+  const existing = await storage.getWhiteboardElement(message.id);
+  if (!existing || existing.whiteboardId !== whiteboardId) {
+    send(client.ws, { type: "element-deleted", requestId: message.requestId, id: message.id });
+    return;
+  }
+
+  const deleted = await storage.deleteWhiteboardElement(message.id, message.baseVersion);
+  if (!deleted) {
+    const current = await storage.getWhiteboardElement(message.id);
+    if (current) {
+      send(client.ws, { type: "conflict", requestId: message.requestId, kind: "element", current });
+      return;
+    }
+  }
+
+  // Connectors attached to the element are removed by the cascade; clients drop them too
+  const event = { type: "element-deleted", id: message.id, userId: client.userId };
+  send(client.ws, { ...event, requestId: message.requestId });
+  broadcastWhiteboardEvent(whiteboardId, event, client.clientId);
+}
+
+async function connectorEndpointsBelongTo(whiteboardId: number, fromElementId?: number, toElementId?: number): Promise<boolean> {
+  for (const elementId of [fromElementId, toElementId]) {
+    if (elementId === undefined) continue;
+    const element = await storage.getWhiteboardElement(elementId);
+    if (!element || element.whiteboardId !== whiteboardId) return false;
+  }
+  return true;
+}
+
+async function handleConnectorCreate(client: CollabClient, whiteboardId: number, message: MessageOf<"connector-create">) {
+  const parsed = insertWhiteboardConnectorSchema.safeParse({ ...message.connector, whiteboardId });
+  if (!parsed.success || !(await connectorEndpointsBelongTo(whiteboardId, parsed.data.fromElementId, parsed.data.toElementId))) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Invalid connector" });
+    return;
+  }
+
+  const connector = await storage.createWhiteboardConnector(parsed.data);
+  send(client.ws, { type: "connector-created", requestId: message.requestId, connector, userId: client.userId });
+  broadcastWhiteboardEvent(whiteboardId, { type: "connector-created", connector, userId: client.userId }, client.clientId);
+}
+
+async function handleConnectorUpdate(client: CollabClient, whiteboardId: number, message: MessageOf<"connector-update">) {
+  const parsed = connectorChangesSchema.safeParse(message.changes);
+  if (!parsed.success || !(await connectorEndpointsBelongTo(whiteboardId, parsed.data.fromElementId, parsed.data.toElementId))) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Invalid connector changes" });
+    return;
+  }
+
+  const existing = await storage.getWhiteboardConnector(message.id);
+  if (!existing || existing.whiteboardId !== whiteboardId) {
+    send(client.ws, { type: "error", requestId: message.requestId, message: "Connector not found" });
+    return;
+  }
+
+  const connector = await storage.updateWhiteboardConnector(message.id, parsed.data, message.baseVersion);
+  if (!connector) {
+    const current = await storage.getWhiteboardConnector(message.id);
+    send(client.ws, current
+      ? { type: "conflict", requestId: message.requestId, kind: "connector", current }
+      : { type: "connector-deleted", requestId: message.requestId, id: message.id });
+    return;
+  }
+
+  send(client.ws, { type: "connector-updated", requestId: message.requestId, connector, userId: client.userId });
+  broadcastWhiteboardEvent(whiteboardId, { type: "connector-updated", connector, userId: client.userId }, client.clientId);
+}
+
+async function handleConnectorDelete(client: CollabClient, whiteboardId: number, message: MessageOf<"connector-delete">) {
+  const existing = await storage.getWhiteboardConnector(message.id);
+  if (!existing || existing.whiteboardId !== whiteboardId) {
+    send(client.ws, { type: "connector-deleted", requestId: message.requestId, id: message.id });
+    return;
+  }
+
+  const deleted = await storage.deleteWhiteboardConnector(message.id, message.baseVersion);
+  if (!deleted) {
+    const current = await storage.getWhiteboardConnector(message.id);
+    if (current) {
+      send(client.ws, { type: "conflict", requestId: message.requestId, kind: "connector", current });
+      return;
+    }
+  }
+
+  const event = { type: "connector-deleted", id: message.id, userId: client.userId };
+  send(client.ws, { ...event, requestId: message.requestId });
+  broadcastWhiteboardEvent(whiteboardId, event, client.clientId);
+}
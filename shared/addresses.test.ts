@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addressKey, parseChainAddress } from "./addresses";
+
+test("EVM addresses are checksummed, and a wrong checksum is rejected", () => {
+  assert.deepEqual(parseChainAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"), {
+    ok: true,
+    chain: "evm",
+    address: "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+  });
+  assert.equal(parseChainAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed").ok, true);
+  assert.equal(parseChainAddress("0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed").ok, false);
+  assert.equal(parseChainAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1bea").ok, false);
+});
+
+test("legacy Bitcoin addresses are verified against their Base58Check checksum", () => {
+  assert.deepEqual(parseChainAddress("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2"), { ok: true, chain: "btc", address: "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2" });
+  assert.deepEqual(parseChainAddress("3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy"), { ok: true, chain: "btc", address: "3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy" });
+  assert.equal(parseChainAddress("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3").ok, false);
+});
+
+test("SegWit addresses use bech32 for v0 and bech32m for taproot, and come back lowercase", () => {
+  assert.deepEqual(parseChainAddress("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4"), {
+    ok: true,
+    chain: "btc",
+    address: "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4",
+  });
+  assert.equal(parseChainAddress("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0").ok, true);
+  assert.equal(parseChainAddress("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5").ok, false);
+});
+
+test("Solana addresses must decode to 32 bytes and keep their case", () => {
+  assert.deepEqual(parseChainAddress("So11111111111111111111111111111111111111112"), {
+    ok: true,
+    chain: "sol",
+    address: "So11111111111111111111111111111111111111112",
+  });
+  assert.equal(parseChainAddress("So1111111111111111111111111111111111111111").ok, false);
+});
+
+test("chains limits which addresses are accepted", () => {
+  assert.equal(parseChainAddress("So11111111111111111111111111111111111111112", ["evm"]).ok, false);
+  assert.equal(parseChainAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed", ["evm"]).ok, true);
+  assert.equal(parseChainAddress("not an address").ok, false);
+  assert.equal(parseChainAddress("  ").ok, false);
+});
+
+test("addressKey folds case only for case-insensitive encodings", () => {
+  assert.equal(addressKey(" 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed "), "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed");
+  assert.equal(addressKey("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4"), "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+  assert.equal(addressKey("So11111111111111111111111111111111111111112"), "So11111111111111111111111111111111111111112");
+});
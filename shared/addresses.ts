@@ -0,0 +1,178 @@
+import { sha256 } from "ethers";
+import { validateAddressWithDetails, isValidEthereumAddress, toChecksumAddress } from "./ethereum";
+import type { AddressChain } from "./schema";
+
+/**
+ * Multi-chain address parsing
+ *
+ * Recognises wallet addresses on the chains we handle and tags each with its chain:
+ * - evm: 0x-prefixed hex; mixed case must carry a valid EIP-55 checksum. Output is checksummed.
+ * - sol: base58 encoding of a 32-byte public key. Case-sensitive, so it's kept as written.
+ * - btc: mainnet P2PKH/P2SH (Base58Check) and SegWit/Taproot (bech32 for v0, bech32m for v1+).
+ *   Bech32 output is lowercase.
+ *
+ * Compare and de-duplicate with addressKey(), never a plain toLowerCase(): lowercasing a
+ * Solana or legacy Bitcoin address turns it into a different (usually invalid) address.
+ */
+
+export type ParsedChainAddress =
+  | { ok: true; chain: AddressChain; address: string }
+  | { ok: false; error: string };
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+/** Decode base58 to bytes, keeping leading zero bytes; null if a character is outside the alphabet */
+function decodeBase58(value: string): number[] | null {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (let i = 0; i < value.length && value[i] === "1"; i++) bytes.push(0);
+  return bytes.reverse();
+}
+
+function toHex(bytes: number[]): string {
+  return "0x" + bytes.map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= generators[i];
+    }
+  }
+  return checksum >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const high = Array.from(hrp).map(c => c.charCodeAt(0) >> 5);
+  const low = Array.from(hrp).map(c => c.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+// Regroup 5-bit words into bytes; null if the padding is invalid
+function fromWords(words: number[]): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = ((accumulator << 5) | word) & 0xfff;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || ((accumulator << (8 - bits)) & 0xff) !== 0) return null;
+  return bytes;
+}
+
+function parseSegwitAddress(raw: string): ParsedChainAddress {
+  if (raw !== raw.toLowerCase() && raw !== raw.toUpperCase()) {
+    return { ok: false, error: "Bech32 addresses can't mix upper and lower case" };
+  }
+  const address = raw.toLowerCase();
+  const separator = address.lastIndexOf("1");
+  const hrp = address.slice(0, separator);
+  if (hrp !== "bc") {
+    return { ok: false, error: hrp === "tb" || hrp === "bcrt" ? "Bitcoin testnet addresses aren't supported" : "Unknown bech32 prefix" };
+  }
+  const data = Array.from(address.slice(separator + 1)).map(c => BECH32_CHARSET.indexOf(c));
+  if (data.length < 7 || data.some(d => d < 0)) {
+    return { ok: false, error: "Bitcoin address contains invalid characters" };
+  }
+
+  const version = data[0];
+  const checksum = bech32Polymod([...bech32HrpExpand(hrp), ...data]);
+  if (checksum !== (version === 0 ? BECH32_CONST : BECH32M_CONST)) {
+    return { ok: false, error: "Bitcoin address has an invalid checksum (check for a typo)" };
+  }
+  const program = fromWords(data.slice(1, -6));
+  if (
+    !program || version > 16 || program.length < 2 || program.length > 40 ||
+    (version === 0 && program.length !== 20 && program.length !== 32)
+  ) {
+    return { ok: false, error: "Bitcoin address has an invalid witness program" };
+  }
+  return { ok: true, chain: "btc", address };
+}
+
+// Legacy P2PKH (version 0x00) and P2SH (0x05) addresses, checked against their double-SHA256 checksum
+function parseBase58CheckAddress(raw: string): ParsedChainAddress | null {
+  const bytes = decodeBase58(raw);
+  if (!bytes || bytes.length !== 25) return null;
+  const payload = bytes.slice(0, 21);
+  const checksum = sha256(sha256(toHex(payload))).slice(2, 10);
+  if (checksum !== toHex(bytes.slice(21)).slice(2)) {
+    return { ok: false, error: "Bitcoin address has an invalid checksum (check for a typo)" };
+  }
+  if (payload[0] !== 0x00 && payload[0] !== 0x05) {
+    return { ok: false, error: "Only Bitcoin mainnet addresses are supported" };
+  }
+  return { ok: true, chain: "btc", address: raw };
+}
+
+/**
+ * Identify and validate an address on any supported chain. EVM addresses come back
+ * checksummed; `chains` limits which chains are accepted.
+ */
+export function parseChainAddress(input: string, chains?: readonly AddressChain[]): ParsedChainAddress {
+  const raw = input.trim();
+  const allowed = (chain: AddressChain) => !chains || chains.includes(chain);
+  if (!raw) return { ok: false, error: "Address is required" };
+
+  let parsed: ParsedChainAddress | null = null;
+  if (/^0x/i.test(raw)) {
+    const evm = validateAddressWithDetails(raw);
+    parsed = evm.isValid && evm.normalized
+      ? { ok: true, chain: "evm", address: evm.normalized }
+      : { ok: false, error: evm.error || "Invalid EVM address" };
+  } else if (/^bc1|^tb1|^bcrt1/i.test(raw)) {
+    parsed = parseSegwitAddress(raw);
+  } else if (/^[1-9A-HJ-NP-Za-km-z]+$/.test(raw)) {
+    // Base58: a checksummed Bitcoin address if it verifies, otherwise a 32-byte Solana key
+    if (/^[13]/.test(raw) && raw.length >= 25 && raw.length <= 35) {
+      parsed = parseBase58CheckAddress(raw);
+    }
+    if (!parsed && raw.length >= 32 && raw.length <= 44) {
+      parsed = decodeBase58(raw)?.length === 32
+        ? { ok: true, chain: "sol", address: raw }
+        : { ok: false, error: "Solana addresses must decode to 32 bytes" };
+    }
+  }
+
+  if (!parsed) return { ok: false, error: "Not a recognised EVM, Solana or Bitcoin address" };
+  if (parsed.ok && !allowed(parsed.chain)) {
+    return { ok: false, error: `${parsed.chain.toUpperCase()} addresses aren't accepted here` };
+  }
+  return parsed;
+}
+
+/** The form to compare and de-duplicate on: lowercase for case-insensitive encodings, exact otherwise */
+export function addressKey(address: string): string {
+  const trimmed = address.trim();
+  if (/^0x/i.test(trimmed) || /^(bc|tb|bcrt)1/i.test(trimmed)) return trimmed.toLowerCase();
+  return trimmed;
+}
+
+/** Display form of a stored address: EVM addresses checksummed (older rows were saved lowercase) */
+export function canonicalAddress(address: string): string {
+  return isValidEthereumAddress(address) ? toChecksumAddress(address) : address;
+}
@@ -1,19 +1,10 @@
+import { getAddress } from "ethers";
+
 /**
  * Ethereum address validation utilities
  * Implements EIP-55 checksum validation
  */
 
-/**
- * Simple SHA3-256 (Keccak-256) implementation for checksum validation
- * Note: In production, use a proper crypto library. This is a lightweight implementation.
- */
-function keccak256(input: string): string {
-  // For now, we'll use a basic validation without full keccak
-  // In a real app, we'd use ethers.js or viem
-  // This validates structure only
-  return input.toLowerCase();
-}
-
 /**
  * Validates if a string is a valid Ethereum address (basic structure)
  */
@@ -42,14 +33,19 @@ export function validateChecksumAddress(address: string): boolean {
     return true;
   }
 
-  // For mixed case, we would verify EIP-55 checksum
-  // For now, accept mixed case as potentially valid
-  // In production, implement full EIP-55 verification with proper keccak256
-  return true;
+  // Mixed case must match the EIP-55 checksum exactly
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Returns the EIP-55 checksummed form of a structurally valid address
+ */
+export function toChecksumAddress(address: string): string {
+  return getAddress(address.toLowerCase());
 }
 
 /**
- * Normalizes an Ethereum address to lowercase with 0x prefix
+ * Normalizes an Ethereum address to lowercase with 0x prefix (the comparison key)
  */
 export function normalizeAddress(address: string): string {
   if (!address.startsWith('0x')) {
@@ -94,9 +90,16 @@ export function validateAddressWithDetails(address: string): {
     };
   }
 
+  if (!validateChecksumAddress(address)) {
+    return {
+      isValid: false,
+      error: 'Address has an invalid EIP-55 checksum (check for a typo)',
+    };
+  }
+
   return {
     isValid: true,
-    normalized: normalizeAddress(address),
+    normalized: toChecksumAddress(address),
   };
 }
 
@@ -1,6 +1,6 @@
 import { z } from "zod";
-import { sql } from "drizzle-orm";
-import { pgTable, text, serial, timestamp, jsonb, integer, varchar, index, boolean, real } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, serial, timestamp, jsonb, integer, varchar, index, uniqueIndex, boolean, real, numeric, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 
 // Session storage table for auth
@@ -14,6 +14,75 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// ==================== FULL-TEXT SEARCH ====================
+
+// Entity types returned by /api/search
+export const searchResultTypes = ["content_task", "team_task", "task_doc", "comment", "client_document", "client_profile", "dao_project", "collection"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+export interface SearchHit {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  snippet: string; // Matches wrapped in <mark></mark>; the rest is plain text
+  rank: number;
+  meta: Record<string, unknown>;
+  createdAt: string | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchHit[];
+  facets: Array<{ type: SearchResultType; count: number }>;
+  total: number;
+}
+
+type SearchWeight = "A" | "B" | "C" | "D";
+
+/**
+ * Weighted English tsvector over text columns. The GIN indexes below and the /api/search
+ * queries both build their vectors through the per-table functions, so the expressions
+ * match exactly and the planner can use the indexes.
+ */
+export function searchVector(...columns: Array<[AnyPgColumn, SearchWeight]>): SQL {
+  return sql.join(
+    columns.map(([column, weight]) => sql`setweight(to_tsvector('english', coalesce(${column}, '')), ${sql.raw(`'${weight}'`)})`),
+    sql` || `,
+  );
+}
+
+export function contentTaskSearchVector(t: { description: AnyPgColumn; client: AnyPgColumn; deliverable: AnyPgColumn; notes: AnyPgColumn }): SQL {
+  return searchVector([t.description, "A"], [t.client, "B"], [t.deliverable, "C"], [t.notes, "C"]);
+}
+
+export function teamTaskSearchVector(t: { title: AnyPgColumn; projectTag: AnyPgColumn; description: AnyPgColumn; richNotes: AnyPgColumn }): SQL {
+  return searchVector([t.title, "A"], [t.projectTag, "B"], [t.description, "B"], [t.richNotes, "C"]);
+}
+
+export function taskDocSearchVector(t: { title: AnyPgColumn; content: AnyPgColumn }): SQL {
+  return searchVector([t.title, "A"], [t.content, "B"]);
+}
+
+export function commentSearchVector(t: { content: AnyPgColumn }): SQL {
+  return searchVector([t.content, "A"]);
+}
+
+export function clientDocumentSearchVector(t: { name: AnyPgColumn; description: AnyPgColumn }): SQL {
+  return searchVector([t.name, "A"], [t.description, "B"]);
+}
+
+export function clientProfileSearchVector(t: { name: AnyPgColumn; industry: AnyPgColumn; description: AnyPgColumn; projectHistory: AnyPgColumn; notes: AnyPgColumn }): SQL {
+  return searchVector([t.name, "A"], [t.industry, "B"], [t.description, "B"], [t.projectHistory, "C"], [t.notes, "C"]);
+}
+
+export function daoProjectSearchVector(t: { name: AnyPgColumn; description: AnyPgColumn; notes: AnyPgColumn }): SQL {
+  return searchVector([t.name, "A"], [t.description, "B"], [t.notes, "C"]);
+}
+
+export function collectionSearchVector(t: { name: AnyPgColumn; description: AnyPgColumn }): SQL {
+  return searchVector([t.name, "A"], [t.description, "B"]);
+}
+
 // User roles - determines which side of the app users see
 export const userRoles = ["web3", "content", "admin"] as const;
 export type UserRole = typeof userRoles[number];
@@ -56,8 +125,13 @@ export type User = typeof users.$inferSelect;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 
+// Chains the address pipeline recognises (see shared/addresses.ts)
+export const addressChains = ["evm", "sol", "btc"] as const;
+export type AddressChain = typeof addressChains[number];
+
 export const addressSchema = z.object({
   address: z.string(),
+  chain: z.enum(addressChains).optional(),
   username: z.string().optional(),
   points: z.number().optional(),
   rank: z.number().optional(),
@@ -89,8 +163,12 @@ export const collections = pgTable("collections", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   description: text("description"),
+  // Set only on collections saved from a set operation
+  derivedFrom: jsonb("derived_from").$type<CollectionDerivation>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_collections_search").using("gin", collectionSearchVector(table)),
+]);
 
 export const insertCollectionSchema = createInsertSchema(collections).omit({
   id: true,
@@ -98,15 +176,47 @@ export const insertCollectionSchema = createInsertSchema(collections).omit({
 });
 
 export type Collection = typeof collections.$inferSelect;
-export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type InsertCollection = typeof collections.$inferInsert;
+
+// Where a batch of collection addresses came from
+export const collectionAddressSourceTypes = ["upload", "tweet", "manual", "set_operation"] as const;
+export type CollectionAddressSourceType = typeof collectionAddressSourceTypes[number];
+
+// One row per upload, tweet extraction, manual add or saved set operation
+export const collectionImports = pgTable("collection_imports", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  sourceType: varchar("source_type", { length: 20 }).$type<CollectionAddressSourceType>().notNull(),
+  // File name, tweet URL or set operation description
+  reference: text("reference"),
+  receivedCount: integer("received_count").notNull(),
+  addedCount: integer("added_count").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_collection_imports_collection").on(table.collectionId),
+]);
+
+export type CollectionImport = typeof collectionImports.$inferSelect;
+export type InsertCollectionImport = typeof collectionImports.$inferInsert;
 
 // Database schema for minted addresses per collection
 export const mintedAddresses = pgTable("minted_addresses", {
   id: serial("id").primaryKey(),
   collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
   address: text("address").notNull(),
+  // Metadata carried over from the source file (see addressSchema)
+  chain: varchar("chain", { length: 10 }).$type<AddressChain>(),
+  username: text("username"),
+  points: doublePrecision("points"),
+  rank: integer("rank"),
+  labels: text("labels").array().notNull().default(sql`'{}'::text[]`),
+  // Null for addresses added before imports were recorded
+  importId: integer("import_id").references(() => collectionImports.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_minted_addresses_collection").on(table.collectionId),
+]);
 
 export const insertMintedAddressSchema = createInsertSchema(mintedAddresses).omit({
   id: true,
@@ -116,6 +226,61 @@ export const insertMintedAddressSchema = createInsertSchema(mintedAddresses).omi
 export type MintedAddress = typeof mintedAddresses.$inferSelect;
 export type InsertMintedAddress = z.infer<typeof insertMintedAddressSchema>;
 
+const collectionLabelSchema = z.string().trim().min(1).max(50);
+
+export const collectionAddressInputSchema = z.object({
+  address: z.string(),
+  username: z.string().trim().max(200).optional(),
+  points: z.number().finite().optional(),
+  rank: z.number().int().optional(),
+  labels: z.array(collectionLabelSchema).max(20).optional(),
+});
+export type CollectionAddressInput = z.infer<typeof collectionAddressInputSchema> & { chain?: AddressChain };
+
+export const addCollectionAddressesSchema = z.object({
+  addresses: z.array(z.union([z.string(), collectionAddressInputSchema])).min(1).max(50000),
+  // Applied to every address in the request, on top of any per-address labels
+  labels: z.array(collectionLabelSchema).max(20).optional(),
+  source: z.object({
+    type: z.enum(["manual", "tweet"]),
+    reference: z.string().trim().max(500).optional(),
+  }).optional(),
+});
+export type AddCollectionAddressesInput = z.infer<typeof addCollectionAddressesSchema>;
+
+export const updateCollectionLabelsSchema = z.object({
+  addresses: z.array(z.string()).min(1).max(50000),
+  add: z.array(collectionLabelSchema).max(20).optional(),
+  remove: z.array(collectionLabelSchema).max(20).optional(),
+}).refine(data => (data.add?.length ?? 0) + (data.remove?.length ?? 0) > 0, {
+  message: "Provide labels to add or remove",
+});
+export type UpdateCollectionLabelsInput = z.infer<typeof updateCollectionLabelsSchema>;
+
+// Query-string filters for listing and exporting a collection's addresses
+export const collectionAddressFilterSchema = z.object({
+  label: collectionLabelSchema.optional(),
+  source: z.enum(collectionAddressSourceTypes).optional(),
+  importId: z.coerce.number().int().positive().optional(),
+  chain: z.enum(addressChains).optional(),
+  // Substring of the address or username
+  search: z.string().trim().min(1).max(200).optional(),
+  minPoints: z.coerce.number().finite().optional(),
+  maxPoints: z.coerce.number().finite().optional(),
+});
+export type CollectionAddressFilter = z.infer<typeof collectionAddressFilterSchema>;
+
+export interface CollectionAddressEntry {
+  address: string;
+  chain: AddressChain | null;
+  username: string | null;
+  points: number | null;
+  rank: number | null;
+  labels: string[];
+  source: { importId: number; type: CollectionAddressSourceType; reference: string | null } | null;
+  addedAt: Date;
+}
+
 // Database schema for comparison history
 export const comparisons = pgTable("comparisons", {
   id: serial("id").primaryKey(),
@@ -138,6 +303,236 @@ export const insertComparisonSchema = createInsertSchema(comparisons).omit({
 export type Comparison = typeof comparisons.$inferSelect;
 export type InsertComparison = z.infer<typeof insertComparisonSchema>;
 
+// ==================== COLLECTION SETS & SNAPSHOTS ====================
+
+// Symmetric difference across more than two operands keeps addresses found in an odd number of them
+export const collectionSetOperations = ["union", "intersection", "difference", "symmetric_difference"] as const;
+export type CollectionSetOperation = typeof collectionSetOperations[number];
+
+// OpenZeppelin StandardMerkleTree leaves: keccak256(keccak256(abi.encode(address))) or
+// keccak256(keccak256(abi.encode(address, uint256 amount)))
+export const merkleLeafEncodings = ["address", "address_amount"] as const;
+export type MerkleLeafEncoding = typeof merkleLeafEncodings[number];
+
+export const collectionSetOperandTypes = ["collection", "snapshot", "file"] as const;
+export type CollectionSetOperandType = typeof collectionSetOperandTypes[number];
+
+export interface CollectionSetOperandSummary {
+  type: CollectionSetOperandType;
+  id?: number;
+  name: string;
+  addressCount: number;
+  // Uploaded files only: entries that didn't parse as an address
+  invalidCount?: number;
+}
+
+export interface CollectionDerivation {
+  operation: CollectionSetOperation;
+  operands: CollectionSetOperandSummary[];
+  derivedAt: string;
+}
+
+// Point-in-time copy of a collection's addresses. Rows are never updated, and they outlive the
+// collection itself (collectionId is cleared, collectionName kept).
+export const collectionSnapshots = pgTable("collection_snapshots", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").references(() => collections.id, { onDelete: "set null" }),
+  collectionName: text("collection_name").notNull(),
+  label: varchar("label", { length: 200 }),
+  // Canonical addresses sorted by addressKey()
+  addresses: jsonb("addresses").$type<string[]>().notNull(),
+  addressCount: integer("address_count").notNull(),
+  // sha256 over the sorted address keys, one per line; equal hashes mean identical contents
+  contentHash: varchar("content_hash", { length: 64 }).notNull(),
+  // Set when the snapshot was taken for a Merkle allowlist; proofs are in collection_snapshot_proofs
+  merkleEncoding: varchar("merkle_encoding", { length: 20 }).$type<MerkleLeafEncoding>(),
+  merkleRoot: varchar("merkle_root", { length: 66 }),
+  merkleLeafCount: integer("merkle_leaf_count"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_collection_snapshots_collection").on(table.collectionId, table.createdAt),
+]);
+
+// One row per allowlisted address, so a proof lookup is a single indexed read
+export const collectionSnapshotProofs = pgTable("collection_snapshot_proofs", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id").notNull().references(() => collectionSnapshots.id, { onDelete: "cascade" }),
+  addressKey: text("address_key").notNull(),
+  address: text("address").notNull(),
+  // uint256 allocation for address_amount trees
+  amount: numeric("amount", { precision: 78, scale: 0 }),
+  leaf: varchar("leaf", { length: 66 }).notNull(),
+  proof: jsonb("proof").$type<string[]>().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_collection_snapshot_proofs_address").on(table.snapshotId, table.addressKey),
+]);
+
+export type CollectionSnapshot = typeof collectionSnapshots.$inferSelect;
+export type InsertCollectionSnapshot = typeof collectionSnapshots.$inferInsert;
+export type CollectionSnapshotSummary = Omit<CollectionSnapshot, "addresses">;
+export type CollectionSnapshotProof = typeof collectionSnapshotProofs.$inferSelect;
+export type InsertCollectionSnapshotProof = typeof collectionSnapshotProofs.$inferInsert;
+
+export const collectionSetOperandSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("collection"), id: z.number().int().positive() }),
+  z.object({ type: z.literal("snapshot"), id: z.number().int().positive() }),
+  // Position of the file among the uploaded files
+  z.object({ type: z.literal("file"), index: z.number().int().min(0) }),
+]);
+export type CollectionSetOperand = z.infer<typeof collectionSetOperandSchema>;
+
+export const collectionSetOperationSchema = z.object({
+  operation: z.enum(collectionSetOperations),
+  // For difference, every operand after the first is subtracted from the first
+  operands: z.array(collectionSetOperandSchema).min(2).max(20),
+  // Without a name the result is returned as a preview and nothing is saved
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().trim().max(1000).optional(),
+});
+export type CollectionSetOperationInput = z.infer<typeof collectionSetOperationSchema>;
+
+export const createCollectionSnapshotSchema = z.object({
+  label: z.string().trim().min(1).max(200).optional(),
+});
+
+export const generateMerkleAllowlistSchema = z.object({
+  encoding: z.enum(merkleLeafEncodings).default("address"),
+  // Allocation for addresses without one of their own, as a decimal uint256
+  defaultAmount: z.string().trim().regex(/^\d{1,78}$/, "Amount must be a whole number").optional(),
+  label: z.string().trim().min(1).max(200).optional(),
+});
+export type GenerateMerkleAllowlistInput = z.infer<typeof generateMerkleAllowlistSchema>;
+
+// Uploaded files become a new collection, which the snapshot and tree then belong to
+export const merkleAllowlistFromFileSchema = generateMerkleAllowlistSchema.extend({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000).optional(),
+});
+export type MerkleAllowlistFromFileInput = z.infer<typeof merkleAllowlistFromFileSchema>;
+
+export interface AddressListDiff {
+  added: string[];
+  removed: string[];
+  unchangedCount: number;
+}
+
+// ==================== WALLET SCREENER ====================
+
+// Where transaction history comes from: an Etherscan-compatible API, a node exposing the
+// Otterscan (ots_) API, or a JSON fixture file for offline use
+export const walletScreenerProviders = ["etherscan", "json_rpc", "fixture"] as const;
+export type WalletScreenerProvider = typeof walletScreenerProviders[number];
+
+export const walletRiskLevels = ["low", "medium", "high", "critical"] as const;
+export type WalletRiskLevel = typeof walletRiskLevels[number];
+
+export interface WalletScreenFlags {
+  isBot: boolean;
+  isSybil: boolean;
+  isContract: boolean;
+  isExchange: boolean;
+  isNewWallet: boolean;
+  lowActivity: boolean;
+  highFrequencyTrader: boolean;
+  airdropFarmer: boolean;
+}
+
+export interface WalletScreenMetrics {
+  txCount: number;
+  firstTxDate: string | null;
+  lastTxDate: string | null;
+  walletAgeDays: number;
+  avgTxPerDay: number;
+  uniqueContractsInteracted: number;
+  totalGasSpent: string; // Native token units
+  nftCollectionsHeld: number | null; // null when the provider can't tell
+  fundedBy: string | null; // Sender of the first incoming transfer
+  maxTxPerDay: number;
+  historyTruncated: boolean;
+}
+
+export interface WalletScreenResult {
+  address: string;
+  chainId: number;
+  riskScore: number;
+  riskLevel: WalletRiskLevel;
+  labels: string[];
+  flags: WalletScreenFlags;
+  metrics: WalletScreenMetrics;
+  details: string;
+  provider: WalletScreenerProvider;
+  screenedAt: string;
+}
+
+// Per-address analysis reused by later jobs until it expires; sybil clusters are applied per job, not here
+export const walletScreeningCache = pgTable("wallet_screening_cache", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  address: varchar("address", { length: 42 }).notNull(), // Lowercase
+  provider: varchar("provider", { length: 20 }).$type<WalletScreenerProvider>().notNull(),
+  result: jsonb("result").$type<WalletScreenResult>().notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("IDX_wallet_screening_cache_address").on(table.chainId, table.address),
+]);
+
+export type InsertWalletScreeningCacheEntry = typeof walletScreeningCache.$inferInsert;
+export type WalletScreeningCacheEntry = typeof walletScreeningCache.$inferSelect;
+
+export const walletScreeningJobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type WalletScreeningJobStatus = typeof walletScreeningJobStatuses[number];
+
+export const walletScreeningItemStatuses = ["pending", "done", "failed"] as const;
+export type WalletScreeningItemStatus = typeof walletScreeningItemStatuses[number];
+
+// A queued batch of addresses, processed in the background by the "wallet-screening" job handler
+export const walletScreeningJobs = pgTable("wallet_screening_jobs", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  status: varchar("status", { length: 20 }).$type<WalletScreeningJobStatus>().notNull().default("queued"),
+  provider: varchar("provider", { length: 20 }).$type<WalletScreenerProvider>().notNull(),
+  refresh: boolean("refresh").notNull().default(false), // Ignore cached results
+  totalCount: integer("total_count").notNull(),
+  processedCount: integer("processed_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  cachedCount: integer("cached_count").notNull().default(0),
+  sybilClusterCount: integer("sybil_cluster_count").notNull().default(0),
+  error: text("error"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_wallet_screening_jobs_created_by").on(table.createdBy),
+]);
+
+export type InsertWalletScreeningJob = typeof walletScreeningJobs.$inferInsert;
+export type WalletScreeningJob = typeof walletScreeningJobs.$inferSelect;
+
+export const walletScreeningJobItems = pgTable("wallet_screening_job_items", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => walletScreeningJobs.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // Order the addresses were submitted in
+  address: varchar("address", { length: 42 }).notNull(), // Lowercase
+  status: varchar("status", { length: 20 }).$type<WalletScreeningItemStatus>().notNull().default("pending"),
+  result: jsonb("result").$type<WalletScreenResult>(),
+  fromCache: boolean("from_cache").notNull().default(false),
+  error: text("error"),
+  screenedAt: timestamp("screened_at"),
+}, (table) => [
+  uniqueIndex("IDX_wallet_screening_job_items_address").on(table.jobId, table.address),
+  index("IDX_wallet_screening_job_items_status").on(table.jobId, table.status, table.position),
+]);
+
+export type WalletScreeningJobItem = typeof walletScreeningJobItems.$inferSelect;
+
+export const createWalletScreeningJobSchema = z.object({
+  addresses: z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address")).min(1).max(10000),
+  chainId: z.number().int().positive().default(1),
+  refresh: z.boolean().optional(),
+});
+
 // Database schema for personal tasks (to-do items) - Web3 side
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -205,7 +600,9 @@ export const contentTasks = pgTable("content_tasks", {
   priority: varchar("priority", { length: 20 }).default("medium"),
   campaignId: integer("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_content_tasks_search").using("gin", contentTaskSearchVector(table)),
+]);
 
 export const insertContentTaskSchema = createInsertSchema(contentTasks).omit({
   id: true,
@@ -253,7 +650,9 @@ export const comments = pgTable("comments", {
   parentId: integer("parent_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_comments_search").using("gin", commentSearchVector(table)),
+]);
 
 export const insertCommentSchema = createInsertSchema(comments).omit({
   id: true,
@@ -444,25 +843,45 @@ export const insertTaskWatcherSchema = createInsertSchema(taskWatchers).omit({
 export type InsertTaskWatcher = z.infer<typeof insertTaskWatcherSchema>;
 export type TaskWatcher = typeof taskWatchers.$inferSelect;
 
+// Approval statuses - "waiting" rows belong to workflow stages that haven't been opened yet
+export const approvalStatuses = ["waiting", "pending", "approved", "rejected", "revision_requested", "skipped"] as const;
+export type ApprovalStatus = typeof approvalStatuses[number];
+
+// Task statuses that require every required approval stage to have passed
+export const approvalGatedTaskStatuses = ["APPROVED", "COMPLETED"] as const;
+
 // Approvals - for multi-stage approval workflow
 export const approvals = pgTable("approvals", {
   id: serial("id").primaryKey(),
   taskId: integer("task_id").notNull().references(() => contentTasks.id, { onDelete: "cascade" }),
   reviewerId: varchar("reviewer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, approved, rejected, skipped
+  status: varchar("status", { length: 50 }).$type<ApprovalStatus>().notNull().default("pending"),
   comments: text("comments"),
   reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }), // Who actually decided (reviewer, role member or escalation admin)
   createdAt: timestamp("created_at").defaultNow(),
   stage: integer("stage").notNull().default(1), // Stage order in multi-stage workflow
   stageName: varchar("stage_name", { length: 100 }), // e.g., "Internal Review", "Client Review", "Final Approval"
   isRequired: boolean("is_required").notNull().default(true), // Whether this approval is required to proceed
   dueDate: timestamp("due_date"), // Optional deadline for this approval stage
-});
+  // Workflow engine
+  workflowId: integer("workflow_id").references(() => approvalWorkflows.id, { onDelete: "set null" }),
+  workflowStageId: integer("workflow_stage_id").references(() => approvalWorkflowStages.id, { onDelete: "set null" }),
+  reviewerRole: varchar("reviewer_role", { length: 50 }), // Any user with this role may act on the stage
+  daysToComplete: integer("days_to_complete"), // Copied from the stage; dueDate is set when the stage opens
+  openedAt: timestamp("opened_at"),
+  escalatedAt: timestamp("escalated_at"),
+}, (table) => [
+  index("IDX_approvals_task").on(table.taskId, table.stage),
+  index("IDX_approvals_status_due").on(table.status, table.dueDate),
+]);
 
 export const insertApprovalSchema = createInsertSchema(approvals).omit({
   id: true,
   createdAt: true,
   reviewedAt: true,
+}).extend({
+  status: z.enum(approvalStatuses).optional(),
 });
 
 export type InsertApproval = z.infer<typeof insertApprovalSchema>;
@@ -639,6 +1058,25 @@ export const insertRecurringTaskSchema = createInsertSchema(recurringTasks).omit
 export type InsertRecurringTask = z.infer<typeof insertRecurringTaskSchema>;
 export type RecurringTask = typeof recurringTasks.$inferSelect;
 
+// Recurring Task Occurrences - one row per generated period, unique per date so catch-up never duplicates
+export const recurringTaskOccurrences = pgTable("recurring_task_occurrences", {
+  id: serial("id").primaryKey(),
+  recurringTaskId: integer("recurring_task_id").notNull().references(() => recurringTasks.id, { onDelete: "cascade" }),
+  occurrenceDate: varchar("occurrence_date", { length: 10 }).notNull(), // YYYY-MM-DD (UTC)
+  contentTaskId: integer("content_task_id").references(() => contentTasks.id, { onDelete: "set null" }),
+  generatedAt: timestamp("generated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_recurring_occurrence_unique").on(table.recurringTaskId, table.occurrenceDate),
+]);
+
+export const insertRecurringTaskOccurrenceSchema = createInsertSchema(recurringTaskOccurrences).omit({
+  id: true,
+  generatedAt: true,
+});
+
+export type InsertRecurringTaskOccurrence = z.infer<typeof insertRecurringTaskOccurrenceSchema>;
+export type RecurringTaskOccurrence = typeof recurringTaskOccurrences.$inferSelect;
+
 // Notification Preferences - user notification settings
 export const notificationPreferences = pgTable("notification_preferences", {
   id: serial("id").primaryKey(),
@@ -881,19 +1319,78 @@ export type MonitoringHourlyReport = typeof monitoringHourlyReports.$inferSelect
 export const paymentRequestStatuses = ["pending", "approved", "rejected", "cancelled"] as const;
 export type PaymentRequestStatus = typeof paymentRequestStatuses[number];
 
+// Money entered as a number or a string like "$1,250.5"; normalized to a two-place decimal string
+export const decimalAmountSchema = z.union([z.number(), z.string()])
+  .transform(value => String(value).trim().replace(/[$,\s]/g, ""))
+  .refine(value => /^\d{1,12}(\.\d{1,2})?$/.test(value), "Must be a positive amount with at most two decimal places")
+  .transform(value => Number(value).toFixed(2))
+  .refine(value => Number(value) > 0, "Must be greater than zero");
+
+export const budgetCapPeriods = ["monthly", "quarterly", "yearly"] as const;
+export type BudgetCapPeriod = typeof budgetCapPeriods[number];
+
+// Budget categories for payment requests, optionally capped per calendar period
+export const paymentBudgetCategories = pgTable("payment_budget_categories", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  currency: varchar("currency", { length: 10 }).notNull().default("USD"),
+  capAmount: numeric("cap_amount", { precision: 14, scale: 2 }), // Null means uncapped
+  capPeriod: varchar("cap_period", { length: 20 }).$type<BudgetCapPeriod>().notNull().default("monthly"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPaymentBudgetCategorySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).nullable().optional(),
+  currency: z.string().trim().min(1).max(10).default("USD"),
+  capAmount: decimalAmountSchema.nullable().optional(),
+  capPeriod: z.enum(budgetCapPeriods).default("monthly"),
+  isActive: z.boolean().optional(),
+});
+
+export type InsertPaymentBudgetCategory = typeof paymentBudgetCategories.$inferInsert;
+export type PaymentBudgetCategory = typeof paymentBudgetCategories.$inferSelect;
+
+// Requests above minAmount need requiredApprovals distinct admins; the highest matching threshold applies.
+// Requests no threshold matches need one approval.
+export const paymentApprovalThresholds = pgTable("payment_approval_thresholds", {
+  id: serial("id").primaryKey(),
+  minAmount: numeric("min_amount", { precision: 14, scale: 2 }).notNull().unique(),
+  requiredApprovals: integer("required_approvals").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const upsertPaymentApprovalThresholdSchema = z.object({
+  minAmount: decimalAmountSchema,
+  requiredApprovals: z.number().int().min(1).max(10),
+});
+
+export type InsertPaymentApprovalThreshold = typeof paymentApprovalThresholds.$inferInsert;
+export type PaymentApprovalThreshold = typeof paymentApprovalThresholds.$inferSelect;
+
 // Payment Requests - content team members can request payments for missed items
 export const paymentRequests = pgTable("payment_requests", {
   id: serial("id").primaryKey(),
   requesterId: varchar("requester_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  amount: text("amount").notNull(), // stored as text to support decimal formatting
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
   currency: varchar("currency", { length: 10 }).notNull().default("USD"),
   reason: text("reason").notNull(),
   description: text("description"), // additional details
+  categoryId: integer("category_id").references(() => paymentBudgetCategories.id, { onDelete: "set null" }),
   status: varchar("status", { length: 20 }).$type<PaymentRequestStatus>().notNull().default("pending"),
+  requiredApprovals: integer("required_approvals").notNull().default(1), // Fixed from the thresholds at submission
+  approvalCount: integer("approval_count").notNull().default(0),
   adminReviewerId: varchar("admin_reviewer_id").references(() => users.id, { onDelete: "set null" }),
   adminNote: text("admin_note"), // note from admin when approving/rejecting
   requestedAt: timestamp("requested_at").defaultNow().notNull(),
   reviewedAt: timestamp("reviewed_at"),
+  safeTxHash: varchar("safe_tx_hash", { length: 66 }), // Safe transaction that paid it
+  paidAt: timestamp("paid_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -905,17 +1402,68 @@ export const insertPaymentRequestSchema = createInsertSchema(paymentRequests).om
   status: true,
   adminReviewerId: true,
   adminNote: true,
+  safeTxHash: true,
+  paidAt: true,
+  requiredApprovals: true,
+  approvalCount: true,
 });
 
-export type InsertPaymentRequest = z.infer<typeof insertPaymentRequestSchema>;
+export type InsertPaymentRequest = typeof paymentRequests.$inferInsert;
 export type PaymentRequest = typeof paymentRequests.$inferSelect;
 
+export const createPaymentRequestSchema = z.object({
+  amount: decimalAmountSchema,
+  currency: z.string().trim().min(1).max(10).default("USD"),
+  reason: z.string().trim().min(1).max(500),
+  description: z.string().max(5000).nullable().optional(),
+  categoryId: z.coerce.number().int().positive().nullable().optional(),
+});
+
+export const reviewPaymentRequestSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().max(2000).optional(),
+}).refine(review => review.status !== "rejected" || !!review.note?.trim(), { message: "A reason is required to reject", path: ["note"] });
+
+// One row per admin approving a request; a request is approved once it has requiredApprovals rows
+export const paymentRequestApprovals = pgTable("payment_request_approvals", {
+  id: serial("id").primaryKey(),
+  paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id, { onDelete: "cascade" }),
+  approverId: varchar("approver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("IDX_payment_request_approvals_approver").on(table.paymentRequestId, table.approverId),
+]);
+
+export type PaymentRequestApproval = typeof paymentRequestApprovals.$inferSelect;
+
+// Receipts attached to a payment request, stored under uploads/payment-receipts
+export const paymentRequestReceipts = pgTable("payment_request_receipts", {
+  id: serial("id").primaryKey(),
+  paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id, { onDelete: "cascade" }),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  filePath: text("file_path").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_payment_request_receipts_request").on(table.paymentRequestId),
+]);
+
+export type InsertPaymentRequestReceipt = typeof paymentRequestReceipts.$inferInsert;
+export type PaymentRequestReceipt = typeof paymentRequestReceipts.$inferSelect;
+
+export const paymentRequestEventTypes = ["created", "approval_recorded", "approved", "rejected", "cancelled", "receipt_added", "receipt_removed"] as const;
+export type PaymentRequestEventType = typeof paymentRequestEventTypes[number];
+
 // Payment Request Events - audit trail for status changes
 export const paymentRequestEvents = pgTable("payment_request_events", {
   id: serial("id").primaryKey(),
   paymentRequestId: integer("payment_request_id").notNull().references(() => paymentRequests.id, { onDelete: "cascade" }),
   actorId: varchar("actor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  eventType: varchar("event_type", { length: 30 }).notNull(), // created, approved, rejected, cancelled, updated
+  eventType: varchar("event_type", { length: 30 }).$type<PaymentRequestEventType>().notNull(),
   previousStatus: varchar("previous_status", { length: 20 }),
   newStatus: varchar("new_status", { length: 20 }),
   note: text("note"),
@@ -927,7 +1475,7 @@ export const insertPaymentRequestEventSchema = createInsertSchema(paymentRequest
   createdAt: true,
 });
 
-export type InsertPaymentRequestEvent = z.infer<typeof insertPaymentRequestEventSchema>;
+export type InsertPaymentRequestEvent = typeof paymentRequestEvents.$inferInsert;
 export type PaymentRequestEvent = typeof paymentRequestEvents.$inferSelect;
 
 // ==================== BRAND PACKS TABLES ====================
@@ -1099,14 +1647,20 @@ export type MultiColumnTask = typeof multiColumnTasks.$inferSelect;
 // ==================== CLIENT CREDITS SYSTEM ====================
 
 // Transaction types for credit history
-export const creditTransactionTypes = ["credit_added", "credit_used", "credit_adjusted", "credit_refunded"] as const;
+export const creditTransactionTypes = ["credit_added", "credit_used", "credit_adjusted", "credit_refunded", "credit_held", "credit_captured", "credit_released"] as const;
 export type CreditTransactionType = typeof creditTransactionTypes[number];
 
+// Ledger accounts: every credit transaction posts entries to two of these that sum to zero.
+// client_available/client_held are per-user; platform accounts are shared (userId null).
+export const creditLedgerAccounts = ["client_available", "client_held", "platform_revenue", "platform_issuance"] as const;
+export type CreditLedgerAccount = typeof creditLedgerAccounts[number];
+
 // Client Credits - tracks available balance for each client/user
 export const clientCredits = pgTable("client_credits", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
-  balance: integer("balance").notNull().default(0), // Balance in cents (e.g., $250 = 25000)
+  balance: integer("balance").notNull().default(0), // Available balance in cents (e.g., $250 = 25000)
+  heldBalance: integer("held_balance").notNull().default(0), // Reserved for submitted orders, not yet captured
   currency: varchar("currency", { length: 10 }).notNull().default("USD"),
   notes: text("notes"), // Admin notes about this client's credits
   createdAt: timestamp("created_at").defaultNow(),
@@ -1115,6 +1669,7 @@ export const clientCredits = pgTable("client_credits", {
 
 export const insertClientCreditSchema = createInsertSchema(clientCredits).omit({
   id: true,
+  heldBalance: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -1127,22 +1682,65 @@ export const creditTransactions = pgTable("credit_transactions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   type: varchar("type", { length: 50 }).$type<CreditTransactionType>().notNull(),
-  amount: integer("amount").notNull(), // Amount in cents (positive for add, negative for deduct)
-  balanceAfter: integer("balance_after").notNull(), // Balance after this transaction
+  amount: integer("amount").notNull(), // Change to the available balance in cents (positive for add, negative for deduct/hold)
+  balanceAfter: integer("balance_after").notNull(), // Available balance after this transaction
+  heldAfter: integer("held_after"), // Held balance after this transaction (null for pre-ledger rows)
   description: text("description"), // Description of the transaction
   taskId: integer("task_id").references(() => contentTasks.id, { onDelete: "set null" }), // If credit was used for a task
+  orderId: integer("order_id").references(() => contentOrders.id, { onDelete: "set null" }), // Content order this hold/capture/release belongs to
+  idempotencyKey: varchar("idempotency_key", { length: 150 }).unique(), // Replaying a key returns the original transaction
   performedBy: varchar("performed_by").references(() => users.id, { onDelete: "set null" }), // Admin who made the change
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_credit_transactions_user").on(table.userId, table.createdAt),
+  index("IDX_credit_transactions_order").on(table.orderId),
+]);
 
 export const insertCreditTransactionSchema = createInsertSchema(creditTransactions).omit({
   id: true,
   createdAt: true,
+}).extend({
+  type: z.enum(creditTransactionTypes),
 });
 
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 
+// Credit Ledger Entries - double-entry lines; the entries of one transaction always sum to zero
+export const creditLedgerEntries = pgTable("credit_ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => creditTransactions.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Null for platform accounts
+  account: varchar("account", { length: 30 }).$type<CreditLedgerAccount>().notNull(),
+  amount: integer("amount").notNull(), // Signed cents; positive increases the account
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_credit_ledger_entry_unique").on(table.transactionId, table.account),
+  index("IDX_credit_ledger_user_account").on(table.userId, table.account),
+]);
+
+export type CreditLedgerEntry = typeof creditLedgerEntries.$inferSelect;
+
+// Result of recomputing balances from ledger entries
+export interface CreditReconciliationDrift {
+  userId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  storedHeld: number;
+  ledgerHeld: number;
+  transactionBalance: number; // Sum of credit_transactions.amount, for cross-checking
+}
+
+export interface CreditReconciliationReport {
+  checkedAt: string;
+  accountsChecked: number;
+  unledgeredTransactions: number; // Transactions from before the ledger, still without entries
+  drift: CreditReconciliationDrift[];
+  unbalancedTransactions: Array<{ transactionId: number; total: number }>;
+  orphanedHolds: Array<{ orderId: number; userId: string; held: number; orderStatus: string | null }>;
+  platform: { revenue: number; issuance: number };
+}
+
 // ==================== CLIENT CREDIT REQUESTS ====================
 
 // Credit request statuses
@@ -1530,7 +2128,9 @@ export const clientProfiles = pgTable("client_profiles", {
   createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_client_profiles_search").using("gin", clientProfileSearchVector(table)),
+]);
 
 export const insertClientProfileSchema = createInsertSchema(clientProfiles).omit({
   id: true,
@@ -1652,6 +2252,10 @@ export const employmentTypes = [
 ] as const;
 export type EmploymentType = typeof employmentTypes[number];
 
+// How a team member is paid; payRate is per week, per month or per completed task
+export const payFrequencies = ["weekly", "monthly", "per_task"] as const;
+export type PayFrequency = typeof payFrequencies[number];
+
 export const internalTeamMembers = pgTable("internal_team_members", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
@@ -1664,7 +2268,7 @@ export const internalTeamMembers = pgTable("internal_team_members", {
   walletAddress: varchar("wallet_address", { length: 255 }),
   walletChain: varchar("wallet_chain", { length: 20 }).default("base"), // base, eth, sol
   payRate: real("pay_rate").default(0), // Weekly/monthly rate in USD
-  payFrequency: varchar("pay_frequency", { length: 20 }).default("weekly"), // weekly, monthly, per_task
+  payFrequency: varchar("pay_frequency", { length: 20 }).$type<PayFrequency>().default("weekly"), // weekly, monthly, per_task
   paymentMethod: varchar("payment_method", { length: 50 }).default("crypto_base"),
   paymentNotes: text("payment_notes"), // Special payment instructions
   email: varchar("email", { length: 255 }),
@@ -1717,6 +2321,95 @@ export const insertTeamPaymentHistorySchema = createInsertSchema(teamPaymentHist
 export type InsertTeamPaymentHistory = z.infer<typeof insertTeamPaymentHistorySchema>;
 export type TeamPaymentHistory = typeof teamPaymentHistory.$inferSelect;
 
+// ==================== PAYROLL RUNS ====================
+
+// Runs go draft → approved → paid; cancelling a run frees its period for a new one
+export const payrollRunStatuses = ["draft", "approved", "paid", "cancelled"] as const;
+export type PayrollRunStatus = typeof payrollRunStatuses[number];
+
+// Bonuses add to a line, deductions subtract, adjustments go either way
+export const payrollAdjustmentKinds = ["bonus", "deduction", "adjustment"] as const;
+export type PayrollAdjustmentKind = typeof payrollAdjustmentKinds[number];
+
+export interface PayrollAdjustment {
+  id: string;
+  kind: PayrollAdjustmentKind;
+  amount: number; // Signed USD amount added to the line total
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// One run per pay frequency and period; weekly and per-task periods start on Monday (UTC)
+export const payrollRuns = pgTable("payroll_runs", {
+  id: serial("id").primaryKey(),
+  payFrequency: varchar("pay_frequency", { length: 20 }).$type<PayFrequency>().notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive
+  status: varchar("status", { length: 20 }).$type<PayrollRunStatus>().default("draft"),
+  currency: varchar("currency", { length: 10 }).default("USDC"),
+  totalAmount: real("total_amount").default(0),
+  memberCount: integer("member_count").default(0),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // Null when generated on schedule
+  approvedBy: varchar("approved_by").references(() => users.id, { onDelete: "set null" }),
+  approvedAt: timestamp("approved_at"),
+  paidBy: varchar("paid_by").references(() => users.id, { onDelete: "set null" }),
+  paidAt: timestamp("paid_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_payroll_runs_period").on(table.payFrequency, table.periodStart).where(sql`status <> 'cancelled'`),
+]);
+
+export type InsertPayrollRun = typeof payrollRuns.$inferInsert;
+export type PayrollRun = typeof payrollRuns.$inferSelect;
+
+// What one member is owed in a run, with the inputs it was computed from
+export const payrollRunLines = pgTable("payroll_run_lines", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => payrollRuns.id, { onDelete: "cascade" }),
+  memberId: integer("member_id").notNull().references(() => internalTeamMembers.id, { onDelete: "cascade" }),
+  memberName: varchar("member_name", { length: 255 }).notNull(),
+  payFrequency: varchar("pay_frequency", { length: 20 }).$type<PayFrequency>().notNull(),
+  payRate: real("pay_rate").notNull(),
+  baseAmount: real("base_amount").notNull(), // From rate and frequency, or rate × completed tasks
+  hoursLogged: real("hours_logged").default(0), // time_entries in the period
+  taskIds: jsonb("task_ids").$type<number[]>().default([]), // Tasks paid on this line (per-task workers)
+  adjustments: jsonb("adjustments").$type<PayrollAdjustment[]>().default([]),
+  totalAmount: real("total_amount").notNull(),
+  calculation: text("calculation"), // e.g. "4 tasks × $150.00"
+  walletAddress: varchar("wallet_address", { length: 255 }),
+  walletChain: varchar("wallet_chain", { length: 20 }),
+  paymentMethod: varchar("payment_method", { length: 50 }),
+  teamPaymentId: integer("team_payment_id").references(() => teamPaymentHistory.id, { onDelete: "set null" }), // Created on approval
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_payroll_run_lines_member").on(table.runId, table.memberId),
+]);
+
+export type InsertPayrollRunLine = typeof payrollRunLines.$inferInsert;
+export type PayrollRunLine = typeof payrollRunLines.$inferSelect;
+
+export const createPayrollRunSchema = z.object({
+  payFrequency: z.enum(payFrequencies),
+  periodStart: z.coerce.date().optional(), // Defaults to the latest completed period
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const createPayrollAdjustmentSchema = z.object({
+  kind: z.enum(payrollAdjustmentKinds),
+  amount: z.number().finite().refine(a => a !== 0, "Amount can't be zero"),
+  reason: z.string().min(1).max(500),
+});
+
+export const markPayrollRunPaidSchema = z.object({
+  txHash: z.string().max(100).nullable().optional(),
+  paidAt: z.coerce.date().optional(),
+});
+
 // ==================== TEAM MEMBER CLIENT ASSIGNMENTS ====================
 
 export const teamMemberClientAssignments = pgTable("team_member_client_assignments", {
@@ -2016,7 +2709,9 @@ export const clientDocuments = pgTable("client_documents", {
   isArchived: boolean("is_archived").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_client_documents_search").using("gin", clientDocumentSearchVector(table)),
+]);
 
 export const insertClientDocumentSchema = createInsertSchema(clientDocuments).omit({
   id: true,
@@ -2082,6 +2777,7 @@ export const whiteboardElements = pgTable("whiteboard_elements", {
   linkedTaskId: integer("linked_task_id").references(() => contentTasks.id, { onDelete: "set null" }),
   linkedPersonalTaskId: integer("linked_personal_task_id").references(() => tasks.id, { onDelete: "set null" }),
   metadata: jsonb("metadata"), // Additional element-specific data
+  version: integer("version").notNull().default(1), // Bumped on every update; edits based on a stale version are rejected
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -2089,6 +2785,7 @@ export const whiteboardElements = pgTable("whiteboard_elements", {
 
 export const insertWhiteboardElementSchema = createInsertSchema(whiteboardElements).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -2107,11 +2804,13 @@ export const whiteboardConnectors = pgTable("whiteboard_connectors", {
   toAnchor: varchar("to_anchor", { length: 20 }).default("center"),
   style: jsonb("style"), // Line style, arrow heads, color
   label: text("label"),
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertWhiteboardConnectorSchema = createInsertSchema(whiteboardConnectors).omit({
   id: true,
+  version: true,
   createdAt: true,
 });
 
@@ -2144,6 +2843,9 @@ export const insertWhiteboardCollaboratorSchema = createInsertSchema(whiteboardC
 export type InsertWhiteboardCollaborator = z.infer<typeof insertWhiteboardCollaboratorSchema>;
 export type WhiteboardCollaborator = typeof whiteboardCollaborators.$inferSelect;
 
+export const whiteboardPermissions = ["view", "comment", "edit"] as const;
+export type WhiteboardPermission = typeof whiteboardPermissions[number];
+
 // ==================== DAO MANAGEMENT SYSTEM ====================
 
 // DAO Roles (6 tiers: Contributor → Senior Partner)
@@ -2172,6 +2874,7 @@ export const daoMemberships = pgTable("dao_memberships", {
   cumulativeRevenue: integer("cumulative_revenue").default(0), // Total attributed revenue in cents
   activeFrom: timestamp("active_from").defaultNow(),
   activeTo: timestamp("active_to"), // null = still active
+  probationSince: timestamp("probation_since"), // Set while the member is on probation at their tier
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -2240,6 +2943,50 @@ export const insertDaoDiscountSchema = createInsertSchema(daoDiscounts).omit({ i
 export type InsertDaoDiscount = z.infer<typeof insertDaoDiscountSchema>;
 export type DaoDiscount = typeof daoDiscounts.$inferSelect;
 
+// DAO Revenue Split Policies (versioned; a change creates a new version rather than editing one)
+export const daoRevenueSplitPolicies = pgTable("dao_revenue_split_policies", {
+  id: serial("id").primaryKey(),
+  policyKey: varchar("policy_key", { length: 100 }).notNull(), // Groups the versions of one policy, e.g. "standard"
+  version: integer("version").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  treasuryPercent: real("treasury_percent").notNull(), // Share of each paid invoice sent to treasury
+  leadPercent: real("lead_percent").notNull(), // Role slot shares are percentages of the project amount
+  pmPercent: real("pm_percent").notNull(),
+  corePercent: real("core_percent").notNull(), // Split evenly between core contributors
+  supportPercent: real("support_percent").notNull(), // Split evenly between support contributors
+  overheadPercent: real("overhead_percent").notNull(),
+  roleMultipliers: jsonb("role_multipliers").$type<Record<string, number>>().default({}), // DAO role id -> performance multiplier
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"), // Set when the next version takes effect
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_split_policy_version").on(table.policyKey, table.version),
+]);
+
+const splitPercentSchema = z.number().min(0).max(100);
+
+export const insertDaoRevenueSplitPolicySchema = createInsertSchema(daoRevenueSplitPolicies)
+  .omit({ id: true, version: true, effectiveTo: true, createdBy: true, createdAt: true })
+  .extend({
+    policyKey: z.string().trim().min(1).max(100).regex(/^[a-z0-9_-]+$/, "Use lowercase letters, digits, '-' or '_'"),
+    treasuryPercent: splitPercentSchema,
+    leadPercent: splitPercentSchema,
+    pmPercent: splitPercentSchema,
+    corePercent: splitPercentSchema,
+    supportPercent: splitPercentSchema,
+    overheadPercent: splitPercentSchema,
+    roleMultipliers: z.record(z.string().regex(/^\d+$/, "Keys must be DAO role ids"), z.number().positive()).optional(),
+    effectiveFrom: z.coerce.date().optional(),
+  })
+  .refine(
+    p => p.leadPercent + p.pmPercent + p.corePercent + p.supportPercent + p.overheadPercent <= 100,
+    { message: "Role slot percentages cannot add up to more than 100", path: ["leadPercent"] },
+  );
+export type InsertDaoRevenueSplitPolicy = z.infer<typeof insertDaoRevenueSplitPolicySchema>;
+export type DaoRevenueSplitPolicy = typeof daoRevenueSplitPolicies.$inferSelect;
+
 // DAO Project Statuses
 export const daoProjectStatuses = ["proposal", "negotiation", "contract_pending", "active", "on_hold", "completed", "cancelled"] as const;
 export type DaoProjectStatus = typeof daoProjectStatuses[number];
@@ -2251,8 +2998,9 @@ export const daoProjects = pgTable("dao_projects", {
   description: text("description"),
   clientProfileId: integer("client_profile_id").references(() => clientProfiles.id, { onDelete: "set null" }),
   status: varchar("status", { length: 30 }).$type<DaoProjectStatus>().default("proposal"),
-  leadMembershipId: integer("lead_membership_id").references(() => daoMemberships.id), // Team Lead (30%)
-  pmMembershipId: integer("pm_membership_id").references(() => daoMemberships.id), // Project Manager (15%)
+  leadMembershipId: integer("lead_membership_id").references(() => daoMemberships.id), // Team Lead
+  pmMembershipId: integer("pm_membership_id").references(() => daoMemberships.id), // Project Manager
+  splitPolicyId: integer("split_policy_id").references(() => daoRevenueSplitPolicies.id), // Pinned split policy version
   discountId: integer("discount_id").references(() => daoDiscounts.id, { onDelete: "set null" }),
   totalQuotedAmount: integer("total_quoted_amount"), // In cents before discount
   discountAmount: integer("discount_amount").default(0), // Discount applied
@@ -2264,12 +3012,14 @@ export const daoProjects = pgTable("dao_projects", {
   kickoffDate: timestamp("kickoff_date"),
   targetCompletionDate: timestamp("target_completion_date"),
   actualCompletionDate: timestamp("actual_completion_date"),
-  treasuryContribution: integer("treasury_contribution"), // 15% of final amount
+  treasuryContribution: integer("treasury_contribution"), // Final amount x the pinned policy's treasury share
   notes: text("notes"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_dao_projects_search").using("gin", daoProjectSearchVector(table)),
+]);
 
 export const insertDaoProjectSchema = createInsertSchema(daoProjects).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertDaoProject = z.infer<typeof insertDaoProjectSchema>;
@@ -2304,6 +3054,7 @@ export const daoRevenueAttributions = pgTable("dao_revenue_attributions", {
   percentAllocation: real("percent_allocation").notNull(), // e.g., 30 for lead, 15 for PM
   attributedAmount: integer("attributed_amount"), // Calculated from project final amount
   performanceMultiplier: real("performance_multiplier").default(1.0),
+  splitPolicyId: integer("split_policy_id").references(() => daoRevenueSplitPolicies.id), // Policy the allocation was derived from
   notes: text("notes"),
   isApproved: boolean("is_approved").default(false),
   approvedBy: varchar("approved_by").references(() => users.id),
@@ -2341,6 +3092,11 @@ export const daoTreasury = pgTable("dao_treasury", {
   balance: integer("balance").notNull().default(0), // Current balance in cents
   lastBonusTriggerBalance: integer("last_bonus_trigger_balance").default(0),
   bonusTriggerThreshold: integer("bonus_trigger_threshold").default(10000000), // $100,000 in cents
+  bonusApprovalQuorum: integer("bonus_approval_quorum").default(4), // Council approvals a bonus proposal needs (capped at council size)
+  // Treasury reconciliation against Safe history
+  reconciliationWindowDays: integer("reconciliation_window_days").default(7), // Max days between a ledger entry and its Safe transaction
+  reconciliationAmountToleranceBps: integer("reconciliation_amount_tolerance_bps").default(100), // Allowed USD difference when matching (price moves)
+  reconciliationDriftToleranceBps: integer("reconciliation_drift_tolerance_bps").default(100), // Ledger vs Safe balance drift before a close is flagged
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -2358,6 +3114,9 @@ export const daoTreasuryTransactions = pgTable("dao_treasury_transactions", {
   projectId: integer("project_id").references(() => daoProjects.id, { onDelete: "set null" }),
   bonusRunId: integer("bonus_run_id"), // References bonus runs
   memo: text("memo"),
+  // Optional hints for reconciliation against Safe history
+  tokenSymbol: varchar("token_symbol", { length: 20 }),
+  counterpartyAddress: varchar("counterparty_address", { length: 42 }),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -2366,20 +3125,73 @@ export const insertDaoTreasuryTransactionSchema = createInsertSchema(daoTreasury
 export type InsertDaoTreasuryTransaction = z.infer<typeof insertDaoTreasuryTransactionSchema>;
 export type DaoTreasuryTransaction = typeof daoTreasuryTransactions.$inferSelect;
 
-// DAO Bonus Runs (triggered when treasury hits threshold)
+// Bonus Run Statuses (proposed runs need council approvals before they execute)
+export const daoBonusRunStatuses = ["proposed", "approved", "executed", "rejected", "cancelled"] as const;
+export type DaoBonusRunStatus = typeof daoBonusRunStatuses[number];
+
+// Bonus scoring models; role_multiplier is the split used before contribution weighting
+export const daoBonusScoringModels = ["contribution_weighted", "role_multiplier"] as const;
+export type DaoBonusScoringModel = typeof daoBonusScoringModels[number];
+
+// Blend of a contribution-weighted score; the parts are normalised, so only their ratio matters
+export interface DaoBonusScoringWeights {
+  base: number;
+  revenue: number;
+  reliability: number;
+}
+
+export interface DaoBonusScoreFactor {
+  factor: "role" | "base" | "revenue" | "reliability";
+  label: string;
+  value: number; // Before weighting: the role multiplier, revenue vs the DAO average (1 = average), or reliability (0-1)
+  weight: number;
+  detail: string;
+}
+
+export const daoBonusScoringOptionsSchema = z.object({
+  scoringModel: z.enum(daoBonusScoringModels).optional(),
+  weights: z.object({
+    base: z.number().min(0),
+    revenue: z.number().min(0),
+    reliability: z.number().min(0),
+  }).refine(w => w.base + w.revenue + w.reliability > 0, "At least one weight must be positive").optional(),
+});
+
+// Why a recipient got their share, stored with the recipient row
+export interface DaoBonusShareExplanation {
+  model: DaoBonusScoringModel;
+  score: number;
+  scoreShare: number; // Fraction of all scores in the run
+  factors: DaoBonusScoreFactor[];
+  summary: string;
+}
+
+// DAO Bonus Runs (proposed once the treasury hits its threshold, executed after council quorum)
 export const daoBonusRuns = pgTable("dao_bonus_runs", {
   id: serial("id").primaryKey(),
+  status: varchar("status", { length: 20 }).$type<DaoBonusRunStatus>().default("executed"), // Runs before proposals executed immediately
+  scoringModel: varchar("scoring_model", { length: 30 }).$type<DaoBonusScoringModel>().default("role_multiplier"),
+  scoringWeights: jsonb("scoring_weights").$type<DaoBonusScoringWeights>(),
+  previousRunId: integer("previous_run_id").references((): AnyPgColumn => daoBonusRuns.id), // Last executed run when proposed
+  periodStart: timestamp("period_start"), // Contribution window: previous run's execution up to the proposal
+  periodEnd: timestamp("period_end"),
   treasuryBalanceBefore: integer("treasury_balance_before").notNull(),
   totalDistributed: integer("total_distributed").notNull(),
   treasuryBalanceAfter: integer("treasury_balance_after").notNull(),
   recipientCount: integer("recipient_count").notNull(),
-  triggeredBy: varchar("triggered_by").references(() => users.id),
+  requiredApprovals: integer("required_approvals"),
+  councilSize: integer("council_size"),
+  triggeredBy: varchar("triggered_by").references(() => users.id), // Proposer
+  executedBy: varchar("executed_by").references(() => users.id),
   notes: text("notes"),
-  executedAt: timestamp("executed_at").defaultNow(),
+  closedReason: text("closed_reason"), // Why a proposal was rejected or cancelled
+  proposedAt: timestamp("proposed_at").defaultNow(),
+  executedAt: timestamp("executed_at"),
+  closedAt: timestamp("closed_at"),
 });
 
-export const insertDaoBonusRunSchema = createInsertSchema(daoBonusRuns).omit({ id: true, executedAt: true });
-export type InsertDaoBonusRun = z.infer<typeof insertDaoBonusRunSchema>;
+export const insertDaoBonusRunSchema = createInsertSchema(daoBonusRuns).omit({ id: true, proposedAt: true });
+export type InsertDaoBonusRun = typeof daoBonusRuns.$inferInsert;
 export type DaoBonusRun = typeof daoBonusRuns.$inferSelect;
 
 // DAO Bonus Run Recipients
@@ -2390,28 +3202,65 @@ export const daoBonusRunRecipients = pgTable("dao_bonus_run_recipients", {
   multiplier: real("multiplier").notNull(),
   baseShare: integer("base_share").notNull(), // Before multiplier
   finalAmount: integer("final_amount").notNull(), // After multiplier
+  score: real("score"), // Scoring model output; shares are proportional to it
+  explanation: jsonb("explanation").$type<DaoBonusShareExplanation>(),
+  safeTxHash: varchar("safe_tx_hash", { length: 66 }), // Safe transaction that paid it
+  paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertDaoBonusRunRecipientSchema = createInsertSchema(daoBonusRunRecipients).omit({ id: true, createdAt: true });
-export type InsertDaoBonusRunRecipient = z.infer<typeof insertDaoBonusRunRecipientSchema>;
+export type InsertDaoBonusRunRecipient = typeof daoBonusRunRecipients.$inferInsert;
 export type DaoBonusRunRecipient = typeof daoBonusRunRecipients.$inferSelect;
 
+// Council votes on a bonus proposal (one per council member)
+export const daoBonusRunVoteDecisions = ["approve", "reject"] as const;
+export type DaoBonusRunVoteDecision = typeof daoBonusRunVoteDecisions[number];
+
+export const daoBonusRunApprovals = pgTable("dao_bonus_run_approvals", {
+  id: serial("id").primaryKey(),
+  bonusRunId: integer("bonus_run_id").notNull().references(() => daoBonusRuns.id, { onDelete: "cascade" }),
+  membershipId: integer("membership_id").notNull().references(() => daoMemberships.id),
+  userId: varchar("user_id").references(() => users.id),
+  decision: varchar("decision", { length: 10 }).$type<DaoBonusRunVoteDecision>().notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_bonus_run_approvals_member").on(table.bonusRunId, table.membershipId),
+]);
+
+export type DaoBonusRunApproval = typeof daoBonusRunApprovals.$inferSelect;
+
 // Invoice Phases
 export const daoInvoicePhases = ["deposit", "midpoint", "completion", "custom"] as const;
 export type DaoInvoicePhase = typeof daoInvoicePhases[number];
 
 // Invoice Statuses
-export const daoInvoiceStatuses = ["draft", "sent", "paid", "overdue", "cancelled"] as const;
+export const daoInvoiceStatuses = ["draft", "sent", "paid", "overdue", "cancelled", "void"] as const;
 export type DaoInvoiceStatus = typeof daoInvoiceStatuses[number];
 
+// Invoice Types (credit notes reverse all or part of a paid invoice)
+export const daoInvoiceTypes = ["invoice", "credit_note"] as const;
+export type DaoInvoiceType = typeof daoInvoiceTypes[number];
+
+// Number prefixes; numbers look like INV-2026-0001 and come from a gap-free sequence per type and year
+export const daoInvoiceNumberPrefixes: Record<DaoInvoiceType, string> = {
+  invoice: "INV",
+  credit_note: "CN",
+};
+
 // DAO Invoices
 export const daoInvoices = pgTable("dao_invoices", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").notNull().references(() => daoProjects.id, { onDelete: "cascade" }),
-  invoiceNumber: varchar("invoice_number", { length: 50 }),
+  invoiceType: varchar("invoice_type", { length: 20 }).$type<DaoInvoiceType>().default("invoice"),
+  creditedInvoiceId: integer("credited_invoice_id").references((): AnyPgColumn => daoInvoices.id), // Invoice a credit note reverses
+  invoiceNumber: varchar("invoice_number", { length: 50 }), // Assigned when issued; drafts have none
+  sequenceYear: integer("sequence_year"),
+  sequenceNumber: integer("sequence_number"),
   phase: varchar("phase", { length: 20 }).$type<DaoInvoicePhase>().notNull(),
   amount: integer("amount").notNull(), // In cents
+  creditedAmount: integer("credited_amount").notNull().default(0), // Total of the credit notes issued against it, in cents
   status: varchar("status", { length: 20 }).$type<DaoInvoiceStatus>().default("draft"),
   dueDate: timestamp("due_date"),
   sentAt: timestamp("sent_at"),
@@ -2419,32 +3268,147 @@ export const daoInvoices = pgTable("dao_invoices", {
   paymentMethod: varchar("payment_method", { length: 50 }),
   paymentReference: varchar("payment_reference", { length: 255 }),
   paymentRequestId: integer("payment_request_id").references(() => paymentRequests.id, { onDelete: "set null" }),
+  splitPolicyId: integer("split_policy_id").references(() => daoRevenueSplitPolicies.id), // Policy applied when the invoice was paid
+  treasuryContribution: integer("treasury_contribution"), // Recorded when paid; negative on credit notes
+  revenueCredits: jsonb("revenue_credits").$type<Array<{ membershipId: number; amount: number }>>(), // Cumulative revenue credited per member when paid
+  issuedAt: timestamp("issued_at"),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
+  emailedAt: timestamp("emailed_at"),
+  emailedTo: varchar("emailed_to", { length: 255 }),
   notes: text("notes"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_invoices_sequence").on(table.invoiceType, table.sequenceYear, table.sequenceNumber),
+]);
+
+// Last number handed out per invoice type and year
+export const daoInvoiceSequences = pgTable("dao_invoice_sequences", {
+  sequenceKey: varchar("sequence_key", { length: 50 }).primaryKey(), // e.g. "invoice:2026"
+  invoiceType: varchar("invoice_type", { length: 20 }).$type<DaoInvoiceType>().notNull(),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export type DaoInvoiceSequence = typeof daoInvoiceSequences.$inferSelect;
+
 export const insertDaoInvoiceSchema = createInsertSchema(daoInvoices).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertDaoInvoice = z.infer<typeof insertDaoInvoiceSchema>;
 export type DaoInvoice = typeof daoInvoices.$inferSelect;
+export type DaoInvoiceSettlement = Pick<typeof daoInvoices.$inferInsert, "splitPolicyId" | "treasuryContribution" | "revenueCredits">;
+
+// Rank changes: promotions and demotions move a member between tiers, probation flags a member
+// who no longer meets their tier's standards and probation_cleared lifts it
+export const daoRankChangeTypes = ["promotion", "probation", "demotion", "probation_cleared"] as const;
+export type DaoRankChangeType = typeof daoRankChangeTypes[number];
+
+// Evaluation proposals wait for a council decision; admin-triggered promotions are applied directly
+export const daoRankProgressionStatuses = ["proposed", "applied", "rejected"] as const;
+export type DaoRankProgressionStatus = typeof daoRankProgressionStatuses[number];
+
+export const daoRankCriterionKeys = ["revenue", "tenure", "consistency", "peer_feedback", "lead_roles", "pm_roles"] as const;
+export type DaoRankCriterionKey = typeof daoRankCriterionKeys[number];
+
+// What a member had when evaluated
+export interface DaoRankMetrics {
+  cumulativeRevenue: number; // In cents
+  tenureDays: number;
+  consistencyScore: number | null; // Overall reliability, 1-5; null without consistency metrics
+  peerFeedbackAverage: number | null; // Mean overall rating received, 1-5
+  peerFeedbackCount: number;
+  leadRoleCount: number;
+  pmRoleCount: number;
+}
+
+export interface DaoRankCriterionCheck {
+  criterion: DaoRankCriterionKey;
+  label: string;
+  required: number;
+  actual: number | null;
+  met: boolean;
+}
+
+// Stored with each progression: the metrics and rule checks that justified it
+export interface DaoRankCriteriaSnapshot {
+  evaluatedAt: string;
+  currentTier: number;
+  targetTier: number | null; // Tier whose promotion rules were checked, if any
+  metrics: DaoRankMetrics;
+  promotionChecks: DaoRankCriterionCheck[];
+  holdChecks: DaoRankCriterionCheck[]; // The current tier's rules for staying in it
+  reason: string;
+}
+
+// Rank rules per tier; a null threshold isn't checked. Promotion into a tier also needs the
+// role's cumulativeRevenueRequired.
+export const daoRankCriteria = pgTable("dao_rank_criteria", {
+  id: serial("id").primaryKey(),
+  daoRoleId: integer("dao_role_id").notNull().references(() => daoRoles.id, { onDelete: "cascade" }).unique(),
+  // To be promoted into this tier
+  minTenureDays: integer("min_tenure_days"),
+  minConsistencyScore: real("min_consistency_score"),
+  minPeerFeedbackAverage: real("min_peer_feedback_average"),
+  minPeerFeedbackCount: integer("min_peer_feedback_count").default(3), // Ratings needed before the average counts
+  minLeadRoles: integer("min_lead_roles"),
+  minPmRoles: integer("min_pm_roles"),
+  // To stay in this tier; falling below either puts the member on probation
+  holdConsistencyScore: real("hold_consistency_score"),
+  holdPeerFeedbackAverage: real("hold_peer_feedback_average"),
+  probationDays: integer("probation_days").default(90), // Probation without recovering this long proposes a demotion
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type InsertDaoRankCriteria = typeof daoRankCriteria.$inferInsert;
+export type DaoRankCriteria = typeof daoRankCriteria.$inferSelect;
+
+const rankScore = z.number().min(1).max(5).nullable().optional();
+const rankCount = z.number().int().min(0).nullable().optional();
 
-// DAO Rank Progression (tracks milestone achievements)
+export const upsertDaoRankCriteriaSchema = z.object({
+  minTenureDays: rankCount,
+  minConsistencyScore: rankScore,
+  minPeerFeedbackAverage: rankScore,
+  minPeerFeedbackCount: rankCount,
+  minLeadRoles: rankCount,
+  minPmRoles: rankCount,
+  holdConsistencyScore: rankScore,
+  holdPeerFeedbackAverage: rankScore,
+  probationDays: z.number().int().min(1).max(730).nullable().optional(),
+});
+
+// DAO Rank Progression (promotions, probation and demotions, with the criteria behind them)
 export const daoRankProgressions = pgTable("dao_rank_progressions", {
   id: serial("id").primaryKey(),
   membershipId: integer("membership_id").notNull().references(() => daoMemberships.id, { onDelete: "cascade" }),
+  changeType: varchar("change_type", { length: 20 }).$type<DaoRankChangeType>().default("promotion"),
+  status: varchar("status", { length: 20 }).$type<DaoRankProgressionStatus>().default("applied"),
   fromRoleId: integer("from_role_id").references(() => daoRoles.id),
-  toRoleId: integer("to_role_id").notNull().references(() => daoRoles.id),
+  toRoleId: integer("to_role_id").notNull().references(() => daoRoles.id), // Same as fromRoleId for probation changes
   cumulativeRevenueAtPromotion: integer("cumulative_revenue_at_promotion").notNull(),
-  promotedAt: timestamp("promoted_at").defaultNow(),
+  criteriaSnapshot: jsonb("criteria_snapshot").$type<DaoRankCriteriaSnapshot>(),
+  promotedAt: timestamp("promoted_at").defaultNow(), // When recorded; proposals apply at reviewedAt
   approvedBy: varchar("approved_by").references(() => users.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id), // Council member who approved or rejected a proposal
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
   notes: text("notes"),
-});
+}, (table) => [
+  index("IDX_dao_rank_progressions_status").on(table.status, table.membershipId),
+]);
 
 export const insertDaoRankProgressionSchema = createInsertSchema(daoRankProgressions).omit({ id: true, promotedAt: true });
-export type InsertDaoRankProgression = z.infer<typeof insertDaoRankProgressionSchema>;
+export type InsertDaoRankProgression = typeof daoRankProgressions.$inferInsert;
 export type DaoRankProgression = typeof daoRankProgressions.$inferSelect;
 
+export const reviewDaoRankProgressionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
 // DAO Project Links (connect to content tasks/campaigns)
 export const daoProjectLinks = pgTable("dao_project_links", {
   id: serial("id").primaryKey(),
@@ -2908,7 +3872,9 @@ export const teamTasks = pgTable("team_tasks", {
   editableBy: varchar("editable_by", { length: 20 }).$type<EditPermission>().default("assignee"), // admin_only, assignee, team
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_team_tasks_search").using("gin", teamTaskSearchVector(table)),
+]);
 
 export const insertTeamTaskSchema = createInsertSchema(teamTasks).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertTeamTask = z.infer<typeof insertTeamTaskSchema>;
@@ -2952,6 +3918,24 @@ export type TeamTaskActivity = typeof teamTaskActivity.$inferSelect;
 export const safeTxTypes = ["transfer", "contract_interaction", "module_transaction", "rejection", "settings_change"] as const;
 export type SafeTxType = typeof safeTxTypes[number];
 
+// A call decoded from Safe calldata; a multiSend batch is stored as its inner calls
+export const decodedSafeActionKinds = [
+  "native_transfer", "erc20_transfer", "erc20_approve", "erc721_transfer", "erc1155_transfer",
+  "owner_change", "multisend", "contract_call", "empty",
+] as const;
+export type DecodedSafeActionKind = typeof decodedSafeActionKinds[number];
+
+export interface DecodedSafeAction {
+  kind: DecodedSafeActionKind;
+  summary: string;
+  to: string;
+  value: string; // Native value in wei
+  operation: number; // 0 = CALL, 1 = DELEGATECALL
+  method: string | null; // Function name, or the 4-byte selector when no ABI matched
+  contractName: string | null; // ABI registry name or address label
+  args: { name: string; type: string; value: string }[];
+}
+
 // Full transaction history for Safe wallets (includes executed and pending)
 export const daoSafeTxHistory = pgTable("dao_safe_tx_history", {
   id: serial("id").primaryKey(),
@@ -2988,6 +3972,10 @@ export const daoSafeTxHistory = pgTable("dao_safe_tx_history", {
   tokenSymbol: varchar("token_symbol", { length: 20 }),
   tokenDecimals: integer("token_decimals"),
   formattedValue: varchar("formatted_value", { length: 100 }), // Human-readable value
+  // Local calldata decoding (safe-decoder.ts)
+  summary: text("summary"), // e.g. "Transfer 5,000 USDC to alice.eth (0x12ab…cd34)"
+  decodedActions: jsonb("decoded_actions").$type<DecodedSafeAction[]>(),
+  signersNotifiedAt: timestamp("signers_notified_at"), // When owners were asked to sign
   // Timestamps
   submittedAt: timestamp("submitted_at"),
   executedAt: timestamp("executed_at"),
@@ -3016,6 +4004,351 @@ export const insertDaoSafeSignerSchema = createInsertSchema(daoSafeSigners).omit
 export type InsertDaoSafeSigner = z.infer<typeof insertDaoSafeSignerSchema>;
 export type DaoSafeSigner = typeof daoSafeSigners.$inferSelect;
 
+// ================== CONTRACT ABI REGISTRY ==================
+
+// ABIs uploaded for specific contracts so their Safe calldata decodes to named calls
+export const daoContractAbis = pgTable("dao_contract_abis", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  contractAddress: varchar("contract_address", { length: 42 }).notNull(), // Lowercase
+  name: varchar("name", { length: 100 }).notNull(),
+  abi: jsonb("abi").$type<unknown[]>().notNull(), // JSON ABI fragments
+  // Token metadata for amounts in summaries, when the contract is a token
+  tokenSymbol: varchar("token_symbol", { length: 20 }),
+  tokenDecimals: integer("token_decimals"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_contract_abis_address").on(table.chainId, table.contractAddress),
+]);
+
+export type InsertDaoContractAbi = typeof daoContractAbis.$inferInsert;
+export type DaoContractAbi = typeof daoContractAbis.$inferSelect;
+
+export const upsertDaoContractAbiSchema = z.object({
+  chainId: z.number().int().positive(),
+  contractAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  name: z.string().min(1).max(100),
+  abi: z.array(z.any()).min(1), // Also accepts Etherscan's stringified form, parsed before validation
+  tokenSymbol: z.string().max(20).optional(),
+  tokenDecimals: z.number().int().min(0).max(36).optional(),
+});
+
+// ================== SAFE PAYOUT BATCHES ==================
+
+// What a payout pays: a bonus run recipient, an approved payment request, or a pending team payment
+export const daoPayoutSourceTypes = ["bonus_recipient", "payment_request", "team_payment"] as const;
+export type DaoPayoutSourceType = typeof daoPayoutSourceTypes[number];
+
+// draft: JSON generated, not yet seen in the Safe; proposed: found in Safe history awaiting signatures
+export const daoPayoutBatchStatuses = ["draft", "proposed", "executed", "cancelled"] as const;
+export type DaoPayoutBatchStatus = typeof daoPayoutBatchStatuses[number];
+
+// Safe Transaction Builder batch file (the JSON imported in the Safe UI)
+export interface SafeTransactionBuilderTx {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: {
+    inputs: { internalType: string; name: string; type: string }[];
+    name: string;
+    payable: boolean;
+  } | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+export interface SafeTransactionBuilderBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransactionBuilderTx[];
+}
+
+export const daoPayoutBatches = pgTable("dao_payout_batches", {
+  id: serial("id").primaryKey(),
+  walletId: integer("wallet_id").notNull().references(() => daoSafeWallets.id, { onDelete: "cascade" }),
+  chainId: integer("chain_id").notNull(),
+  safeAddress: varchar("safe_address", { length: 42 }).notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  status: varchar("status", { length: 20 }).$type<DaoPayoutBatchStatus>().default("draft"),
+  tokenAddress: varchar("token_address", { length: 42 }), // null for the native token
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  tokenDecimals: integer("token_decimals").notNull(),
+  usdPrice: real("usd_price").notNull(), // USD per token used to convert payout amounts
+  totalUsdCents: integer("total_usd_cents").notNull(),
+  totalTokenAmount: varchar("total_token_amount", { length: 78 }).notNull(), // Base units
+  transactionCount: integer("transaction_count").notNull(),
+  builderJson: jsonb("builder_json").$type<SafeTransactionBuilderBatch>().notNull(),
+  // What the Safe transaction will contain, used to find it in dao_safe_tx_history
+  expectedTo: varchar("expected_to", { length: 42 }), // Only set for single-transfer batches; multisend targets vary by Safe version
+  expectedValue: varchar("expected_value", { length: 78 }).notNull(),
+  expectedData: text("expected_data").notNull(),
+  safeTxHash: varchar("safe_tx_hash", { length: 66 }),
+  txHash: varchar("tx_hash", { length: 66 }),
+  linkedAt: timestamp("linked_at"),
+  executedAt: timestamp("executed_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type InsertDaoPayoutBatch = typeof daoPayoutBatches.$inferInsert;
+export type DaoPayoutBatch = typeof daoPayoutBatches.$inferSelect;
+
+// One transfer in a batch; a source can only be in one batch (items are removed when a batch is cancelled)
+export const daoPayoutItems = pgTable("dao_payout_items", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => daoPayoutBatches.id, { onDelete: "cascade" }),
+  sourceType: varchar("source_type", { length: 30 }).$type<DaoPayoutSourceType>().notNull(),
+  sourceId: integer("source_id").notNull(),
+  position: integer("position").notNull(), // Index in the batch's transactions
+  recipientName: varchar("recipient_name", { length: 255 }),
+  recipientAddress: varchar("recipient_address", { length: 42 }).notNull(),
+  internalTeamMemberId: integer("internal_team_member_id").references(() => internalTeamMembers.id, { onDelete: "set null" }),
+  usdAmountCents: integer("usd_amount_cents").notNull(),
+  tokenAmount: varchar("token_amount", { length: 78 }).notNull(), // Base units
+  safeTxHash: varchar("safe_tx_hash", { length: 66 }),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_payout_items_source").on(table.sourceType, table.sourceId),
+]);
+
+export type InsertDaoPayoutItem = typeof daoPayoutItems.$inferInsert;
+export type DaoPayoutItem = typeof daoPayoutItems.$inferSelect;
+
+export const createDaoPayoutBatchSchema = z.object({
+  walletId: z.number().int(),
+  title: z.string().min(1).max(200).optional(),
+  tokenAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).nullable().optional(), // Omit or null for the native token
+  tokenDecimals: z.number().int().min(0).max(36).optional(),
+  tokenSymbol: z.string().max(20).optional(),
+  usdPrice: z.number().positive().optional(), // Defaults to 1 for ERC-20 tokens (stablecoins); required for the native token
+  bonusRunId: z.number().int().optional(), // Adds every recipient of the run
+  sources: z.array(z.object({
+    sourceType: z.enum(daoPayoutSourceTypes),
+    sourceId: z.number().int(),
+  })).optional(),
+}).refine(b => b.bonusRunId !== undefined || (b.sources?.length ?? 0) > 0, "Choose a bonus run or at least one payout source");
+
+// ================== TREASURY RECONCILIATION ==================
+
+// payout_batch: the ledger entry's bonus run was paid by a linked payout batch; ignored: one side needs no counterpart
+export const daoReconciliationMethods = ["payout_batch", "auto", "manual", "ignored"] as const;
+export type DaoReconciliationMethod = typeof daoReconciliationMethods[number];
+
+// Links dao_treasury_transactions entries to executed Safe transactions. A ledger entry links at most once;
+// a Safe transaction can cover several entries (a multisend). Ignored rows have only one side set.
+export const daoReconciliationLinks = pgTable("dao_reconciliation_links", {
+  id: serial("id").primaryKey(),
+  ledgerTransactionId: integer("ledger_transaction_id").references(() => daoTreasuryTransactions.id, { onDelete: "cascade" }),
+  safeTxHistoryId: integer("safe_tx_history_id").references(() => daoSafeTxHistory.id, { onDelete: "cascade" }),
+  method: varchar("method", { length: 20 }).$type<DaoReconciliationMethod>().notNull(),
+  ledgerAmountCents: integer("ledger_amount_cents"),
+  safeAmountCents: integer("safe_amount_cents"), // USD value of the Safe transaction's transfers, when priced
+  note: text("note"),
+  linkedBy: varchar("linked_by").references(() => users.id, { onDelete: "set null" }), // null for automatic matches
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_reconciliation_links_ledger").on(table.ledgerTransactionId),
+  index("IDX_dao_reconciliation_links_safe_tx").on(table.safeTxHistoryId),
+]);
+
+export type InsertDaoReconciliationLink = typeof daoReconciliationLinks.$inferInsert;
+export type DaoReconciliationLink = typeof daoReconciliationLinks.$inferSelect;
+
+export interface DaoReconciliationWalletBalance {
+  walletId: number;
+  label: string;
+  chainId: number;
+  safeAddress: string;
+  balanceUsdCents: number;
+  unpricedTokens: string[]; // Held tokens without a USD value, left out of the total
+}
+
+// Period close reports; the Safe side is the cached balances at the time of closing
+export const daoReconciliationPeriods = pgTable("dao_reconciliation_periods", {
+  id: serial("id").primaryKey(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  ledgerOpeningCents: integer("ledger_opening_cents").notNull(),
+  ledgerInflowCents: integer("ledger_inflow_cents").notNull(),
+  ledgerOutflowCents: integer("ledger_outflow_cents").notNull(), // Negative
+  ledgerClosingCents: integer("ledger_closing_cents").notNull(),
+  treasuryBalanceCents: integer("treasury_balance_cents").notNull(), // dao_treasury.balance when closed
+  safeBalanceUsdCents: integer("safe_balance_usd_cents").notNull(),
+  driftCents: integer("drift_cents").notNull(), // Safe balance minus ledger closing balance
+  driftToleranceBps: integer("drift_tolerance_bps").notNull(),
+  flagged: boolean("flagged").notNull().default(false),
+  flags: jsonb("flags").$type<string[]>().default([]),
+  matchedCount: integer("matched_count").notNull(),
+  unmatchedLedgerCount: integer("unmatched_ledger_count").notNull(),
+  unmatchedSafeCount: integer("unmatched_safe_count").notNull(),
+  walletBalances: jsonb("wallet_balances").$type<DaoReconciliationWalletBalance[]>().default([]),
+  note: text("note"),
+  closedBy: varchar("closed_by").references(() => users.id, { onDelete: "set null" }),
+  closedAt: timestamp("closed_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_reconciliation_periods_start").on(table.periodStart),
+]);
+
+export type InsertDaoReconciliationPeriod = typeof daoReconciliationPeriods.$inferInsert;
+export type DaoReconciliationPeriod = typeof daoReconciliationPeriods.$inferSelect;
+
+// Both sides link them manually; one side alone marks it as needing no counterpart
+export const createDaoReconciliationLinkSchema = z.object({
+  ledgerTransactionId: z.number().int().optional(),
+  safeTxHistoryId: z.number().int().optional(),
+  note: z.string().max(1000).optional(),
+}).refine(b => b.ledgerTransactionId !== undefined || b.safeTxHistoryId !== undefined, "Choose a ledger entry, a Safe transaction, or both")
+  .refine(b => (b.ledgerTransactionId !== undefined && b.safeTxHistoryId !== undefined) || !!b.note?.trim(), "Explain why the item needs no counterpart");
+
+export const closeDaoReconciliationPeriodSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  note: z.string().max(2000).optional(),
+}).refine(b => b.periodEnd > b.periodStart, "periodEnd must be after periodStart");
+
+// ================== TREASURY HISTORY ==================
+
+// Where a USD price came from: a fixed 1.0 for stablecoins, the manual/CSV feed, or the Safe Transaction Service
+export const treasuryPriceSources = ["stablecoin", "manual", "csv", "safe_service"] as const;
+export type TreasuryPriceSource = typeof treasuryPriceSources[number];
+
+// Price feed entered by admins or imported from CSV; one price per token symbol per day
+export const daoTokenPrices = pgTable("dao_token_prices", {
+  id: serial("id").primaryKey(),
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(), // Uppercase
+  priceDate: varchar("price_date", { length: 10 }).notNull(), // YYYY-MM-DD (UTC)
+  usdPrice: real("usd_price").notNull(),
+  source: varchar("source", { length: 20 }).$type<TreasuryPriceSource>().notNull().default("manual"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_token_prices_symbol_date").on(table.tokenSymbol, table.priceDate),
+]);
+
+export type InsertDaoTokenPrice = typeof daoTokenPrices.$inferInsert;
+export type DaoTokenPrice = typeof daoTokenPrices.$inferSelect;
+
+// Daily balance per wallet and token; taking another snapshot the same day replaces it
+export const daoSafeBalanceSnapshots = pgTable("dao_safe_balance_snapshots", {
+  id: serial("id").primaryKey(),
+  walletId: integer("wallet_id").notNull().references(() => daoSafeWallets.id, { onDelete: "cascade" }),
+  chainId: integer("chain_id").notNull(),
+  snapshotDate: varchar("snapshot_date", { length: 10 }).notNull(), // YYYY-MM-DD (UTC)
+  tokenKey: varchar("token_key", { length: 42 }).notNull(), // Lowercase token address, or "native"
+  tokenAddress: varchar("token_address", { length: 42 }), // null for the native token
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  tokenDecimals: integer("token_decimals").notNull(),
+  balance: varchar("balance", { length: 78 }).notNull(), // Base units
+  units: real("units").notNull(), // balance / 10^decimals
+  usdPrice: real("usd_price"),
+  balanceUsd: real("balance_usd"), // null when no price source had the token
+  priceSource: varchar("price_source", { length: 20 }).$type<TreasuryPriceSource>(),
+  fromCache: boolean("from_cache").notNull().default(false), // The Safe service was unreachable; cached balances were used
+  takenAt: timestamp("taken_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_dao_safe_balance_snapshots_day").on(table.walletId, table.tokenKey, table.snapshotDate),
+  index("IDX_dao_safe_balance_snapshots_date").on(table.snapshotDate),
+]);
+
+export type InsertDaoSafeBalanceSnapshot = typeof daoSafeBalanceSnapshots.$inferInsert;
+export type DaoSafeBalanceSnapshot = typeof daoSafeBalanceSnapshots.$inferSelect;
+
+export const upsertDaoTokenPriceSchema = z.object({
+  tokenSymbol: z.string().min(1).max(20),
+  priceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  usdPrice: z.number().positive(),
+});
+
+// ================== ACCOUNTING EXPORTS ==================
+
+// general_ledger is a double-entry journal; xero and quickbooks follow their manual journal import layouts
+export const accountingExportFormats = ["general_ledger", "xero", "quickbooks"] as const;
+export type AccountingExportFormat = typeof accountingExportFormats[number];
+
+export const accountingExportSources = ["dao_invoices", "treasury_transactions", "credit_transactions", "team_payments", "payment_requests"] as const;
+export type AccountingExportSource = typeof accountingExportSources[number];
+
+// Ledger accounts journal lines post to; each maps to a code and name in the bookkeeper's chart of accounts
+export const accountingAccountKeys = [
+  "cash",
+  "treasury",
+  "accounts_receivable",
+  "accounts_payable",
+  "client_credit_liability",
+  "project_revenue",
+  "credit_revenue",
+  "payroll_expense",
+  "bonus_expense",
+  "reimbursement_expense",
+  "operating_expense",
+  "adjustments",
+] as const;
+export type AccountingAccountKey = typeof accountingAccountKeys[number];
+
+// Overrides of the default chart of accounts; keys without a row use the built-in code and name
+export const accountingAccountMappings = pgTable("accounting_account_mappings", {
+  accountKey: varchar("account_key", { length: 40 }).$type<AccountingAccountKey>().primaryKey(),
+  accountCode: varchar("account_code", { length: 30 }).notNull(),
+  accountName: varchar("account_name", { length: 150 }).notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type AccountingAccountMapping = typeof accountingAccountMappings.$inferSelect;
+
+export interface AccountingAccount {
+  key: AccountingAccountKey;
+  code: string;
+  name: string;
+}
+
+// A generated export file; rows are never updated, so a download always returns the original bytes
+export const accountingExports = pgTable("accounting_exports", {
+  id: serial("id").primaryKey(),
+  format: varchar("format", { length: 20 }).$type<AccountingExportFormat>().notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive
+  sources: jsonb("sources").$type<AccountingExportSource[]>().notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  content: text("content").notNull(),
+  sha256: varchar("sha256", { length: 64 }).notNull(),
+  journalCount: integer("journal_count").notNull(),
+  lineCount: integer("line_count").notNull(),
+  totalDebitCents: integer("total_debit_cents").notNull(),
+  chartOfAccounts: jsonb("chart_of_accounts").$type<AccountingAccount[]>().notNull(), // Mapping in effect when generated
+  warnings: jsonb("warnings").$type<string[]>().notNull().default([]),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_accounting_exports_period").on(table.periodStart, table.periodEnd),
+]);
+
+export type InsertAccountingExport = typeof accountingExports.$inferInsert;
+export type AccountingExport = typeof accountingExports.$inferSelect;
+
+export const createAccountingExportSchema = z.object({
+  format: z.enum(accountingExportFormats),
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  periodEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"), // Inclusive day
+  sources: z.array(z.enum(accountingExportSources)).min(1).optional(), // Defaults to all
+}).refine(input => input.periodStart <= input.periodEnd, { message: "periodEnd can't be before periodStart", path: ["periodEnd"] });
+
+export const updateAccountingAccountSchema = z.object({
+  accountCode: z.string().trim().min(1).max(30),
+  accountName: z.string().trim().min(1).max(150),
+});
+
 // ================== CLICKUP-INSPIRED TASK ENHANCEMENTS ==================
 
 // Task Categories - different kinds of work items (ClickUp-style)
@@ -3025,6 +4358,8 @@ export type TaskCategory = typeof taskCategories[number];
 // Dependency types between tasks
 export const dependencyTypes = ["blocks", "blocked_by", "relates_to", "duplicates", "parent_of", "child_of"] as const;
 export type DependencyType = typeof dependencyTypes[number];
+export const dependencyTaskTypes = ["content", "team"] as const;
+export type DependencyTaskType = typeof dependencyTaskTypes[number];
 
 // Task Dependencies - relationships between tasks
 export const taskDependencies = pgTable("task_dependencies", {
@@ -3038,7 +4373,11 @@ export const taskDependencies = pgTable("task_dependencies", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({ id: true, createdAt: true });
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({ id: true, createdAt: true }).extend({
+  taskType: z.enum(dependencyTaskTypes).optional(),
+  targetTaskType: z.enum(dependencyTaskTypes).optional(),
+  dependencyType: z.enum(dependencyTypes).optional(),
+});
 export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
 export type TaskDependency = typeof taskDependencies.$inferSelect;
 
@@ -3092,7 +4431,9 @@ export const taskDocs = pgTable("task_docs", {
   isArchived: boolean("is_archived").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_task_docs_search").using("gin", taskDocSearchVector(table)),
+]);
 
 export const insertTaskDocSchema = createInsertSchema(taskDocs).omit({ id: true, createdAt: true, updatedAt: true, lastEditedAt: true });
 export type InsertTaskDoc = z.infer<typeof insertTaskDocSchema>;
@@ -3209,7 +4550,22 @@ export const taskCustomFields = pgTable("task_custom_fields", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertTaskCustomFieldSchema = createInsertSchema(taskCustomFields).omit({ id: true, createdAt: true, updatedAt: true });
+// Choices for dropdown and labels fields; values store the option id
+export const customFieldOptionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  color: z.string().optional(),
+});
+export type CustomFieldOption = z.infer<typeof customFieldOptionSchema>;
+
+export const customFieldScopes = ["all", "content", "team", "client"] as const;
+export type CustomFieldScope = typeof customFieldScopes[number];
+
+export const insertTaskCustomFieldSchema = createInsertSchema(taskCustomFields).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  fieldType: z.enum(customFieldTypes),
+  options: z.array(customFieldOptionSchema).nullable().optional(),
+  scope: z.enum(customFieldScopes).optional(),
+});
 export type InsertTaskCustomField = z.infer<typeof insertTaskCustomFieldSchema>;
 export type TaskCustomField = typeof taskCustomFields.$inferSelect;
 
@@ -3228,6 +4584,24 @@ export const insertTaskCustomFieldValueSchema = createInsertSchema(taskCustomFie
 export type InsertTaskCustomFieldValue = z.infer<typeof insertTaskCustomFieldValueSchema>;
 export type TaskCustomFieldValue = typeof taskCustomFieldValues.$inferSelect;
 
+// Task list filter/sort syntax shared by the content and team task list endpoints and saved filters.
+// A field is a task column (e.g. "status", "dueDate") or a custom field as "cf.<id>".
+export const taskFilterOperators = ["eq", "neq", "gt", "gte", "lt", "lte", "contains", "in", "empty", "not_empty"] as const;
+export type TaskFilterOperator = typeof taskFilterOperators[number];
+
+export const taskFilterConditionSchema = z.object({
+  field: z.string().regex(/^(cf\.\d+|[a-zA-Z]+)$/, "Field must be a task field or cf.<id>"),
+  operator: z.enum(taskFilterOperators),
+  value: z.union([z.string(), z.array(z.string())]).optional(),
+});
+export type TaskFilterCondition = z.infer<typeof taskFilterConditionSchema>;
+
+export const taskSortSchema = z.object({
+  field: z.string().regex(/^(cf\.\d+|[a-zA-Z]+)$/, "Field must be a task field or cf.<id>"),
+  direction: z.enum(["asc", "desc"]),
+});
+export type TaskSort = z.infer<typeof taskSortSchema>;
+
 // Watcher Auto-Add Rules - when to automatically add watchers
 export const watcherAutoAddTriggers = ["create", "comment", "edit", "assign", "mention"] as const;
 export type WatcherAutoAddTrigger = typeof watcherAutoAddTriggers[number];
@@ -3509,3 +4883,80 @@ export const insertChatDigestPreferencesSchema = createInsertSchema(chatDigestPr
 });
 export type InsertChatDigestPreferences = z.infer<typeof insertChatDigestPreferencesSchema>;
 export type ChatDigestPreferences = typeof chatDigestPreferences.$inferSelect;
+
+// ==================== BACKGROUND JOBS ====================
+
+export const scheduledJobStatuses = ["active", "paused", "completed", "failed"] as const;
+export type ScheduledJobStatus = typeof scheduledJobStatuses[number];
+
+export const jobRunStatuses = ["running", "succeeded", "failed"] as const;
+export type JobRunStatus = typeof jobRunStatuses[number];
+
+// Scheduled Jobs - cron-style recurring jobs and one-off jobs, claimed with a lease so only one instance runs each
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  handler: varchar("handler", { length: 100 }).notNull(), // Key of a handler registered in job-scheduler.ts
+  description: text("description"),
+  schedule: varchar("schedule", { length: 100 }), // 5-field cron expression; null = one-off
+  payload: jsonb("payload"),
+  status: varchar("status", { length: 20 }).$type<ScheduledJobStatus>().notNull().default("active"),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: varchar("last_run_status", { length: 20 }).$type<JobRunStatus>(),
+  lastError: text("last_error"),
+  // Retry state - attempts resets after a successful run
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  backoffSeconds: integer("backoff_seconds").notNull().default(60), // Doubles on each retry
+  // Lease - set while an instance is executing the job
+  lockedBy: varchar("locked_by", { length: 100 }),
+  lockedUntil: timestamp("locked_until"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_scheduled_jobs_next_run").on(table.status, table.nextRunAt),
+]);
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  lastRunAt: true,
+  lastRunStatus: true,
+  lastError: true,
+  attempts: true,
+  lockedBy: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  status: z.enum(scheduledJobStatuses).optional(),
+});
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+
+// Job Runs - execution history for scheduled jobs
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => scheduledJobs.id, { onDelete: "cascade" }),
+  status: varchar("status", { length: 20 }).$type<JobRunStatus>().notNull().default("running"),
+  attempt: integer("attempt").notNull().default(1),
+  trigger: varchar("trigger", { length: 20 }).notNull().default("schedule"), // schedule, manual, retry
+  instanceId: varchar("instance_id", { length: 100 }),
+  result: jsonb("result"),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+}, (table) => [
+  index("IDX_job_runs_job").on(table.jobId, table.startedAt),
+]);
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+  startedAt: true,
+}).extend({
+  status: z.enum(jobRunStatuses).optional(),
+});
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;